@@ -0,0 +1,85 @@
+/**
+ * Patient Conversations Tests
+ *
+ * Tests verify the reply intent hints, the unread counts per queue/patient and their live updates.
+ */
+
+import {
+    applyMessageReceived,
+    clearPatientUnread,
+    formatUnreadBadge,
+    getReplyIntent,
+    getUnreadByPatient,
+    getUnreadByQueue,
+    sortConversationMessages,
+} from '../../utils/conversations';
+
+describe('Patient Conversations', () => {
+    const summary = {
+        total: 4,
+        conversations: [
+            { patientId: 1, queueId: 10, unreadCount: 1, lastMessageAt: '2026-10-18T09:00:00Z' },
+            { patientId: 2, queueId: 10, unreadCount: 2, lastMessageAt: '2026-10-18T09:05:00Z' },
+            { patientId: 3, queueId: 20, unreadCount: 1, lastMessageAt: '2026-10-18T09:10:00Z' },
+        ],
+    };
+
+    const received = (patientId: number, queueId: number) => ({
+        messageId: `m-${patientId}`,
+        patientId,
+        patientName: 'أحمد',
+        queueId,
+        moderatorId: 5,
+        content: 'سأتأخر قليلاً',
+        receivedAt: '2026-10-18T10:00:00Z',
+    });
+
+    it('should detect cancellations and late arrivals in Arabic and English replies', () => {
+        expect(getReplyIntent('أريد إلغاء الموعد')).toBe('cancel');
+        expect(getReplyIntent('Please cancel')).toBe('cancel');
+        expect(getReplyIntent('سأتأخر ربع ساعة')).toBe('late');
+        expect(getReplyIntent('أنا في الطريق')).toBe('late');
+        expect(getReplyIntent('متأخر، ألغي الحجز')).toBe('cancel');
+        expect(getReplyIntent('شكراً')).toBeNull();
+        expect(getReplyIntent(undefined)).toBeNull();
+    });
+
+    it('should sum unread replies per queue and per patient', () => {
+        expect(getUnreadByQueue(summary)).toEqual({ '10': 3, '20': 1 });
+        expect(getUnreadByPatient(summary)).toEqual({ '1': 1, '2': 2, '3': 1 });
+        expect(getUnreadByQueue(null)).toEqual({});
+        expect(formatUnreadBadge(3)).toBe('3');
+        expect(formatUnreadBadge(12)).toBe('9+');
+    });
+
+    it('should count a received reply for existing and new conversations', () => {
+        const existing = applyMessageReceived(summary, received(2, 10));
+        expect(existing.total).toBe(5);
+        expect(getUnreadByPatient(existing)['2']).toBe(3);
+        expect(existing.conversations[1].lastMessageAt).toBe('2026-10-18T10:00:00Z');
+
+        const added = applyMessageReceived(null, received(7, 30));
+        expect(added).toEqual({
+            total: 1,
+            conversations: [{ patientId: 7, queueId: 30, unreadCount: 1, lastMessageAt: '2026-10-18T10:00:00Z' }],
+        });
+        expect(summary.total).toBe(4);
+    });
+
+    it('should clear a patient once their thread is read', () => {
+        const cleared = clearPatientUnread(summary, 2);
+        expect(cleared?.total).toBe(2);
+        expect(getUnreadByQueue(cleared)).toEqual({ '10': 1, '20': 1 });
+        expect(clearPatientUnread(summary, 99)?.total).toBe(4);
+        expect(clearPatientUnread(null, 1)).toBeNull();
+    });
+
+    it('should order a thread oldest first', () => {
+        const messages = [
+            { id: 'b', direction: 'inbound' as const, content: 'تمام', at: '2026-10-18T09:05:00Z' },
+            { id: 'a', direction: 'outbound' as const, content: 'دورك قريب', at: '2026-10-18T09:00:00Z' },
+        ];
+        expect(sortConversationMessages(messages).map((m) => m.id)).toEqual(['a', 'b']);
+        expect(messages[0].id).toBe('b');
+    });
+});
@@ -0,0 +1,66 @@
+/**
+ * Do-Not-Contact List Tests
+ *
+ * Tests verify that opted-out numbers are matched in any stored form and excluded from messaging.
+ */
+
+import {
+    buildDoNotContactSet,
+    isDoNotContact,
+    parseDoNotContactRows,
+    splitByDoNotContact,
+} from '../../utils/doNotContact';
+import { getMessageRecipients } from '../../utils/queuePositionUtils';
+
+describe('Do-Not-Contact List', () => {
+    const list = buildDoNotContactSet([{ phoneNumber: '+201012345678' }, { phoneNumber: '+966512345678' }]);
+
+    it('should match a number stored nationally, with trunk prefix or in E.164', () => {
+        expect(isDoNotContact(list, '1012345678', '+20')).toBe(true);
+        expect(isDoNotContact(list, '01012345678', '+20')).toBe(true);
+        expect(isDoNotContact(list, '0512345678', '+966')).toBe(true);
+        expect(isDoNotContact(list, '01112345678', '+20')).toBe(false);
+        expect(isDoNotContact(list, undefined, '+20')).toBe(false);
+    });
+
+    it('should split patients into allowed and excluded', () => {
+        const patients = [
+            { id: '1', phone: '01012345678', countryCode: '+20' },
+            { id: '2', phone: '01112345678', countryCode: '+20' },
+        ];
+        const { allowed, excluded } = splitByDoNotContact(patients, list);
+        expect(allowed.map((p) => p.id)).toEqual(['2']);
+        expect(excluded.map((p) => p.id)).toEqual(['1']);
+    });
+
+    it('should exclude opted-out patients from message recipients', () => {
+        const patients = [
+            { id: '1', queue: 5, name: 'Ahmed', phone: '1012345678', countryCode: '+20' },
+            { id: '2', queue: 6, name: 'Mona', phone: '1112345678', countryCode: '+20' },
+        ];
+        const condition = { operator: 'range' as const, minValue: 1, maxValue: 10 };
+
+        expect(getMessageRecipients(patients, 3, condition).map((p) => p.id)).toEqual(['1', '2']);
+        expect(getMessageRecipients(patients, 3, condition, list).map((p) => p.id)).toEqual(['2']);
+    });
+
+    it('should parse import rows, skipping the header, duplicates and invalid numbers', () => {
+        const { entries, invalidRows } = parseDoNotContactRows(
+            [
+                ['رقم الهاتف', 'الاسم', 'السبب'],
+                ['01012345678', 'Ahmed', 'طلب بالهاتف'],
+                ['+201012345678', 'Ahmed (again)', ''],
+                ['00966512345678', '', ''],
+                ['123', 'Bad', ''],
+                ['', '', ''],
+            ],
+            '+20'
+        );
+
+        expect(entries).toEqual([
+            { phoneNumber: '+201012345678', patientName: 'Ahmed', reason: 'طلب بالهاتف' },
+            { phoneNumber: '+966512345678', patientName: undefined, reason: undefined },
+        ]);
+        expect(invalidRows).toEqual([5]);
+    });
+});
@@ -0,0 +1,120 @@
+/**
+ * Spreadsheet Import Mode Tests
+ *
+ * Tests verify the append/replace/merge dry run: adds, updates, removals and the resulting waiting order,
+ * and which duplicates each mode reviews first.
+ */
+
+import {
+    buildImportPlan,
+    getEffectiveUpdates,
+    getImportPositionItems,
+    getImportReviewMatches,
+    type QueuePatientSnapshot,
+} from '../../utils/importModes';
+import { findDuplicates, planPatientImport, type ExistingPatient, type PatientCandidate } from '../../utils/patientDuplicates';
+
+describe('Import Modes', () => {
+    const queuePatients: QueuePatientSnapshot[] = [
+        { id: 1, fullName: 'Done', phoneNumber: '01000000001', countryCode: '+20', position: 1, status: 'completed' },
+        { id: 2, fullName: 'Ahmed', phoneNumber: '01000000002', countryCode: '+20', position: 2, status: 'waiting' },
+        { id: 3, fullName: 'Mona', phoneNumber: '01000000003', countryCode: '+20', position: 3, status: 'waiting' },
+        { id: 4, fullName: 'Sara', phoneNumber: '01000000004', countryCode: '+20', position: 4, status: 'waiting' },
+    ];
+
+    const candidates: PatientCandidate[] = [
+        { fullName: 'Mona Ali', phoneNumber: '1000000003', countryCode: '+20' },
+        { fullName: 'New', phoneNumber: '01000000009', countryCode: '+20' },
+        { fullName: 'Ahmed', phoneNumber: '01000000002', countryCode: '+20' },
+        { fullName: 'Mona again', phoneNumber: '01000000003', countryCode: '+20' },
+    ];
+
+    it('should add every row in append mode', () => {
+        const plan = buildImportPlan('append', candidates, queuePatients);
+        expect(plan.add).toHaveLength(4);
+        expect(plan.update).toEqual([]);
+        expect(plan.remove).toEqual([]);
+        expect(plan.order).toEqual([]);
+    });
+
+    it('should update matches, add new rows and keep the rest in merge mode', () => {
+        const plan = buildImportPlan('merge', candidates, queuePatients);
+        expect(plan.add.map((a) => a.candidate.fullName)).toEqual(['New']);
+        expect(plan.remove).toEqual([]);
+        expect(plan.skippedInFile).toBe(1);
+        expect(plan.firstPosition).toBe(2);
+        expect(plan.order).toEqual([{ existingId: 3 }, { candidateIndex: 1 }, { existingId: 2 }, { existingId: 4 }]);
+        expect(getEffectiveUpdates(plan).map((u) => [u.patient.id, u.nameChanged, u.positionChanged])).toEqual([
+            [3, true, true],
+            [2, false, true],
+        ]);
+    });
+
+    it('should trash waiting patients missing from the file in replace mode', () => {
+        const plan = buildImportPlan('replace', candidates, queuePatients);
+        expect(plan.remove.map((p) => p.id)).toEqual([4]);
+        expect(plan.order).toEqual([{ existingId: 3 }, { candidateIndex: 1 }, { existingId: 2 }]);
+    });
+
+    it('should start after the last non-waiting patient when nobody is waiting', () => {
+        const plan = buildImportPlan('replace', candidates.slice(1, 2), queuePatients.slice(0, 1));
+        expect(plan.firstPosition).toBe(2);
+        expect(plan.remove).toEqual([]);
+    });
+
+    it('should save exactly the planned positions, around patients who are not waiting', () => {
+        const queue: QueuePatientSnapshot[] = [
+            ...queuePatients,
+            { id: 5, fullName: 'Cancelled', phoneNumber: '01000000005', countryCode: '+20', position: 3, status: 'cancelled' },
+        ].map((p) => (p.id === 3 ? { ...p, position: 5 } : p));
+        const plan = buildImportPlan('merge', candidates, queue);
+        expect(plan.positions).toEqual([2, 4, 5, 6]);
+        expect(plan.update.map((u) => [u.patient.id, u.position, u.positionChanged])).toEqual([
+            [3, 2, true],
+            [2, 5, true],
+        ]);
+
+        // Created patient for candidate 1 gets id 9; positions are assigned as given, nobody else moves
+        const items = getImportPositionItems(plan, { 1: 9 });
+        const final = new Map(queue.map((p) => [p.id, p.position]));
+        items.forEach(({ id, position }) => final.set(id, position));
+        expect(items.map((i) => i.position)).toEqual(plan.positions);
+        expect(Object.fromEntries(final)).toEqual({ 1: 1, 2: 5, 3: 2, 4: 6, 5: 3, 9: 4 });
+        expect(new Set(final.values()).size).toBe(final.size);
+    });
+
+    it('should leave rows that failed to be created out of the saved positions', () => {
+        const plan = buildImportPlan('merge', candidates, queuePatients);
+        expect(getImportPositionItems(plan, {})).toEqual([
+            { id: 3, position: 2 },
+            { id: 2, position: 4 },
+            { id: 4, position: 5 },
+        ]);
+    });
+
+    describe('duplicate review', () => {
+        const existing: ExistingPatient[] = [
+            { id: 2, fullName: 'Ahmed', phoneNumber: '01000000002', countryCode: '+20', queueId: '1', queueName: 'د. علي' },
+            { id: 50, fullName: 'New', phoneNumber: '01000000009', countryCode: '+20', queueId: '2', queueName: 'د. سارة' },
+        ];
+        const matches = findDuplicates(candidates, existing, { queueId: '1' });
+
+        it('should review every duplicate in append mode', () => {
+            expect(getImportReviewMatches('append', matches).map((m) => m.index)).toEqual([1, 2, 3]);
+        });
+
+        it('should review only patients of other queues in replace and merge modes', () => {
+            expect(getImportReviewMatches('replace', matches).map((m) => m.index)).toEqual([1]);
+            expect(getImportReviewMatches('merge', matches).map((m) => m.index)).toEqual([1]);
+        });
+
+        it('should leave skipped rows out of the replace/merge plan', () => {
+            const reviewed = getImportReviewMatches('merge', matches);
+            const kept = planPatientImport(candidates, reviewed, { 1: 'skip' }).create;
+            const plan = buildImportPlan('merge', kept, queuePatients);
+
+            expect(plan.add).toEqual([]);
+            expect(plan.update.map((u) => u.patient.id)).toEqual([3, 2]);
+        });
+    });
+});
@@ -0,0 +1,44 @@
+/**
+ * Message Receipts Tests
+ *
+ * Tests verify the delivered/read state of sent messages, the receipt filters and the session delivered/read rates.
+ */
+
+import {
+    filterByReceiptStatus,
+    getReceiptRates,
+    getReceiptStatus,
+    isSentMessageStatus,
+} from '../../utils/messageReceipts';
+
+describe('Message Receipts', () => {
+    const messages = [
+        { id: 1, status: 'sent' },
+        { id: 2, status: 'delivered', deliveredAt: '2026-10-18T09:00:00Z' },
+        { id: 3, status: 'read', deliveredAt: '2026-10-18T09:00:00Z', readAt: '2026-10-18T09:05:00Z' },
+        { id: 4, status: 'sent', readAt: '2026-10-18T09:10:00Z' },
+    ];
+
+    it('should treat delivered and read messages as sent', () => {
+        expect(['sent', 'delivered', 'read'].every(isSentMessageStatus)).toBe(true);
+        expect(['sending', 'queued', 'failed', undefined].some(isSentMessageStatus)).toBe(false);
+    });
+
+    it('should fall back to the timestamps when the status is still sent or missing', () => {
+        expect(messages.map(getReceiptStatus)).toEqual(['sent', 'delivered', 'read', 'read']);
+        expect(getReceiptStatus({ deliveredAt: '2026-10-18T09:00:00Z' })).toBe('delivered');
+        expect(getReceiptStatus({})).toBe('sent');
+    });
+
+    it('should split the list by receipt state without overlap', () => {
+        expect(filterByReceiptStatus(messages, 'all')).toHaveLength(4);
+        expect(filterByReceiptStatus(messages, 'sent').map((m) => m.id)).toEqual([1]);
+        expect(filterByReceiptStatus(messages, 'delivered').map((m) => m.id)).toEqual([2]);
+        expect(filterByReceiptStatus(messages, 'read').map((m) => m.id)).toEqual([3, 4]);
+    });
+
+    it('should count read messages as delivered in the rates', () => {
+        expect(getReceiptRates(messages)).toEqual({ total: 4, delivered: 3, read: 2, deliveredRate: 75, readRate: 50 });
+        expect(getReceiptRates([])).toEqual({ total: 0, delivered: 0, read: 0, deliveredRate: 0, readRate: 0 });
+    });
+});
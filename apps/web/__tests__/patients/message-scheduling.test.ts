@@ -0,0 +1,68 @@
+/**
+ * Message Scheduling Tests
+ *
+ * Tests verify the schedule picker validation and the datetime-local helpers used for scheduled sends.
+ */
+
+import {
+    formatTimeUntil,
+    fromDateTimeLocalValue,
+    getNextOccurrence,
+    MIN_SCHEDULE_LEAD_MINUTES,
+    toDateTimeLocalValue,
+    validateScheduleValue,
+} from '../../utils/dateTimeUtils';
+
+describe('Message Scheduling', () => {
+    const now = new Date(2026, 9, 18, 9, 30, 0, 0); // Local time
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('should round-trip datetime-local values in local time', () => {
+        const value = toDateTimeLocalValue(new Date(2026, 0, 5, 7, 4));
+        expect(value).toBe('2026-01-05T07:04');
+        expect(fromDateTimeLocalValue(value)?.getTime()).toBe(new Date(2026, 0, 5, 7, 4).getTime());
+    });
+
+    it('should reject empty and malformed datetime-local values', () => {
+        expect(toDateTimeLocalValue(null)).toBe('');
+        expect(toDateTimeLocalValue(new Date('invalid'))).toBe('');
+        expect(fromDateTimeLocalValue('')).toBeUndefined();
+        expect(fromDateTimeLocalValue('2026-10-18 09:30')).toBeUndefined();
+        expect(fromDateTimeLocalValue('2026-10-18T09:30:00Z')).toBeUndefined();
+    });
+
+    it('should require a schedule value', () => {
+        expect(validateScheduleValue('', now)).toBe('يرجى اختيار تاريخ ووقت الإرسال');
+        expect(validateScheduleValue('not-a-date', now)).toBe('يرجى اختيار تاريخ ووقت الإرسال');
+    });
+
+    it('should require the minimum lead time', () => {
+        const tooSoon = toDateTimeLocalValue(new Date(now.getTime() + (MIN_SCHEDULE_LEAD_MINUTES - 1) * 60000));
+        const past = toDateTimeLocalValue(new Date(now.getTime() - 60 * 60000));
+        const atLead = toDateTimeLocalValue(new Date(now.getTime() + MIN_SCHEDULE_LEAD_MINUTES * 60000));
+
+        expect(validateScheduleValue(tooSoon, now)).toContain(`${MIN_SCHEDULE_LEAD_MINUTES} دقائق`);
+        expect(validateScheduleValue(past, now)).not.toBeNull();
+        expect(validateScheduleValue(atLead, now)).toBeNull();
+        expect(validateScheduleValue('2026-10-19T08:00', now)).toBeNull();
+    });
+
+    it('should pick today or tomorrow for the next wall-clock occurrence', () => {
+        expect(getNextOccurrence(10, 0, now)).toEqual(new Date(2026, 9, 18, 10, 0));
+        expect(getNextOccurrence(8, 0, now)).toEqual(new Date(2026, 9, 19, 8, 0));
+        expect(getNextOccurrence(9, 30, now)).toEqual(new Date(2026, 9, 19, 9, 30));
+    });
+
+    it('should describe the time left until a scheduled send', () => {
+        jest.useFakeTimers().setSystemTime(now);
+
+        expect(formatTimeUntil(new Date(now.getTime() + 5 * 60000))).toBe('بعد 5 دقائق');
+        expect(formatTimeUntil(new Date(now.getTime() + 60 * 60000))).toBe('بعد 1 ساعة');
+        expect(formatTimeUntil(new Date(now.getTime() + 3 * 24 * 60 * 60000))).toBe('بعد 3 أيام');
+        expect(formatTimeUntil(new Date(now.getTime() - 60000))).toBe('الآن');
+        expect(formatTimeUntil(undefined)).toBe('لم يحدد');
+    });
+});
@@ -0,0 +1,101 @@
+/**
+ * Patient Duplicate Detection Tests
+ *
+ * Tests verify phone/name normalization, duplicate matching and how resolutions turn into creates/updates/skips.
+ */
+
+import {
+    findDuplicates,
+    getAllowedResolutions,
+    namesMatch,
+    phoneKey,
+    planPatientImport,
+    type ExistingPatient,
+    type PatientCandidate,
+} from '../../utils/patientDuplicates';
+
+describe('Patient Duplicates', () => {
+    const existing: ExistingPatient[] = [
+        { id: 1, fullName: 'أحمد محمد', phoneNumber: '1012345678', countryCode: '+20', queueId: '10', queueName: 'د. سامي' },
+        { id: 2, fullName: 'منى علي', phoneNumber: '01099999999', countryCode: '+20', queueId: '11', queueName: 'د. هالة' },
+    ];
+
+    describe('phoneKey', () => {
+        it('should ignore leading zeros, separators, Arabic digits and inline country codes', () => {
+            const key = phoneKey('1012345678', '+20');
+            expect(phoneKey('010-1234-5678', '+20')).toBe(key);
+            expect(phoneKey('٠١٠١٢٣٤٥٦٧٨', '+20')).toBe(key);
+            expect(phoneKey('+20 101 234 5678', '+966')).toBe(key);
+            expect(phoneKey('1012345678', '+966')).not.toBe(key);
+        });
+    });
+
+    describe('namesMatch', () => {
+        it('should match Arabic spelling variants, word order and small typos', () => {
+            expect(namesMatch('أحمد عبد الله', 'احمد عبدالله')).toBe(true);
+            expect(namesMatch('فاطمة محمود', 'محمود فاطمه')).toBe(true);
+            expect(namesMatch('Mohamed Hassan Aly', 'Mohamed Hasan Aly')).toBe(true);
+            expect(namesMatch('أحمد محمد', 'محمود علي')).toBe(false);
+        });
+    });
+
+    describe('findDuplicates', () => {
+        const candidates: PatientCandidate[] = [
+            { fullName: 'Ahmed', phoneNumber: '01012345678', countryCode: '+20' },
+            { fullName: 'منى', phoneNumber: '1099999999', countryCode: '+20' },
+            { fullName: 'New', phoneNumber: '01155555555', countryCode: '+20' },
+            { fullName: 'New again', phoneNumber: '1155555555', countryCode: '+20' },
+            { fullName: 'احمد محمد', phoneNumber: '01200000000', countryCode: '+20' },
+        ];
+
+        it('should find phone matches in the queue, other queues and the batch', () => {
+            const matches = findDuplicates(candidates, existing, { queueId: '10' });
+            expect(matches).toEqual([
+                { index: 0, reason: 'phone', existing: existing[0], sameQueue: true },
+                { index: 1, reason: 'phone', existing: existing[1], sameQueue: false },
+                { index: 3, reason: 'phone', batchIndex: 2, sameQueue: true },
+            ]);
+        });
+
+        it('should ignore completed and cancelled patients (a returning patient is a new visit)', () => {
+            const finished: ExistingPatient[] = [
+                { ...existing[0], status: 'completed' },
+                { ...existing[1], status: 'cancelled' },
+                { id: 3, fullName: 'New', phoneNumber: '01155555555', countryCode: '+20', queueId: '10', queueName: 'د. سامي', status: 'in_service' },
+            ];
+            const matches = findDuplicates(candidates, finished, { queueId: '10', matchNames: true });
+            expect(matches).toEqual([
+                { index: 2, reason: 'phone', existing: finished[2], sameQueue: true },
+                { index: 3, reason: 'phone', existing: finished[2], sameQueue: true },
+            ]);
+        });
+
+        it('should match similar names only when enabled', () => {
+            const matches = findDuplicates(candidates, existing, { queueId: '10', matchNames: true });
+            expect(matches.find((m) => m.index === 4)).toMatchObject({ reason: 'name', existing: existing[0] });
+        });
+    });
+
+    describe('planPatientImport', () => {
+        const candidates: PatientCandidate[] = [
+            { fullName: 'Ahmed', phoneNumber: '01012345678', countryCode: '+20' },
+            { fullName: 'Mona', phoneNumber: '01099999999', countryCode: '+20' },
+            { fullName: 'New', phoneNumber: '01155555555', countryCode: '+20' },
+        ];
+        const matches = findDuplicates(candidates, existing, { queueId: '10' });
+
+        it('should skip same-queue phone duplicates and keep cross-queue ones by default', () => {
+            const plan = planPatientImport(candidates, matches, {});
+            expect(plan.skipped).toBe(1);
+            expect(plan.create.map((c) => c.fullName)).toEqual(['Mona', 'New']);
+            expect(plan.update).toEqual([]);
+        });
+
+        it('should only overwrite patients of the target queue', () => {
+            expect(getAllowedResolutions(matches[1])).toEqual(['skip', 'keepBoth']);
+            const plan = planPatientImport(candidates, matches, { 0: 'overwrite', 1: 'overwrite' });
+            expect(plan.update).toEqual([{ id: 1, candidate: candidates[0] }]);
+            expect(plan.create.map((c) => c.fullName)).toEqual(['Mona', 'New']);
+        });
+    });
+});
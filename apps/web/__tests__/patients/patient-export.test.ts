@@ -0,0 +1,43 @@
+/**
+ * Spreadsheet Export Tests
+ *
+ * Tests verify the rows written for patient and session result exports and the generated file names.
+ */
+
+import { buildExportFileName, buildPatientExportRows, buildSessionResultRows } from '../../utils/spreadsheetExport';
+import type { PatientDto } from '../../services/api/patientsApiClient';
+import type { SessionMessageResultDto } from '../../services/api/messageApiClient';
+
+describe('Spreadsheet Export', () => {
+    it('should order patients by position with Arabic labels', () => {
+        const patients = [
+            { id: 2, fullName: 'Mona', phoneNumber: '01000000002', countryCode: '+20', position: 2, status: 'completed', isValidWhatsAppNumber: false },
+            { id: 1, fullName: 'Ahmed', phoneNumber: '01000000001', countryCode: '+20', position: 1, status: 'waiting', isValidWhatsAppNumber: null },
+        ] as unknown as PatientDto[];
+
+        const rows = buildPatientExportRows(patients);
+        expect(rows[0]).toEqual(['الترتيب', 'الاسم الكامل', 'كود الدولة', 'رقم الهاتف', 'رقم واتساب صالح', 'الحالة']);
+        expect(rows.slice(1)).toEqual([
+            [1, 'Ahmed', '+20', '01000000001', 'غير محقق', 'في الانتظار'],
+            [2, 'Mona', '+20', '01000000002', 'لا', 'مكتمل'],
+        ]);
+    });
+
+    it('should include attempts, failure reason and content for session results', () => {
+        const messages = [
+            { name: 'Ahmed', phone: '01000000001', countryCode: '+20', status: 'failed', attempts: 3, failedReason: 'Not on WhatsApp', messageContent: 'مرحبا Ahmed' },
+            { name: 'Mona', phone: '01000000002', countryCode: '+20', status: 'queued' },
+        ] as unknown as SessionMessageResultDto[];
+
+        const rows = buildSessionResultRows(messages);
+        expect(rows).toHaveLength(3);
+        expect(rows[1]).toEqual(['Ahmed', '+20', '01000000001', 'فشل', 3, 'Not on WhatsApp', 'مرحبا Ahmed', '']);
+        expect(rows[2]).toEqual(['Mona', '+20', '01000000002', 'في قائمة الانتظار', 0, '', '', '']);
+    });
+
+    it('should strip invalid characters from file names', () => {
+        const date = new Date(2025, 0, 5);
+        expect(buildExportFileName('مرضى-د. علي/عيادة', 'xlsx', date)).toBe('مرضى-د._عليعيادة-2025-01-05.xlsx');
+        expect(buildExportFileName('***', 'csv', date)).toBe('export-2025-01-05.csv');
+    });
+});
@@ -0,0 +1,81 @@
+/**
+ * Patient Reorder Tests
+ *
+ * Tests verify row moves (drag-and-drop, Alt+Up/Down, move to position), the single reorder batch they produce
+ * and that undoing the batch restores the original positions.
+ */
+
+import {
+    assignPositions,
+    buildReorderBatch,
+    moveRows,
+    moveRowsBy,
+    moveRowsToPosition,
+} from '../../utils/patientReorder';
+
+describe('Patient Reorder', () => {
+    const order = ['a', 'b', 'c', 'd', 'e'];
+
+    it('should move a block of rows before the target row, keeping their relative order', () => {
+        expect(moveRows(order, ['d'], 1)).toEqual(['a', 'd', 'b', 'c', 'e']);
+        expect(moveRows(order, ['e', 'b'], 0)).toEqual(['b', 'e', 'a', 'c', 'd']);
+        expect(moveRows(order, ['a', 'c'], 5)).toEqual(['b', 'd', 'e', 'a', 'c']);
+        expect(moveRows(order, ['b'], 2)).toEqual(order);
+    });
+
+    it('should step rows up or down and stop at the edges', () => {
+        expect(moveRowsBy(order, ['c'], -1)).toEqual(['a', 'c', 'b', 'd', 'e']);
+        expect(moveRowsBy(order, ['a', 'c'], -1)).toEqual(['a', 'c', 'b', 'd', 'e']);
+        expect(moveRowsBy(order, ['b', 'c'], 1)).toEqual(['a', 'd', 'b', 'c', 'e']);
+        expect(moveRowsBy(order, ['e'], 1)).toEqual(order);
+    });
+
+    it('should move rows to a queue position, respecting gaps', () => {
+        const positions = { a: 1, b: 2, c: 5, d: 6, e: 9 };
+        expect(moveRowsToPosition(order, positions, ['e'], 5)).toEqual(['a', 'b', 'e', 'c', 'd']);
+        expect(moveRowsToPosition(order, positions, ['e'], 3)).toEqual(['a', 'b', 'e', 'c', 'd']);
+        expect(moveRowsToPosition(order, positions, ['a'], 100)).toEqual(['b', 'c', 'd', 'e', 'a']);
+    });
+
+    it('should keep the queue positions and only send the rows that moved', () => {
+        const patients = [
+            { id: '1', position: 1 },
+            { id: '2', position: 2 },
+            { id: '3', position: 5 },
+            { id: '4', position: 6 },
+        ];
+        const newOrder = ['1', '4', '2', '3'];
+
+        expect(assignPositions(patients, newOrder)).toEqual({ '1': 1, '4': 2, '2': 5, '3': 6 });
+        expect(buildReorderBatch(patients, newOrder)).toEqual({
+            items: [
+                { id: 2, position: 5 },
+                { id: 3, position: 6 },
+                { id: 4, position: 2 },
+            ],
+            undoItems: [
+                { id: 2, position: 2 },
+                { id: 3, position: 5 },
+                { id: 4, position: 6 },
+            ],
+        });
+        expect(buildReorderBatch(patients, ['1', '2', '3', '4']).items).toEqual([]);
+    });
+
+    it('should restore the original positions when the batch is undone (absolute positions, no shifting)', () => {
+        // What POST /patients/positions does: the given rows take the given positions, nobody else moves
+        const applyBatch = (positions: Record<string, number>, items: Array<{ id: number; position: number }>) => ({
+            ...positions,
+            ...Object.fromEntries(items.map((item) => [String(item.id), item.position])),
+        });
+        const original = { '1': 1, '2': 2, '3': 3, '4': 4, '5': 5 };
+        const patients = Object.entries(original).map(([id, position]) => ({ id, position }));
+
+        // Alt+Down on row 1
+        const { items, undoItems } = buildReorderBatch(patients, moveRowsBy(Object.keys(original), ['1'], 1));
+        const moved = applyBatch(original, items);
+
+        expect(moved).toEqual({ '1': 2, '2': 1, '3': 3, '4': 4, '5': 5 });
+        expect(applyBatch(moved, undoItems)).toEqual(original);
+    });
+});
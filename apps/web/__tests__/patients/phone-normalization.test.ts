@@ -0,0 +1,83 @@
+/**
+ * Phone Normalization Tests
+ *
+ * Tests verify numbering-plan based normalization (libphonenumber-js metadata): trunk prefixes, E.164 output,
+ * country detection from 00 / + prefixes, mobile vs landline detection and validation messages.
+ */
+
+import { normalizePhone, validatePhoneByCountry, getPhonePlaceholder, getPhoneKey, LANDLINE_PHONE_ERROR } from '../../utils/phoneUtils';
+import { COUNTRY_CODES } from '../../constants';
+// Shared with the backend (PhoneNumberHelper.ToE164 in DoNotContactTests): both sides must give the same key
+import sharedPhoneKeys from '../../../../tests/fixtures/phone-keys.json';
+
+describe('Phone Normalization', () => {
+    it('should strip the trunk prefix and build E.164', () => {
+        expect(normalizePhone('010 1234-5678', '+20').phone).toEqual({
+            countryCode: '+20',
+            nationalNumber: '1012345678',
+            e164: '+201012345678',
+            type: 'mobile',
+        });
+        expect(normalizePhone('89123456789', '+7').phone?.e164).toBe('+79123456789');
+    });
+
+    it('should detect the country from 00 and + prefixes', () => {
+        expect(normalizePhone('00966501234567', '+20').phone?.e164).toBe('+966501234567');
+        expect(normalizePhone('+٩٧١٥٠١٢٣٤٥٦٧').phone?.countryCode).toBe('+971');
+        expect(normalizePhone('+999123456').error).toBe('كود الدولة في الرقم غير معروف');
+    });
+
+    it('should accept national numbers pasted with the country code but without +', () => {
+        expect(normalizePhone('201012345678', '+20').phone?.nationalNumber).toBe('1012345678');
+    });
+
+    it('should tell mobile from landline numbers', () => {
+        expect(normalizePhone('0223456789', '+20').phone?.type).toBe('landline');
+        expect(normalizePhone('0612345678', '+39').phone).toEqual({
+            countryCode: '+39',
+            nationalNumber: '0612345678',
+            e164: '+390612345678',
+            type: 'landline',
+        });
+    });
+
+    it('should leave the type unset when mobile and fixed ranges overlap', () => {
+        expect(normalizePhone('2025550123', '+1').phone).toEqual({
+            countryCode: '+1',
+            nationalNumber: '2025550123',
+            e164: '+12025550123',
+            type: undefined,
+        });
+    });
+
+    it('should fall back to a length check for codes without a numbering plan', () => {
+        expect(normalizePhone('1234567', '+999').phone?.e164).toBe('+9991234567');
+        expect(normalizePhone('123', '+999').error).toBe('رقم الهاتف يجب أن يكون بين 7 و 15 رقم');
+    });
+
+    it('should validate numbers by country and accept landlines by default', () => {
+        expect(validatePhoneByCountry('01012345678', '+20')).toBeNull();
+        expect(validatePhoneByCountry('0161234567', '+20')).toContain('+20');
+        expect(validatePhoneByCountry('0223456789', '+20')).toBeNull();
+        expect(validatePhoneByCountry('1234567', 'OTHER')).toBeNull();
+        expect(validatePhoneByCountry('', '+20')).toBe('رقم الهاتف مطلوب');
+    });
+
+    it('should reject landlines only when mobile numbers are required', () => {
+        expect(validatePhoneByCountry('0223456789', '+20', { mobileOnly: true })).toBe(LANDLINE_PHONE_ERROR);
+        expect(validatePhoneByCountry('01012345678', '+20', { mobileOnly: true })).toBeNull();
+        expect(validatePhoneByCountry('2025550123', '+1', { mobileOnly: true })).toBeNull();
+    });
+
+    it('should use a valid mobile example as placeholder for every listed country', () => {
+        COUNTRY_CODES.forEach(({ code }) => {
+            const result = normalizePhone(getPhonePlaceholder(code), code);
+            expect({ code, error: result.error }).toEqual({ code, error: null });
+            expect(result.phone?.type).not.toBe('landline');
+        });
+    });
+
+    it.each(sharedPhoneKeys)('should key $phone ($countryCode) as $key, like the backend', ({ phone, countryCode, key }) => {
+        expect(getPhoneKey(phone, countryCode)).toBe(key);
+    });
+});
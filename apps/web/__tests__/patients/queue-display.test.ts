@@ -0,0 +1,78 @@
+/**
+ * Waiting-Room Display Tests
+ *
+ * Tests verify the TV boards (CQP, next numbers, estimated wait) and the spoken call-outs when CQP advances.
+ */
+
+import {
+  parseDisplayQueueIds,
+  getQueueDisplayBoard,
+  buildCallAnnouncement,
+  getAdvancedBoards,
+} from '../../utils/queueDisplay';
+import type { QueueDto, QueuePatientDto } from '../../services/api/queuesApiClient';
+
+describe('Waiting-Room Display', () => {
+    const queue: QueueDto = {
+        id: 4,
+        doctorName: 'د. علي',
+        createdBy: 1,
+        moderatorId: 1,
+        currentPosition: 2,
+        estimatedWaitMinutes: 10,
+        isActive: true,
+        createdAt: '2026-10-18T08:00:00Z',
+    };
+    const patient = (id: number, position: number, status: QueuePatientDto['status']): QueuePatientDto => ({
+        id,
+        queueId: 4,
+        firstName: 'مريض',
+        lastName: String(id),
+        phoneNumber: '100000000',
+        position,
+        status,
+        createdAt: '2026-10-18T08:00:00Z',
+    });
+
+    it('should parse the queue ids from the link', () => {
+        expect(parseDisplayQueueIds('3, 1,3,abc,-2,0')).toEqual([3, 1]);
+        expect(parseDisplayQueueIds(null)).toEqual([]);
+    });
+
+    it('should show CQP, the next waiting numbers and the wait for someone joining now', () => {
+        const board = getQueueDisplayBoard(queue, [
+            patient(1, 1, 'completed'),
+            patient(2, 2, 'in_service'),
+            patient(6, 6, 'waiting'),
+            patient(3, 3, 'cancelled'),
+            patient(4, 4, 'waiting'),
+            patient(5, 5, 'waiting'),
+            patient(7, 7, 'waiting'),
+        ]);
+
+        expect(board).toMatchObject({
+            queueId: 4,
+            currentPosition: 2,
+            nextPositions: [4, 5, 6],
+            waitingCount: 4,
+            estimatedWaitMinutes: 40,
+            estimatedWaitText: '40 دقيقة',
+        });
+    });
+
+    it('should announce the number to the doctor without doubling the title', () => {
+        expect(buildCallAnnouncement(5, 'د. علي')).toBe('الرقم 5، تفضل إلى د. علي');
+        expect(buildCallAnnouncement(5, 'علي')).toBe('الرقم 5، تفضل إلى الدكتور علي');
+    });
+
+    it('should only announce queues whose CQP moved forward since the last update', () => {
+        const board = (queueId: number, currentPosition: number) =>
+            getQueueDisplayBoard({ ...queue, id: queueId, currentPosition }, []);
+        const previous = new Map([[1, 3], [2, 5]]);
+
+        const advanced = getAdvancedBoards(previous, [board(1, 4), board(2, 5), board(3, 9)]);
+
+        expect(advanced.map((b) => b.queueId)).toEqual([1]);
+        expect(getAdvancedBoards(new Map([[1, 4]]), [board(1, 2)])).toEqual([]);
+    });
+});
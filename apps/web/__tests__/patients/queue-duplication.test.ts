@@ -0,0 +1,41 @@
+/**
+ * Queue Duplication Tests
+ *
+ * Tests verify the default name of a duplicated queue and the target moderator's queue quota check.
+ */
+
+import { getQueueQuotaError, suggestDuplicateName } from '../../utils/queueDuplication';
+
+describe('Queue Duplication', () => {
+    describe('suggestDuplicateName', () => {
+        it('should append (نسخة) to the source name', () => {
+            expect(suggestDuplicateName('د. أحمد', ['د. أحمد'])).toBe('د. أحمد (نسخة)');
+        });
+
+        it('should number the copy when the name is taken', () => {
+            const existing = ['د. أحمد', 'د. أحمد (نسخة)', 'د. أحمد (نسخة 2)'];
+
+            expect(suggestDuplicateName('د. أحمد', existing)).toBe('د. أحمد (نسخة 3)');
+        });
+
+        it('should ignore surrounding whitespace in the source and existing names', () => {
+            expect(suggestDuplicateName('  د. سارة ', [' د. سارة (نسخة) '])).toBe('د. سارة (نسخة 2)');
+        });
+    });
+
+    describe('getQueueQuotaError', () => {
+        it('should allow unlimited quotas', () => {
+            expect(getQueueQuotaError({ queuesLimit: -1, queuesUsed: 50, queuesRemaining: -1 })).toBeNull();
+        });
+
+        it('should allow quotas with queues remaining', () => {
+            expect(getQueueQuotaError({ queuesLimit: 5, queuesUsed: 4, queuesRemaining: 1 })).toBeNull();
+        });
+
+        it('should explain an exhausted quota', () => {
+            const error = getQueueQuotaError({ queuesLimit: 5, queuesUsed: 5, queuesRemaining: 0 });
+
+            expect(error).toContain('5 من 5');
+        });
+    });
+});
@@ -0,0 +1,52 @@
+/**
+ * Queue Flow Tests
+ *
+ * Tests verify which patient is in service, who "call next" would call, and which patients accept no-show/skip.
+ */
+
+import { canChangeFlowStatus, getFlowStatusLabel, getQueueFlowState } from '../../utils/queueFlow';
+
+describe('Queue Flow', () => {
+    const patients = [
+        { id: 'a', position: 1, status: 'completed' },
+        { id: 'b', position: 2, status: 'in_service' },
+        { id: 'c', position: 4, status: 'waiting' },
+        { id: 'd', position: 3, status: 'cancelled' },
+        { id: 'e', position: 6, status: 'waiting' },
+        { id: 'f', position: 5 },
+    ];
+
+    it('should find the patient in service and the lowest waiting position as next', () => {
+        const state = getQueueFlowState(patients);
+        expect(state.current?.id).toBe('b');
+        expect(state.next?.id).toBe('c');
+        expect(state.waitingCount).toBe(3);
+    });
+
+    it('should call the first waiting patient after the current position, else the lowest waiting one', () => {
+        expect(getQueueFlowState(patients, 4).next?.id).toBe('f');
+        expect(getQueueFlowState(patients, 5).next?.id).toBe('e');
+        expect(getQueueFlowState(patients, 10).next?.id).toBe('c');
+    });
+
+    it('should treat patients without a status as waiting', () => {
+        const state = getQueueFlowState([{ id: 'x', position: 2 }, { id: 'y', position: 1, status: 'completed' }]);
+        expect(state.current).toBeNull();
+        expect(state.next?.id).toBe('x');
+        expect(getFlowStatusLabel(undefined)).toBe('قيد الانتظار');
+    });
+
+    it('should report no next patient when nobody is waiting', () => {
+        const state = getQueueFlowState(patients.filter((p) => p.status && p.status !== 'waiting'));
+        expect(state.next).toBeNull();
+        expect(state.waitingCount).toBe(0);
+    });
+
+    it('should allow no-show and skip only for waiting or in-service patients', () => {
+        expect(canChangeFlowStatus('waiting')).toBe(true);
+        expect(canChangeFlowStatus('in_service')).toBe(true);
+        expect(canChangeFlowStatus(undefined)).toBe(true);
+        expect(canChangeFlowStatus('completed')).toBe(false);
+        expect(canChangeFlowStatus('cancelled')).toBe(false);
+    });
+});
@@ -0,0 +1,40 @@
+/**
+ * Queue Status Page Tests
+ *
+ * Tests verify the personal status link and what the public status page shows (patients ahead, ETR, state).
+ */
+
+import { getQueueStatusUrl, getQueueStatusView } from '../../utils/queueStatus';
+import type { PublicQueueStatusDto } from '../../services/api/queueStatusApiClient';
+
+describe('Queue Status Page', () => {
+    const status = (overrides: Partial<PublicQueueStatusDto> = {}): PublicQueueStatusDto => ({
+        doctorName: 'د. علي',
+        currentPosition: 3,
+        estimatedWaitMinutes: 10,
+        patientPosition: 7,
+        patientStatus: 'waiting',
+        updatedAt: '2026-10-18T09:30:00Z',
+        ...overrides,
+    });
+
+    it('should build the status link from the origin and token', () => {
+        expect(getQueueStatusUrl('https://clinic.example.com/', 'a1b2')).toBe('https://clinic.example.com/status/a1b2');
+    });
+
+    it('should count patients ahead and estimate the wait like {ETR}', () => {
+        expect(getQueueStatusView(status())).toEqual({ state: 'waiting', ahead: 4, etrMinutes: 40, etrText: '40 دقيقة' });
+        expect(getQueueStatusView(status({ estimatedWaitMinutes: 0 })).etrMinutes).toBe(60);
+    });
+
+    it('should show the patient their turn when the queue reaches them or they are in service', () => {
+        expect(getQueueStatusView(status({ currentPosition: 7 })).state).toBe('your_turn');
+        expect(getQueueStatusView(status({ currentPosition: 9 })).state).toBe('your_turn');
+        expect(getQueueStatusView(status({ patientStatus: 'in_service' }))).toMatchObject({ state: 'your_turn', ahead: 0, etrText: 'الآن' });
+    });
+
+    it('should report finished and cancelled visits', () => {
+        expect(getQueueStatusView(status({ patientStatus: 'completed' })).state).toBe('done');
+        expect(getQueueStatusView(status({ patientStatus: 'cancelled' })).state).toBe('cancelled');
+    });
+});
@@ -0,0 +1,49 @@
+/**
+ * Self Check-In Tests
+ *
+ * Tests verify the public check-in form uses the staff phone rules, the request it builds and the submit cooldown.
+ */
+
+import {
+    buildCheckInRequest,
+    CHECK_IN_COOLDOWN_SECONDS,
+    getCheckInCooldownRemaining,
+    getCheckInUrl,
+    validateCheckInForm,
+} from '../../utils/checkIn';
+
+describe('Self Check-In', () => {
+    it('should accept a valid name and mobile number', () => {
+        expect(validateCheckInForm({ name: 'أحمد علي', phone: '01012345678', countryCode: '+20' })).toEqual({});
+    });
+
+    it('should reject missing names and invalid or landline numbers', () => {
+        const errors = validateCheckInForm({ name: ' ', phone: '0223456789', countryCode: '+20' });
+        expect(errors.name).toBeDefined();
+        expect(errors.phone).toBeDefined();
+        expect(validateCheckInForm({ name: 'أحمد علي', phone: '123', countryCode: '+20' }).phone).toBeDefined();
+    });
+
+    it('should send the national number and take the country from a pasted international number', () => {
+        expect(buildCheckInRequest({ name: ' أحمد علي ', phone: '010 1234 5678', countryCode: '+20' })).toEqual({
+            fullName: 'أحمد علي',
+            phoneNumber: '1012345678',
+            countryCode: '+20',
+        });
+        expect(buildCheckInRequest({ name: 'Sara', phone: '+966501234567', countryCode: '+20' })).toMatchObject({
+            phoneNumber: '501234567',
+            countryCode: '+966',
+        });
+    });
+
+    it('should build the check-in link from the origin and token', () => {
+        expect(getCheckInUrl('https://clinic.example.com/', 'abc 123')).toBe('https://clinic.example.com/check-in/abc%20123');
+    });
+
+    it('should count down the cooldown after a submission', () => {
+        const submittedAt = 1_000_000;
+        expect(getCheckInCooldownRemaining(null, submittedAt)).toBe(0);
+        expect(getCheckInCooldownRemaining(submittedAt, submittedAt + 10_000)).toBe(CHECK_IN_COOLDOWN_SECONDS - 10);
+        expect(getCheckInCooldownRemaining(submittedAt, submittedAt + CHECK_IN_COOLDOWN_SECONDS * 1000)).toBe(0);
+    });
+});
@@ -0,0 +1,125 @@
+/**
+ * Spreadsheet Column Mapping Tests
+ *
+ * Tests verify column role guessing, name combining, phone splitting and presets of the upload mapping step.
+ */
+
+import {
+    applyPreset,
+    createPreset,
+    detectHeaderRow,
+    guessColumnRoles,
+    mapRows,
+    presetMatchesHeaders,
+    refineRolesWithSamples,
+    validateMapping,
+} from '../../utils/spreadsheetMapping';
+import { splitInternationalPhone } from '../../utils/phoneUtils';
+
+describe('Spreadsheet Column Mapping', () => {
+    describe('detectHeaderRow', () => {
+        it('should skip title rows above the headers', () => {
+            expect(detectHeaderRow([['تقرير المرضى', ''], ['Name', 'Phone'], ['Ahmed', '0101']])).toBe(1);
+            expect(detectHeaderRow([['Name', 'Phone']])).toBe(0);
+        });
+    });
+
+    describe('guessColumnRoles', () => {
+        it('should guess roles from Arabic and English headers', () => {
+            expect(guessColumnRoles(['First Name', 'Last Name', 'Mobile', 'Country Code', 'Notes'])).toEqual([
+                'firstName',
+                'lastName',
+                'phone',
+                'countryCode',
+                'ignore',
+            ]);
+            expect(guessColumnRoles(['الاسم الكامل', 'كود الدولة', 'رقم الهاتف'])).toEqual(['fullName', 'countryCode', 'phone']);
+        });
+
+        it('should assign single-column roles to the first matching column only', () => {
+            expect(guessColumnRoles(['Name', 'Phone', 'Home Phone'])).toEqual(['fullName', 'phone', 'ignore']);
+        });
+
+        it('should detect phone columns that include the country code', () => {
+            const roles = guessColumnRoles(['Name', 'Phone']);
+            expect(refineRolesWithSamples(roles, [['Ahmed', '+20 101 234 5678'], ['Sara', '00966501234567']])).toEqual([
+                'fullName',
+                'phoneWithCountry',
+            ]);
+            expect(refineRolesWithSamples(roles, [['Ahmed', '01012345678']])).toEqual(['fullName', 'phone']);
+        });
+    });
+
+    describe('splitInternationalPhone', () => {
+        it('should split the country code from the national number', () => {
+            expect(splitInternationalPhone('+20 101 234 5678')).toEqual({ countryCode: '+20', phone: '1012345678' });
+            expect(splitInternationalPhone('00966501234567')).toEqual({ countryCode: '+966', phone: '501234567' });
+            expect(splitInternationalPhone('01012345678')).toBeNull();
+        });
+    });
+
+    describe('mapRows', () => {
+        it('should combine first and last name columns and skip empty rows', () => {
+            const rows = mapRows(
+                [
+                    ['Ali', 'Ahmed', '010-1234-5678'],
+                    ['', '', ''],
+                    ['Hassan', 'Sara', '٠١٠١٢٣٤٥٦٧٨'],
+                ],
+                ['lastName', 'firstName', 'phone']
+            );
+            expect(rows).toEqual([
+                { rowNumber: 2, fullName: 'Ahmed Ali', phoneNumber: '01012345678', countryCode: undefined },
+                { rowNumber: 4, fullName: 'Sara Hassan', phoneNumber: '01012345678', countryCode: undefined },
+            ]);
+        });
+
+        it('should reorder "Last, First" names when asked', () => {
+            const [row] = mapRows([['Ali, Ahmed', '01012345678']], ['fullName', 'phone'], { nameFormat: 'lastCommaFirst' });
+            expect(row.fullName).toBe('Ahmed Ali');
+        });
+
+        it('should split combined phone numbers and normalize country codes', () => {
+            expect(mapRows([['Ahmed', '+971 50 123 4567']], ['fullName', 'phoneWithCountry'])[0]).toMatchObject({
+                phoneNumber: '501234567',
+                countryCode: '+971',
+            });
+            expect(mapRows([['Ahmed', '00966', '501234567']], ['fullName', 'countryCode', 'phone'])[0].countryCode).toBe('+966');
+        });
+    });
+
+    describe('presets', () => {
+        const headers = ['Patient', 'Mobile No.', 'Notes'];
+        const preset = createPreset(' عيادة الأسنان ', headers, ['fullName', 'phone', 'ignore'], { nameFormat: 'asIs' });
+
+        it('should store roles by normalized header name', () => {
+            expect(preset).toEqual({
+                name: 'عيادة الأسنان',
+                columns: { patient: 'fullName', 'mobile no': 'phone' },
+                options: { nameFormat: 'asIs' },
+                sheetName: undefined,
+            });
+        });
+
+        it('should apply to files with the same headers in any order', () => {
+            const reordered = ['Notes', 'MOBILE NO', 'patient'];
+            expect(presetMatchesHeaders(reordered, preset)).toBe(true);
+            expect(applyPreset(reordered, preset)).toEqual(['ignore', 'phone', 'fullName']);
+            expect(presetMatchesHeaders(['Patient', 'Phone'], preset)).toBe(false);
+        });
+    });
+
+    describe('validateMapping', () => {
+        it('should require a name and a phone column', () => {
+            expect(validateMapping(['fullName', 'phone'])).toBeNull();
+            expect(validateMapping(['firstName', 'lastName', 'phoneWithCountry'])).toBeNull();
+            expect(validateMapping(['phone'])).not.toBeNull();
+            expect(validateMapping(['fullName', 'ignore'])).not.toBeNull();
+        });
+
+        it('should reject conflicting phone columns', () => {
+            expect(validateMapping(['fullName', 'phone', 'phone'])).not.toBeNull();
+            expect(validateMapping(['fullName', 'phoneWithCountry', 'countryCode'])).not.toBeNull();
+        });
+    });
+});
@@ -0,0 +1,34 @@
+/**
+ * Upload Error Report Tests
+ *
+ * Tests verify how preview rows are split into accepted and rejected rows and the rows written to the error workbook.
+ */
+
+import { buildErrorReportRows, splitRowsByErrors, ERROR_COLUMN_HEADER } from '../../utils/uploadErrorReport';
+
+describe('Upload Error Report', () => {
+    const table = [
+        ['الاسم الكامل', 'كود الدولة', 'رقم الهاتف'],
+        ['Ahmed', '+20', '01000000001'],
+        ['Mona', '+20', '01x'],
+        ['', '+20', ''],
+        ['', '+20', '01000000003'],
+        ['Sara', '+9999', '01000000004'],
+    ];
+    const cellErrors = { '2-2': 'صيغة هاتف غير صحيحة', '5-1': 'كود الدولة يجب أن يكون 1-4 أرقام' };
+
+    it('should reject rows with cell errors or a missing name/phone and drop empty rows', () => {
+        const { accepted, rejected } = splitRowsByErrors(table, cellErrors);
+        expect(accepted).toEqual([['Ahmed', '+20', '01000000001']]);
+        expect(rejected.map((r) => r.row)).toEqual([2, 4, 5]);
+        expect(rejected[1].errors).toEqual({ 0: 'الاسم مطلوب' });
+    });
+
+    it('should append an error column naming the invalid columns', () => {
+        const { rejected } = splitRowsByErrors(table, cellErrors);
+        const rows = buildErrorReportRows(table[0], rejected);
+        expect(rows[0]).toEqual([...table[0], ERROR_COLUMN_HEADER]);
+        expect(rows[1]).toEqual(['Mona', '+20', '01x', 'رقم الهاتف: صيغة هاتف غير صحيحة']);
+        expect(rows).toHaveLength(4);
+    });
+});
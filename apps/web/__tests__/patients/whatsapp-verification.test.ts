@@ -0,0 +1,55 @@
+/**
+ * WhatsApp Number Verification Tests
+ *
+ * Tests verify how the bulk verification job groups numbers and reuses cached results until they expire.
+ */
+
+import {
+    isCacheEntryFresh,
+    planVerification,
+    pruneVerificationCache,
+    verificationKey,
+    type VerificationCache,
+    type VerificationPatient,
+} from '../../utils/whatsAppVerification';
+
+describe('WhatsApp Number Verification', () => {
+    const now = new Date('2025-03-10T12:00:00Z');
+    const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+
+    const patients: VerificationPatient[] = [
+        { id: 1, fullName: 'Ahmed', phoneNumber: '01012345678', countryCode: '+20', status: 'waiting' },
+        { id: 2, fullName: 'Ahmed (again)', phoneNumber: '1012345678', countryCode: '+20', status: 'waiting' },
+        { id: 3, fullName: 'Mona', phoneNumber: '01112345678', countryCode: '+20', status: 'waiting' },
+        { id: 4, fullName: 'Sara', phoneNumber: '01212345678', countryCode: '+20', status: 'in_service' },
+        { id: 5, fullName: 'Done', phoneNumber: '01512345678', countryCode: '+20', status: 'completed' },
+    ];
+
+    it('should key numbers by E.164', () => {
+        expect(verificationKey('01012345678', '+20')).toBe('+201012345678');
+        expect(verificationKey('123', '+20')).toBe('+20123');
+    });
+
+    it('should check each number once and reuse fresh cached results', () => {
+        const cache: VerificationCache = {
+            '+201112345678': { hasWhatsApp: false, checkedAt: daysAgo(2) },
+            '+201212345678': { hasWhatsApp: true, checkedAt: daysAgo(30) },
+        };
+        const plan = planVerification(patients, cache, now);
+
+        expect(plan.toCheck.map((g) => [g.key, g.patients.map((p) => p.id)])).toEqual([
+            ['+201012345678', [1, 2]],
+            ['+201212345678', [4]],
+        ]);
+        expect(plan.cached).toEqual([{ key: '+201112345678', patients: [patients[2]], hasWhatsApp: false }]);
+    });
+
+    it('should expire cache entries after the TTL', () => {
+        expect(isCacheEntryFresh({ hasWhatsApp: true, checkedAt: daysAgo(6) }, now)).toBe(true);
+        expect(isCacheEntryFresh({ hasWhatsApp: true, checkedAt: daysAgo(8) }, now)).toBe(false);
+        expect(isCacheEntryFresh({ hasWhatsApp: true, checkedAt: daysAgo(2) }, now, 1)).toBe(false);
+        expect(
+            Object.keys(pruneVerificationCache({ a: { hasWhatsApp: true, checkedAt: daysAgo(1) }, b: { hasWhatsApp: true, checkedAt: daysAgo(9) } }, now))
+        ).toEqual(['a']);
+    });
+});
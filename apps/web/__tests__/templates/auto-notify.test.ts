@@ -0,0 +1,95 @@
+/**
+ * Auto-Notify Tests
+ *
+ * Tests verify which patients an automatic message goes to after CQP advances:
+ * condition changes, the de-duplication window and unvalidated numbers.
+ */
+
+import { buildAutoNotifyConfig, planAutoNotifications, type AutoNotifyPatient } from '../../services/autoNotifyService';
+import type { MessageCondition } from '../../types/messageCondition';
+import type { MessageTemplate } from '../../types/messageTemplate';
+
+describe('Auto-Notify', () => {
+    const now = new Date('2026-10-18T09:00:00Z');
+    const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60000).toISOString();
+
+    const templates = [
+        { id: '10', title: 'قريب', content: 'دورك قريب يا {PN}' },
+        { id: '20', title: 'افتراضي', content: 'مكانك {PQP}' },
+    ] as MessageTemplate[];
+
+    const conditions: MessageCondition[] = [
+        { id: 'c1', queueId: '1', templateId: '10', priority: 1, operator: 'RANGE', minValue: 1, maxValue: 2, template: '' },
+        { id: 'c2', queueId: '1', templateId: '20', priority: 2, operator: 'DEFAULT', template: '' },
+        { id: 'c3', queueId: '2', templateId: '10', priority: 1, operator: 'DEFAULT', template: 'other queue' },
+    ];
+
+    const config = buildAutoNotifyConfig('1', 'د. أحمد', conditions, templates);
+
+    const patient = (id: string, position: number, overrides: Partial<AutoNotifyPatient> = {}): AutoNotifyPatient => ({
+        id,
+        name: `مريض ${id}`,
+        position,
+        isValidWhatsAppNumber: true,
+        ...overrides,
+    });
+
+    it('should keep only the queue conditions and fill template content from the templates', () => {
+        expect(config.conditions.map((c) => c.id)).toEqual(['c1', 'c2']);
+        expect(config.conditions[0].template).toBe('دورك قريب يا {PN}');
+        expect(config.conditions[1].template).toBe('مكانك {PQP}');
+    });
+
+    it('should notify never-messaged patients that match a condition and exclude served ones', () => {
+        const plan = planAutoNotifications(config, [patient('1', 4), patient('2', 6), patient('3', 9)], 5, {}, { now });
+
+        expect(plan.patientIds).toEqual(['2', '3']);
+        expect(plan.skipped).toEqual([{ patientId: '1', reason: 'EXCLUDED' }]);
+    });
+
+    it('should skip patients whose matched template did not change', () => {
+        const plan = planAutoNotifications(
+            config,
+            [patient('1', 6), patient('2', 9)],
+            5,
+            {
+                '1': { templateId: 20, createdAt: minutesAgo(120) }, // now matches the RANGE template (10)
+                '2': { templateId: 20, createdAt: minutesAgo(120) }, // still on DEFAULT
+            },
+            { now }
+        );
+
+        expect(plan.patientIds).toEqual(['1']);
+        expect(plan.skipped).toEqual([{ patientId: '2', reason: 'UNCHANGED' }]);
+    });
+
+    it('should respect the de-duplication window', () => {
+        const lastMessages = { '1': { templateId: '20', createdAt: minutesAgo(20) } };
+
+        const defaultWindow = planAutoNotifications(config, [patient('1', 6)], 5, lastMessages, { now });
+        expect(defaultWindow.skipped).toEqual([{ patientId: '1', reason: 'DEDUP_WINDOW' }]);
+
+        const shortWindow = planAutoNotifications(config, [patient('1', 6)], 5, lastMessages, { now, dedupWindowMinutes: 15 });
+        expect(shortWindow.patientIds).toEqual(['1']);
+    });
+
+    it('should skip unvalidated WhatsApp numbers', () => {
+        const plan = planAutoNotifications(
+            config,
+            [patient('1', 6, { isValidWhatsAppNumber: false }), patient('2', 7, { isValidWhatsAppNumber: null })],
+            5,
+            {},
+            { now }
+        );
+
+        expect(plan.patientIds).toEqual([]);
+        expect(plan.skipped.map((s) => s.reason)).toEqual(['UNVALIDATED_NUMBER', 'UNVALIDATED_NUMBER']);
+    });
+
+    it('should report NO_MATCH when the queue has no applicable condition', () => {
+        const rangeOnly = buildAutoNotifyConfig('1', 'د. أحمد', [conditions[0]], templates);
+        const plan = planAutoNotifications(rangeOnly, [patient('1', 9)], 5, {}, { now });
+
+        expect(plan.skipped).toEqual([{ patientId: '1', reason: 'NO_MATCH' }]);
+    });
+});
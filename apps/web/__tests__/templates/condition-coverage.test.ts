@@ -0,0 +1,102 @@
+/**
+ * Condition Coverage Tests
+ *
+ * Tests verify the offset coverage map and the update requests planned by the ruler actions.
+ */
+
+import {
+    buildCoverageMap,
+    getGapSegments,
+    planSplitOverlap,
+    planFillGapsWithDefault,
+    rangeToUpdateRequest,
+} from '../../utils/conditionCoverage';
+import type { MessageCondition } from '../../types/messageCondition';
+
+describe('Condition Coverage', () => {
+    const condition = (id: string, overrides: Partial<MessageCondition>): MessageCondition => ({
+        id,
+        priority: Number(id),
+        template: '',
+        operator: 'RANGE',
+        ...overrides,
+    });
+
+    describe('buildCoverageMap', () => {
+        it('should mark covered, overlapping and gap offsets', () => {
+            const cells = buildCoverageMap(
+                [
+                    condition('1', { minValue: 1, maxValue: 3 }),
+                    condition('2', { minValue: 3, maxValue: 5 }),
+                    condition('3', { operator: 'GREATER', value: 7 }),
+                ],
+                10
+            );
+
+            expect(cells.map((c) => c.state)).toEqual([
+                'covered', 'covered', 'overlap', 'covered', 'covered',
+                'gap', 'gap', 'covered', 'covered', 'covered',
+            ]);
+            expect(cells[2].conditionIds).toEqual(['1', '2']);
+            expect(getGapSegments(cells)).toEqual([{ min: 6, max: 7 }]);
+        });
+
+        it('should mark offsets covered only in some contexts as partial', () => {
+            const cells = buildCoverageMap(
+                [condition('1', { minValue: 1, maxValue: 2, criteria: { alreadyMessaged: true } })],
+                3
+            );
+            expect(cells.map((c) => c.state)).toEqual(['partial', 'partial', 'gap']);
+        });
+    });
+
+    describe('rangeToUpdateRequest', () => {
+        it('should pick the simplest valid operator', () => {
+            expect(rangeToUpdateRequest({ min: 4, max: 4 })).toEqual({ operator: 'EQUAL', value: 4, minValue: null, maxValue: null });
+            expect(rangeToUpdateRequest({ min: 2, max: 6 })).toEqual({ operator: 'RANGE', value: null, minValue: 2, maxValue: 6 });
+            expect(rangeToUpdateRequest({ min: 10, max: 999 })).toEqual({ operator: 'GREATER', value: 9, minValue: null, maxValue: null });
+            expect(rangeToUpdateRequest({ min: 0, max: 3 })).toBeNull();
+        });
+    });
+
+    describe('planSplitOverlap', () => {
+        it('should split a partial overlap in the middle', () => {
+            const updates = planSplitOverlap(
+                condition('1', { minValue: 1, maxValue: 6 }),
+                condition('2', { minValue: 3, maxValue: 10 })
+            );
+            expect(updates.map((u) => [u.conditionId, u.range])).toEqual([
+                ['1', { min: 1, max: 4 }],
+                ['2', { min: 5, max: 10 }],
+            ]);
+        });
+
+        it('should trim the wider condition when one contains the other', () => {
+            const updates = planSplitOverlap(
+                condition('1', { operator: 'GREATER', value: 2 }),
+                condition('2', { operator: 'EQUAL', value: 5 })
+            );
+            expect(updates).toEqual([
+                { conditionId: '1', range: { min: 3, max: 4 }, request: { operator: 'RANGE', value: null, minValue: 3, maxValue: 4 } },
+            ]);
+        });
+
+        it('should not split identical single offsets', () => {
+            expect(planSplitOverlap(condition('1', { operator: 'EQUAL', value: 2 }), condition('2', { operator: 'EQUAL', value: 2 }))).toEqual([]);
+        });
+    });
+
+    describe('planFillGapsWithDefault', () => {
+        const unconditioned = condition('9', { operator: 'UNCONDITIONED' });
+
+        it('should turn the chosen UNCONDITIONED template into the DEFAULT', () => {
+            const updates = planFillGapsWithDefault([unconditioned], '9');
+            expect(updates).toHaveLength(1);
+            expect(updates[0].request.operator).toBe('DEFAULT');
+        });
+
+        it('should do nothing when a DEFAULT template already serves the gaps', () => {
+            expect(planFillGapsWithDefault([unconditioned, condition('1', { operator: 'DEFAULT' })], '9')).toEqual([]);
+        });
+    });
+});
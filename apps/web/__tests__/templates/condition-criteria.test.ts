@@ -0,0 +1,82 @@
+/**
+ * Condition Criteria Tests
+ *
+ * Tests verify matching on time window, day, patient status, country and message history,
+ * and that overlap detection accounts for mutually exclusive criteria.
+ */
+
+import { matchesCriteria, criteriaCanOverlap, groupConditionsByCriteriaContext } from '../../utils/conditionCriteria';
+import { conditionsOverlap } from '../../utils/conditionRules';
+import { resolvePatientMessage } from '../../services/queueMessageService';
+import type { MessageCondition } from '../../types/messageCondition';
+
+describe('Condition Criteria', () => {
+    // Sunday 18/10/2026
+    const morning = new Date(2026, 9, 18, 9, 30);
+    const evening = new Date(2026, 9, 18, 19, 0);
+
+    const condition = (id: string, overrides: Partial<MessageCondition> = {}): MessageCondition => ({
+        id,
+        priority: Number(id),
+        operator: 'RANGE',
+        minValue: 1,
+        maxValue: 5,
+        template: `template ${id}`,
+        ...overrides,
+    });
+
+    const morningShift = condition('1', { criteria: { timeWindow: { start: '08:00', end: '14:00' } } });
+    const eveningShift = condition('2', { criteria: { timeWindow: { start: '14:00', end: '22:00' } } });
+
+    describe('matchesCriteria', () => {
+        it('should match time windows, including windows past midnight', () => {
+            expect(matchesCriteria(morningShift, { now: morning })).toBe(true);
+            expect(matchesCriteria(morningShift, { now: evening })).toBe(false);
+
+            const night = { criteria: { timeWindow: { start: '20:00', end: '02:00' } } };
+            expect(matchesCriteria(night, { now: new Date(2026, 9, 18, 1, 0) })).toBe(true);
+            expect(matchesCriteria(night, { now: morning })).toBe(false);
+        });
+
+        it('should match status (raw or display label) and normalized country codes', () => {
+            const cond = { criteria: { patientStatuses: ['waiting' as const], countryCodes: ['+20'] } };
+            expect(matchesCriteria(cond, { patientStatus: 'قيد الانتظار', countryCode: '0020' })).toBe(true);
+            expect(matchesCriteria(cond, { patientStatus: 'waiting', countryCode: '+966' })).toBe(false);
+            expect(matchesCriteria(cond, { countryCode: '+20' })).toBe(false);
+        });
+
+        it('should combine criteria with OR', () => {
+            const cond = {
+                criteria: { daysOfWeek: [5], alreadyMessaged: true },
+                criteriaLogic: 'OR' as const,
+            };
+            expect(matchesCriteria(cond, { now: morning, alreadyMessaged: true })).toBe(true);
+            expect(matchesCriteria(cond, { now: morning, alreadyMessaged: false })).toBe(false);
+        });
+    });
+
+    describe('resolvePatientMessage', () => {
+        it('should pick the condition whose criteria match', () => {
+            const config = { queueId: 'q1', conditions: [morningShift, eveningShift] };
+            expect(resolvePatientMessage(config, 'p1', 'أحمد', 5, 3, { now: morning }).matchedConditionId).toBe('1');
+            expect(resolvePatientMessage(config, 'p1', 'أحمد', 5, 3, { now: evening }).matchedConditionId).toBe('2');
+        });
+    });
+
+    describe('overlap and gaps', () => {
+        it('should not report same offsets with disjoint time windows as overlapping', () => {
+            expect(criteriaCanOverlap(morningShift, eveningShift)).toBe(false);
+            expect(conditionsOverlap(morningShift, eveningShift)).toBe(false);
+        });
+
+        it('should report overlap when criteria can match together', () => {
+            const messaged = condition('3', { criteria: { alreadyMessaged: true } });
+            expect(conditionsOverlap(morningShift, messaged)).toBe(true);
+        });
+
+        it('should group conditions by the contexts in which they are active', () => {
+            const groups = groupConditionsByCriteriaContext([morningShift, eveningShift]);
+            expect(groups.map((g) => g.map((c) => c.id))).toEqual(expect.arrayContaining([['1'], ['2'], []]));
+        });
+    });
+});
@@ -0,0 +1,185 @@
+/**
+ * Condition Rules Property Tests
+ *
+ * Randomized (seeded) checks that overlap and gap detection agree with matching:
+ * two conditions overlap exactly when some patient matches both, and an offset is a gap
+ * exactly when some patient at that offset matches none. Contexts are enumerated
+ * exhaustively over the small domains the generators draw criteria from.
+ */
+
+import {
+    conditionToRange,
+    conditionsOverlap,
+    detectGaps,
+    matchesCondition,
+    matchesOffset,
+} from '../../utils/conditionRules';
+import { matchesCondition as matchesLegacyCondition } from '../../utils/queuePositionUtils';
+import type { ConditionMatchContext } from '../../utils/conditionCriteria';
+import type { ConditionCriteria, ConditionPatientStatus, MessageCondition } from '../../types/messageCondition';
+
+// ---------- seeded generators ----------
+
+type Random = () => number;
+
+function createRandom(seed: number): Random {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+const int = (random: Random, min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+const pick = <T,>(random: Random, items: readonly T[]): T => items[int(random, 0, items.length - 1)];
+const subset = <T,>(random: Random, items: readonly T[]): T[] => items.filter(() => random() < 0.4);
+
+/** Run a property for `runs` generated cases; the seed is reported on failure */
+function forAll<T>(runs: number, generate: (random: Random) => T, property: (value: T) => void, seed = 20261018) {
+    for (let run = 0; run < runs; run++) {
+        const value = generate(createRandom(seed + run));
+        try {
+            property(value);
+        } catch (error) {
+            throw new Error(`Property failed for seed ${seed + run}: ${JSON.stringify(value)}\n${(error as Error).message}`);
+        }
+    }
+}
+
+const MAX_OFFSET = 12;
+const STATUSES: ConditionPatientStatus[] = ['waiting', 'in_service', 'completed', 'cancelled'];
+const COUNTRIES = ['+20', '+966'];
+const hour = (h: number) => `${String(h).padStart(2, '0')}:00`;
+
+function generateCriteria(random: Random): ConditionCriteria | undefined {
+    if (random() < 0.25) return undefined;
+    const criteria: ConditionCriteria = {};
+    if (random() < 0.5) {
+        const start = int(random, 0, 23);
+        criteria.timeWindow = { start: hour(start), end: hour((start + int(random, 1, 12)) % 24) };
+    }
+    if (random() < 0.4) criteria.daysOfWeek = subset(random, [0, 1, 2, 3, 4, 5, 6]);
+    if (random() < 0.3) criteria.patientStatuses = subset(random, STATUSES);
+    if (random() < 0.3) criteria.countryCodes = subset(random, COUNTRIES);
+    if (random() < 0.5) criteria.alreadyMessaged = random() < 0.5;
+    return criteria;
+}
+
+function generateCondition(random: Random, id: string): MessageCondition {
+    const operator = pick(random, ['EQUAL', 'GREATER', 'LESS', 'RANGE', 'RANGE', 'DEFAULT'] as const);
+    // Small values so that most generated pairs share offsets
+    const a = int(random, 1, MAX_OFFSET / 2);
+    const b = int(random, 1, MAX_OFFSET / 2);
+    return {
+        id,
+        priority: Number(id),
+        template: '',
+        operator,
+        value: operator === 'RANGE' || operator === 'DEFAULT' ? undefined : a,
+        minValue: operator === 'RANGE' ? Math.min(a, b) : undefined,
+        maxValue: operator === 'RANGE' ? Math.max(a, b) : undefined,
+        criteria: generateCriteria(random),
+        criteriaLogic: random() < 0.3 ? 'OR' : 'AND',
+        enabled: random() < 0.9,
+    };
+}
+
+// Every context the generated criteria can tell apart: each hour of each weekday (Sunday 18/10/2026 + day)
+// crossed with every status, country (plus one no condition lists) and message history.
+const CONTEXTS: ConditionMatchContext[] = [];
+for (let day = 0; day < 7; day++)
+    for (let h = 0; h < 24; h++)
+        for (const patientStatus of STATUSES)
+            for (const countryCode of [...COUNTRIES, '+1'])
+                for (const alreadyMessaged of [false, true])
+                    CONTEXTS.push({ now: new Date(2026, 9, 18 + day, h, 30), patientStatus, countryCode, alreadyMessaged });
+
+// GREATER conditions are open-ended, so the sampled offsets go past every generated value
+const OFFSETS = Array.from({ length: MAX_OFFSET + 1 }, (_, i) => i);
+
+describe('Condition Rules (properties)', () => {
+    it('overlap holds exactly when some patient matches both conditions', () => {
+        forAll(
+            300,
+            (random) => {
+                const cond1 = generateCondition(random, '1');
+                const cond2 = generateCondition(random, '2');
+                // Half of the pairs share the offset rule and differ only in criteria
+                return random() < 0.5
+                    ? ([cond1, { ...cond2, operator: cond1.operator, value: cond1.value, minValue: cond1.minValue, maxValue: cond1.maxValue }] as const)
+                    : ([cond1, cond2] as const);
+            },
+            ([cond1, cond2]) => {
+                const sharedOffsets = OFFSETS.filter((o) => matchesOffset(cond1, o) && matchesOffset(cond2, o));
+                const someoneMatchesBoth =
+                    sharedOffsets.length > 0 &&
+                    CONTEXTS.some(
+                        (ctx) =>
+                            matchesCondition(cond1, sharedOffsets[0], ctx) && matchesCondition(cond2, sharedOffsets[0], ctx)
+                    );
+                expect(conditionsOverlap(cond1, cond2)).toBe(someoneMatchesBoth);
+                expect(conditionsOverlap(cond2, cond1)).toBe(someoneMatchesBoth);
+            }
+        );
+    });
+
+    it('an offset is a gap exactly when some patient at that offset matches no condition', () => {
+        forAll(
+            40,
+            (random) => Array.from({ length: int(random, 1, 3) }, (_, i) => generateCondition(random, String(i + 1))),
+            (conditions) => {
+                const gaps = detectGaps(conditions);
+                OFFSETS.filter((o) => o >= 1).forEach((offset) => {
+                    const reported = gaps.some((gap) => offset >= gap.min && offset <= gap.max);
+                    const someoneUnmatched = CONTEXTS.some((ctx) => !conditions.some((c) => matchesCondition(c, offset, ctx)));
+                    expect(reported).toBe(someoneUnmatched);
+                });
+            }
+        );
+    });
+
+    it('conditions without a valid range never match or overlap', () => {
+        forAll(
+            100,
+            (random) => ({
+                cond: {
+                    ...generateCondition(random, '1'),
+                    operator: pick(random, ['EQUAL', 'GREATER', 'LESS'] as const),
+                    value: pick(random, [0, -3, 2.5, undefined]),
+                },
+                other: generateCondition(random, '2'),
+            }),
+            ({ cond, other }) => {
+                expect(conditionToRange(cond)).toBeNull();
+                expect(OFFSETS.some((o) => matchesOffset(cond, o))).toBe(false);
+                expect(conditionsOverlap(cond, other)).toBe(false);
+            }
+        );
+    });
+
+    it('legacy lowercase operators evaluate the same as the standard ones', () => {
+        const legacy = { EQUAL: 'equals', GREATER: 'greater', LESS: 'less', RANGE: 'range' } as const;
+        forAll(
+            100,
+            (random) => ({ ...generateCondition(random, '1'), operator: pick(random, ['EQUAL', 'GREATER', 'LESS', 'RANGE'] as const) }),
+            (cond) => {
+                const cqp = 4;
+                OFFSETS.forEach((offset) => {
+                    expect(
+                        matchesLegacyCondition(
+                            cqp + offset,
+                            legacy[cond.operator as keyof typeof legacy],
+                            cond.value === undefined ? undefined : String(cond.value),
+                            cond.minValue,
+                            cond.maxValue,
+                            cqp
+                        )
+                    ).toBe(matchesOffset(cond, offset));
+                });
+            }
+        );
+    });
+});
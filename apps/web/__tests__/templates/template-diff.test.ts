@@ -0,0 +1,51 @@
+/**
+ * Template Diff Tests
+ *
+ * Tests verify the line diff, the side-by-side pairing and the condition change list
+ * shown in the template version history.
+ */
+
+import { buildSideBySideDiff, diffConditions, diffLines } from '../../utils/templateDiff';
+
+describe('Template Diff', () => {
+    describe('diffLines', () => {
+        it('should keep common lines and mark removed and added ones', () => {
+            expect(diffLines('مرحبا\nموعدك 10\nشكرا', 'مرحبا\nموعدك 11\nشكرا')).toEqual([
+                { type: 'same', text: 'مرحبا' },
+                { type: 'removed', text: 'موعدك 10' },
+                { type: 'added', text: 'موعدك 11' },
+                { type: 'same', text: 'شكرا' },
+            ]);
+        });
+
+        it('should report no changes for identical text', () => {
+            expect(diffLines('a\nb', 'a\nb').every((line) => line.type === 'same')).toBe(true);
+        });
+    });
+
+    describe('buildSideBySideDiff', () => {
+        it('should pair a replaced line with its replacement and leave the extra side empty', () => {
+            const rows = buildSideBySideDiff('a\nb\nc', 'a\nB\nB2\nc');
+            expect(rows).toEqual([
+                { before: { lineNumber: 1, text: 'a', changed: false }, after: { lineNumber: 1, text: 'a', changed: false } },
+                { before: { lineNumber: 2, text: 'b', changed: true }, after: { lineNumber: 2, text: 'B', changed: true } },
+                { before: undefined, after: { lineNumber: 3, text: 'B2', changed: true } },
+                { before: { lineNumber: 3, text: 'c', changed: false }, after: { lineNumber: 4, text: 'c', changed: false } },
+            ]);
+        });
+    });
+
+    describe('diffConditions', () => {
+        it('should list the rule change and ignore unchanged criteria', () => {
+            const changes = diffConditions(
+                { operator: 'RANGE', minValue: 1, maxValue: 3 },
+                { operator: 'GREATER', value: 5 }
+            );
+            expect(changes).toEqual([{ field: 'rule', label: 'الشرط', before: 'نطاق 1 - 3', after: 'أكبر من 5' }]);
+        });
+
+        it('should treat a missing condition as unconditioned', () => {
+            expect(diffConditions(undefined, { operator: 'UNCONDITIONED' })).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,57 @@
+/**
+ * Template Library Tests
+ *
+ * Tests verify search, category and scope filtering of the shared template library.
+ */
+
+import { filterLibraryTemplates, getLibraryCategories, normalizeSearchText } from '../../utils/templateLibrary';
+import type { LibraryTemplate } from '../../types/messageTemplate';
+
+describe('Template Library', () => {
+    const template = (id: string, overrides: Partial<LibraryTemplate>): LibraryTemplate => ({
+        id,
+        title: '',
+        content: '',
+        scope: 'moderator',
+        linkedQueueCount: 0,
+        createdAt: new Date(2026, 9, 18),
+        ...overrides,
+    });
+
+    const templates = [
+        template('1', { title: 'ترحيب', content: 'أهلاً {PN}، دورك رقم {PQP}', category: 'ترحيب' }),
+        template('2', { title: 'اقتراب الدور', content: 'باقي مريضان قبلك', category: 'تذكير', scope: 'system' }),
+        template('3', { title: 'Thank you', content: 'Thanks for visiting' }),
+    ];
+
+    describe('normalizeSearchText', () => {
+        it('should ignore diacritics and letter variants', () => {
+            expect(normalizeSearchText('أَهلاً')).toBe(normalizeSearchText('اهلا'));
+            expect(normalizeSearchText('عيادة')).toBe(normalizeSearchText('عياده'));
+        });
+    });
+
+    describe('filterLibraryTemplates', () => {
+        it('should match every search term in title, content or category', () => {
+            expect(filterLibraryTemplates(templates, { search: 'اهلا دورك' }).map((t) => t.id)).toEqual(['1']);
+            expect(filterLibraryTemplates(templates, { search: 'تذكير' }).map((t) => t.id)).toEqual(['2']);
+            expect(filterLibraryTemplates(templates, { search: 'THANKS' }).map((t) => t.id)).toEqual(['3']);
+        });
+
+        it('should filter by scope and category, with empty category meaning uncategorized', () => {
+            expect(filterLibraryTemplates(templates, { scope: 'system' }).map((t) => t.id)).toEqual(['2']);
+            expect(filterLibraryTemplates(templates, { category: '' }).map((t) => t.id)).toEqual(['3']);
+            expect(filterLibraryTemplates(templates, { category: null, scope: 'all' })).toHaveLength(3);
+        });
+    });
+
+    describe('getLibraryCategories', () => {
+        it('should count templates per category with uncategorized last', () => {
+            expect(getLibraryCategories(templates)).toEqual([
+                { category: 'تذكير', count: 1 },
+                { category: 'ترحيب', count: 1 },
+                { category: '', count: 1 },
+            ]);
+        });
+    });
+});
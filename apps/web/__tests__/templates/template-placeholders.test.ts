@@ -0,0 +1,144 @@
+/**
+ * Template Placeholder Engine Tests
+ *
+ * Tests verify placeholder parsing, fallbacks, conditional blocks and validation shared by preview and editors.
+ */
+
+import {
+    parsePlaceholders,
+    parseTemplate,
+    renderTemplate,
+    buildPlaceholderValues,
+    buildDefaultFallbacks,
+    formatEstimatedTime,
+    validateCustomVariableKey,
+} from '../../utils/templatePlaceholders';
+
+describe('Template Placeholder Engine', () => {
+    const now = new Date(2026, 9, 18, 9, 30);
+
+    describe('parsePlaceholders', () => {
+        it('should parse keys with and without fallback', () => {
+            const parsed = parsePlaceholders('مرحباً {PN|عزيزي المريض}، دورك {PQP} - {APPT_TIME}');
+
+            expect(parsed.map((p) => p.key)).toEqual(['PN', 'PQP', 'APPT_TIME']);
+            expect(parsed[0].fallback).toBe('عزيزي المريض');
+            expect(parsed[1].fallback).toBeUndefined();
+        });
+
+        it('should ignore lowercase tokens', () => {
+            expect(parsePlaceholders('{pn} {Pn}')).toEqual([]);
+        });
+    });
+
+    describe('renderTemplate', () => {
+        const values = buildPlaceholderValues({
+            patientName: 'أحمد محمد',
+            patientPosition: 5,
+            currentQueuePosition: 3,
+            estimatedTimePerSessionMinutes: 15,
+            queueName: 'د. علي',
+            customVariables: { ROOM: '12' },
+            now,
+        });
+
+        it('should render built-in and custom variables', () => {
+            expect(renderTemplate('{PN} {PQP} {CQP} {OFFSET} {QN} {ROOM}', values))
+                .toBe('أحمد محمد 5 3 2 د. علي 12');
+        });
+
+        it('should render date and time variables', () => {
+            expect(renderTemplate('{DATE} {TIME} {APPT_TIME} {ETR}', values))
+                .toBe('18/10/2026 09:30 10:00 30 دقيقة');
+        });
+
+        it('should use fallback when value is missing', () => {
+            const noName = buildPlaceholderValues({ patientPosition: 1, currentQueuePosition: 1, now });
+            expect(renderTemplate('مرحباً {PN|عزيزي المريض}', noName)).toBe('مرحباً عزيزي المريض');
+            expect(renderTemplate('مرحباً {PN}', noName)).toBe('مرحباً ');
+        });
+
+        it('should use the built-in defaults when the token has no fallback', () => {
+            const noNames = buildPlaceholderValues({ patientPosition: 1, currentQueuePosition: 1, now });
+            const defaults = buildDefaultFallbacks({ patientId: 42 });
+            expect(renderTemplate('{PN} - {DN}', noNames, defaults)).toBe('Patient ID: 42 - غير محدد');
+            expect(renderTemplate('{PN|عزيزي المريض} - {DN|العيادة}', noNames, defaults)).toBe('عزيزي المريض - العيادة');
+            expect(renderTemplate('{PN} - {DN}', values, defaults)).toBe('أحمد محمد - د. علي');
+        });
+
+        it('should ignore fallback when value exists', () => {
+            expect(renderTemplate('{PN|عزيزي المريض}', values)).toBe('أحمد محمد');
+        });
+
+        it('should leave unknown variables unchanged', () => {
+            expect(renderTemplate('{UNKNOWN} {PN}', values)).toBe('{UNKNOWN} أحمد محمد');
+        });
+
+        it('should render the status link, or its fallback when the patient has none', () => {
+            const withLink = buildPlaceholderValues({ patientName: 'سارة', statusLink: 'https://clinic.example.com/status/t1', now });
+            expect(renderTemplate('تابع دورك: {LINK}', withLink)).toBe('تابع دورك: https://clinic.example.com/status/t1');
+            expect(renderTemplate('{LINK|اتصل بالعيادة}', values)).toBe('اتصل بالعيادة');
+        });
+
+        it('should not let custom variables override built-ins', () => {
+            const overridden = buildPlaceholderValues({ patientName: 'سارة', customVariables: { PN: 'X' }, now });
+            expect(renderTemplate('{PN}', overridden)).toBe('سارة');
+        });
+    });
+
+    describe('conditional blocks', () => {
+        const valuesFor = (position: number) =>
+            buildPlaceholderValues({ patientName: 'أحمد', patientPosition: position, currentQueuePosition: 3, now });
+        const template = 'مرحباً {PN}. {{#if OFFSET<=2}}تفضل بالحضور الآن{{else}}دورك بعد {OFFSET}{{/if}}';
+
+        it('should render the matching branch per patient', () => {
+            expect(renderTemplate(template, valuesFor(4))).toBe('مرحباً أحمد. تفضل بالحضور الآن');
+            expect(renderTemplate(template, valuesFor(9))).toBe('مرحباً أحمد. دورك بعد 6');
+        });
+
+        it('should support nesting, bare keys and string comparison', () => {
+            const values = { ...valuesFor(4), ROOM: '12' };
+            expect(renderTemplate('{{#if ROOM}}غرفة {ROOM}{{#if ROOM=="12"}}!{{/if}}{{/if}}', values)).toBe('غرفة 12!');
+            expect(renderTemplate('{{#if ROOM!="12"}}x{{else}}y{{/if}}', values)).toBe('y');
+        });
+
+        it('should report syntax errors with positions', () => {
+            const { errors } = parseTemplate('{{#if OFFSET<<2}}a{{else}}b{{else}}c{{/if}}{{/if}}{{#if PN}}');
+            expect(errors.map((e) => e.message)).toEqual([
+                'شرط غير صالح: "OFFSET<<2"',
+                'تكرار {{else}} في نفس الشرط',
+                '{{/if}} بدون {{#if}}',
+                '{{#if}} غير مغلق - أضف {{/if}}',
+            ]);
+            expect(errors[0].start).toBe(0);
+        });
+
+        it('should evaluate invalid conditions as false', () => {
+            expect(renderTemplate('{{#if OFFSET<<2}}a{{else}}b{{/if}}', valuesFor(4))).toBe('b');
+        });
+    });
+
+    describe('formatEstimatedTime', () => {
+        it('should match backend display format', () => {
+            expect(formatEstimatedTime(0)).toBe('الآن');
+            expect(formatEstimatedTime(5)).toBe('أقل من 5 دقائق');
+            expect(formatEstimatedTime(45)).toBe('45 دقيقة');
+            expect(formatEstimatedTime(90)).toBe('ساعة واحدة');
+            expect(formatEstimatedTime(180)).toBe('3 ساعات');
+            expect(formatEstimatedTime(195)).toBe('3 ساعات و 15 دقيقة');
+        });
+    });
+
+    describe('validateCustomVariableKey', () => {
+        it('should accept uppercase keys', () => {
+            expect(validateCustomVariableKey('ROOM_2')).toBeNull();
+        });
+
+        it('should reject invalid, reserved and duplicate keys', () => {
+            expect(validateCustomVariableKey('room')).not.toBeNull();
+            expect(validateCustomVariableKey('2ROOM')).not.toBeNull();
+            expect(validateCustomVariableKey('PN')).not.toBeNull();
+            expect(validateCustomVariableKey('ROOM', ['ROOM'])).not.toBeNull();
+        });
+    });
+});
@@ -0,0 +1,12 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+import SelfCheckInScreen from '../../../components/Public/SelfCheckInScreen';
+
+/**
+ * Self Check-In Page - Public route (no login), opened from a queue's printed QR code
+ */
+export default function CheckInPage() {
+  const { token } = useParams<{ token: string }>();
+  return <SelfCheckInScreen token={token} />;
+}
@@ -0,0 +1,30 @@
+'use client';
+
+import { Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import ProtectedRoute from '../../components/Auth/ProtectedRoute';
+import QueueDisplayScreen from '../../components/Queue/QueueDisplayScreen';
+import { parseDisplayQueueIds } from '../../utils/queueDisplay';
+
+function QueueDisplayRoute() {
+  const searchParams = useSearchParams();
+  return (
+    <QueueDisplayScreen
+      queueIds={parseDisplayQueueIds(searchParams.get('queues'))}
+      speechRequested={searchParams.get('speech') === '1'}
+    />
+  );
+}
+
+/**
+ * Waiting-Room Display Route - Full-screen TV kiosk (/display?queues=1,2&speech=1), opened on a staff-logged-in screen
+ */
+export default function QueueDisplayPage() {
+  return (
+    <ProtectedRoute>
+      <Suspense fallback={<div className="min-h-screen bg-gray-900"></div>}>
+        <QueueDisplayRoute />
+      </Suspense>
+    </ProtectedRoute>
+  );
+}
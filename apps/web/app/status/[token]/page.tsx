@@ -0,0 +1,12 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+import QueueStatusScreen from '../../../components/Public/QueueStatusScreen';
+
+/**
+ * Queue Status Page - Public route (no login), opened from the {LINK} in a patient's WhatsApp message
+ */
+export default function QueueStatusPage() {
+  const { token } = useParams<{ token: string }>();
+  return <QueueStatusScreen token={token} />;
+}
@@ -0,0 +1,241 @@
+/**
+ * Column Mapping Step
+ *
+ * Mapping step of the patient spreadsheet upload: choose the sheet, assign each column to a
+ * patient field (sample values shown), combine/reorder name columns, and save or apply named presets.
+ * Used in UploadModal
+ *
+ * File: apps/web/components/Common/ColumnMappingStep.tsx
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import {
+  COLUMN_ROLE_LABELS,
+  type ColumnMappingPreset,
+  type ColumnRole,
+  type MappingOptions,
+  type SpreadsheetCell,
+} from '@/utils/spreadsheetMapping';
+
+interface ColumnMappingStepProps {
+  sheetNames: string[];
+  selectedSheet: string;
+  onSheetChange: (sheetName: string) => void;
+  headers: SpreadsheetCell[];
+  sampleRows: SpreadsheetCell[][];
+  roles: ColumnRole[];
+  onRoleChange: (columnIndex: number, role: ColumnRole) => void;
+  options: MappingOptions;
+  onOptionsChange: (options: MappingOptions) => void;
+  presets: ColumnMappingPreset[];
+  activePresetName?: string;
+  onApplyPreset: (preset: ColumnMappingPreset) => void;
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (name: string) => void;
+  mappingError: string | null;
+  onConfirm: () => void;
+  disabled?: boolean;
+}
+
+const ROLE_OPTIONS = Object.keys(COLUMN_ROLE_LABELS) as ColumnRole[];
+
+export function ColumnMappingStep({
+  sheetNames,
+  selectedSheet,
+  onSheetChange,
+  headers,
+  sampleRows,
+  roles,
+  onRoleChange,
+  options,
+  onOptionsChange,
+  presets,
+  activePresetName,
+  onApplyPreset,
+  onSavePreset,
+  onDeletePreset,
+  mappingError,
+  onConfirm,
+  disabled = false,
+}: ColumnMappingStepProps) {
+  const [presetName, setPresetName] = useState(activePresetName || '');
+  const hasNameColumn = roles.some((r) => r === 'fullName' || r === 'firstName' || r === 'lastName');
+
+  return (
+    <div className="bg-indigo-50 border border-indigo-200 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <h4 className="font-medium text-indigo-800 flex items-center gap-2">
+          <i className="fas fa-columns"></i>
+          ربط أعمدة الملف بحقول المريض
+        </h4>
+
+        {/* Presets */}
+        {presets.length > 0 && (
+          <div className="flex items-center gap-2 text-sm">
+            <label htmlFor="columnMapping-preset" className="text-gray-700">إعداد محفوظ:</label>
+            <select
+              id="columnMapping-preset"
+              value={activePresetName || ''}
+              onChange={(e) => {
+                const preset = presets.find((p) => p.name === e.target.value);
+                if (preset) {
+                  onApplyPreset(preset);
+                  setPresetName(preset.name);
+                }
+              }}
+              disabled={disabled}
+              className="px-2 py-1 border border-gray-300 rounded-lg text-sm bg-white"
+            >
+              <option value="">- اختر -</option>
+              {presets.map((preset) => (
+                <option key={preset.name} value={preset.name}>
+                  {preset.name}
+                </option>
+              ))}
+            </select>
+            {activePresetName && (
+              <button
+                type="button"
+                onClick={() => onDeletePreset(activePresetName)}
+                disabled={disabled}
+                className="text-red-600 hover:text-red-700 text-xs"
+                title="حذف الإعداد المحفوظ"
+              >
+                <i className="fas fa-trash"></i>
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Sheet */}
+      {sheetNames.length > 1 && (
+        <div className="flex items-center gap-2 text-sm">
+          <label htmlFor="columnMapping-sheet" className="text-gray-700">
+            <i className="fas fa-layer-group ml-1"></i>
+            الورقة:
+          </label>
+          <select
+            id="columnMapping-sheet"
+            value={selectedSheet}
+            onChange={(e) => onSheetChange(e.target.value)}
+            disabled={disabled}
+            className="px-2 py-1 border border-gray-300 rounded-lg text-sm bg-white"
+          >
+            {sheetNames.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {/* Columns */}
+      <div className="overflow-x-auto border border-indigo-200 rounded-lg bg-white">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="bg-indigo-100 border-b border-indigo-200">
+              <th className="px-3 py-2 text-right text-indigo-800 font-semibold">عمود الملف</th>
+              <th className="px-3 py-2 text-right text-indigo-800 font-semibold">أمثلة من البيانات</th>
+              <th className="px-3 py-2 text-right text-indigo-800 font-semibold">الحقل</th>
+            </tr>
+          </thead>
+          <tbody>
+            {headers.map((header, index) => (
+              <tr key={index} className={`border-b border-gray-100 ${roles[index] === 'ignore' ? 'opacity-60' : ''}`}>
+                <td className="px-3 py-2 font-medium text-gray-800 whitespace-nowrap">
+                  {String(header ?? '') || `عمود ${index + 1}`}
+                </td>
+                <td className="px-3 py-2 text-gray-600 text-xs">
+                  {sampleRows
+                    .map((row) => String(row[index] ?? '').trim())
+                    .filter(Boolean)
+                    .slice(0, 3)
+                    .join(' | ') || '-'}
+                </td>
+                <td className="px-3 py-2">
+                  <select
+                    aria-label={`الحقل المقابل لعمود ${String(header ?? index + 1)}`}
+                    value={roles[index] || 'ignore'}
+                    onChange={(e) => onRoleChange(index, e.target.value as ColumnRole)}
+                    disabled={disabled}
+                    className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                  >
+                    {ROLE_OPTIONS.map((role) => (
+                      <option key={role} value={role}>
+                        {COLUMN_ROLE_LABELS[role]}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Name options */}
+      {hasNameColumn && (
+        <div className="text-sm text-gray-700 space-y-1">
+          {roles.filter((r) => r === 'fullName' || r === 'firstName' || r === 'lastName').length > 1 && (
+            <p className="text-xs text-gray-600">
+              <i className="fas fa-info-circle ml-1"></i>
+              سيتم دمج أعمدة الاسم بالترتيب: الاسم الأول، ثم الاسم الكامل، ثم اسم العائلة
+            </p>
+          )}
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={options.nameFormat === 'lastCommaFirst'}
+              onChange={(e) => onOptionsChange({ ...options, nameFormat: e.target.checked ? 'lastCommaFirst' : 'asIs' })}
+              disabled={disabled}
+            />
+            الأسماء مكتوبة بصيغة &quot;العائلة، الاسم&quot; (يتم عكسها)
+          </label>
+        </div>
+      )}
+
+      {mappingError && (
+        <p className="text-sm text-red-600 flex items-center gap-1">
+          <i className="fas fa-exclamation-circle"></i>
+          {mappingError}
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 pt-2 border-t border-indigo-200">
+        <input
+          type="text"
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          placeholder="اسم الإعداد (مثال: برنامج الاستقبال)"
+          aria-label="اسم إعداد الربط"
+          disabled={disabled}
+          className="flex-1 min-w-[180px] px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+        />
+        <button
+          type="button"
+          onClick={() => onSavePreset(presetName)}
+          disabled={disabled || !presetName.trim() || !!mappingError}
+          className="px-3 py-1.5 text-sm bg-white border border-indigo-300 text-indigo-700 rounded-lg hover:bg-indigo-100 transition disabled:opacity-50 flex items-center gap-1"
+        >
+          <i className="fas fa-save"></i>
+          حفظ الإعداد
+        </button>
+        <button
+          type="button"
+          onClick={onConfirm}
+          disabled={disabled || !!mappingError}
+          className="px-4 py-1.5 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition disabled:opacity-50 flex items-center gap-1"
+        >
+          <i className="fas fa-arrow-left"></i>
+          متابعة للمعاينة
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default ColumnMappingStep;
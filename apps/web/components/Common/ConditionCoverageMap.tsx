@@ -0,0 +1,232 @@
+/**
+ * Condition Coverage Map Component
+ *
+ * Offset ruler (1..50) showing which condition/template covers each offset,
+ * with overlaps and gaps highlighted. Range bars can be resized by dragging their
+ * edges (or with the arrow keys on a focused edge).
+ * Used in ManageConditionsModal
+ *
+ * File: apps/web/components/Common/ConditionCoverageMap.tsx
+ */
+
+'use client';
+
+import React, { useMemo, useRef, useState } from 'react';
+import type { MessageCondition } from '@/types/messageCondition';
+import { describeCriteria } from '@/utils/conditionCriteria';
+import {
+  COVERAGE_RULER_MAX,
+  OPEN_ENDED_MAX,
+  buildCoverageMap,
+  formatOffsetRange,
+  getRangedConditions,
+  getRulerRange,
+  type CoverageState,
+  type OffsetRange,
+} from '@/utils/conditionCoverage';
+
+interface ConditionCoverageMapProps {
+  conditions: MessageCondition[];
+  templateTitles: Record<string, string>; // templateId -> title
+  defaultTemplateTitle?: string;          // DEFAULT template that serves the gaps, if any
+  maxOffset?: number;
+  disabled?: boolean;
+  onResize: (condition: MessageCondition, range: OffsetRange) => void;
+}
+
+const STATE_CLASSES: Record<CoverageState, string> = {
+  covered: 'bg-green-400',
+  partial: 'bg-amber-300',
+  overlap: 'bg-red-500',
+  gap: 'bg-gray-200',
+};
+
+const BAR_COLORS = ['bg-blue-500', 'bg-purple-500', 'bg-teal-500', 'bg-pink-500', 'bg-indigo-500', 'bg-orange-500'];
+
+export function ConditionCoverageMap({
+  conditions,
+  templateTitles,
+  defaultTemplateTitle,
+  maxOffset = COVERAGE_RULER_MAX,
+  disabled = false,
+  onResize,
+}: ConditionCoverageMapProps) {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<{ conditionId: string; edge: 'min' | 'max'; range: OffsetRange } | null>(null);
+
+  const cells = useMemo(() => buildCoverageMap(conditions, maxOffset), [conditions, maxOffset]);
+  const ranged = useMemo(() => getRangedConditions(conditions), [conditions]);
+
+  const titleOf = (cond: MessageCondition) => templateTitles[cond.templateId || ''] || cond.name || 'قالب غير معروف';
+
+  const cellTitle = (offset: number, state: CoverageState, ids: string[]) => {
+    const names = ids
+      .map((id) => ranged.find((c) => c.id === id))
+      .filter((c): c is MessageCondition => !!c)
+      .map(titleOf);
+    if (state === 'gap') {
+      return `${offset}: ${defaultTemplateTitle ? `القالب الافتراضي (${defaultTemplateTitle})` : 'لا يوجد قالب - لن تُرسل رسالة'}`;
+    }
+    const suffix = state === 'overlap' ? ' - تداخل' : state === 'partial' ? ' - تغطية جزئية' : '';
+    return `${offset}: ${names.join('، ')}${suffix}`;
+  };
+
+  // Offset under the pointer (ruler is always laid out left-to-right)
+  const offsetFromPointer = (clientX: number): number => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 1;
+    const ratio = (clientX - rect.left) / rect.width;
+    return Math.min(maxOffset, Math.max(1, Math.ceil(ratio * maxOffset)));
+  };
+
+  const moveEdge = (range: OffsetRange, edge: 'min' | 'max', offset: number): OffsetRange => {
+    if (edge === 'min') return { ...range, min: Math.min(offset, range.max) };
+    // Dragging the end of an open-ended range to the last offset keeps it open
+    const max = offset >= maxOffset && range.max >= OPEN_ENDED_MAX ? range.max : offset;
+    return { ...range, max: Math.max(max, range.min) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent, cond: MessageCondition, edge: 'min' | 'max') => {
+    if (disabled) return;
+    const range = getRulerRange(cond);
+    if (!range) return;
+    e.preventDefault();
+    (e.target as HTMLElement).setPointerCapture(e.pointerId);
+    setDrag({ conditionId: cond.id, edge, range });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const next = moveEdge(drag.range, drag.edge, offsetFromPointer(e.clientX));
+    if (next.min !== drag.range.min || next.max !== drag.range.max) {
+      setDrag({ ...drag, range: next });
+    }
+  };
+
+  const handlePointerUp = (cond: MessageCondition) => {
+    if (!drag) return;
+    const original = getRulerRange(cond);
+    const { range } = drag;
+    setDrag(null);
+    if (original && (original.min !== range.min || original.max !== range.max)) {
+      onResize(cond, range);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent, cond: MessageCondition, edge: 'min' | 'max') => {
+    if (disabled || (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight')) return;
+    const range = getRulerRange(cond);
+    if (!range) return;
+    e.preventDefault();
+    const current = edge === 'min' ? range.min : Math.min(range.max, maxOffset);
+    const next = moveEdge(range, edge, current + (e.key === 'ArrowRight' ? 1 : -1));
+    if (next.min >= 1 && (next.min !== range.min || next.max !== range.max)) {
+      onResize(cond, next);
+    }
+  };
+
+  const gridStyle = { gridTemplateColumns: `repeat(${maxOffset}, minmax(0, 1fr))` };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 bg-white space-y-2">
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <h5 className="text-sm font-semibold text-gray-800 flex items-center gap-2">
+          <i className="fas fa-ruler-horizontal text-blue-600"></i>
+          خريطة التغطية (الفرق عن الموضع الحالي)
+        </h5>
+        <div className="flex items-center gap-3 text-xs text-gray-600">
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-green-400 inline-block"></span>مغطى</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-amber-300 inline-block"></span>جزئي</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-red-500 inline-block"></span>تداخل</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-gray-200 inline-block"></span>فجوة</span>
+        </div>
+      </div>
+
+      <div dir="ltr" className="space-y-1 select-none">
+        {/* Tick labels */}
+        <div className="grid text-[10px] text-gray-500" style={gridStyle}>
+          {cells.map((cell) => (
+            <div key={cell.offset} className="text-center">
+              {cell.offset === 1 || cell.offset % 5 === 0 ? cell.offset : ''}
+            </div>
+          ))}
+        </div>
+
+        {/* Coverage row */}
+        <div ref={trackRef} className="grid gap-px" style={gridStyle}>
+          {cells.map((cell) => (
+            <div
+              key={cell.offset}
+              title={cellTitle(cell.offset, cell.state, cell.conditionIds)}
+              className={`h-4 ${STATE_CLASSES[cell.state]} ${
+                cell.state === 'gap' && !defaultTemplateTitle ? 'ring-1 ring-inset ring-red-400' : ''
+              }`}
+            />
+          ))}
+        </div>
+
+        {/* One lane per ranged condition */}
+        {ranged.map((cond, index) => {
+          const saved = getRulerRange(cond)!;
+          const range = drag?.conditionId === cond.id ? drag.range : saved;
+          if (range.min > maxOffset) {
+            return (
+              <div key={cond.id} className="text-[11px] text-gray-500 text-right" dir="rtl">
+                {titleOf(cond)}: {formatOffsetRange(range)} (خارج المسطرة)
+              </div>
+            );
+          }
+          const end = Math.min(range.max, maxOffset);
+          const criteriaText = describeCriteria(cond);
+          return (
+            <div key={cond.id} className="grid items-center" style={gridStyle}>
+              <div
+                className={`relative h-6 rounded text-white text-[11px] flex items-center justify-center overflow-hidden ${
+                  BAR_COLORS[index % BAR_COLORS.length]
+                } ${criteriaText ? 'opacity-75' : ''}`}
+                style={{ gridColumn: `${range.min} / ${end + 1}` }}
+                title={`${titleOf(cond)}: ${formatOffsetRange(range)}${criteriaText ? ` | ${criteriaText}` : ''}`}
+              >
+                <button
+                  type="button"
+                  aria-label={`بداية نطاق ${titleOf(cond)}: ${range.min}`}
+                  disabled={disabled}
+                  onPointerDown={(e) => handlePointerDown(e, cond, 'min')}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={() => handlePointerUp(cond)}
+                  onKeyDown={(e) => handleKeyDown(e, cond, 'min')}
+                  className="absolute left-0 top-0 h-full w-2 bg-black/30 cursor-ew-resize focus:outline-none focus:ring-2 focus:ring-white disabled:cursor-default"
+                />
+                <span className="truncate px-2" dir="rtl">
+                  {titleOf(cond)} ({formatOffsetRange(range)})
+                </span>
+                <button
+                  type="button"
+                  aria-label={`نهاية نطاق ${titleOf(cond)}: ${range.max >= OPEN_ENDED_MAX ? 'مفتوح' : range.max}`}
+                  disabled={disabled}
+                  onPointerDown={(e) => handlePointerDown(e, cond, 'max')}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={() => handlePointerUp(cond)}
+                  onKeyDown={(e) => handleKeyDown(e, cond, 'max')}
+                  className="absolute right-0 top-0 h-full w-2 bg-black/30 cursor-ew-resize focus:outline-none focus:ring-2 focus:ring-white disabled:cursor-default"
+                />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {ranged.length === 0 && (
+        <p className="text-xs text-gray-500">لا توجد شروط نشطة - جميع المرضى يستلمون القالب الافتراضي</p>
+      )}
+      <p className="text-[11px] text-gray-500">
+        اسحب حواف الشريط (أو استخدم الأسهم) لتعديل النطاق. الشروط ذات المعايير الإضافية تظهر بلون أفتح.{' '}
+        {defaultTemplateTitle
+          ? `الفجوات تستلم القالب الافتراضي "${defaultTemplateTitle}"`
+          : 'لا يوجد قالب افتراضي - لن تُرسل رسالة لمواضع الفجوات'}
+      </p>
+    </div>
+  );
+}
+
+export default ConditionCoverageMap;
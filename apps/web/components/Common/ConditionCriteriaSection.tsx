@@ -0,0 +1,240 @@
+/**
+ * ConditionCriteriaSection Component
+ *
+ * Editor for the extra criteria of a condition (beyond the queue offset):
+ * time window, days of week, patient status, country codes and "already messaged",
+ * combined with AND / OR.
+ *
+ * File: apps/web/components/Common/ConditionCriteriaSection.tsx
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import type { ConditionCriteria, CriteriaLogic, ConditionPatientStatus } from '@/types/messageCondition';
+import {
+  DAY_OF_WEEK_OPTIONS,
+  PATIENT_STATUS_OPTIONS,
+  hasCriteria,
+  normalizeCountryCode,
+} from '@/utils/conditionCriteria';
+
+interface ConditionCriteriaSectionProps {
+  criteria?: ConditionCriteria;
+  criteriaLogic?: CriteriaLogic;
+  onCriteriaChange: (criteria: ConditionCriteria | undefined) => void;
+  onCriteriaLogicChange: (logic: CriteriaLogic) => void;
+  disabled?: boolean;
+  error?: string;
+}
+
+function toggleValue<T>(list: T[] | undefined, value: T): T[] {
+  const current = list || [];
+  return current.includes(value) ? current.filter((v) => v !== value) : [...current, value];
+}
+
+export function ConditionCriteriaSection({
+  criteria,
+  criteriaLogic = 'AND',
+  onCriteriaChange,
+  onCriteriaLogicChange,
+  disabled = false,
+  error,
+}: ConditionCriteriaSectionProps) {
+  const [countryInput, setCountryInput] = useState('');
+  const value: ConditionCriteria = criteria || {};
+
+  // Drop empty dimensions so "no criteria" is stored as undefined
+  const update = (patch: Partial<ConditionCriteria>) => {
+    const next: ConditionCriteria = { ...value, ...patch };
+    if (!next.timeWindow) delete next.timeWindow;
+    if (!next.daysOfWeek?.length) delete next.daysOfWeek;
+    if (!next.patientStatuses?.length) delete next.patientStatuses;
+    if (!next.countryCodes?.length) delete next.countryCodes;
+    if (typeof next.alreadyMessaged !== 'boolean') delete next.alreadyMessaged;
+    onCriteriaChange(hasCriteria({ criteria: next }) ? next : undefined);
+  };
+
+  const handleAddCountry = () => {
+    const normalized = normalizeCountryCode(countryInput);
+    if (!normalized) return;
+    if (!(value.countryCodes || []).includes(normalized)) {
+      update({ countryCodes: [...(value.countryCodes || []), normalized] });
+    }
+    setCountryInput('');
+  };
+
+  const chipClass = (active: boolean) =>
+    `px-2 py-1 rounded-full text-xs border transition disabled:opacity-50 ${
+      active ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'
+    }`;
+
+  return (
+    <div className="space-y-3 border border-gray-200 rounded-lg p-4 bg-gray-50">
+      <div className="flex items-center justify-between">
+        <h5 className="text-sm font-semibold text-gray-800 flex items-center gap-2">
+          <i className="fas fa-filter text-blue-600"></i>
+          معايير إضافية (اختياري)
+        </h5>
+        <div className="flex items-center gap-1 text-xs">
+          <span className="text-gray-600">الربط:</span>
+          {(['AND', 'OR'] as CriteriaLogic[]).map((logic) => (
+            <button
+              key={logic}
+              type="button"
+              disabled={disabled}
+              onClick={() => onCriteriaLogicChange(logic)}
+              className={chipClass(criteriaLogic === logic)}
+            >
+              {logic === 'AND' ? 'جميعها (و)' : 'أي منها (أو)'}
+            </button>
+          ))}
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        يُطبَّق الشرط عندما يطابق موضع الانتظار، ثم {criteriaLogic === 'AND' ? 'جميع' : 'أي من'} المعايير المحددة أدناه
+      </p>
+
+      {/* Time window */}
+      <div>
+        <label className="flex items-center gap-2 text-xs font-medium text-gray-700 mb-1">
+          <input
+            type="checkbox"
+            checked={!!value.timeWindow}
+            disabled={disabled}
+            onChange={(e) => update({ timeWindow: e.target.checked ? { start: '08:00', end: '14:00' } : undefined })}
+          />
+          الفترة الزمنية (مثال: وردية صباحية / مسائية)
+        </label>
+        {value.timeWindow && (
+          <div className="flex items-center gap-2">
+            <input
+              type="time"
+              value={value.timeWindow.start}
+              disabled={disabled}
+              onChange={(e) => update({ timeWindow: { ...value.timeWindow!, start: e.target.value } })}
+              className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+            />
+            <span className="text-xs text-gray-600">إلى</span>
+            <input
+              type="time"
+              value={value.timeWindow.end}
+              disabled={disabled}
+              onChange={(e) => update({ timeWindow: { ...value.timeWindow!, end: e.target.value } })}
+              className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Days of week */}
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">أيام الأسبوع</label>
+        <div className="flex flex-wrap gap-1">
+          {DAY_OF_WEEK_OPTIONS.map((day) => (
+            <button
+              key={day.value}
+              type="button"
+              disabled={disabled}
+              onClick={() => update({ daysOfWeek: toggleValue(value.daysOfWeek, day.value) })}
+              className={chipClass(!!value.daysOfWeek?.includes(day.value))}
+            >
+              {day.labelAr}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Patient status */}
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">حالة المريض</label>
+        <div className="flex flex-wrap gap-1">
+          {PATIENT_STATUS_OPTIONS.map((status) => (
+            <button
+              key={status.value}
+              type="button"
+              disabled={disabled}
+              onClick={() =>
+                update({
+                  patientStatuses: toggleValue<ConditionPatientStatus>(value.patientStatuses, status.value),
+                })
+              }
+              className={chipClass(!!value.patientStatuses?.includes(status.value))}
+            >
+              {status.labelAr}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Country codes */}
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">رمز الدولة</label>
+        <div className="flex flex-wrap items-center gap-1">
+          {(value.countryCodes || []).map((code) => (
+            <span key={code} className="px-2 py-1 rounded-full text-xs bg-blue-100 text-blue-800 flex items-center gap-1" dir="ltr">
+              {code}
+              <button
+                type="button"
+                disabled={disabled}
+                onClick={() => update({ countryCodes: (value.countryCodes || []).filter((c) => c !== code) })}
+                aria-label={`إزالة ${code}`}
+              >
+                <i className="fas fa-times text-[10px]"></i>
+              </button>
+            </span>
+          ))}
+          <input
+            type="text"
+            value={countryInput}
+            disabled={disabled}
+            onChange={(e) => setCountryInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleAddCountry();
+              }
+            }}
+            placeholder="+20"
+            dir="ltr"
+            className="w-20 px-2 py-1 border border-gray-300 rounded-lg text-sm"
+          />
+          <button
+            type="button"
+            disabled={disabled || !normalizeCountryCode(countryInput)}
+            onClick={handleAddCountry}
+            className="px-2 py-1 bg-blue-600 text-white text-xs rounded hover:bg-blue-700 transition disabled:opacity-50"
+          >
+            إضافة
+          </button>
+        </div>
+      </div>
+
+      {/* Already messaged */}
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">المراسلة السابقة</label>
+        <select
+          value={typeof value.alreadyMessaged === 'boolean' ? String(value.alreadyMessaged) : ''}
+          disabled={disabled}
+          onChange={(e) =>
+            update({ alreadyMessaged: e.target.value === '' ? undefined : e.target.value === 'true' })
+          }
+          className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+        >
+          <option value="">-- لا يهم --</option>
+          <option value="true">تمت مراسلته سابقاً</option>
+          <option value="false">لم تتم مراسلته بعد</option>
+        </select>
+      </div>
+
+      {error && (
+        <p className="text-xs text-red-600 flex items-center gap-1">
+          <i className="fas fa-exclamation-circle"></i>
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default ConditionCriteriaSection;
@@ -3,6 +3,7 @@
  * 
  * Displays warning badge for conflicting conditions
  * Used in QueueHeader and QueueDashboard
+ * Conflict counts and overlap lists come from utils/conditionRules
  */
 
 'use client';
@@ -63,12 +64,19 @@ interface ConflictWarningProps {
   overlappingConditions: Array<{ id1: string; id2: string; description: string }>;
   hasDefaultConflict?: boolean;
   className?: string;
+  // Optional per-overlap action (e.g. split overlap in ManageConditionsModal)
+  onResolveOverlap?: (overlap: { id1: string; id2: string; description: string }) => void;
+  resolveLabel?: string;
+  resolveDisabled?: boolean;
 }
 
 export function ConflictWarning({
   overlappingConditions,
   hasDefaultConflict = false,
   className = '',
+  onResolveOverlap,
+  resolveLabel = 'تقسيم التداخل',
+  resolveDisabled = false,
 }: ConflictWarningProps) {
   const [isExpanded, setIsExpanded] = React.useState(true);
   const totalConflicts = overlappingConditions.length + (hasDefaultConflict ? 1 : 0);
@@ -117,7 +125,17 @@ export function ConflictWarning({
                     {overlappingConditions.map((overlap, idx) => (
                       <div key={idx} className="text-xs text-red-700 flex items-start gap-2 bg-red-50 rounded p-2">
                         <span className="text-red-500 font-bold mt-0.5 flex-shrink-0">→</span>
-                        <span className="leading-relaxed">{overlap.description}</span>
+                        <span className="leading-relaxed flex-1">{overlap.description}</span>
+                        {onResolveOverlap && (
+                          <button
+                            onClick={() => onResolveOverlap(overlap)}
+                            disabled={resolveDisabled}
+                            className="flex-shrink-0 px-2 py-0.5 bg-red-600 text-white rounded hover:bg-red-700 transition disabled:opacity-50 font-medium flex items-center gap-1"
+                          >
+                            <i className="fas fa-scissors"></i>
+                            {resolveLabel}
+                          </button>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -0,0 +1,173 @@
+/**
+ * Duplicate Review Panel
+ *
+ * Review step shown before patients are created when some of them already exist (same phone in the queue,
+ * in the moderator's other queues or twice in the batch, or a similar name): skip / overwrite / keep both per row.
+ * Used in UploadModal and AddPatientModal
+ *
+ * File: apps/web/components/Common/DuplicateReviewPanel.tsx
+ */
+
+'use client';
+
+import React from 'react';
+import { formatPhoneForDisplay } from '@/utils/phoneUtils';
+import {
+  DUPLICATE_RESOLUTION_LABELS,
+  getAllowedResolutions,
+  getDefaultResolution,
+  type DuplicateMatch,
+  type DuplicateResolution,
+  type PatientCandidate,
+} from '@/utils/patientDuplicates';
+
+interface DuplicateReviewPanelProps {
+  candidates: PatientCandidate[];
+  matches: DuplicateMatch[];
+  resolutions: Record<number, DuplicateResolution>;
+  onResolutionChange: (index: number, resolution: DuplicateResolution) => void;
+  onApplyToAll: (resolution: DuplicateResolution) => void;
+  matchNames: boolean;
+  onMatchNamesChange: (value: boolean) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+  isProcessing?: boolean;
+}
+
+export function DuplicateReviewPanel({
+  candidates,
+  matches,
+  resolutions,
+  onResolutionChange,
+  onApplyToAll,
+  matchNames,
+  onMatchNamesChange,
+  onConfirm,
+  onCancel,
+  isProcessing = false,
+}: DuplicateReviewPanelProps) {
+  const describeMatch = (match: DuplicateMatch) => {
+    if (match.batchIndex !== undefined) {
+      return `نفس الرقم مكرر في البيانات (المريض #${match.batchIndex + 1}: ${candidates[match.batchIndex].fullName})`;
+    }
+    const existing = match.existing!;
+    const where = match.sameQueue ? 'في هذه العيادة' : `في عيادة ${existing.queueName}`;
+    const why = match.reason === 'phone' ? 'نفس رقم الهاتف' : 'اسم مشابه';
+    return `${why} ${where}: ${existing.fullName} (${formatPhoneForDisplay(existing.phoneNumber, existing.countryCode)})`;
+  };
+
+  const newCount = candidates.length - matches.length;
+
+  return (
+    <div className="bg-amber-50 border border-amber-300 rounded-lg p-4 space-y-4">
+      <div className="flex items-start justify-between gap-3 flex-wrap">
+        <div>
+          <h4 className="font-semibold text-amber-900 flex items-center gap-2">
+            <i className="fas fa-user-friends"></i>
+            مراجعة المرضى المكررين ({matches.length})
+          </h4>
+          <p className="text-xs text-amber-800 mt-1">
+            {newCount > 0 && `${newCount} مريض جديد سيتم إضافته. `}
+            اختر ما يتم مع كل مريض مكرر لتجنب إرسال رسائل واتساب مرتين.
+            يتم التحقق من المرضى الحاليين فقط (قيد الانتظار أو قيد الخدمة).
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-amber-900">
+          <input
+            type="checkbox"
+            checked={matchNames}
+            onChange={(e) => onMatchNamesChange(e.target.checked)}
+            disabled={isProcessing}
+          />
+          مطابقة الأسماء المتشابهة أيضاً
+        </label>
+      </div>
+
+      {matches.length > 0 && (
+        <div className="flex items-center gap-2 text-xs flex-wrap">
+          <span className="text-gray-700">تطبيق على الكل:</span>
+          {(['skip', 'keepBoth', 'overwrite'] as DuplicateResolution[]).map((resolution) => (
+            <button
+              key={resolution}
+              type="button"
+              onClick={() => onApplyToAll(resolution)}
+              disabled={isProcessing}
+              className="px-2 py-1 bg-white border border-amber-300 rounded hover:bg-amber-100 transition disabled:opacity-50"
+            >
+              {DUPLICATE_RESOLUTION_LABELS[resolution]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <ul className="space-y-2 max-h-80 overflow-y-auto">
+        {matches.map((match) => {
+          const candidate = candidates[match.index];
+          const resolution = resolutions[match.index] ?? getDefaultResolution(match);
+          return (
+            <li key={match.index} className="bg-white border border-amber-200 rounded-lg p-3 text-sm">
+              <div className="flex items-start justify-between gap-3 flex-wrap">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900">
+                    #{match.index + 1} {candidate.fullName}
+                    <span className="text-gray-500 font-normal mr-2" dir="ltr">
+                      {formatPhoneForDisplay(candidate.phoneNumber, candidate.countryCode)}
+                    </span>
+                  </p>
+                  <p className={`text-xs mt-1 ${match.reason === 'phone' ? 'text-red-700' : 'text-amber-700'}`}>
+                    <i className={`fas ${match.reason === 'phone' ? 'fa-phone' : 'fa-signature'} ml-1`}></i>
+                    {describeMatch(match)}
+                  </p>
+                </div>
+                <select
+                  aria-label={`الإجراء للمريض ${candidate.fullName}`}
+                  value={resolution}
+                  onChange={(e) => onResolutionChange(match.index, e.target.value as DuplicateResolution)}
+                  disabled={isProcessing}
+                  className="px-2 py-1 border border-gray-300 rounded text-sm"
+                >
+                  {getAllowedResolutions(match).map((option) => (
+                    <option key={option} value={option}>
+                      {DUPLICATE_RESOLUTION_LABELS[option]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex gap-3 pt-3 border-t border-amber-200">
+        <button
+          type="button"
+          onClick={onConfirm}
+          disabled={isProcessing}
+          className="flex-1 py-2 rounded-lg bg-green-600 text-white hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+        >
+          {isProcessing ? (
+            <>
+              <i className="fas fa-spinner fa-spin"></i>
+              جاري الحفظ...
+            </>
+          ) : (
+            <>
+              <i className="fas fa-check"></i>
+              متابعة
+            </>
+          )}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isProcessing}
+          className="flex-1 bg-gray-200 text-gray-700 py-2 rounded-lg hover:bg-gray-300 transition-colors disabled:opacity-50"
+        >
+          رجوع للتعديل
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default DuplicateReviewPanel;
@@ -0,0 +1,49 @@
+/**
+ * Export Buttons
+ *
+ * Excel / CSV export button pair.
+ * Used in PatientsManagementView, CompletedTasksPanel and FailedTasksPanel
+ *
+ * File: apps/web/components/Common/ExportButtons.tsx
+ */
+
+'use client';
+
+import React from 'react';
+import type { ExportFormat } from '@/utils/spreadsheetExport';
+
+interface ExportButtonsProps {
+  onExport: (format: ExportFormat) => void;
+  isExporting?: boolean;
+  disabled?: boolean;
+  title?: string;
+}
+
+export function ExportButtons({ onExport, isExporting = false, disabled = false, title = 'تصدير' }: ExportButtonsProps) {
+  return (
+    <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+      <button
+        type="button"
+        onClick={() => onExport('xlsx')}
+        disabled={disabled || isExporting}
+        className="bg-white border border-green-300 text-green-700 hover:bg-green-50 px-3 py-2 rounded text-sm flex items-center gap-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        title={`${title} (Excel)`}
+      >
+        <i className={`fas ${isExporting ? 'fa-spinner fa-spin' : 'fa-file-excel'}`}></i>
+        Excel
+      </button>
+      <button
+        type="button"
+        onClick={() => onExport('csv')}
+        disabled={disabled || isExporting}
+        className="bg-white border border-gray-300 text-gray-700 hover:bg-gray-50 px-3 py-2 rounded text-sm flex items-center gap-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        title={`${title} (CSV)`}
+      >
+        <i className="fas fa-file-csv"></i>
+        CSV
+      </button>
+    </div>
+  );
+}
+
+export default ExportButtons;
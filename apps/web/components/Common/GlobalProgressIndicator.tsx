@@ -8,6 +8,8 @@ import { useQueue } from '@/contexts/QueueContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { translatePauseReason } from '@/utils/pauseReasonTranslations';
 import { parseAsUtc } from '@/utils/dateTimeUtils';
+import { useNumberVerification } from '@/contexts/NumberVerificationContext';
+import NumberVerificationCard from './NumberVerificationCard';
 
 /**
  * GlobalProgressIndicator
@@ -22,6 +24,7 @@ import { parseAsUtc } from '@/utils/dateTimeUtils';
  * - Visual indicators for paused sessions
  * - Fixed position (bottom-right corner)
  * - Minimizable to a small floating button
+ * - Background WhatsApp number verification job (shown alone when nothing is being sent)
  */
 export const GlobalProgressIndicator: React.FC = () => {
   const { operations, hasOngoingOperations, isLoading } = useGlobalProgress();
@@ -32,6 +35,7 @@ export const GlobalProgressIndicator: React.FC = () => {
   const { setCurrentPanel, currentPanel } = useUI();
   const { selectedModeratorId } = useQueue();
   const { user } = useAuth();
+  const { job: verificationJob } = useNumberVerification();
 
   // Check if current user is Admin
   const isAdmin = user?.role === 'primary_admin' || user?.role === 'secondary_admin';
@@ -163,10 +167,22 @@ export const GlobalProgressIndicator: React.FC = () => {
 
   // Don't render if no ongoing operations and not loading
   // Also don't render if no moderator is selected (Admin hasn't selected a queue yet)
-  if ((!hasOngoingOperations && !isLoading) || selectedModeratorId === null) {
+  if ((!hasOngoingOperations && !isLoading && !verificationJob) || selectedModeratorId === null) {
     return null;
   }
 
+  // Only a number verification job: show its card without the sending summary
+  if (!hasOngoingOperations && !isLoading && verificationJob) {
+    return (
+      <div
+        className="fixed bottom-4 right-4 z-50 bg-white shadow-2xl rounded-lg border-2 border-gray-200 min-w-[320px] max-w-[420px] p-3"
+        style={{ boxShadow: '0 10px 40px rgba(0, 0, 0, 0.15)' }}
+      >
+        <NumberVerificationCard />
+      </div>
+    );
+  }
+
   // Calculate overall progress
   const totalMessages = operations.reduce((sum, op) => sum + op.totalMessages, 0);
   const sentMessages = operations.reduce((sum, op) => sum + op.sentMessages, 0);
@@ -400,6 +416,13 @@ export const GlobalProgressIndicator: React.FC = () => {
         </div>
       </div>
 
+      {/* Number verification job */}
+      {verificationJob && (
+        <div className="px-4 pb-3">
+          <NumberVerificationCard />
+        </div>
+      )}
+
       {/* Expanded View - Per-Session Details */}
       {isExpanded && (
         <div className="border-t border-gray-200 max-h-[400px] overflow-y-auto">
@@ -0,0 +1,160 @@
+/**
+ * Import Summary Panel
+ *
+ * Dry-run summary of a replace/merge spreadsheet import: patients to add, update (name/position) and move to trash,
+ * shown before anything is saved.
+ * Used in UploadModal
+ *
+ * File: apps/web/components/Common/ImportSummaryPanel.tsx
+ */
+
+'use client';
+
+import React from 'react';
+import { formatPhoneForDisplay } from '@/utils/phoneUtils';
+import { IMPORT_MODE_OPTIONS, getEffectiveUpdates, type ImportPlan } from '@/utils/importModes';
+import type { PatientCandidate } from '@/utils/patientDuplicates';
+
+interface ImportSummaryPanelProps<T extends PatientCandidate> {
+  plan: ImportPlan<T>;
+  onConfirm: () => void;
+  onCancel: () => void;
+  isProcessing?: boolean;
+}
+
+const MAX_LISTED = 50;
+
+export function ImportSummaryPanel<T extends PatientCandidate>({
+  plan,
+  onConfirm,
+  onCancel,
+  isProcessing = false,
+}: ImportSummaryPanelProps<T>) {
+  const updates = getEffectiveUpdates(plan);
+  const modeLabel = IMPORT_MODE_OPTIONS.find((o) => o.mode === plan.mode)?.label;
+  const nothingToDo = plan.add.length === 0 && updates.length === 0 && plan.remove.length === 0;
+
+  const section = (
+    title: string,
+    icon: string,
+    color: string,
+    rows: Array<{ key: string | number; name: string; detail: string }>
+  ) =>
+    rows.length > 0 && (
+      <details className="bg-white border border-gray-200 rounded-lg">
+        <summary className={`px-3 py-2 cursor-pointer text-sm font-medium ${color}`}>
+          <i className={`fas ${icon} ml-2`}></i>
+          {title} ({rows.length})
+        </summary>
+        <ul className="px-3 pb-2 space-y-1 text-xs text-gray-700 max-h-48 overflow-y-auto">
+          {rows.slice(0, MAX_LISTED).map((row) => (
+            <li key={row.key} className="flex justify-between gap-2">
+              <span>{row.name}</span>
+              <span className="text-gray-500" dir="ltr">{row.detail}</span>
+            </li>
+          ))}
+          {rows.length > MAX_LISTED && <li className="text-gray-500">و {rows.length - MAX_LISTED} آخرين...</li>}
+        </ul>
+      </details>
+    );
+
+  return (
+    <div className="bg-sky-50 border border-sky-300 rounded-lg p-4 space-y-3">
+      <h4 className="font-semibold text-sky-900 flex items-center gap-2">
+        <i className="fas fa-clipboard-check"></i>
+        ملخص الاستيراد ({modeLabel}) - لم يتم حفظ أي تغيير بعد
+      </h4>
+
+      <div className="grid grid-cols-3 gap-2 text-center">
+        <div className="bg-white border border-green-200 rounded-lg p-2">
+          <p className="text-xl font-bold text-green-700">{plan.add.length}</p>
+          <p className="text-xs text-gray-600">إضافة</p>
+        </div>
+        <div className="bg-white border border-blue-200 rounded-lg p-2">
+          <p className="text-xl font-bold text-blue-700">{updates.length}</p>
+          <p className="text-xs text-gray-600">تحديث</p>
+        </div>
+        <div className="bg-white border border-red-200 rounded-lg p-2">
+          <p className="text-xl font-bold text-red-700">{plan.remove.length}</p>
+          <p className="text-xs text-gray-600">نقل لسلة المحذوفات</p>
+        </div>
+      </div>
+
+      {plan.skippedInFile > 0 && (
+        <p className="text-xs text-amber-700">
+          <i className="fas fa-exclamation-triangle ml-1"></i>
+          {plan.skippedInFile} صف مكرر الرقم داخل الملف سيتم تجاهله
+        </p>
+      )}
+
+      {section(
+        'مرضى جدد',
+        'fa-user-plus',
+        'text-green-700',
+        plan.add.map(({ candidateIndex, candidate }) => ({
+          key: candidateIndex,
+          name: candidate.fullName,
+          detail: formatPhoneForDisplay(candidate.phoneNumber, candidate.countryCode),
+        }))
+      )}
+      {section(
+        'تحديث الاسم أو الترتيب',
+        'fa-user-edit',
+        'text-blue-700',
+        updates.map((u) => ({
+          key: u.patient.id,
+          name: u.nameChanged ? `${u.patient.fullName} ← ${u.candidate.fullName}` : u.patient.fullName,
+          detail: u.positionChanged ? `#${u.patient.position} ← #${u.position}` : '',
+        }))
+      )}
+      {section(
+        'نقل لسلة المحذوفات',
+        'fa-trash',
+        'text-red-700',
+        plan.remove.map((p) => ({
+          key: p.id,
+          name: p.fullName,
+          detail: formatPhoneForDisplay(p.phoneNumber, p.countryCode),
+        }))
+      )}
+
+      {plan.remove.length > 0 && (
+        <p className="text-xs text-gray-600">
+          <i className="fas fa-info-circle ml-1"></i>
+          يمكن استعادة المرضى المحذوفين من سلة المحذوفات خلال 30 يوماً
+        </p>
+      )}
+
+      <div className="flex gap-3 pt-3 border-t border-sky-200">
+        <button
+          type="button"
+          onClick={onConfirm}
+          disabled={isProcessing || nothingToDo}
+          className="flex-1 py-2 rounded-lg bg-green-600 text-white hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+        >
+          {isProcessing ? (
+            <>
+              <i className="fas fa-spinner fa-spin"></i>
+              جاري التطبيق...
+            </>
+          ) : (
+            <>
+              <i className="fas fa-check"></i>
+              {nothingToDo ? 'لا توجد تغييرات' : 'تطبيق التغييرات'}
+            </>
+          )}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isProcessing}
+          className="flex-1 bg-gray-200 text-gray-700 py-2 rounded-lg hover:bg-gray-300 transition-colors disabled:opacity-50"
+        >
+          رجوع للتعديل
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default ImportSummaryPanel;
@@ -0,0 +1,136 @@
+/**
+ * Number Verification Card
+ *
+ * Progress, pause/resume/cancel controls and the invalid-number summary of the background
+ * "verify all numbers" job (NumberVerificationContext).
+ * Used in GlobalProgressIndicator
+ *
+ * File: apps/web/components/Common/NumberVerificationCard.tsx
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { useNumberVerification } from '@/contexts/NumberVerificationContext';
+import { useModal } from '@/contexts/ModalContext';
+import { formatPhoneForDisplay } from '@/utils/phoneUtils';
+
+const MAX_LISTED = 20;
+
+export function NumberVerificationCard() {
+  const { job, pauseVerification, resumeVerification, cancelVerification, dismissVerification } = useNumberVerification();
+  const { openModal } = useModal();
+  const [showInvalid, setShowInvalid] = useState(false);
+
+  if (!job) return null;
+
+  const isDone = job.status === 'completed' || job.status === 'cancelled';
+  const progressPercent = job.total > 0 ? Math.round((job.processed / job.total) * 100) : 100;
+
+  return (
+    <div
+      className={`p-3 rounded-lg border ${job.status === 'paused' ? 'bg-yellow-50 border-yellow-200' : 'bg-gray-50 border-gray-200'}`}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex justify-between items-start mb-2">
+        <div className="flex-1">
+          <div className="text-sm font-medium text-gray-900 flex items-center gap-1">
+            <i className="fab fa-whatsapp text-green-600"></i>
+            التحقق من أرقام {job.queueName}
+          </div>
+          <div className="text-xs text-gray-500 mt-0.5">
+            {job.processed} / {job.total} رقم
+            {job.cached > 0 && <span className="mr-1">({job.cached} من نتائج سابقة)</span>}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-1">
+          {job.status === 'running' && (
+            <button onClick={pauseVerification} className="text-xs px-2 py-1 rounded bg-yellow-100 text-yellow-800 hover:bg-yellow-200" title="إيقاف مؤقت">
+              <i className="fas fa-pause"></i>
+            </button>
+          )}
+          {job.status === 'paused' && (
+            <button onClick={resumeVerification} className="text-xs px-2 py-1 rounded bg-green-100 text-green-800 hover:bg-green-200" title="استئناف">
+              <i className="fas fa-play"></i>
+            </button>
+          )}
+          {!isDone && (
+            <button onClick={cancelVerification} className="text-xs px-2 py-1 rounded bg-red-100 text-red-700 hover:bg-red-200" title="إلغاء">
+              <i className="fas fa-times"></i>
+            </button>
+          )}
+          {isDone && (
+            <button onClick={dismissVerification} className="text-xs px-2 py-1 rounded bg-gray-100 text-gray-700 hover:bg-gray-200" title="إغلاق">
+              <i className="fas fa-check"></i>
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="w-full bg-gray-200 rounded-full h-2 mb-2">
+        <div
+          className={`h-2 rounded-full transition-all ${job.status === 'paused' ? 'bg-yellow-500' : isDone ? 'bg-green-500' : 'bg-blue-500'}`}
+          style={{ width: `${progressPercent}%` }}
+        />
+      </div>
+
+      <div className="flex gap-3 text-xs">
+        <span className="text-green-700">صالح: {job.valid}</span>
+        <span className="text-red-700">بدون واتساب: {job.invalid}</span>
+        {job.errors > 0 && <span className="text-orange-600">تعذر التحقق: {job.errors}</span>}
+        {job.status === 'cancelled' && <span className="text-gray-500">ملغي</span>}
+      </div>
+
+      {job.status === 'paused' && job.pauseReason && (
+        <div className="mt-2 pt-2 border-t border-yellow-200 text-xs text-yellow-800">
+          <span className="font-medium">سبب التوقف:</span> {job.pauseReason}
+        </div>
+      )}
+
+      {job.invalidNumbers.length > 0 && (
+        <div className="mt-2 pt-2 border-t border-gray-200">
+          <button
+            onClick={() => setShowInvalid(!showInvalid)}
+            className="text-xs text-blue-600 hover:text-blue-800 flex items-center gap-1"
+          >
+            <i className={`fas fa-chevron-left transition-transform ${showInvalid ? '-rotate-90' : ''}`}></i>
+            {showInvalid ? 'إخفاء' : 'عرض'} الأرقام التي تحتاج تصحيح ({job.invalidNumbers.length})
+          </button>
+          {showInvalid && (
+            <ul className="mt-2 space-y-1 max-h-[160px] overflow-y-auto">
+              {job.invalidNumbers.slice(0, MAX_LISTED).map((entry) => (
+                <li key={entry.patientId} className="flex justify-between items-center gap-2 p-1.5 rounded bg-red-50 border border-red-200 text-xs">
+                  <span className="truncate">{entry.name}</span>
+                  <span className="text-gray-600" dir="ltr">{formatPhoneForDisplay(entry.phoneNumber, entry.countryCode)}</span>
+                  <button
+                    onClick={() =>
+                      openModal('editPatient', {
+                        patient: {
+                          id: String(entry.patientId),
+                          queueId: job.queueId,
+                          name: entry.name,
+                          phone: entry.phoneNumber,
+                          countryCode: entry.countryCode,
+                        },
+                      })
+                    }
+                    className="text-blue-600 hover:text-blue-800"
+                    title="تعديل الرقم"
+                  >
+                    <i className="fas fa-edit"></i>
+                  </button>
+                </li>
+              ))}
+              {job.invalidNumbers.length > MAX_LISTED && (
+                <li className="text-xs text-gray-500">و {job.invalidNumbers.length - MAX_LISTED} آخرين...</li>
+              )}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default NumberVerificationCard;
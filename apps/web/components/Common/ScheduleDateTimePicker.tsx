@@ -0,0 +1,84 @@
+/**
+ * Schedule Date/Time Picker Component
+ *
+ * Lets the user pick a future local date/time for a scheduled send
+ * Used in MessagePreviewModal (new schedule) and ScheduledSessionsSection (reschedule)
+ */
+
+'use client';
+
+import React from 'react';
+import {
+  toDateTimeLocalValue,
+  fromDateTimeLocalValue,
+  getNextOccurrence,
+  formatLocalDateTime,
+  validateScheduleValue,
+} from '@/utils/dateTimeUtils';
+
+interface ScheduleDateTimePickerProps {
+  value: string; // datetime-local value (local time)
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+export function ScheduleDateTimePicker({
+  value,
+  onChange,
+  disabled = false,
+}: ScheduleDateTimePickerProps) {
+  const error = value ? validateScheduleValue(value) : null;
+  const selectedDate = fromDateTimeLocalValue(value);
+
+  const presets = [
+    {
+      label: 'بعد ساعة',
+      getDate: () => new Date(Date.now() + 60 * 60000),
+    },
+    {
+      // Before the clinic opens: today if still ahead, otherwise tomorrow
+      label: '8:00 ص القادمة',
+      getDate: () => getNextOccurrence(8),
+    },
+  ];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="datetime-local"
+          value={value}
+          min={toDateTimeLocalValue(new Date())}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+          className={`px-3 py-2 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 ${error ? 'border-red-400' : 'border-gray-300'}`}
+          dir="ltr"
+        />
+        {presets.map((preset) => (
+          <button
+            key={preset.label}
+            type="button"
+            onClick={() => onChange(toDateTimeLocalValue(preset.getDate()))}
+            disabled={disabled}
+            className="px-3 py-1.5 text-xs bg-blue-50 text-blue-700 border border-blue-200 rounded-full hover:bg-blue-100 transition-colors disabled:opacity-50"
+          >
+            <i className="fas fa-clock ml-1"></i>
+            {preset.label}
+          </button>
+        ))}
+      </div>
+      {error ? (
+        <p className="text-xs text-red-600 flex items-center gap-1">
+          <i className="fas fa-exclamation-circle"></i>
+          {error}
+        </p>
+      ) : selectedDate ? (
+        <p className="text-xs text-gray-600">
+          سيتم الإرسال في: <strong>{formatLocalDateTime(selectedDate)}</strong>
+        </p>
+      ) : null}
+    </div>
+  );
+}
+
+export default ScheduleDateTimePicker;
@@ -0,0 +1,269 @@
+/**
+ * Template History Drawer
+ *
+ * Side drawer listing a template's versions (author + time of every edit), with a
+ * side-by-side diff of the template text and condition changes against the previous
+ * version or the current one, and a "restore this version" action.
+ * Used in EditTemplateModal
+ *
+ * File: apps/web/components/Common/TemplateHistoryDrawer.tsx
+ */
+
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useUI } from '@/contexts/UIContext';
+import { useConfirmDialog } from '@/contexts/ConfirmationContext';
+import { messageApiClient, type TemplateDto } from '@/services/api/messageApiClient';
+import { templateVersionDtoToModel } from '@/services/api/adapters';
+import { createRestoreConfirmation } from '@/utils/confirmationHelpers';
+import { formatLocalDateTime } from '@/utils/dateTimeUtils';
+import { buildSideBySideDiff, diffConditions, type SideBySideCell } from '@/utils/templateDiff';
+import logger from '@/utils/logger';
+import type { MessageTemplateVersion } from '@/types/messageTemplate';
+
+interface TemplateHistoryDrawerProps {
+  isOpen: boolean;
+  templateId: string;
+  onClose: () => void;
+  onRestored: (template: TemplateDto) => void;
+}
+
+type CompareMode = 'previous' | 'current';
+
+const authorOf = (version: MessageTemplateVersion) =>
+  version.updatedByName || (version.updatedBy ? `مستخدم #${version.updatedBy}` : 'غير معروف');
+
+function DiffCell({ cell, side }: { cell?: SideBySideCell; side: 'before' | 'after' }) {
+  if (!cell) return <div className="bg-gray-50" />;
+  const changedClass = side === 'before' ? 'bg-red-50 text-red-900' : 'bg-green-50 text-green-900';
+  return (
+    <div className={`flex gap-2 px-2 py-0.5 ${cell.changed ? changedClass : 'text-gray-700'}`}>
+      <span className="text-[10px] text-gray-400 w-5 flex-shrink-0 text-left" dir="ltr">{cell.lineNumber}</span>
+      <span className="whitespace-pre-wrap break-words flex-1">{cell.text || ' '}</span>
+    </div>
+  );
+}
+
+export function TemplateHistoryDrawer({ isOpen, templateId, onClose, onRestored }: TemplateHistoryDrawerProps) {
+  const { addToast } = useUI();
+  const { confirm } = useConfirmDialog();
+  const [versions, setVersions] = useState<MessageTemplateVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareMode, setCompareMode] = useState<CompareMode>('previous');
+
+  useEffect(() => {
+    if (!isOpen || !templateId) return;
+
+    const loadVersions = async () => {
+      setIsLoading(true);
+      setLoadError(null);
+      try {
+        const response = await messageApiClient.getTemplateVersions(Number(templateId));
+        const loaded = response.items
+          .map(templateVersionDtoToModel)
+          .sort((a, b) => b.versionNumber - a.versionNumber);
+        setVersions(loaded);
+        setSelectedId(loaded[0]?.id ?? null);
+      } catch (error) {
+        logger.error('Failed to load template versions:', error);
+        setLoadError(messageApiClient.formatApiError(error));
+        setVersions([]);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadVersions();
+  }, [isOpen, templateId]);
+
+  const selected = versions.find((v) => v.id === selectedId) || null;
+  const current = versions.find((v) => v.isCurrent) || versions[0] || null;
+  const previous = selected
+    ? versions.find((v) => v.versionNumber < selected.versionNumber) || null
+    : null;
+
+  // "before" is the older side of the comparison
+  const [before, after] = useMemo((): [MessageTemplateVersion | null, MessageTemplateVersion | null] => {
+    if (!selected) return [null, null];
+    if (compareMode === 'current') {
+      return selected.versionNumber <= (current?.versionNumber ?? 0) ? [selected, current] : [current, selected];
+    }
+    return [previous, selected];
+  }, [selected, previous, current, compareMode]);
+
+  const rows = useMemo(
+    () => (before && after ? buildSideBySideDiff(before.content, after.content) : []),
+    [before, after]
+  );
+  const conditionChanges = useMemo(
+    () => (before && after ? diffConditions(before.condition, after.condition) : []),
+    [before, after]
+  );
+
+  const handleRestore = async (version: MessageTemplateVersion) => {
+    const confirmed = await confirm(createRestoreConfirmation(`الإصدار ${version.versionNumber} من القالب`));
+    if (!confirmed) return;
+
+    try {
+      setIsRestoring(true);
+      const restored = await messageApiClient.restoreTemplateVersion(Number(templateId), Number(version.id));
+      addToast(`تمت استعادة الإصدار ${version.versionNumber}`, 'success');
+      onRestored(restored);
+    } catch (error) {
+      logger.error('Failed to restore template version:', error);
+      addToast(messageApiClient.formatApiError(error) || 'فشل استعادة الإصدار', 'error');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex" role="dialog" aria-modal="true" aria-label="سجل إصدارات القالب">
+      <div className="absolute inset-0 bg-black/40" onClick={onClose} />
+      <div className="relative mr-auto h-full w-full max-w-4xl bg-white shadow-2xl flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+            <i className="fas fa-history text-blue-600"></i>
+            سجل الإصدارات
+          </h3>
+          <button type="button" onClick={onClose} className="text-gray-500 hover:text-gray-700" aria-label="إغلاق">
+            <i className="fas fa-times text-lg"></i>
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex-1 flex items-center justify-center text-gray-500 gap-2">
+            <i className="fas fa-spinner fa-spin"></i>
+            جاري تحميل الإصدارات...
+          </div>
+        ) : loadError ? (
+          <div className="flex-1 flex items-center justify-center text-red-600 text-sm px-4 text-center">{loadError}</div>
+        ) : versions.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center text-gray-500 text-sm">لا توجد إصدارات سابقة لهذا القالب</div>
+        ) : (
+          <div className="flex-1 flex min-h-0">
+            {/* Version list */}
+            <ul className="w-60 flex-shrink-0 border-l border-gray-200 overflow-y-auto">
+              {versions.map((version) => (
+                <li key={version.id}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedId(version.id)}
+                    className={`w-full text-right px-3 py-2 border-b border-gray-100 transition ${
+                      version.id === selectedId ? 'bg-blue-50 border-r-4 border-r-blue-600' : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium text-sm text-gray-900">الإصدار {version.versionNumber}</span>
+                      {version.isCurrent && (
+                        <span className="px-2 py-0.5 bg-green-100 text-green-800 rounded-full text-[10px] font-semibold">الحالي</span>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-600 mt-0.5">{authorOf(version)}</p>
+                    <p className="text-[11px] text-gray-500">{formatLocalDateTime(version.createdAt)}</p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {/* Diff */}
+            {selected && (
+              <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                <div className="flex items-center justify-between flex-wrap gap-2">
+                  <div className="flex items-center gap-1 text-xs">
+                    <span className="text-gray-600">مقارنة مع:</span>
+                    {(['previous', 'current'] as CompareMode[]).map((mode) => (
+                      <button
+                        key={mode}
+                        type="button"
+                        onClick={() => setCompareMode(mode)}
+                        className={`px-2 py-1 rounded-full border transition ${
+                          compareMode === mode
+                            ? 'bg-blue-600 text-white border-blue-600'
+                            : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'
+                        }`}
+                      >
+                        {mode === 'previous' ? 'الإصدار السابق' : 'الإصدار الحالي'}
+                      </button>
+                    ))}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleRestore(selected)}
+                    disabled={selected.isCurrent || isRestoring}
+                    className="px-3 py-1.5 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                  >
+                    <i className={`fas ${isRestoring ? 'fa-spinner fa-spin' : 'fa-undo'}`}></i>
+                    استعادة هذا الإصدار
+                  </button>
+                </div>
+
+                {!before || !after || before.id === after.id ? (
+                  <p className="text-sm text-gray-500">
+                    {compareMode === 'previous' ? 'هذا هو الإصدار الأول - لا يوجد إصدار سابق للمقارنة' : 'هذا هو الإصدار الحالي'}
+                  </p>
+                ) : (
+                  <>
+                    {before.title !== after.title && (
+                      <div className="text-sm border border-gray-200 rounded-lg p-3">
+                        <span className="font-semibold text-gray-700">العنوان: </span>
+                        <span className="bg-red-50 text-red-800 line-through px-1">{before.title}</span>
+                        {' ← '}
+                        <span className="bg-green-50 text-green-800 px-1">{after.title}</span>
+                      </div>
+                    )}
+
+                    {conditionChanges.length > 0 && (
+                      <table className="w-full text-sm border border-gray-200 rounded-lg overflow-hidden">
+                        <tbody>
+                          {conditionChanges.map((change) => (
+                            <tr key={change.field} className="border-b border-gray-100">
+                              <td className="px-3 py-2 font-semibold text-gray-700 w-32">{change.label}</td>
+                              <td className="px-3 py-2 bg-red-50 text-red-800">{change.before}</td>
+                              <td className="px-3 py-2 bg-green-50 text-green-800">{change.after}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+
+                    <div className="border border-gray-200 rounded-lg overflow-hidden text-sm">
+                      <div className="grid grid-cols-2 bg-gray-100 text-xs font-semibold text-gray-700">
+                        <div className="px-2 py-1.5">
+                          الإصدار {before.versionNumber} - {authorOf(before)}
+                        </div>
+                        <div className="px-2 py-1.5 border-r border-gray-200">
+                          الإصدار {after.versionNumber} - {authorOf(after)}
+                        </div>
+                      </div>
+                      {rows.map((row, index) => (
+                        <div key={index} className="grid grid-cols-2 border-t border-gray-100">
+                          <DiffCell cell={row.before} side="before" />
+                          <div className="border-r border-gray-200">
+                            <DiffCell cell={row.after} side="after" />
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                    {rows.every((row) => !row.before?.changed && !row.after?.changed) && (
+                      <p className="text-xs text-gray-500">نص الرسالة لم يتغير</p>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default TemplateHistoryDrawer;
@@ -66,6 +66,17 @@ export default function ToastContainer() {
                 <span className="text-sm font-medium break-words">{toast.message}</span>
               </div>
               <div className="flex items-center gap-2 flex-shrink-0">
+                {toast.action && (
+                  <button
+                    onClick={() => {
+                      toast.action?.onClick();
+                      removeToast(toast.id);
+                    }}
+                    className="text-xs font-bold underline hover:opacity-70 transition-opacity px-2 py-1"
+                  >
+                    {toast.action.label}
+                  </button>
+                )}
                 {hasDebugData && (
                   <button
                     onClick={() => handleDebugClick(toast)}
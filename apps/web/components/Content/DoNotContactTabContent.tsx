@@ -0,0 +1,296 @@
+'use client';
+
+import React, { useMemo, useRef, useState } from 'react';
+import { useUI } from '@/contexts/UIContext';
+import { useConfirmDialog } from '@/contexts/ConfirmationContext';
+import { createDeleteConfirmation } from '@/utils/confirmationHelpers';
+import { useDoNotContactList } from '@/hooks/useDoNotContactList';
+import { doNotContactApiClient } from '@/services/api/doNotContactApiClient';
+import { normalizePhone } from '@/utils/phoneUtils';
+import { formatLocalDateTime } from '@/utils/dateTimeUtils';
+import { DO_NOT_CONTACT_REASON, buildDoNotContactExportRows, parseDoNotContactRows } from '@/utils/doNotContact';
+import { buildExportFileName, downloadSpreadsheet, type ExportCell, type ExportFormat } from '@/utils/spreadsheetExport';
+import CountryCodeSelector from '@/components/Common/CountryCodeSelector';
+import ExportButtons from '@/components/Common/ExportButtons';
+import { LoadingSpinner, ErrorState, EmptyState } from '@/components/state';
+import logger from '@/utils/logger';
+
+interface DoNotContactTabContentProps {
+  // Admins pick the moderator whose list is managed; moderators manage their own list
+  moderators?: Array<{ id: string; name: string }>;
+}
+
+/**
+ * Do-not-contact list management: add/remove numbers and import/export the list as Excel/CSV
+ */
+export default function DoNotContactTabContent({ moderators }: DoNotContactTabContentProps) {
+  const { addToast } = useUI();
+  const { confirm } = useConfirmDialog();
+  const isAdminView = moderators !== undefined;
+  const [pickedModeratorId, setPickedModeratorId] = useState('');
+  // Moderators may load after the tab opens; default to the first one
+  const selectedModeratorId = pickedModeratorId || moderators?.[0]?.id || '';
+  const moderatorId = isAdminView ? selectedModeratorId : undefined;
+  const moderatorIdNum = moderatorId && !isNaN(Number(moderatorId)) ? Number(moderatorId) : undefined;
+  const { entries, loading, error, reload } = useDoNotContactList(moderatorId, !isAdminView || !!selectedModeratorId);
+
+  const [search, setSearch] = useState('');
+  const [countryCode, setCountryCode] = useState('+20');
+  const [phone, setPhone] = useState('');
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const filteredEntries = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!query) return entries;
+    const digits = query.replace(/\D/g, '').replace(/^0+/, '');
+    return entries.filter(
+      (e) => (digits && e.phoneNumber.includes(digits)) || (e.patientName || '').toLowerCase().includes(query)
+    );
+  }, [entries, search]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const normalized = normalizePhone(phone, countryCode === 'OTHER' ? undefined : countryCode);
+    if (!normalized.phone) {
+      addToast(normalized.error, 'error');
+      return;
+    }
+    if (entries.some((entry) => entry.phoneNumber === normalized.phone.e164)) {
+      addToast('هذا الرقم موجود بالفعل في قائمة عدم التواصل', 'info');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await doNotContactApiClient.addDoNotContact({
+        phoneNumber: normalized.phone.e164,
+        reason: reason.trim() || DO_NOT_CONTACT_REASON,
+        moderatorId: moderatorIdNum,
+      });
+      addToast('تمت إضافة الرقم إلى قائمة عدم التواصل', 'success');
+      setPhone('');
+      setReason('');
+      await reload();
+    } catch (err) {
+      logger.error('Failed to add do-not-contact number:', err);
+      addToast('فشل إضافة الرقم إلى قائمة عدم التواصل', 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (id: number, phoneNumber: string) => {
+    const confirmed = await confirm(createDeleteConfirmation(`الرقم ${phoneNumber} من قائمة عدم التواصل`, false));
+    if (!confirmed) return;
+
+    try {
+      await doNotContactApiClient.removeDoNotContact(id);
+      addToast('تم حذف الرقم من قائمة عدم التواصل', 'success');
+      await reload();
+    } catch (err) {
+      logger.error('Failed to remove do-not-contact number:', err);
+      addToast('فشل حذف الرقم من قائمة عدم التواصل', 'error');
+    }
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    try {
+      setIsExporting(true);
+      await downloadSpreadsheet(buildDoNotContactExportRows(entries), {
+        fileName: buildExportFileName('قائمة_عدم_التواصل', format),
+        sheetName: 'عدم التواصل',
+        format,
+      });
+    } catch (err) {
+      logger.error('Failed to export do-not-contact list:', err);
+      addToast('فشل تصدير قائمة عدم التواصل', 'error');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      setIsSaving(true);
+      const XLSX = await import('xlsx');
+      const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+      const rows = XLSX.utils.sheet_to_json(workbook.Sheets[workbook.SheetNames[0]], {
+        header: 1,
+        defval: '',
+        blankrows: false,
+      }) as ExportCell[][];
+
+      const { entries: importEntries, invalidRows } = parseDoNotContactRows(rows, countryCode === 'OTHER' ? '+20' : countryCode);
+      if (importEntries.length === 0) {
+        addToast('لم يتم العثور على أرقام صالحة في الملف', 'error');
+        return;
+      }
+
+      const result = await doNotContactApiClient.importDoNotContact({ entries: importEntries, moderatorId: moderatorIdNum });
+      const invalidNote = invalidRows.length > 0 ? `، ${invalidRows.length} صف برقم غير صالح (${invalidRows.slice(0, 5).join('، ')})` : '';
+      addToast(`تم استيراد ${result.added} رقم، ${result.skipped} موجود مسبقاً${invalidNote}`, invalidRows.length > 0 ? 'warning' : 'success');
+      await reload();
+    } catch (err) {
+      logger.error('Failed to import do-not-contact list:', err);
+      addToast('فشل استيراد قائمة عدم التواصل', 'error');
+    } finally {
+      setIsSaving(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header Banner */}
+      <div className="bg-gray-50 border-2 border-gray-200 rounded-lg p-4">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <i className="fas fa-user-slash"></i>
+          قائمة عدم التواصل
+        </h3>
+        <p className="text-sm text-gray-700 mt-2">
+          الأرقام المسجلة هنا طلب أصحابها عدم استقبال رسائل واتساب، ويتم استثناؤها تلقائياً من الإرسال في جميع طوابير المشرف.
+        </p>
+      </div>
+
+      {isAdminView && (
+        <div className="flex items-center gap-3">
+          <label htmlFor="doNotContact-moderator" className="text-sm font-medium text-gray-700">المشرف</label>
+          <select
+            id="doNotContact-moderator"
+            value={selectedModeratorId}
+            onChange={(e) => setPickedModeratorId(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+          >
+            {moderators.length === 0 && <option value="">لا يوجد مشرفون</option>}
+            {moderators.map((m) => (
+              <option key={m.id} value={m.id}>{m.name}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {/* Add Number */}
+      <form onSubmit={handleAdd} className="bg-white border border-gray-200 rounded-lg p-4 flex flex-wrap items-end gap-3">
+        <div>
+          <label htmlFor="doNotContact-phone" className="block text-sm font-medium text-gray-700 mb-2">رقم الهاتف</label>
+          <div className="flex gap-2">
+            <CountryCodeSelector value={countryCode} onChange={setCountryCode} disabled={isSaving} size="md" />
+            <input
+              id="doNotContact-phone"
+              type="tel"
+              value={phone}
+              onChange={(e) => setPhone(e.target.value.replace(/\s/g, ''))}
+              placeholder="رقم الهاتف"
+              disabled={isSaving}
+              dir="ltr"
+              className="w-44 px-3 py-2 border border-gray-300 rounded-lg font-mono focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        </div>
+        <div className="flex-1 min-w-48">
+          <label htmlFor="doNotContact-reason" className="block text-sm font-medium text-gray-700 mb-2">السبب (اختياري)</label>
+          <input
+            id="doNotContact-reason"
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder={DO_NOT_CONTACT_REASON}
+            disabled={isSaving}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={isSaving || !phone.trim() || (isAdminView && !selectedModeratorId)}
+          className="bg-gray-800 text-white px-4 py-2 rounded-lg hover:bg-gray-900 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+        >
+          <i className="fas fa-plus"></i>
+          إضافة
+        </button>
+      </form>
+
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="بحث بالرقم أو الاسم"
+          className="w-64 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+        />
+        <div className="flex items-center gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".xlsx,.xls,.csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+            }}
+          />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isSaving || (isAdminView && !selectedModeratorId)}
+            className="bg-white border border-blue-300 text-blue-700 hover:bg-blue-50 px-3 py-2 rounded text-sm flex items-center gap-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title="الأعمدة: رقم الهاتف، الاسم، السبب - الأرقام بدون + تُقرأ بكود الدولة المحدد"
+          >
+            <i className="fas fa-file-import"></i>
+            استيراد
+          </button>
+          <ExportButtons onExport={handleExport} isExporting={isExporting} disabled={entries.length === 0} title="تصدير القائمة" />
+        </div>
+      </div>
+
+      {/* List */}
+      {loading ? (
+        <LoadingSpinner size="lg" label="جاري التحميل..." />
+      ) : error ? (
+        <ErrorState title="فشل تحميل قائمة عدم التواصل" message={error} onRetry={reload} compact />
+      ) : filteredEntries.length === 0 ? (
+        <EmptyState
+          icon={<i className="fas fa-user-slash text-4xl text-gray-300" />}
+          title={entries.length === 0 ? 'القائمة فارغة' : 'لا توجد نتائج'}
+          description={entries.length === 0 ? 'أضف رقماً أو فعّل "عدم التواصل" من تعديل بيانات المريض.' : undefined}
+        />
+      ) : (
+        <div className="overflow-x-auto border border-gray-200 rounded-lg">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-4 py-3 text-right font-medium text-gray-600">رقم الهاتف</th>
+                <th className="px-4 py-3 text-right font-medium text-gray-600">الاسم</th>
+                <th className="px-4 py-3 text-right font-medium text-gray-600">السبب</th>
+                <th className="px-4 py-3 text-right font-medium text-gray-600">تاريخ الإضافة</th>
+                <th className="px-4 py-3 text-center font-medium text-gray-600">الإجراءات</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {filteredEntries.map((entry) => (
+                <tr key={entry.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-2 font-mono" dir="ltr">{entry.phoneNumber}</td>
+                  <td className="px-4 py-2">{entry.patientName || '-'}</td>
+                  <td className="px-4 py-2 text-gray-600">{entry.reason || '-'}</td>
+                  <td className="px-4 py-2 text-gray-600">{formatLocalDateTime(entry.createdAt)}</td>
+                  <td className="px-4 py-2 text-center">
+                    <button
+                      onClick={() => handleRemove(entry.id, entry.phoneNumber)}
+                      className="text-red-600 hover:text-red-800"
+                      title="حذف من القائمة"
+                    >
+                      <i className="fas fa-trash"></i>
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -21,7 +21,7 @@ import { formatLocalDate, formatLocalDateTime, parseAsUtc } from '@/utils/dateTi
 import logger from '@/utils/logger';
 import type { MessageCondition } from '@/types/messageCondition';
 import { useUserManagement } from '@/hooks/useUserManagement';
-import { getConditionRange, conditionsOverlap } from '@/utils/moderatorAggregation';
+import { detectOverlaps } from '@/utils/conditionRules';
 
 /**
  * Minimal Messages Panel - Focused on Queue Template Management
@@ -440,33 +440,11 @@ export default function MessagesPanel() {
         c.operator !== 'DEFAULT' // Exclude DEFAULT as it's a sentinel
       );
 
-    if (queueConditions.length < 2) return [];
-
-    const intersections: Array<{ cond1: MessageCondition; cond2: MessageCondition; message: string }> = [];
-
-    for (let i = 0; i < queueConditions.length; i++) {
-      for (let j = i + 1; j < queueConditions.length; j++) {
-        const cond1 = queueConditions[i];
-        const cond2 = queueConditions[j];
-
-        // Check if conditions overlap
-        if (
-          cond1.operator &&
-          cond2.operator &&
-          getConditionRange(cond1) &&
-          getConditionRange(cond2) &&
-          conditionsOverlap(cond1, cond2)
-        ) {
-          intersections.push({
-            cond1,
-            cond2,
-            message: `تقاطع: ${getConditionText(cond1)} و ${getConditionText(cond2)}`
-          });
-        }
-      }
-    }
-
-    return intersections;
+    return detectOverlaps(queueConditions).map(({ cond1, cond2 }) => ({
+      cond1,
+      cond2,
+      message: `تقاطع: ${getConditionText(cond1)} و ${getConditionText(cond2)}`
+    }));
   };
 
   /**
@@ -542,42 +520,6 @@ export default function MessagesPanel() {
     return '-';
   }, [userManagementState, user]);
 
-  /**
-   * Get range representation of a condition
-   * Note: All values must be >= 1 (0 and negative values are invalid)
-   */
-  const getConditionRange = (cond: MessageCondition): { min: number; max: number } | null => {
-    switch (cond.operator) {
-      case 'EQUAL':
-        if (cond.value === undefined || cond.value <= 0) return null;
-        return { min: cond.value, max: cond.value };
-      case 'GREATER':
-        if (cond.value === undefined || cond.value <= 0) return null;
-        return { min: cond.value + 1, max: 999 };
-      case 'LESS':
-        if (cond.value === undefined || cond.value <= 0) return null;
-        return { min: 1, max: cond.value - 1 };
-      case 'RANGE':
-        if (cond.minValue === undefined || cond.maxValue === undefined || cond.minValue <= 0 || cond.maxValue <= 0) return null;
-        return { min: cond.minValue, max: cond.maxValue };
-      default:
-        return null;
-    }
-  };
-
-  /**
-   * Check if two conditions overlap/intersect
-   */
-  const conditionsOverlap = (cond1: MessageCondition, cond2: MessageCondition): boolean => {
-    const range1 = getConditionRange(cond1);
-    const range2 = getConditionRange(cond2);
-
-    if (!range1 || !range2) return false;
-
-    // Two ranges overlap if NOT (range1.max < range2.min OR range2.max < range1.min)
-    return !(range1.max < range2.min || range2.max < range1.min);
-  };
-
   /**
    * Get human-readable condition text
    */
@@ -854,7 +796,18 @@ export default function MessagesPanel() {
                                       }`}>
                                       <td className="px-4 py-2">
                                         <div>
-                                          <p className="font-medium text-gray-900">{template.title}</p>
+                                          <p className="font-medium text-gray-900">
+                                            {template.title}
+                                            {template.libraryTemplateId && (
+                                              <span
+                                                className="mr-2 px-1.5 py-0.5 bg-blue-50 text-blue-700 rounded text-[10px] align-middle"
+                                                title={template.isLibraryOverride ? 'مرتبط بالمكتبة - مخصص لهذا الطابور' : 'مرتبط بالمكتبة - يتبع تعديلاتها'}
+                                              >
+                                                <i className="fas fa-link ml-1"></i>
+                                                {template.isLibraryOverride ? 'مكتبة (مخصص)' : 'مكتبة'}
+                                              </span>
+                                            )}
+                                          </p>
                                           <p className="text-xs text-gray-600 mt-1 line-clamp-2">
                                             {template.content.substring(0, 80)}
                                             {template.content.length > 80 ? '...' : ''}
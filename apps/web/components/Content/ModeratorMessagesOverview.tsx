@@ -19,7 +19,8 @@ import { ConflictBadge } from '@/components/Common/ConflictBadge';
 import logger from '@/utils/logger';
 import type { MessageCondition } from '@/types/messageCondition';
 import { useUserManagement } from '@/hooks/useUserManagement';
-import { groupQueuesByModerator, type ModeratorWithStats } from '@/utils/moderatorAggregation';
+import { groupQueuesByModerator, countConflictsInQueue, type ModeratorWithStats } from '@/utils/moderatorAggregation';
+import { detectOverlaps } from '@/utils/conditionRules';
 import { templateDtoToModel } from '@/services/api/adapters';
 import { formatLocalDateTime } from '@/utils/dateTimeUtils';
 // Mock data removed - using API data instead
@@ -562,71 +563,31 @@ export default function ModeratorMessagesOverview() {
   }, [loadQueueData]);
 
   /**
-   * Check for condition intersections in a queue (same logic as MessagesPanel)
+   * Conditions of the visible templates, resolved from messageConditions (source of truth)
+   * with the embedded template.condition as fallback - same resolution as MessagesPanel
    */
-  const checkConditionIntersections = (_queueId: string) => {
-    const queueConditions: MessageCondition[] = [];
-
-    if (queueConditions.length < 2) return [];
-
-    const intersections: Array<{ cond1: MessageCondition; cond2: MessageCondition; message: string }> = [];
-
-    for (let i = 0; i < queueConditions.length; i++) {
-      for (let j = i + 1; j < queueConditions.length; j++) {
-        const cond1 = queueConditions[i];
-        const cond2 = queueConditions[j];
-
-        if (
-          cond1.operator &&
-          cond2.operator &&
-          getConditionRange(cond1) &&
-          getConditionRange(cond2) &&
-          conditionsOverlap(cond1, cond2)
-        ) {
-          intersections.push({
-            cond1,
-            cond2,
-            message: `تقاطع: ${getConditionText(cond1)} و ${getConditionText(cond2)}`
-          });
-        }
-      }
-    }
-
-    return intersections;
-  };
-
-  /**
-   * Get range representation of a condition
-   */
-  const getConditionRange = (cond: MessageCondition): { min: number; max: number } | null => {
-    switch (cond.operator) {
-      case 'EQUAL':
-        if (cond.value === undefined || cond.value <= 0) return null;
-        return { min: cond.value, max: cond.value };
-      case 'GREATER':
-        if (cond.value === undefined || cond.value <= 0) return null;
-        return { min: cond.value + 1, max: 999 };
-      case 'LESS':
-        if (cond.value === undefined || cond.value <= 0) return null;
-        return { min: 1, max: cond.value - 1 };
-      case 'RANGE':
-        if (cond.minValue === undefined || cond.maxValue === undefined || cond.minValue <= 0 || cond.maxValue <= 0) return null;
-        return { min: cond.minValue, max: cond.maxValue };
-      default:
-        return null;
-    }
-  };
+  const templateConditions = useMemo(
+    () =>
+      filteredTemplates
+        .map((t): MessageCondition | null => {
+          const cond = messageConditions.find((c) => c.templateId === t.id) ?? t.condition;
+          return cond ? { ...cond, queueId: cond.queueId ?? t.queueId } : null;
+        })
+        .filter((c): c is MessageCondition => c !== null),
+    [filteredTemplates, messageConditions]
+  );
 
   /**
-   * Check if two conditions overlap
+   * Check for condition intersections in a queue (see utils/conditionRules)
    */
-  const conditionsOverlap = (cond1: MessageCondition, cond2: MessageCondition): boolean => {
-    const range1 = getConditionRange(cond1);
-    const range2 = getConditionRange(cond2);
-
-    if (!range1 || !range2) return false;
-
-    return !(range1.max < range2.min || range2.max < range1.min);
+  const checkConditionIntersections = (queueId: string) => {
+    const queueConditions = templateConditions.filter((c) => String(c.queueId) === queueId);
+
+    return detectOverlaps(queueConditions).map(({ cond1, cond2 }) => ({
+      cond1,
+      cond2,
+      message: `تقاطع: ${getConditionText(cond1)} و ${getConditionText(cond2)}`
+    }));
   };
 
   /**
@@ -665,7 +626,7 @@ export default function ModeratorMessagesOverview() {
     const filteredQueueBasedModerators = groupQueuesByModerator(
       filteredQueues,
       filteredTemplates,
-      [], // messageConditions - will be loaded separately if needed
+      templateConditions,
       userManagementState.moderators
     );
 
@@ -755,7 +716,7 @@ export default function ModeratorMessagesOverview() {
 
     // Sort by moderator ID
     return mergedModerators.sort((a, b) => Number(a.moderatorId) - Number(b.moderatorId));
-  }, [filteredQueues, filteredTemplates, userManagementState.moderators]);
+  }, [filteredQueues, filteredTemplates, templateConditions, userManagementState.moderators]);
 
   /**
    * Filter moderators by search term
@@ -1049,43 +1010,16 @@ export default function ModeratorMessagesOverview() {
                       </p>
                       <div className="flex flex-wrap gap-2">
                         {moderator.queues
-                          .map((queue) => {
-                            const queueConditions: MessageCondition[] = [];
-
-                            if (queueConditions.length < 2) return null;
-
-                            let hasConflict = false;
-                            for (let i = 0; i < queueConditions.length; i++) {
-                              for (let j = i + 1; j < queueConditions.length; j++) {
-                                const cond1 = queueConditions[i];
-                                const cond2 = queueConditions[j];
-
-                                if (
-                                  cond1.operator &&
-                                  cond2.operator &&
-                                  getConditionRange(cond1) &&
-                                  getConditionRange(cond2) &&
-                                  conditionsOverlap(cond1, cond2)
-                                ) {
-                                  hasConflict = true;
-                                  break;
-                                }
-                              }
-                              if (hasConflict) break;
-                            }
-
-                            return hasConflict ? queue : null;
-                          })
-                          .filter((queue) => queue !== null)
+                          .filter((queue) => countConflictsInQueue(queue.id, templateConditions) > 0)
                           .map((queue) => (
                             <span
-                              key={queue?.id}
+                              key={queue.id}
                               className="inline-flex items-center gap-1 px-2 py-1 bg-red-200 text-red-800 rounded text-xs font-medium cursor-pointer hover:bg-red-300 transition-colors"
-                              onClick={() => toggleQueueExpanded(String(queue?.id))}
+                              onClick={() => toggleQueueExpanded(String(queue.id))}
                               title="اضغط لفتح العيادة"
                             >
                               <i className="fas fa-exclamation-triangle"></i>
-                              {queue?.doctorName || `العيادة #${queue?.id}`}
+                              {queue.doctorName || `العيادة #${queue.id}`}
                             </span>
                           ))}
                       </div>
@@ -23,6 +23,7 @@ import EditUserModal from '@/components/Modals/EditUserModal';
 import EditAccountModal from '@/components/Modals/EditAccountModal';
 import AddUserModal from '@/components/Modals/AddUserModal';
 import WhatsAppAuthTabContent from '@/components/Content/WhatsAppAuthTabContent';
+import DoNotContactTabContent from '@/components/Content/DoNotContactTabContent';
 import ModeratorQuotaDisplay from '@/components/Moderators/ModeratorQuotaDisplay';
 import ModeratorQuotaModal from '@/components/Moderators/ModeratorQuotaModal';
 import ModeratorMessagesQuotaModal from '@/components/Moderators/ModeratorMessagesQuotaModal';
@@ -302,7 +303,7 @@ export default function UserManagementPanel() {
 
   // All useState hooks MUST be declared before any conditional returns
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
-  const [activeTab, setActiveTab] = useState<'moderators' | 'myUsers' | 'secondaryAdmins' | 'whatsappAuth' | 'quota' | 'accountSettings' | 'logs' | 'trash' | 'systemSettings'>('moderators');
+  const [activeTab, setActiveTab] = useState<'moderators' | 'myUsers' | 'secondaryAdmins' | 'whatsappAuth' | 'quota' | 'accountSettings' | 'logs' | 'trash' | 'systemSettings' | 'doNotContact'>('moderators');
   const [expandedModerators, setExpandedModerators] = useState<Set<string>>(new Set());
   const [expandedSecondaryAdmins, setExpandedSecondaryAdmins] = useState<Set<string>>(new Set());
   const [selectedLog, setSelectedLog] = useState<Record<string, unknown> | null>(null);
@@ -369,7 +370,7 @@ export default function UserManagementPanel() {
   };
 
   // Helper function to change tab and persist to sessionStorage
-  const handleTabChange = (tab: 'moderators' | 'myUsers' | 'secondaryAdmins' | 'whatsappAuth' | 'quota' | 'accountSettings' | 'logs' | 'trash' | 'systemSettings') => {
+  const handleTabChange = (tab: 'moderators' | 'myUsers' | 'secondaryAdmins' | 'whatsappAuth' | 'quota' | 'accountSettings' | 'logs' | 'trash' | 'systemSettings' | 'doNotContact') => {
     setActiveTab(tab);
     sessionStorage.setItem('userManagementActiveTab', tab);
   };
@@ -380,10 +381,10 @@ export default function UserManagementPanel() {
       const requestedTab = (event as CustomEvent<string>).detail;
       if (!requestedTab) return;
 
-      const allowedTabs = ['moderators', 'myUsers', 'secondaryAdmins', 'whatsappAuth', 'quota', 'accountSettings', 'logs', 'trash', 'systemSettings'];
+      const allowedTabs = ['moderators', 'myUsers', 'secondaryAdmins', 'whatsappAuth', 'quota', 'accountSettings', 'logs', 'trash', 'systemSettings', 'doNotContact'];
       if (!allowedTabs.includes(requestedTab)) return;
 
-      handleTabChange(requestedTab as 'moderators' | 'myUsers' | 'secondaryAdmins' | 'whatsappAuth' | 'quota' | 'accountSettings' | 'logs' | 'trash' | 'systemSettings');
+      handleTabChange(requestedTab as 'moderators' | 'myUsers' | 'secondaryAdmins' | 'whatsappAuth' | 'quota' | 'accountSettings' | 'logs' | 'trash' | 'systemSettings' | 'doNotContact');
     };
 
     window.addEventListener('userManagementActiveTabChange', onExternalTabChange as (this: Window, ev: Event) => void);
@@ -402,7 +403,7 @@ export default function UserManagementPanel() {
     // Only set default tab if no tab has been explicitly set by user interaction
     // This prevents resetting the tab when currentUser updates after editing
     const savedTab = sessionStorage.getItem('userManagementActiveTab');
-    if (savedTab && ['moderators', 'myUsers', 'secondaryAdmins', 'whatsappAuth', 'quota', 'accountSettings', 'logs', 'trash'].includes(savedTab)) {
+    if (savedTab && ['moderators', 'myUsers', 'secondaryAdmins', 'whatsappAuth', 'quota', 'accountSettings', 'logs', 'trash', 'doNotContact'].includes(savedTab)) {
       setActiveTab(savedTab as any);
       return;
     }
@@ -1168,6 +1169,18 @@ export default function UserManagementPanel() {
             </button>
           )}
 
+          {/* Do-Not-Contact Tab - Show for Admins and Moderators */}
+          {currentUser && currentUser.role !== UserRole.User && (
+            <button
+              onClick={() => handleTabChange('doNotContact')}
+              className={`${TAB_BASE} ${activeTab === 'doNotContact' ? TAB_ACTIVE.blue : TAB_INACTIVE
+                }`}
+            >
+              <i className="fas fa-user-slash"></i>
+              عدم التواصل
+            </button>
+          )}
+
           {/* Logs Tab - Show for Admins and Moderators only (NOT Users) */}
           {currentUser && (currentUser.role === UserRole.PrimaryAdmin || currentUser.role === UserRole.SecondaryAdmin) && (
             <button
@@ -2026,6 +2039,17 @@ export default function UserManagementPanel() {
           <QuotaTabContent currentUser={currentUser} />
         )}
 
+        {/* Do-Not-Contact Section - Admins manage any moderator's list, moderators their own */}
+        {activeTab === 'doNotContact' && currentUser?.role !== UserRole.User && (
+          <DoNotContactTabContent
+            moderators={
+              currentUser?.role === UserRole.Moderator
+                ? undefined
+                : moderators.map((m) => ({ id: m.id, name: getUserDisplayName(m) }))
+            }
+          />
+        )}
+
         {/* Log Detail Modal */}
         {selectedLog && (
           <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -18,7 +18,9 @@ import { LoadingSpinner } from '@/components/state';
 import logger from '@/utils/logger';
 import queuesApiClient from '@/services/api/queuesApiClient';
 import { useUserManagement } from '../../hooks/useUserManagement';
+import { useUnreadReplies } from '../../hooks/useUnreadReplies';
 import type { ModeratorWithStats } from '@/utils/moderatorAggregation';
+import type { MessageReceivedEvent } from '@/services/api/conversationsApiClient';
 
 
 export default function Navigation() {
@@ -31,6 +33,15 @@ export default function Navigation() {
   const [userManagementState, userManagementActions] = useUserManagement();
   const { hasOngoingOperations, operations } = useGlobalProgress();
 
+  // Unread patient replies per queue; each new reply also raises a toast that opens the thread
+  const handleReplyReceived = React.useCallback((event: MessageReceivedEvent) => {
+    addToast(`رد جديد من ${event.patientName}`, 'info', undefined, {
+      label: 'عرض المحادثة',
+      onClick: () => openModal('patientConversation', { patientId: event.patientId }),
+    });
+  }, [addToast, openModal]);
+  const { unreadByQueue } = useUnreadReplies(handleReplyReceived);
+
   // Calculate if any messages are actively being sent (for pulse animation)
   const isActivelySending = React.useMemo(() => {
     if (!hasOngoingOperations || !operations || operations.length === 0) return false;
@@ -802,6 +813,7 @@ export default function Navigation() {
                                     }}
                                     onEdit={handleEditQueue}
                                     onDelete={handleDeleteQueue}
+                                  unreadCount={unreadByQueue[String(q.id)]}
                                   />
                                 ))
                               )}
@@ -838,6 +850,7 @@ export default function Navigation() {
                       }}
                       onEdit={handleEditQueue}
                       onDelete={handleDeleteQueue}
+                      unreadCount={unreadByQueue[String(queue.id)]}
                     />
                   ))
                 )}
@@ -867,6 +880,7 @@ export default function Navigation() {
                       }}
                       onEdit={handleEditQueue}
                       onDelete={handleDeleteQueue}
+                      unreadCount={unreadByQueue[String(queue.id)]}
                     />
                   ))
                 )}
@@ -1052,6 +1066,7 @@ export default function Navigation() {
                   }}
                   onEdit={handleEditQueue}
                   onDelete={handleDeleteQueue}
+                  unreadCount={unreadByQueue[String(queue.id)]}
                 />
               ))}
               {/* Regular user collapsed: all queues */}
@@ -1068,6 +1083,7 @@ export default function Navigation() {
                   }}
                   onEdit={handleEditQueue}
                   onDelete={handleDeleteQueue}
+                  unreadCount={unreadByQueue[String(queue.id)]}
                 />
               ))}
             </div>
@@ -5,6 +5,7 @@
  */
 
 import React from 'react';
+import { formatUnreadBadge } from '@/utils/conversations';
 
 interface QueueListItemProps {
   id: string;
@@ -14,6 +15,7 @@ interface QueueListItemProps {
   onClick: () => void;
   onEdit?: (id: string) => void;
   onDelete?: (id: string) => void;
+  unreadCount?: number; // Unread patient replies (hidden when 0)
   className?: string;
 }
 
@@ -25,6 +27,7 @@ export function QueueListItem({
   onClick,
   onEdit,
   onDelete,
+  unreadCount = 0,
   className = '',
 }: QueueListItemProps) {
   const handleEdit = (e: React.MouseEvent) => {
@@ -53,7 +56,7 @@ export function QueueListItem({
         key={id}
         onClick={onClick}
         title={isCollapsed ? doctorName : undefined}
-        aria-label={`العيادة: ${doctorName}`}
+        aria-label={unreadCount > 0 ? `العيادة: ${doctorName} - ${unreadCount} رد غير مقروء` : `العيادة: ${doctorName}`}
         className={`
           transition-all duration-200 ease-out rounded-lg group overflow-hidden min-w-0
           ${isCollapsed
@@ -71,7 +74,14 @@ export function QueueListItem({
         `}
       >
         {isCollapsed ? (
-          <i className="fas fa-hospital text-lg group-hover:scale-110 transition-transform duration-200"></i>
+          <span className="relative">
+            <i className="fas fa-hospital text-lg group-hover:scale-110 transition-transform duration-200"></i>
+            {unreadCount > 0 && (
+              <span className="absolute -top-2 -left-2 inline-flex items-center justify-center min-w-[16px] h-4 px-1 text-[10px] font-bold rounded-full bg-red-500 text-white">
+                {formatUnreadBadge(unreadCount)}
+              </span>
+            )}
+          </span>
         ) : (
           <div className="flex items-center justify-between w-full overflow-hidden min-w-0">
             <div className="flex items-center gap-1 sm:gap-2 flex-1 min-w-0">
@@ -82,6 +92,14 @@ export function QueueListItem({
                   <p className="text-xs text-gray-500 mt-0.5 truncate">عيادة نشطة</p>
                 )}
               </div>
+              {unreadCount > 0 && (
+                <span
+                  className="inline-flex items-center justify-center min-w-[20px] h-5 px-1.5 text-xs font-bold rounded-full bg-red-500 text-white flex-shrink-0"
+                  title="ردود غير مقروءة من المرضى"
+                >
+                  {formatUnreadBadge(unreadCount)}
+                </span>
+              )}
             </div>
           </div>
         )}
@@ -7,6 +7,7 @@ import { useAuth } from '../../contexts/AuthContext';
 import { ModalProvider } from '../../contexts/ModalContext';
 import { WhatsAppSessionProvider } from '../../contexts/WhatsAppSessionContext';
 import { GlobalProgressProvider } from '../../contexts/GlobalProgressContext';
+import { NumberVerificationProvider } from '../../contexts/NumberVerificationContext';
 import { useSidebarCollapse } from '../../hooks/useSidebarCollapse';
 import Header from '../Layout/Header';
 import Navigation from '../Layout/Navigation';
@@ -149,29 +150,34 @@ export default function MainApp() {
   // Providers are already in app/layout.tsx, so we don't need to wrap here
   return (
     <GlobalProgressProvider>
-      <ModalProvider>
-        <MainAppContent />
-        <Modals.AddQueueModal />
-        <Modals.AddPatientModal />
-        <Modals.UploadModal />
-        <Modals.AddTemplateModal />
-        <Modals.EditTemplateModal />
-        <Modals.AccountInfoModal />
-        <Modals.WhatsAppAuthModal />
-        <Modals.EditQueueModal />
-        <Modals.EditUserModal />
-        <Modals.AddUserModal />
-        <Modals.EditPatientModal />
-        <Modals.MessageSelectionModal />
-        <Modals.MessagePreviewModal />
-        <Modals.ManageConditionsModal />
-        <Modals.RetryPreviewModal />
-        <Modals.QuotaManagementModal />
-        <Modals.QRCodeModal />
-      </ModalProvider>
-
-      {/* Global Progress Indicator - Visible on ALL pages */}
-      <GlobalProgressIndicator />
+      <NumberVerificationProvider>
+        <ModalProvider>
+          <MainAppContent />
+          <Modals.AddQueueModal />
+          <Modals.DuplicateQueueModal />
+          <Modals.QueueCheckInModal />
+          <Modals.AddPatientModal />
+          <Modals.UploadModal />
+          <Modals.AddTemplateModal />
+          <Modals.EditTemplateModal />
+          <Modals.AccountInfoModal />
+          <Modals.WhatsAppAuthModal />
+          <Modals.EditQueueModal />
+          <Modals.EditUserModal />
+          <Modals.AddUserModal />
+          <Modals.EditPatientModal />
+          <Modals.PatientConversationModal />
+          <Modals.MessageSelectionModal />
+          <Modals.MessagePreviewModal />
+          <Modals.ManageConditionsModal />
+          <Modals.RetryPreviewModal />
+          <Modals.QuotaManagementModal />
+          <Modals.QRCodeModal />
+
+          {/* Global Progress Indicator - Visible on ALL pages (inside ModalProvider so it can open the edit patient modal) */}
+          <GlobalProgressIndicator />
+        </ModalProvider>
+      </NumberVerificationProvider>
     </GlobalProgressProvider>
   );
 }
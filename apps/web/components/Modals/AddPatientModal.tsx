@@ -3,11 +3,24 @@
 import { useModal } from '@/contexts/ModalContext';
 import { useUI } from '@/contexts/UIContext';
 import { useQueue } from '@/contexts/QueueContext';
-import { validateName, validatePhone, ValidationError, validateCountryCode, MAX_PHONE_DIGITS } from '@/utils/validation';
+import { validateName, ValidationError, validateCountryCode, MAX_PHONE_DIGITS } from '@/utils/validation';
+import { getPhonePlaceholder, normalizePhone, validatePhoneByCountry } from '@/utils/phoneUtils';
 import { patientsApiClient } from '@/services/api/patientsApiClient';
 import Modal from './Modal';
-import { useState, useRef, type FormEvent } from 'react';
+import { useState, useRef, useMemo, type FormEvent } from 'react';
 import CountryCodeSelector from '@/components/Common/CountryCodeSelector';
+import DuplicateReviewPanel from '@/components/Common/DuplicateReviewPanel';
+import { usePatientDuplicateCheck } from '@/hooks/usePatientDuplicateCheck';
+import { useLocalStorage } from '@/hooks/useCustom';
+import {
+  findDuplicates,
+  getAllowedResolutions,
+  planPatientImport,
+  type DuplicateMatch,
+  type DuplicateResolution,
+  type ExistingPatient,
+  type PatientCandidate,
+} from '@/utils/patientDuplicates';
 import { useFormKeyboardNavigation } from '@/hooks/useFormKeyboardNavigation';
 import { getEffectiveCountryCode } from '@/utils/core.utils';
 import logger from '@/utils/logger';
@@ -34,18 +47,30 @@ export default function AddPatientModal() {
   const [isLoading, setIsLoading] = useState(false);
   const [expandedPatients, setExpandedPatients] = useState<Set<number>>(new Set([0])); // Track expanded patients
   const formRef = useRef<HTMLFormElement>(null);
+  const [duplicateReview, setDuplicateReview] = useState<{ candidates: PatientCandidate[]; existing: ExistingPatient[] } | null>(null);
+  const [resolutions, setResolutions] = useState<Record<number, DuplicateResolution>>({});
+  const [matchNames, setMatchNames] = useLocalStorage('patientDuplicateMatchNames', false);
+  const { loadExistingPatients, isChecking } = usePatientDuplicateCheck();
 
   const isOpen = openModals.has('addPatient');
   const modalData = getModalData('addPatient');
   const queueId = modalData?.queueId || selectedQueueId;
 
+  const duplicateMatches = useMemo(
+    () =>
+      duplicateReview
+        ? findDuplicates(duplicateReview.candidates, duplicateReview.existing, { queueId: String(queueId), matchNames })
+        : [],
+    [duplicateReview, queueId, matchNames]
+  );
+
   // Validate only a specific field
   const validateField = (index: number, fieldName: string, patient: PatientField): string | undefined => {
     switch (fieldName) {
       case 'name':
         return validateName(patient.name, 'اسم المريض');
       case 'phone':
-        return validatePhone(patient.phone);
+        return validatePhoneByCountry(patient.phone, getEffectiveCountryCode(patient.countryCode, patient.customCountryCode || ''));
       case 'customCountryCode':
         if (patient.countryCode === 'OTHER') {
           return validateCountryCode(patient.customCountryCode || '', true);
@@ -104,6 +129,20 @@ export default function AddPatientModal() {
     // Don't clear errors on update - let handleFieldBlur do that on blur
   };
 
+  // A pasted international number ("+966 50...", "00966...") selects its country and keeps the national number
+  const handlePhoneChange = (index: number, value: string) => {
+    if (/^(\+|00)/.test(value)) {
+      const { phone } = normalizePhone(value);
+      if (phone) {
+        const updated = [...patients];
+        updated[index] = { ...updated[index], countryCode: phone.countryCode, customCountryCode: '', phone: phone.nationalNumber };
+        setPatients(updated);
+        return;
+      }
+    }
+    updatePatient(index, 'phone', value);
+  };
+
   const handleFieldBlur = (index: number, fieldName: string) => {
     const patient = patients[index];
     const fieldError = validateField(index, fieldName, patient);
@@ -150,15 +189,16 @@ export default function AddPatientModal() {
         const nameError = validateName(patient.name, 'اسم المريض');
         if (nameError) patientErrors.name = nameError;
         
-        // Phone validation
-        const phoneError = validatePhone(patient.phone);
-        if (phoneError) patientErrors.phone = phoneError;
-        
         // Country Code validation
         const effectiveCountryCode = getEffectiveCountryCode(
           patient.countryCode,
           patient.customCountryCode || ''
         );
+
+        // Phone validation (numbering plan of the selected country)
+        const phoneError = validatePhoneByCountry(patient.phone, effectiveCountryCode);
+        if (phoneError) patientErrors.phone = phoneError;
+        
         const countryCodeError = validateCountryCode(effectiveCountryCode, true);
         if (countryCodeError) patientErrors.country = countryCodeError;
         
@@ -200,81 +240,159 @@ export default function AddPatientModal() {
       return;
     }
 
+    // Validate that we have a queue ID
+    if (!queueId) {
+      addToast('يجب تحديد عيادة', 'error');
+      return;
+    }
+
+    const candidates: PatientCandidate[] = validPatients.map((p) => {
+      // Validated above, so normalization only strips the trunk prefix / pasted country code
+      const normalized = normalizePhone(p.phone, p.effectiveCountryCode).phone;
+      return {
+        fullName: p.name.trim(),
+        phoneNumber: normalized?.nationalNumber ?? p.phone.trim(),
+        countryCode: normalized?.countryCode ?? p.effectiveCountryCode, // Send countryCode explicitly
+      };
+    });
+
     try {
       setIsLoading(true);
-      
-      // Validate that we have a queue ID
-      if (!queueId) {
-        addToast('يجب تحديد عيادة', 'error');
+
+      // Check the queue and the moderator's other active queues for the same patients
+      const existing = await loadExistingPatients(String(queueId));
+      const matches = findDuplicates(candidates, existing, { queueId: String(queueId), matchNames });
+      if (matches.length > 0) {
+        setResolutions({});
+        setDuplicateReview({ candidates, existing });
         return;
       }
 
-      // Process valid patients and call backend API
-      const qidNum = Number(queueId);
-      let addedCount = 0;
-      for (const p of validPatients) {
-        try {
-          const phoneNumber = p.phone.trim(); // Store phone number as-is, no normalization
-          await patientsApiClient.createPatient({
-            queueId: qidNum,
-            fullName: p.name.trim(),
-            phoneNumber,
-            countryCode: p.effectiveCountryCode, // Send countryCode explicitly
-          });
-          addedCount++;
-        } catch (err) {
-          const errorMessage = err instanceof Error 
-            ? err.message 
-            : (err && typeof err === 'object' && 'message' in err)
-              ? String((err as { message?: unknown }).message || 'Unknown error')
-              : 'Unknown error';
-          logger.error(`Failed to add patient: ${p.name}`, {
-            error: errorMessage,
-            statusCode: (err && typeof err === 'object' && 'statusCode' in err) ? (err as { statusCode?: unknown }).statusCode : undefined,
-            fullError: err,
-          });
-        }
+      await savePatients(candidates, [], {});
+    } catch (error) {
+      logSaveError(error);
+      addToast('حدث خطأ أثناء إضافة المرضى', 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const logSaveError = (error: unknown) => {
+    const errorMessage = error instanceof Error 
+      ? error.message 
+      : (error && typeof error === 'object' && 'message' in error)
+        ? String((error as { message?: unknown }).message || 'Unknown error')
+        : 'Unknown error';
+    logger.error('Failed to add patients:', {
+      error: errorMessage,
+      statusCode: (error && typeof error === 'object' && 'statusCode' in error) ? (error as { statusCode?: unknown }).statusCode : undefined,
+      fullError: error,
+    });
+  };
+
+  // Create new patients and update overwritten ones according to the duplicate resolutions
+  const savePatients = async (
+    candidates: PatientCandidate[],
+    matches: DuplicateMatch[],
+    rowResolutions: Record<number, DuplicateResolution>
+  ) => {
+    const qidNum = Number(queueId);
+    const plan = planPatientImport(candidates, matches, rowResolutions);
+    let addedCount = 0;
+    let updatedCount = 0;
+
+    for (const p of plan.create) {
+      try {
+        await patientsApiClient.createPatient({
+          queueId: qidNum,
+          fullName: p.fullName,
+          phoneNumber: p.phoneNumber,
+          countryCode: p.countryCode,
+        });
+        addedCount++;
+      } catch (err) {
+        const errorMessage = err instanceof Error 
+          ? err.message 
+          : (err && typeof err === 'object' && 'message' in err)
+            ? String((err as { message?: unknown }).message || 'Unknown error')
+            : 'Unknown error';
+        logger.error(`Failed to add patient: ${p.fullName}`, {
+          error: errorMessage,
+          statusCode: (err && typeof err === 'object' && 'statusCode' in err) ? (err as { statusCode?: unknown }).statusCode : undefined,
+          fullError: err,
+        });
       }
-      
-      if (addedCount === 0) {
-        addToast('فشل إضافة المرضى', 'error');
-        return;
+    }
+
+    for (const { id, candidate } of plan.update) {
+      try {
+        await patientsApiClient.updatePatient(id, {
+          fullName: candidate.fullName,
+          phoneNumber: candidate.phoneNumber,
+          countryCode: candidate.countryCode,
+        });
+        updatedCount++;
+      } catch (err) {
+        logger.error(`Failed to update duplicate patient: ${candidate.fullName}`, { id, fullError: err });
       }
+    }
+
+    const allSkipped = plan.create.length === 0 && plan.update.length === 0;
+    if (!allSkipped && addedCount === 0 && updatedCount === 0) {
+      addToast('فشل إضافة المرضى', 'error');
+      return;
+    }
+
+    if (allSkipped) {
+      addToast(`لم تتم إضافة مرضى - تم تخطي ${plan.skipped} مريض مكرر`, 'info');
+    } else {
+      const summary = [
+        addedCount > 0 ? `تم إضافة ${addedCount} مريض بنجاح` : '',
+        updatedCount > 0 ? `تم تحديث ${updatedCount} مريض` : '',
+        plan.skipped > 0 ? `تم تخطي ${plan.skipped} مكرر` : '',
+      ].filter(Boolean).join(' - ');
+      addToast(summary, 'success');
 
-      addToast(`تم إضافة ${addedCount} مريض بنجاح`, 'success');
-      
       // Reload patients from backend to reflect latest state
       // Wait for refetch to complete before closing modal and dispatching event
       await refreshPatients(String(queueId));
-      
-      // Clear form fields after successful creation
-      setPatients([{ name: '', phone: '', countryCode: '+20', customCountryCode: '' }]);
-      setErrors({});
-      
-      closeModal('addPatient');
-      
-      // Trigger a custom event to notify other components to refetch
-      // Dispatch after a small delay to ensure refreshPatients has updated the state
-      setTimeout(() => {
-        window.dispatchEvent(new CustomEvent('patientDataUpdated'));
-      }, 100);
+    }
+
+    // Clear form fields after successful creation
+    setPatients([{ name: '', phone: '', countryCode: '+20', customCountryCode: '' }]);
+    setErrors({});
+    setDuplicateReview(null);
+
+    closeModal('addPatient');
+
+    // Trigger a custom event to notify other components to refetch
+    // Dispatch after a small delay to ensure refreshPatients has updated the state
+    setTimeout(() => {
+      window.dispatchEvent(new CustomEvent('patientDataUpdated'));
+    }, 100);
+  };
+
+  const handleConfirmDuplicates = async () => {
+    if (!duplicateReview) return;
+    try {
+      setIsLoading(true);
+      await savePatients(duplicateReview.candidates, duplicateMatches, resolutions);
     } catch (error) {
-      const errorMessage = error instanceof Error 
-        ? error.message 
-        : (error && typeof error === 'object' && 'message' in error)
-          ? String((error as { message?: unknown }).message || 'Unknown error')
-          : 'Unknown error';
-      logger.error('Failed to add patients:', {
-        error: errorMessage,
-        statusCode: (error && typeof error === 'object' && 'statusCode' in error) ? (error as { statusCode?: unknown }).statusCode : undefined,
-        fullError: error,
-      });
+      logSaveError(error);
       addToast('حدث خطأ أثناء إضافة المرضى', 'error');
     } finally {
       setIsLoading(false);
     }
   };
 
+  const applyResolutionToAll = (resolution: DuplicateResolution) => {
+    const updated: Record<number, DuplicateResolution> = {};
+    duplicateMatches.forEach((match) => {
+      if (getAllowedResolutions(match).includes(resolution)) updated[match.index] = resolution;
+    });
+    setResolutions({ ...resolutions, ...updated });
+  };
+
   // Setup keyboard navigation (after handleSubmit is defined)
   useFormKeyboardNavigation({
     formRef,
@@ -283,7 +401,7 @@ export default function AddPatientModal() {
       handleSubmit(fakeEvent);
     },
     enableEnterSubmit: true,
-    disabled: isLoading,
+    disabled: isLoading || !!duplicateReview,
   });
 
   if (!isOpen) return null;
@@ -295,10 +413,25 @@ export default function AddPatientModal() {
         closeModal('addPatient');
         setPatients([{ name: '', phone: '', countryCode: '+20', customCountryCode: '' }]);
         setErrors({});
+        setDuplicateReview(null);
       }}
       title="إضافة مرضى جدد"
       size="xl"
     >
+      {duplicateReview ? (
+        <DuplicateReviewPanel
+          candidates={duplicateReview.candidates}
+          matches={duplicateMatches}
+          resolutions={resolutions}
+          onResolutionChange={(index, resolution) => setResolutions({ ...resolutions, [index]: resolution })}
+          onApplyToAll={applyResolutionToAll}
+          matchNames={matchNames}
+          onMatchNamesChange={setMatchNames}
+          onConfirm={handleConfirmDuplicates}
+          onCancel={() => setDuplicateReview(null)}
+          isProcessing={isLoading}
+        />
+      ) : (
       <form ref={formRef} onSubmit={handleSubmit} className="flex flex-col h-full space-y-4">
         {/* Info Section */}
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
@@ -496,14 +629,14 @@ export default function AddPatientModal() {
                           onChange={(e) => {
                             // Validate no spaces
                             const value = e.target.value.replace(/\s/g, '');
-                            updatePatient(index, 'phone', value);
+                            handlePhoneChange(index, value);
                           }}
                           onBlur={() => handleFieldBlur(index, 'phone')}
                           placeholder={patient.countryCode && patient.countryCode !== 'OTHER' 
-                            ? require('@/utils/phoneUtils').getPhonePlaceholder(patient.countryCode)
+                            ? getPhonePlaceholder(patient.countryCode)
                             : '123456789'}
                           disabled={isLoading}
-                          maxLength={MAX_PHONE_DIGITS}
+                          maxLength={MAX_PHONE_DIGITS + 1} // allows a pasted leading '+'
                           inputMode="numeric"
                           pattern="[0-9]*"
                           autoComplete="tel"
@@ -582,7 +715,7 @@ export default function AddPatientModal() {
             {isLoading ? (
               <>
                 <i className="fas fa-spinner fa-spin"></i>
-                جاري الإضافة...
+                {isChecking ? 'جاري التحقق من التكرار...' : 'جاري الإضافة...'}
               </>
             ) : (
               <>
@@ -606,6 +739,7 @@ export default function AddPatientModal() {
           </button>
         </div>
       </form>
+      )}
     </Modal>
   );
 }
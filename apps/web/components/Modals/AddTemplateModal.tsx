@@ -9,7 +9,9 @@ import { useQueue } from '@/contexts/QueueContext';
 import { useConfirmDialog } from '@/contexts/ConfirmationContext';
 import { messageApiClient } from '@/services/api/messageApiClient';
 import { validateName, validateTemplateName, validateTextareaRequired, ValidationError } from '@/utils/validation';
-import { getConditionRange, conditionsOverlap } from '@/utils/moderatorAggregation';
+import { validateTemplate } from '@/utils/messageConditionValidation';
+import { getVariableOptions } from '@/utils/templatePlaceholders';
+import { conditionsOverlap } from '@/utils/conditionRules';
 import logger from '@/utils/logger';
 import type { MessageTemplate } from '@/types/messageTemplate';
 // Use QueueContext to perform API calls for templates
@@ -23,12 +25,15 @@ type AddTemplateModalData = {
   queueId?: string | number;
 };
 
+const EXTRA_VARIABLE_KEYS = ['OFFSET', 'DATE', 'TIME', 'APPT_TIME', 'LINK'] as const;
+
 export default function AddTemplateModal() {
   const { openModals, closeModal, getModalData } = useModal();
   const { addToast } = useUI();
   const { confirm } = useConfirmDialog();
   const {
     selectedQueueId,
+    queues,
     messageTemplates,
     messageConditions,
     refreshQueueData,
@@ -56,6 +61,10 @@ export default function AddTemplateModal() {
 
   const MAX_CONTENT_LENGTH = 1000;
 
+  // Insert buttons beyond the basic hard-coded ones, plus this queue's custom variables
+  const customVariables = queues.find((q) => String(q.id) === String(queueId))?.customVariables || {};
+  const extraVariables = getVariableOptions(EXTRA_VARIABLE_KEYS, customVariables);
+
   // Reset all state when modal opens to ensure clean state
   useEffect(() => {
     if (isOpen) {
@@ -229,6 +238,13 @@ export default function AddTemplateModal() {
       newErrors.content = 'المحتوى يجب أن يكون 10 أحرف على الأقل';
     }
 
+    const placeholderCheck = validateTemplate(content, Object.keys(customVariables));
+    if (!newErrors.content && placeholderCheck.syntaxErrors.length > 0) {
+      newErrors.content = placeholderCheck.syntaxErrors[0].message;
+    } else if (!newErrors.content && !placeholderCheck.valid) {
+      newErrors.content = `متغيرات غير معروفة: ${placeholderCheck.invalidPlaceholders.join('، ')}`;
+    }
+
     // Validate condition if operator is selected (but not DEFAULT)
     if (selectedOperator && selectedOperator !== 'DEFAULT') {
       if (selectedOperator === 'RANGE') {
@@ -302,11 +318,6 @@ export default function AddTemplateModal() {
           if (c.operator === 'UNCONDITIONED' || c.operator === 'DEFAULT') return false;
 
           // Check if conditions overlap
-          const newRange = getConditionRange(newCondition);
-          const existingRange = getConditionRange(c);
-
-          if (!newRange || !existingRange) return false;
-
           return conditionsOverlap(newCondition, c);
         })
         .map(c => {
@@ -645,7 +656,23 @@ export default function AddTemplateModal() {
               <br />
               <span className="text-sm font-medium text-gray-700">اسم العيادة</span>
             </button>
+            {extraVariables.map((variable) => (
+              <button
+                key={variable.code}
+                type="button"
+                onClick={() => insertVariable(variable.code)}
+                disabled={isLoading}
+                className="bg-white hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed border-2 border-blue-300 hover:border-blue-400 px-3 py-2 rounded-lg text-blue-700 font-mono text-sm text-left transition-all hover:shadow-md"
+              >
+                <span className="font-bold text-lg text-blue-600">{variable.code}</span>
+                <br />
+                <span className="text-sm font-medium text-gray-700">{variable.label}</span>
+              </button>
+            ))}
           </div>
+          <p className="text-xs text-blue-800 mt-2">
+            لقيمة بديلة عند غياب البيانات استخدم: <span className="font-mono" dir="ltr">{'{PN|عزيزي المريض}'}</span>
+          </p>
         </div>
 
         {/* Condition Application Section */}
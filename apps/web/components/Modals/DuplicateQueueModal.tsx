@@ -0,0 +1,308 @@
+'use client';
+
+import { useModal } from '@/contexts/ModalContext';
+import { useQueue } from '@/contexts/QueueContext';
+import { useUI } from '@/contexts/UIContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { validateName } from '@/utils/validation';
+import { getQueueQuotaError, suggestDuplicateName } from '@/utils/queueDuplication';
+import { useUserManagement } from '@/hooks/useUserManagement';
+import { queuesApiClient } from '@/services/api/queuesApiClient';
+import { messageApiClient, type QuotaDto } from '@/services/api/messageApiClient';
+import { UserRole } from '@/types/roles';
+import logger from '@/utils/logger';
+import Modal from './Modal';
+import { useState, useEffect, type FormEvent } from 'react';
+
+interface SourceSummary {
+  templateCount: number;
+  conditionCount: number;
+  hasDefault: boolean;
+  unconditionedCount: number;
+  patientCount: number;
+}
+
+type QuotaInfo = Pick<QuotaDto, 'queuesLimit' | 'queuesUsed' | 'queuesRemaining'>;
+
+export default function DuplicateQueueModal() {
+  const { openModals, closeModal, getModalData } = useModal();
+  const { queues, refreshQueues } = useQueue();
+  const { addToast } = useUI();
+  const { user: currentUser } = useAuth();
+  const [userManagementState, { fetchModerators }] = useUserManagement();
+
+  const [doctorName, setDoctorName] = useState('');
+  const [moderatorId, setModeratorId] = useState('');
+  const [includePatients, setIncludePatients] = useState(false);
+  const [nameError, setNameError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<SourceSummary | null>(null);
+  const [quota, setQuota] = useState<QuotaInfo | null>(null);
+  const [isLoadingQuota, setIsLoadingQuota] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const isOpen = openModals.has('duplicateQueue');
+  const sourceQueueId = getModalData('duplicateQueue')?.queueId as string | undefined;
+  const sourceQueue = queues.find((q) => String(q.id) === String(sourceQueueId));
+  const isAdmin = currentUser?.role === UserRole.PrimaryAdmin || currentUser?.role === UserRole.SecondaryAdmin;
+
+  // Reset the form and load what will be copied when the modal opens
+  useEffect(() => {
+    if (!isOpen || !sourceQueue) return;
+
+    setDoctorName(suggestDuplicateName(sourceQueue.doctorName, queues.map((q) => q.doctorName)));
+    setModeratorId(String(sourceQueue.moderatorId));
+    setIncludePatients(false);
+    setNameError(null);
+    setSummary(null);
+    if (isAdmin) fetchModerators();
+
+    const loadSummary = async () => {
+      try {
+        const queueIdNum = Number(sourceQueue.id);
+        const [templates, conditions, patients] = await Promise.all([
+          messageApiClient.getTemplates(queueIdNum),
+          messageApiClient.getConditions(queueIdNum),
+          queuesApiClient.getQueuePatients(queueIdNum),
+        ]);
+        setSummary({
+          templateCount: templates.items.filter((t) => !t.isDeleted).length,
+          conditionCount: conditions.items.length,
+          hasDefault: conditions.items.some((c) => c.operator === 'DEFAULT'),
+          unconditionedCount: conditions.items.filter((c) => c.operator === 'UNCONDITIONED').length,
+          patientCount: patients.totalCount ?? patients.items.length,
+        });
+      } catch (error) {
+        logger.error('Failed to load queue configuration for duplication:', error);
+      }
+    };
+
+    loadSummary();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, sourceQueue?.id]);
+
+  // Validate the target moderator's queue quota before allowing the copy
+  useEffect(() => {
+    if (!isOpen || !moderatorId) return;
+
+    const loadQuota = async () => {
+      setIsLoadingQuota(true);
+      try {
+        const targetIsSelf = currentUser?.role === UserRole.Moderator && String(currentUser.id) === moderatorId;
+        const result = targetIsSelf
+          ? await messageApiClient.getMyQuota()
+          : await messageApiClient.getQuota(Number(moderatorId));
+        setQuota(result);
+      } catch (error) {
+        logger.error('Failed to load moderator quota:', error);
+        setQuota(null);
+      } finally {
+        setIsLoadingQuota(false);
+      }
+    };
+
+    loadQuota();
+  }, [isOpen, moderatorId, currentUser?.id, currentUser?.role]);
+
+  const quotaError = quota ? getQueueQuotaError(quota) : null;
+
+  const handleClose = () => {
+    closeModal('duplicateQueue');
+    setQuota(null);
+    setSummary(null);
+  };
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!sourceQueue) return;
+
+    const error = validateName(doctorName, 'اسم العيادة');
+    if (error) {
+      setNameError(error);
+      return;
+    }
+    if (quotaError) {
+      addToast(quotaError, 'error');
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      const result = await queuesApiClient.duplicateQueue(Number(sourceQueue.id), {
+        doctorName: doctorName.trim(),
+        moderatorId: Number(moderatorId),
+        includePatients,
+      });
+
+      addToast(
+        `تم نسخ العيادة: ${result.templatesCopied} قالب، ${result.conditionsCopied} شرط` +
+          (includePatients ? `، ${result.patientsCopied} مريض` : ''),
+        'success'
+      );
+
+      await refreshQueues();
+      handleClose();
+      window.dispatchEvent(new CustomEvent('queueDataUpdated'));
+    } catch (error: unknown) {
+      const typedError = error as { message?: string } | undefined;
+      const errorMessage = queuesApiClient.formatApiError(typedError) || 'حدث خطأ غير معروف';
+      logger.error('Failed to duplicate queue:', errorMessage);
+      addToast(`فشل نسخ العيادة: ${errorMessage}`, 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!isOpen || !sourceQueue) return null;
+
+  const moderators = userManagementState.moderators;
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title={`نسخ العيادة: ${sourceQueue.doctorName}`} size="lg">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {/* What will be copied */}
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 text-sm">
+          <p className="font-semibold text-gray-800 mb-2">سيتم نسخ:</p>
+          <ul className="space-y-1 text-gray-700">
+            <li>
+              <i className="fas fa-clock text-gray-400 ml-2"></i>
+              الوقت المقدر لكل مريض: {sourceQueue.estimatedWaitMinutes ?? 15} دقيقة
+            </li>
+            {summary ? (
+              <>
+                <li>
+                  <i className="fas fa-envelope text-gray-400 ml-2"></i>
+                  {summary.templateCount} قالب رسالة و {summary.conditionCount} شرط
+                </li>
+                <li>
+                  <i className="fas fa-star text-gray-400 ml-2"></i>
+                  {summary.hasDefault ? 'القالب الافتراضي' : 'لا يوجد قالب افتراضي'}
+                  {summary.unconditionedCount > 0 && ` - ${summary.unconditionedCount} قالب بدون شرط`}
+                </li>
+              </>
+            ) : (
+              <li className="text-gray-500">
+                <i className="fas fa-spinner fa-spin ml-2"></i>
+                جاري تحميل القوالب والشروط...
+              </li>
+            )}
+            {sourceQueue.customVariables && Object.keys(sourceQueue.customVariables).length > 0 && (
+              <li>
+                <i className="fas fa-code text-gray-400 ml-2"></i>
+                {Object.keys(sourceQueue.customVariables).length} متغير مخصص
+              </li>
+            )}
+          </ul>
+        </div>
+
+        {/* New queue name */}
+        <div>
+          <label htmlFor="duplicateQueue-doctorName" className="block text-sm font-medium text-gray-700 mb-2">
+            اسم العيادة الجديدة *
+          </label>
+          <input
+            id="duplicateQueue-doctorName"
+            type="text"
+            value={doctorName}
+            onChange={(e) => {
+              setDoctorName(e.target.value);
+              if (nameError) setNameError(validateName(e.target.value, 'اسم العيادة'));
+            }}
+            onBlur={() => setNameError(validateName(doctorName, 'اسم العيادة'))}
+            disabled={isLoading}
+            className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:border-transparent transition-all ${
+              nameError ? 'border-red-500 focus:ring-red-500' : 'border-gray-300 focus:ring-blue-500'
+            }`}
+          />
+          {nameError && (
+            <p className="mt-1 text-sm text-red-600 flex items-center gap-1">
+              <i className="fas fa-exclamation-circle"></i>
+              {nameError}
+            </p>
+          )}
+        </div>
+
+        {/* Target moderator (admins only) */}
+        {isAdmin && (
+          <div>
+            <label htmlFor="duplicateQueue-moderator" className="block text-sm font-medium text-gray-700 mb-2">
+              المشرف
+            </label>
+            <select
+              id="duplicateQueue-moderator"
+              value={moderatorId}
+              onChange={(e) => setModeratorId(e.target.value)}
+              disabled={isLoading}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {!moderators.some((m) => String(m.id) === moderatorId) && <option value={moderatorId}>المشرف الحالي</option>}
+              {moderators.map((moderator) => (
+                <option key={moderator.id} value={String(moderator.id)}>
+                  {`${moderator.firstName} ${moderator.lastName ?? ''}`.trim()} (@{moderator.username})
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {/* Quota */}
+        {isLoadingQuota ? (
+          <p className="text-sm text-gray-500">
+            <i className="fas fa-spinner fa-spin ml-2"></i>
+            جاري التحقق من حصة العيادات...
+          </p>
+        ) : quotaError ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-800 flex items-center gap-2">
+            <i className="fas fa-exclamation-triangle"></i>
+            {quotaError}
+          </div>
+        ) : (
+          quota && (
+            <p className="text-sm text-gray-600">
+              العيادات المتبقية للمشرف: {quota.queuesLimit === -1 ? 'غير محدود' : quota.queuesRemaining}
+            </p>
+          )
+        )}
+
+        {/* Patients */}
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={includePatients}
+            onChange={(e) => setIncludePatients(e.target.checked)}
+            disabled={isLoading}
+          />
+          نسخ قائمة المرضى أيضاً{summary ? ` (${summary.patientCount} مريض)` : ''}
+        </label>
+
+        {/* Buttons */}
+        <div className="flex gap-3 pt-4 border-t">
+          <button
+            type="submit"
+            disabled={isLoading || isLoadingQuota || !!quotaError || !!nameError || !doctorName.trim()}
+            className="flex-1 py-2 rounded-lg transition-all flex items-center justify-center gap-2 bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isLoading ? (
+              <>
+                <i className="fas fa-spinner fa-spin"></i>
+                جاري النسخ...
+              </>
+            ) : (
+              <>
+                <i className="fas fa-clone"></i>
+                نسخ العيادة
+              </>
+            )}
+          </button>
+          <button
+            type="button"
+            onClick={handleClose}
+            disabled={isLoading}
+            className="flex-1 bg-gray-300 text-gray-700 py-2 rounded-lg hover:bg-gray-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            إلغاء
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -4,11 +4,15 @@ import React, { useState, useEffect, useRef } from 'react';
 import { useModal } from '@/contexts/ModalContext';
 import { useUI } from '@/contexts/UIContext';
 import { COUNTRY_CODES } from '@/constants';
-import { validateCountryCode, validateName, validatePhone, ValidationError, MAX_PHONE_DIGITS } from '@/utils/validation';
+import { validateCountryCode, validateName, ValidationError, MAX_PHONE_DIGITS } from '@/utils/validation';
+import { getPhoneKey, getPhonePlaceholder, normalizePhone, validatePhoneByCountry } from '@/utils/phoneUtils';
 import Modal from './Modal';
 import CountryCodeSelector from '@/components/Common/CountryCodeSelector';
 import { getEffectiveCountryCode } from '@/utils/core.utils';
 import { patientsApiClient } from '@/services/api/patientsApiClient';
+import { doNotContactApiClient } from '@/services/api/doNotContactApiClient';
+import { useDoNotContactList } from '@/hooks/useDoNotContactList';
+import { DO_NOT_CONTACT_REASON } from '@/utils/doNotContact';
 import { useQueue } from '@/contexts/QueueContext';
 import logger from '@/utils/logger';
 import { useFormKeyboardNavigation } from '@/hooks/useFormKeyboardNavigation';
@@ -36,6 +40,11 @@ export default function EditPatientModal() {
   const isOpen = openModals.has('editPatient');
   const [freshPatientData, setFreshPatientData] = useState<any>(null);
   const formRef = useRef<HTMLFormElement>(null);
+
+  // Do-not-contact list of the queue's moderator
+  const queueModeratorId = queues.find((q) => String(q.id) === String(data?.patient?.queueId))?.moderatorId;
+  const { entries: doNotContactEntries } = useDoNotContactList(queueModeratorId, isOpen);
+  const [doNotContact, setDoNotContact] = useState(false);
   
   // Fetch fresh patient data when modal opens
   useEffect(() => {
@@ -51,22 +60,11 @@ export default function EditPatientModal() {
             const patientId = freshPatientDto.id;
             // Ensure id is a valid number before converting to string
             if (patientId !== undefined && patientId !== null && !isNaN(Number(patientId))) {
-              // Parse phone number from E.164 format if needed
+              // Stored numbers may be national or E.164; edit the national number
               const phoneNumber = freshPatientDto.phoneNumber || '';
-              const countryCode = freshPatientDto.countryCode || '+20';
-              
-              // Extract phone number without country code if it's in E.164 format
-              let phone = phoneNumber;
-              if (phoneNumber.startsWith('+')) {
-                const countryCodeDigits = countryCode.replace(/[^\d]/g, '');
-                if (phoneNumber.startsWith(`+${countryCodeDigits}`)) {
-                  phone = phoneNumber.substring(countryCodeDigits.length + 1);
-                  // Remove leading zero for countries that require it
-                  if (countryCodeDigits === '20' && phone.startsWith('0')) {
-                    phone = phone.substring(1);
-                  }
-                }
-              }
+              const normalized = normalizePhone(phoneNumber, freshPatientDto.countryCode || '+20').phone;
+              const countryCode = normalized?.countryCode ?? (freshPatientDto.countryCode || '+20');
+              const phone = normalized?.nationalNumber ?? phoneNumber;
               
             // Convert backend DTO to frontend format
             const freshPatient = {
@@ -126,6 +124,15 @@ export default function EditPatientModal() {
     }
   }, [isOpen, freshPatient?.id, freshPatient?.name, freshPatient?.phone, freshPatient?.countryCode]); // Depend on patient ID and key fields to re-init when data updates
 
+  // List entry of the patient's saved number, if the patient opted out
+  const doNotContactEntry = freshPatient?.phone
+    ? doNotContactEntries.find((e) => e.phoneNumber === getPhoneKey(freshPatient.phone, freshPatient.countryCode ?? '+20'))
+    : undefined;
+
+  useEffect(() => {
+    if (isOpen) setDoNotContact(!!doNotContactEntry);
+  }, [isOpen, doNotContactEntry]);
+
   const validateFields = () => {
     const newErrors: ValidationError = {};
     
@@ -142,8 +149,9 @@ export default function EditPatientModal() {
       }
     }
     
-    if (phone !== initialValues.phone) {
-      const phoneError = validatePhone(phone);
+    // Re-check the number when the country changes too, since validity depends on the numbering plan
+    if (phone !== initialValues.phone || countryCode !== (data?.patient?.countryCode ?? '+20') || customCountryCode) {
+      const phoneError = validatePhoneByCountry(phone, getEffectiveCountryCode(countryCode, customCountryCode));
       if (phoneError) newErrors.phone = phoneError;
     }
     
@@ -159,7 +167,17 @@ export default function EditPatientModal() {
   const handleFieldChange = (field: string, value: string) => {
     if (field === 'name') setName(value);
     if (field === 'username') setUsername(value);
-    if (field === 'phone') setPhone(value);
+    if (field === 'phone') {
+      // A pasted international number ("+966 50...", "00966...") selects its country and keeps the national number
+      const detected = /^(\+|00)/.test(value) ? normalizePhone(value).phone : null;
+      if (detected) {
+        setCountryCode(detected.countryCode);
+        setCustomCountryCode('');
+        setPhone(detected.nationalNumber);
+      } else {
+        setPhone(value);
+      }
+    }
     if (field === 'customCountryCode') setCustomCountryCode(value);
     setTouched(true);
     
@@ -217,8 +235,10 @@ export default function EditPatientModal() {
       updatePayload.countryCode = effectiveCountryCode;
     }
 
+    const doNotContactChanged = doNotContact !== !!doNotContactEntry;
+
     // Check if any data was changed
-    if (Object.keys(updatePayload).length === 0) {
+    if (Object.keys(updatePayload).length === 0 && !doNotContactChanged) {
       addToast('لم يتم تغيير أي بيانات', 'info');
       closeModal('editPatient');
       return;
@@ -240,15 +260,31 @@ export default function EditPatientModal() {
       if (updatePayload.phone || updatePayload.countryCode) {
         const effectiveCode = getEffectiveCountryCode(countryCode, customCountryCode);
         const phoneRaw = updatePayload.phone || data?.patient?.phone || '';
-        apiPayload.phoneNumber = phoneRaw.trim(); // Store phone number as-is, no normalization
+        const normalized = normalizePhone(phoneRaw, effectiveCode).phone;
+        apiPayload.phoneNumber = normalized?.nationalNumber ?? phoneRaw.trim();
         // Send countryCode explicitly (backend will extract it if not provided, but better to send it)
-        apiPayload.countryCode = effectiveCode;
+        apiPayload.countryCode = normalized?.countryCode ?? effectiveCode;
       }
 
-      // Log the payload for debugging
-      logger.debug('Updating patient:', { patientId: patientIdNum, payload: apiPayload });
+      if (Object.keys(apiPayload).length > 0) {
+        // Log the payload for debugging
+        logger.debug('Updating patient:', { patientId: patientIdNum, payload: apiPayload });
 
-      await patientsApiClient.updatePatient(patientIdNum, apiPayload);
+        await patientsApiClient.updatePatient(patientIdNum, apiPayload);
+      }
+
+      if (doNotContactChanged) {
+        if (doNotContact) {
+          await doNotContactApiClient.addDoNotContact({
+            phoneNumber: getPhoneKey(phone, getEffectiveCountryCode(countryCode, customCountryCode)),
+            patientName: name.trim() || undefined,
+            reason: DO_NOT_CONTACT_REASON,
+            moderatorId: queueModeratorId && !isNaN(Number(queueModeratorId)) ? Number(queueModeratorId) : undefined,
+          });
+        } else if (doNotContactEntry) {
+          await doNotContactApiClient.removeDoNotContact(doNotContactEntry.id);
+        }
+      }
 
       addToast('تم تحديث بيانات المريض بنجاح', 'success');
       
@@ -418,10 +454,10 @@ export default function EditPatientModal() {
               }}
               onBlur={handleFieldBlur}
               placeholder={countryCode && countryCode !== 'OTHER' 
-                ? require('@/utils/phoneUtils').getPhonePlaceholder(countryCode)
+                ? getPhonePlaceholder(countryCode)
                 : '123456789'}
               disabled={isLoading}
-              maxLength={MAX_PHONE_DIGITS}
+              maxLength={MAX_PHONE_DIGITS + 1} // allows a pasted leading '+'
               inputMode="numeric"
               pattern="[0-9]*"
               autoComplete="tel"
@@ -450,6 +486,26 @@ export default function EditPatientModal() {
           )}
         </div>
 
+        {/* Do-Not-Contact */}
+        <label htmlFor="editPatient-doNotContact" className={`flex items-start gap-2 p-3 rounded-lg border cursor-pointer ${doNotContact ? 'bg-gray-100 border-gray-400' : 'border-gray-200'}`}>
+          <input
+            id="editPatient-doNotContact"
+            name="doNotContact"
+            type="checkbox"
+            checked={doNotContact}
+            onChange={(e) => {
+              setDoNotContact(e.target.checked);
+              setTouched(true);
+            }}
+            disabled={isLoading}
+            className="mt-1"
+          />
+          <span>
+            <span className="block text-sm font-medium text-gray-800">عدم التواصل</span>
+            <span className="block text-xs text-gray-600">طلب المريض عدم استقبال رسائل واتساب - يُستثنى هذا الرقم تلقائياً من الإرسال في جميع الطوابير</span>
+          </span>
+        </label>
+
         {/* OTHER Country Code Disclaimer */}
         {countryCode === 'OTHER' && (
           <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
@@ -5,6 +5,7 @@ import { useModal } from '@/contexts/ModalContext';
 import { useUI } from '@/contexts/UIContext';
 import { useQueue } from '@/contexts/QueueContext';
 import { validateName, ValidationError } from '@/utils/validation';
+import { validateCustomVariableKey } from '@/utils/templatePlaceholders';
 import { queuesApiClient, type QueueDto } from '@/services/api/queuesApiClient';
 import { queueDtoToModel } from '@/services/api/adapters';
 import Modal from './Modal';
@@ -20,6 +21,7 @@ export default function EditQueueModal() {
   const [isLoading, setIsLoading] = useState(false);
   const [touched, setTouched] = useState(false);
   const [freshQueueData, setFreshQueueData] = useState<any>(null);
+  const [customVariables, setCustomVariables] = useState<Array<{ key: string; value: string }>>([]);
   const formRef = useRef<HTMLFormElement>(null);
 
   const isOpen = openModals.has('editQueue');
@@ -67,10 +69,36 @@ export default function EditQueueModal() {
     
     if (freshQueue?.doctorName) {
       setDoctorName(freshQueue.doctorName);
+      setCustomVariables(
+        Object.entries((freshQueue.customVariables || {}) as Record<string, string>).map(([key, value]) => ({ key, value }))
+      );
       setErrors({});
       setTouched(false);
     }
-  }, [isOpen, freshQueue?.id, freshQueue?.doctorName]); // Depend on queue ID and doctorName to re-init when data updates
+  }, [isOpen, freshQueue?.id, freshQueue?.doctorName, freshQueue?.customVariables]); // Depend on queue ID and doctorName to re-init when data updates
+
+  /**
+   * Validate custom variable keys (uppercase, unique, not a built-in placeholder)
+   * @returns first error message, or null if all are valid
+   */
+  const validateCustomVariables = (): string | null => {
+    const seen: string[] = [];
+    for (const { key } of customVariables) {
+      const keyError = validateCustomVariableKey(key.trim(), seen);
+      if (keyError) return keyError;
+      seen.push(key.trim());
+    }
+    return null;
+  };
+
+  const updateCustomVariable = (index: number, field: 'key' | 'value', value: string) => {
+    setCustomVariables((prev) => prev.map((item, i) =>
+      i === index ? { ...item, [field]: field === 'key' ? value.toUpperCase() : value } : item
+    ));
+    if (errors.customVariables) {
+      setErrors((prev) => ({ ...prev, customVariables: '' }));
+    }
+  };
 
   const validateField = (value: string) => {
     const error = validateName(value, 'اسم العيادة');
@@ -112,17 +140,28 @@ export default function EditQueueModal() {
       return;
     }
 
+    const variablesError = validateCustomVariables();
+    if (variablesError) {
+      setErrors({ customVariables: variablesError });
+      return;
+    }
+
+    const customVariablesMap = Object.fromEntries(
+      customVariables.map(({ key, value }) => [key.trim(), value.trim()])
+    );
+
     try {
       setIsLoading(true);
       
       // Make API call to update queue
       await queuesApiClient.updateQueue(queue.id, {
         doctorName: doctorName.trim(),
+        customVariables: customVariablesMap,
       });
 
       // Update local context state for backward-compatibility with existing consumers/tests
       if (queue?.id) {
-        updateQueue(String(queue.id), { doctorName: doctorName.trim() });
+        updateQueue(String(queue.id), { doctorName: doctorName.trim(), customVariables: customVariablesMap });
       }
 
       addToast('تم تحديث اسم العيادة بنجاح', 'success');
@@ -221,6 +260,67 @@ export default function EditQueueModal() {
           )}
         </div>
 
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <label className="block text-sm font-medium text-gray-700">متغيرات مخصصة للرسائل</label>
+            <button
+              type="button"
+              onClick={() => setCustomVariables((prev) => [...prev, { key: '', value: '' }])}
+              disabled={isLoading}
+              className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+            >
+              <i className="fas fa-plus ml-1"></i>
+              إضافة متغير
+            </button>
+          </div>
+          {customVariables.length === 0 ? (
+            <p className="text-xs text-gray-500">
+              مثال: ROOM = 12 ثم استخدم <span className="font-mono" dir="ltr">{'{ROOM}'}</span> في القوالب
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {customVariables.map((variable, index) => (
+                <div key={index} className="flex gap-2 items-center">
+                  <input
+                    type="text"
+                    value={variable.key}
+                    onChange={(e) => updateCustomVariable(index, 'key', e.target.value)}
+                    placeholder="ROOM"
+                    aria-label="اسم المتغير"
+                    disabled={isLoading}
+                    dir="ltr"
+                    className="w-32 px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <input
+                    type="text"
+                    value={variable.value}
+                    onChange={(e) => updateCustomVariable(index, 'value', e.target.value)}
+                    placeholder="القيمة"
+                    aria-label="قيمة المتغير"
+                    disabled={isLoading}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setCustomVariables((prev) => prev.filter((_, i) => i !== index))}
+                    disabled={isLoading}
+                    className="text-red-600 hover:text-red-800 px-2 disabled:opacity-50"
+                    title="حذف"
+                  >
+                    <i className="fas fa-trash"></i>
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          {errors.customVariables && (
+            <p className="mt-1 text-sm text-red-600 flex items-center gap-1">
+              <i className="fas fa-exclamation-circle"></i>
+              {errors.customVariables}
+            </p>
+          )}
+        </div>
+
         <div className="flex gap-3 pt-4 border-t">
           <button
             type="submit"
@@ -8,23 +8,27 @@ import { useUI } from '@/contexts/UIContext';
 import { useQueue } from '@/contexts/QueueContext';
 import { useConfirmDialog } from '@/contexts/ConfirmationContext';
 import { validateName, validateTemplateName, validateTextareaRequired, ValidationError } from '@/utils/validation';
-import { getConditionRange, conditionsOverlap } from '@/utils/moderatorAggregation';
-import { detectOverlappingConditions } from '@/utils/conditionConflictDetector';
+import { validateTemplate } from '@/utils/messageConditionValidation';
+import { getVariableOptions } from '@/utils/templatePlaceholders';
+import { conditionsOverlap } from '@/utils/conditionRules';
 import { messageApiClient, type TemplateDto } from '@/services/api/messageApiClient';
 import { templateDtoToModel, conditionDtoToModel } from '@/services/api/adapters';
 import logger from '@/utils/logger';
 import Modal from './Modal';
 import { useFormKeyboardNavigation } from '@/hooks/useFormKeyboardNavigation';
 import ConfirmationModal from '@/components/Common/ConfirmationModal';
+import TemplateHistoryDrawer from '@/components/Common/TemplateHistoryDrawer';
 import { useState, useEffect, useMemo, useRef, type FormEvent } from 'react';
 import type { MessageTemplate } from '@/types/messageTemplate';
 import type { ConditionOperator } from '@/types/messageCondition';
 
+const EXTRA_VARIABLE_KEYS = ['OFFSET', 'DATE', 'TIME', 'APPT_TIME', 'LINK'] as const;
+
 export default function EditTemplateModal() {
   const { openModals, closeModal, getModalData } = useModal();
   const { addToast } = useUI();
   const { confirm } = useConfirmDialog();
-  const { updateMessageTemplate, messageTemplates, addMessageCondition, updateMessageCondition, messageConditions, setMessageConditions, setMessageTemplates, refreshQueueData } = useQueue();
+  const { queues, updateMessageTemplate, messageTemplates, addMessageCondition, updateMessageCondition, messageConditions, setMessageConditions, setMessageTemplates, refreshQueueData } = useQueue();
   const [title, setTitle] = useState('');
   const [content, setContent] = useState('');
   const [errors, setErrors] = useState<ValidationError>({});
@@ -33,6 +37,7 @@ export default function EditTemplateModal() {
   const [showDefaultWarning, setShowDefaultWarning] = useState(false);
   const [existingDefaultTemplate, setExistingDefaultTemplate] = useState<MessageTemplate | null>(null);
   const [hasConfirmedDefaultOverride, setHasConfirmedDefaultOverride] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
 
   // Condition choice states - for building actual condition data
   const [selectedOperator, setSelectedOperator] = useState<'EQUAL' | 'GREATER' | 'LESS' | 'RANGE' | 'DEFAULT' | null>(null);
@@ -49,10 +54,15 @@ export default function EditTemplateModal() {
   const templateId = modalData?.templateId as string | undefined;
 
   const MAX_CONTENT_LENGTH = 1000;
+
+  // Insert buttons beyond the basic hard-coded ones, plus this queue's custom variables
+  const customVariables = queues.find((q) => String(q.id) === String(currentTemplate?.queueId))?.customVariables || {};
+  const extraVariables = getVariableOptions(EXTRA_VARIABLE_KEYS, customVariables);
   const [freshTemplateData, setFreshTemplateData] = useState<MessageTemplate | null>(null);
 
   // Fetch fresh template data when modal opens
   useEffect(() => {
+    if (!isOpen) setShowHistory(false);
     if (!isOpen || !templateId) return;
 
     const fetchFreshTemplateData = async () => {
@@ -314,6 +324,13 @@ export default function EditTemplateModal() {
       newErrors.content = contentError;
     }
 
+    const placeholderCheck = validateTemplate(content, Object.keys(customVariables));
+    if (!newErrors.content && placeholderCheck.syntaxErrors.length > 0) {
+      newErrors.content = placeholderCheck.syntaxErrors[0].message;
+    } else if (!newErrors.content && !placeholderCheck.valid) {
+      newErrors.content = `متغيرات غير معروفة: ${placeholderCheck.invalidPlaceholders.join('، ')}`;
+    }
+
     // Validate condition if operator is selected (but not DEFAULT or null)
     if (selectedOperator && selectedOperator !== 'DEFAULT') {
       if (selectedOperator === 'RANGE') {
@@ -383,6 +400,9 @@ export default function EditTemplateModal() {
         value: normalizedValue,
         minValue: normalizedMinValue,
         maxValue: normalizedMaxValue,
+        // Criteria are kept on update, so they still narrow the edited condition
+        criteria: templateCondition?.criteria,
+        criteriaLogic: templateCondition?.criteriaLogic,
       };
 
       // Find conflicting conditions in the same queue (excluding the current condition being edited)
@@ -627,6 +647,47 @@ export default function EditTemplateModal() {
     }
   };
 
+  // A restored version (or a dropped library override) becomes the current template:
+  // reload the form from it and refresh the queue
+  const handleTemplateReplaced = async (replacedDto: TemplateDto) => {
+    setShowHistory(false);
+    setFreshTemplateData(templateDtoToModel(replacedDto));
+
+    const queueIdForEvent = currentTemplate?.queueId;
+    if (typeof refreshQueueData === 'function' && queueIdForEvent) {
+      try {
+        await refreshQueueData(String(queueIdForEvent));
+      } catch (refreshError) {
+        logger.error('Failed to refresh queue data after version restore:', refreshError);
+      }
+    }
+    window.dispatchEvent(new CustomEvent('templateDataUpdated', { detail: { queueId: queueIdForEvent } }));
+    window.dispatchEvent(new CustomEvent('conditionDataUpdated', { detail: { queueId: queueIdForEvent } }));
+  };
+
+  const handleResetLibraryOverride = async () => {
+    if (!templateId) return;
+    const confirmed = await confirm({
+      title: 'العودة لنص المكتبة',
+      message: 'سيتم استبدال التعديلات الخاصة بهذا الطابور بنص قالب المكتبة، وسيتبع القالب تعديلات المكتبة مجدداً. هل تريد المتابعة؟',
+      confirmText: 'نعم، عُد لنص المكتبة',
+      cancelText: 'إلغاء',
+    });
+    if (!confirmed) return;
+
+    try {
+      setIsLoading(true);
+      const resetDto = await messageApiClient.resetTemplateOverride(Number(templateId));
+      await handleTemplateReplaced(resetDto);
+      addToast('عاد القالب لنص المكتبة', 'success');
+    } catch (error) {
+      logger.error('Failed to reset library override:', error);
+      addToast(messageApiClient.formatApiError(error) || 'فشل إلغاء التخصيص', 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   // Setup keyboard navigation (after handleSubmit is defined)
   useFormKeyboardNavigation({
     formRef,
@@ -674,6 +735,44 @@ export default function EditTemplateModal() {
           </p>
         </div>
 
+        {/* Library link */}
+        {currentTemplate?.libraryTemplateId && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 text-sm text-blue-800 flex items-center justify-between gap-3">
+            <p className="flex items-center gap-2">
+              <i className="fas fa-link"></i>
+              {currentTemplate.isLibraryOverride
+                ? 'هذا القالب مرتبط بالمكتبة لكنه مخصص لهذا الطابور - تعديلات المكتبة لا تنعكس عليه'
+                : 'هذا القالب مرتبط بالمكتبة - حفظ التعديلات هنا يخصصه لهذا الطابور فقط'}
+            </p>
+            {currentTemplate.isLibraryOverride && (
+              <button
+                type="button"
+                onClick={handleResetLibraryOverride}
+                disabled={isLoading}
+                className="px-3 py-1 text-xs bg-white border border-blue-300 rounded-lg hover:bg-blue-100 transition whitespace-nowrap disabled:opacity-50"
+              >
+                العودة لنص المكتبة
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Version history */}
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-gray-600">
+            {currentTemplate?.versionNumber ? `الإصدار الحالي: ${currentTemplate.versionNumber}` : ''}
+          </span>
+          <button
+            type="button"
+            onClick={() => setShowHistory(true)}
+            disabled={isLoading || !templateId}
+            className="px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+          >
+            <i className="fas fa-history"></i>
+            سجل الإصدارات
+          </button>
+        </div>
+
         <div>
           <label htmlFor="editTemplate-title" className="block text-sm font-medium text-gray-700 mb-2">
             عنوان القالب *
@@ -802,7 +901,23 @@ export default function EditTemplateModal() {
               <br />
               <span className="text-sm font-medium text-gray-700">اسم العيادة</span>
             </button>
+            {extraVariables.map((variable) => (
+              <button
+                key={variable.code}
+                type="button"
+                onClick={() => insertVariable(variable.code)}
+                disabled={isLoading}
+                className="bg-white hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed border-2 border-blue-300 hover:border-blue-400 px-3 py-2 rounded-lg text-blue-700 font-mono text-sm text-left transition-all hover:shadow-md"
+              >
+                <span className="font-bold text-lg text-blue-600">{variable.code}</span>
+                <br />
+                <span className="text-sm font-medium text-gray-700">{variable.label}</span>
+              </button>
+            ))}
           </div>
+          <p className="text-xs text-blue-800 mt-2">
+            لقيمة بديلة عند غياب البيانات استخدم: <span className="font-mono" dir="ltr">{'{PN|عزيزي المريض}'}</span>
+          </p>
         </div>
 
 
@@ -933,6 +1048,15 @@ export default function EditTemplateModal() {
           }
         }}
       />
+
+      {templateId && (
+        <TemplateHistoryDrawer
+          isOpen={showHistory}
+          templateId={templateId}
+          onClose={() => setShowHistory(false)}
+          onRestored={handleTemplateReplaced}
+        />
+      )}
     </Modal>
   );
 }
@@ -16,7 +16,9 @@
  * - Set template as default: updates condition.operator = 'DEFAULT'
  * - Convert to unconditioned: updates condition.operator = 'UNCONDITIONED'
  * - Edit active conditions (EQUAL, GREATER, LESS, RANGE)
- * - Detect overlaps between active conditions (ignores sentinel operators)
+ * - Optional extra criteria per active condition (time window, day, patient status, country, already messaged)
+ * - Detect overlaps between active conditions (ignores sentinel operators and mutually exclusive criteria)
+ * - Coverage ruler: drag to resize ranges, split overlaps, fill gaps with the DEFAULT template
  */
 
 'use client';
@@ -32,7 +34,20 @@ import { ValidationError } from '@/utils/validation';
 import { ConditionApplicationSection } from '../Common/ConditionApplicationSection';
 import UsageGuideSection from '../Common/UsageGuideSection';
 import { ConflictWarning } from '../Common/ConflictBadge';
-import { detectOverlappingConditions, conditionsOverlap } from '@/utils/conditionConflictDetector';
+import { ConditionCriteriaSection } from '../Common/ConditionCriteriaSection';
+import { ConditionCoverageMap } from '../Common/ConditionCoverageMap';
+import { detectOverlappingConditions, conditionsOverlap } from '@/utils/conditionRules';
+import { describeCriteria, validateCriteria } from '@/utils/conditionCriteria';
+import {
+  buildCoverageMap,
+  formatOffsetRange,
+  getGapSegments,
+  planFillGapsWithDefault,
+  planResize,
+  planSplitOverlap,
+  type ConditionUpdate,
+  type OffsetRange,
+} from '@/utils/conditionCoverage';
 
 import type { MessageCondition } from '@/types/messageCondition';
 import type { MessageTemplate } from '@/types/messageTemplate';
@@ -110,11 +125,13 @@ function getConditionDisplayText(condition: MessageCondition | undefined): strin
   };
 
   const label = operatorLabels[condition.operator] || condition.operator;
+  const criteriaText = describeCriteria(condition);
+  const suffix = criteriaText ? ` | ${criteriaText}` : '';
 
   if (condition.operator === 'RANGE') {
-    return `${label}: ${condition.minValue} - ${condition.maxValue}`;
+    return `${label}: ${condition.minValue} - ${condition.maxValue}${suffix}`;
   }
-  return `${label}: ${condition.value}`;
+  return `${label}: ${condition.value}${suffix}`;
 }
 
 
@@ -164,6 +181,8 @@ export default function ManageConditionsModal() {
     value: undefined,
     minValue: undefined,
     maxValue: undefined,
+    criteria: undefined,
+    criteriaLogic: 'AND',
   });
 
   const validateFormData = useCallback((): ValidationError => {
@@ -191,6 +210,11 @@ export default function ManageConditionsModal() {
       }
     }
 
+    const criteriaErrors = validateCriteria(formData.criteria);
+    if (criteriaErrors.length > 0) {
+      errors.criteria = criteriaErrors[0];
+    }
+
     return errors;
   }, [formData]);
 
@@ -204,6 +228,8 @@ export default function ManageConditionsModal() {
         value: condition.value,
         minValue: condition.minValue,
         maxValue: condition.maxValue,
+        criteria: condition.criteria,
+        criteriaLogic: condition.criteriaLogic || 'AND',
       });
       setFormErrors({});
     } else {
@@ -214,6 +240,8 @@ export default function ManageConditionsModal() {
         value: undefined,
         minValue: undefined,
         maxValue: undefined,
+        criteria: undefined,
+        criteriaLogic: 'AND',
       });
       setFormErrors({});
     }
@@ -250,6 +278,8 @@ export default function ManageConditionsModal() {
         value: formData.value,
         minValue: formData.minValue,
         maxValue: formData.maxValue,
+        criteria: formData.criteria,
+        criteriaLogic: formData.criteriaLogic,
       };
 
       // Find conflicting conditions in the same queue (excluding the current condition being edited)
@@ -266,7 +296,7 @@ export default function ManageConditionsModal() {
           if (c.operator === 'UNCONDITIONED' || c.operator === 'DEFAULT') return false;
 
           // Check if conditions overlap
-          return conditionsOverlap(newCondition as MessageCondition, c);
+          return conditionsOverlap(newCondition, c);
         })
         .map(c => {
           const conflictingTemplate = messageTemplates.find(t => t.id === c.templateId);
@@ -287,6 +317,8 @@ export default function ManageConditionsModal() {
             } else {
               condDesc = `${cond.operator} ${cond.value}`;
             }
+            const criteriaText = describeCriteria(cond);
+            if (criteriaText) condDesc += ` | ${criteriaText}`;
             return `- ${c.templateTitle} (${condDesc})`;
           })
           .join('\n');
@@ -307,6 +339,11 @@ export default function ManageConditionsModal() {
     try {
       setIsLoading(true);
 
+      // Criteria only apply to active operators
+      const isActiveOperator = !['DEFAULT', 'UNCONDITIONED'].includes(formData.operator as string);
+      const criteria = isActiveOperator ? formData.criteria : undefined;
+      const criteriaLogic = isActiveOperator && criteria ? formData.criteriaLogic || 'AND' : undefined;
+
       if (condition && condition.id && condition.templateId) {
         // Update existing condition
         const conditionBackendId = Number(condition.id);
@@ -318,6 +355,8 @@ export default function ManageConditionsModal() {
           value: formData.operator === 'RANGE' ? null : (formData.value ?? null),
           minValue: formData.operator === 'RANGE' ? (formData.minValue ?? null) : null,
           maxValue: formData.operator === 'RANGE' ? (formData.maxValue ?? null) : null,
+          criteria: criteria ?? null,
+          criteriaLogic: criteriaLogic ?? null,
         };
 
         await messageApiClient.updateCondition(conditionBackendId, updatePayload);
@@ -328,6 +367,8 @@ export default function ManageConditionsModal() {
           value: formData.value,
           minValue: formData.minValue,
           maxValue: formData.maxValue,
+          criteria,
+          criteriaLogic,
         });
 
         addToast('تم تحديث الشرط بنجاح', 'success');
@@ -347,6 +388,8 @@ export default function ManageConditionsModal() {
           value: formData.operator === 'RANGE' ? null : (formData.value ?? null),
           minValue: formData.operator === 'RANGE' ? (formData.minValue ?? null) : null,
           maxValue: formData.operator === 'RANGE' ? (formData.maxValue ?? null) : null,
+          criteria: criteria ?? null,
+          criteriaLogic: criteriaLogic ?? null,
         };
 
         await messageApiClient.createCondition(createPayload);
@@ -446,6 +489,8 @@ export default function ManageConditionsModal() {
           value: null,
           minValue: null,
           maxValue: null,
+          criteria: null,
+          criteriaLogic: null,
         };
         await messageApiClient.updateCondition(conditionBackendId, updateRequest);
 
@@ -454,6 +499,8 @@ export default function ManageConditionsModal() {
           value: undefined,
           minValue: undefined,
           maxValue: undefined,
+          criteria: undefined,
+          criteriaLogic: undefined,
         });
 
         addToast('تم تحويل الشرط إلى بدون شرط بنجاح', 'success');
@@ -523,13 +570,14 @@ export default function ManageConditionsModal() {
     const operatorText = operatorMap[cond.operator] || cond.operator;
     const valueText =
       cond.operator === 'RANGE' ? `${cond.minValue}-${cond.maxValue}` : cond.value;
+    const criteriaText = describeCriteria(cond);
 
-    return `${operatorText} ${valueText}`;
+    return `${operatorText} ${valueText}${criteriaText ? ` | ${criteriaText}` : ''}`;
   }, []);
 
   // Detect overlaps and format descriptions like QueueDashboard
   const overlappingConditions = useMemo(() => {
-    const overlaps = detectOverlappingConditions(activeConditions as any);
+    const overlaps = detectOverlappingConditions(activeConditions);
 
     // Transform descriptions to match QueueDashboard format
     return overlaps.map(overlap => {
@@ -563,6 +611,109 @@ export default function ManageConditionsModal() {
     return ids;
   }, [overlappingConditions]);
 
+  // Coverage ruler data
+  const templateTitles = useMemo(() => {
+    const titles: Record<string, string> = {};
+    queueTemplates.forEach(t => {
+      titles[t.id] = t.title;
+    });
+    return titles;
+  }, [queueTemplates]);
+
+  const defaultTemplate = useMemo(
+    () => queueTemplates.find(t => (templateConditionMap.get(t.id)?.operator || t.condition?.operator) === 'DEFAULT'),
+    [queueTemplates, templateConditionMap]
+  );
+
+  const gapSegments = useMemo(
+    () => getGapSegments(buildCoverageMap(activeConditions)),
+    [activeConditions]
+  );
+
+  // Only UNCONDITIONED templates can become the DEFAULT without losing an active range
+  const unconditionedConditions = useMemo(
+    () => activeConditions.filter(c => c.operator === 'UNCONDITIONED'),
+    [activeConditions]
+  );
+  const [gapFillConditionId, setGapFillConditionId] = useState<string>('');
+
+  // Send planned UpdateConditionRequests, then refresh like the other actions
+  const applyConditionUpdates = useCallback(async (updates: ConditionUpdate[], successMessage: string) => {
+    if (updates.length === 0) return;
+    try {
+      setIsLoading(true);
+      for (const update of updates) {
+        const conditionBackendId = Number(update.conditionId);
+        if (isNaN(conditionBackendId)) throw new Error('معرف الشرط غير صالح');
+        await messageApiClient.updateCondition(conditionBackendId, update.request);
+      }
+
+      addToast(successMessage, 'success');
+
+      const targetQueueId = queueId || selectedQueueId;
+      if (targetQueueId) {
+        await refreshQueueData(targetQueueId);
+        setTimeout(() => {
+          window.dispatchEvent(new CustomEvent('templateDataUpdated'));
+          window.dispatchEvent(new CustomEvent('conditionDataUpdated'));
+        }, 100);
+      }
+    } catch (err: any) {
+      addToast(err?.message || 'حدث خطأ أثناء تحديث الشروط', 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [queueId, selectedQueueId, refreshQueueData, addToast]);
+
+  const handleResizeCondition = useCallback(async (cond: MessageCondition, range: OffsetRange) => {
+    const update = planResize(cond, range);
+    if (!update) {
+      addToast('النطاق غير صالح', 'error');
+      return;
+    }
+    await applyConditionUpdates([update], `تم تعديل النطاق إلى ${formatOffsetRange(range)}`);
+  }, [applyConditionUpdates, addToast]);
+
+  const handleSplitOverlap = useCallback(async (overlap: { id1: string; id2: string }) => {
+    const cond1 = activeConditions.find(c => c.id === overlap.id1);
+    const cond2 = activeConditions.find(c => c.id === overlap.id2);
+    if (!cond1 || !cond2) return;
+
+    const updates = planSplitOverlap(cond1, cond2);
+    if (updates.length === 0) {
+      addToast('لا يمكن تقسيم هذا التداخل تلقائياً - عدّل أحد الشرطين يدوياً', 'info');
+      return;
+    }
+
+    const details = updates
+      .map(u => {
+        const cond = activeConditions.find(c => c.id === u.conditionId);
+        const title = (cond?.templateId && templateTitles[cond.templateId]) || 'قالب غير معروف';
+        return `- ${title}: ${u.range ? formatOffsetRange(u.range) : ''}`;
+      })
+      .join('\n');
+
+    const shouldProceed = await confirm({
+      title: 'تقسيم التداخل',
+      message: `سيتم تعديل النطاقات كالتالي:\n\n${details}\n\nهل تريد المتابعة؟`,
+      confirmText: 'نعم، تقسيم',
+      cancelText: 'إلغاء',
+    });
+    if (!shouldProceed) return;
+
+    await applyConditionUpdates(updates, 'تم تقسيم التداخل بنجاح');
+  }, [activeConditions, templateTitles, confirm, applyConditionUpdates, addToast]);
+
+  const handleFillGaps = useCallback(async () => {
+    const updates = planFillGapsWithDefault(activeConditions, gapFillConditionId);
+    if (updates.length === 0) {
+      addToast('اختر قالباً بدون شرط لاستخدامه كافتراضي', 'error');
+      return;
+    }
+    await applyConditionUpdates(updates, 'تم ملء الفجوات بالقالب الافتراضي');
+    setGapFillConditionId('');
+  }, [activeConditions, gapFillConditionId, applyConditionUpdates, addToast]);
+
   if (!isOpen || !data) return null;
 
   return (
@@ -579,9 +730,59 @@ export default function ManageConditionsModal() {
           <ConflictWarning
             overlappingConditions={overlappingConditions}
             hasDefaultConflict={false}
+            onResolveOverlap={handleSplitOverlap}
+            resolveDisabled={isLoading}
           />
         )}
 
+        {/* Coverage ruler */}
+        <ConditionCoverageMap
+          conditions={activeConditions}
+          templateTitles={templateTitles}
+          defaultTemplateTitle={defaultTemplate?.title}
+          disabled={isLoading || editingTemplateId !== null}
+          onResize={handleResizeCondition}
+        />
+
+        {/* Gaps without a DEFAULT template get no message at all */}
+        {gapSegments.length > 0 && !defaultTemplate && (
+          <div className="bg-amber-50 border-2 border-amber-300 rounded-lg p-3 space-y-2">
+            <p className="text-xs text-amber-900 flex items-center gap-2">
+              <i className="fas fa-exclamation-triangle"></i>
+              مواضع بدون قالب: {gapSegments.map(formatOffsetRange).join('، ')}
+            </p>
+            {unconditionedConditions.length > 0 ? (
+              <div className="flex items-center gap-2">
+                <select
+                  value={gapFillConditionId}
+                  onChange={(e) => setGapFillConditionId(e.target.value)}
+                  disabled={isLoading}
+                  className="flex-1 px-2 py-1.5 border border-amber-300 rounded-lg text-xs"
+                >
+                  <option value="">-- اختر القالب الافتراضي --</option>
+                  {unconditionedConditions.map(c => (
+                    <option key={c.id} value={c.id}>
+                      {(c.templateId && templateTitles[c.templateId]) || 'قالب غير معروف'}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleFillGaps}
+                  disabled={isLoading || !gapFillConditionId}
+                  className="px-3 py-1.5 bg-amber-600 text-white text-xs rounded-lg hover:bg-amber-700 transition disabled:opacity-50 font-semibold flex items-center gap-1"
+                >
+                  <i className="fas fa-fill-drip"></i>
+                  ملء الفجوات بالقالب الافتراضي
+                </button>
+              </div>
+            ) : (
+              <p className="text-xs text-amber-800">
+                حدد أحد القوالب كافتراضي (زر &quot;تعيين كافتراضي&quot;) ليُستخدم في هذه المواضع
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Templates List - Per-Template State View */}
         <div className="flex-1 overflow-y-auto space-y-3">
           {queueTemplates.length > 0 ? (
@@ -713,6 +914,29 @@ export default function ManageConditionsModal() {
                         isLoading={isLoading}
                         hideInfo={false}
                       />
+
+                      {/* Extra criteria (time window, day, status, country, already messaged) */}
+                      {formData.operator && !['DEFAULT', 'UNCONDITIONED'].includes(formData.operator) && (
+                        <ConditionCriteriaSection
+                          criteria={formData.criteria}
+                          criteriaLogic={formData.criteriaLogic}
+                          onCriteriaChange={(criteria) => {
+                            setFormData((prev) => ({ ...prev, criteria }));
+                            if (formErrors.criteria) {
+                              setFormErrors((prev) => {
+                                const newErrors = { ...prev };
+                                delete newErrors.criteria;
+                                return newErrors;
+                              });
+                            }
+                          }}
+                          onCriteriaLogicChange={(criteriaLogic) =>
+                            setFormData((prev) => ({ ...prev, criteriaLogic }))
+                          }
+                          disabled={isLoading}
+                          error={formErrors.criteria}
+                        />
+                      )}
                     </div>
                   ) : (
                     // View Mode - Template status card
@@ -814,6 +1038,10 @@ export default function ManageConditionsModal() {
               title: 'شرط مخصص',
               description: 'قالب له شرط مخصص (يساوي / أكبر من / أقل من / نطاق)',
             },
+            {
+              title: 'معايير إضافية',
+              description: 'يمكن تقييد الشرط بفترة زمنية أو أيام أو حالة المريض أو رمز الدولة أو المراسلة السابقة، وربطها بـ (و) أو (أو)',
+            },
             {
               title: 'تضارب الشروط',
               description: 'الشروط المتداخلة تسبب تضارباً ويجب تعديلها لتجنب ذلك',
@@ -9,16 +9,23 @@ import { useQueue } from '@/contexts/QueueContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { formatPositionDisplay } from '@/utils/queuePositionUtils';
 import { resolvePatientMessages } from '@/services/queueMessageService';
+import { parseTemplate } from '@/utils/templatePlaceholders';
 import { QueueMessageConfig, MessageResolution } from '@/types/messageCondition';
 import { Patient } from '@/types';
 import { messageApiClient } from '@/services/api/messageApiClient';
 import { whatsappApiClient } from '@/services/api/whatsappApiClient';
 import { useWhatsAppSession } from '@/contexts/WhatsAppSessionContext';
 import { patientsApiClient } from '@/services/api/patientsApiClient';
+import { useDoNotContactList } from '@/hooks/useDoNotContactList';
+import { DO_NOT_CONTACT_REASON, isDoNotContact } from '@/utils/doNotContact';
 // normalizePhoneNumber removed - phone numbers stored separately from country codes
 import { useState, useMemo, useEffect, useCallback, useRef } from 'react';
 import Modal from './Modal';
 import ConfirmationDialog from './ConfirmationDialog';
+import { ScheduleDateTimePicker } from '@/components/Common/ScheduleDateTimePicker';
+import { fromDateTimeLocalValue, formatLocalDateTime, validateScheduleValue } from '@/utils/dateTimeUtils';
+import { getQueueStatusUrl } from '@/utils/queueStatus';
+import logger from '@/utils/logger';
 
 export default function MessagePreviewModal() {
   const { openModals, closeModal, getModalData } = useModal();
@@ -42,6 +49,10 @@ export default function MessagePreviewModal() {
   const [removedPatients, setRemovedPatients] = useState<string[]>([]);
   const [isSending, setIsSending] = useState(false);
 
+  // Send timing: immediately, or at a future local date/time (datetime-local value)
+  const [sendMode, setSendMode] = useState<'now' | 'scheduled'>('now');
+  const [scheduledAt, setScheduledAt] = useState('');
+
   // WhatsApp validation state
   const [validationStatus, setValidationStatus] = useState<Record<string, {
     isValid: boolean | null; // null = checking/not checked, true = valid, false = invalid
@@ -311,17 +322,75 @@ export default function MessagePreviewModal() {
       // Only include a default template if one truly exists
       defaultTemplate: defaultTemplate?.content,
       conditions: validatedConditions,
+      customVariables: queue?.customVariables,
     };
-  }, [queueId, queueName, defaultTemplate, realConditions, realTemplates]);
+  }, [queueId, queueName, defaultTemplate, realConditions, realTemplates, queue?.customVariables]);
 
   const missingDefaultTemplate = !defaultTemplate;
 
+  // Templates whose {{#if}} blocks don't parse would be sent half-rendered - block sending
+  const templatesWithSyntaxErrors = useMemo(() => {
+    return messageConfig.conditions.filter(
+      (c) => c.template && parseTemplate(c.template).errors.length > 0
+    );
+  }, [messageConfig]);
+
+  const hasConditionalBlocks = useMemo(() => {
+    return messageConfig.conditions.some((c) => c.template && c.template.includes('{{#if'));
+  }, [messageConfig]);
+
+  // "Already messaged" criteria need each patient's message history - only fetched when a condition uses it
+  const usesAlreadyMessagedCriteria = useMemo(() => {
+    return messageConfig.conditions.some((c) => typeof c.criteria?.alreadyMessaged === 'boolean');
+  }, [messageConfig]);
+  const [messagedPatientIds, setMessagedPatientIds] = useState<Set<string> | null>(null);
+
+  // Patients whose number is on the moderator's do-not-contact list are never messaged
+  // (the server skips them too); sending waits until the list has loaded
+  const {
+    numbers: doNotContactNumbers,
+    loading: doNotContactLoading,
+    error: doNotContactError,
+    reload: reloadDoNotContact,
+  } = useDoNotContactList(moderatorUserId, isOpen);
+  const doNotContactUnavailable = doNotContactLoading || !!doNotContactError;
+  const optedOutPatients = useMemo(() => {
+    return sortedPatients.filter(
+      (p) => selectedPatientIds.includes(String(p.id)) && isDoNotContact(doNotContactNumbers, p.phone, p.countryCode)
+    );
+  }, [sortedPatients, selectedPatientIds, doNotContactNumbers]);
+
+  useEffect(() => {
+    if (!isOpen || !usesAlreadyMessagedCriteria || !queueId) return;
+    let cancelled = false;
+    messageApiClient
+      .getLastPatientMessages(Number(queueId))
+      .then((res) => {
+        if (!cancelled) setMessagedPatientIds(new Set((res?.data || []).map((m) => String(m.patientId))));
+      })
+      .catch((err) => {
+        logger.warn('[MessagePreview] Failed to load message history for criteria:', err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, usesAlreadyMessagedCriteria, queueId]);
+
   // Resolve all patients using the service
   const patientArray = useMemo(() => {
     return sortedPatients
       .filter((p) => selectedPatientIds.includes(String(p.id)) && !removedPatients.includes(String(p.id)))
-      .map((p) => ({ id: String(p.id), name: p.name, position: p.position || 0 }));
-  }, [sortedPatients, selectedPatientIds, removedPatients]);
+      .filter((p) => !optedOutPatients.includes(p))
+      .map((p) => ({
+        id: String(p.id),
+        name: p.name,
+        position: p.position || 0,
+        patientStatus: p.status,
+        countryCode: p.countryCode,
+        alreadyMessaged: messagedPatientIds ? messagedPatientIds.has(String(p.id)) : undefined,
+        statusLink: p.statusToken ? getQueueStatusUrl(window.location.origin, p.statusToken) : undefined,
+      }));
+  }, [sortedPatients, selectedPatientIds, removedPatients, optedOutPatients, messagedPatientIds]);
 
   const resolutions = useMemo(() => {
     // No conditions is expected when queue hasn't been configured yet - not an error
@@ -414,6 +483,11 @@ export default function MessagePreviewModal() {
       return;
     }
 
+    if (doNotContactUnavailable) {
+      addToast('لا يمكن الإرسال قبل تحميل قائمة عدم التواصل', 'error');
+      return;
+    }
+
     // Get patients that will be sent (not excluded, not removed)
     const patientsToSend = resolutions
       .filter((res) => res.reason !== 'EXCLUDED' && !removedPatients.includes(String(res.patientId)))
@@ -510,6 +584,21 @@ export default function MessagePreviewModal() {
       return;
     }
 
+    // Check 2b: Conditional blocks must parse
+    if (templatesWithSyntaxErrors.length > 0) {
+      addToast('لا يمكن الإرسال: يحتوي قالب على خطأ في الشروط الداخلية ({{#if}})، يرجى تصحيحه أولاً', 'error');
+      return;
+    }
+
+    // Check 3: Scheduled sends need a valid future time
+    if (sendMode === 'scheduled') {
+      const scheduleError = validateScheduleValue(scheduledAt);
+      if (scheduleError) {
+        addToast(scheduleError, 'error');
+        return;
+      }
+    }
+
     // Extract patient IDs for API call
     const patientIdsToSend = patientsToSend
       .map((item) => Number(item.patientId))
@@ -520,6 +609,28 @@ export default function MessagePreviewModal() {
       // Generate unique correlationId for idempotency - prevents duplicate messages on retry or double-click
       // Use crypto.randomUUID() which generates a valid GUID, or undefined if not available
       const correlationId = typeof crypto !== 'undefined' && crypto.randomUUID ? crypto.randomUUID() : undefined;
+
+      if (sendMode === 'scheduled') {
+        // Quota is checked again by the backend when the schedule fires
+        const scheduledDate = fromDateTimeLocalValue(scheduledAt)!;
+        await messageApiClient.scheduleMessages({
+          templateId: templateToUse,
+          patientIds: patientIdsToSend,
+          scheduledAt: scheduledDate.toISOString(),
+          channel: 'whatsapp',
+          moderatorId: moderatorUserId,
+          correlationId,
+        });
+
+        addToast(`تمت جدولة ${patientIdsToSend.length} رسالة للإرسال في ${formatLocalDateTime(scheduledDate)}`, 'success');
+        closeModal('messagePreview');
+
+        setTimeout(() => {
+          window.dispatchEvent(new CustomEvent('messageDataUpdated'));
+        }, 100);
+        return;
+      }
+
       await messageApiClient.sendMessages({
         templateId: templateToUse,
         patientIds: patientIdsToSend,
@@ -970,10 +1081,11 @@ export default function MessagePreviewModal() {
     // Reset abort flag when starting new validation
     abortValidationRef.current = false;
 
-    // Get all eligible patients (not excluded, not removed, have phone)
+    // Get all eligible patients (not excluded, not removed, not opted out, have phone)
     const allEligiblePatients = sortedPatients.filter(p =>
       selectedPatientIds.includes(String(p.id)) &&
       !removedPatients.includes(String(p.id)) &&
+      !isDoNotContact(doNotContactNumbers, p.phone, p.countryCode) &&
       p.phone
     );
 
@@ -1135,7 +1247,7 @@ export default function MessagePreviewModal() {
     if (processManualValidationQueueRef.current) {
       await processManualValidationQueueRef.current();
     }
-  }, [isOpen, sortedPatients, selectedPatientIds, removedPatients, checkPhoneNumber]);
+  }, [isOpen, sortedPatients, selectedPatientIds, removedPatients, doNotContactNumbers, checkPhoneNumber]);
 
   // Refresh patient data and trigger validation when modal opens
   useEffect(() => {
@@ -1426,6 +1538,8 @@ export default function MessagePreviewModal() {
       setValidationProgress({ current: 0, total: 0 });
       setRemovedPatients([]);
       setIsSending(false);
+      setSendMode('now');
+      setScheduledAt('');
       setValidationPaused(false);
       setShouldResumeValidation(false);
 
@@ -1536,8 +1650,57 @@ export default function MessagePreviewModal() {
               return null;
             })()}
 
+            {/* Do-Not-Contact Exclusions */}
+            {optedOutPatients.length > 0 && (
+              <div className="px-4 py-3 bg-gray-50 border-b border-gray-200">
+                <div className="flex items-start gap-3 text-sm text-gray-800 mb-2">
+                  <i className="fas fa-user-slash mt-1"></i>
+                  <div className="flex-1">
+                    <p className="font-medium">تم استثناء {optedOutPatients.length} مريض تلقائياً</p>
+                    <p className="mt-1 text-xs text-gray-600">السبب: {DO_NOT_CONTACT_REASON} - الأرقام التالية مسجلة في قائمة عدم التواصل ولن تُرسل لها رسائل:</p>
+                  </div>
+                </div>
+                <div className="mt-2 flex flex-wrap gap-1">
+                  {optedOutPatients.map((patient) => (
+                    <span key={patient.id} className="text-xs text-gray-700 bg-gray-200 px-2 py-1 rounded">
+                      <span className="font-medium">{patient.name}</span> - {formatPhoneNumber(patient.phone || '', patient.countryCode || '+20')}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {doNotContactError && (
+              <div className="px-4 py-3 bg-red-50 border-b border-red-200 text-sm text-red-700 flex items-start gap-2">
+                <i className="fas fa-exclamation-circle mt-0.5"></i>
+                <span className="flex-1">تعذر تحميل قائمة عدم التواصل - لن يتم الإرسال حتى يتم تحميلها</span>
+                <button
+                  type="button"
+                  onClick={reloadDoNotContact}
+                  className="text-red-700 underline hover:text-red-800 whitespace-nowrap"
+                >
+                  إعادة المحاولة
+                </button>
+              </div>
+            )}
+
+            {templatesWithSyntaxErrors.length > 0 && (
+              <div className="px-4 py-3 bg-red-50 border-b border-red-200 text-sm text-red-700 flex items-start gap-2 flex-shrink-0">
+                <i className="fas fa-exclamation-circle mt-0.5"></i>
+                <span>
+                  {templatesWithSyntaxErrors.length} قالب يحتوي على خطأ في الشروط الداخلية ({'{{#if}}'}) - لن يتم الإرسال حتى يتم التصحيح
+                </span>
+              </div>
+            )}
+
             <div className="px-4 py-3 bg-gray-50 border-b flex-shrink-0">
               <h4 className="font-bold text-gray-800">جدول المعاينة</h4>
+              {hasConditionalBlocks && (
+                <p className="text-xs text-gray-600 mt-1">
+                  <i className="fas fa-code-branch ml-1"></i>
+                  تحتوي القوالب على شروط داخلية - عمود الرسالة يعرض النص النهائي لكل مريض كما سيُرسل
+                </p>
+              )}
             </div>
 
             <div className="overflow-x-auto flex-1">
@@ -1714,23 +1877,74 @@ export default function MessagePreviewModal() {
             </div>
           </div>
 
+          {/* Send timing: now or scheduled */}
+          <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 flex-shrink-0">
+            <div className="flex items-center gap-4 text-sm">
+              <span className="font-medium text-gray-700">وقت الإرسال:</span>
+              <label className="flex items-center gap-1 cursor-pointer">
+                <input
+                  type="radio"
+                  name="sendMode"
+                  checked={sendMode === 'now'}
+                  onChange={() => setSendMode('now')}
+                  disabled={isSending}
+                />
+                <span>الآن</span>
+              </label>
+              <label className="flex items-center gap-1 cursor-pointer">
+                <input
+                  type="radio"
+                  name="sendMode"
+                  checked={sendMode === 'scheduled'}
+                  onChange={() => setSendMode('scheduled')}
+                  disabled={isSending}
+                />
+                <span>جدولة لوقت لاحق</span>
+              </label>
+            </div>
+            {sendMode === 'scheduled' && (
+              <div className="mt-3">
+                <ScheduleDateTimePicker
+                  value={scheduledAt}
+                  onChange={setScheduledAt}
+                  disabled={isSending}
+                />
+                <p className="text-xs text-gray-500 mt-2">
+                  <i className="fas fa-info-circle ml-1"></i>
+                  يمكنك تعديل أو إلغاء الجلسة المجدولة من صفحة المهام الجارية. سيتم التحقق من الحصة المتاحة عند موعد الإرسال.
+                </p>
+              </div>
+            )}
+          </div>
+
           <div className="flex gap-3 pt-4 border-t flex-shrink-0">
             <button
               onClick={handleConfirmSend}
-              disabled={isSending || isValidating}
+              disabled={isSending || isValidating || doNotContactUnavailable}
               className="flex-1 bg-green-600 text-white py-2 rounded-lg hover:bg-green-700 transition-colors flex items-center justify-center gap-2 disabled:bg-gray-400 disabled:cursor-not-allowed"
-              title={isValidating ? 'جاري التحقق من أرقام الواتساب... يرجى الانتظار' : ''}
+              title={
+                isValidating
+                  ? 'جاري التحقق من أرقام الواتساب... يرجى الانتظار'
+                  : doNotContactUnavailable
+                    ? 'لا يمكن الإرسال قبل تحميل قائمة عدم التواصل'
+                    : ''
+              }
             >
               {isSending ? (
                 <>
                   <i className="fas fa-spinner fa-spin"></i>
-                  جاري الإرسال...
+                  {sendMode === 'scheduled' ? 'جاري الجدولة...' : 'جاري الإرسال...'}
                 </>
               ) : isValidating ? (
                 <>
                   <i className="fas fa-spinner fa-spin"></i>
                   جاري التحقق... ({validationProgress.current + 1}/{validationProgress.total})
                 </>
+              ) : sendMode === 'scheduled' ? (
+                <>
+                  <i className="fas fa-calendar-check"></i>
+                  {`تأكيد الجدولة (${previewPatientCount ?? 0})`}
+                </>
               ) : (
                 <>
                   <i className="fab fa-whatsapp"></i>
@@ -4,6 +4,9 @@ import { formatLocalDateTime } from '@/utils/dateTimeUtils';
 
 import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import { MessageTemplate } from '@/types/messageTemplate';
+import { useQueue } from '@/contexts/QueueContext';
+import { validateTemplate } from '@/utils/messageConditionValidation';
+import { getVariableOptions, parsePlaceholders, renderTemplate, getSamplePlaceholderValues } from '@/utils/templatePlaceholders';
 
 interface MessageTemplateEditorModalProps {
   template?: MessageTemplate;
@@ -13,47 +16,6 @@ interface MessageTemplateEditorModalProps {
   onSave: (formData: any) => Promise<void>;
 }
 
-/**
- * Available variables for template insertion
- */
-const AVAILABLE_VARIABLES = [
-  { code: '{PN}', label: 'اسم المريض', description: 'Patient Name', example: 'أحمد محمد' },
-  {
-    code: '{PQP}',
-    label: 'ترتيب المريض',
-    description: 'Patient Queue Position',
-    example: '5',
-  },
-  {
-    code: '{CQP}',
-    label: 'الموضع الحالي في العيادة',
-    description: 'Current Queue Position',
-    example: '3',
-  },
-  {
-    code: '{ETR}',
-    label: 'الوقت المتبقي المقدر',
-    description: 'Estimated Time Remaining',
-    example: '15 دقيقة',
-  },
-  {
-    code: '{CN}',
-    label: 'اسم العيادة',
-    description: 'Clinic Name',
-    example: 'عيادة الأسنان',
-  },
-];
-/**
- * Variable Validation Rules
- */
-const VARIABLE_VALIDATION_RULES: Record<string, any> = {
-  '{PN}': { context: 'Personalization' },
-  '{PQP}': { context: 'Queue Info' },
-  '{CQP}': { context: 'Queue Info' },
-  '{ETR}': { context: 'Timing' },
-  '{CN}': { context: 'Clinic Info' },
-};
-
 export default function MessageTemplateEditorModal({
   template,
   queueId,
@@ -63,6 +25,18 @@ export default function MessageTemplateEditorModal({
 }: MessageTemplateEditorModalProps) {
   const isEditing = !!template;
   const MAX_CONTENT_LENGTH = 1000;
+  const { queues } = useQueue();
+
+  // Per-queue custom variables are insertable and valid alongside the built-ins
+  const customVariables = useMemo(
+    () => queues.find((q) => String(q.id) === String(queueId))?.customVariables || {},
+    [queues, queueId]
+  );
+
+  const AVAILABLE_VARIABLES = useMemo(
+    () => getVariableOptions(undefined, customVariables),
+    [customVariables]
+  );
 
   // Form state
   const [formData, setFormData] = useState<Partial<MessageTemplate>>({
@@ -119,35 +93,60 @@ export default function MessageTemplateEditorModal({
    * Extract and validate variables from content
    */
   const variableAnalysis = useMemo(() => {
-    const variableRegex = /\{([A-Z]+)\}/g;
     const content = formData.content || '';
-    const matches = content.match(variableRegex) || [];
+    const { usedPlaceholders, invalidPlaceholders, syntaxErrors } = validateTemplate(content, Object.keys(customVariables));
     const count: Record<string, number> = {};
 
-    matches.forEach((match) => {
-      count[match] = (count[match] || 0) + 1;
+    parsePlaceholders(content).forEach(({ key }) => {
+      count[`{${key}}`] = (count[`{${key}}`] || 0) + 1;
     });
 
     // Validate usage
     const issues: Array<{ variable: string; issue: string; severity: 'warn' | 'error' }> = [];
 
     // Check for invalid variables
-    const invalidVars = Object.keys(count).filter((v) => !VARIABLE_VALIDATION_RULES[v]);
-    if (invalidVars.length > 0) {
+    if (invalidPlaceholders.length > 0) {
       issues.push({
-        variable: invalidVars.join(', '),
+        variable: invalidPlaceholders.join(', '),
         issue: 'متغيرات غير معروفة',
         severity: 'error',
       });
     }
 
+    // Conditional block syntax errors ({{#if ...}} / {{else}} / {{/if}})
+    syntaxErrors.forEach((syntaxError) => {
+      issues.push({
+        variable: content.slice(syntaxError.start, syntaxError.end),
+        issue: syntaxError.message,
+        severity: 'error',
+      });
+    });
+
     return {
-      used: Object.keys(count),
+      used: [...usedPlaceholders, ...invalidPlaceholders],
       count,
       issues,
+      syntaxErrors,
       isValid: issues.every((i) => i.severity !== 'error'),
     };
-  }, [formData.content]);
+  }, [formData.content, customVariables]);
+
+  /**
+   * Split content into plain and error segments for the syntax highlight view
+   */
+  const highlightedSegments = useMemo(() => {
+    const content = formData.content || '';
+    const segments: Array<{ text: string; error?: string }> = [];
+    let cursor = 0;
+    variableAnalysis.syntaxErrors.forEach(({ start, end, message }) => {
+      if (start < cursor) return; // overlapping error ranges
+      if (start > cursor) segments.push({ text: content.slice(cursor, start) });
+      segments.push({ text: content.slice(start, end), error: message });
+      cursor = end;
+    });
+    if (cursor < content.length) segments.push({ text: content.slice(cursor) });
+    return segments;
+  }, [formData.content, variableAnalysis.syntaxErrors]);
 
   /**
    * Handle form field changes
@@ -219,21 +218,8 @@ export default function MessageTemplateEditorModal({
    * Generate preview text with mock data
    */
   const previewText = useMemo(() => {
-    let preview = formData.content || '';
-    const mockData: Record<string, string> = {
-      '{PN}': 'أحمد محمد',
-      '{PQP}': '5',
-      '{CQP}': '3',
-      '{ETR}': '15 دقيقة',
-      '{CN}': queueName,
-    };
-
-    Object.entries(mockData).forEach(([key, value]) => {
-      preview = preview.replace(new RegExp(key, 'g'), value);
-    });
-
-    return preview;
-  }, [formData.content, queueName]);
+    return renderTemplate(formData.content || '', getSamplePlaceholderValues(queueName, customVariables));
+  }, [formData.content, queueName, customVariables]);
 
   /**
    * Load previous version
@@ -394,6 +380,14 @@ export default function MessageTemplateEditorModal({
                     </div>
                   ))}
                 </div>
+                <p className="text-xs text-blue-800 mt-2">
+                  <i className="fas fa-info-circle ml-1"></i>
+                  لقيمة بديلة عند غياب البيانات استخدم: <span className="font-mono" dir="ltr">{'{PN|عزيزي المريض}'}</span>
+                </p>
+                <p className="text-xs text-blue-800 mt-1">
+                  <i className="fas fa-code-branch ml-1"></i>
+                  لنص يظهر لبعض المرضى فقط: <span className="font-mono" dir="ltr">{'{{#if OFFSET<=2}}تفضل بالحضور الآن{{else}}سنبلغك لاحقاً{{/if}}'}</span>
+                </p>
               </div>
             )}
 
@@ -430,9 +424,35 @@ export default function MessageTemplateEditorModal({
               placeholder="مثال: مرحباً {PN}, ترتيبك {PQP} والموضع الحالي {CQP}"
               rows={5}
               ref={contentRef}
-              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 font-serif resize-none"
+              className={`w-full px-4 py-3 border rounded-lg focus:outline-none focus:ring-2 font-serif resize-none ${
+                variableAnalysis.syntaxErrors.length > 0
+                  ? 'border-red-400 focus:ring-red-500'
+                  : 'border-gray-300 focus:ring-blue-500'
+              }`}
             />
 
+            {/* Syntax Highlight - marks invalid conditional blocks in place */}
+            {variableAnalysis.syntaxErrors.length > 0 && (
+              <div
+                className="mt-2 p-3 bg-gray-50 border border-red-200 rounded-lg text-sm font-serif whitespace-pre-wrap break-words"
+                aria-label="مواضع الأخطاء في القالب"
+              >
+                {highlightedSegments.map((segment, idx) =>
+                  segment.error ? (
+                    <mark
+                      key={idx}
+                      className="bg-red-200 text-red-800 rounded px-0.5 underline decoration-wavy decoration-red-600"
+                      title={segment.error}
+                    >
+                      {segment.text}
+                    </mark>
+                  ) : (
+                    <span key={idx}>{segment.text}</span>
+                  )
+                )}
+              </div>
+            )}
+
             {/* Variable Validation Warnings */}
             {variableAnalysis.issues.length > 0 && (
               <div className="mt-3 space-y-2">
@@ -0,0 +1,169 @@
+'use client';
+
+import { useModal } from '@/contexts/ModalContext';
+import { useUI } from '@/contexts/UIContext';
+import { useSignalR } from '@/contexts/SignalRContext';
+import {
+  conversationsApiClient,
+  type MessageReceivedEvent,
+  type PatientConversationDto,
+} from '@/services/api/conversationsApiClient';
+import { CONVERSATION_READ_EVENT } from '@/hooks/useUnreadReplies';
+import { getReplyIntent, REPLY_INTENT_LABELS, sortConversationMessages } from '@/utils/conversations';
+import { getReceiptStatus, RECEIPT_STATUS_LABELS } from '@/utils/messageReceipts';
+import { formatPhoneForDisplay } from '@/utils/phoneUtils';
+import { formatLocalDateTime } from '@/utils/dateTimeUtils';
+import { debounce } from '@/utils/debounce';
+import logger from '@/utils/logger';
+import Modal from './Modal';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+
+/**
+ * PatientConversationModal - Thread of one patient: the messages we sent (with their receipts) and the
+ * replies captured from WhatsApp, live over MessageReceived. Opening the thread marks the replies read.
+ */
+export default function PatientConversationModal() {
+  const { openModals, closeModal, getModalData } = useModal();
+  const { addToast } = useUI();
+  const { isConnected, on, off } = useSignalR();
+
+  const [conversation, setConversation] = useState<PatientConversationDto | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const threadEndRef = useRef<HTMLDivElement>(null);
+
+  const isOpen = openModals.has('patientConversation');
+  const patientId = Number(getModalData('patientConversation')?.patientId);
+
+  const fetchConversation = useCallback(
+    (isCancelled: () => boolean = () => false) =>
+      conversationsApiClient
+        .getPatientConversation(patientId)
+        .then(async (result) => {
+          if (isCancelled()) return;
+          setConversation(result);
+          setLoadFailed(false);
+          if (result.unreadCount > 0) {
+            await conversationsApiClient.markConversationRead(patientId);
+            window.dispatchEvent(new CustomEvent(CONVERSATION_READ_EVENT, { detail: { patientId } }));
+          }
+        })
+        .catch((error) => {
+          logger.error('Failed to load patient conversation:', error);
+          if (isCancelled()) return;
+          setLoadFailed(true);
+          addToast((error as { message?: string } | undefined)?.message || 'فشل تحميل المحادثة', 'error');
+        }),
+    [patientId, addToast]
+  );
+  const loadConversation = useCallback(() => fetchConversation(), [fetchConversation]);
+
+  useEffect(() => {
+    if (!isOpen || !patientId) return;
+    let cancelled = false;
+    fetchConversation(() => cancelled);
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, patientId, fetchConversation]);
+
+  // New replies and receipt changes of this patient while the thread is open
+  const debouncedReload = useMemo(() => debounce(() => loadConversation(), 500), [loadConversation]);
+
+  useEffect(() => {
+    if (!isOpen || !isConnected) return;
+
+    const handleUpdate = (payload: MessageReceivedEvent | { patientId?: number }) => {
+      if (payload?.patientId !== undefined && Number(payload.patientId) !== patientId) return;
+      debouncedReload();
+    };
+
+    on('MessageReceived', handleUpdate);
+    on('MessageUpdated', handleUpdate);
+
+    return () => {
+      off('MessageReceived', handleUpdate);
+      off('MessageUpdated', handleUpdate);
+    };
+  }, [isOpen, isConnected, on, off, patientId, debouncedReload]);
+
+  const messages = useMemo(() => sortConversationMessages(conversation?.messages ?? []), [conversation]);
+
+  useEffect(() => {
+    threadEndRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages]);
+
+  const handleClose = () => {
+    closeModal('patientConversation');
+    setConversation(null);
+    setLoadFailed(false);
+  };
+
+  if (!isOpen) return null;
+
+  // Stale thread of the previously opened patient counts as loading
+  const current = conversation?.patientId === patientId ? conversation : null;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title={current ? `المحادثة: ${current.patientName}` : 'المحادثة'}
+      size="lg"
+    >
+      {!current && !loadFailed ? (
+        <p className="text-sm text-gray-500 py-8 text-center">
+          <i className="fas fa-spinner fa-spin ml-2"></i>
+          جاري التحميل...
+        </p>
+      ) : !current ? (
+        <p className="text-sm text-gray-500 py-8 text-center">لا يمكن عرض المحادثة</p>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between text-sm text-gray-600 border-b pb-2">
+            <span dir="ltr">{formatPhoneForDisplay(current.phone, current.countryCode)}</span>
+            <span>{current.queueName}</span>
+          </div>
+
+          <div className="max-h-[60vh] overflow-y-auto space-y-2 bg-gray-50 rounded-lg p-3" aria-live="polite">
+            {messages.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-6">لا توجد رسائل مع هذا المريض بعد</p>
+            ) : (
+              messages.map((message) => {
+                const isInbound = message.direction === 'inbound';
+                const intent = isInbound ? getReplyIntent(message.content) : null;
+                return (
+                  <div key={message.id} className={`flex ${isInbound ? 'justify-start' : 'justify-end'}`}>
+                    <div
+                      className={`max-w-[80%] rounded-lg px-3 py-2 shadow-sm ${isInbound ? 'bg-white border border-gray-200' : 'bg-green-50 border border-green-200'
+                        }`}
+                    >
+                      {intent && (
+                        <span
+                          className={`inline-block mb-1 px-2 py-0.5 rounded-full text-[10px] font-medium ${intent === 'cancel' ? 'bg-red-100 text-red-700' : 'bg-yellow-100 text-yellow-800'
+                            }`}
+                        >
+                          {REPLY_INTENT_LABELS[intent]}
+                        </span>
+                      )}
+                      <p className="text-sm text-gray-800 whitespace-pre-wrap break-words">{message.content}</p>
+                      <p className="text-[10px] text-gray-500 mt-1">
+                        {formatLocalDateTime(message.at)}
+                        {!isInbound && ` · ${RECEIPT_STATUS_LABELS[getReceiptStatus(message)]}`}
+                      </p>
+                    </div>
+                  </div>
+                );
+              })
+            )}
+            <div ref={threadEndRef}></div>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            <i className="fas fa-info-circle ml-1"></i>
+            الردود تُلتقط من واتساب ويب عبر إضافة المتصفح، وللرد على المريض استخدم واتساب مباشرة.
+          </p>
+        </div>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,319 @@
+'use client';
+
+import { useModal } from '@/contexts/ModalContext';
+import { useQueue } from '@/contexts/QueueContext';
+import { useUI } from '@/contexts/UIContext';
+import { useConfirmDialog } from '@/contexts/ConfirmationContext';
+import { createActionConfirmation } from '@/utils/confirmationHelpers';
+import {
+  checkInApiClient,
+  type CheckInSettingsDto,
+  type PendingCheckInDto,
+} from '@/services/api/checkInApiClient';
+import { getCheckInUrl } from '@/utils/checkIn';
+import { formatPhoneForDisplay } from '@/utils/phoneUtils';
+import { formatLocalDateTime } from '@/utils/dateTimeUtils';
+import logger from '@/utils/logger';
+import Modal from './Modal';
+import { useState, useEffect, useCallback } from 'react';
+
+/**
+ * QueueCheckInModal - Self check-in link of a queue: enable/disable, staff-approval step,
+ * printable QR code and the check-ins waiting for approval
+ */
+export default function QueueCheckInModal() {
+  const { openModals, closeModal, getModalData } = useModal();
+  const { queues, selectedQueueId, refreshPatients } = useQueue();
+  const { addToast } = useUI();
+  const { confirm } = useConfirmDialog();
+
+  const [settings, setSettings] = useState<CheckInSettingsDto | null>(null);
+  const [qrCodeImage, setQrCodeImage] = useState<string | null>(null);
+  const [pending, setPending] = useState<PendingCheckInDto[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyCheckInId, setBusyCheckInId] = useState<number | null>(null);
+
+  const isOpen = openModals.has('queueCheckIn');
+  const queueId = getModalData('queueCheckIn')?.queueId as string | undefined;
+  const queue = queues.find((q) => String(q.id) === String(queueId));
+  const queueIdNum = Number(queueId);
+  const checkInUrl = settings && typeof window !== 'undefined' ? getCheckInUrl(window.location.origin, settings.token) : '';
+
+  const loadPending = useCallback(async () => {
+    if (!queueIdNum) return;
+    try {
+      const response = await checkInApiClient.getPendingCheckIns(queueIdNum);
+      setPending(response.items || []);
+    } catch (error) {
+      logger.error('Failed to load pending check-ins:', error);
+    }
+  }, [queueIdNum]);
+
+  const loadQRCode = useCallback(async (token: string) => {
+    setQrCodeImage(null);
+    try {
+      const qr = await checkInApiClient.getCheckInQRCode(queueIdNum, getCheckInUrl(window.location.origin, token));
+      setQrCodeImage(`data:${qr.format};base64,${qr.qrCodeImage}`);
+    } catch (error) {
+      logger.error('Failed to load check-in QR code:', error);
+      addToast('فشل تحميل رمز QR', 'error');
+    }
+  }, [queueIdNum, addToast]);
+
+  useEffect(() => {
+    if (!isOpen || !queueIdNum) return;
+
+    const load = async () => {
+      setIsLoading(true);
+      try {
+        const result = await checkInApiClient.getCheckInSettings(queueIdNum);
+        setSettings(result);
+        await Promise.all([loadQRCode(result.token), loadPending()]);
+      } catch (error) {
+        logger.error('Failed to load check-in settings:', error);
+        addToast(checkInErrorMessage(error, 'فشل تحميل إعدادات تسجيل الحضور'), 'error');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, queueIdNum]);
+
+  const handleClose = () => {
+    closeModal('queueCheckIn');
+    setSettings(null);
+    setQrCodeImage(null);
+    setPending([]);
+  };
+
+  const handleUpdateSettings = async (changes: Partial<Pick<CheckInSettingsDto, 'enabled' | 'requireApproval'>>) => {
+    if (!settings) return;
+    setIsSaving(true);
+    try {
+      const result = await checkInApiClient.updateCheckInSettings(queueIdNum, {
+        enabled: changes.enabled ?? settings.enabled,
+        requireApproval: changes.requireApproval ?? settings.requireApproval,
+      });
+      setSettings(result);
+    } catch (error) {
+      addToast(checkInErrorMessage(error, 'فشل تحديث إعدادات تسجيل الحضور'), 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    const confirmed = await confirm(
+      createActionConfirmation('سيتوقف الرابط الحالي ورمز QR المطبوع عن العمل. هل تريد إنشاء رابط جديد؟', true)
+    );
+    if (!confirmed) return;
+
+    setIsSaving(true);
+    try {
+      const result = await checkInApiClient.regenerateCheckInToken(queueIdNum);
+      setSettings(result);
+      await loadQRCode(result.token);
+      addToast('تم إنشاء رابط تسجيل حضور جديد', 'success');
+    } catch (error) {
+      addToast(checkInErrorMessage(error, 'فشل إنشاء رابط جديد'), 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCopyLink = () => {
+    navigator.clipboard.writeText(checkInUrl);
+    addToast('تم نسخ الرابط', 'success');
+  };
+
+  // Print the QR code on its own page (built with DOM nodes so the queue name is never parsed as HTML)
+  const handlePrint = () => {
+    if (!qrCodeImage || !queue) return;
+    const printWindow = window.open('', '_blank', 'width=600,height=800');
+    if (!printWindow) {
+      addToast('تعذر فتح نافذة الطباعة، تأكد من السماح بالنوافذ المنبثقة', 'error');
+      return;
+    }
+
+    const doc = printWindow.document;
+    doc.title = `تسجيل الحضور - ${queue.doctorName}`;
+    doc.documentElement.dir = 'rtl';
+    doc.body.style.cssText = 'font-family: Tahoma, Arial, sans-serif; text-align: center; padding: 40px;';
+
+    const title = doc.createElement('h1');
+    title.textContent = queue.doctorName;
+    const hint = doc.createElement('p');
+    hint.textContent = 'امسح الرمز لتسجيل حضورك في قائمة الانتظار';
+    hint.style.fontSize = '20px';
+    const img = doc.createElement('img');
+    img.style.cssText = 'width: 320px; height: 320px; margin: 24px auto; display: block;';
+    const link = doc.createElement('p');
+    link.textContent = checkInUrl;
+    link.style.cssText = 'direction: ltr; font-size: 12px; color: #555;';
+
+    doc.body.append(title, hint, img, link);
+    img.onload = () => {
+      printWindow.focus();
+      printWindow.print();
+    };
+    img.src = qrCodeImage;
+  };
+
+  const handleResolve = async (checkIn: PendingCheckInDto, approve: boolean) => {
+    setBusyCheckInId(checkIn.id);
+    try {
+      if (approve) {
+        await checkInApiClient.approveCheckIn(queueIdNum, checkIn.id);
+        addToast(`تمت إضافة ${checkIn.fullName} إلى قائمة الانتظار`, 'success');
+        if (String(selectedQueueId) === String(queueId)) {
+          await refreshPatients(String(queueId));
+        }
+        window.dispatchEvent(new CustomEvent('patientDataUpdated'));
+      } else {
+        await checkInApiClient.rejectCheckIn(queueIdNum, checkIn.id);
+        addToast(`تم رفض طلب ${checkIn.fullName}`, 'info');
+      }
+      setPending((prev) => prev.filter((c) => c.id !== checkIn.id));
+    } catch (error) {
+      addToast(checkInErrorMessage(error, approve ? 'فشل قبول الطلب' : 'فشل رفض الطلب'), 'error');
+      await loadPending();
+    } finally {
+      setBusyCheckInId(null);
+    }
+  };
+
+  if (!isOpen || !queue) return null;
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title={`تسجيل الحضور الذاتي: ${queue.doctorName}`} size="lg">
+      {isLoading || !settings ? (
+        <p className="text-sm text-gray-500 py-8 text-center">
+          <i className="fas fa-spinner fa-spin ml-2"></i>
+          جاري التحميل...
+        </p>
+      ) : (
+        <div className="space-y-5">
+          {/* Settings */}
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={settings.enabled}
+                onChange={(e) => handleUpdateSettings({ enabled: e.target.checked })}
+                disabled={isSaving}
+              />
+              السماح للمرضى بتسجيل حضورهم عبر رمز QR
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={settings.requireApproval}
+                onChange={(e) => handleUpdateSettings({ requireApproval: e.target.checked })}
+                disabled={isSaving}
+              />
+              مراجعة الطلبات قبل إضافتها إلى قائمة الانتظار
+            </label>
+          </div>
+
+          {/* QR code and link */}
+          <div className={`border border-gray-200 rounded-lg p-4 text-center ${settings.enabled ? '' : 'opacity-50'}`}>
+            {qrCodeImage ? (
+              <img src={qrCodeImage} alt="رمز QR لتسجيل الحضور" className="w-48 h-48 mx-auto" />
+            ) : (
+              <div className="w-48 h-48 mx-auto flex items-center justify-center text-gray-400">
+                <i className="fas fa-qrcode text-5xl"></i>
+              </div>
+            )}
+            <p className="mt-3 text-xs text-gray-500 break-all" dir="ltr">{checkInUrl}</p>
+            <div className="mt-3 flex flex-wrap gap-2 justify-center">
+              <button
+                type="button"
+                onClick={handlePrint}
+                disabled={!qrCodeImage}
+                className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center gap-2"
+              >
+                <i className="fas fa-print"></i>
+                طباعة
+              </button>
+              <button
+                type="button"
+                onClick={handleCopyLink}
+                className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 flex items-center gap-2"
+              >
+                <i className="fas fa-copy"></i>
+                نسخ الرابط
+              </button>
+              <button
+                type="button"
+                onClick={handleRegenerate}
+                disabled={isSaving}
+                className="px-3 py-1.5 text-sm bg-red-50 text-red-700 rounded-lg hover:bg-red-100 disabled:opacity-50 flex items-center gap-2"
+              >
+                <i className="fas fa-rotate"></i>
+                إنشاء رابط جديد
+              </button>
+            </div>
+          </div>
+
+          {/* Pending approvals */}
+          {(settings.requireApproval || pending.length > 0) && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="font-semibold text-gray-800 text-sm">طلبات بانتظار الموافقة ({pending.length})</h4>
+                <button type="button" onClick={loadPending} className="text-sm text-blue-600 hover:underline">
+                  <i className="fas fa-sync-alt ml-1"></i>
+                  تحديث
+                </button>
+              </div>
+              {pending.length === 0 ? (
+                <p className="text-sm text-gray-500">لا توجد طلبات</p>
+              ) : (
+                <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                  {pending.map((checkIn) => (
+                    <li key={checkIn.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                      <div className="min-w-0">
+                        <p className="font-medium text-gray-900 truncate">{checkIn.fullName}</p>
+                        <p className="text-xs text-gray-500">
+                          <span dir="ltr">{formatPhoneForDisplay(checkIn.phoneNumber, checkIn.countryCode)}</span>
+                          {' - '}
+                          {formatLocalDateTime(checkIn.createdAt)}
+                        </p>
+                      </div>
+                      <div className="flex gap-2 flex-shrink-0">
+                        <button
+                          type="button"
+                          onClick={() => handleResolve(checkIn, true)}
+                          disabled={busyCheckInId === checkIn.id}
+                          className="bg-green-50 text-green-700 hover:bg-green-100 px-2 py-1 rounded text-sm disabled:opacity-50"
+                          title="قبول وإضافة إلى قائمة الانتظار"
+                        >
+                          <i className="fas fa-check"></i>
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleResolve(checkIn, false)}
+                          disabled={busyCheckInId === checkIn.id}
+                          className="bg-red-50 text-red-600 hover:bg-red-100 px-2 py-1 rounded text-sm disabled:opacity-50"
+                          title="رفض"
+                        >
+                          <i className="fas fa-times"></i>
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+}
+
+function checkInErrorMessage(error: unknown, fallback: string): string {
+  return (error as { message?: string } | undefined)?.message || fallback;
+}
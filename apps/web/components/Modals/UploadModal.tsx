@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { useModal } from '@/contexts/ModalContext';
 import { useUI } from '@/contexts/UIContext';
 import { useQueue } from '@/contexts/QueueContext';
@@ -10,8 +10,53 @@ import { COUNTRY_CODES } from '@/constants';
 import CountryCodeSelector from '@/components/Common/CountryCodeSelector';
 import CustomCountryCodeInput from '@/components/Common/CustomCountryCodeInput';
 import { getEffectiveCountryCode } from '@/utils/core.utils';
+import { normalizePhone, validatePhoneByCountry } from '@/utils/phoneUtils';
 import { FILE_UPLOAD_CONFIG } from '@/config/app.config';
 import { patientsApiClient } from '@/services/api/patientsApiClient';
+import ColumnMappingStep from '@/components/Common/ColumnMappingStep';
+import DuplicateReviewPanel from '@/components/Common/DuplicateReviewPanel';
+import { useLocalStorage } from '@/hooks/useCustom';
+import { usePatientDuplicateCheck } from '@/hooks/usePatientDuplicateCheck';
+import ImportSummaryPanel from '@/components/Common/ImportSummaryPanel';
+import {
+  buildImportPlan,
+  getEffectiveUpdates,
+  getImportPositionItems,
+  getImportReviewMatches,
+  IMPORT_MODE_OPTIONS,
+  type ImportMode,
+  type ImportPlan,
+  type QueuePatientSnapshot,
+} from '@/utils/importModes';
+import {
+  findDuplicates,
+  getAllowedResolutions,
+  planPatientImport,
+  type DuplicateMatch,
+  type DuplicateResolution,
+  type ExistingPatient,
+  type PatientCandidate,
+} from '@/utils/patientDuplicates';
+import {
+  DEFAULT_MAPPING_OPTIONS,
+  applyPreset,
+  createPreset,
+  detectHeaderRow,
+  guessColumnRoles,
+  mapRows,
+  presetMatchesHeaders,
+  refineRolesWithSamples,
+  validateMapping,
+  type ColumnMappingPreset,
+  type ColumnRole,
+  type MappingOptions,
+  type SpreadsheetCell,
+} from '@/utils/spreadsheetMapping';
+import {
+  downloadErrorReport,
+  splitRowsByErrors,
+  type AcceptedUploadRows,
+} from '@/utils/uploadErrorReport';
 import logger from '@/utils/logger';
 
 interface FileError {
@@ -24,6 +69,13 @@ interface PreviewData {
   fileName: string;
 }
 
+interface UploadCandidate extends PatientCandidate {
+  row: number; // row of the preview table
+}
+
+// Columns of the preview table built from the mapped rows
+const PREVIEW_HEADERS = ['الاسم الكامل', 'كود الدولة', 'رقم الهاتف'];
+
 export default function UploadModal() {
   const { openModals, closeModal } = useModal();
   const { addToast } = useUI();
@@ -42,9 +94,50 @@ export default function UploadModal() {
   const [customCountryCode, setCustomCountryCode] = useState('');
   const [cellErrors, setCellErrors] = useState<{ [key: string]: string }>({});
   const [rowCustomCountries, setRowCustomCountries] = useState<{ [key: string]: string }>({});
+  const [sheets, setSheets] = useState<Record<string, SpreadsheetCell[][]> | null>(null);
+  const [selectedSheet, setSelectedSheet] = useState('');
+  const [columnRoles, setColumnRoles] = useState<ColumnRole[]>([]);
+  const [mappingOptions, setMappingOptions] = useState<MappingOptions>(DEFAULT_MAPPING_OPTIONS);
+  const [activePresetName, setActivePresetName] = useState<string | undefined>();
+  const [mappingPresets, setMappingPresets] = useLocalStorage<ColumnMappingPreset[]>('patientUploadMappingPresets', []);
+  const [duplicateReview, setDuplicateReview] = useState<{ candidates: UploadCandidate[]; existing: ExistingPatient[] } | null>(null);
+  const [resolutions, setResolutions] = useState<Record<number, DuplicateResolution>>({});
+  const [matchNames, setMatchNames] = useLocalStorage('patientDuplicateMatchNames', false);
+  const { loadExistingPatients, isChecking } = usePatientDuplicateCheck();
+  const [importMode, setImportMode] = useState<ImportMode>('append');
+  const [importPlan, setImportPlan] = useState<ImportPlan<UploadCandidate> | null>(null);
+  // Rows accepted before an error report was downloaded; merged into the corrected file's preview
+  const [acceptedRows, setAcceptedRows] = useLocalStorage<AcceptedUploadRows | null>('patientUploadAcceptedRows', null);
+  const [includeAcceptedRows, setIncludeAcceptedRows] = useState(true);
+  const [mergedAcceptedCount, setMergedAcceptedCount] = useState(0);
 
   const isOpen = openModals.has('upload');
 
+  const pendingAcceptedRows = acceptedRows && acceptedRows.queueId === selectedQueueId ? acceptedRows : null;
+
+  const rowSplit = useMemo(
+    () => (editablePreview ? splitRowsByErrors(editablePreview, cellErrors) : { accepted: [], rejected: [] }),
+    [editablePreview, cellErrors]
+  );
+
+  const duplicateMatches = useMemo(
+    () =>
+      duplicateReview && selectedQueueId
+        ? getImportReviewMatches(
+            importMode,
+            findDuplicates(duplicateReview.candidates, duplicateReview.existing, { queueId: selectedQueueId, matchNames })
+          )
+        : [],
+    [duplicateReview, selectedQueueId, matchNames, importMode]
+  );
+
+  // Layout of the selected sheet: header row (title rows above it are skipped) and data rows
+  const sheetNames = sheets ? Object.keys(sheets) : [];
+  const sheetRows = sheets?.[selectedSheet] ?? [];
+  const headerRowIdx = detectHeaderRow(sheetRows);
+  const mappingHeaders = sheetRows[headerRowIdx] ?? [];
+  const mappingDataRows = sheetRows.slice(headerRowIdx + 1);
+
   const validateFile = (file: File): FileError | null => {
     // Check file type
     const fileType = file.type as any;
@@ -66,81 +159,193 @@ export default function UploadModal() {
     return null;
   };
 
+  const resetMappingState = () => {
+    setSheets(null);
+    setSelectedSheet('');
+    setColumnRoles([]);
+    setMappingOptions(DEFAULT_MAPPING_OPTIONS);
+    setActivePresetName(undefined);
+  };
+
+  // Roles for a sheet: the first saved preset whose columns all exist, otherwise guessed from headers
+  const prepareMapping = (allSheets: Record<string, SpreadsheetCell[][]>, sheetName: string) => {
+    const rows = allSheets[sheetName] ?? [];
+    const headerIdx = detectHeaderRow(rows);
+    const headers = rows[headerIdx] ?? [];
+    const preset = mappingPresets.find((p) => presetMatchesHeaders(headers, p));
+
+    setSelectedSheet(sheetName);
+    if (preset) {
+      setColumnRoles(applyPreset(headers, preset));
+      setMappingOptions(preset.options);
+      setActivePresetName(preset.name);
+    } else {
+      setColumnRoles(refineRolesWithSamples(guessColumnRoles(headers), rows.slice(headerIdx + 1, headerIdx + 6)));
+      setMappingOptions(DEFAULT_MAPPING_OPTIONS);
+      setActivePresetName(undefined);
+    }
+  };
+
   const parseExcelPreview = async (file: File) => {
     try {
       const XLSX = await import('xlsx');
       const arrayBuffer = await file.arrayBuffer();
       const workbook = XLSX.read(arrayBuffer, { type: 'array' });
-      const worksheet = workbook.Sheets[workbook.SheetNames[0]];
-      const data = XLSX.utils.sheet_to_json(worksheet, { header: 1 }) as (string | number)[][];
 
-      if (data.length < 2) {
+      const allSheets: Record<string, SpreadsheetCell[][]> = {};
+      workbook.SheetNames.forEach((name) => {
+        allSheets[name] = XLSX.utils.sheet_to_json(workbook.Sheets[name], {
+          header: 1,
+          defval: '',
+          blankrows: false,
+        }) as SpreadsheetCell[][];
+      });
+
+      const usableSheets = workbook.SheetNames.filter((name) => allSheets[name].length >= 2);
+      if (usableSheets.length === 0) {
         addToast('الملف يجب أن يحتوي على رأس أعمدة وبيانات', 'error');
         return;
       }
 
-      // Get headers from first row
-      const headers = data[0].map(h => h?.toString() || '');
-      const phoneColIdx = headers.findIndex(h => h.includes('هاتف') || h.toLowerCase().includes('phone'));
-      const countryColIdx = headers.findIndex(h => h.includes('كود') || h.toLowerCase().includes('country'));
+      // Prefer the sheet a matching preset was saved for
+      const presetSheet = mappingPresets.find((p) => p.sheetName && usableSheets.includes(p.sheetName))?.sheetName;
 
-      // Process data: normalize phone numbers and validate
-      const processedData = data.map((row, rowIdx) => {
-        if (rowIdx === 0) return row; // Skip header
+      setPreviewData(null);
+      setEditablePreview(null);
+      setCellErrors({});
+      setRowCustomCountries({});
+      setSheets(allSheets);
+      prepareMapping(allSheets, presetSheet ?? usableSheets[0]);
+    } catch (error) {
+      // Swallow console to avoid noisy logs; surface feedback to user
+      addToast('حدث خطأ في قراءة الملف', 'error');
+    }
+  };
 
-        const processedRow = [...row];
-        const effectiveCountryCode = getEffectiveCountryCode(selectedCountryCode, customCountryCode);
+  const handleRoleChange = (columnIndex: number, role: ColumnRole) => {
+    setColumnRoles((prev) => prev.map((r, idx) => (idx === columnIndex ? role : r)));
+  };
 
-        // Normalize phone numbers
-        if (phoneColIdx >= 0 && processedRow[phoneColIdx]) {
-          const countryCode = countryColIdx >= 0 ? processedRow[countryColIdx]?.toString() : effectiveCountryCode;
-          processedRow[phoneColIdx] = processedRow[phoneColIdx]?.toString().trim() || ''; // Store phone number as-is, no normalization
-        }
+  const handleSavePreset = (name: string) => {
+    if (!name.trim()) return;
+    const preset = createPreset(name, mappingHeaders, columnRoles, mappingOptions, sheetNames.length > 1 ? selectedSheet : undefined);
+    setMappingPresets([...mappingPresets.filter((p) => p.name !== preset.name), preset]);
+    setActivePresetName(preset.name);
+    addToast(`تم حفظ إعداد الربط: ${preset.name}`, 'success');
+  };
 
-        return processedRow;
-      });
+  const handleDeletePreset = (name: string) => {
+    setMappingPresets(mappingPresets.filter((p) => p.name !== name));
+    setActivePresetName(undefined);
+    addToast(`تم حذف إعداد الربط: ${name}`, 'info');
+  };
 
-      // Validate data rows (skip header)
-      let validationWarnings = 0;
-      const newCellErrors: { [key: string]: string } = {};
+  // Build the editable preview from all mapped rows of the selected sheet
+  const handleConfirmMapping = () => {
+    const mappingError = validateMapping(columnRoles);
+    if (mappingError) {
+      addToast(mappingError, 'error');
+      return;
+    }
 
-      for (let i = 1; i < Math.min(processedData.length, 6); i++) {
-        const row = processedData[i];
+    const mapped = mapRows(mappingDataRows, columnRoles, mappingOptions, headerRowIdx + 2);
+    if (mapped.length === 0) {
+      addToast('لا توجد بيانات في الورقة المختارة', 'error');
+      return;
+    }
 
-        // Validate phone number format if exists (national number only, no country code)
-        if (phoneColIdx >= 0 && row[phoneColIdx]) {
-          const phoneRegex = /^\d{5,15}$/; // 5-15 digits for national phone number
-          if (!phoneRegex.test(row[phoneColIdx]?.toString() || '')) {
-            newCellErrors[`${i}-${phoneColIdx}`] = 'صيغة هاتف غير صحيحة';
-            validationWarnings++;
-          }
+    const effectiveCountryCode = getEffectiveCountryCode(selectedCountryCode, customCountryCode);
+    const previousRows = includeAcceptedRows && pendingAcceptedRows ? pendingAcceptedRows.rows : [];
+    const table: (string | number)[][] = [
+      [...PREVIEW_HEADERS],
+      ...previousRows,
+      ...mapped.map((row) => [row.fullName, row.countryCode || effectiveCountryCode, row.phoneNumber]),
+    ];
+    setMergedAcceptedCount(previousRows.length);
+
+    // Validate data rows (skip header)
+    let validationWarnings = 0;
+    const newCellErrors: { [key: string]: string } = {};
+
+    for (let i = 1; i < table.length; i++) {
+      const [, countryCode, phoneNumber] = table[i];
+
+      // Validate phone number against the country's numbering plan; valid numbers are kept normalized
+      // (trunk prefix removed, country taken from numbers written with 00 / +)
+      if (phoneNumber) {
+        const phoneError = validatePhoneByCountry(String(phoneNumber), String(countryCode));
+        const normalized = phoneError ? null : normalizePhone(String(phoneNumber), String(countryCode)).phone;
+        if (phoneError) {
+          newCellErrors[`${i}-2`] = phoneError;
+          validationWarnings++;
+        } else if (normalized) {
+          table[i] = [table[i][0], normalized.countryCode, normalized.nationalNumber];
         }
+      }
 
-        // Validate country code if exists
-        if (countryColIdx >= 0 && row[countryColIdx]) {
-          const countryCodeError = validateCountryCode(row[countryColIdx]?.toString() || '', true);
-          if (countryCodeError) {
-            newCellErrors[`${i}-${countryColIdx}`] = countryCodeError;
-            validationWarnings++;
-          }
+      // Validate country code if exists
+      if (countryCode && countryCode !== 'OTHER') {
+        const countryCodeError = validateCountryCode(String(countryCode), true);
+        if (countryCodeError) {
+          newCellErrors[`${i}-1`] = countryCodeError;
+          validationWarnings++;
         }
       }
+    }
 
-      setCellErrors(newCellErrors);
+    setCellErrors(newCellErrors);
+    setRowCustomCountries({});
 
-      if (validationWarnings > 0) {
-        addToast(`تحذير: ${validationWarnings} خطأ في البيانات (يمكن تصحيحها)`, 'warning');
-      }
+    if (validationWarnings > 0) {
+      addToast(`تحذير: ${validationWarnings} خطأ في البيانات (يمكن تصحيحها)`, 'warning');
+    }
+
+    setPreviewData({
+      data: table,
+      fileName,
+    });
+    setEditablePreview(table);
+  };
+
+  const handleBackToMapping = () => {
+    setPreviewData(null);
+    setEditablePreview(null);
+    setCellErrors({});
+    setRowCustomCountries({});
+    setMergedAcceptedCount(0);
+  };
+
+  // Download the rejected rows for fixing in Excel and remember the accepted ones for the re-upload
+  const handleDownloadErrorReport = async () => {
+    if (!editablePreview || !selectedQueueId || rowSplit.rejected.length === 0) return;
 
-      const previewSlice = processedData.slice(0, 6);
-      setPreviewData({
-        data: previewSlice,
-        fileName: file.name
+    try {
+      const baseName = fileName.replace(/\.[^.]+$/, '') || 'patients';
+      await downloadErrorReport(editablePreview[0], rowSplit.rejected, `${baseName}-أخطاء.xlsx`);
+
+      // "OTHER" country codes are resolved so the remembered rows stand on their own
+      const countryCodeIdx = 1;
+      const resolvedAccepted = rowSplit.accepted.map((row) => {
+        if (row[countryCodeIdx] !== 'OTHER') return row;
+        const rowIdx = editablePreview.indexOf(row);
+        const code = rowCustomCountries[`${rowIdx}-${countryCodeIdx}`] || getEffectiveCountryCode(selectedCountryCode, customCountryCode);
+        return row.map((cell, idx) => (idx === countryCodeIdx ? code : cell));
       });
-      setEditablePreview(previewSlice);
+      setAcceptedRows(
+        resolvedAccepted.length > 0
+          ? { queueId: selectedQueueId, fileName, rows: resolvedAccepted, savedAt: new Date().toISOString() }
+          : null
+      );
+
+      addToast(
+        `تم تحميل تقرير الأخطاء (${rowSplit.rejected.length} صف). ` +
+          (resolvedAccepted.length > 0 ? `تم حفظ ${resolvedAccepted.length} صف مقبول، ` : '') +
+          'صحح الملف ثم أعد رفعه',
+        'success'
+      );
     } catch (error) {
-      // Swallow console to avoid noisy logs; surface feedback to user
-      addToast('حدث خطأ في قراءة الملف', 'error');
+      logger.error('Failed to download upload error report:', error);
+      addToast('حدث خطأ أثناء تحميل تقرير الأخطاء', 'error');
     }
   };
 
@@ -150,6 +355,7 @@ export default function UploadModal() {
     const columnName = previewData.data[0][cellIdx]?.toString() || '';
     let processedValue = sanitizeInput(value);
     const cellKey = `${rowIdx}-${cellIdx}`;
+    let detectedCountryCode: { idx: number; code: string } | null = null;
 
     // Special handling for country code columns
     if (columnName === 'كود الدولة' || columnName.toLowerCase().includes('country')) {
@@ -184,15 +390,24 @@ export default function UploadModal() {
         rowCountryCode = rowCustomCountries[`${rowIdx}-${countryCodeIdx}`] || getEffectiveCountryCode(selectedCountryCode, customCountryCode);
       }
 
-      processedValue = value.trim(); // Store phone number as-is, no normalization
+      processedValue = value.trim();
 
-      // Validate phone format (national number only, no country code)
-      const phoneRegex = /^\d{5,15}$/; // 5-15 digits for national phone number
-      if (!phoneRegex.test(processedValue)) {
-        setCellErrors({ ...cellErrors, [cellKey]: 'صيغة الهاتف غير صحيحة' });
-        addToast('صيغة الهاتف غير صحيحة. يجب أن يكون الرقم بين 5 و 15 رقم', 'error');
+      // Validate against the country's numbering plan
+      const phoneError = validatePhoneByCountry(processedValue, rowCountryCode);
+      if (phoneError) {
+        setCellErrors({ ...cellErrors, [cellKey]: phoneError });
+        addToast(`خطأ في رقم الهاتف: ${phoneError}`, 'error');
         return;
       }
+
+      // Store the national number; a number written with 00 / + also sets the row's country code
+      const normalized = normalizePhone(processedValue, rowCountryCode).phone;
+      if (normalized) {
+        processedValue = normalized.nationalNumber;
+        if (countryCodeIdx >= 0 && normalized.countryCode !== rowCountryCode) {
+          detectedCountryCode = { idx: countryCodeIdx, code: normalized.countryCode };
+        }
+      }
     }
 
     // Clear error for this cell if validation passed
@@ -202,7 +417,11 @@ export default function UploadModal() {
 
     const updated = editablePreview.map((row, rIdx) =>
       rIdx === rowIdx
-        ? row.map((cell, cIdx) => (cIdx === cellIdx ? processedValue : cell))
+        ? row.map((cell, cIdx) => {
+            if (cIdx === cellIdx) return processedValue;
+            if (detectedCountryCode && cIdx === detectedCountryCode.idx) return detectedCountryCode.code;
+            return cell;
+          })
         : row
     );
     setEditablePreview(updated);
@@ -335,6 +554,7 @@ export default function UploadModal() {
         setFile(null);
         setFileName('');
         setPreviewData(null);
+        resetMappingState();
         addToast(error.message, 'error');
       } else {
         setFile(selectedFile);
@@ -373,6 +593,7 @@ export default function UploadModal() {
         setFile(null);
         setFileName('');
         setPreviewData(null);
+        resetMappingState();
         addToast(error.message, 'error');
       } else {
         setFile(selectedFile);
@@ -440,82 +661,243 @@ export default function UploadModal() {
       return;
     }
 
+    // Collect the rows to add (empty rows skipped, "OTHER" country codes resolved)
+    const candidates: UploadCandidate[] = [];
+    editablePreview.slice(1).forEach((row, rowIdx) => {
+      const actualRowIdx = rowIdx + 1;
+
+      // Extract data from row
+      const fullName = row[nameColIdx]?.toString().trim() || '';
+      const phoneNumber = row[phoneColIdx]?.toString().trim() || '';
+
+      // Skip empty rows
+      if (!fullName || !phoneNumber) {
+        return;
+      }
+
+      // Get country code
+      let countryCode = row[countryCodeIdx]?.toString() || getEffectiveCountryCode(selectedCountryCode, customCountryCode);
+
+      // If country code is "OTHER", use the custom code from rowCustomCountries
+      if (countryCode === 'OTHER') {
+        const cellKey = `${actualRowIdx}-${countryCodeIdx}`;
+        countryCode = rowCustomCountries[cellKey] || getEffectiveCountryCode(selectedCountryCode, customCountryCode);
+      }
+
+      candidates.push({ fullName, phoneNumber, countryCode, row: actualRowIdx });
+    });
+
     try {
       setIsProcessing(true);
-      addToast('جاري معالجة الملف...', 'info');
 
-      // Process data with custom country codes
-      const dataRows = editablePreview.slice(1);
-      let addedCount = 0;
-      let failedCount = 0;
+      // Check the queue and the moderator's other active queues for the same patients (every import mode)
+      const existing = await loadExistingPatients(selectedQueueId);
+      const matches = getImportReviewMatches(
+        importMode,
+        findDuplicates(candidates, existing, { queueId: selectedQueueId, matchNames })
+      );
+      if (matches.length > 0) {
+        setResolutions({});
+        setDuplicateReview({ candidates, existing });
+        return;
+      }
 
-      for (let rowIdx = 0; rowIdx < dataRows.length; rowIdx++) {
-        const row = dataRows[rowIdx];
-        const actualRowIdx = rowIdx + 1;
+      if (importMode !== 'append') {
+        await prepareImportPlan(candidates);
+        return;
+      }
 
-        // Extract data from row
-        const fullName = row[nameColIdx]?.toString().trim() || '';
-        const phoneNumber = row[phoneColIdx]?.toString().trim() || '';
+      await uploadPatients(candidates, [], {});
+    } catch (error) {
+      addToast('حدث خطأ أثناء رفع الملف', 'error');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
 
-        // Skip empty rows
-        if (!fullName || !phoneNumber) {
-          continue;
-        }
+  // Replace/merge: dry run against the queue's current patients before saving anything
+  const prepareImportPlan = async (candidates: UploadCandidate[]) => {
+    if (!selectedQueueId) return;
+
+    const response = await patientsApiClient.getPatients(Number(selectedQueueId));
+    const queuePatients: QueuePatientSnapshot[] = response.items.map((p) => ({
+      id: p.id,
+      fullName: p.fullName,
+      phoneNumber: p.phoneNumber,
+      countryCode: p.countryCode || '',
+      position: p.position,
+      status: p.status,
+    }));
+    setImportPlan(buildImportPlan(importMode, candidates, queuePatients));
+  };
 
-        // Get country code
-        let countryCode = row[countryCodeIdx]?.toString() || getEffectiveCountryCode(selectedCountryCode, customCountryCode);
+  // Create new patients and update overwritten ones according to the duplicate resolutions
+  const uploadPatients = async (
+    candidates: UploadCandidate[],
+    matches: DuplicateMatch[],
+    rowResolutions: Record<number, DuplicateResolution>
+  ) => {
+    if (!selectedQueueId) return;
 
-        // If country code is "OTHER", use the custom code from rowCustomCountries
-        if (countryCode === 'OTHER') {
-          const cellKey = `${actualRowIdx}-${countryCodeIdx}`;
-          countryCode = rowCustomCountries[cellKey] || getEffectiveCountryCode(selectedCountryCode, customCountryCode);
-        }
+    addToast('جاري معالجة الملف...', 'info');
 
-        try {
-          await patientsApiClient.createPatient({
-            queueId: queueIdNum,
-            fullName,
-            phoneNumber,
-            countryCode,
-          });
-          addedCount++;
-        } catch (err) {
-          failedCount++;
-          const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-          logger.error(`Failed to add patient: ${fullName}`, {
-            error: errorMessage,
-            row: actualRowIdx,
-          });
-        }
+    const queueIdNum = Number(selectedQueueId);
+    const plan = planPatientImport(candidates, matches, rowResolutions);
+    let addedCount = 0;
+    let updatedCount = 0;
+    let failedCount = 0;
+
+    for (const candidate of plan.create) {
+      try {
+        await patientsApiClient.createPatient({
+          queueId: queueIdNum,
+          fullName: candidate.fullName,
+          phoneNumber: candidate.phoneNumber,
+          countryCode: candidate.countryCode,
+        });
+        addedCount++;
+      } catch (err) {
+        failedCount++;
+        const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+        logger.error(`Failed to add patient: ${candidate.fullName}`, {
+          error: errorMessage,
+          row: candidate.row,
+        });
+      }
+    }
+
+    for (const { id, candidate } of plan.update) {
+      try {
+        await patientsApiClient.updatePatient(id, {
+          fullName: candidate.fullName,
+          phoneNumber: candidate.phoneNumber,
+          countryCode: candidate.countryCode,
+        });
+        updatedCount++;
+      } catch (err) {
+        failedCount++;
+        const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+        logger.error(`Failed to update patient: ${candidate.fullName}`, {
+          error: errorMessage,
+          row: candidate.row,
+        });
       }
+    }
 
-      // Show result message
-      if (addedCount > 0) {
-        // Refresh patients list
-        await refreshPatients(selectedQueueId);
+    // Show result message
+    if (addedCount > 0 || updatedCount > 0) {
+      // Refresh patients list
+      await refreshPatients(selectedQueueId);
+
+      const message = [
+        `تم رفع الملف بنجاح - تم إضافة ${addedCount} مريض`,
+        updatedCount > 0 ? `تحديث ${updatedCount}` : '',
+        plan.skipped > 0 ? `تخطي ${plan.skipped} مكرر` : '',
+        failedCount > 0 ? `${failedCount} فشل` : '',
+      ].filter(Boolean).join('، ');
+      addToast(message, 'success');
+
+      // Dispatch event to notify other components
+      window.dispatchEvent(new CustomEvent('patientDataUpdated'));
+    } else if (failedCount === 0 && plan.skipped > 0) {
+      addToast(`لم تتم إضافة مرضى - تم تخطي ${plan.skipped} مريض مكرر`, 'info');
+    } else {
+      addToast('فشل إضافة المرضى', 'error');
+    }
 
-        const message = failedCount > 0
-          ? `تم إضافة ${addedCount} مريض بنجاح (${failedCount} فشل)`
-          : `تم رفع الملف بنجاح - تم إضافة ${addedCount} مريض`;
-        addToast(message, 'success');
+    resetAfterUpload();
+  };
 
-        // Dispatch event to notify other components
-        window.dispatchEvent(new CustomEvent('patientDataUpdated'));
-      } else {
-        addToast('فشل إضافة المرضى', 'error');
+  // Apply a confirmed replace/merge plan: trash removed patients, update names, create new rows, then reorder
+  const applyImportPlan = async (plan: ImportPlan<UploadCandidate>) => {
+    if (!selectedQueueId) return;
+
+    addToast('جاري معالجة الملف...', 'info');
+
+    const queueIdNum = Number(selectedQueueId);
+    const createdIds: Record<number, number> = {};
+    let addedCount = 0;
+    let updatedCount = 0;
+    let removedCount = 0;
+    let failedCount = 0;
+
+    for (const patient of plan.remove) {
+      try {
+        await patientsApiClient.deletePatient(patient.id);
+        removedCount++;
+      } catch (err) {
+        failedCount++;
+        logger.error(`Failed to move patient to trash: ${patient.fullName}`, { id: patient.id, fullError: err });
       }
+    }
 
-      // Reset all states
-      setFile(null);
-      setFileName('');
-      setFileError(null);
-      setPreviewData(null);
-      setEditablePreview(null);
-      setSelectedCountryCode('+20');
-      setCustomCountryCode('');
-      setRowCustomCountries({});
-      setCellErrors({});
-      closeModal('upload');
+    for (const update of getEffectiveUpdates(plan)) {
+      if (!update.nameChanged) {
+        updatedCount++; // position only - applied by the reorder below
+        continue;
+      }
+      try {
+        await patientsApiClient.updatePatient(update.patient.id, { fullName: update.candidate.fullName });
+        updatedCount++;
+      } catch (err) {
+        failedCount++;
+        logger.error(`Failed to update patient: ${update.candidate.fullName}`, { row: update.candidate.row, fullError: err });
+      }
+    }
+
+    for (const { candidateIndex, candidate } of plan.add) {
+      try {
+        const created = await patientsApiClient.createPatient({
+          queueId: queueIdNum,
+          fullName: candidate.fullName,
+          phoneNumber: candidate.phoneNumber,
+          countryCode: candidate.countryCode,
+        });
+        createdIds[candidateIndex] = created.id;
+        addedCount++;
+      } catch (err) {
+        failedCount++;
+        const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+        logger.error(`Failed to add patient: ${candidate.fullName}`, {
+          error: errorMessage,
+          row: candidate.row,
+        });
+      }
+    }
+
+    // Waiting order follows the file, at the positions shown in the dry run; rows that failed to be created are left out
+    const positionItems = getImportPositionItems(plan, createdIds);
+    if (positionItems.length > 0) {
+      try {
+        await patientsApiClient.assignPatientPositions({
+          queueId: queueIdNum,
+          items: positionItems,
+        });
+      } catch (err) {
+        logger.error('Failed to reorder patients after import:', err);
+        addToast('تم حفظ المرضى لكن فشل تحديث الترتيب', 'warning');
+      }
+    }
+
+    await refreshPatients(selectedQueueId);
+    window.dispatchEvent(new CustomEvent('patientDataUpdated'));
+
+    const message = [
+      `إضافة ${addedCount}`,
+      `تحديث ${updatedCount}`,
+      plan.mode === 'replace' ? `نقل ${removedCount} لسلة المحذوفات` : '',
+      failedCount > 0 ? `${failedCount} فشل` : '',
+    ].filter(Boolean).join('، ');
+    addToast(`تم تطبيق الملف: ${message}`, failedCount > 0 ? 'warning' : 'success');
+
+    resetAfterUpload();
+  };
+
+  const handleConfirmImportPlan = async () => {
+    if (!importPlan) return;
+    try {
+      setIsProcessing(true);
+      await applyImportPlan(importPlan);
     } catch (error) {
       addToast('حدث خطأ أثناء رفع الملف', 'error');
     } finally {
@@ -523,6 +905,53 @@ export default function UploadModal() {
     }
   };
 
+  const resetAfterUpload = () => {
+    // Reset all states
+    setFile(null);
+    setFileName('');
+    setFileError(null);
+    setPreviewData(null);
+    setEditablePreview(null);
+    setSelectedCountryCode('+20');
+    setCustomCountryCode('');
+    setRowCustomCountries({});
+    setCellErrors({});
+    resetMappingState();
+    setDuplicateReview(null);
+    setImportPlan(null);
+    setImportMode('append');
+    if (mergedAcceptedCount > 0) setAcceptedRows(null);
+    setMergedAcceptedCount(0);
+    closeModal('upload');
+  };
+
+  const handleConfirmDuplicates = async () => {
+    if (!duplicateReview) return;
+    try {
+      setIsProcessing(true);
+      if (importMode !== 'append') {
+        // Rows resolved as skip stay out of the replace/merge plan (other queues' matches allow skip/keep both only)
+        const kept = planPatientImport(duplicateReview.candidates, duplicateMatches, resolutions).create;
+        setDuplicateReview(null);
+        await prepareImportPlan(kept);
+        return;
+      }
+      await uploadPatients(duplicateReview.candidates, duplicateMatches, resolutions);
+    } catch (error) {
+      addToast('حدث خطأ أثناء رفع الملف', 'error');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const applyResolutionToAll = (resolution: DuplicateResolution) => {
+    const updated: Record<number, DuplicateResolution> = {};
+    duplicateMatches.forEach((match) => {
+      if (getAllowedResolutions(match).includes(resolution)) updated[match.index] = resolution;
+    });
+    setResolutions({ ...resolutions, ...updated });
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -542,6 +971,11 @@ export default function UploadModal() {
         setCustomCountryCode('');
         setCellErrors({});
         setRowCustomCountries({});
+        resetMappingState();
+        setDuplicateReview(null);
+        setImportPlan(null);
+        setImportMode('append');
+        setMergedAcceptedCount(0);
       }}
       title="رفع ملف المرضى"
       size="xl"
@@ -594,16 +1028,104 @@ export default function UploadModal() {
           </button>
         </div>
 
+        {/* Rows accepted from a previous file (before its error report was downloaded) */}
+        {sheets && !previewData && pendingAcceptedRows && (
+          <div className="bg-emerald-50 border border-emerald-200 rounded-lg p-3 text-sm text-emerald-800 flex items-center justify-between gap-3">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={includeAcceptedRows}
+                onChange={(e) => setIncludeAcceptedRows(e.target.checked)}
+                className="rounded"
+              />
+              دمج {pendingAcceptedRows.rows.length} صف مقبول من الملف السابق ({pendingAcceptedRows.fileName})
+            </label>
+            <button
+              type="button"
+              onClick={() => setAcceptedRows(null)}
+              className="text-xs text-emerald-700 hover:text-emerald-900 underline"
+            >
+              مسح الصفوف المحفوظة
+            </button>
+          </div>
+        )}
+
+        {/* Column Mapping */}
+        {sheets && !previewData && (
+          <ColumnMappingStep
+            sheetNames={sheetNames}
+            selectedSheet={selectedSheet}
+            onSheetChange={(name) => prepareMapping(sheets, name)}
+            headers={mappingHeaders}
+            sampleRows={mappingDataRows.slice(0, 5)}
+            roles={columnRoles}
+            onRoleChange={handleRoleChange}
+            options={mappingOptions}
+            onOptionsChange={setMappingOptions}
+            presets={mappingPresets}
+            activePresetName={activePresetName}
+            onApplyPreset={(preset) => {
+              setColumnRoles(applyPreset(mappingHeaders, preset));
+              setMappingOptions(preset.options);
+              setActivePresetName(preset.name);
+            }}
+            onSavePreset={handleSavePreset}
+            onDeletePreset={handleDeletePreset}
+            mappingError={validateMapping(columnRoles)}
+            onConfirm={handleConfirmMapping}
+            disabled={isProcessing}
+          />
+        )}
+
+        {/* Duplicate Review */}
+        {duplicateReview && (
+          <DuplicateReviewPanel
+            candidates={duplicateReview.candidates}
+            matches={duplicateMatches}
+            resolutions={resolutions}
+            onResolutionChange={(index, resolution) => setResolutions({ ...resolutions, [index]: resolution })}
+            onApplyToAll={applyResolutionToAll}
+            matchNames={matchNames}
+            onMatchNamesChange={setMatchNames}
+            onConfirm={handleConfirmDuplicates}
+            onCancel={() => setDuplicateReview(null)}
+            isProcessing={isProcessing}
+          />
+        )}
+
+        {/* Import Dry Run */}
+        {importPlan && (
+          <ImportSummaryPanel
+            plan={importPlan}
+            onConfirm={handleConfirmImportPlan}
+            onCancel={() => setImportPlan(null)}
+            isProcessing={isProcessing}
+          />
+        )}
+
         {/* File Preview from Uploaded File - moved to top */}
-        {previewData && editablePreview && (
+        {previewData && editablePreview && !duplicateReview && !importPlan && (
           <div className="bg-green-50 border border-green-200 rounded-lg p-4 space-y-3">
             <div className="flex items-center justify-between">
               <h4 className="font-medium text-green-800 flex items-center gap-2">
                 <i className="fas fa-eye"></i>
                 معاينة البيانات المرفوعة
               </h4>
-              <div className="text-xs text-green-700">
-                <span className="font-semibold">{editablePreview.length - 1}</span> صف متوفر للمراجعة
+              <div className="flex items-center gap-3 text-xs text-green-700">
+                <span>
+                  <span className="font-semibold">{editablePreview.length - 1}</span> صف متوفر للمراجعة
+                </span>
+                {sheets && (
+                  <button
+                    type="button"
+                    onClick={handleBackToMapping}
+                    disabled={isProcessing}
+                    className="text-indigo-700 hover:text-indigo-800 underline disabled:opacity-50"
+                  >
+                    <i className="fas fa-columns ml-1"></i>
+                    تعديل ربط الأعمدة
+                  </button>
+                )}
               </div>
             </div>
 
@@ -642,6 +1164,38 @@ export default function UploadModal() {
               )}
             </div>
 
+            {/* Import Mode */}
+            <fieldset className="bg-white border border-green-200 rounded-lg p-3">
+              <legend className="text-sm font-medium text-gray-700 px-1">
+                <i className="fas fa-random ml-2"></i>
+                طريقة الاستيراد:
+              </legend>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                {IMPORT_MODE_OPTIONS.map((option) => (
+                  <label
+                    key={option.mode}
+                    className={`flex items-start gap-2 p-2 border rounded-lg cursor-pointer text-sm transition ${
+                      importMode === option.mode ? 'border-green-500 bg-green-50' : 'border-gray-200 hover:border-green-300'
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="uploadModal-importMode"
+                      value={option.mode}
+                      checked={importMode === option.mode}
+                      onChange={() => setImportMode(option.mode)}
+                      disabled={isProcessing}
+                      className="mt-1"
+                    />
+                    <span>
+                      <span className="font-medium text-gray-800 block">{option.label}</span>
+                      <span className="text-xs text-gray-500">{option.description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
             {/* Data Table */}
             <div className="overflow-x-auto border border-green-200 rounded-lg">
               <table className="w-full text-sm">
@@ -770,16 +1324,34 @@ export default function UploadModal() {
               </button>
             </div>
 
-            {Object.keys(cellErrors).length > 0 && (
+            {mergedAcceptedCount > 0 && (
+              <p className="text-xs text-emerald-700">
+                <i className="fas fa-check-circle ml-1"></i>
+                الصفوف 1-{mergedAcceptedCount} مقبولة من الملف السابق
+              </p>
+            )}
+
+            {rowSplit.rejected.length > 0 && (
               <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
-                <p className="font-semibold flex items-center gap-2">
-                  <i className="fas fa-exclamation-triangle"></i>
-                  تنبيهات التحقق من البيانات:
-                </p>
+                <div className="flex items-center justify-between gap-2">
+                  <p className="font-semibold flex items-center gap-2">
+                    <i className="fas fa-exclamation-triangle"></i>
+                    تنبيهات التحقق من البيانات ({rowSplit.rejected.length} صف):
+                  </p>
+                  <button
+                    type="button"
+                    onClick={handleDownloadErrorReport}
+                    className="bg-white border border-red-300 text-red-700 hover:bg-red-100 px-3 py-1 rounded text-xs flex items-center gap-1 transition-colors"
+                    title="تحميل الصفوف المرفوضة مع الأخطاء لتصحيحها في Excel ثم إعادة رفعها"
+                  >
+                    <i className="fas fa-file-excel"></i>
+                    تحميل تقرير الأخطاء
+                  </button>
+                </div>
                 <ul className="mt-2 space-y-1 text-xs">
-                  {Object.entries(cellErrors).map(([key, error]) => (
-                    <li key={key}>
-                      <span className="font-semibold">صف {key.split('-')[0]}:</span> {error}
+                  {rowSplit.rejected.map(({ row, errors }) => (
+                    <li key={row}>
+                      <span className="font-semibold">صف {row}:</span> {Object.values(errors).join('، ')}
                     </li>
                   ))}
                 </ul>
@@ -851,6 +1423,10 @@ export default function UploadModal() {
                   <i className="fas fa-check-circle text-green-500 flex-shrink-0"></i>
                   <span>العمود الثالث: رقم الهاتف (مطلوب)</span>
                 </p>
+                <p className="flex items-center gap-2">
+                  <i className="fas fa-check-circle text-green-500 flex-shrink-0"></i>
+                  <span>ملف بترتيب أو أسماء أعمدة مختلفة؟ يمكنك ربط الأعمدة بعد اختيار الملف وحفظ الربط للمرات القادمة</span>
+                </p>
               </div>
 
               {/* Download Sample Button */}
@@ -939,8 +1515,8 @@ export default function UploadModal() {
           <button
             type="button"
             onClick={handleUpload}
-            disabled={isProcessing || !file}
-            className={`flex-1 py-2 rounded-lg transition-all flex items-center justify-center gap-2 ${isProcessing || !file
+            disabled={isProcessing || !file || !editablePreview || !!duplicateReview || !!importPlan}
+            className={`flex-1 py-2 rounded-lg transition-all flex items-center justify-center gap-2 ${isProcessing || !file || !editablePreview || duplicateReview || importPlan
                 ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
                 : 'bg-green-600 text-white hover:bg-green-700'
               }`}
@@ -948,12 +1524,12 @@ export default function UploadModal() {
             {isProcessing ? (
               <>
                 <i className="fas fa-spinner fa-spin"></i>
-                جاري الرفع...
+                {isChecking ? 'جاري التحقق من التكرار...' : 'جاري الرفع...'}
               </>
             ) : (
               <>
-                <i className="fas fa-upload"></i>
-                رفع ومعالجة
+                <i className={`fas ${importMode === 'append' ? 'fa-upload' : 'fa-clipboard-check'}`}></i>
+                {importMode === 'append' ? 'رفع ومعالجة' : 'معاينة التغييرات'}
               </>
             )}
           </button>
@@ -969,6 +1545,10 @@ export default function UploadModal() {
               setEditablePreview(null);
               setShowFileInfo(false);
               setShowRequirements(false);
+              resetMappingState();
+              setDuplicateReview(null);
+              setImportPlan(null);
+              setImportMode('append');
             }}
             disabled={isProcessing}
             className="flex-1 bg-gray-300 text-gray-700 py-2 rounded-lg hover:bg-gray-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
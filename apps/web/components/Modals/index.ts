@@ -1,5 +1,7 @@
 // Export all modal components for easy importing
 export { default as AddQueueModal } from './AddQueueModal';
+export { default as DuplicateQueueModal } from './DuplicateQueueModal';
+export { default as QueueCheckInModal } from './QueueCheckInModal';
 export { default as AddPatientModal } from './AddPatientModal';
 export { default as UploadModal } from './UploadModal';
 export { default as AddTemplateModal } from './AddTemplateModal';
@@ -11,6 +13,7 @@ export { default as EditQueueModal } from './EditQueueModal';
 export { default as EditUserModal } from './EditUserModal';
 export { default as AddUserModal } from './AddUserModal';
 export { default as EditPatientModal } from './EditPatientModal';
+export { default as PatientConversationModal } from './PatientConversationModal';
 export { default as MessageSelectionModal } from './MessageSelectionModal';
 export { default as MessagePreviewModal } from './MessagePreviewModal';
 export { default as ManageConditionsModal } from './ManageConditionsModal';
@@ -0,0 +1,88 @@
+'use client';
+
+import { usePublicQueueStatus } from '@/hooks/usePublicQueueStatus';
+import { getQueueStatusView } from '@/utils/queueStatus';
+import { formatLocalDateTime } from '@/utils/dateTimeUtils';
+
+interface QueueStatusScreenProps {
+  token: string;
+}
+
+/**
+ * QueueStatusScreen - Public (no login), read-only live queue status opened from the {LINK} in a patient's message:
+ * the number inside now (CQP), the patient's own number and the estimated time remaining
+ */
+export default function QueueStatusScreen({ token }: QueueStatusScreenProps) {
+  const { status, error, isLive } = usePublicQueueStatus(token);
+  const view = status ? getQueueStatusView(status) : null;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-600 to-purple-700 p-4">
+      <div className="bg-white p-8 rounded-2xl shadow-2xl w-full max-w-md">
+        <div className="text-center mb-6">
+          <div className="bg-blue-100 w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4">
+            <i className="fas fa-users text-blue-600 text-2xl"></i>
+          </div>
+          <h1 className="text-2xl font-bold text-gray-800 mb-1">متابعة الدور</h1>
+          {status && <p className="text-gray-600">{status.doctorName}</p>}
+        </div>
+
+        {error && !status ? (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-center text-red-700">{error}</div>
+        ) : !status || !view ? (
+          <div className="text-center text-gray-600">
+            <div className="inline-block animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600 mb-3"></div>
+            <p>جاري التحميل...</p>
+          </div>
+        ) : (
+          <div className="space-y-4" aria-live="polite">
+            {status.patientFirstName && (
+              <p className="text-center text-gray-700">مرحباً {status.patientFirstName}</p>
+            )}
+
+            <div className="grid grid-cols-2 gap-3 text-center">
+              <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+                <p className="text-sm text-gray-600 mb-1">الرقم الحالي</p>
+                <p className="text-4xl font-bold text-blue-700">{status.currentPosition}</p>
+              </div>
+              <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+                <p className="text-sm text-gray-600 mb-1">رقمك</p>
+                <p className="text-4xl font-bold text-green-700">{status.patientPosition}</p>
+              </div>
+            </div>
+
+            {view.state === 'waiting' && (
+              <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 text-center">
+                <p className="text-gray-800">
+                  أمامك <span className="font-bold">{view.ahead}</span> {view.ahead === 1 ? 'مريض' : 'مرضى'}
+                </p>
+                <p className="text-sm text-gray-600 mt-1">الوقت المتبقي المقدر: {view.etrText}</p>
+              </div>
+            )}
+            {view.state === 'your_turn' && (
+              <div className="bg-green-100 border border-green-300 rounded-lg p-4 text-center text-green-800 font-bold text-lg">
+                <i className="fas fa-bell ml-2"></i>
+                حان دورك، تفضل بالدخول
+              </div>
+            )}
+            {view.state === 'done' && (
+              <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-center text-blue-800">
+                تم الكشف، نتمنى لك الشفاء العاجل
+              </div>
+            )}
+            {view.state === 'cancelled' && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-center text-yellow-800">
+                تم إلغاء دورك، برجاء مراجعة الاستقبال
+              </div>
+            )}
+
+            <p className="text-xs text-gray-500 text-center flex items-center justify-center gap-2">
+              <span className={`inline-block w-2 h-2 rounded-full ${isLive ? 'bg-green-500' : 'bg-gray-400'}`}></span>
+              {isLive ? 'تحديث مباشر' : 'يتم التحديث كل دقيقة'} - آخر تحديث: {formatLocalDateTime(status.updatedAt)}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+'use client';
+
+import { useState, useEffect, useCallback, type FormEvent } from 'react';
+import CountryCodeSelector from '@/components/Common/CountryCodeSelector';
+import { checkInApiClient, type PublicCheckInInfoDto, type SubmitCheckInResult } from '@/services/api/checkInApiClient';
+import {
+  buildCheckInRequest,
+  getCheckInCooldownRemaining,
+  validateCheckInForm,
+  CHECK_IN_COOLDOWN_SECONDS,
+  CHECK_IN_LAST_SUBMIT_KEY,
+} from '@/utils/checkIn';
+import { getPhonePlaceholder } from '@/utils/phoneUtils';
+import { useLocalStorage } from '@/hooks/useCustom';
+import logger from '@/utils/logger';
+
+interface SelfCheckInScreenProps {
+  token: string;
+}
+
+/**
+ * SelfCheckInScreen - Public (no login) check-in page reached from a queue's QR code.
+ * Walk-in patients enter their name and phone; they join the queue at the next position,
+ * or wait for staff approval when the queue requires it.
+ */
+export default function SelfCheckInScreen({ token }: SelfCheckInScreenProps) {
+  const [info, setInfo] = useState<PublicCheckInInfoDto | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [countryCode, setCountryCode] = useState('+20');
+  const [errors, setErrors] = useState<{ name?: string; phone?: string }>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [result, setResult] = useState<SubmitCheckInResult | null>(null);
+  const [lastSubmittedAt, setLastSubmittedAt] = useLocalStorage<number | null>(CHECK_IN_LAST_SUBMIT_KEY, null);
+  const [cooldown, setCooldown] = useState(() => getCheckInCooldownRemaining(lastSubmittedAt));
+
+  useEffect(() => {
+    let cancelled = false;
+    checkInApiClient
+      .getPublicCheckIn(token)
+      .then((data) => {
+        if (!cancelled) setInfo(data);
+      })
+      .catch((error) => {
+        logger.error('Failed to load check-in page:', error);
+        if (!cancelled) setLoadError('رابط تسجيل الحضور غير صالح أو منتهي');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  // Count down the cooldown between submissions from this device
+  useEffect(() => {
+    if (!lastSubmittedAt) return;
+    const interval = setInterval(() => setCooldown(getCheckInCooldownRemaining(lastSubmittedAt)), 1000);
+    return () => clearInterval(interval);
+  }, [lastSubmittedAt]);
+
+  const handleSubmit = useCallback(
+    async (e: FormEvent<HTMLFormElement>) => {
+      e.preventDefault();
+      setSubmitError(null);
+      if (cooldown > 0) return;
+
+      const form = { name, phone, countryCode };
+      const formErrors = validateCheckInForm(form);
+      setErrors(formErrors);
+      if (formErrors.name || formErrors.phone) return;
+
+      setIsSubmitting(true);
+      try {
+        const response = await checkInApiClient.submitCheckIn(token, buildCheckInRequest(form));
+        setLastSubmittedAt(Date.now());
+        setCooldown(CHECK_IN_COOLDOWN_SECONDS);
+        setResult(response);
+      } catch (error) {
+        logger.error('Self check-in failed:', error);
+        const statusCode = (error as { statusCode?: number })?.statusCode;
+        setSubmitError(
+          statusCode === 429
+            ? 'تم إرسال طلبات كثيرة، برجاء المحاولة بعد قليل'
+            : (error as { message?: string })?.message || 'فشل تسجيل الحضور، برجاء المحاولة مرة أخرى'
+        );
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [token, name, phone, countryCode, cooldown, setLastSubmittedAt]
+  );
+
+  const resetForm = () => {
+    setResult(null);
+    setName('');
+    setPhone('');
+    setErrors({});
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-600 to-purple-700 p-4">
+      <div className="bg-white p-8 rounded-2xl shadow-2xl w-full max-w-md">
+        <div className="text-center mb-6">
+          <div className="bg-blue-100 w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4">
+            <i className="fas fa-clipboard-check text-blue-600 text-2xl"></i>
+          </div>
+          <h1 className="text-2xl font-bold text-gray-800 mb-1">تسجيل الحضور</h1>
+          {info && <p className="text-gray-600">{info.doctorName}</p>}
+        </div>
+
+        {loadError ? (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-center text-red-700">{loadError}</div>
+        ) : !info ? (
+          <div className="text-center text-gray-600">
+            <div className="inline-block animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600 mb-3"></div>
+            <p>جاري التحميل...</p>
+          </div>
+        ) : !info.enabled ? (
+          <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-center text-yellow-800">
+            تسجيل الحضور الذاتي غير متاح حالياً لهذه العيادة، برجاء التوجه إلى الاستقبال
+          </div>
+        ) : result ? (
+          <div className="text-center space-y-4">
+            <div className={`p-4 rounded-lg border ${result.status === 'added' ? 'bg-green-50 border-green-200 text-green-800' : 'bg-blue-50 border-blue-200 text-blue-800'}`}>
+              <i className={`fas ${result.status === 'added' ? 'fa-circle-check' : 'fa-hourglass-half'} text-3xl mb-2`}></i>
+              {result.status === 'added' ? (
+                <p className="font-medium">
+                  تم تسجيل حضورك{result.position ? ` - رقمك في قائمة الانتظار: ${result.position}` : ''}
+                </p>
+              ) : (
+                <p className="font-medium">تم استلام طلبك، سيتم إضافتك إلى قائمة الانتظار بعد موافقة الاستقبال</p>
+              )}
+            </div>
+            <button
+              type="button"
+              onClick={resetForm}
+              disabled={cooldown > 0}
+              className="text-sm text-blue-600 hover:underline disabled:text-gray-400 disabled:no-underline"
+            >
+              {cooldown > 0 ? `تسجيل مريض آخر (بعد ${cooldown} ثانية)` : 'تسجيل مريض آخر'}
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-5" noValidate>
+            {info.requireApproval && (
+              <p className="text-sm text-gray-600 bg-gray-50 border border-gray-200 rounded-lg p-3">
+                سيتم إضافتك إلى قائمة الانتظار بعد موافقة الاستقبال
+              </p>
+            )}
+
+            {submitError && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{submitError}</div>
+            )}
+
+            <div>
+              <label htmlFor="checkIn-name" className="block text-sm font-medium text-gray-700 mb-2">
+                الاسم *
+              </label>
+              <input
+                id="checkIn-name"
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                autoComplete="name"
+                disabled={isSubmitting}
+                className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:border-transparent outline-none transition ${
+                  errors.name ? 'border-red-500 focus:ring-red-500' : 'border-gray-300 focus:ring-blue-500'
+                }`}
+              />
+              {errors.name && <p className="mt-1 text-sm text-red-600">{errors.name}</p>}
+            </div>
+
+            <div>
+              <label htmlFor="checkIn-phone" className="block text-sm font-medium text-gray-700 mb-2">
+                رقم الجوال *
+              </label>
+              <div className="flex gap-2">
+                <CountryCodeSelector
+                  value={countryCode}
+                  onChange={setCountryCode}
+                  disabled={isSubmitting}
+                  showOptgroups={false}
+                />
+                <input
+                  id="checkIn-phone"
+                  type="tel"
+                  dir="ltr"
+                  value={phone}
+                  onChange={(e) => setPhone(e.target.value)}
+                  placeholder={getPhonePlaceholder(countryCode)}
+                  autoComplete="tel-national"
+                  disabled={isSubmitting}
+                  className={`flex-1 min-w-0 px-4 py-3 border rounded-lg focus:ring-2 focus:border-transparent outline-none transition ${
+                    errors.phone ? 'border-red-500 focus:ring-red-500' : 'border-gray-300 focus:ring-blue-500'
+                  }`}
+                />
+              </div>
+              {errors.phone && <p className="mt-1 text-sm text-red-600">{errors.phone}</p>}
+            </div>
+
+            <button
+              type="submit"
+              disabled={isSubmitting || cooldown > 0}
+              className="w-full bg-blue-600 text-white py-3 rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              {isSubmitting ? (
+                <>
+                  <i className="fas fa-spinner fa-spin"></i>
+                  جاري التسجيل...
+                </>
+              ) : cooldown > 0 ? (
+                `يمكنك التسجيل مرة أخرى بعد ${cooldown} ثانية`
+              ) : (
+                'تسجيل الحضور'
+              )}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -12,6 +12,8 @@ import { PanelHeader } from '@/components/Common/PanelHeader';
 import { EmptyState } from '@/components/state';
 import { Badge } from '@/components/Common/ResponsiveUI';
 import UsageGuideSection from '@/components/Common/UsageGuideSection';
+import ExportButtons from '@/components/Common/ExportButtons';
+import { useSessionResultsExport } from '@/hooks/useSessionResultsExport';
 import { Patient } from '@/types';
 import { UserRole } from '@/types/roles';
 import { formatPhoneForDisplay } from '@/utils/phoneUtils';
@@ -19,6 +21,17 @@ import logger from '@/utils/logger';
 import { formatLocalDateTime, formatLocalDate } from '@/utils/dateTimeUtils';
 import { useSignalR } from '@/contexts/SignalRContext';
 import { debounce } from '@/utils/debounce';
+import { useUnreadReplies } from '@/hooks/useUnreadReplies';
+import PatientConversationButton from './PatientConversationButton';
+import {
+  filterByReceiptStatus,
+  getReceiptRates,
+  getReceiptStatus,
+  RECEIPT_FILTER_OPTIONS,
+  RECEIPT_STATUS_BADGE_CLASSES,
+  RECEIPT_STATUS_LABELS,
+  type ReceiptFilter,
+} from '@/utils/messageReceipts';
 
 interface SentMessage {
   messageId: string;
@@ -28,8 +41,14 @@ interface SentMessage {
   countryCode: string;
   content: string;
   sentAt: string;
+  status?: messageApiClient.MessageReceiptStatus;
+  deliveredAt?: string;
+  readAt?: string;
   createdBy?: number;
   updatedBy?: number;
+  templateId?: number;
+  templateVersionId?: number;
+  templateVersionNumber?: number;
 }
 
 interface Session {
@@ -68,6 +87,10 @@ const COMPLETED_TASKS_GUIDE_ITEMS = [
     title: '',
     description: 'نسبة النجاح توضح فعالية كل جلسة'
   },
+  {
+    title: '',
+    description: 'حالة الاستلام (تم التسليم / تمت القراءة) تتحدث تلقائياً من علامات الواتساب'
+  },
 ];
 
 export default function CompletedTasksPanel() {
@@ -79,9 +102,11 @@ export default function CompletedTasksPanel() {
   // ALL hooks must be declared BEFORE any conditional returns
   const [expandedSessions, setExpandedSessions] = useState<Set<string>>(new Set());
   const [isMessagesExpanded, setIsMessagesExpanded] = useState(false);
+  const [receiptFilter, setReceiptFilter] = useState<ReceiptFilter>('all');
   const [sessions, setSessions] = useState<Session[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { exportSessionResults, exportingSessionId } = useSessionResultsExport();
 
   // Ref for request deduplication
   const isLoadingRef = useRef(false);
@@ -149,8 +174,14 @@ export default function CompletedTasksPanel() {
             countryCode: msg.countryCode,
             content: msg.content,
             sentAt: msg.sentAt,
+            status: msg.status,
+            deliveredAt: msg.deliveredAt,
+            readAt: msg.readAt,
             createdBy: msg.createdBy,
             updatedBy: msg.updatedBy,
+            templateId: msg.templateId,
+            templateVersionId: msg.templateVersionId,
+            templateVersionNumber: msg.templateVersionNumber,
           } as SentMessage)),
         }));
 
@@ -190,6 +221,7 @@ export default function CompletedTasksPanel() {
    * Listens for SessionUpdated and MessageUpdated events
    */
   const { connection, isConnected, on, off } = useSignalR();
+  const { unreadByPatient } = useUnreadReplies();
 
   // Debounced refresh function to prevent rapid-fire API calls
   const debouncedRefresh = React.useMemo(
@@ -269,32 +301,41 @@ export default function CompletedTasksPanel() {
   /**
    * Memoize computed stats
    */
-  const stats = useMemo(() => [
-    {
-      label: 'إجمالي الجلسات المكتملة',
-      value: sessions.length.toString(),
-      icon: 'fa-check-double',
-    },
-    {
-      label: 'الرسائل المرسلة بنجاح',
-      value: sessions.reduce((sum, s) => sum + s.sentCount, 0).toString(),
-      icon: 'fa-check-circle',
-    },
-    {
-      label: 'إجمالي الرسائل المرسلة',
-      value: sessions.reduce((sum, s) => sum + s.sentMessages.length, 0).toString(),
-      icon: 'fa-users',
-    },
-  ], [sessions]);
+  const stats = useMemo(() => {
+    const receiptRates = getReceiptRates(sessions.flatMap((s) => s.sentMessages));
+    return [
+      {
+        label: 'إجمالي الجلسات المكتملة',
+        value: sessions.length.toString(),
+        icon: 'fa-check-double',
+      },
+      {
+        label: 'الرسائل المرسلة بنجاح',
+        value: sessions.reduce((sum, s) => sum + s.sentCount, 0).toString(),
+        icon: 'fa-check-circle',
+      },
+      {
+        label: 'إجمالي الرسائل المرسلة',
+        value: sessions.reduce((sum, s) => sum + s.sentMessages.length, 0).toString(),
+        icon: 'fa-users',
+      },
+      {
+        label: 'نسبة القراءة',
+        value: `${receiptRates.readRate}%`,
+        icon: 'fa-eye',
+      },
+    ];
+  }, [sessions]);
 
   /**
-   * Memoize table columns - no checkbox since deletion is disabled, no status column
+   * Memoize table columns - no checkbox since deletion is disabled; the status column is the WhatsApp receipt
    */
   const tableColumns = useMemo(() => [
-    { key: 'name', label: 'الاسم', width: '25%' },
-    { key: 'phone', label: 'رقم الجوال', width: '20%' },
-    { key: 'message', label: 'الرسالة', width: '35%', hasToggle: true },
-    { key: 'completedAt', label: 'وقت الإكمال', width: '20%' },
+    { key: 'name', label: 'الاسم', width: '20%' },
+    { key: 'phone', label: 'رقم الجوال', width: '15%' },
+    { key: 'message', label: 'الرسالة', width: '30%', hasToggle: true },
+    { key: 'receipt', label: 'حالة الاستلام', width: '17%' },
+    { key: 'completedAt', label: 'وقت الإكمال', width: '18%' },
   ], []);
 
   /**
@@ -302,19 +343,53 @@ export default function CompletedTasksPanel() {
    */
   const renderSentMessageRow = useCallback((message: SentMessage) => ({
     id: message.messageId,
-    name: message.patientName,
+    name: (
+      <div className="flex items-center justify-between gap-2">
+        <span>{message.patientName}</span>
+        <PatientConversationButton
+          patientId={message.patientId}
+          unreadCount={unreadByPatient[String(message.patientId)]}
+          className="text-teal-600 hover:text-teal-700 px-1 flex-shrink-0"
+        />
+      </div>
+    ),
     phone: formatPhoneForDisplay(message.patientPhone, message.countryCode),
     message: (
-      <div
-        className={`text-sm text-gray-700 whitespace-pre-wrap ${isMessagesExpanded ? '' : 'line-clamp-2'
-          } max-w-xs`}
-        title={message.content}
-      >
-        {message.content || 'لا توجد رسالة'}
+      <div className="max-w-xs">
+        <div
+          className={`text-sm text-gray-700 whitespace-pre-wrap ${isMessagesExpanded ? '' : 'line-clamp-2'}`}
+          title={message.content}
+        >
+          {message.content || 'لا توجد رسالة'}
+        </div>
+        {message.templateVersionNumber && (
+          <span
+            className="inline-block mt-1 px-1.5 py-0.5 bg-gray-100 text-gray-600 rounded text-[10px]"
+            title="إصدار القالب الذي أنتج هذه الرسالة"
+          >
+            الإصدار {message.templateVersionNumber}
+          </span>
+        )}
       </div>
     ),
+    receipt: (() => {
+      const receiptStatus = getReceiptStatus(message);
+      return (
+        <div>
+          <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-medium ${RECEIPT_STATUS_BADGE_CLASSES[receiptStatus]}`}>
+            {RECEIPT_STATUS_LABELS[receiptStatus]}
+          </span>
+          {message.deliveredAt && (
+            <div className="text-xs text-gray-500 mt-1">التسليم: {formatLocalDateTime(message.deliveredAt)}</div>
+          )}
+          {message.readAt && (
+            <div className="text-xs text-gray-500">القراءة: {formatLocalDateTime(message.readAt)}</div>
+          )}
+        </div>
+      );
+    })(),
     completedAt: message.sentAt ? formatLocalDateTime(message.sentAt) : 'غير معروف',
-  }), [isMessagesExpanded]);
+  }), [isMessagesExpanded, unreadByPatient]);
 
   if (sessions.length === 0) {
     return (
@@ -344,10 +419,29 @@ export default function CompletedTasksPanel() {
         description={`عرض جميع المهام المكتملة والمرسلة بنجاح - ${sessions.length} جلسة`}
         stats={stats}
       />
+      <div className="mb-4 flex items-center gap-2 flex-wrap">
+        <span className="text-sm text-gray-600">تصفية حسب حالة الاستلام:</span>
+        {RECEIPT_FILTER_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => setReceiptFilter(option.value)}
+            className={`px-3 py-1 rounded-full text-sm transition-colors ${receiptFilter === option.value
+              ? 'bg-blue-600 text-white'
+              : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            aria-pressed={receiptFilter === option.value}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
       <div className="space-y-4">
         {sessions.map((session) => {
           const isExpanded = expandedSessions.has(session.id);
           const progressPercent = Math.round((session.sentCount / session.totalPatients) * 100);
+          const receiptRates = getReceiptRates(session.sentMessages);
+          const visibleMessages = filterByReceiptStatus(session.sentMessages, receiptFilter);
 
           return (
             <div
@@ -397,6 +491,13 @@ export default function CompletedTasksPanel() {
                     </div>
 
                     <div className="flex items-center gap-4">
+                      {/* Export */}
+                      <ExportButtons
+                        onExport={(format) => exportSessionResults(session.sessionId, session.clinicName, format)}
+                        isExporting={exportingSessionId === session.sessionId}
+                        title="تصدير نتائج الجلسة"
+                      />
+
                       {/* Completion Summary */}
                       <div className="text-right">
                         <div className="text-sm font-medium text-gray-700 mb-1">نسبة الإرسال</div>
@@ -407,6 +508,9 @@ export default function CompletedTasksPanel() {
                           ></div>
                         </div>
                         <div className="text-xs text-gray-600 mt-1">{progressPercent}%</div>
+                        <div className="text-xs text-gray-500 mt-1 whitespace-nowrap">
+                          تسليم {receiptRates.deliveredRate}% · قراءة {receiptRates.readRate}%
+                        </div>
                       </div>
                     </div>
                   </div>
@@ -430,7 +534,7 @@ export default function CompletedTasksPanel() {
                     )}
 
                     {/* Session Stats */}
-                    <div className={`grid ${session.hasOngoingMessages ? 'grid-cols-5' : 'grid-cols-4'} gap-4 mb-6`}>
+                    <div className={`grid ${session.hasOngoingMessages ? 'grid-cols-4 xl:grid-cols-7' : 'grid-cols-3 xl:grid-cols-6'} gap-4 mb-6`}>
                       <div className="bg-white rounded-lg p-4 border border-blue-200">
                         <div className="text-sm text-gray-600 flex items-center gap-1">
                           <i className="fas fa-users text-blue-500 text-xs"></i>
@@ -470,6 +574,22 @@ export default function CompletedTasksPanel() {
                           {session.totalPatients > 0 ? Math.round((session.sentCount / session.totalPatients) * 100) : 0}%
                         </div>
                       </div>
+                      <div className="bg-white rounded-lg p-4 border border-green-200">
+                        <div className="text-sm text-gray-600 flex items-center gap-1">
+                          <i className="fas fa-check-double text-green-500 text-xs"></i>
+                          معدل التسليم
+                        </div>
+                        <div className="text-2xl font-bold text-green-600">{receiptRates.deliveredRate}%</div>
+                        <div className="text-xs text-gray-500">{receiptRates.delivered} من {receiptRates.total}</div>
+                      </div>
+                      <div className="bg-white rounded-lg p-4 border border-blue-200">
+                        <div className="text-sm text-gray-600 flex items-center gap-1">
+                          <i className="fas fa-eye text-blue-500 text-xs"></i>
+                          معدل القراءة
+                        </div>
+                        <div className="text-2xl font-bold text-blue-600">{receiptRates.readRate}%</div>
+                        <div className="text-xs text-gray-500">{receiptRates.read} من {receiptRates.total}</div>
+                      </div>
                     </div>
 
                     {/* Failed Messages Disclaimer */}
@@ -492,7 +612,9 @@ export default function CompletedTasksPanel() {
                         <div className="flex items-center gap-4">
                           <h4 className="font-bold text-gray-800">الرسائل المرسلة بنجاح</h4>
                           <span className="text-sm text-gray-600">
-                            {session.sentMessages.length} رسالة
+                            {receiptFilter === 'all'
+                              ? `${session.sentMessages.length} رسالة`
+                              : `${visibleMessages.length} من ${session.sentMessages.length} رسالة`}
                           </span>
                         </div>
                         <div className="flex gap-2">
@@ -505,6 +627,11 @@ export default function CompletedTasksPanel() {
                           <i className="fas fa-inbox text-3xl mb-2 opacity-50"></i>
                           <p>لا توجد رسائل مرسلة في هذه الجلسة</p>
                         </div>
+                      ) : visibleMessages.length === 0 ? (
+                        <div className="p-8 text-center text-gray-600">
+                          <i className="fas fa-filter text-3xl mb-2 opacity-50"></i>
+                          <p>لا توجد رسائل بحالة الاستلام المحددة</p>
+                        </div>
                       ) : (
                         <div className="overflow-x-auto">
                           <table className="w-full">
@@ -536,7 +663,7 @@ export default function CompletedTasksPanel() {
                               </tr>
                             </thead>
                             <tbody>
-                              {session.sentMessages.map((message) => {
+                              {visibleMessages.map((message) => {
                                 const row = renderSentMessageRow(message);
                                 return (
                                   <tr
@@ -546,6 +673,7 @@ export default function CompletedTasksPanel() {
                                     <td className="px-6 py-3 text-sm text-gray-900 font-medium">{row.name}</td>
                                     <td className="px-6 py-3 text-sm text-gray-600">{row.phone}</td>
                                     <td className="px-6 py-3 text-sm text-gray-700">{row.message}</td>
+                                    <td className="px-6 py-3 text-sm">{row.receipt}</td>
                                     <td className="px-6 py-3 text-sm text-gray-600">{row.completedAt}</td>
                                   </tr>
                                 );
@@ -16,6 +16,8 @@ import { ResponsiveTable } from '@/components/Common/ResponsiveTable';
 import { EmptyState } from '@/components/state';
 import { Badge } from '@/components/Common/ResponsiveUI';
 import UsageGuideSection from '@/components/Common/UsageGuideSection';
+import ExportButtons from '@/components/Common/ExportButtons';
+import { useSessionResultsExport } from '@/hooks/useSessionResultsExport';
 import { Patient } from '@/types';
 import { messageApiClient } from '@/services/api/messageApiClient';
 import { formatPhoneForDisplay } from '@/utils/phoneUtils';
@@ -77,6 +79,7 @@ export default function FailedTasksPanel() {
   // Retry preview modal state
   const [showRetryPreview, setShowRetryPreview] = useState(false);
   const [retrySessionId, setRetrySessionId] = useState<string | null>(null);
+  const { exportSessionResults, exportingSessionId } = useSessionResultsExport();
 
   // Request deduplication: track in-flight requests
   const isLoadingRef = React.useRef(false);
@@ -931,6 +934,11 @@ export default function FailedTasksPanel() {
 
                       {/* Session Actions */}
                       <div className="flex gap-2">
+                        <ExportButtons
+                          onExport={(format) => exportSessionResults(session.sessionId, session.clinicName, format)}
+                          isExporting={exportingSessionId === session.sessionId}
+                          title="تصدير نتائج الجلسة"
+                        />
                         <button
                           onClick={(e) => {
                             e.stopPropagation();
@@ -16,6 +16,7 @@ import { PanelHeader } from '@/components/Common/PanelHeader';
 import { ResponsiveTable } from '@/components/Common/ResponsiveTable';
 import { EmptyState } from '@/components/state';
 import UsageGuideSection from '@/components/Common/UsageGuideSection';
+import ScheduledSessionsSection from '@/components/Queue/ScheduledSessionsSection';
 import { Badge } from '@/components/Common/ResponsiveUI';
 import { Patient } from '@/types';
 import { formatPhoneForDisplay } from '@/utils/phoneUtils';
@@ -28,6 +29,7 @@ import { parseAsUtc } from '@/utils/dateTimeUtils';
 import { whatsappApiClient, GlobalPauseState } from '@/services/api/whatsappApiClient';
 import { debounce } from '@/utils/debounce';
 import { translatePauseReason } from '@/utils/pauseReasonTranslations';
+import { getReceiptStatus, isSentMessageStatus, RECEIPT_STATUS_LABELS } from '@/utils/messageReceipts';
 
 interface Session {
   id: string;
@@ -150,7 +152,7 @@ export default function OngoingTasksPanel() {
             countryCode: p.countryCode,
             position: 0,
             status: p.status,
-            isValidWhatsAppNumber: p.status === 'sent' ? true : null,
+            isValidWhatsAppNumber: isSentMessageStatus(p.status) ? true : null,
             isPaused: p.isPaused,
             messageId: p.messageId,
             messagePreview: p.messageContent || '', // Include resolved message content from backend
@@ -536,11 +538,11 @@ export default function OngoingTasksPanel() {
 
   /**
    * Get progress percentage - memoized
-   * Only counts messages with 'sent' status (not 'sending')
+   * Only counts sent messages (sent/delivered/read, not 'sending')
    */
   const getProgressPercentage = useCallback((session: Session) => {
-    // Count only actually sent messages (status === 'sent'), not 'sending'
-    const actuallySent = session.patients.filter(p => p.status === 'sent').length;
+    // Count only actually sent messages, not 'sending'
+    const actuallySent = session.patients.filter(p => isSentMessageStatus(p.status)).length;
     return session.totalPatients > 0
       ? Math.round((actuallySent / session.totalPatients) * 100)
       : 0;
@@ -797,8 +799,8 @@ export default function OngoingTasksPanel() {
             </svg>
             📤 جاري الإرسال
           </span>
-        ) : patient.status === 'sent' ? (
-          <Badge color="green" label="✅ تم الإرسال" />
+        ) : isSentMessageStatus(patient.status) ? (
+          <Badge color="green" label={`✅ ${RECEIPT_STATUS_LABELS[getReceiptStatus({ status: patient.status })]}`} />
         ) : patient.status === 'failed' ? (
           <Badge color="red" label="❌ فشل" />
         ) : (
@@ -903,6 +905,7 @@ export default function OngoingTasksPanel() {
           description="مراقبة وإدارة جميع المهام الجارية حالياً"
           stats={stats}
         />
+        <ScheduledSessionsSection />
         <EmptyState
           icon="fa-inbox"
           title="لا توجد مهام جارية"
@@ -923,6 +926,9 @@ export default function OngoingTasksPanel() {
         stats={stats}
       />
 
+      {/* Scheduled (future) sessions - fire into the ongoing list below */}
+      <ScheduledSessionsSection />
+
       {/* Global Pause/Resume Button */}
       {globalPauseState && (
         <div className="mb-4 px-6 pt-2">
@@ -1208,7 +1214,7 @@ export default function OngoingTasksPanel() {
                                 تم الإرسال
                               </div>
                               <div className="text-2xl font-bold text-green-600">
-                                {session.patients.filter(p => p.status === 'sent').length}
+                                {session.patients.filter(p => isSentMessageStatus(p.status)).length}
                               </div>
                             </div>
                             <div className="bg-white rounded-lg p-4 border border-red-200">
@@ -0,0 +1,37 @@
+'use client';
+
+import { useModal } from '@/contexts/ModalContext';
+import { formatUnreadBadge } from '@/utils/conversations';
+
+interface PatientConversationButtonProps {
+  patientId: string | number;
+  unreadCount?: number; // Unread replies (badge hidden when 0)
+  className?: string;
+}
+
+/**
+ * Opens the patient's conversation thread (PatientConversationModal)
+ */
+export default function PatientConversationButton({
+  patientId,
+  unreadCount = 0,
+  className = 'bg-teal-50 text-teal-600 hover:bg-teal-100 px-2 py-1 rounded',
+}: PatientConversationButtonProps) {
+  const { openModal } = useModal();
+
+  return (
+    <button
+      onClick={() => openModal('patientConversation', { patientId: Number(patientId) })}
+      title={unreadCount > 0 ? `المحادثة - ${unreadCount} رد غير مقروء` : 'المحادثة'}
+      aria-label={unreadCount > 0 ? `المحادثة - ${unreadCount} رد غير مقروء` : 'المحادثة'}
+      className={`relative ${className}`}
+    >
+      <i className="fas fa-comments"></i>
+      {unreadCount > 0 && (
+        <span className="absolute -top-2 -left-2 inline-flex items-center justify-center min-w-[16px] h-4 px-1 text-[10px] font-bold rounded-full bg-red-500 text-white">
+          {formatUnreadBadge(unreadCount)}
+        </span>
+      )}
+    </button>
+  );
+}
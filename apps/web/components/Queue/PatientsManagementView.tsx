@@ -13,6 +13,13 @@ import { useUI } from '@/contexts/UIContext';
 import { useQueue } from '@/contexts/QueueContext';
 import TrashTab from '@/components/TrashTab';
 import { TabNavigation } from '@/components/Common/TabNavigation';
+import ExportButtons from '@/components/Common/ExportButtons';
+import {
+  buildExportFileName,
+  buildPatientExportRows,
+  downloadSpreadsheet,
+  type ExportFormat,
+} from '@/utils/spreadsheetExport';
 import logger from '@/utils/logger';
 
 interface Tab {
@@ -23,9 +30,10 @@ interface Tab {
 }
 
 export default function PatientsManagementView() {
-  const { selectedQueueId } = useQueue();
+  const { selectedQueueId, queues } = useQueue();
   const { addToast } = useUI();
   const [activeTab, setActiveTab] = useState<string>('active');
+  const [isExporting, setIsExporting] = useState(false);
   
   // Trash tab state
   const [trashItems, setTrashItems] = useState<any[]>([]);
@@ -120,6 +128,31 @@ export default function PatientsManagementView() {
     [trashPageNumber, loadTrashPatients, addToast]
   );
 
+  // Export the queue's patients
+  const handleExportPatients = useCallback(
+    async (format: ExportFormat) => {
+      if (!selectedQueueId) return;
+
+      setIsExporting(true);
+      try {
+        const response = await patientsApiClient.getPatients(Number(selectedQueueId));
+        const queueName = queues.find((q) => q.id === selectedQueueId)?.doctorName || 'الطابور';
+        await downloadSpreadsheet(buildPatientExportRows(response.items || []), {
+          fileName: buildExportFileName(`مرضى-${queueName}`, format),
+          sheetName: queueName,
+          format,
+        });
+        addToast('تم تصدير قائمة المرضى بنجاح', 'success');
+      } catch (error: any) {
+        logger.error('Failed to export patients:', error);
+        addToast('فشل تصدير قائمة المرضى', 'error');
+      } finally {
+        setIsExporting(false);
+      }
+    },
+    [selectedQueueId, queues, addToast]
+  );
+
   if (!selectedQueueId) {
     return (
       <div className="p-6 text-center text-gray-500">
@@ -157,7 +190,10 @@ export default function PatientsManagementView() {
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
         {activeTab === 'active' && (
           <div>
-            <h2 className="text-xl font-semibold mb-4">Active Patients</h2>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold">Active Patients</h2>
+              <ExportButtons onExport={handleExportPatients} isExporting={isExporting} title="تصدير قائمة المرضى" />
+            </div>
             <p className="text-gray-600">Active patients will appear here.</p>
             {/* TODO: Add active patients list */}
           </div>
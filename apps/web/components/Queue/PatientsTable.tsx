@@ -4,7 +4,9 @@ import { formatPhoneForDisplay } from '@/utils/phoneUtils';
 
 import { useState } from 'react';
 import { useQueue } from '../../contexts/QueueContext';
+import { useUnreadReplies } from '../../hooks/useUnreadReplies';
 import { EmptyState } from '../state';
+import PatientConversationButton from './PatientConversationButton';
 
 export default function PatientsTable() {
   const {
@@ -13,6 +15,7 @@ export default function PatientsTable() {
     selectAllPatients,
     clearPatientSelection,
   } = useQueue();
+  const { unreadByPatient } = useUnreadReplies();
 
   const [allSelected, setAllSelected] = useState(false);
 
@@ -92,6 +95,11 @@ export default function PatientsTable() {
                       <button className="text-green-600 hover:text-green-700">
                         <i className="fab fa-whatsapp"></i>
                       </button>
+                      <PatientConversationButton
+                        patientId={patient.id}
+                        unreadCount={unreadByPatient[String(patient.id)]}
+                        className="text-teal-600 hover:text-teal-700"
+                      />
                     </div>
                   </td>
                 </tr>
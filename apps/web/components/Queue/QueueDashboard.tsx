@@ -6,22 +6,32 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useModal } from '@/contexts/ModalContext';
 import { useUI } from '@/contexts/UIContext';
 import { useConfirmDialog } from '@/contexts/ConfirmationContext';
-import { useState, useCallback, useMemo, useEffect } from 'react';
+import { useSignalR } from '@/contexts/SignalRContext';
+import { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import { UserRole } from '@/types/roles';
 import { validateNumber } from '@/utils/validation';
-import { createDeleteConfirmation, createBulkDeleteConfirmation } from '@/utils/confirmationHelpers';
+import { createDeleteConfirmation, createBulkDeleteConfirmation, createActionConfirmation } from '@/utils/confirmationHelpers';
 import { patientsApiClient } from '@/services/api/patientsApiClient';
 import queuesApiClient from '@/services/api/queuesApiClient';
+import { messageApiClient } from '@/services/api/messageApiClient';
+import { buildAutoNotifyConfig, planAutoNotifications, DEFAULT_AUTO_NOTIFY_DEDUP_MINUTES, type AutoNotifyLastMessage } from '@/services/autoNotifyService';
 import { PanelWrapper } from '@/components/Common/PanelWrapper';
 import { PanelHeader } from '@/components/Common/PanelHeader';
 import { ResponsiveTable } from '@/components/Common/ResponsiveTable';
 import { EmptyState, DataStateWrapper } from '@/components/state';
 import UsageGuideSection from '@/components/Common/UsageGuideSection';
 import { ConflictWarning } from '@/components/Common/ConflictBadge';
+import { detectOverlaps } from '@/utils/conditionRules';
 import { QueueStatsCard } from './QueueStatsCard';
 import { formatPhoneForDisplay } from '@/utils/phoneUtils';
+import { getQueueFlowState, getFlowStatus, getFlowStatusLabel, canChangeFlowStatus, PATIENT_STATUS_BADGE_CLASSES } from '@/utils/queueFlow';
+import { debounce } from '@/utils/debounce';
 import logger from '@/utils/logger';
 import { useWhatsAppSession } from '@/contexts/WhatsAppSessionContext';
+import { useNumberVerification } from '@/contexts/NumberVerificationContext';
+import { usePatientReorder } from '@/hooks/usePatientReorder';
+import { useUnreadReplies } from '@/hooks/useUnreadReplies';
+import PatientConversationButton from './PatientConversationButton';
 
 export default function QueueDashboard() {
   const { selectedQueueId, queues, queuesLoading, messageTemplates, messageConditions, patients, refreshPatients, refreshQueueData, refreshQueues } = useQueue();
@@ -30,6 +40,9 @@ export default function QueueDashboard() {
   const { confirm } = useConfirmDialog();
   const { addToast } = useUI();
   const { detailedStatus } = useWhatsAppSession();
+  const { startVerification, isVerifying } = useNumberVerification();
+  const { connection, isConnected, on, off } = useSignalR();
+  const { unreadByPatient } = useUnreadReplies();
   const router = useRouter();
 
   const queue = queues.find((q) => q.id === selectedQueueId);
@@ -48,6 +61,14 @@ export default function QueueDashboard() {
   const [editingQueueId, setEditingQueueId] = useState<string | null>(null);
   const [editingQueueValue, setEditingQueueValue] = useState('');
   const [isMessageSectionExpanded, setIsMessageSectionExpanded] = useState(true);
+  const [moveToPositionValue, setMoveToPositionValue] = useState('');
+  // Row whose drag handle keeps keyboard focus after an Alt+Up/Down move
+  const reorderFocusIdRef = useRef<string | null>(null);
+  const [isSavingAutoNotify, setIsSavingAutoNotify] = useState(false);
+  const [autoNotifyHistory, setAutoNotifyHistory] = useState<Record<string, AutoNotifyLastMessage> | null>(null);
+  const [isCallingNext, setIsCallingNext] = useState(false);
+  // Patient whose no-show/skip request is in flight
+  const [flowActionPatientId, setFlowActionPatientId] = useState<string | null>(null);
 
   // Authentication guard - ensure user has token and valid role
   // Wait for auth validation to complete before checking
@@ -210,6 +231,43 @@ export default function QueueDashboard() {
     };
   }, [selectedQueueId, refreshPatients, refreshQueueData]);
 
+  /**
+   * SignalR: keep statuses and CQP in sync when another screen calls the next patient,
+   * marks a no-show/skip or edits the queue (debounced - one action broadcasts several events)
+   */
+  const debouncedRefreshPatients = useMemo(
+    () => debounce(() => {
+      if (selectedQueueId) refreshPatients(selectedQueueId);
+    }, 500),
+    [selectedQueueId, refreshPatients]
+  );
+  const debouncedRefreshQueues = useMemo(() => debounce(() => refreshQueues(), 500), [refreshQueues]);
+
+  useEffect(() => {
+    if (!connection || !isConnected) return;
+
+    const handlePatientUpdate = (payload: any) => {
+      logger.debug('QueueDashboard: Received PatientUpdated event', payload);
+      if (payload?.queueId !== undefined && String(payload.queueId) !== String(selectedQueueId)) return;
+      debouncedRefreshPatients();
+    };
+
+    const handleQueueUpdate = (payload: any) => {
+      logger.debug('QueueDashboard: Received QueueUpdated event', payload);
+      debouncedRefreshQueues();
+    };
+
+    on('PatientUpdated', handlePatientUpdate);
+    on('PatientDeleted', handlePatientUpdate);
+    on('QueueUpdated', handleQueueUpdate);
+
+    return () => {
+      off('PatientUpdated', handlePatientUpdate);
+      off('PatientDeleted', handlePatientUpdate);
+      off('QueueUpdated', handleQueueUpdate);
+    };
+  }, [connection, isConnected, on, off, selectedQueueId, debouncedRefreshPatients, debouncedRefreshQueues]);
+
   // Compute guide items dynamically based on queue and default template
   const guideItems = useMemo(() => {
     const baseItems = [
@@ -338,6 +396,90 @@ export default function QueueDashboard() {
     return positions.length > 0 ? Math.max(...positions) : 1;
   }, [patients]);
 
+  /**
+   * Last message per patient, for the auto-notify preview.
+   * Sending itself happens on the server when CQP advances (same plan, see AutoNotifyService).
+   */
+  const fetchAutoNotifyHistory = useCallback(
+    (isCancelled: () => boolean = () => false) =>
+      messageApiClient
+        .getLastPatientMessages(Number(selectedQueueId))
+        .then((history) => {
+          if (isCancelled()) return;
+          const lastMessages: Record<string, AutoNotifyLastMessage> = {};
+          (history?.data || []).forEach((m) => {
+            lastMessages[String(m.patientId)] = { templateId: m.templateId, createdAt: m.createdAt };
+          });
+          setAutoNotifyHistory(lastMessages);
+        })
+        .catch((error) => {
+          logger.error('QueueDashboard: failed to load auto-notify history', error);
+          if (isCancelled()) return;
+          setAutoNotifyHistory(null);
+        }),
+    [selectedQueueId]
+  );
+
+  useEffect(() => {
+    if (!queue?.autoNotifyEnabled || !selectedQueueId) return;
+    let cancelled = false;
+    fetchAutoNotifyHistory(() => cancelled);
+    return () => {
+      cancelled = true;
+    };
+  }, [queue?.autoNotifyEnabled, queue?.currentPosition, selectedQueueId, fetchAutoNotifyHistory]);
+
+  /**
+   * Who the next CQP advance (by one) would message
+   */
+  const autoNotifyPreview = useMemo(() => {
+    if (!queue?.autoNotifyEnabled || !selectedQueueId || !autoNotifyHistory) return null;
+
+    const config = buildAutoNotifyConfig(selectedQueueId, queue.doctorName, messageConditions, messageTemplates);
+    return planAutoNotifications(
+      config,
+      patients.map((p) => ({
+        id: String(p.id),
+        name: p.name,
+        position: p.position || 0,
+        isValidWhatsAppNumber: p.isValidWhatsAppNumber,
+        status: p.status,
+        countryCode: p.countryCode,
+      })),
+      (queue.currentPosition ?? 1) + 1,
+      autoNotifyHistory,
+      { dedupWindowMinutes: queue.autoNotifyDedupMinutes ?? DEFAULT_AUTO_NOTIFY_DEDUP_MINUTES }
+    );
+  }, [queue, selectedQueueId, autoNotifyHistory, messageConditions, messageTemplates, patients]);
+
+  /**
+   * Toggle auto-notify or change its de-duplication window - memoized
+   */
+  const handleUpdateAutoNotify = useCallback(async (settings: { autoNotifyEnabled?: boolean; autoNotifyDedupMinutes?: number }) => {
+    if (!queue || !selectedQueueId) return;
+
+    setIsSavingAutoNotify(true);
+    try {
+      await queuesApiClient.updateQueue(Number(selectedQueueId), {
+        doctorName: queue.doctorName,
+        autoNotifyEnabled: settings.autoNotifyEnabled ?? queue.autoNotifyEnabled ?? false,
+        autoNotifyDedupMinutes: settings.autoNotifyDedupMinutes ?? queue.autoNotifyDedupMinutes ?? DEFAULT_AUTO_NOTIFY_DEDUP_MINUTES,
+      });
+
+      if (settings.autoNotifyEnabled !== undefined) {
+        addToast(settings.autoNotifyEnabled ? 'تم تفعيل الإرسال التلقائي' : 'تم إيقاف الإرسال التلقائي', 'success');
+      }
+
+      if (typeof refreshQueues === 'function') {
+        await refreshQueues();
+      }
+    } catch (err: any) {
+      addToast(err?.message || 'فشل تحديث إعدادات الإرسال التلقائي', 'error');
+    } finally {
+      setIsSavingAutoNotify(false);
+    }
+  }, [queue, selectedQueueId, addToast, refreshQueues]);
+
   /**
    * Handle CQP Save - memoized
    */
@@ -372,6 +514,8 @@ export default function QueueDashboard() {
         return;
       }
 
+      const previousCQP = queue.currentPosition ?? 0;
+
       await queuesApiClient.updateQueue(queueIdNum, {
         doctorName: queue.doctorName,
         currentPosition: parseInt(currentCQP, 10),
@@ -380,6 +524,11 @@ export default function QueueDashboard() {
       setIsEditingCQP(false);
       addToast('تم تحديث الموضع الحالي بنجاح', 'success');
 
+      // The server queues auto-notify messages when the position advances
+      if (queue.autoNotifyEnabled && cqpNum > previousCQP) {
+        addToast('جاري الإرسال التلقائي للمرضى المطابقين', 'info');
+      }
+
       // Refetch queue metadata to update currentPosition immediately
       if (typeof refreshQueues === 'function') {
         await refreshQueues();
@@ -394,6 +543,92 @@ export default function QueueDashboard() {
     }
   }, [currentCQP, maxPatientPosition, addToast, queue, selectedQueueId, refreshQueueData, refreshQueues]);
 
+  const queueFlow = useMemo(
+    () => getQueueFlowState(patients, queue?.currentPosition ?? 0),
+    [patients, queue?.currentPosition]
+  );
+
+  /**
+   * Call next - one backend transaction completes the patient in service, calls the next waiting one
+   * and advances CQP to their position; other screens follow via SignalR
+   */
+  const handleCallNext = useCallback(async () => {
+    if (!queue || !selectedQueueId) {
+      addToast('العيادة غير محدد', 'error');
+      return;
+    }
+    const queueIdNum = Number(selectedQueueId);
+    if (isNaN(queueIdNum)) {
+      addToast('معرف العيادة غير صالح', 'error');
+      return;
+    }
+
+    const previousCQP = queue.currentPosition ?? 0;
+    setIsCallingNext(true);
+    try {
+      const result = await queuesApiClient.callNextPatient(queueIdNum, previousCQP);
+      const called = result.patients?.find((p) => p.status === 'in_service');
+      addToast(
+        called
+          ? `تم نداء ${called.fullName} (#${called.position})`
+          : 'تم إنهاء المريض الحالي - لا يوجد مرضى في الانتظار',
+        'success'
+      );
+
+      const newCQP = result.queue?.currentPosition ?? previousCQP;
+      if (queue.autoNotifyEnabled && newCQP > previousCQP) {
+        addToast('جاري الإرسال التلقائي للمرضى المطابقين', 'info');
+      }
+    } catch (err: any) {
+      // Also reached when another screen advanced the queue first (stale expectedPosition)
+      addToast(err?.message || 'فشل نداء المريض التالي', 'error');
+    } finally {
+      setIsCallingNext(false);
+      if (typeof refreshQueues === 'function') {
+        await refreshQueues();
+      }
+      if (typeof refreshPatients === 'function') {
+        await refreshPatients(selectedQueueId);
+      }
+      window.dispatchEvent(new CustomEvent('queueDataUpdated'));
+    }
+  }, [queue, selectedQueueId, addToast, refreshQueues, refreshPatients]);
+
+  /**
+   * No-show (patient cancelled) or skip (back to waiting at the end of the queue) - memoized
+   */
+  const handlePatientFlowAction = useCallback(async (patient: { id: string; name: string }, action: 'noShow' | 'skip') => {
+    if (!selectedQueueId) return;
+    const patientIdNum = Number(patient.id);
+    if (isNaN(patientIdNum)) {
+      addToast('معرّف المريض غير صالح', 'error');
+      return;
+    }
+
+    if (action === 'noShow') {
+      const confirmed = await confirm(createActionConfirmation(`تسجيل عدم حضور ${patient.name}؟ سيتم تغيير حالته إلى ملغى.`));
+      if (!confirmed) return;
+    }
+
+    setFlowActionPatientId(patient.id);
+    try {
+      if (action === 'noShow') {
+        await queuesApiClient.markPatientNoShow(patientIdNum);
+        addToast(`تم تسجيل عدم حضور ${patient.name}`, 'success');
+      } else {
+        await queuesApiClient.skipPatient(patientIdNum);
+        addToast(`تم تأجيل ${patient.name} إلى نهاية قائمة الانتظار`, 'success');
+      }
+      await refreshPatients(selectedQueueId);
+      window.dispatchEvent(new CustomEvent('patientDataUpdated'));
+    } catch (err: any) {
+      logger.error('QueueDashboard: patient flow action failed', { action, patientId: patient.id, err });
+      addToast(err?.message || (action === 'noShow' ? 'فشل تسجيل عدم الحضور' : 'فشل تأجيل المريض'), 'error');
+    } finally {
+      setFlowActionPatientId(null);
+    }
+  }, [selectedQueueId, addToast, confirm, refreshPatients]);
+
   /**
    * Handle CQP Cancel - memoized
    */
@@ -483,40 +718,6 @@ export default function QueueDashboard() {
     );
   }, []);
 
-  /**
-   * Get condition range for conflict detection
-   */
-  const getConditionRange = (cond: any): { min: number; max: number } | null => {
-    switch (cond.operator) {
-      case 'EQUAL':
-        if (cond.value === undefined || cond.value <= 0) return null;
-        return { min: cond.value, max: cond.value };
-      case 'GREATER':
-        if (cond.value === undefined || cond.value <= 0) return null;
-        return { min: cond.value + 1, max: 999 };
-      case 'LESS':
-        if (cond.value === undefined || cond.value <= 0) return null;
-        return { min: 1, max: cond.value - 1 };
-      case 'RANGE':
-        if (cond.minValue === undefined || cond.maxValue === undefined || cond.minValue <= 0 || cond.maxValue <= 0) return null;
-        return { min: cond.minValue, max: cond.maxValue };
-      default:
-        return null;
-    }
-  };
-
-  /**
-   * Check if two conditions overlap/intersect
-   */
-  const conditionsOverlap = (cond1: any, cond2: any): boolean => {
-    const range1 = getConditionRange(cond1);
-    const range2 = getConditionRange(cond2);
-
-    if (!range1 || !range2) return false;
-
-    return !(range1.max < range2.min || range2.max < range1.min);
-  };
-
   /**
    * Detect all overlapping conditions in the queue
    */
@@ -534,38 +735,19 @@ export default function QueueDashboard() {
         !c.isDeleted // Exclude deleted conditions
     );
 
-    if (queueConditions.length < 2) return [];
-
-    const overlappingConditions = [];
-
-    for (let i = 0; i < queueConditions.length; i++) {
-      for (let j = i + 1; j < queueConditions.length; j++) {
-        const cond1 = queueConditions[i];
-        const cond2 = queueConditions[j];
-
-        if (
-          cond1.operator &&
-          cond2.operator &&
-          getConditionRange(cond1) &&
-          getConditionRange(cond2) &&
-          conditionsOverlap(cond1, cond2)
-        ) {
-          // Get template names for better description
-          const template1 = messageTemplates.find((t) => t.id === cond1.templateId);
-          const template2 = messageTemplates.find((t) => t.id === cond2.templateId);
-          const template1Name = template1?.title || 'قالب غير معروف';
-          const template2Name = template2?.title || 'قالب غير معروف';
-
-          overlappingConditions.push({
-            id1: cond1.id,
-            id2: cond2.id,
-            description: `تقاطع: ${template1Name} (${getConditionText(cond1)}) و ${template2Name} (${getConditionText(cond2)})`
-          });
-        }
-      }
-    }
-
-    return overlappingConditions;
+    return detectOverlaps(queueConditions).map(({ cond1, cond2 }) => {
+      // Get template names for better description
+      const template1 = messageTemplates.find((t) => t.id === cond1.templateId);
+      const template2 = messageTemplates.find((t) => t.id === cond2.templateId);
+      const template1Name = template1?.title || 'قالب غير معروف';
+      const template2Name = template2?.title || 'قالب غير معروف';
+
+      return {
+        id1: cond1.id,
+        id2: cond2.id,
+        description: `تقاطع: ${template1Name} (${getConditionText(cond1)}) و ${template2Name} (${getConditionText(cond2)})`
+      };
+    });
   }, [selectedQueueId, messageConditions, messageTemplates]);
 
   /**
@@ -696,158 +878,251 @@ export default function QueueDashboard() {
     setEditingQueueValue('');
   }, []);
 
+  /**
+   * Pending reorder (drag-and-drop, Alt+Up/Down, move to position) - saved as one batch
+   */
+  const onReordered = useCallback(async () => {
+    await refreshPatients(selectedQueueId || undefined);
+  }, [refreshPatients, selectedQueueId]);
+  const reorder = usePatientReorder({ queueId: selectedQueueId, patients, onReordered });
+  const cqpNumber = queue?.currentPosition ?? 0;
+
+  useEffect(() => {
+    const focusId = reorderFocusIdRef.current;
+    if (!focusId) return;
+    reorderFocusIdRef.current = null;
+    document.querySelector<HTMLElement>(`[data-reorder-handle="${focusId}"]`)?.focus();
+  }, [reorder.order]);
+
+  const handleRowKeyDown = useCallback((e: React.KeyboardEvent, patientId: string) => {
+    if (!e.altKey || (e.key !== 'ArrowUp' && e.key !== 'ArrowDown')) return;
+    if ((e.target as HTMLElement).tagName === 'INPUT' && (e.target as HTMLInputElement).type !== 'checkbox') return;
+    e.preventDefault();
+    reorderFocusIdRef.current = patientId;
+    reorder.moveBy(patientId, selectedPatients, e.key === 'ArrowUp' ? -1 : 1);
+  }, [reorder, selectedPatients]);
+
+  const handleMoveSelectedToPosition = useCallback(() => {
+    const position = parseInt(moveToPositionValue, 10);
+    if (isNaN(position) || position < 1) {
+      addToast('الترتيب يجب أن يكون رقم موجب', 'error');
+      return;
+    }
+    reorder.moveToPosition(selectedPatients, position);
+    setMoveToPositionValue('');
+  }, [moveToPositionValue, selectedPatients, reorder, addToast]);
+
   /**
    * Memoize table columns configuration
    */
   const tableColumns = useMemo(() => [
     { key: 'checkbox', label: '', width: '5%' },
-    { key: 'queue', label: 'ترتيب الانتظار', width: '15%' },
-    { key: 'name', label: 'الاسم', width: '25%' },
-    { key: 'phone', label: 'رقم الجوال', width: '20%' },
-    { key: 'actions', label: 'الإجراءات', width: '35%' },
+    { key: 'handle', label: '', width: '4%' },
+    { key: 'queue', label: 'ترتيب الانتظار', width: '14%' },
+    { key: 'status', label: 'الحالة', width: '10%' },
+    { key: 'name', label: 'الاسم', width: '22%' },
+    { key: 'phone', label: 'رقم الجوال', width: '17%' },
+    { key: 'actions', label: 'الإجراءات', width: '28%' },
   ], []);
 
   /**
-   * Memoize table data rows - sorted by position
+   * Memoize table data rows - in the (pending) reorder order, which is by position when nothing is pending
    */
-  const tableRows = useMemo(() =>
-    patients
-      .sort((a, b) => (a.position || 0) - (b.position || 0))
-      .map((patient) => ({
-        id: patient.id,
-        checkbox: (
-          <input
-            type="checkbox"
-            checked={selectedPatients.includes(patient.id)}
-            onChange={() => togglePatientSelection(patient.id)}
-            className="w-4 h-4 rounded cursor-pointer"
-          />
-        ),
-        queue:
-          editingQueueId === patient.id ? (
-            <div className="flex gap-1 items-center">
-              <input
-                type="number"
-                value={editingQueueValue}
-                onChange={(e) => setEditingQueueValue(e.target.value)}
-                onKeyDown={(e) => {
-                  if (e.key === 'Enter') {
-                    e.preventDefault();
-                    saveQueueEdit(patient.id);
-                  } else if (e.key === 'Escape') {
-                    e.preventDefault();
-                    cancelQueueEdit();
-                  }
-                }}
-                className="w-16 px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
-                autoFocus
-              />
-              <button
-                onClick={() => saveQueueEdit(patient.id)}
-                className="bg-green-500 hover:bg-green-600 px-1 py-0.5 rounded text-xs text-white"
-                title="حفظ (Enter)"
-              >
-                ✓
-              </button>
+  const tableRows = useMemo(() => {
+    const patientsById = new Map(patients.map((p) => [p.id, p]));
+    return reorder.order
+      .map((id) => patientsById.get(id))
+      .filter((patient): patient is NonNullable<typeof patient> => !!patient)
+      .map((patient) => {
+        const previewPosition = reorder.previewPositions[patient.id];
+        const isMoved = previewPosition !== undefined && previewPosition !== (patient.position || 0);
+        const flowStatus = getFlowStatus(patient.status);
+        const isFlowActionPending = flowActionPatientId === patient.id;
+        return {
+          id: patient.id,
+          isMoved,
+          handle: (
+            <button
+              type="button"
+              data-reorder-handle={patient.id}
+              aria-label={`نقل ${patient.name} - الموضع ${previewPosition ?? patient.position}. استخدم Alt مع الأسهم لأعلى ولأسفل`}
+              title="اسحب لتغيير الترتيب أو استخدم Alt+↑ / Alt+↓"
+              className="text-gray-400 hover:text-gray-700 cursor-grab active:cursor-grabbing px-1 focus:outline-none focus:ring-2 focus:ring-blue-500 rounded"
+            >
+              <i className="fas fa-grip-vertical"></i>
+            </button>
+          ),
+          checkbox: (
+            <input
+              type="checkbox"
+              checked={selectedPatients.includes(patient.id)}
+              onChange={() => togglePatientSelection(patient.id)}
+              className="w-4 h-4 rounded cursor-pointer"
+            />
+          ),
+          queue:
+            editingQueueId === patient.id ? (
+              <div className="flex gap-1 items-center">
+                <input
+                  type="number"
+                  value={editingQueueValue}
+                  onChange={(e) => setEditingQueueValue(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      saveQueueEdit(patient.id);
+                    } else if (e.key === 'Escape') {
+                      e.preventDefault();
+                      cancelQueueEdit();
+                    }
+                  }}
+                  className="w-16 px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  autoFocus
+                />
+                <button
+                  onClick={() => saveQueueEdit(patient.id)}
+                  className="bg-green-500 hover:bg-green-600 px-1 py-0.5 rounded text-xs text-white"
+                  title="حفظ (Enter)"
+                >
+                  ✓
+                </button>
+                <button
+                  onClick={cancelQueueEdit}
+                  className="bg-red-500 hover:bg-red-600 px-1 py-0.5 rounded text-xs text-white"
+                  title="إلغاء (Esc)"
+                >
+                  ✕
+                </button>
+              </div>
+            ) : isMoved ? (
+              <div className="flex gap-2 items-center">
+                <span className="text-gray-400 line-through text-xs">#{patient.position || '-'}</span>
+                <span className="bg-amber-100 text-amber-800 px-3 py-1 rounded-full text-xs font-medium">
+                  #{previewPosition}
+                </span>
+                <span className="text-xs text-gray-500 whitespace-nowrap" title="الإزاحة عن الموضع الحالي">
+                  ({previewPosition - cqpNumber > 0 ? '+' : ''}{previewPosition - cqpNumber})
+                </span>
+              </div>
+            ) : (
+              <div className="flex gap-2 items-center">
+                <span className="bg-blue-100 text-blue-800 px-3 py-1 rounded-full text-xs font-medium">
+                  #{patient.position || '-'}
+                </span>
+                {!reorder.hasChanges && (
+                  <button
+                    onClick={() => startEditingQueue(patient.id, patient.position)}
+                    title="تعديل ترتيب الانتظار"
+                    className="bg-blue-50 text-blue-600 hover:bg-blue-100 px-2 py-1 rounded text-xs"
+                  >
+                    <i className="fas fa-edit"></i>
+                  </button>
+                )}
+              </div>
+            ),
+          status: (
+            <span className={`${PATIENT_STATUS_BADGE_CLASSES[flowStatus]} px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap`}>
+              {getFlowStatusLabel(patient.status)}
+            </span>
+          ),
+          name: patient.name,
+          phone: formatPhoneForDisplay(patient.phone, patient.countryCode || '+20'),
+          actions: (
+            <div className="flex gap-2 justify-start">
               <button
-                onClick={cancelQueueEdit}
-                className="bg-red-500 hover:bg-red-600 px-1 py-0.5 rounded text-xs text-white"
-                title="إلغاء (Esc)"
+                onClick={() => {
+                  const num = (patient.countryCode + patient.phone).replace(/[^0-9]/g, '');
+                  const url = `https://wa.me/${num}`;
+                  window.open(url, '_blank');
+                }}
+                title="فتح في واتساب"
+                className="bg-green-50 text-green-600 hover:bg-green-100 px-2 py-1 rounded"
               >
-                ✕
+                <i className="fab fa-whatsapp"></i>
               </button>
-            </div>
-          ) : (
-            <div className="flex gap-2 items-center">
-              <span className="bg-blue-100 text-blue-800 px-3 py-1 rounded-full text-xs font-medium">
-                #{patient.position || '-'}
-              </span>
+              <PatientConversationButton patientId={patient.id} unreadCount={unreadByPatient[String(patient.id)]} />
+              {canChangeFlowStatus(patient.status) && (
+                <>
+                  <button
+                    onClick={() => handlePatientFlowAction(patient, 'skip')}
+                    disabled={isFlowActionPending}
+                    title="تخطي - إعادته إلى نهاية قائمة الانتظار"
+                    className="bg-amber-50 text-amber-600 hover:bg-amber-100 px-2 py-1 rounded disabled:opacity-50"
+                  >
+                    <i className="fas fa-forward"></i>
+                  </button>
+                  <button
+                    onClick={() => handlePatientFlowAction(patient, 'noShow')}
+                    disabled={isFlowActionPending}
+                    title="لم يحضر"
+                    className="bg-gray-100 text-gray-600 hover:bg-gray-200 px-2 py-1 rounded disabled:opacity-50"
+                  >
+                    <i className="fas fa-user-slash"></i>
+                  </button>
+                </>
+              )}
               <button
-                onClick={() => startEditingQueue(patient.id, patient.position)}
-                title="تعديل ترتيب الانتظار"
-                className="bg-blue-50 text-blue-600 hover:bg-blue-100 px-2 py-1 rounded text-xs"
+                onClick={() =>
+                  openModal('editPatient', {
+                    patient,
+                    onSave: (_updated: any) => {
+                      // Patient updates now handled through API
+                      // QueueContext will auto-refresh on next load
+                    },
+                  })
+                }
+                title="تعديل"
+                className="bg-blue-50 text-blue-600 hover:bg-blue-100 px-2 py-1 rounded"
               >
                 <i className="fas fa-edit"></i>
               </button>
-            </div>
-          ),
-        name: patient.name,
-        phone: formatPhoneForDisplay(patient.phone, patient.countryCode || '+20'),
-        actions: (
-          <div className="flex gap-2 justify-start">
-            <button
-              onClick={() => {
-                const num = (patient.countryCode + patient.phone).replace(/[^0-9]/g, '');
-                const url = `https://wa.me/${num}`;
-                window.open(url, '_blank');
-              }}
-              title="فتح في واتساب"
-              className="bg-green-50 text-green-600 hover:bg-green-100 px-2 py-1 rounded"
-            >
-              <i className="fab fa-whatsapp"></i>
-            </button>
-            <button
-              onClick={() =>
-                openModal('editPatient', {
-                  patient,
-                  onSave: (_updated: any) => {
-                    // Patient updates now handled through API
-                    // QueueContext will auto-refresh on next load
-                  },
-                })
-              }
-              title="تعديل"
-              className="bg-blue-50 text-blue-600 hover:bg-blue-100 px-2 py-1 rounded"
-            >
-              <i className="fas fa-edit"></i>
-            </button>
-            <button
-              onClick={async () => {
-                const confirmed = await confirm(createDeleteConfirmation(patient.name));
-                if (confirmed) {
-                  try {
-                    const patientId = Number(patient.id);
-                    if (isNaN(patientId) || patientId <= 0) {
-                      logger.error('Invalid patient ID:', patient.id);
-                      addToast('معرّف المريض غير صالح', 'error');
-                      return;
-                    }
+              <button
+                onClick={async () => {
+                  const confirmed = await confirm(createDeleteConfirmation(patient.name));
+                  if (confirmed) {
+                    try {
+                      const patientId = Number(patient.id);
+                      if (isNaN(patientId) || patientId <= 0) {
+                        logger.error('Invalid patient ID:', patient.id);
+                        addToast('معرّف المريض غير صالح', 'error');
+                        return;
+                      }
 
-                    logger.info('Deleting patient with ID:', patientId, 'from patient:', patient);
-                    await patientsApiClient.deletePatient(patientId);
-                    addToast('تم حذف المريض بنجاح', 'success');
-                    // Refresh patients list from API
-                    if (selectedQueueId) {
-                      await refreshPatients(selectedQueueId);
-                    }
-                    // Dispatch event to refresh PanelHeader stats
-                    window.dispatchEvent(new CustomEvent('patientDataUpdated'));
-                  } catch (error: any) {
-                    logger.error('Error deleting patient:', error, 'Patient ID:', patient.id);
-                    const errorMessage = error?.message || 'فشل حذف المريض';
-                    addToast(errorMessage, 'error');
-
-                    // Refresh patients list in case it's stale
-                    if (selectedQueueId) {
-                      try {
+                      logger.info('Deleting patient with ID:', patientId, 'from patient:', patient);
+                      await patientsApiClient.deletePatient(patientId);
+                      addToast('تم حذف المريض بنجاح', 'success');
+                      // Refresh patients list from API
+                      if (selectedQueueId) {
                         await refreshPatients(selectedQueueId);
-                      } catch (refreshError) {
-                        logger.error('Error refreshing patients after delete failure:', refreshError);
+                      }
+                      // Dispatch event to refresh PanelHeader stats
+                      window.dispatchEvent(new CustomEvent('patientDataUpdated'));
+                    } catch (error: any) {
+                      logger.error('Error deleting patient:', error, 'Patient ID:', patient.id);
+                      const errorMessage = error?.message || 'فشل حذف المريض';
+                      addToast(errorMessage, 'error');
+
+                      // Refresh patients list in case it's stale
+                      if (selectedQueueId) {
+                        try {
+                          await refreshPatients(selectedQueueId);
+                        } catch (refreshError) {
+                          logger.error('Error refreshing patients after delete failure:', refreshError);
+                        }
                       }
                     }
                   }
-                }
-              }}
-              title="حذف"
-              className="bg-red-50 text-red-600 hover:bg-red-100 px-2 py-1 rounded"
-            >
-              <i className="fas fa-trash"></i>
-            </button>
-          </div>
-        ),
-      })),
-    [patients, selectedPatients, editingQueueId, editingQueueValue, togglePatientSelection, startEditingQueue, saveQueueEdit, cancelQueueEdit, openModal]
-  );
+                }}
+                title="حذف"
+                className="bg-red-50 text-red-600 hover:bg-red-100 px-2 py-1 rounded"
+              >
+                <i className="fas fa-trash"></i>
+              </button>
+            </div>
+          ),
+        };
+      });
+  }, [patients, reorder.order, reorder.previewPositions, reorder.hasChanges, cqpNumber, selectedPatients, editingQueueId, editingQueueValue, flowActionPatientId, togglePatientSelection, startEditingQueue, saveQueueEdit, cancelQueueEdit, handlePatientFlowAction, openModal, unreadByPatient]);
 
   return (
     <PanelWrapper>
@@ -879,14 +1154,26 @@ export default function QueueDashboard() {
               <span>الموضع الحالي (CQP)</span>
             </h3>
             {!isEditingCQP && (
-              <button
-                onClick={handleEditCQP}
-                className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-2 rounded-lg transition-all shadow-md hover:shadow-lg text-sm font-medium"
-                title="تعديل"
-              >
-                <i className="fas fa-pen-to-square mr-1"></i>
-                <span>تعديل</span>
-              </button>
+              <div className="flex items-center gap-2">
+                <a
+                  href={`/display?queues=${selectedQueueId}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="bg-white hover:bg-blue-50 text-blue-700 border border-blue-300 px-3 py-2 rounded-lg transition-all text-sm font-medium"
+                  title="شاشة العرض في صالة الانتظار (تفتح في نافذة جديدة)"
+                  aria-label="شاشة الانتظار"
+                >
+                  <i className="fas fa-tv"></i>
+                </a>
+                <button
+                  onClick={handleEditCQP}
+                  className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-2 rounded-lg transition-all shadow-md hover:shadow-lg text-sm font-medium"
+                  title="تعديل"
+                >
+                  <i className="fas fa-pen-to-square mr-1"></i>
+                  <span>تعديل</span>
+                </button>
+              </div>
             )}
           </div>
           {isEditingCQP ? (
@@ -946,6 +1233,31 @@ export default function QueueDashboard() {
           ) : (
             <p className="text-3xl font-bold text-blue-700">{currentCQP}</p>
           )}
+          <div className="mt-3 pt-3 border-t border-blue-200 flex items-center justify-between gap-2">
+            <div className="text-xs text-gray-700 space-y-1 min-w-0">
+              <p className="truncate">
+                <span className="text-gray-500">في الكشف: </span>
+                {queueFlow.current ? `${queueFlow.current.name} (#${queueFlow.current.position})` : '-'}
+              </p>
+              <p className="truncate">
+                <span className="text-gray-500">التالي: </span>
+                {queueFlow.next ? `${queueFlow.next.name} (#${queueFlow.next.position})` : 'لا يوجد مرضى في الانتظار'}
+              </p>
+            </div>
+            <button
+              onClick={handleCallNext}
+              disabled={isCallingNext || isEditingCQP || reorder.hasChanges || (!queueFlow.current && !queueFlow.next)}
+              className="bg-blue-700 hover:bg-blue-800 text-white px-4 py-2 rounded-lg transition-colors shadow-md text-sm font-medium whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+              title={reorder.hasChanges ? 'احفظ أو ألغِ تغييرات الترتيب أولاً' : 'إنهاء المريض الحالي ونداء التالي'}
+            >
+              {isCallingNext ? (
+                <i className="fas fa-spinner fa-spin ml-1"></i>
+              ) : (
+                <i className="fas fa-bullhorn ml-1"></i>
+              )}
+              <span>النداء التالي</span>
+            </button>
+          </div>
         </div>
 
         {/* Estimated Time per Session (ETS) Card */}
@@ -1027,8 +1339,62 @@ export default function QueueDashboard() {
         </div>
       </div>
 
+      {/* Auto-notify on CQP advance */}
+      <div className="flex flex-wrap items-center justify-between gap-3 p-4 mb-6 bg-gray-50 border border-gray-200 rounded-lg">
+        <div>
+          <h4 className="font-medium text-gray-900 flex items-center gap-2">
+            <i className="fas fa-bell text-blue-600"></i>
+            الإرسال التلقائي عند تقدم الموضع
+          </h4>
+          <p className="text-sm text-gray-500">
+            عند زيادة الموضع الحالي تُرسل الرسائل تلقائياً للمرضى الذين تغير الشرط المطابق لهم منذ آخر رسالة
+          </p>
+          {autoNotifyPreview && (
+            <p className="text-xs text-blue-700 mt-1">
+              عند التقدم للموضع التالي: {autoNotifyPreview.patientIds.length} رسالة
+              {autoNotifyPreview.skipped.some((s) => s.reason === 'UNVALIDATED_NUMBER') &&
+                ` (سيتم تخطي ${autoNotifyPreview.skipped.filter((s) => s.reason === 'UNVALIDATED_NUMBER').length} لعدم التحقق من الرقم)`}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          {queue?.autoNotifyEnabled && (
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <span>عدم التكرار خلال</span>
+              <select
+                value={queue.autoNotifyDedupMinutes ?? DEFAULT_AUTO_NOTIFY_DEDUP_MINUTES}
+                onChange={(e) => handleUpdateAutoNotify({ autoNotifyDedupMinutes: parseInt(e.target.value, 10) })}
+                disabled={isSavingAutoNotify}
+                className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {[15, 30, 60, 120, 240].map((minutes) => (
+                  <option key={minutes} value={minutes}>
+                    {minutes < 60 ? `${minutes} دقيقة` : `${minutes / 60} ساعة`}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <button
+            onClick={() => handleUpdateAutoNotify({ autoNotifyEnabled: !queue?.autoNotifyEnabled })}
+            disabled={isSavingAutoNotify}
+            className={`relative inline-flex h-6 w-11 flex-shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 ${queue?.autoNotifyEnabled ? 'bg-green-500' : 'bg-gray-300'
+              }`}
+            role="switch"
+            aria-checked={!!queue?.autoNotifyEnabled}
+            aria-label="الإرسال التلقائي عند تقدم الموضع"
+            dir="ltr"
+          >
+            <span
+              className={`pointer-events-none inline-block h-5 w-5 transform rounded-full bg-white shadow ring-0 transition duration-200 ease-in-out ${queue?.autoNotifyEnabled ? 'translate-x-5' : 'translate-x-0'
+                }`}
+            />
+          </button>
+        </div>
+      </div>
+
       {/* Action Buttons */}
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-6">
         <button
           onClick={() => openModal('addPatient')}
           className="bg-green-600 text-white p-4 rounded-lg hover:bg-green-700 transition-colors flex items-center justify-center space-x-2 space-x-reverse"
@@ -1045,6 +1411,27 @@ export default function QueueDashboard() {
           <span>رفع ملف المرضى</span>
         </button>
 
+        <button
+          onClick={() => {
+            if (!selectedQueueId || !queue) return;
+            if (patients.length === 0) {
+              addToast('لا يوجد مرضى للتحقق من أرقامهم', 'error');
+              return;
+            }
+            if (detailedStatus !== 'connected_idle' && detailedStatus !== 'connected_sending' && detailedStatus !== 'connected_paused') {
+              addToast('جلسة الواتساب غير متصلة. يرجى التحقق من اتصال الإضافة أولاً.', 'error');
+              return;
+            }
+            startVerification(selectedQueueId, queue.doctorName);
+          }}
+          disabled={isVerifying}
+          className="bg-teal-600 text-white p-4 rounded-lg hover:bg-teal-700 transition-colors flex items-center justify-center space-x-2 space-x-reverse disabled:opacity-50 disabled:cursor-not-allowed"
+          title="التحقق من أرقام واتساب لجميع المرضى في الخلفية"
+        >
+          <i className={`fas ${isVerifying ? 'fa-spinner fa-spin' : 'fa-check-double'}`}></i>
+          <span>{isVerifying ? 'جاري التحقق من الأرقام' : 'التحقق من جميع الأرقام'}</span>
+        </button>
+
         <button
           onClick={async () => {
             if (selectedPatients.length === 0) {
@@ -1302,7 +1689,7 @@ export default function QueueDashboard() {
                             </p>
                             <p className="text-xs text-gray-600 mt-3 border-t border-blue-200 pt-3">
                               <i className="fas fa-info-circle text-blue-500 ml-1"></i>
-                              المتغيرات المتاحة: {'{PN}'} = اسم المريض، {'{PQP}'} = موضع المريض، {'{CQP}'} = الموضع الحالي، {'{ETR}'} = الوقت المتبقي
+                              المتغيرات المتاحة: {'{PN}'} = اسم المريض، {'{PQP}'} = موضع المريض، {'{CQP}'} = الموضع الحالي، {'{ETR}'} = الوقت المتبقي، {'{APPT_TIME}'} = موعد الدخول المتوقع، {'{DATE}'} = تاريخ اليوم، {'{LINK}'} = رابط متابعة الدور
                             </p>
                           </div>
                         ) : (
@@ -1468,15 +1855,69 @@ export default function QueueDashboard() {
                 </span>
               </div>
               {selectedPatients.length > 0 && (
-                <button
-                  onClick={() => setSelectedPatients([])}
-                  className="text-sm text-red-600 hover:text-red-800"
-                >
-                  إلغاء التحديد
-                </button>
+                <div className="flex items-center gap-3">
+                  <div className="flex items-center gap-1">
+                    <label htmlFor="moveSelectedToPosition" className="text-sm text-gray-600">نقل المحدد إلى الموضع</label>
+                    <input
+                      id="moveSelectedToPosition"
+                      type="number"
+                      min={1}
+                      value={moveToPositionValue}
+                      onChange={(e) => setMoveToPositionValue(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          e.preventDefault();
+                          handleMoveSelectedToPosition();
+                        }
+                      }}
+                      className="w-16 px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <button
+                      onClick={handleMoveSelectedToPosition}
+                      disabled={!moveToPositionValue}
+                      className="bg-blue-50 text-blue-600 hover:bg-blue-100 px-2 py-1 rounded text-sm disabled:opacity-50"
+                    >
+                      نقل
+                    </button>
+                  </div>
+                  <button
+                    onClick={() => setSelectedPatients([])}
+                    className="text-sm text-red-600 hover:text-red-800"
+                  >
+                    إلغاء التحديد
+                  </button>
+                </div>
               )}
             </div>
 
+            {/* Pending reorder */}
+            {reorder.hasChanges && (
+              <div className="px-6 py-3 bg-amber-50 border-b border-amber-200 flex items-center justify-between gap-3">
+                <div className="text-sm text-amber-800 flex items-center gap-2">
+                  <i className="fas fa-arrows-alt-v"></i>
+                  تغيير ترتيب {reorder.changedCount} مريض لم يُحفظ بعد - الإزاحة بين القوسين محسوبة من الموضع الحالي ({cqpNumber})
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={reorder.save}
+                    disabled={reorder.isSaving}
+                    className="bg-blue-600 text-white hover:bg-blue-700 px-3 py-1.5 rounded text-sm disabled:opacity-50 flex items-center gap-1"
+                  >
+                    <i className={`fas ${reorder.isSaving ? 'fa-spinner fa-spin' : 'fa-save'}`}></i>
+                    حفظ الترتيب
+                  </button>
+                  <button
+                    onClick={reorder.cancel}
+                    disabled={reorder.isSaving}
+                    className="bg-white border border-gray-300 text-gray-700 hover:bg-gray-50 px-3 py-1.5 rounded text-sm disabled:opacity-50"
+                  >
+                    إلغاء
+                  </button>
+                </div>
+              </div>
+            )}
+            <div className="sr-only" aria-live="polite">{reorder.announcement}</div>
+
             <div className="overflow-x-auto">
               <table className="w-full">
                 <thead className="bg-gray-50 border-b">
@@ -1492,14 +1933,37 @@ export default function QueueDashboard() {
                     ))}
                   </tr>
                 </thead>
-                <tbody>
-                  {tableRows.map((row) => (
+                <tbody onDragLeave={(e) => {
+                  if (!e.currentTarget.contains(e.relatedTarget as Node)) reorder.dragOver(-1);
+                }}>
+                  {tableRows.map((row, index) => (
                     <tr
                       key={row.id}
+                      draggable={editingQueueId !== row.id}
+                      onDragStart={(e) => {
+                        e.dataTransfer.effectAllowed = 'move';
+                        e.dataTransfer.setData('text/plain', row.id);
+                        reorder.startDrag(row.id, selectedPatients);
+                      }}
+                      onDragOver={(e) => {
+                        if (reorder.draggingIds.length === 0) return;
+                        e.preventDefault();
+                        const rect = e.currentTarget.getBoundingClientRect();
+                        reorder.dragOver(e.clientY < rect.top + rect.height / 2 ? index : index + 1);
+                      }}
+                      onDrop={(e) => {
+                        e.preventDefault();
+                        reorder.drop();
+                      }}
+                      onDragEnd={reorder.endDrag}
+                      onKeyDown={(e) => handleRowKeyDown(e, row.id)}
                       className={`border-b hover:bg-gray-50 transition-colors ${selectedPatients.includes(row.id) ? 'bg-blue-50' : ''
+                        } ${row.isMoved ? 'bg-amber-50' : ''} ${reorder.draggingIds.includes(row.id) ? 'opacity-50' : ''
+                        } ${reorder.dropIndex === index ? 'border-t-2 border-t-blue-500' : ''} ${reorder.dropIndex === index + 1 && index === tableRows.length - 1 ? 'border-b-2 border-b-blue-500' : ''
                         }`}
                     >
                       <td className="px-6 py-3 text-sm">{row.checkbox}</td>
+                      <td className="px-2 py-3 text-sm">{row.handle}</td>
                       <td className="px-6 py-3 text-sm">{row.queue}</td>
                       <td className="px-6 py-3 text-sm text-gray-900 font-medium">{row.name}</td>
                       <td className="px-6 py-3 text-sm text-gray-600">{row.phone}</td>
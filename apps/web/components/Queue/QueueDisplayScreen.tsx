@@ -0,0 +1,145 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { useQueueDisplay } from '@/hooks/useQueueDisplay';
+import {
+  buildCallAnnouncement,
+  getAdvancedBoards,
+  speakAnnouncement,
+  DISPLAY_SPEECH_ENABLED_KEY,
+} from '@/utils/queueDisplay';
+import { formatLocalTime } from '@/utils/dateTimeUtils';
+
+interface QueueDisplayScreenProps {
+  queueIds: number[];
+  speechRequested?: boolean; // ?speech=1 - still needs one tap on the screen before the browser allows speech
+}
+
+/**
+ * QueueDisplayScreen - Full-screen waiting-room TV mode: per queue the doctor, the number inside now (CQP),
+ * the next few numbers and the estimated wait, with optional spoken call-outs when CQP advances
+ */
+export default function QueueDisplayScreen({ queueIds, speechRequested = false }: QueueDisplayScreenProps) {
+  const { boards, error, isLive, lastUpdated } = useQueueDisplay(queueIds);
+  const [speechEnabled, setSpeechEnabled] = useState<boolean>(() => {
+    if (typeof window === 'undefined') return false;
+    return speechRequested || localStorage.getItem(DISPLAY_SPEECH_ENABLED_KEY) === 'true';
+  });
+  const lastPositionsRef = useRef<Map<number, number>>(new Map());
+
+  // Announce every queue whose CQP moved forward since the last snapshot
+  useEffect(() => {
+    const advanced = getAdvancedBoards(lastPositionsRef.current, boards);
+    lastPositionsRef.current = new Map(boards.map((b) => [b.queueId, b.currentPosition]));
+    if (!speechEnabled) return;
+    advanced.forEach((b) => speakAnnouncement(buildCallAnnouncement(b.currentPosition, b.doctorName)));
+  }, [boards, speechEnabled]);
+
+  const toggleSpeech = () => {
+    const next = !speechEnabled;
+    setSpeechEnabled(next);
+    localStorage.setItem(DISPLAY_SPEECH_ENABLED_KEY, String(next));
+    // Speaking inside the tap unlocks speech synthesis for the later automatic call-outs
+    if (next) speakAnnouncement('تم تفعيل النداء الصوتي');
+  };
+
+  const enterFullscreen = () => {
+    document.documentElement.requestFullscreen?.().catch(() => undefined);
+  };
+
+  if (queueIds.length === 0) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-900 text-white p-8 text-center">
+        <div>
+          <i className="fas fa-tv text-5xl mb-4 text-gray-400"></i>
+          <p className="text-2xl font-bold mb-2">لم يتم تحديد عيادات للعرض</p>
+          <p className="text-gray-400">افتح الشاشة من إدارة العيادات أو أضف ?queues=1,2 إلى الرابط</p>
+        </div>
+      </div>
+    );
+  }
+
+  const gridCols = boards.length <= 1 ? 'grid-cols-1' : boards.length === 2 ? 'md:grid-cols-2' : 'md:grid-cols-2 xl:grid-cols-3';
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white flex flex-col p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-3xl font-bold">
+          <i className="fas fa-tv ml-3 text-blue-400"></i>
+          شاشة الانتظار
+        </h1>
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            onClick={toggleSpeech}
+            className={`px-4 py-2 rounded-lg text-sm transition flex items-center gap-2 ${
+              speechEnabled ? 'bg-green-600 hover:bg-green-700' : 'bg-gray-700 hover:bg-gray-600'
+            }`}
+            aria-pressed={speechEnabled}
+          >
+            <i className={`fas ${speechEnabled ? 'fa-volume-up' : 'fa-volume-mute'}`}></i>
+            {speechEnabled ? 'النداء الصوتي مفعل' : 'تفعيل النداء الصوتي'}
+          </button>
+          <button
+            type="button"
+            onClick={enterFullscreen}
+            className="px-4 py-2 rounded-lg text-sm bg-gray-700 hover:bg-gray-600 transition flex items-center gap-2"
+          >
+            <i className="fas fa-expand"></i>
+            ملء الشاشة
+          </button>
+        </div>
+      </div>
+
+      {boards.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center text-gray-300">
+          {error ? (
+            <p className="text-xl">{error}</p>
+          ) : (
+            <div className="inline-block animate-spin rounded-full h-12 w-12 border-b-2 border-blue-400"></div>
+          )}
+        </div>
+      ) : (
+        <div className={`flex-1 grid grid-cols-1 ${gridCols} gap-6`} aria-live="polite">
+          {boards.map((board) => (
+            <div key={board.queueId} className="bg-gray-800 rounded-2xl p-6 flex flex-col">
+              <h2 className="text-3xl font-bold text-center mb-6 truncate">{board.doctorName}</h2>
+
+              <div className="bg-blue-600 rounded-xl p-6 text-center mb-6">
+                <p className="text-xl text-blue-100 mb-2">الرقم الحالي</p>
+                <p className="text-8xl font-bold">{board.currentPosition}</p>
+              </div>
+
+              <div className="mb-6">
+                <p className="text-lg text-gray-300 mb-3 text-center">الأرقام التالية</p>
+                {board.nextPositions.length > 0 ? (
+                  <div className="flex justify-center gap-3">
+                    {board.nextPositions.map((position) => (
+                      <span key={position} className="bg-gray-700 rounded-lg px-5 py-3 text-3xl font-bold">
+                        {position}
+                      </span>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-center text-gray-500 text-xl">لا يوجد منتظرون</p>
+                )}
+              </div>
+
+              <div className="mt-auto text-center text-gray-300 text-lg">
+                <p>المنتظرون: <span className="font-bold text-white">{board.waitingCount}</span></p>
+                <p>الانتظار المتوقع: <span className="font-bold text-white">{board.estimatedWaitText}</span></p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <p className="mt-6 text-sm text-gray-400 flex items-center justify-center gap-2">
+        <span className={`inline-block w-2 h-2 rounded-full ${isLive ? 'bg-green-500' : 'bg-yellow-500'}`}></span>
+        {isLive ? 'تحديث مباشر' : 'جاري إعادة الاتصال...'}
+        {lastUpdated && <> - آخر تحديث: {formatLocalTime(lastUpdated)}</>}
+        {error && boards.length > 0 && <span className="text-yellow-400">- {error}</span>}
+      </p>
+    </div>
+  );
+}
@@ -3,6 +3,8 @@
  * File: apps/web/components/Queue/QueuesManagementView.tsx
  * 
  * Integrates the TrashTab component for soft-deleted queue management
+ * and lists active queues with "self check-in" (QueueCheckInModal), "waiting-room display" (/display)
+ * and "duplicate queue" (DuplicateQueueModal) actions
  */
 
 'use client';
@@ -11,6 +13,7 @@ import React, { useState, useCallback, useEffect } from 'react';
 import { queuesApiClient } from '@/services/api/queuesApiClient';
 import { useUI } from '@/contexts/UIContext';
 import { useQueue } from '@/contexts/QueueContext';
+import { useModal } from '@/contexts/ModalContext';
 import TrashTab from '@/components/TrashTab';
 import { TabNavigation } from '@/components/Common/TabNavigation';
 import logger from '@/utils/logger';
@@ -24,7 +27,8 @@ interface Tab {
 
 export default function QueuesManagementView() {
   const { addToast } = useUI();
-  const { refreshQueues } = useQueue();
+  const { queues, refreshQueues } = useQueue();
+  const { openModal } = useModal();
   const [activeTab, setActiveTab] = useState<string>('active');
   
   // Trash tab state
@@ -147,9 +151,67 @@ export default function QueuesManagementView() {
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
         {activeTab === 'active' && (
           <div>
-            <h2 className="text-xl font-semibold mb-4">Active Queues</h2>
-            <p className="text-gray-600">Active queues will appear here.</p>
-            {/* TODO: Add active queues list */}
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold">Active Queues</h2>
+              {queues.length > 1 && (
+                <a
+                  href={`/display?queues=${queues.map((q) => q.id).join(',')}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="px-3 py-1.5 text-sm bg-gray-800 text-white rounded-lg hover:bg-gray-900 transition flex items-center gap-2"
+                  title="شاشة انتظار واحدة لكل العيادات"
+                >
+                  <i className="fas fa-tv"></i>
+                  شاشة انتظار لكل العيادات
+                </a>
+              )}
+            </div>
+            {queues.length === 0 ? (
+              <p className="text-gray-600">لا توجد عيادات بعد</p>
+            ) : (
+              <ul className="divide-y divide-gray-200" dir="rtl">
+                {queues.map((queue) => (
+                  <li key={queue.id} className="flex items-center justify-between gap-3 py-3">
+                    <div>
+                      <p className="font-medium text-gray-900">{queue.doctorName}</p>
+                      <p className="text-xs text-gray-500">
+                        الوقت المقدر لكل مريض: {queue.estimatedWaitMinutes ?? 15} دقيقة
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        type="button"
+                        onClick={() => openModal('queueCheckIn', { queueId: queue.id })}
+                        className="px-3 py-1.5 text-sm bg-green-50 text-green-700 rounded-lg hover:bg-green-100 transition flex items-center gap-2"
+                        title="رمز QR يسجل به المرضى حضورهم بأنفسهم"
+                      >
+                        <i className="fas fa-qrcode"></i>
+                        تسجيل الحضور
+                      </button>
+                      <a
+                        href={`/display?queues=${queue.id}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition flex items-center gap-2"
+                        title="شاشة العرض في صالة الانتظار (تفتح في نافذة جديدة)"
+                      >
+                        <i className="fas fa-tv"></i>
+                        شاشة الانتظار
+                      </a>
+                      <button
+                        type="button"
+                        onClick={() => openModal('duplicateQueue', { queueId: queue.id })}
+                        className="px-3 py-1.5 text-sm bg-blue-50 text-blue-700 rounded-lg hover:bg-blue-100 transition flex items-center gap-2"
+                        title="إنشاء عيادة جديدة بنفس القوالب والشروط والإعدادات"
+                      >
+                        <i className="fas fa-clone"></i>
+                        نسخ العيادة
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
         )}
 
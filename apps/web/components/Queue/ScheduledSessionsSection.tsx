@@ -0,0 +1,410 @@
+'use client';
+
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSignalR } from '@/contexts/SignalRContext';
+import { useUI } from '@/contexts/UIContext';
+import { useQueue } from '@/contexts/QueueContext';
+import { useConfirmDialog } from '@/contexts/ConfirmationContext';
+import { createActionConfirmation } from '@/utils/confirmationHelpers';
+import { Badge } from '@/components/Common/ResponsiveUI';
+import { ScheduleDateTimePicker } from '@/components/Common/ScheduleDateTimePicker';
+import messageApiClient, { ScheduledSessionDto, MyQuotaDto } from '@/services/api/messageApiClient';
+import { formatPhoneForDisplay } from '@/utils/phoneUtils';
+import {
+  formatLocalDateTime,
+  formatTimeUntil,
+  parseAsUtc,
+  toDateTimeLocalValue,
+  fromDateTimeLocalValue,
+  validateScheduleValue,
+} from '@/utils/dateTimeUtils';
+import { debounce } from '@/utils/debounce';
+import logger from '@/utils/logger';
+
+/**
+ * Scheduled Sessions Section
+ * Shown at the top of OngoingTasksPanel: sessions created from MessagePreviewModal
+ * with a future send time. They can be rescheduled, trimmed, cancelled or sent now
+ * until the backend fires them (quota is re-checked at fire time).
+ */
+export default function ScheduledSessionsSection() {
+  const { user, isAuthenticated } = useAuth();
+  const { addToast } = useUI();
+  const { confirm } = useConfirmDialog();
+  const { selectedModeratorId } = useQueue();
+  const { connection, isConnected, on, off } = useSignalR();
+
+  const [scheduledSessions, setScheduledSessions] = useState<ScheduledSessionDto[]>([]);
+  const [quota, setQuota] = useState<Pick<MyQuotaDto, 'limit' | 'remaining'> | null>(null);
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const [expandedSessions, setExpandedSessions] = useState<Set<string>>(new Set());
+  const [editingSessionId, setEditingSessionId] = useState<string | null>(null);
+  const [editScheduledAt, setEditScheduledAt] = useState('');
+  const [busySessionId, setBusySessionId] = useState<string | null>(null);
+
+  const isLoadingRef = React.useRef(false);
+
+  const moderatorId = user?.role === 'moderator'
+    ? Number(user.id)
+    : (user?.role === 'user' ? Number(user.assignedModerator) : selectedModeratorId);
+
+  /**
+   * Load scheduled sessions from backend API (deduplicated like loadOngoingSessions)
+   */
+  const loadScheduledSessions = useCallback(async () => {
+    if (isLoadingRef.current) return;
+
+    try {
+      isLoadingRef.current = true;
+      const response = await messageApiClient.getScheduledSessions(selectedModeratorId ?? undefined);
+      if (response.success && response.data) {
+        setScheduledSessions(response.data);
+      }
+    } catch (err) {
+      logger.error('Failed to load scheduled sessions:', err);
+    } finally {
+      isLoadingRef.current = false;
+    }
+  }, [selectedModeratorId]);
+
+  /**
+   * Load quota so we can warn early - the backend still re-checks at fire time
+   */
+  const loadQuota = useCallback(async () => {
+    if (!moderatorId) {
+      setQuota(null);
+      return;
+    }
+    try {
+      const quotaData = user?.role === 'moderator'
+        ? await messageApiClient.getMyQuota()
+        : await messageApiClient.getQuota(moderatorId);
+      setQuota(quotaData);
+    } catch (err) {
+      logger.error('Failed to load quota data:', err);
+      setQuota(null);
+    }
+  }, [user, moderatorId]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      loadScheduledSessions();
+      loadQuota();
+    }
+  }, [isAuthenticated, loadScheduledSessions, loadQuota]);
+
+  const debouncedRefresh = useMemo(
+    () => debounce(() => {
+      loadScheduledSessions();
+      loadQuota();
+    }, 2000),
+    [loadScheduledSessions, loadQuota]
+  );
+
+  // SignalR: a scheduled session that fires becomes an ongoing session (SessionUpdated)
+  useEffect(() => {
+    if (!connection || !isConnected) return;
+
+    const handleSessionUpdate = (payload: any) => {
+      logger.debug('ScheduledSessionsSection: Received session event', payload);
+      debouncedRefresh();
+    };
+
+    on('SessionUpdated', handleSessionUpdate);
+    on('SessionDeleted', handleSessionUpdate);
+    return () => {
+      off('SessionUpdated', handleSessionUpdate);
+      off('SessionDeleted', handleSessionUpdate);
+    };
+  }, [connection, isConnected, on, off, debouncedRefresh]);
+
+  useEffect(() => {
+    window.addEventListener('messageDataUpdated', debouncedRefresh);
+    window.addEventListener('patientDataUpdated', debouncedRefresh);
+    return () => {
+      window.removeEventListener('messageDataUpdated', debouncedRefresh);
+      window.removeEventListener('patientDataUpdated', debouncedRefresh);
+    };
+  }, [debouncedRefresh]);
+
+  const sortedSessions = useMemo(() => {
+    return [...scheduledSessions].sort((a, b) => {
+      const dateA = parseAsUtc(a.scheduledAt)?.getTime() || 0;
+      const dateB = parseAsUtc(b.scheduledAt)?.getTime() || 0;
+      return dateA - dateB;
+    });
+  }, [scheduledSessions]);
+
+  const totalScheduledMessages = useMemo(
+    () => scheduledSessions.reduce((sum, s) => sum + s.total, 0),
+    [scheduledSessions]
+  );
+
+  // Quota is consumed at fire time, so compare against everything still pending
+  const isQuotaInsufficient = quota !== null && quota.limit !== -1 && totalScheduledMessages > quota.remaining;
+
+  const toggleExpand = useCallback((sessionId: string) => {
+    setExpandedSessions((prev) => {
+      const next = new Set(prev);
+      if (next.has(sessionId)) {
+        next.delete(sessionId);
+      } else {
+        next.add(sessionId);
+      }
+      return next;
+    });
+  }, []);
+
+  const startReschedule = useCallback((session: ScheduledSessionDto) => {
+    setEditingSessionId(session.sessionId);
+    setEditScheduledAt(toDateTimeLocalValue(parseAsUtc(session.scheduledAt) ?? null));
+  }, []);
+
+  const saveReschedule = useCallback(async (sessionId: string) => {
+    const validationError = validateScheduleValue(editScheduledAt);
+    if (validationError) {
+      addToast(validationError, 'error');
+      return;
+    }
+
+    const scheduledAt = fromDateTimeLocalValue(editScheduledAt)!;
+    setBusySessionId(sessionId);
+    try {
+      await messageApiClient.updateScheduledSession(sessionId, { scheduledAt: scheduledAt.toISOString() });
+      addToast(`تم تغيير موعد الإرسال إلى ${formatLocalDateTime(scheduledAt)}`, 'success');
+      setEditingSessionId(null);
+      await loadScheduledSessions();
+    } catch (err: any) {
+      logger.error('Failed to reschedule session:', err);
+      addToast(err?.message || 'فشل تغيير موعد الإرسال', 'error');
+    } finally {
+      setBusySessionId(null);
+    }
+  }, [editScheduledAt, addToast, loadScheduledSessions]);
+
+  const removePatient = useCallback(async (session: ScheduledSessionDto, patientId: number) => {
+    const remaining = session.patients.filter((p) => p.patientId !== patientId).map((p) => p.patientId);
+
+    // Removing the last patient is the same as cancelling the whole session
+    if (remaining.length === 0) {
+      const confirmed = await confirm(createActionConfirmation('هذا هو المريض الأخير في الجلسة المجدولة. هل تريد إلغاء الجلسة بالكامل؟', true));
+      if (!confirmed) return;
+      setBusySessionId(session.sessionId);
+      try {
+        await messageApiClient.cancelScheduledSession(session.sessionId);
+        addToast('تم إلغاء الجلسة المجدولة', 'success');
+        await loadScheduledSessions();
+      } catch (err: any) {
+        addToast(err?.message || 'فشل إلغاء الجلسة المجدولة', 'error');
+      } finally {
+        setBusySessionId(null);
+      }
+      return;
+    }
+
+    setBusySessionId(session.sessionId);
+    try {
+      await messageApiClient.updateScheduledSession(session.sessionId, { patientIds: remaining });
+      addToast('تم إزالة المريض من الجلسة المجدولة', 'success');
+      await loadScheduledSessions();
+    } catch (err: any) {
+      logger.error('Failed to update scheduled session patients:', err);
+      addToast(err?.message || 'فشل تعديل الجلسة المجدولة', 'error');
+    } finally {
+      setBusySessionId(null);
+    }
+  }, [confirm, addToast, loadScheduledSessions]);
+
+  const cancelSession = useCallback(async (session: ScheduledSessionDto) => {
+    const confirmed = await confirm(createActionConfirmation(
+      `هل أنت متأكد من إلغاء إرسال ${session.total} رسالة المجدولة في ${formatLocalDateTime(session.scheduledAt)}؟`,
+      true
+    ));
+    if (!confirmed) return;
+
+    setBusySessionId(session.sessionId);
+    try {
+      await messageApiClient.cancelScheduledSession(session.sessionId);
+      addToast('تم إلغاء الجلسة المجدولة', 'success');
+      await loadScheduledSessions();
+    } catch (err: any) {
+      logger.error('Failed to cancel scheduled session:', err);
+      addToast(err?.message || 'فشل إلغاء الجلسة المجدولة', 'error');
+    } finally {
+      setBusySessionId(null);
+    }
+  }, [confirm, addToast, loadScheduledSessions]);
+
+  const sendNow = useCallback(async (session: ScheduledSessionDto) => {
+    const confirmed = await confirm(createActionConfirmation(
+      `سيتم إرسال ${session.total} رسالة الآن بدلاً من الموعد المجدول. هل تريد المتابعة؟`
+    ));
+    if (!confirmed) return;
+
+    setBusySessionId(session.sessionId);
+    try {
+      const result = await messageApiClient.sendScheduledSessionNow(session.sessionId);
+      addToast(`تم إرسال ${result.queued} رسالة إلى قائمة الإرسال`, 'success');
+      await loadScheduledSessions();
+      window.dispatchEvent(new CustomEvent('messageDataUpdated'));
+    } catch (err: any) {
+      logger.error('Failed to send scheduled session now:', err);
+      addToast(err?.message || 'فشل إرسال الجلسة المجدولة', 'error');
+    } finally {
+      setBusySessionId(null);
+    }
+  }, [confirm, addToast, loadScheduledSessions]);
+
+  if (scheduledSessions.length === 0) return null;
+
+  return (
+    <div className="mb-6 bg-white rounded-lg shadow-sm border border-purple-200 overflow-hidden">
+      {/* Section Header */}
+      <div
+        className="px-6 py-4 bg-gradient-to-r from-purple-50 to-indigo-50 border-b border-purple-200 flex items-center justify-between cursor-pointer"
+        onClick={() => setIsCollapsed(!isCollapsed)}
+      >
+        <div className="flex items-center gap-3">
+          <i className="fas fa-calendar-alt text-purple-600 text-lg"></i>
+          <h3 className="font-bold text-gray-900">الجلسات المجدولة</h3>
+          <Badge color="purple" label={`${scheduledSessions.length} جلسة • ${totalScheduledMessages} رسالة`} />
+        </div>
+        <i className={`fas fa-chevron-${isCollapsed ? 'left' : 'down'} text-purple-600`}></i>
+      </div>
+
+      {!isCollapsed && (
+        <div className="p-4 space-y-3">
+          {isQuotaInsufficient && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800 flex items-start gap-2">
+              <i className="fas fa-exclamation-triangle mt-0.5"></i>
+              <span>
+                الحصة المتبقية ({quota?.remaining}) أقل من إجمالي الرسائل المجدولة ({totalScheduledMessages}).
+                يتم التحقق من الحصة عند موعد الإرسال، وستتوقف الجلسات التي تتجاوزها حتى تتم زيادة الحصة أو إعادة الجدولة.
+              </span>
+            </div>
+          )}
+
+          {sortedSessions.map((session) => {
+            const isExpanded = expandedSessions.has(session.sessionId);
+            const isEditing = editingSessionId === session.sessionId;
+            const isBusy = busySessionId === session.sessionId;
+            const isBlocked = session.status === 'quota_blocked';
+
+            return (
+              <div
+                key={session.sessionId}
+                className={`border rounded-lg ${isBlocked ? 'border-red-300 bg-red-50' : 'border-gray-200 bg-gray-50'}`}
+              >
+                <div className="px-4 py-3 flex items-center justify-between gap-4 flex-wrap">
+                  <div
+                    className="flex items-center gap-3 flex-1 cursor-pointer"
+                    onClick={() => toggleExpand(session.sessionId)}
+                  >
+                    <i className={`fas fa-chevron-${isExpanded ? 'down' : 'left'} text-gray-500`}></i>
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <span className="font-bold text-gray-900">{session.queueName}</span>
+                        {isBlocked ? (
+                          <Badge color="red" label="متوقفة - الحصة غير كافية" />
+                        ) : (
+                          <Badge color="blue" label={formatTimeUntil(session.scheduledAt)} />
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-600 mt-1">
+                        <span>موعد الإرسال: <strong>{formatLocalDateTime(session.scheduledAt)}</strong></span>
+                        <span className="mx-3">عدد الرسائل: <strong>{session.total}</strong></span>
+                        {session.templateTitle && (
+                          <span>القالب: <strong>{session.templateTitle}</strong></span>
+                        )}
+                      </div>
+                      {isBlocked && session.blockedReason && (
+                        <p className="text-xs text-red-600 mt-1">{session.blockedReason}</p>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => (isEditing ? setEditingSessionId(null) : startReschedule(session))}
+                      disabled={isBusy}
+                      className="px-3 py-2 rounded text-sm bg-purple-50 text-purple-700 hover:bg-purple-100 disabled:opacity-50"
+                      title="تغيير موعد الإرسال"
+                    >
+                      <i className="fas fa-calendar-alt"></i>
+                    </button>
+                    <button
+                      onClick={() => sendNow(session)}
+                      disabled={isBusy}
+                      className="px-3 py-2 rounded text-sm bg-green-50 text-green-700 hover:bg-green-100 disabled:opacity-50"
+                      title="إرسال الآن"
+                    >
+                      <i className="fab fa-whatsapp"></i>
+                    </button>
+                    <button
+                      onClick={() => cancelSession(session)}
+                      disabled={isBusy}
+                      className="px-3 py-2 rounded text-sm bg-red-50 text-red-600 hover:bg-red-100 disabled:opacity-50"
+                      title="إلغاء الجلسة المجدولة"
+                    >
+                      <i className="fas fa-times"></i>
+                    </button>
+                  </div>
+                </div>
+
+                {isEditing && (
+                  <div className="px-4 pb-3 flex flex-wrap items-start gap-3 border-t border-gray-200 pt-3">
+                    <ScheduleDateTimePicker
+                      value={editScheduledAt}
+                      onChange={setEditScheduledAt}
+                      disabled={isBusy}
+                    />
+                    <button
+                      onClick={() => saveReschedule(session.sessionId)}
+                      disabled={isBusy || validateScheduleValue(editScheduledAt) !== null}
+                      className="px-4 py-2 bg-purple-600 text-white rounded-lg text-sm hover:bg-purple-700 disabled:bg-gray-400"
+                    >
+                      {isBusy ? <i className="fas fa-spinner fa-spin"></i> : 'حفظ الموعد'}
+                    </button>
+                  </div>
+                )}
+
+                {isExpanded && (
+                  <div className="border-t border-gray-200 bg-white">
+                    <table className="w-full text-sm">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-4 py-2 text-right font-semibold text-gray-700">الاسم</th>
+                          <th className="px-4 py-2 text-right font-semibold text-gray-700">رقم الجوال</th>
+                          <th className="px-4 py-2 text-center font-semibold text-gray-700">إجراء</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {session.patients.map((patient) => (
+                          <tr key={patient.patientId} className="border-t">
+                            <td className="px-4 py-2 text-gray-900">{patient.name}</td>
+                            <td className="px-4 py-2 text-gray-600">{formatPhoneForDisplay(patient.phone, patient.countryCode)}</td>
+                            <td className="px-4 py-2 text-center">
+                              <button
+                                onClick={() => removePatient(session, patient.patientId)}
+                                disabled={isBusy}
+                                className="text-xs px-3 py-1 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 disabled:opacity-50"
+                              >
+                                <i className="fas fa-user-minus ml-1"></i>
+                                إزالة
+                              </button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,467 @@
+/**
+ * Template Library Tab
+ * File: apps/web/components/Queue/TemplateLibraryTab.tsx
+ *
+ * Moderator-level and system-level templates shared across queues, with categories and search.
+ * "Copy into queue" creates an independent template; "link to queue" creates a template that
+ * follows later library edits until it is edited for that queue (per-queue override).
+ */
+
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState, type FormEvent } from 'react';
+import { messageApiClient } from '@/services/api/messageApiClient';
+import { libraryTemplateDtoToModel } from '@/services/api/adapters';
+import { useUI } from '@/contexts/UIContext';
+import { useQueue } from '@/contexts/QueueContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useConfirmDialog } from '@/contexts/ConfirmationContext';
+import { createDeleteConfirmation } from '@/utils/confirmationHelpers';
+import { validateTemplateName, validateTextareaRequired } from '@/utils/validation';
+import {
+  filterLibraryTemplates,
+  getLibraryCategories,
+  UNCATEGORIZED_LABEL,
+  type LibraryScopeFilter,
+} from '@/utils/templateLibrary';
+import { LoadingSpinner, ErrorState, EmptyState } from '@/components/state';
+import { UserRole } from '@/types/roles';
+import type { LibraryTemplate } from '@/types/messageTemplate';
+import logger from '@/utils/logger';
+
+interface TemplateLibraryTabProps {
+  queueId: string;
+}
+
+interface LibraryFormState {
+  id?: string;
+  title: string;
+  category: string;
+  content: string;
+  scope: LibraryTemplate['scope'];
+}
+
+const EMPTY_FORM: LibraryFormState = { title: '', category: '', content: '', scope: 'moderator' };
+const MAX_CONTENT_LENGTH = 1000;
+
+const SCOPE_FILTERS: Array<{ id: LibraryScopeFilter; label: string }> = [
+  { id: 'all', label: 'الكل' },
+  { id: 'moderator', label: 'مكتبتي' },
+  { id: 'system', label: 'مكتبة النظام' },
+];
+
+export default function TemplateLibraryTab({ queueId }: TemplateLibraryTabProps) {
+  const { addToast } = useUI();
+  const { user } = useAuth();
+  const { confirm } = useConfirmDialog();
+  const { messageTemplates, refreshQueueData } = useQueue();
+
+  const [templates, setTemplates] = useState<LibraryTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState('');
+  const [search, setSearch] = useState('');
+  const [category, setCategory] = useState<string | null>(null);
+  const [scope, setScope] = useState<LibraryScopeFilter>('all');
+  const [form, setForm] = useState<LibraryFormState | null>(null);
+  const [formError, setFormError] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const isAdmin = user?.role === UserRole.PrimaryAdmin || user?.role === UserRole.SecondaryAdmin;
+
+  const loadLibrary = useCallback(async () => {
+    setIsLoading(true);
+    setLoadError('');
+    try {
+      const response = await messageApiClient.getLibraryTemplates();
+      setTemplates(response.items.map(libraryTemplateDtoToModel));
+    } catch (error) {
+      logger.error('Error loading template library:', error);
+      setLoadError(messageApiClient.formatApiError(error) || 'فشل تحميل مكتبة القوالب');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadLibrary();
+  }, [loadLibrary]);
+
+  const categories = useMemo(() => getLibraryCategories(templates), [templates]);
+  const visibleTemplates = useMemo(
+    () => filterLibraryTemplates(templates, { search, category, scope }),
+    [templates, search, category, scope]
+  );
+
+  // Library templates already linked to this queue
+  const linkedIds = useMemo(
+    () =>
+      new Set(
+        messageTemplates
+          .filter((t) => String(t.queueId) === String(queueId) && t.libraryTemplateId && !t.isDeleted)
+          .map((t) => t.libraryTemplateId)
+      ),
+    [messageTemplates, queueId]
+  );
+
+  // System templates are managed by admins; moderator templates by their moderator (and admins)
+  const canEdit = (template: LibraryTemplate) => isAdmin || template.scope === 'moderator';
+
+  const notifyQueueUpdated = async () => {
+    try {
+      await refreshQueueData(String(queueId));
+    } catch (refreshError) {
+      logger.error('Failed to refresh queue data after library action:', refreshError);
+    }
+    window.dispatchEvent(new CustomEvent('templateDataUpdated', { detail: { queueId } }));
+    window.dispatchEvent(new CustomEvent('conditionDataUpdated', { detail: { queueId } }));
+  };
+
+  const handleCopy = async (template: LibraryTemplate) => {
+    setBusyId(template.id);
+    try {
+      await messageApiClient.copyLibraryTemplateToQueue(Number(template.id), Number(queueId));
+      addToast(`تم نسخ "${template.title}" إلى الطابور`, 'success');
+      await notifyQueueUpdated();
+    } catch (error) {
+      logger.error('Failed to copy library template:', error);
+      addToast(messageApiClient.formatApiError(error) || 'فشل نسخ القالب', 'error');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleLink = async (template: LibraryTemplate) => {
+    setBusyId(template.id);
+    try {
+      await messageApiClient.linkLibraryTemplateToQueue(Number(template.id), Number(queueId));
+      addToast(`تم ربط "${template.title}" بالطابور - التعديلات في المكتبة ستنعكس عليه`, 'success');
+      setTemplates((prev) =>
+        prev.map((t) => (t.id === template.id ? { ...t, linkedQueueCount: t.linkedQueueCount + 1 } : t))
+      );
+      await notifyQueueUpdated();
+    } catch (error) {
+      logger.error('Failed to link library template:', error);
+      addToast(messageApiClient.formatApiError(error) || 'فشل ربط القالب', 'error');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (template: LibraryTemplate) => {
+    const confirmed = await confirm(createDeleteConfirmation(`قالب المكتبة: ${template.title}`));
+    if (!confirmed) return;
+
+    setBusyId(template.id);
+    try {
+      await messageApiClient.deleteLibraryTemplate(Number(template.id));
+      setTemplates((prev) => prev.filter((t) => t.id !== template.id));
+      addToast('تم حذف القالب من المكتبة', 'success');
+      if (template.linkedQueueCount > 0) await notifyQueueUpdated();
+    } catch (error) {
+      logger.error('Failed to delete library template:', error);
+      addToast(messageApiClient.formatApiError(error) || 'فشل حذف القالب', 'error');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!form) return;
+
+    const error =
+      validateTemplateName(form.title) || validateTextareaRequired(form.content, 'نص القالب', MAX_CONTENT_LENGTH);
+    if (error) {
+      setFormError(error);
+      return;
+    }
+
+    const data = { title: form.title.trim(), content: form.content, category: form.category.trim() || null };
+    setBusyId(form.id ?? 'new');
+    try {
+      if (form.id) {
+        const updated = libraryTemplateDtoToModel(await messageApiClient.updateLibraryTemplate(Number(form.id), data));
+        setTemplates((prev) => prev.map((t) => (t.id === updated.id ? updated : t)));
+        addToast(
+          updated.linkedQueueCount > 0
+            ? `تم تحديث القالب وتطبيق التعديل على ${updated.linkedQueueCount} طابور مرتبط`
+            : 'تم تحديث القالب',
+          'success'
+        );
+        if (updated.linkedQueueCount > 0) await notifyQueueUpdated();
+      } else {
+        const created = libraryTemplateDtoToModel(
+          await messageApiClient.createLibraryTemplate({ ...data, scope: isAdmin ? form.scope : 'moderator' })
+        );
+        setTemplates((prev) => [created, ...prev]);
+        addToast('تمت إضافة القالب إلى المكتبة', 'success');
+      }
+      setForm(null);
+      setFormError('');
+    } catch (error) {
+      logger.error('Failed to save library template:', error);
+      setFormError(messageApiClient.formatApiError(error) || 'فشل حفظ القالب');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (isLoading && templates.length === 0) {
+    return <LoadingSpinner label="جاري تحميل مكتبة القوالب..." centered />;
+  }
+
+  if (loadError) {
+    return <ErrorState message={loadError} onRetry={loadLibrary} />;
+  }
+
+  return (
+    <div className="space-y-4" dir="rtl">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="relative flex-1 min-w-[220px]">
+          <i className="fas fa-search absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 text-sm"></i>
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="ابحث في العنوان أو النص أو التصنيف..."
+            aria-label="بحث في مكتبة القوالب"
+            className="w-full pr-9 pl-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+          />
+        </div>
+        <div className="flex items-center gap-1" role="group" aria-label="نطاق المكتبة">
+          {SCOPE_FILTERS.map((filter) => (
+            <button
+              key={filter.id}
+              type="button"
+              onClick={() => setScope(filter.id)}
+              aria-pressed={scope === filter.id}
+              className={`px-3 py-1.5 rounded-full text-xs border transition ${
+                scope === filter.id
+                  ? 'bg-blue-600 text-white border-blue-600'
+                  : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'
+              }`}
+            >
+              {filter.label}
+            </button>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={() => {
+            setForm({ ...EMPTY_FORM });
+            setFormError('');
+          }}
+          className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition flex items-center gap-2"
+        >
+          <i className="fas fa-plus"></i>
+          قالب جديد في المكتبة
+        </button>
+      </div>
+
+      {/* Categories */}
+      {categories.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => setCategory(null)}
+            className={`px-3 py-1 rounded-full text-xs transition ${
+              category === null ? 'bg-gray-800 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            كل التصنيفات ({templates.length})
+          </button>
+          {categories.map(({ category: name, count }) => (
+            <button
+              key={name || '__none'}
+              type="button"
+              onClick={() => setCategory(name)}
+              className={`px-3 py-1 rounded-full text-xs transition ${
+                category === name ? 'bg-gray-800 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {name || UNCATEGORIZED_LABEL} ({count})
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Create / edit form */}
+      {form && (
+        <form onSubmit={handleSubmit} className="border border-blue-200 bg-blue-50 rounded-lg p-4 space-y-3">
+          <h3 className="font-semibold text-gray-900">{form.id ? 'تعديل قالب المكتبة' : 'قالب جديد في المكتبة'}</h3>
+          {form.id && (templates.find((t) => t.id === form.id)?.linkedQueueCount ?? 0) > 0 && (
+            <p className="text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded p-2">
+              <i className="fas fa-link ml-1"></i>
+              سيُطبَّق التعديل على كل الطوابير المرتبطة بهذا القالب، ما عدا التي تم تخصيص نصها
+            </p>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <input
+              type="text"
+              value={form.title}
+              onChange={(e) => setForm({ ...form, title: e.target.value })}
+              placeholder="عنوان القالب *"
+              aria-label="عنوان القالب"
+              className="md:col-span-2 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <input
+              type="text"
+              list="template-library-categories"
+              value={form.category}
+              onChange={(e) => setForm({ ...form, category: e.target.value })}
+              placeholder="التصنيف (مثال: ترحيب)"
+              aria-label="التصنيف"
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <datalist id="template-library-categories">
+              {categories.filter((c) => c.category).map((c) => (
+                <option key={c.category} value={c.category} />
+              ))}
+            </datalist>
+          </div>
+          <textarea
+            value={form.content}
+            onChange={(e) => setForm({ ...form, content: e.target.value })}
+            placeholder="نص القالب * - يمكن استخدام المتغيرات مثل {PN} و {PQP}"
+            aria-label="نص القالب"
+            rows={5}
+            maxLength={MAX_CONTENT_LENGTH}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+          {isAdmin && !form.id && (
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.scope === 'system'}
+                onChange={(e) => setForm({ ...form, scope: e.target.checked ? 'system' : 'moderator' })}
+              />
+              إضافة إلى مكتبة النظام (متاح لكل المشرفين)
+            </label>
+          )}
+          {formError && (
+            <p className="text-sm text-red-600 flex items-center gap-1">
+              <i className="fas fa-exclamation-circle"></i>
+              {formError}
+            </p>
+          )}
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={busyId !== null}
+              className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+            >
+              حفظ
+            </button>
+            <button
+              type="button"
+              onClick={() => setForm(null)}
+              className="px-4 py-2 bg-gray-200 text-gray-700 text-sm rounded-lg hover:bg-gray-300 transition"
+            >
+              إلغاء
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Templates */}
+      {visibleTemplates.length === 0 ? (
+        <EmptyState
+          icon="fa-book"
+          title={templates.length === 0 ? 'المكتبة فارغة' : 'لا توجد نتائج'}
+          description={
+            templates.length === 0
+              ? 'أضف قوالب مشتركة لاستخدامها في كل الطوابير بدلاً من إعادة كتابتها'
+              : 'جرّب كلمات بحث أو تصنيفاً مختلفاً'
+          }
+        />
+      ) : (
+        <ul className="grid grid-cols-1 lg:grid-cols-2 gap-3">
+          {visibleTemplates.map((template) => {
+            const isLinkedHere = linkedIds.has(template.id);
+            const isBusy = busyId === template.id;
+            return (
+              <li key={template.id} className="border border-gray-200 rounded-lg p-4 flex flex-col gap-2 bg-white">
+                <div className="flex items-start justify-between gap-2">
+                  <h4 className="font-semibold text-gray-900">{template.title}</h4>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <span className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded-full text-[11px]">
+                      {template.category || UNCATEGORIZED_LABEL}
+                    </span>
+                    <span
+                      className={`px-2 py-0.5 rounded-full text-[11px] ${
+                        template.scope === 'system' ? 'bg-purple-100 text-purple-800' : 'bg-blue-100 text-blue-800'
+                      }`}
+                    >
+                      {template.scope === 'system' ? 'النظام' : 'المشرف'}
+                    </span>
+                  </div>
+                </div>
+                <p className="text-sm text-gray-600 whitespace-pre-wrap line-clamp-3">{template.content}</p>
+                {template.linkedQueueCount > 0 && (
+                  <p className="text-xs text-gray-500">
+                    <i className="fas fa-link ml-1"></i>
+                    مرتبط بـ {template.linkedQueueCount} طابور
+                  </p>
+                )}
+                <div className="flex flex-wrap gap-2 mt-auto pt-2 border-t border-gray-100">
+                  <button
+                    type="button"
+                    onClick={() => handleCopy(template)}
+                    disabled={isBusy}
+                    title="إنشاء نسخة مستقلة في هذا الطابور"
+                    className="px-3 py-1.5 text-xs bg-blue-50 text-blue-700 rounded-lg hover:bg-blue-100 transition disabled:opacity-50 flex items-center gap-1"
+                  >
+                    <i className="fas fa-copy"></i>
+                    نسخ إلى الطابور
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleLink(template)}
+                    disabled={isBusy || isLinkedHere}
+                    title={isLinkedHere ? 'القالب مرتبط بهذا الطابور بالفعل' : 'القالب في الطابور يتبع تعديلات المكتبة'}
+                    className="px-3 py-1.5 text-xs bg-green-50 text-green-700 rounded-lg hover:bg-green-100 transition disabled:opacity-50 flex items-center gap-1"
+                  >
+                    <i className="fas fa-link"></i>
+                    {isLinkedHere ? 'مرتبط بهذا الطابور' : 'ربط بالطابور'}
+                  </button>
+                  {canEdit(template) && (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setForm({
+                            id: template.id,
+                            title: template.title,
+                            category: template.category || '',
+                            content: template.content,
+                            scope: template.scope,
+                          });
+                          setFormError('');
+                        }}
+                        disabled={isBusy}
+                        className="px-3 py-1.5 text-xs bg-gray-50 text-gray-700 rounded-lg hover:bg-gray-100 transition disabled:opacity-50 flex items-center gap-1"
+                      >
+                        <i className="fas fa-edit"></i>
+                        تعديل
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(template)}
+                        disabled={isBusy}
+                        className="px-3 py-1.5 text-xs bg-red-50 text-red-700 rounded-lg hover:bg-red-100 transition disabled:opacity-50 flex items-center gap-1"
+                      >
+                        <i className="fas fa-trash"></i>
+                        حذف
+                      </button>
+                    </>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
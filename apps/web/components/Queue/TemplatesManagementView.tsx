@@ -3,6 +3,7 @@
  * File: apps/web/components/Queue/TemplatesManagementView.tsx
  * 
  * Integrates the TrashTab component for soft-deleted template management
+ * and the TemplateLibraryTab for templates shared across queues
  */
 
 'use client';
@@ -12,6 +13,7 @@ import { messageApiClient } from '@/services/api/messageApiClient';
 import { useUI } from '@/contexts/UIContext';
 import { useQueue } from '@/contexts/QueueContext';
 import TrashTab from '@/components/TrashTab';
+import TemplateLibraryTab from './TemplateLibraryTab';
 import { TabNavigation } from '@/components/Common/TabNavigation';
 import logger from '@/utils/logger';
 
@@ -130,6 +132,7 @@ export default function TemplatesManagementView() {
 
   const tabs: Tab[] = [
     { id: 'active', label: 'Active Templates', icon: 'fa-envelope' },
+    { id: 'library', label: 'Template Library', icon: 'fa-book' },
     { 
       id: 'trash', 
       label: 'Trash', 
@@ -163,6 +166,8 @@ export default function TemplatesManagementView() {
           </div>
         )}
 
+        {activeTab === 'library' && <TemplateLibraryTab queueId={String(selectedQueueId)} />}
+
         {activeTab === 'trash' && (
           <TrashTab
             entityType="template"
@@ -7,6 +7,7 @@ import { useUI } from './UIContext';
 import { useQueue } from './QueueContext';
 import messageApiClient from '@/services/api/messageApiClient';
 import logger from '@/utils/logger';
+import { isSentMessageStatus } from '@/utils/messageReceipts';
 
 /**
  * Represents a single message in an ongoing operation
@@ -132,7 +133,8 @@ export const GlobalProgressProvider: React.FC<{ children: React.ReactNode }> = (
             patientName: patient.name,
             countryCode: patient.countryCode,
             patientPhone: patient.phone,
-            status: patient.status as 'queued' | 'sending' | 'sent' | 'pending' | 'failed',
+            // delivered/read receipts still count as sent for progress
+            status: (isSentMessageStatus(patient.status) ? 'sent' : patient.status) as 'queued' | 'sending' | 'sent' | 'pending' | 'failed',
             isPaused: patient.isPaused,
             attempts: patient.attempts || 0,
             failedReason: patient.failedReason,
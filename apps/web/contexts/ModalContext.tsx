@@ -4,6 +4,8 @@ import React, { createContext, useContext, useState } from 'react';
 
 export type ModalType = 
   | 'addQueue' 
+  | 'duplicateQueue'
+  | 'queueCheckIn'
   | 'addPatient' 
   | 'upload' 
   | 'messageSelection' 
@@ -19,6 +21,7 @@ export type ModalType =
   | 'retryPreview' 
   | 'quotaManagement'
   | 'editPatient'
+  | 'patientConversation'
   | 'messageConditions'
   | 'manageConditions'
   | 'templateEditor'
@@ -0,0 +1,269 @@
+'use client';
+
+import React, { createContext, useContext, useState, useCallback, useEffect, useRef } from 'react';
+import { useUI } from './UIContext';
+import { useQueue } from './QueueContext';
+import { patientsApiClient, type PatientDto } from '@/services/api/patientsApiClient';
+import { whatsappApiClient } from '@/services/api/whatsappApiClient';
+import {
+  loadVerificationCache,
+  planVerification,
+  saveVerificationCache,
+  type VerificationCache,
+} from '@/utils/whatsAppVerification';
+import logger from '@/utils/logger';
+
+export type VerificationJobStatus = 'running' | 'paused' | 'completed' | 'cancelled';
+
+/**
+ * Patient whose number was confirmed to have no WhatsApp account
+ */
+export interface InvalidNumberEntry {
+  patientId: number;
+  name: string;
+  phoneNumber: string;
+  countryCode: string;
+}
+
+/**
+ * State of the queue-level "verify all numbers" job
+ */
+export interface VerificationJob {
+  queueId: string;
+  queueName: string;
+  status: VerificationJobStatus;
+  pauseReason?: string;
+  total: number;      // distinct numbers
+  processed: number;  // checked + from cache + errors
+  cached: number;     // skipped, verified recently
+  valid: number;
+  invalid: number;
+  errors: number;
+  invalidNumbers: InvalidNumberEntry[];
+  startedAt: string;
+}
+
+interface NumberVerificationContextType {
+  job: VerificationJob | null;
+  isVerifying: boolean;
+  startVerification: (queueId: string, queueName: string) => Promise<void>;
+  pauseVerification: () => void;
+  resumeVerification: () => void;
+  cancelVerification: () => void;
+  dismissVerification: () => void;
+}
+
+const NumberVerificationContext = createContext<NumberVerificationContextType | undefined>(undefined);
+
+/**
+ * NumberVerificationProvider
+ *
+ * Runs WhatsApp number verification for a whole queue in the background, one number at a time through the
+ * extension. The job lives above the panels and modals, so it keeps running across navigation.
+ *
+ * Key Features:
+ * - Pause / resume / cancel (auto-pauses when the extension or WhatsApp session is unavailable)
+ * - Results written to the patients' isValidWhatsAppNumber
+ * - Results cached per number; numbers verified within the cache window are not checked again
+ * - Summary of numbers without WhatsApp
+ */
+export const NumberVerificationProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [job, setJob] = useState<VerificationJob | null>(null);
+  const { addToast } = useUI();
+  const { selectedQueueId, refreshPatients } = useQueue();
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const isPausedRef = useRef(false);
+  const resumeRef = useRef<(() => void) | null>(null);
+  // The job outlives panel changes, so the queue on screen is read when it finishes
+  const selectedQueueIdRef = useRef(selectedQueueId);
+
+  useEffect(() => {
+    selectedQueueIdRef.current = selectedQueueId;
+  }, [selectedQueueId]);
+
+  const isVerifying = job?.status === 'running' || job?.status === 'paused';
+
+  const updateJob = (changes: Partial<VerificationJob>) => setJob((prev) => (prev ? { ...prev, ...changes } : prev));
+
+  const waitWhilePaused = () =>
+    new Promise<void>((resolve) => {
+      if (!isPausedRef.current) {
+        resolve();
+        return;
+      }
+      resumeRef.current = resolve;
+    });
+
+  const pauseVerification = useCallback(() => {
+    isPausedRef.current = true;
+    updateJob({ status: 'paused', pauseReason: undefined });
+  }, []);
+
+  const resumeVerification = useCallback(() => {
+    isPausedRef.current = false;
+    updateJob({ status: 'running', pauseReason: undefined });
+    resumeRef.current?.();
+    resumeRef.current = null;
+  }, []);
+
+  const cancelVerification = useCallback(() => {
+    abortControllerRef.current?.abort();
+    // Release a paused loop so it can observe the abort
+    isPausedRef.current = false;
+    resumeRef.current?.();
+    resumeRef.current = null;
+  }, []);
+
+  const dismissVerification = useCallback(() => {
+    setJob((prev) => (prev && (prev.status === 'completed' || prev.status === 'cancelled') ? null : prev));
+  }, []);
+
+  // Write a result to every patient sharing the number; only patients whose stored value differs are updated
+  const writeResult = async (patients: PatientDto[], hasWhatsApp: boolean) => {
+    for (const patient of patients) {
+      if (patient.isValidWhatsAppNumber === hasWhatsApp) continue;
+      try {
+        await patientsApiClient.updatePatient(patient.id, { isValidWhatsAppNumber: hasWhatsApp });
+      } catch (error) {
+        logger.error(`Failed to save WhatsApp verification for patient ${patient.id}:`, error);
+      }
+    }
+  };
+
+  const startVerification = useCallback(
+    async (queueId: string, queueName: string) => {
+      if (abortControllerRef.current) {
+        addToast('يوجد تحقق من الأرقام قيد التشغيل بالفعل', 'warning');
+        return;
+      }
+
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      isPausedRef.current = false;
+
+      let patients: PatientDto[];
+      try {
+        const response = await patientsApiClient.getPatients(Number(queueId));
+        patients = response.items || [];
+      } catch (error) {
+        logger.error('Failed to load patients for verification:', error);
+        addToast('فشل تحميل المرضى للتحقق من الأرقام', 'error');
+        abortControllerRef.current = null;
+        return;
+      }
+
+      const cache: VerificationCache = loadVerificationCache();
+      const plan = planVerification(patients, cache);
+      const counts = { processed: 0, cached: 0, valid: 0, invalid: 0, errors: 0 };
+      const invalidNumbers: InvalidNumberEntry[] = [];
+      const recordInvalid = (group: PatientDto[]) =>
+        group.forEach((p) =>
+          invalidNumbers.push({ patientId: p.id, name: p.fullName, phoneNumber: p.phoneNumber, countryCode: p.countryCode || '' })
+        );
+
+      setJob({
+        queueId,
+        queueName,
+        status: 'running',
+        total: plan.toCheck.length + plan.cached.length,
+        ...counts,
+        invalidNumbers: [],
+        startedAt: new Date().toISOString(),
+      });
+
+      // Recently verified numbers: reuse the cached result
+      for (const entry of plan.cached) {
+        await writeResult(entry.patients, entry.hasWhatsApp);
+        counts.processed++;
+        counts.cached++;
+        if (entry.hasWhatsApp) counts.valid++;
+        else {
+          counts.invalid++;
+          recordInvalid(entry.patients);
+        }
+      }
+      updateJob({ ...counts, invalidNumbers: [...invalidNumbers] });
+
+      let index = 0;
+      while (index < plan.toCheck.length) {
+        await waitWhilePaused();
+        if (controller.signal.aborted) break;
+
+        const { key, patients: group } = plan.toCheck[index];
+        const result = await whatsappApiClient.checkWhatsAppNumberViaExtension(group[0].phoneNumber, {
+          countryCode: group[0].countryCode || '+20',
+          forceCheck: true,
+          signal: controller.signal,
+        });
+        if (controller.signal.aborted || result.category === 'Aborted') break;
+
+        // Extension or WhatsApp session not available: pause and retry this number after resume
+        if (result.category === 'ServiceUnavailable' || result.category === 'NotConnected') {
+          isPausedRef.current = true;
+          updateJob({ status: 'paused', pauseReason: result.message || 'خدمة التحقق من الواتساب غير متاحة' });
+          continue;
+        }
+
+        if (result.data === true || result.data === false) {
+          cache[key] = { hasWhatsApp: result.data, checkedAt: new Date().toISOString() };
+          saveVerificationCache(cache);
+          await writeResult(group, result.data);
+          if (result.data) counts.valid++;
+          else {
+            counts.invalid++;
+            recordInvalid(group);
+          }
+        } else {
+          counts.errors++;
+        }
+        counts.processed++;
+        index++;
+        updateJob({ ...counts, invalidNumbers: [...invalidNumbers] });
+      }
+
+      const cancelled = controller.signal.aborted;
+      updateJob({ ...counts, invalidNumbers: [...invalidNumbers], status: cancelled ? 'cancelled' : 'completed', pauseReason: undefined });
+      abortControllerRef.current = null;
+
+      if (selectedQueueIdRef.current === queueId) {
+        await refreshPatients(queueId);
+      }
+      window.dispatchEvent(new CustomEvent('patientDataUpdated'));
+
+      const summary = `صالح ${counts.valid}، بدون واتساب ${counts.invalid}` + (counts.errors > 0 ? `، تعذر التحقق ${counts.errors}` : '');
+      addToast(
+        cancelled ? `تم إلغاء التحقق من الأرقام (${summary})` : `اكتمل التحقق من أرقام ${queueName}: ${summary}`,
+        counts.invalid > 0 || cancelled ? 'warning' : 'success'
+      );
+    },
+    [addToast, refreshPatients]
+  );
+
+  const value: NumberVerificationContextType = {
+    job,
+    isVerifying,
+    startVerification,
+    pauseVerification,
+    resumeVerification,
+    cancelVerification,
+    dismissVerification,
+  };
+
+  return (
+    <NumberVerificationContext.Provider value={value}>
+      {children}
+    </NumberVerificationContext.Provider>
+  );
+};
+
+/**
+ * Hook to access the number verification job
+ * @throws Error if used outside NumberVerificationProvider
+ */
+export const useNumberVerification = (): NumberVerificationContextType => {
+  const context = useContext(NumberVerificationContext);
+  if (!context) {
+    throw new Error('useNumberVerification must be used within NumberVerificationProvider');
+  }
+  return context;
+};
@@ -13,6 +13,7 @@ import { useToast } from '@/hooks/useToast';
 import { useUI } from '@/contexts/UIContext';
 import { useUserManagement } from '@/hooks/useUserManagement';
 import logger from '@/utils/logger';
+import { normalizePhone } from '@/utils/phoneUtils';
 
 interface QueueContextType {
   queues: Queue[];
@@ -177,41 +178,10 @@ export const QueueProvider: React.FC<{ children: React.ReactNode }> = ({ childre
       const response = await patientsApiClient.getPatients(queueIdNum);
       const patientDtos = response.items || [];
       const patientsData: Patient[] = patientDtos.map((dto: PatientDto) => {
-        // Parse country code and phone from E.164 format (e.g., "+20118542431")
-        const phoneNumber = dto.phoneNumber || '';
-        // Use countryCode from DTO if available, otherwise extract from phone number
-        let countryCode = dto.countryCode || '+20';
-        let phone = phoneNumber;
-
-        // If phone number is in E.164 format (starts with +), extract country code and phone
-        if (phoneNumber.startsWith('+')) {
-          const countryCodeDigits = countryCode.replace(/[^\d]/g, '');
-          // If phone starts with the country code, remove it
-          if (phoneNumber.startsWith(`+${countryCodeDigits}`)) {
-            phone = phoneNumber.substring(countryCodeDigits.length + 1);
-            // Remove leading zero for countries that require it (like Egypt +20)
-            if (countryCodeDigits === '20' && phone.startsWith('0')) {
-              phone = phone.substring(1);
-            }
-          } else {
-            // Try to extract country code from phone number
-            const match = phoneNumber.match(/^\+(\d{1,3})(.*)$/);
-            if (match) {
-              countryCode = `+${match[1]}`;
-              phone = match[2];
-              // Remove leading zero for Egypt
-              if (match[1] === '20' && phone.startsWith('0')) {
-                phone = phone.substring(1);
-              }
-            }
-          }
-        } else {
-          // Phone doesn't have country code prefix, use the one from DTO
-          // Remove leading zero if present for countries that require it
-          if (countryCode === '+20' && phone.startsWith('0')) {
-            phone = phone.substring(1);
-          }
-        }
+        // Stored numbers may be national ("01018542431") or E.164 ("+201018542431"); show the national number
+        const normalized = normalizePhone(dto.phoneNumber || '', dto.countryCode || '+20');
+        const countryCode = normalized.phone?.countryCode ?? (dto.countryCode || '+20');
+        const phone = normalized.phone?.nationalNumber ?? (dto.phoneNumber || '');
 
         return {
           id: dto.id.toString(),
@@ -222,6 +192,7 @@ export const QueueProvider: React.FC<{ children: React.ReactNode }> = ({ childre
           isValidWhatsAppNumber: dto.isValidWhatsAppNumber, // CRITICAL: Include database validation status
           position: dto.position,
           status: dto.status,
+          statusToken: dto.statusToken,
           selected: false,
         };
       });
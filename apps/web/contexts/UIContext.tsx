@@ -2,11 +2,11 @@
 
 import React, { createContext, useContext, useState, useCallback, useEffect } from 'react';
 import { usePathname, useRouter } from 'next/navigation';
-import type { Toast } from '../types';
+import type { Toast, ToastAction } from '../types';
 
 interface UIContextType {
   toasts: Toast[];
-  addToast: (message: string, type: 'success' | 'error' | 'info' | 'warning', debugData?: Record<string, any>) => void;
+  addToast: (message: string, type: 'success' | 'error' | 'info' | 'warning', debugData?: Record<string, any>, action?: ToastAction) => void;
   removeToast: (id: string) => void;
   currentPanel: 'messages' | 'management' | 'welcome' | 'ongoing' | 'failed' | 'completed';
   setCurrentPanel: (panel: 'messages' | 'management' | 'welcome' | 'ongoing' | 'failed' | 'completed') => void;
@@ -273,7 +273,7 @@ export const UIProvider: React.FC<{ children: React.ReactNode }> = ({ children }
     };
   }, [pathname, selectedQueueId, getPathForPanel]); // Only depend on pathname to prevent loops
 
-  const addToast = useCallback((message: string, type: 'success' | 'error' | 'info' | 'warning', debugData?: Record<string, any>) => {
+  const addToast = useCallback((message: string, type: 'success' | 'error' | 'info' | 'warning', debugData?: Record<string, any>, action?: ToastAction) => {
     setToasts((prev) => {
       const now = Date.now();
 
@@ -342,12 +342,12 @@ export const UIProvider: React.FC<{ children: React.ReactNode }> = ({ children }
       }
 
       const id = `${now}-${++toastCounterRef.current}`;
-      const toast: Toast = { id, message, type, debugData };
+      const toast: Toast = { id, message, type, debugData, action };
 
-      // Auto-remove toast after 3 seconds
+      // Auto-remove toast after 3 seconds (toasts with an action stay longer so it can be used)
       setTimeout(() => {
         setToasts((current) => current.filter((t) => t.id !== id));
-      }, 3000);
+      }, action ? 10000 : 3000);
 
       return [...prev, toast];
     });
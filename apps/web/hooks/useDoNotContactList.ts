@@ -0,0 +1,44 @@
+'use client';
+
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { doNotContactApiClient, type DoNotContactEntryDto } from '@/services/api/doNotContactApiClient';
+import { buildDoNotContactSet } from '@/utils/doNotContact';
+import logger from '@/utils/logger';
+
+/**
+ * useDoNotContactList - Hook for loading a moderator's do-not-contact list
+ * @param moderatorId - Moderator whose list is loaded (admins); omitted for the current user's moderator
+ * @param enabled - Load only while true (e.g. while a modal is open)
+ */
+export function useDoNotContactList(moderatorId?: number | string | null, enabled: boolean = true) {
+  const [entries, setEntries] = useState<DoNotContactEntryDto[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const moderatorIdNum = moderatorId !== undefined && moderatorId !== null && !isNaN(Number(moderatorId)) ? Number(moderatorId) : undefined;
+
+  const reload = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await doNotContactApiClient.getDoNotContactList(moderatorIdNum);
+      setEntries(response.items || []);
+    } catch (err) {
+      logger.error('Failed to load do-not-contact list:', err);
+      setError(err instanceof Error ? err.message : 'فشل تحميل قائمة عدم التواصل');
+    } finally {
+      setLoading(false);
+    }
+  }, [moderatorIdNum]);
+
+  useEffect(() => {
+    if (enabled) reload();
+  }, [enabled, reload]);
+
+  // E.164 keys for matching patients (see utils/doNotContact)
+  const numbers = useMemo(() => buildDoNotContactSet(entries), [entries]);
+
+  return { entries, numbers, loading, error, reload };
+}
+
+export default useDoNotContactList;
@@ -0,0 +1,57 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { useQueue } from '@/contexts/QueueContext';
+import { patientsApiClient } from '@/services/api/patientsApiClient';
+import type { ExistingPatient } from '@/utils/patientDuplicates';
+import logger from '@/utils/logger';
+
+/**
+ * usePatientDuplicateCheck - Loads the patients new patients are checked against:
+ * the target queue and the other active queues of the same moderator (findDuplicates keeps the active patients)
+ */
+export function usePatientDuplicateCheck() {
+  const { queues } = useQueue();
+  const [isChecking, setIsChecking] = useState(false);
+
+  const loadExistingPatients = useCallback(
+    async (queueId: string): Promise<ExistingPatient[]> => {
+      const target = queues.find((q) => String(q.id) === String(queueId));
+      const scope = queues.filter(
+        (q) =>
+          String(q.id) === String(queueId) ||
+          (!!target && String(q.moderatorId) === String(target.moderatorId) && q.isActive !== false && !q.isDeleted)
+      );
+      if (scope.length === 0) return [];
+
+      setIsChecking(true);
+      try {
+        const results = await Promise.allSettled(scope.map((q) => patientsApiClient.getPatients(Number(q.id))));
+
+        return results.flatMap((result, i) => {
+          if (result.status === 'rejected') {
+            // A queue that can't be loaded is left out of the check rather than blocking the add
+            logger.warn(`Failed to load patients of queue ${scope[i].id} for duplicate check:`, result.reason);
+            return [];
+          }
+          return result.value.items.map((patient) => ({
+            id: patient.id,
+            fullName: patient.fullName,
+            phoneNumber: patient.phoneNumber,
+            countryCode: patient.countryCode || '',
+            queueId: String(scope[i].id),
+            queueName: scope[i].doctorName,
+            status: patient.status,
+          }));
+        });
+      } finally {
+        setIsChecking(false);
+      }
+    },
+    [queues]
+  );
+
+  return { loadExistingPatients, isChecking };
+}
+
+export default usePatientDuplicateCheck;
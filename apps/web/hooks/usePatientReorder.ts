@@ -0,0 +1,174 @@
+'use client';
+
+import { useState, useCallback, useMemo, useEffect } from 'react';
+import { useUI } from '@/contexts/UIContext';
+import { patientsApiClient } from '@/services/api/patientsApiClient';
+import {
+  assignPositions,
+  buildReorderBatch,
+  moveRows,
+  moveRowsBy,
+  moveRowsToPosition,
+  type ReorderablePatient,
+  type ReorderItem,
+} from '@/utils/patientReorder';
+import logger from '@/utils/logger';
+
+interface UsePatientReorderOptions {
+  queueId: string | null;
+  patients: Array<ReorderablePatient & { name: string }>;
+  onReordered: () => Promise<void>; // refresh after a batch (or its undo) is saved
+}
+
+/**
+ * usePatientReorder - Pending reorder of a queue's patients (drag-and-drop, Alt+Up/Down, "move to position N").
+ * Moves are previewed locally and saved together as one request with absolute positions (nobody else shifts),
+ * so the success toast's undo restores the exact previous positions.
+ */
+export function usePatientReorder({ queueId, patients, onReordered }: UsePatientReorderOptions) {
+  const { addToast } = useUI();
+  const [pendingOrder, setPendingOrder] = useState<string[] | null>(null);
+  const [draggingIds, setDraggingIds] = useState<string[]>([]);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  // Screen reader announcement of the last move
+  const [announcement, setAnnouncement] = useState('');
+
+  const sortedPatients = useMemo(
+    () => [...patients].sort((a, b) => (a.position || 0) - (b.position || 0)),
+    [patients]
+  );
+
+  // Pending order, kept in sync with patients added or removed by a refresh
+  const order = useMemo(() => {
+    const ids = sortedPatients.map((p) => p.id);
+    if (!pendingOrder) return ids;
+    const idSet = new Set(ids);
+    const kept = pendingOrder.filter((id) => idSet.has(id));
+    const keptSet = new Set(kept);
+    return [...kept, ...ids.filter((id) => !keptSet.has(id))];
+  }, [sortedPatients, pendingOrder]);
+
+  const previewPositions = useMemo(() => assignPositions(sortedPatients, order), [sortedPatients, order]);
+  const batch = useMemo(() => buildReorderBatch(sortedPatients, order), [sortedPatients, order]);
+  const hasChanges = batch.items.length > 0;
+
+  useEffect(() => {
+    setPendingOrder(null);
+  }, [queueId]);
+
+  const applyMove = useCallback(
+    (next: string[], moved: string[]) => {
+      setPendingOrder(next);
+      const positions = assignPositions(sortedPatients, next);
+      const first = sortedPatients.find((p) => p.id === moved[0]);
+      setAnnouncement(
+        moved.length === 1
+          ? `تم نقل ${first?.name ?? ''} إلى الموضع ${positions[moved[0]]}`
+          : `تم نقل ${moved.length} مرضى بدءاً من الموضع ${positions[moved[0]]}`
+      );
+    },
+    [sortedPatients]
+  );
+
+  // Rows that move with `id`: the whole selection when the row is selected, otherwise the row alone
+  const rowsToMove = useCallback(
+    (id: string, selectedIds: string[]) => (selectedIds.includes(id) ? order.filter((rowId) => selectedIds.includes(rowId)) : [id]),
+    [order]
+  );
+
+  const startDrag = useCallback((id: string, selectedIds: string[]) => setDraggingIds(rowsToMove(id, selectedIds)), [rowsToMove]);
+
+  const dragOver = useCallback((index: number) => setDropIndex(index), []);
+
+  const endDrag = useCallback(() => {
+    setDraggingIds([]);
+    setDropIndex(null);
+  }, []);
+
+  const drop = useCallback(() => {
+    if (draggingIds.length > 0 && dropIndex !== null) {
+      applyMove(moveRows(order, draggingIds, dropIndex), draggingIds);
+    }
+    endDrag();
+  }, [draggingIds, dropIndex, order, applyMove, endDrag]);
+
+  const moveBy = useCallback(
+    (id: string, selectedIds: string[], direction: -1 | 1) => {
+      const moving = rowsToMove(id, selectedIds);
+      applyMove(moveRowsBy(order, moving, direction), moving);
+    },
+    [order, rowsToMove, applyMove]
+  );
+
+  const moveToPosition = useCallback(
+    (ids: string[], position: number) => {
+      const moving = order.filter((id) => ids.includes(id));
+      if (moving.length === 0) return;
+      const positions = Object.fromEntries(sortedPatients.map((p) => [p.id, p.position || 0]));
+      applyMove(moveRowsToPosition(order, positions, moving, position), moving);
+    },
+    [order, sortedPatients, applyMove]
+  );
+
+  const cancel = useCallback(() => {
+    setPendingOrder(null);
+    setAnnouncement('تم إلغاء تغييرات الترتيب');
+  }, []);
+
+  const sendBatch = useCallback(
+    async (items: ReorderItem[]) => {
+      await patientsApiClient.assignPatientPositions({ queueId: Number(queueId), items });
+      await onReordered();
+      window.dispatchEvent(new CustomEvent('patientDataUpdated'));
+    },
+    [queueId, onReordered]
+  );
+
+  const save = useCallback(async () => {
+    if (!queueId || !hasChanges) return;
+    const { items, undoItems } = batch;
+    setIsSaving(true);
+    try {
+      await sendBatch(items);
+      setPendingOrder(null);
+      addToast(`تم تحديث ترتيب ${items.length} مريض`, 'success', undefined, {
+        label: 'تراجع',
+        onClick: () => {
+          sendBatch(undoItems)
+            .then(() => addToast('تم التراجع عن تغيير الترتيب', 'info'))
+            .catch((error) => {
+              logger.error('Failed to undo patient reorder:', error);
+              addToast('فشل التراجع عن تغيير الترتيب', 'error');
+            });
+        },
+      });
+    } catch (error) {
+      logger.error('Failed to reorder patients:', error);
+      addToast(error instanceof Error && error.message ? error.message : 'فشل تحديث ترتيب الانتظار', 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [queueId, hasChanges, batch, sendBatch, addToast]);
+
+  return {
+    order,
+    previewPositions,
+    hasChanges,
+    changedCount: batch.items.length,
+    isSaving,
+    draggingIds,
+    dropIndex,
+    announcement,
+    startDrag,
+    dragOver,
+    drop,
+    endDrag,
+    moveBy,
+    moveToPosition,
+    cancel,
+    save,
+  };
+}
+
+export default usePatientReorder;
@@ -0,0 +1,98 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import * as signalR from '@microsoft/signalr';
+import {
+  queueStatusApiClient,
+  PUBLIC_STATUS_HUB_PATH,
+  type PublicQueueStatusDto,
+} from '@/services/api/queueStatusApiClient';
+import { debounce } from '@/utils/debounce';
+import logger from '@/utils/logger';
+
+// Refresh interval while the live connection is down
+const POLL_INTERVAL_MS = 60000;
+
+/**
+ * usePublicQueueStatus - Queue status for a public status link, kept live over the anonymous status hub
+ * (falls back to polling while the hub is unreachable)
+ * @param token - Patient's status token from the link
+ */
+export function usePublicQueueStatus(token: string) {
+  const [status, setStatus] = useState<PublicQueueStatusDto | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLive, setIsLive] = useState(false);
+
+  const fetchStatus = useCallback(
+    (isCancelled: () => boolean = () => false) =>
+      queueStatusApiClient
+        .getPublicQueueStatus(token)
+        .then((data) => {
+          if (isCancelled()) return;
+          setStatus(data);
+          setError(null);
+        })
+        .catch((err) => {
+          logger.error('Failed to load queue status:', err);
+          if (!isCancelled()) setError('رابط متابعة الدور غير صالح أو منتهي');
+        }),
+    [token]
+  );
+  const load = useCallback(() => fetchStatus(), [fetchStatus]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchStatus(() => cancelled);
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchStatus]);
+
+  // Live updates: the hub only sends events for the token's queue
+  useEffect(() => {
+    const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
+    const refresh = debounce(() => {
+      load();
+    }, 500);
+
+    const connection = new signalR.HubConnectionBuilder()
+      .withUrl(`${apiUrl}${PUBLIC_STATUS_HUB_PATH}?token=${encodeURIComponent(token)}`, {
+        transport: signalR.HttpTransportType.LongPolling,
+      })
+      .withAutomaticReconnect()
+      .configureLogging(signalR.LogLevel.Error)
+      .build();
+
+    connection.on('QueueUpdated', refresh);
+    connection.on('PatientUpdated', refresh);
+    connection.onreconnecting(() => setIsLive(false));
+    connection.onreconnected(() => {
+      setIsLive(true);
+      load();
+    });
+    connection.onclose(() => setIsLive(false));
+
+    let stopped = false;
+    connection
+      .start()
+      .then(() => {
+        if (!stopped) setIsLive(true);
+      })
+      .catch((err) => logger.warn('Queue status: live updates unavailable, polling instead', err));
+
+    return () => {
+      stopped = true;
+      connection.stop();
+    };
+  }, [token, load]);
+
+  useEffect(() => {
+    if (isLive) return;
+    const interval = setInterval(load, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isLive, load]);
+
+  return { status, error, isLive, reload: load };
+}
+
+export default usePublicQueueStatus;
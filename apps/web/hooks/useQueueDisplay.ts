@@ -0,0 +1,107 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useSignalR } from '@/contexts/SignalRContext';
+import { queuesApiClient } from '@/services/api/queuesApiClient';
+import { getQueueDisplayBoard, type QueueDisplayBoard } from '@/utils/queueDisplay';
+import { debounce } from '@/utils/debounce';
+import logger from '@/utils/logger';
+
+// Refresh interval while the SignalR connection is down (the TV must keep up without anyone touching it)
+const POLL_INTERVAL_MS = 30000;
+
+/**
+ * useQueueDisplay - Boards for the waiting-room display, kept live by QueueUpdated / PatientUpdated.
+ * Recovers on its own after network drops: reloads on SignalR reconnection and when the browser comes
+ * back online, and polls while the connection is down (including after SignalRContext gives up retrying).
+ * @param queueIds - Queues shown on the display, in display order
+ */
+export function useQueueDisplay(queueIds: number[]) {
+  const { isConnected, on, off, onReconnected, offReconnected } = useSignalR();
+  const [boards, setBoards] = useState<QueueDisplayBoard[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const idsKey = queueIds.join(',');
+
+  const fetchBoards = useCallback(
+    (isCancelled: () => boolean = () => false) => {
+      const ids = idsKey ? idsKey.split(',').map(Number) : [];
+      return Promise.all(
+        ids.map(async (id) => {
+          const [queue, patients] = await Promise.all([
+            queuesApiClient.getQueue(id),
+            queuesApiClient.getQueuePatients(id),
+          ]);
+          return getQueueDisplayBoard(queue, patients.items || []);
+        })
+      )
+        .then((data) => {
+          if (isCancelled()) return;
+          setBoards(data);
+          setError(null);
+          setLastUpdated(new Date());
+        })
+        .catch((err) => {
+          // Keep showing the last known numbers; the next event, reconnect or poll retries
+          logger.error('Queue display: failed to load queues', err);
+          if (!isCancelled()) setError('تعذر تحديث البيانات، جاري إعادة المحاولة...');
+        });
+    },
+    [idsKey]
+  );
+  const load = useCallback(() => fetchBoards(), [fetchBoards]);
+
+  // Initial load, and a full reload whenever the connection (re)establishes
+  useEffect(() => {
+    let cancelled = false;
+    fetchBoards(() => cancelled);
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchBoards, isConnected]);
+
+  const debouncedLoad = useMemo(() => debounce(() => load(), 500), [load]);
+
+  useEffect(() => {
+    if (!isConnected) return;
+    const shown = new Set(idsKey.split(','));
+
+    const handlePatientUpdate = (payload: any) => {
+      if (payload?.queueId !== undefined && !shown.has(String(payload.queueId))) return;
+      debouncedLoad();
+    };
+    const handleQueueUpdate = (payload: any) => {
+      const queueId = payload?.queueId ?? payload?.id;
+      if (queueId !== undefined && !shown.has(String(queueId))) return;
+      debouncedLoad();
+    };
+
+    on('PatientUpdated', handlePatientUpdate);
+    on('PatientDeleted', handlePatientUpdate);
+    on('QueueUpdated', handleQueueUpdate);
+    onReconnected(load);
+
+    return () => {
+      off('PatientUpdated', handlePatientUpdate);
+      off('PatientDeleted', handlePatientUpdate);
+      off('QueueUpdated', handleQueueUpdate);
+      offReconnected(load);
+    };
+  }, [isConnected, idsKey, on, off, onReconnected, offReconnected, load, debouncedLoad]);
+
+  useEffect(() => {
+    window.addEventListener('online', load);
+    if (isConnected) {
+      return () => window.removeEventListener('online', load);
+    }
+    const interval = setInterval(load, POLL_INTERVAL_MS);
+    return () => {
+      window.removeEventListener('online', load);
+      clearInterval(interval);
+    };
+  }, [isConnected, load]);
+
+  return { boards, error, isLive: isConnected, lastUpdated, reload: load };
+}
+
+export default useQueueDisplay;
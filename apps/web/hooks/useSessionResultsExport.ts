@@ -0,0 +1,49 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { useUI } from '@/contexts/UIContext';
+import { messageApiClient } from '@/services/api/messageApiClient';
+import {
+  buildExportFileName,
+  buildSessionResultRows,
+  downloadSpreadsheet,
+  type ExportFormat,
+} from '@/utils/spreadsheetExport';
+import logger from '@/utils/logger';
+
+/**
+ * useSessionResultsExport - Exports every message of a session (sent, failed, queued) to Excel/CSV
+ */
+export function useSessionResultsExport() {
+  const { addToast } = useUI();
+  const [exportingSessionId, setExportingSessionId] = useState<string | null>(null);
+
+  const exportSessionResults = useCallback(
+    async (sessionId: string, queueName: string, format: ExportFormat) => {
+      setExportingSessionId(sessionId);
+      try {
+        const response = await messageApiClient.getSessionResults(sessionId);
+        if (!response.success || !response.data) {
+          throw new Error('Session results not available');
+        }
+
+        await downloadSpreadsheet(buildSessionResultRows(response.data.messages), {
+          fileName: buildExportFileName(`نتائج-${queueName}`, format),
+          sheetName: queueName,
+          format,
+        });
+        addToast('تم تصدير نتائج الجلسة بنجاح', 'success');
+      } catch (error) {
+        logger.error('Failed to export session results:', error);
+        addToast('فشل تصدير نتائج الجلسة', 'error');
+      } finally {
+        setExportingSessionId(null);
+      }
+    },
+    [addToast]
+  );
+
+  return { exportSessionResults, exportingSessionId };
+}
+
+export default useSessionResultsExport;
@@ -0,0 +1,92 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useSignalR } from '@/contexts/SignalRContext';
+import {
+  conversationsApiClient,
+  type MessageReceivedEvent,
+  type UnreadConversationsSummaryDto,
+} from '@/services/api/conversationsApiClient';
+import {
+  applyMessageReceived,
+  clearPatientUnread,
+  getUnreadByPatient,
+  getUnreadByQueue,
+} from '@/utils/conversations';
+import { debounce } from '@/utils/debounce';
+import logger from '@/utils/logger';
+
+/** Window event dispatched by PatientConversationModal once a thread is marked read ({ detail: { patientId } }) */
+export const CONVERSATION_READ_EVENT = 'conversationRead';
+
+/**
+ * useUnreadReplies - Unread patient replies per queue and per patient, kept live by MessageReceived
+ * @param onReceived - Called for every new reply (e.g. to show a toast)
+ */
+export function useUnreadReplies(onReceived?: (event: MessageReceivedEvent) => void) {
+  const { isConnected, on, off, onReconnected, offReconnected } = useSignalR();
+  const [summary, setSummary] = useState<UnreadConversationsSummaryDto | null>(null);
+  const onReceivedRef = useRef(onReceived);
+
+  useEffect(() => {
+    onReceivedRef.current = onReceived;
+  }, [onReceived]);
+
+  const fetchSummary = useCallback(
+    (isCancelled: () => boolean = () => false) =>
+      conversationsApiClient
+        .getUnreadConversations()
+        .then((data) => {
+          if (!isCancelled()) setSummary(data);
+        })
+        .catch((err) => logger.error('Failed to load unread replies:', err)),
+    []
+  );
+  const load = useCallback(() => fetchSummary(), [fetchSummary]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchSummary(() => cancelled);
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchSummary]);
+
+  const debouncedLoad = useMemo(() => debounce(() => load(), 2000), [load]);
+
+  useEffect(() => {
+    if (!isConnected) return;
+
+    const handleMessageReceived = (payload: MessageReceivedEvent) => {
+      logger.debug('useUnreadReplies: Received MessageReceived event', payload);
+      if (!payload?.patientId) return;
+      setSummary((prev) => applyMessageReceived(prev, payload));
+      onReceivedRef.current?.(payload);
+      debouncedLoad();
+    };
+
+    on('MessageReceived', handleMessageReceived);
+    onReconnected(load);
+
+    return () => {
+      off('MessageReceived', handleMessageReceived);
+      offReconnected(load);
+    };
+  }, [isConnected, on, off, onReconnected, offReconnected, load, debouncedLoad]);
+
+  useEffect(() => {
+    const handleRead = (event: Event) => {
+      const patientId = (event as CustomEvent<{ patientId: number }>).detail?.patientId;
+      if (patientId) setSummary((prev) => clearPatientUnread(prev, patientId));
+    };
+    window.addEventListener(CONVERSATION_READ_EVENT, handleRead);
+    return () => window.removeEventListener(CONVERSATION_READ_EVENT, handleRead);
+  }, []);
+
+  const unreadByQueue = useMemo(() => getUnreadByQueue(summary), [summary]);
+  const unreadByPatient = useMemo(() => getUnreadByPatient(summary), [summary]);
+
+  return { unreadByQueue, unreadByPatient, totalUnread: summary?.total ?? 0, reload: load };
+}
+
+export default useUnreadReplies;
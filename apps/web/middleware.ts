@@ -70,6 +70,8 @@ export function middleware(request: NextRequest) {
     '/static',
     '/images',
     '/fonts',
+    '/check-in', // Patient self check-in (QR code), anonymous by design
+    '/status', // Patient's live queue status ({LINK} in messages), anonymous by design
   ];
   
   // Skip middleware for public paths
@@ -3,13 +3,15 @@
  * Converts backend DTOs to frontend-compatible models
  */
 
-import type { TemplateDto, ConditionDto } from './messageApiClient';
+import type { TemplateDto, ConditionDto, TemplateVersionDto, LibraryTemplateDto } from './messageApiClient';
 import type { QueueDto, QueuePatientDto } from './queuesApiClient';
 import type { UserDto } from './usersApiClient';
-import type { MessageTemplate } from '@/types/messageTemplate';
+import type { MessageTemplate, MessageTemplateVersion, LibraryTemplate } from '@/types/messageTemplate';
 import type { MessageCondition, ConditionOperator } from '@/types/messageCondition';
 import type { Queue, Patient } from '@/types';
 import { parseAsUtc } from '@/utils/dateTimeUtils';
+import { parsePlaceholders } from '@/utils/templatePlaceholders';
+import { normalizeOperator } from '@/utils/conditionRules';
 
 /**
  * Convert backend TemplateDto to frontend MessageTemplate
@@ -27,6 +29,53 @@ export function templateDtoToModel(dto: TemplateDto, queueId?: string): MessageT
     createdBy: dto.createdBy?.toString() || '', // Use real CreatedBy from backend
     updatedBy: dto.updatedBy?.toString() || '', // User who last updated it
     isDeleted: dto.isDeleted ?? false, // Single source of truth: active = !isDeleted
+    versionNumber: dto.versionNumber,
+    libraryTemplateId: dto.libraryTemplateId ? dto.libraryTemplateId.toString() : undefined,
+    isLibraryOverride: dto.isLibraryOverride ?? false,
+  };
+}
+
+/**
+ * Convert backend LibraryTemplateDto to frontend LibraryTemplate
+ */
+export function libraryTemplateDtoToModel(dto: LibraryTemplateDto): LibraryTemplate {
+  return {
+    id: dto.id.toString(),
+    title: dto.title,
+    content: dto.content,
+    category: dto.category || undefined,
+    scope: dto.scope,
+    moderatorId: dto.moderatorId ? dto.moderatorId.toString() : undefined,
+    linkedQueueCount: dto.linkedQueueCount ?? 0,
+    createdAt: parseAsUtc(dto.createdAt) || new Date(),
+    updatedAt: dto.updatedAt ? parseAsUtc(dto.updatedAt) : undefined,
+  };
+}
+
+/**
+ * Convert backend TemplateVersionDto to frontend MessageTemplateVersion
+ */
+export function templateVersionDtoToModel(dto: TemplateVersionDto): MessageTemplateVersion {
+  return {
+    id: dto.id.toString(),
+    templateId: dto.templateId.toString(),
+    versionNumber: dto.versionNumber,
+    title: dto.title,
+    content: dto.content,
+    condition: dto.condition
+      ? {
+          operator: normalizeOperator(dto.condition.operator) ?? 'UNCONDITIONED',
+          value: dto.condition.value ?? undefined,
+          minValue: dto.condition.minValue ?? undefined,
+          maxValue: dto.condition.maxValue ?? undefined,
+          criteria: dto.condition.criteria ?? undefined,
+          criteriaLogic: dto.condition.criteriaLogic ?? undefined,
+        }
+      : undefined,
+    createdAt: parseAsUtc(dto.createdAt) || new Date(),
+    updatedBy: dto.updatedBy?.toString(),
+    updatedByName: dto.updatedByName,
+    isCurrent: dto.isCurrent,
   };
 }
 
@@ -57,6 +106,8 @@ export function conditionDtoToModel(dto: ConditionDto, index?: number): MessageC
     value: dto.value ?? undefined,
     minValue: dto.minValue ?? undefined,
     maxValue: dto.maxValue ?? undefined,
+    criteria: dto.criteria ?? undefined,
+    criteriaLogic: dto.criteriaLogic ?? undefined,
     template: '',
     createdAt: dto.createdAt ? parseAsUtc(dto.createdAt) : undefined,
     updatedAt: dto.updatedAt ? parseAsUtc(dto.updatedAt) : undefined,
@@ -78,6 +129,9 @@ export function queueDtoToModel(dto: QueueDto): Queue {
     isActive: dto.isActive,
     currentPosition: dto.currentPosition,
     estimatedWaitMinutes: dto.estimatedWaitMinutes,
+    autoNotifyEnabled: dto.autoNotifyEnabled ?? false,
+    autoNotifyDedupMinutes: dto.autoNotifyDedupMinutes,
+    customVariables: dto.customVariables || {},
   };
 }
 
@@ -109,15 +163,11 @@ export function patientDtoToModel(dto: QueuePatientDto): Patient {
 
 /**
  * Extract template variables from content string
- * Looks for patterns like {PN}, {PQP}, {ETR}, {DN}
+ * Looks for patterns like {PN}, {PQP}, {APPT_TIME}, {PN|fallback}
  */
 function extractVariablesFromTemplate(content: string): string[] {
-  const variablePattern = /\{([A-Z]+)\}/g;
-  const matches = content.match(variablePattern);
-  if (!matches) return [];
-
-  // Remove duplicates and the braces
-  return Array.from(new Set(matches.map(m => m.slice(1, -1))));
+  // Remove duplicates; keys only (no braces or fallback)
+  return Array.from(new Set(parsePlaceholders(content || '').map(p => p.key)));
 }
 
 /**
@@ -0,0 +1,142 @@
+/**
+ * Type-safe API client for patient self check-in
+ * Staff endpoints manage a queue's check-in link (QR code) and approve pending check-ins;
+ * the /public endpoints are anonymous (fetchPublicAPI, no staff token) and addressed by the link token, never by queue id.
+ */
+
+import { messageApiClient, type ListResponse } from './messageApiClient';
+import type { PatientDto } from './patientsApiClient';
+import { fetchPublicAPI } from './publicApiClient';
+
+export interface CheckInSettingsDto {
+  queueId: number;
+  enabled: boolean;
+  requireApproval: boolean; // check-ins wait for staff approval before joining the queue
+  token: string;            // public link token; regenerating it invalidates printed QR codes
+}
+
+export interface UpdateCheckInSettingsRequest {
+  enabled: boolean;
+  requireApproval: boolean;
+}
+
+export interface CheckInQRCodeDto {
+  qrCodeImage: string; // base64
+  format: string;      // e.g. "image/png"
+}
+
+export interface PendingCheckInDto {
+  id: number;
+  queueId: number;
+  fullName: string;
+  phoneNumber: string;
+  countryCode: string;
+  createdAt: string;
+}
+
+export interface PublicCheckInInfoDto {
+  doctorName: string;
+  enabled: boolean;
+  requireApproval: boolean;
+}
+
+export interface SubmitCheckInRequest {
+  fullName: string;
+  phoneNumber: string; // national number
+  countryCode: string;
+}
+
+export interface SubmitCheckInResult {
+  status: 'added' | 'pending'; // pending = waiting for staff approval
+  position?: number;           // queue position when added
+}
+
+/**
+ * Get a queue's check-in settings (creates the link token on first use)
+ */
+export async function getCheckInSettings(queueId: number): Promise<CheckInSettingsDto> {
+  return messageApiClient.fetchAPI(`/queues/${queueId}/check-in`);
+}
+
+/**
+ * Enable/disable self check-in and the staff-approval step
+ */
+export async function updateCheckInSettings(queueId: number, data: UpdateCheckInSettingsRequest): Promise<CheckInSettingsDto> {
+  return messageApiClient.fetchAPI(`/queues/${queueId}/check-in`, {
+    method: 'PUT',
+    body: JSON.stringify(data),
+  });
+}
+
+/**
+ * Issue a new link token; the old link and QR code stop working
+ */
+export async function regenerateCheckInToken(queueId: number): Promise<CheckInSettingsDto> {
+  return messageApiClient.fetchAPI(`/queues/${queueId}/check-in/regenerate`, {
+    method: 'POST',
+  });
+}
+
+/**
+ * QR code image encoding the check-in page URL (rendered by the backend, like the WhatsApp QR code)
+ */
+export async function getCheckInQRCode(queueId: number, checkInUrl: string): Promise<CheckInQRCodeDto> {
+  return messageApiClient.fetchAPI(`/queues/${queueId}/check-in/qr-code?url=${encodeURIComponent(checkInUrl)}`);
+}
+
+/**
+ * Check-ins waiting for staff approval
+ */
+export async function getPendingCheckIns(queueId: number): Promise<ListResponse<PendingCheckInDto>> {
+  return messageApiClient.fetchAPI(`/queues/${queueId}/check-in/pending`);
+}
+
+/**
+ * Approve a pending check-in: the patient is appended at the next position and PatientUpdated is broadcast
+ */
+export async function approveCheckIn(queueId: number, checkInId: number): Promise<PatientDto> {
+  return messageApiClient.fetchAPI(`/queues/${queueId}/check-in/pending/${checkInId}/approve`, {
+    method: 'POST',
+  });
+}
+
+/**
+ * Reject a pending check-in
+ */
+export async function rejectCheckIn(queueId: number, checkInId: number): Promise<void> {
+  return messageApiClient.fetchAPI(`/queues/${queueId}/check-in/pending/${checkInId}/reject`, {
+    method: 'POST',
+  });
+}
+
+/**
+ * Public (anonymous): queue shown on the check-in page
+ */
+export async function getPublicCheckIn(token: string): Promise<PublicCheckInInfoDto> {
+  return fetchPublicAPI(`/public/check-in/${encodeURIComponent(token)}`);
+}
+
+/**
+ * Public (anonymous): check in a walk-in patient. Without approval the patient is appended at the next
+ * position and PatientUpdated is broadcast. Rate limited per client and per number (429 when exceeded).
+ */
+export async function submitCheckIn(token: string, data: SubmitCheckInRequest): Promise<SubmitCheckInResult> {
+  return fetchPublicAPI(`/public/check-in/${encodeURIComponent(token)}`, {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+export const checkInApiClient = {
+  getCheckInSettings,
+  updateCheckInSettings,
+  regenerateCheckInToken,
+  getCheckInQRCode,
+  getPendingCheckIns,
+  approveCheckIn,
+  rejectCheckIn,
+  getPublicCheckIn,
+  submitCheckIn,
+};
+
+export default checkInApiClient;
@@ -0,0 +1,84 @@
+/**
+ * Type-safe API client for patient conversations
+ * One thread per patient: the messages we sent and the replies the extension runner captured from
+ * WhatsApp Web (forwarded to /api/extension/messages/inbound for known patient numbers only).
+ * Live updates: the backend broadcasts MessageReceived (see MessageReceivedEvent) for every new reply.
+ */
+
+import { messageApiClient, type MessageReceiptStatus } from './messageApiClient';
+
+export type ConversationDirection = 'outbound' | 'inbound';
+
+export interface ConversationMessageDto {
+  id: string;
+  direction: ConversationDirection;
+  content: string;
+  at: string;                      // sent time (outbound) or receive time (inbound)
+  status?: MessageReceiptStatus;   // outbound only
+  isRead?: boolean;                // inbound only - seen by staff in this view
+}
+
+export interface PatientConversationDto {
+  patientId: number;
+  patientName: string;
+  phone: string;
+  countryCode: string;
+  queueId: number;
+  queueName: string;
+  unreadCount: number;
+  messages: ConversationMessageDto[];
+}
+
+export interface UnreadConversationDto {
+  patientId: number;
+  queueId: number;
+  unreadCount: number;
+  lastMessageAt: string;
+}
+
+export interface UnreadConversationsSummaryDto {
+  total: number;
+  conversations: UnreadConversationDto[];
+}
+
+/** SignalR MessageReceived payload */
+export interface MessageReceivedEvent {
+  messageId: string;
+  patientId: number;
+  patientName: string;
+  queueId: number;
+  moderatorId: number;
+  content: string;
+  receivedAt: string;
+}
+
+/**
+ * Full thread of a patient, oldest first
+ */
+export async function getPatientConversation(patientId: number): Promise<PatientConversationDto> {
+  return messageApiClient.fetchAPI(`/conversations/patients/${patientId}`);
+}
+
+/**
+ * Mark every reply of the patient as read (clears its unread badge)
+ */
+export async function markConversationRead(patientId: number): Promise<void> {
+  return messageApiClient.fetchAPI(`/conversations/patients/${patientId}/read`, {
+    method: 'POST',
+  });
+}
+
+/**
+ * Patients with unread replies, within the current user's moderator scope
+ */
+export async function getUnreadConversations(): Promise<UnreadConversationsSummaryDto> {
+  return messageApiClient.fetchAPI('/conversations/unread');
+}
+
+export const conversationsApiClient = {
+  getPatientConversation,
+  markConversationRead,
+  getUnreadConversations,
+};
+
+export default conversationsApiClient;
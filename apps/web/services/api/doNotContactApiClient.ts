@@ -0,0 +1,80 @@
+/**
+ * Type-safe API client for the do-not-contact list
+ * Numbers (E.164) of patients who asked not to receive WhatsApp messages, kept per moderator
+ */
+
+import { messageApiClient, type ListResponse } from './messageApiClient';
+
+export interface DoNotContactEntryDto {
+  id: number;
+  moderatorId: number;
+  phoneNumber: string; // E.164, e.g. "+201012345678"
+  patientName?: string;
+  reason?: string;
+  createdAt: string;
+  createdBy?: number;
+}
+
+export interface AddDoNotContactRequest {
+  phoneNumber: string; // E.164
+  patientName?: string;
+  reason?: string;
+  moderatorId?: number; // Required for admin users
+}
+
+export interface ImportDoNotContactRequest {
+  entries: Array<Omit<AddDoNotContactRequest, 'moderatorId'>>;
+  moderatorId?: number; // Required for admin users
+}
+
+export interface ImportDoNotContactResult {
+  added: number;
+  skipped: number; // already on the list
+}
+
+/**
+ * Get the do-not-contact list of the current user's moderator.
+ * For Admins: specify the moderator.
+ */
+export async function getDoNotContactList(moderatorId?: number): Promise<ListResponse<DoNotContactEntryDto>> {
+  return messageApiClient.fetchAPI(`/do-not-contact${moderatorId ? `?moderatorId=${moderatorId}` : ''}`);
+}
+
+/**
+ * Add a number to the do-not-contact list
+ */
+export async function addDoNotContact(data: AddDoNotContactRequest): Promise<DoNotContactEntryDto> {
+  return messageApiClient.fetchAPI('/do-not-contact', {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+/**
+ * Remove a number from the do-not-contact list
+ */
+export async function removeDoNotContact(id: number): Promise<void> {
+  return messageApiClient.fetchAPI(`/do-not-contact/${id}`, {
+    method: 'DELETE',
+  });
+}
+
+/**
+ * Add many numbers at once; numbers already on the list are skipped
+ */
+export async function importDoNotContact(data: ImportDoNotContactRequest): Promise<ImportDoNotContactResult> {
+  return messageApiClient.fetchAPI('/do-not-contact/import', {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+// Export for use in frontend
+export const doNotContactApiClient = {
+  getDoNotContactList,
+  addDoNotContact,
+  removeDoNotContact,
+  importDoNotContact,
+};
+
+export default doNotContactApiClient;
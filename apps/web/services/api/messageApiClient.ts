@@ -5,6 +5,7 @@
  */
 import logger from '@/utils/logger';
 import { translateNetworkError } from '@/utils/errorUtils';
+import type { ConditionCriteria, CriteriaLogic } from '@/types/messageCondition';
 
 // ============================================
 // DTOs (matching backend DTOs exactly)
@@ -21,6 +22,9 @@ export interface TemplateDto {
   createdBy?: number;
   updatedBy?: number;
   isDeleted: boolean; // Single source of truth: active = !isDeleted
+  versionNumber?: number; // current version (incremented on every update)
+  libraryTemplateId?: number | null; // linked library template: title/content follow it unless overridden
+  isLibraryOverride?: boolean;       // queue-specific edit of a linked template (stops following the library)
 }
 
 export interface ConditionDto {
@@ -31,10 +35,60 @@ export interface ConditionDto {
   value?: number;
   minValue?: number;
   maxValue?: number;
+  criteria?: ConditionCriteria | null;   // extra criteria (time window, day, status, country, already messaged)
+  criteriaLogic?: CriteriaLogic | null;  // how criteria are combined; null = AND
   createdAt: string;
   updatedAt?: string;
 }
 
+/**
+ * Snapshot of a template saved on every update (title, content and its condition at that time)
+ */
+export interface TemplateVersionDto {
+  id: number;
+  templateId: number;
+  versionNumber: number;
+  title: string;
+  content: string;
+  condition?: Pick<ConditionDto, 'operator' | 'value' | 'minValue' | 'maxValue' | 'criteria' | 'criteriaLogic'> | null;
+  createdAt: string;       // when this version was saved
+  updatedBy?: number;      // author of this version
+  updatedByName?: string;
+  isCurrent: boolean;
+}
+
+export type TemplateLibraryScope = 'moderator' | 'system';
+
+/**
+ * Template in the shared library - moderator-level (the moderator's queues) or system-level (everyone)
+ */
+export interface LibraryTemplateDto {
+  id: number;
+  title: string;
+  content: string;
+  category?: string | null;
+  scope: TemplateLibraryScope;
+  moderatorId?: number | null;  // owner of a moderator-level template
+  linkedQueueCount?: number;    // queue templates linked to (following) this one
+  createdAt: string;
+  updatedAt?: string;
+  createdBy?: number;
+  updatedBy?: number;
+}
+
+export interface CreateLibraryTemplateRequest {
+  title: string;
+  content: string;
+  category?: string | null;
+  scope: TemplateLibraryScope;  // 'system' is admin only
+}
+
+export interface UpdateLibraryTemplateRequest {
+  title?: string;
+  content?: string;
+  category?: string | null;
+}
+
 export interface CreateTemplateRequest {
   title: string;
   content: string;
@@ -58,6 +112,8 @@ export interface CreateConditionRequest {
   value?: number;
   minValue?: number;
   maxValue?: number;
+  criteria?: ConditionCriteria | null;
+  criteriaLogic?: CriteriaLogic | null;
 }
 
 export interface UpdateConditionRequest {
@@ -65,6 +121,8 @@ export interface UpdateConditionRequest {
   value?: number | null;
   minValue?: number | null;
   maxValue?: number | null;
+  criteria?: ConditionCriteria | null;   // null clears all criteria
+  criteriaLogic?: CriteriaLogic | null;
 }
 
 export interface MyQuotaDto {
@@ -402,6 +460,8 @@ export async function createTemplate(data: CreateTemplateRequest): Promise<Templ
 
 /**
  * Update an existing template (with automatic retry on network failures)
+ * Every update saves a new version (author and timestamp) - see getTemplateVersions
+ * Updating a template linked to the library turns it into a per-queue override (isLibraryOverride)
  */
 export async function updateTemplate(id: number, data: UpdateTemplateRequest): Promise<TemplateDto> {
   return withRetry(() =>
@@ -482,6 +542,40 @@ export async function restoreTemplate(id: number): Promise<TemplateDto> {
   );
 }
 
+/**
+ * List a template's versions, newest first
+ */
+export async function getTemplateVersions(templateId: number): Promise<ListResponse<TemplateVersionDto>> {
+  const response = await withRetry(() =>
+    fetchAPI<LegacyListResponse<TemplateVersionDto>>(`/templates/${templateId}/versions`)
+  );
+
+  return normalizeListResponse<TemplateVersionDto>(response, { pageNumber: 1, pageSize: 0 });
+}
+
+/**
+ * Restore a previous version: its title, content and condition become current
+ * (saved as a new version, so the restore itself can be undone)
+ */
+export async function restoreTemplateVersion(templateId: number, versionId: number): Promise<TemplateDto> {
+  return withRetry(() =>
+    fetchAPI(`/templates/${templateId}/versions/${versionId}/restore`, {
+      method: 'POST',
+    })
+  );
+}
+
+/**
+ * Drop a linked template's per-queue override: its title/content follow the library template again
+ */
+export async function resetTemplateOverride(templateId: number): Promise<TemplateDto> {
+  return withRetry(() =>
+    fetchAPI(`/templates/${templateId}/reset-override`, {
+      method: 'POST',
+    })
+  );
+}
+
 /**
  * Set a template as default for its queue (sets condition.operator to DEFAULT)
  */
@@ -493,6 +587,92 @@ export async function setTemplateAsDefault(id: number): Promise<TemplateDto> {
   );
 }
 
+// ============================================
+// Template Library API
+// ============================================
+
+/**
+ * List library templates visible to the current user: system-level ones plus
+ * the moderator-level ones of the user's moderator
+ */
+export async function getLibraryTemplates(options?: {
+  scope?: TemplateLibraryScope;
+  category?: string;
+  search?: string;
+}): Promise<ListResponse<LibraryTemplateDto>> {
+  const params = new URLSearchParams();
+  if (options?.scope) params.append('scope', options.scope);
+  if (options?.category) params.append('category', options.category);
+  if (options?.search) params.append('search', options.search);
+
+  const queryString = params.toString();
+  const response = await withRetry(() =>
+    fetchAPI<LegacyListResponse<LibraryTemplateDto>>(`/template-library${queryString ? `?${queryString}` : ''}`)
+  );
+
+  return normalizeListResponse<LibraryTemplateDto>(response, { pageNumber: 1, pageSize: 0 });
+}
+
+/**
+ * Add a template to the library (with automatic retry on network failures)
+ */
+export async function createLibraryTemplate(data: CreateLibraryTemplateRequest): Promise<LibraryTemplateDto> {
+  return withRetry(() =>
+    fetchAPI('/template-library', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  );
+}
+
+/**
+ * Update a library template - the change propagates to every linked queue template
+ * that has no per-queue override
+ */
+export async function updateLibraryTemplate(id: number, data: UpdateLibraryTemplateRequest): Promise<LibraryTemplateDto> {
+  return withRetry(() =>
+    fetchAPI(`/template-library/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    })
+  );
+}
+
+/**
+ * Delete a library template - linked queue templates keep their current text as regular templates
+ */
+export async function deleteLibraryTemplate(id: number): Promise<void> {
+  await withRetry(() =>
+    fetchAPI(`/template-library/${id}`, {
+      method: 'DELETE',
+    })
+  );
+}
+
+/**
+ * Copy a library template into a queue as an independent template (later library edits don't apply)
+ */
+export async function copyLibraryTemplateToQueue(id: number, queueId: number): Promise<TemplateDto> {
+  return withRetry(() =>
+    fetchAPI(`/template-library/${id}/copy`, {
+      method: 'POST',
+      body: JSON.stringify({ queueId }),
+    })
+  );
+}
+
+/**
+ * Link a library template to a queue: the queue template follows library edits until overridden
+ */
+export async function linkLibraryTemplateToQueue(id: number, queueId: number): Promise<TemplateDto> {
+  return withRetry(() =>
+    fetchAPI(`/template-library/${id}/link`, {
+      method: 'POST',
+      body: JSON.stringify({ queueId }),
+    })
+  );
+}
+
 // ============================================
 // Conditions API
 // ============================================
@@ -576,6 +756,15 @@ export async function updateCondition(id: number, data: UpdateConditionRequest):
     }
   }
 
+  // Sentinel operators never carry criteria; otherwise pass through (null clears)
+  if (data.operator === 'UNCONDITIONED' || data.operator === 'DEFAULT') {
+    requestBody.criteria = null;
+    requestBody.criteriaLogic = null;
+  } else {
+    if (data.criteria !== undefined) requestBody.criteria = data.criteria;
+    if (data.criteriaLogic !== undefined) requestBody.criteriaLogic = data.criteriaLogic;
+  }
+
   return withRetry(() =>
     fetchAPI(`/conditions/${id}`, {
       method: 'PUT',
@@ -696,6 +885,21 @@ export async function sendMessages(data: {
   });
 }
 
+export interface LastPatientMessageDto {
+  patientId: number;
+  templateId?: number | null;
+  status: string;
+  createdAt: string;
+}
+
+/**
+ * Get the most recent message per patient in a queue (any status except deleted)
+ * Used by auto-notify to detect condition changes and enforce the de-duplication window
+ */
+export async function getLastPatientMessages(queueId: number): Promise<{ success: boolean; data: LastPatientMessageDto[] }> {
+  return fetchAPI(`/messages/last-per-patient?queueId=${queueId}`);
+}
+
 /**
  * Retry sending a message
  */
@@ -784,13 +988,21 @@ export interface OngoingSessionDto {
   patients: SessionPatientDto[];
 }
 
+/**
+ * Where a sent message stands on WhatsApp, from the runner's tick reports:
+ * sent (one tick), delivered (two ticks), read (blue ticks)
+ */
+export type MessageReceiptStatus = 'sent' | 'delivered' | 'read';
+
 export interface SessionPatientDto {
   messageId?: string; // NEW: Message ID for tracking
   patientId: number;
   name: string;
   phone: string;
   countryCode: string;
-  status: string; // sent, pending, failed, queued, sending
+  status: string; // sent, delivered, read, pending, failed, queued, sending
+  deliveredAt?: string;
+  readAt?: string;
   isPaused: boolean;
   attempts?: number;
   failedReason?: string;
@@ -815,8 +1027,14 @@ export interface SentMessageDto {
   countryCode: string;
   content: string;  // Resolved content (no variables)
   sentAt: string;
+  status?: MessageReceiptStatus;
+  deliveredAt?: string;
+  readAt?: string;
   createdBy?: number;
   updatedBy?: number;
+  templateId?: number;             // template that produced the message
+  templateVersionId?: number;      // exact version of that template (see getTemplateVersions)
+  templateVersionNumber?: number;
 }
 
 export interface CompletedSessionDto {
@@ -836,6 +1054,20 @@ export interface CompletedSessionDto {
   sentMessages: SentMessageDto[];
 }
 
+export interface SessionMessageResultDto extends SessionPatientDto {
+  sentAt?: string;
+}
+
+/** Every message of a session whatever its status (sent, failed, queued...), used for exports */
+export interface SessionResultsDto {
+  sessionId: string;
+  queueId: number;
+  queueName: string;
+  startTime: string;
+  completedAt?: string;
+  messages: SessionMessageResultDto[];
+}
+
 /**
  * Get all ongoing sessions for current user's moderator.
  * For Admins: optionally filter by moderatorId.
@@ -866,6 +1098,13 @@ export async function getCompletedSessions(moderatorId?: number): Promise<{ succ
   return fetchAPI(`/sessions/completed${params}`);
 }
 
+/**
+ * Get the results of one session: every message with status, attempts, failure reason and resolved content
+ */
+export async function getSessionResults(sessionId: string): Promise<{ success: boolean; data: SessionResultsDto }> {
+  return fetchAPI(`/sessions/${sessionId}/results`);
+}
+
 /**
  * Pause a session
  */
@@ -909,6 +1148,113 @@ export async function deleteSession(sessionId: string): Promise<{ success: boole
   });
 }
 
+// ============================================
+// Scheduled Sessions API
+// ============================================
+
+export interface ScheduledSessionPatientDto {
+  patientId: number;
+  name: string;
+  phone: string;
+  countryCode: string;
+}
+
+export interface ScheduledSessionDto {
+  sessionId: string; // Guid serialized as string
+  queueId: number;
+  queueName: string;
+  templateId: number;
+  templateTitle?: string;
+  scheduledAt: string; // UTC - when the session will be queued for sending
+  createdAt: string;
+  createdBy?: number;
+  updatedAt?: string;
+  updatedBy?: number;
+  total: number;
+  // scheduled: waiting for its fire time
+  // quota_blocked: fire time reached but quota check (same rules as getMyQuota) failed - needs reschedule or more quota
+  status: 'scheduled' | 'quota_blocked';
+  blockedReason?: string;
+  patients: ScheduledSessionPatientDto[];
+}
+
+export interface UpdateScheduledSessionRequest {
+  scheduledAt?: string;
+  patientIds?: number[];
+}
+
+/**
+ * Schedule messages to multiple patients for a future time.
+ * Same payload as sendMessages; the backend creates the session now but only queues
+ * its messages at scheduledAt, re-checking the moderator quota at that moment.
+ * @param scheduledAt - UTC ISO string, must be in the future
+ */
+export async function scheduleMessages(data: {
+  templateId: number;
+  patientIds: number[];
+  scheduledAt: string;
+  moderatorId?: number; // Required for admin users
+  channel?: string;
+  correlationId?: string;
+}): Promise<{ success: boolean; sessionId: string; scheduledAt: string; total: number }> {
+  const requestBody: Record<string, unknown> = {
+    templateId: data.templateId,
+    patientIds: data.patientIds,
+    scheduledAt: data.scheduledAt,
+  };
+  if (data.moderatorId) requestBody.moderatorId = data.moderatorId;
+  if (data.channel) requestBody.channel = data.channel;
+  if (data.correlationId && /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(data.correlationId)) {
+    requestBody.correlationId = data.correlationId;
+  }
+
+  return fetchAPI('/messages/schedule', {
+    method: 'POST',
+    body: JSON.stringify(requestBody),
+  });
+}
+
+/**
+ * Get all scheduled (not yet fired) sessions for current user's moderator.
+ * For Admins: optionally filter by moderatorId.
+ */
+export async function getScheduledSessions(moderatorId?: number): Promise<{ success: boolean; data: ScheduledSessionDto[] }> {
+  const params = moderatorId ? `?moderatorId=${moderatorId}` : '';
+  return fetchAPI(`/sessions/scheduled${params}`);
+}
+
+/**
+ * Reschedule a scheduled session and/or change its recipients.
+ * Only allowed while the session has not fired yet.
+ */
+export async function updateScheduledSession(
+  sessionId: string,
+  data: UpdateScheduledSessionRequest
+): Promise<{ success: boolean; data: ScheduledSessionDto }> {
+  return fetchAPI(`/sessions/scheduled/${sessionId}`, {
+    method: 'PUT',
+    body: JSON.stringify(data),
+  });
+}
+
+/**
+ * Cancel a scheduled session before it fires (nothing is sent, no quota consumed)
+ */
+export async function cancelScheduledSession(sessionId: string): Promise<{ success: boolean }> {
+  return fetchAPI(`/sessions/scheduled/${sessionId}`, {
+    method: 'DELETE',
+  });
+}
+
+/**
+ * Fire a scheduled session immediately (quota is checked now, like a normal send)
+ */
+export async function sendScheduledSessionNow(sessionId: string): Promise<{ success: boolean; queued: number }> {
+  return fetchAPI(`/sessions/scheduled/${sessionId}/send-now`, {
+    method: 'POST',
+  });
+}
+
 // ============================================
 // Failed Tasks API
 // NOTE: FailedTasksController removed - now using Messages API
@@ -1051,6 +1397,17 @@ export const messageApiClient = {
   getTrashTemplates,
   getArchivedTemplates,
   restoreTemplate,
+  getTemplateVersions,
+  restoreTemplateVersion,
+  resetTemplateOverride,
+
+  // Template Library
+  getLibraryTemplates,
+  createLibraryTemplate,
+  updateLibraryTemplate,
+  deleteLibraryTemplate,
+  copyLibraryTemplateToQueue,
+  linkLibraryTemplateToQueue,
 
   // Conditions
   getConditions,
@@ -1069,6 +1426,7 @@ export const messageApiClient = {
   // Messages
   sendMessage,
   sendMessages,
+  getLastPatientMessages,
   retryMessage,
   pauseMessage,
   resumeMessage,
@@ -1082,11 +1440,19 @@ export const messageApiClient = {
   getOngoingSessions,
   getFailedSessions,
   getCompletedSessions,
+  getSessionResults,
   pauseSession,
   resumeSession,
   retrySession,
   deleteSession,
 
+  // Scheduled Sessions
+  scheduleMessages,
+  getScheduledSessions,
+  updateScheduledSession,
+  cancelScheduledSession,
+  sendScheduledSessionNow,
+
   // Failed Tasks
   getFailedTasks,
   getFailedTask,
@@ -13,6 +13,7 @@ export interface PatientDto {
   isValidWhatsAppNumber?: boolean | null;
   position: number;
   status: string;
+  statusToken?: string; // personal token of the public queue status page ({LINK})
   createdAt?: string;
   updatedAt?: string;
   createdBy?: number;
@@ -154,6 +155,17 @@ export async function reorderPatients(req: ReorderPatientsRequest): Promise<void
   });
 }
 
+/**
+ * Set absolute positions for several patients of a queue at once; nobody outside the batch moves.
+ * Used for batch reorders and their undo, and the import order. A position held by another active patient is a 409.
+ */
+export async function assignPatientPositions(req: ReorderPatientsRequest): Promise<void> {
+  return messageApiClient.fetchAPI('/patients/positions', {
+    method: 'POST',
+    body: JSON.stringify(req),
+  });
+}
+
 // Export for use in frontend
 export const patientsApiClient = {
   getPatients,
@@ -163,6 +175,7 @@ export const patientsApiClient = {
   updatePatientPosition,
   deletePatient,
   reorderPatients,
+  assignPatientPositions,
   getTrashPatients,
   getArchivedPatients,
   restorePatient,
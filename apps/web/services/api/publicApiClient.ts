@@ -0,0 +1,70 @@
+/* global RequestInit */
+/**
+ * Anonymous API client for the public pages (self check-in, queue status)
+ * Same base URL and error shape as messageApiClient.fetchAPI, but it never sends the staff token
+ * and never redirects to login on 401/403 - patients on these pages are not signed in.
+ */
+import { translateNetworkError } from '@/utils/errorUtils';
+import type { ApiError } from './messageApiClient';
+
+const getApiBaseUrl = (): string => {
+  const baseUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
+  return baseUrl.endsWith('/api') ? baseUrl : `${baseUrl}/api`;
+};
+
+const extractErrorMessage = (payload: unknown): string => {
+  if (typeof payload === 'string' && payload) return payload;
+  if (payload && typeof payload === 'object') {
+    const obj = payload as Record<string, unknown>;
+    if (typeof obj.message === 'string' && obj.message.trim()) return obj.message;
+    if (typeof obj.error === 'string' && obj.error.trim()) return obj.error;
+  }
+  return 'API request failed';
+};
+
+/**
+ * Make an anonymous fetch request
+ */
+export async function fetchPublicAPI<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+  try {
+    const response = await fetch(`${getApiBaseUrl()}${endpoint}`, {
+      ...options,
+      credentials: 'omit',
+      headers: {
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
+    });
+
+    const contentType = response.headers.get('content-type');
+    const data: unknown = contentType?.includes('application/json') ? await response.json() : await response.text();
+
+    if (!response.ok) {
+      const errorData = typeof data === 'object' && data !== null ? data as Record<string, unknown> : null;
+      throw {
+        message: extractErrorMessage(data),
+        statusCode: response.status,
+        error: errorData?.error as string | undefined,
+        code: errorData?.code as string | undefined,
+        ...(errorData || {}),
+      } as ApiError & { error?: string; code?: string };
+    }
+
+    return data as T;
+  } catch (error) {
+    if (error && typeof error === 'object' && 'statusCode' in error) {
+      throw error;
+    }
+
+    throw {
+      message: translateNetworkError(error),
+      statusCode: 0,
+    } as ApiError;
+  }
+}
+
+export const publicApiClient = {
+  fetchPublicAPI,
+};
+
+export default publicApiClient;
@@ -0,0 +1,34 @@
+/**
+ * Type-safe API client for the public queue status page
+ * Anonymous (fetchPublicAPI, no staff token), read-only endpoints addressed by the patient's status token
+ * (the {LINK} placeholder).
+ * Live updates: the anonymous hub at PUBLIC_STATUS_HUB_PATH?token=... sends QueueUpdated / PatientUpdated
+ * for the token's queue only.
+ */
+
+import { fetchPublicAPI } from './publicApiClient';
+
+export const PUBLIC_STATUS_HUB_PATH = '/publicStatusHub';
+
+export interface PublicQueueStatusDto {
+  doctorName: string;
+  currentPosition: number;      // CQP
+  estimatedWaitMinutes: number; // ETS
+  patientFirstName?: string;    // first name only - the link may be forwarded
+  patientPosition: number;
+  patientStatus: 'waiting' | 'in_service' | 'completed' | 'cancelled';
+  updatedAt: string;
+}
+
+/**
+ * Current queue status for a patient's status link
+ */
+export async function getPublicQueueStatus(token: string): Promise<PublicQueueStatusDto> {
+  return fetchPublicAPI(`/public/status/${encodeURIComponent(token)}`);
+}
+
+export const queueStatusApiClient = {
+  getPublicQueueStatus,
+};
+
+export default queueStatusApiClient;
@@ -4,6 +4,7 @@
  */
 
 import { translateNetworkError } from '@/utils/errorUtils';
+import type { PatientDto } from './patientsApiClient';
 
 export interface QueueDto {
   id: number;
@@ -12,6 +13,9 @@ export interface QueueDto {
   moderatorId: number;
   currentPosition: number;
   estimatedWaitMinutes?: number;
+  autoNotifyEnabled?: boolean;
+  autoNotifyDedupMinutes?: number;
+  customVariables?: Record<string, string>;
   isActive: boolean;
   createdAt: string;
   updatedAt?: string;
@@ -33,6 +37,28 @@ export interface QueuePatientDto {
   updatedBy?: number;
 }
 
+export interface DuplicateQueueRequest {
+  doctorName: string;
+  moderatorId: number;       // target moderator (may differ from the source queue's)
+  includePatients: boolean;  // also copy the patient list (statuses reset to waiting)
+}
+
+export interface DuplicateQueueResult {
+  queue: QueueDto;
+  templatesCopied: number;
+  conditionsCopied: number;
+  patientsCopied: number;
+}
+
+/**
+ * Result of a queue flow action (call next, no-show, skip): the updated queue and every patient whose
+ * status or position changed. The backend broadcasts the same changes as PatientUpdated/QueueUpdated.
+ */
+export interface QueueFlowResult {
+  queue: QueueDto;
+  patients: PatientDto[];
+}
+
 export interface ListResponse<T> {
   items: T[];
   totalCount: number;
@@ -184,6 +210,49 @@ export async function getQueuePatients(queueId: number): Promise<ListResponse<Qu
   return fetchAPI(`/queues/${queueId}/patients`);
 }
 
+/**
+ * Duplicate a queue's configuration into a new queue: estimatedWaitMinutes, auto-notify settings,
+ * custom variables, every template and condition (DEFAULT/UNCONDITIONED roles kept) and optionally the patients.
+ * The target moderator's queue quota is enforced by the backend as well.
+ */
+export async function duplicateQueue(queueId: number, data: DuplicateQueueRequest): Promise<DuplicateQueueResult> {
+  return fetchAPI(`/queues/${queueId}/duplicate`, {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+/**
+ * Call the next patient in one transaction: the patient in service is marked completed, the first waiting
+ * patient (lowest position) is marked in_service and the queue's currentPosition moves to their position.
+ * expectedPosition is the currentPosition the caller saw; the backend rejects the call (409) when another
+ * screen has already advanced the queue, so two clicks never skip a patient.
+ */
+export async function callNextPatient(queueId: number, expectedPosition: number): Promise<QueueFlowResult> {
+  return fetchAPI(`/queues/${queueId}/call-next`, {
+    method: 'POST',
+    body: JSON.stringify({ expectedPosition }),
+  });
+}
+
+/**
+ * Mark a waiting or in-service patient as a no-show (status cancelled). The queue position is not advanced.
+ */
+export async function markPatientNoShow(patientId: number): Promise<QueueFlowResult> {
+  return fetchAPI(`/patients/${patientId}/no-show`, {
+    method: 'POST',
+  });
+}
+
+/**
+ * Skip a waiting or in-service patient: they go back to waiting at the end of the queue and are called again later
+ */
+export async function skipPatient(patientId: number): Promise<QueueFlowResult> {
+  return fetchAPI(`/patients/${patientId}/skip`, {
+    method: 'POST',
+  });
+}
+
 /**
  * Create a new queue
  */
@@ -307,7 +376,11 @@ export const queuesApiClient = {
   getQueues,
   getQueue,
   getQueuePatients,
+  callNextPatient,
+  markPatientNoShow,
+  skipPatient,
   createQueue,
+  duplicateQueue,
   updateQueue,
   deleteQueue,
   getTrashQueues,
@@ -0,0 +1,131 @@
+import type { QueueMessageConfig, MessageCondition } from "../types/messageCondition";
+import type { MessageTemplate } from "../types/messageTemplate";
+import { resolvePatientMessages } from "./queueMessageService";
+import { parseAsUtc } from "../utils/dateTimeUtils";
+
+/** Default minimum gap between two automatic messages to the same patient */
+export const DEFAULT_AUTO_NOTIFY_DEDUP_MINUTES = 30;
+
+export type AutoNotifySkipReason =
+  | 'EXCLUDED'            // offset < 0 (already served)
+  | 'NO_MATCH'            // no condition/default template resolved
+  | 'UNCHANGED'           // matched the same template as the last message
+  | 'DEDUP_WINDOW'        // last message is still inside the de-duplication window
+  | 'UNVALIDATED_NUMBER'; // WhatsApp number not verified (backend rejects the whole batch)
+
+export interface AutoNotifyPatient {
+  id: string;
+  name?: string;
+  position: number;
+  isValidWhatsAppNumber?: boolean | null;
+  status?: string;       // for patient-status criteria
+  countryCode?: string;  // for country-code criteria
+}
+
+export interface AutoNotifyLastMessage {
+  templateId?: string | number | null;
+  createdAt: string | Date;
+}
+
+export interface AutoNotifyPlan {
+  patientIds: string[];
+  skipped: Array<{ patientId: string; reason: AutoNotifySkipReason }>;
+}
+
+interface PlanOptions {
+  dedupWindowMinutes?: number;
+  now?: Date;
+}
+
+/**
+ * Build a QueueMessageConfig for auto-notify from context data.
+ * Context conditions only carry templateId, so template content is filled in from the queue templates
+ * (resolvePatientMessage ignores conditions without template content).
+ */
+export function buildAutoNotifyConfig(
+  queueId: string,
+  queueName: string | undefined,
+  conditions: MessageCondition[],
+  templates: MessageTemplate[]
+): QueueMessageConfig {
+  const queueConditions = conditions
+    .filter((c) => String(c.queueId) === String(queueId))
+    .map((c) => {
+      if (c.template && c.template.trim().length > 0) return c;
+      const template = templates.find((t) => String(t.id) === String(c.templateId));
+      return template ? { ...c, template: template.content } : c;
+    });
+
+  return {
+    queueId,
+    queueName,
+    conditions: queueConditions,
+  };
+}
+
+/**
+ * Decide which patients should receive an automatic message after CQP changes.
+ * A patient is notified only when the template of the condition they now match differs from
+ * the template of their last message, and that message is older than the de-duplication window.
+ * Patients never messaged before are notified as long as they match a condition.
+ */
+export function planAutoNotifications(
+  config: QueueMessageConfig,
+  patients: AutoNotifyPatient[],
+  currentQueuePosition: number,
+  lastMessages: Record<string, AutoNotifyLastMessage | undefined>,
+  options: PlanOptions = {}
+): AutoNotifyPlan {
+  const dedupMs = (options.dedupWindowMinutes ?? DEFAULT_AUTO_NOTIFY_DEDUP_MINUTES) * 60000;
+  const now = (options.now ?? new Date()).getTime();
+
+  const plan: AutoNotifyPlan = { patientIds: [], skipped: [] };
+  const resolutions = resolvePatientMessages(
+    config,
+    patients.map((p) => ({
+      ...p,
+      patientStatus: p.status,
+      alreadyMessaged: !!lastMessages[p.id],
+    })),
+    currentQueuePosition,
+    { now: options.now }
+  );
+
+  resolutions.forEach((res, index) => {
+    const patient = patients[index];
+
+    if (res.reason === 'EXCLUDED' || res.reason === 'NO_MATCH') {
+      plan.skipped.push({ patientId: res.patientId, reason: res.reason });
+      return;
+    }
+
+    const matched = config.conditions.find((c) => c.id === res.matchedConditionId);
+    const last = lastMessages[res.patientId];
+
+    if (last) {
+      if (String(last.templateId ?? '') === String(matched?.templateId ?? '')) {
+        plan.skipped.push({ patientId: res.patientId, reason: 'UNCHANGED' });
+        return;
+      }
+      const lastAt = parseAsUtc(last.createdAt);
+      if (lastAt && now - lastAt.getTime() < dedupMs) {
+        plan.skipped.push({ patientId: res.patientId, reason: 'DEDUP_WINDOW' });
+        return;
+      }
+    }
+
+    if (patient.isValidWhatsAppNumber !== true) {
+      plan.skipped.push({ patientId: res.patientId, reason: 'UNVALIDATED_NUMBER' });
+      return;
+    }
+
+    plan.patientIds.push(res.patientId);
+  });
+
+  return plan;
+}
+
+export default {
+  buildAutoNotifyConfig,
+  planAutoNotifications,
+};
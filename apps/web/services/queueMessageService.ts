@@ -1,65 +1,16 @@
 import { QueueMessageConfig, MessageResolution, MessageCondition } from "../types/messageCondition";
+import { buildDefaultFallbacks, buildPlaceholderValues, renderTemplate } from "../utils/templatePlaceholders";
+import type { ConditionMatchContext } from "../utils/conditionCriteria";
+import { matchesCondition } from "../utils/conditionRules";
+
+/** Per-patient attributes used by condition criteria (status, country, already messaged) */
+export type PatientConditionAttributes = Omit<ConditionMatchContext, 'now'>;
 
 interface ResolveOptions {
   estimatedTimePerSessionMinutes?: number; // ETS
-}
-
-function formatTimeDisplay(minutes: number): string {
-  const mins = Math.max(0, Math.round(minutes));
-  const hours = Math.floor(mins / 60);
-  const rem = mins % 60;
-  if (hours === 0) return `${rem} دقيقة`;
-  if (rem === 0) return `${hours} ساعة`;
-  return `${hours} ساعة و ${rem} دقيقة`;
-}
-
-function matchesCondition(offset: number, cond: MessageCondition): boolean {
-  if (cond.enabled === false) return false;
-  
-  switch (cond.operator) {
-    case 'UNCONDITIONED':
-      // UNCONDITIONED always matches (no criteria)
-      return true;
-    case 'DEFAULT':
-      // DEFAULT should not be matched here - it's handled separately as fallback
-      // But if it's in the conditions array, it should match when no other condition matches
-      return false; // Will be handled as fallback after all conditions are checked
-    case 'EQUAL':
-      return typeof cond.value === 'number' && offset === cond.value;
-    case 'GREATER':
-      return typeof cond.value === 'number' && offset > cond.value;
-    case 'LESS':
-      return typeof cond.value === 'number' && offset < cond.value;
-    case 'RANGE':
-      return (
-        typeof cond.minValue === 'number' &&
-        typeof cond.maxValue === 'number' &&
-        offset >= cond.minValue &&
-        offset <= cond.maxValue
-      );
-    default:
-      return false;
-  }
-}
-
-/**
- * Replace placeholders in message templates with actual values.
- * Supported variables:
- * - {PN}: Patient Name
- * - {PQP}: Patient Queue Position (the patient's position in the queue)
- * - {CQP}: Current Queue Position (the position currently being served)
- * - {ETR}: Estimated Time Remaining (formatted as "X ساعة و Y دقيقة")
- * - {DN}: Department/Queue Name
- * - {CN}: Clinic/Queue Name
- */
-function replacePlaceholders(template: string, params: { PN?: string; PQP?: number; CQP?: number; ETR?: string; DN?: string; CN?: string; }): string {
-  return template
-    .replace(/{PN}/g, params.PN ?? '')
-    .replace(/{PQP}/g, params.PQP !== undefined ? String(params.PQP) : '')
-    .replace(/{CQP}/g, params.CQP !== undefined ? String(params.CQP) : '')
-    .replace(/{ETR}/g, params.ETR ?? '')
-    .replace(/{DN}/g, params.DN ?? '')
-    .replace(/{CN}/g, params.CN ?? '');
+  now?: Date; // reference time for {DATE}, {TIME}, {APPT_TIME} and time-window criteria
+  attributes?: PatientConditionAttributes;
+  statusLink?: string; // {LINK}
 }
 
 /**
@@ -98,6 +49,8 @@ export function resolvePatientMessage(
       value: c.value,
       minValue: c.minValue,
       maxValue: c.maxValue,
+      criteria: c.criteria,
+      criteriaLogic: c.criteriaLogic,
       priority: c.priority,
       enabled: c.enabled,
       templateLength: c.template?.length || 0,
@@ -121,11 +74,18 @@ export function resolvePatientMessage(
     };
   }
 
-  const ets = options.estimatedTimePerSessionMinutes ?? 15;
-  // For patients at CQP (offset === 0), ETR should be 0 (they're currently being served)
-  // For patients after CQP (offset > 0), calculate ETR normally
-  const etrMinutes = offset >= 0 ? offset * ets : 0;
-  const etrDisplay = offset === 0 ? '0 دقيقة' : formatTimeDisplay(etrMinutes);
+  // Placeholder values ({PN}, {ETR}, {DATE}, custom variables...) - see utils/templatePlaceholders
+  const placeholderValues = buildPlaceholderValues({
+    patientName,
+    patientPosition,
+    currentQueuePosition,
+    estimatedTimePerSessionMinutes: options.estimatedTimePerSessionMinutes,
+    queueName: config.queueName,
+    statusLink: options.statusLink,
+    customVariables: config.customVariables,
+    now: options.now,
+  });
+  const placeholderDefaults = buildDefaultFallbacks({ patientId });
 
   // Separate conditions into active conditions and DEFAULT condition
   // Filter out deleted conditions and disabled conditions
@@ -146,17 +106,10 @@ export function resolvePatientMessage(
 
   // FIRST: Check active conditions (EQUAL, GREATER, LESS, RANGE) - these have specific matching criteria
   for (const cond of sortedActive) {
-    const conditionMatches = matchesCondition(offset, cond);
+    const conditionMatches = matchesCondition(cond, offset, { ...options.attributes, now: options.now });
     // CRITICAL: Check for template content (not just truthy - empty string is falsy)
     if (conditionMatches && cond.template && cond.template.trim().length > 0) {
-      const text = replacePlaceholders(cond.template, {
-        PN: patientName,
-        PQP: patientPosition,
-        CQP: currentQueuePosition,
-        ETR: etrDisplay,
-        DN: config.queueName,
-        CN: config.queueName,
-      });
+      const text = renderTemplate(cond.template, placeholderValues, placeholderDefaults);
 
       console.log('[resolvePatientMessage] ✅ Active condition matched:', {
         conditionId: cond.id,
@@ -194,14 +147,7 @@ export function resolvePatientMessage(
   // SECOND: No active condition matched, check DEFAULT condition
   // CRITICAL: Check for template content (not just truthy - empty string is falsy)
   if (defaultCondition && defaultCondition.template && defaultCondition.template.trim().length > 0) {
-    const text = replacePlaceholders(defaultCondition.template, {
-      PN: patientName,
-      PQP: patientPosition,
-      CQP: currentQueuePosition,
-      ETR: etrDisplay,
-      DN: config.queueName,
-      CN: config.queueName,
-    });
+    const text = renderTemplate(defaultCondition.template, placeholderValues, placeholderDefaults);
     
     console.log('[resolvePatientMessage] ✅ DEFAULT condition matched:', {
       conditionId: defaultCondition.id,
@@ -233,13 +179,7 @@ export function resolvePatientMessage(
   for (const cond of sortedUnconditioned) {
     // CRITICAL: Check for template content (not just truthy - empty string is falsy)
     if (cond.template && cond.template.trim().length > 0) {
-      const text = replacePlaceholders(cond.template, {
-        PN: patientName,
-        PQP: patientPosition,
-        CQP: currentQueuePosition,
-        ETR: etrDisplay,
-        DN: config.queueName,
-      });
+      const text = renderTemplate(cond.template, placeholderValues, placeholderDefaults);
 
       console.log('[resolvePatientMessage] ✅ UNCONDITIONED matched (fallback):', {
         conditionId: cond.id,
@@ -272,13 +212,7 @@ export function resolvePatientMessage(
 
   // FOURTH: Fallback to config.defaultTemplate if no DEFAULT condition found
   if (config.defaultTemplate) {
-    const text = replacePlaceholders(config.defaultTemplate, {
-      PN: patientName,
-      PQP: patientPosition,
-      CQP: currentQueuePosition,
-      ETR: etrDisplay,
-      DN: config.queueName,
-    });
+    const text = renderTemplate(config.defaultTemplate, placeholderValues, placeholderDefaults);
     return {
       patientId,
       patientName,
@@ -304,12 +238,16 @@ export function resolvePatientMessage(
  */
 export function resolvePatientMessages(
   config: QueueMessageConfig,
-  patients: Array<{ id: string; name?: string; position: number }>,
+  patients: Array<{ id: string; name?: string; position: number; statusLink?: string } & PatientConditionAttributes>,
   currentQueuePosition: number,
   options: ResolveOptions = {}
 ): MessageResolution[] {
   return patients.map((p) =>
-    resolvePatientMessage(config, p.id, p.name, p.position, currentQueuePosition, options)
+    resolvePatientMessage(config, p.id, p.name, p.position, currentQueuePosition, {
+      ...options,
+      attributes: { patientStatus: p.patientStatus, countryCode: p.countryCode, alreadyMessaged: p.alreadyMessaged },
+      statusLink: p.statusLink,
+    })
   );
 }
 
@@ -25,6 +25,7 @@ export interface Patient {
   isValidWhatsAppNumber?: boolean | null; // null = not checked, true = valid, false = invalid
   position?: number;
   status?: string;             // 'pending' | 'active' | 'completed' | 'failed'
+  statusToken?: string;        // Personal token of the public queue status page ({LINK})
   failedReason?: string;       // ErrorMessage from Message entity
   // Consolidated failure tracking (replacing retryCount and failedAttempts)
   failureMetrics?: {
@@ -49,6 +50,9 @@ export interface Queue {
   isActive?: boolean;
   currentPosition?: number;    // Current position pointer (CQP)
   estimatedWaitMinutes?: number; // Estimated time per session (ETS)
+  autoNotifyEnabled?: boolean;   // Send condition messages automatically when CQP advances
+  autoNotifyDedupMinutes?: number; // Minimum minutes between auto messages to the same patient
+  customVariables?: Record<string, string>; // Per-queue template placeholders, e.g. { ROOM: '12' }
   // Soft-delete fields (30-day trash window)
   isDeleted?: boolean;
   deletedAt?: string;
@@ -72,11 +76,17 @@ export interface FailedTask {
   attemptTime: string;
 }
 
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
 export interface Toast {
   id: string;
   message: string;
   type: 'success' | 'error' | 'info' | 'warning';
   debugData?: Record<string, any>; // Optional raw error/debug info for development
+  action?: ToastAction; // Optional button, e.g. undo
 }
 
 export interface AuthState {
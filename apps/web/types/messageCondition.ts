@@ -1,5 +1,25 @@
 export type ConditionOperator = 'UNCONDITIONED' | 'DEFAULT' | 'EQUAL' | 'GREATER' | 'LESS' | 'RANGE';
 
+// How the extra criteria of a condition are combined (the offset rule is always AND-ed)
+export type CriteriaLogic = 'AND' | 'OR';
+
+// Raw patient status values (QueuePatientDto.status)
+export type ConditionPatientStatus = 'waiting' | 'in_service' | 'completed' | 'cancelled';
+
+export interface ConditionTimeWindow {
+  start: string; // 'HH:mm' inclusive
+  end: string;   // 'HH:mm' exclusive; end < start wraps past midnight (e.g. 20:00 - 02:00)
+}
+
+// Optional criteria beyond the queue offset - only meaningful for EQUAL/GREATER/LESS/RANGE
+export interface ConditionCriteria {
+  timeWindow?: ConditionTimeWindow;
+  daysOfWeek?: number[];                      // 0 = Sunday ... 6 = Saturday
+  patientStatuses?: ConditionPatientStatus[];
+  countryCodes?: string[];                    // e.g. ['+20', '+966']
+  alreadyMessaged?: boolean;                  // true = messaged before, false = never messaged
+}
+
 export interface MessageCondition {
   id: string;                          // GUID (UUID format)
   queueId?: string;                    // GUID: queue this condition belongs to
@@ -19,6 +39,10 @@ export interface MessageCondition {
   minValue?: number;
   maxValue?: number;
 
+  // extra criteria (time window, day, patient status, country, already messaged)
+  criteria?: ConditionCriteria;
+  criteriaLogic?: CriteriaLogic;       // default 'AND'
+
   // message template (use placeholders: {PN}, {PQP}, {ETR}, {DN}, {CN})
   template: string;
   
@@ -37,6 +61,7 @@ export interface QueueMessageConfig {
   queueName?: string;
   defaultTemplate?: string; // fallback template
   conditions: MessageCondition[];
+  customVariables?: Record<string, string>; // per-queue custom placeholders, e.g. { ROOM: '12' }
 }
 
 export type MessageResolutionReason = 'CONDITION' | 'DEFAULT' | 'EXCLUDED' | 'NO_MATCH';
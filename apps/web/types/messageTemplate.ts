@@ -20,6 +20,9 @@ export interface MessageTemplate {
   updatedAt?: Date;
   createdBy: string;           // GUID: user ID who created it
   updatedBy?: string;          // GUID: user ID who last updated it
+  versionNumber?: number;      // current version (see MessageTemplateVersion)
+  libraryTemplateId?: string;  // linked library template (see LibraryTemplate)
+  isLibraryOverride?: boolean; // linked, but edited for this queue only
 
   // Usage stats
   usageCount?: number;         // how many times sent
@@ -45,15 +48,53 @@ export interface TemplateWithConditions extends MessageTemplate {
   conditionCount?: number;       // how many conditions use this template
 }
 
+// Condition fields captured in a template version
+export type TemplateVersionCondition = Pick<
+  MessageCondition,
+  'operator' | 'value' | 'minValue' | 'maxValue' | 'criteria' | 'criteriaLogic'
+>;
+
+// Snapshot saved on every template edit (history drawer, restore, sent message provenance)
+export interface MessageTemplateVersion {
+  id: string;
+  templateId: string;
+  versionNumber: number;
+  title: string;
+  content: string;
+  condition?: TemplateVersionCondition;
+  createdAt: Date;
+  updatedBy?: string;          // user ID of the author
+  updatedByName?: string;
+  isCurrent: boolean;
+}
+
+// Template shared across queues: moderator-level or system-level library
+export interface LibraryTemplate {
+  id: string;
+  title: string;
+  content: string;
+  category?: string;
+  scope: 'moderator' | 'system';
+  moderatorId?: string;
+  linkedQueueCount: number;
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
 // Available placeholders
 export const TEMPLATE_PLACEHOLDERS = {
-  PN: { label: 'Patient Name', example: 'أحمد محمد' },
-  PQP: { label: 'Patient Queue Position', example: '5' },
-  CQP: { label: 'Current Queue Position', example: '3' },
-  ETR: { label: 'Estimated Time Remaining', example: '30 دقيقة' },
-  DN: { label: 'Doctor Name', example: 'د. علي أحمد' },
-  CN: { label: 'Clinic Name', example: 'عيادة الأسنان' },
-  QN: { label: 'Queue Name', example: 'العيادة الخارجية' },
+  PN: { label: 'Patient Name', labelAr: 'اسم المريض', example: 'أحمد محمد' },
+  PQP: { label: 'Patient Queue Position', labelAr: 'ترتيب المريض', example: '5' },
+  CQP: { label: 'Current Queue Position', labelAr: 'الموضع الحالي في العيادة', example: '3' },
+  ETR: { label: 'Estimated Time Remaining', labelAr: 'الوقت المتبقي المقدر', example: '30 دقيقة' },
+  DN: { label: 'Doctor Name', labelAr: 'اسم الطبيب', example: 'د. علي أحمد' },
+  CN: { label: 'Clinic Name', labelAr: 'اسم العيادة', example: 'عيادة الأسنان' },
+  QN: { label: 'Queue Name', labelAr: 'اسم الطابور', example: 'العيادة الخارجية' },
+  OFFSET: { label: 'Offset from Current Position', labelAr: 'الفرق عن الموضع الحالي', example: '2' },
+  DATE: { label: 'Current Date', labelAr: 'تاريخ اليوم', example: '18/10/2026' },
+  TIME: { label: 'Current Time', labelAr: 'الوقت الحالي', example: '09:30' },
+  APPT_TIME: { label: 'Expected Appointment Time', labelAr: 'موعد الدخول المتوقع', example: '10:00' },
+  LINK: { label: 'Queue Status Link', labelAr: 'رابط متابعة الدور', example: 'https://clinic.example.com/status/a1b2c3' },
 } as const;
 
 export type PlaceholderKey = keyof typeof TEMPLATE_PLACEHOLDERS;
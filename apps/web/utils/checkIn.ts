@@ -0,0 +1,54 @@
+/**
+ * Patient Self Check-In
+ * Validation of the public check-in form (same name and phone rules as AddPatientModal), the request it sends,
+ * and the client-side cooldown between submissions. The backend enforces its own rate limit as well.
+ */
+
+import { validateName } from './validation';
+import { normalizePhone, validatePhoneByCountry } from './phoneUtils';
+import type { SubmitCheckInRequest } from '../services/api/checkInApiClient';
+
+export const CHECK_IN_LAST_SUBMIT_KEY = 'checkInLastSubmittedAt';
+
+export const CHECK_IN_COOLDOWN_SECONDS = 60;
+
+export interface CheckInForm {
+  name: string;
+  phone: string;
+  countryCode: string;
+}
+
+export function getCheckInUrl(origin: string, token: string): string {
+  return `${origin.replace(/\/+$/, '')}/check-in/${encodeURIComponent(token)}`;
+}
+
+export function validateCheckInForm(form: CheckInForm): { name?: string; phone?: string } {
+  const errors: { name?: string; phone?: string } = {};
+  const nameError = validateName(form.name, 'الاسم');
+  if (nameError) errors.name = nameError;
+  // Patients enter the number they will be messaged on, so landlines are rejected here
+  const phoneError = validatePhoneByCountry(form.phone.trim(), form.countryCode, { mobileOnly: true });
+  if (phoneError) errors.phone = phoneError;
+  return errors;
+}
+
+/**
+ * Request for a validated form: national number and its country code (a pasted +966... number wins)
+ */
+export function buildCheckInRequest(form: CheckInForm): SubmitCheckInRequest {
+  const normalized = normalizePhone(form.phone.trim(), form.countryCode).phone;
+  return {
+    fullName: form.name.trim(),
+    phoneNumber: normalized?.nationalNumber ?? form.phone.trim(),
+    countryCode: normalized?.countryCode ?? form.countryCode,
+  };
+}
+
+/**
+ * Seconds left before this device may submit again (0 when allowed)
+ */
+export function getCheckInCooldownRemaining(lastSubmittedAt: number | null, now: number = Date.now()): number {
+  if (!lastSubmittedAt) return 0;
+  const remaining = CHECK_IN_COOLDOWN_SECONDS - Math.floor((now - lastSubmittedAt) / 1000);
+  return remaining > 0 ? remaining : 0;
+}
@@ -0,0 +1,236 @@
+/**
+ * Condition Coverage
+ * Per-offset coverage map of a queue's conditions (used by the ruler in ManageConditionsModal)
+ * and planners that turn ruler actions into UpdateConditionRequests:
+ * - resize a condition's range (drag on the ruler)
+ * - split two overlapping conditions into disjoint ranges
+ * - fill gaps with the DEFAULT template
+ *
+ * Offsets not covered by any active condition fall back to the DEFAULT template at send time,
+ * so "filling gaps" means making sure the queue has a DEFAULT template.
+ */
+
+import type { MessageCondition } from '../types/messageCondition';
+import type { UpdateConditionRequest } from '../services/api/messageApiClient';
+import {
+  conditionToRange,
+  conditionsOverlap,
+  isActiveCondition,
+  matchesOffset,
+  rangesIntersect,
+  type OffsetRange,
+} from './conditionRules';
+import { groupConditionsByCriteriaContext } from './conditionCriteria';
+
+export type { OffsetRange };
+
+/** Offsets shown on the ruler (1..COVERAGE_RULER_MAX) */
+export const COVERAGE_RULER_MAX = 50;
+
+/** Ranges ending at or beyond this offset are open-ended (GREATER); conditionToRange uses Infinity */
+export const OPEN_ENDED_MAX = 999;
+
+/**
+ * covered: at least one condition matches in every context
+ * partial: only conditions with criteria match (e.g. morning only) - other contexts fall back to DEFAULT
+ * overlap: two conditions can match the same patient
+ * gap:     no active condition - falls back to DEFAULT
+ */
+export type CoverageState = 'covered' | 'partial' | 'overlap' | 'gap';
+
+export interface CoverageCell {
+  offset: number;
+  conditionIds: string[];
+  state: CoverageState;
+}
+
+export interface ConditionUpdate {
+  conditionId: string;
+  request: UpdateConditionRequest;
+  range?: OffsetRange; // resulting offsets, for display
+}
+
+/**
+ * Waiting offsets (>= 1) matched by a condition, as shown on the ruler.
+ * LESS also matches offset 0 (the patient being served), which the ruler doesn't show.
+ */
+export function getRulerRange(condition: MessageCondition): OffsetRange | null {
+  const range = conditionToRange(condition);
+  if (!range || range.max < 1) return null;
+  return { min: Math.max(range.min, 1), max: range.max };
+}
+
+/**
+ * Active (enabled, ranged) conditions that take part in coverage
+ */
+export function getRangedConditions(conditions: MessageCondition[]): MessageCondition[] {
+  return conditions.filter((c) => isActiveCondition(c) && getRulerRange(c) !== null);
+}
+
+/**
+ * Build the coverage state of each offset 1..maxOffset
+ */
+export function buildCoverageMap(
+  conditions: MessageCondition[],
+  maxOffset: number = COVERAGE_RULER_MAX
+): CoverageCell[] {
+  const ranged = getRangedConditions(conditions);
+  const contextGroups = groupConditionsByCriteriaContext(ranged);
+
+  const cells: CoverageCell[] = [];
+  for (let offset = 1; offset <= maxOffset; offset++) {
+    const covering = ranged.filter((c) => matchesOffset(c, offset));
+
+    let state: CoverageState;
+    if (covering.length === 0) {
+      state = 'gap';
+    } else if (covering.some((c1, i) => covering.slice(i + 1).some((c2) => conditionsOverlap(c1, c2)))) {
+      state = 'overlap';
+    } else if (contextGroups.some((group) => !group.some((c) => covering.includes(c)))) {
+      state = 'partial';
+    } else {
+      state = 'covered';
+    }
+
+    cells.push({ offset, conditionIds: covering.map((c) => c.id), state });
+  }
+  return cells;
+}
+
+/**
+ * Contiguous runs of gap cells
+ */
+export function getGapSegments(cells: CoverageCell[]): OffsetRange[] {
+  const segments: OffsetRange[] = [];
+  cells.forEach((cell) => {
+    if (cell.state !== 'gap') return;
+    const last = segments[segments.length - 1];
+    if (last && last.max === cell.offset - 1) {
+      last.max = cell.offset;
+    } else {
+      segments.push({ min: cell.offset, max: cell.offset });
+    }
+  });
+  return segments;
+}
+
+/**
+ * Convert an offset range to the simplest valid condition update.
+ * Returns null for ranges the backend would reject (values must be ≥ 1).
+ */
+export function rangeToUpdateRequest(range: OffsetRange): UpdateConditionRequest | null {
+  if (range.min < 1 || range.max < range.min) return null;
+
+  if (range.max >= OPEN_ENDED_MAX && range.min > 1) {
+    return { operator: 'GREATER', value: range.min - 1, minValue: null, maxValue: null };
+  }
+  if (range.min === range.max) {
+    return { operator: 'EQUAL', value: range.min, minValue: null, maxValue: null };
+  }
+  return { operator: 'RANGE', value: null, minValue: range.min, maxValue: Math.min(range.max, OPEN_ENDED_MAX) };
+}
+
+/**
+ * Plan a resize of one condition to a new offset range (no-op when unchanged or invalid).
+ * A LESS condition keeps offset 0 while its range still starts at the first waiting offset.
+ */
+export function planResize(condition: MessageCondition, range: OffsetRange): ConditionUpdate | null {
+  const current = conditionToRange(condition);
+  const target = current?.min === 0 && range.min <= 1 ? { ...range, min: 0 } : range;
+  if (current && current.min === target.min && current.max === target.max) return null;
+
+  const request: UpdateConditionRequest | null =
+    target.min === 0 && Number.isFinite(target.max)
+      ? { operator: 'LESS', value: target.max + 1, minValue: null, maxValue: null }
+      : rangeToUpdateRequest(target);
+  return request ? { conditionId: condition.id, request, range: target } : null;
+}
+
+/**
+ * Plan updates that make two overlapping conditions disjoint:
+ * - partial overlap: the shared offsets are split in the middle
+ * - one range inside the other: the wider one is trimmed to the offsets before the narrower,
+ *   more specific one (offsets after it become a gap and fall back to DEFAULT)
+ * - identical ranges: split in half
+ * Returns an empty list when the conditions don't overlap or can't be split (single identical offset).
+ */
+export function planSplitOverlap(condA: MessageCondition, condB: MessageCondition): ConditionUpdate[] {
+  const rangeA = conditionToRange(condA);
+  const rangeB = conditionToRange(condB);
+  if (!rangeA || !rangeB || !rangesIntersect(rangeA, rangeB)) return [];
+
+  // "left" starts first (ties: the shorter one first)
+  const aFirst = rangeA.min < rangeB.min || (rangeA.min === rangeB.min && rangeA.max <= rangeB.max);
+  const [left, right] = aFirst ? [condA, condB] : [condB, condA];
+  const l = aFirst ? rangeA : rangeB;
+  const r = aFirst ? rangeB : rangeA;
+
+  let newLeft: OffsetRange = l;
+  let newRight: OffsetRange = r;
+
+  if (l.min === r.min && l.max === r.max) {
+    if (l.min === l.max) return [];
+    // open-ended ranges are split within the visible ruler
+    const end = l.max >= OPEN_ENDED_MAX ? Math.max(l.min + 1, COVERAGE_RULER_MAX) : l.max;
+    const mid = Math.floor((l.min + end) / 2);
+    newLeft = { min: l.min, max: mid };
+    newRight = { min: mid + 1, max: r.max };
+  } else if (l.min === r.min) {
+    // left is inside right (same start, shorter) - right starts after it
+    newRight = { min: l.max + 1, max: r.max };
+  } else if (r.max <= l.max) {
+    // right is inside left - left keeps the offsets before it
+    newLeft = { min: l.min, max: r.min - 1 };
+  } else {
+    // partial overlap: shared offsets r.min..l.max are split in the middle
+    const mid = Math.floor((r.min + l.max) / 2);
+    newLeft = { min: l.min, max: mid };
+    newRight = { min: mid + 1, max: r.max };
+  }
+
+  const updates: ConditionUpdate[] = [];
+  const leftUpdate = planResize(left, newLeft);
+  const rightUpdate = planResize(right, newRight);
+  if (leftUpdate) updates.push(leftUpdate);
+  if (rightUpdate) updates.push(rightUpdate);
+  return updates;
+}
+
+/**
+ * Plan "fill gaps with the DEFAULT template".
+ * Gaps already fall back to the DEFAULT template, so nothing is needed when the queue has one;
+ * otherwise the given UNCONDITIONED condition's template becomes the DEFAULT.
+ */
+export function planFillGapsWithDefault(
+  conditions: MessageCondition[],
+  candidateConditionId?: string
+): ConditionUpdate[] {
+  if (conditions.some((c) => c.operator === 'DEFAULT' && !c.isDeleted)) return [];
+
+  const candidate = conditions.find((c) => c.id === candidateConditionId);
+  if (!candidate || candidate.operator !== 'UNCONDITIONED') return [];
+
+  return [
+    {
+      conditionId: candidate.id,
+      request: {
+        operator: 'DEFAULT',
+        value: null,
+        minValue: null,
+        maxValue: null,
+        criteria: null,
+        criteriaLogic: null,
+      },
+    },
+  ];
+}
+
+/**
+ * Display text of an offset range ("3", "3 - 7", "≥ 10", "< 4")
+ */
+export function formatOffsetRange(range: OffsetRange): string {
+  if (range.max >= OPEN_ENDED_MAX) return `≥ ${range.min}`;
+  if (range.min === 0) return `< ${range.max + 1}`;
+  if (range.min === range.max) return String(range.min);
+  return `${range.min} - ${range.max}`;
+}
@@ -0,0 +1,300 @@
+/**
+ * Condition Criteria
+ * Extra matching dimensions for message conditions beyond the queue offset:
+ * time window, day of week, patient status, country code and "already messaged".
+ *
+ * Semantics:
+ * - The offset rule (operator/value) is always required; criteria only narrow it down.
+ * - Criteria are combined with criteriaLogic ('AND' by default, or 'OR').
+ * - A dimension whose patient attribute is unknown (e.g. no status) does not match.
+ * - DEFAULT / UNCONDITIONED are sentinels and ignore criteria.
+ *
+ * Overlap and gap detection work on sample points: every dimension has a small finite
+ * domain once cut at the boundaries used by the conditions, so checking one point per
+ * segment is exact.
+ */
+
+import type {
+  MessageCondition,
+  ConditionCriteria,
+  ConditionTimeWindow,
+  ConditionPatientStatus,
+  CriteriaLogic,
+} from '../types/messageCondition';
+
+/** Patient attributes a condition can match on (besides the offset) */
+export interface ConditionMatchContext {
+  now?: Date;                 // defaults to current time
+  patientStatus?: string;     // raw ('waiting') or display ('قيد الانتظار') status
+  countryCode?: string;
+  alreadyMessaged?: boolean;
+}
+
+/** Normalized point in the criteria space */
+interface CriteriaPoint {
+  minutes: number;            // minutes since midnight
+  day: number;                // 0 = Sunday
+  status?: ConditionPatientStatus;
+  countryCode?: string;
+  alreadyMessaged?: boolean;
+}
+
+export const PATIENT_STATUS_OPTIONS: Array<{ value: ConditionPatientStatus; labelAr: string }> = [
+  { value: 'waiting', labelAr: 'قيد الانتظار' },
+  { value: 'in_service', labelAr: 'جاري' },
+  { value: 'completed', labelAr: 'تم' },
+  { value: 'cancelled', labelAr: 'ملغى' },
+];
+
+export const DAY_OF_WEEK_OPTIONS: Array<{ value: number; labelAr: string }> = [
+  { value: 6, labelAr: 'السبت' },
+  { value: 0, labelAr: 'الأحد' },
+  { value: 1, labelAr: 'الاثنين' },
+  { value: 2, labelAr: 'الثلاثاء' },
+  { value: 3, labelAr: 'الأربعاء' },
+  { value: 4, labelAr: 'الخميس' },
+  { value: 5, labelAr: 'الجمعة' },
+];
+
+const TIME_OF_DAY_REGEX = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const COUNTRY_CODE_REGEX = /^\+\d{1,4}$/;
+
+/**
+ * Parse 'HH:mm' into minutes since midnight, or null when invalid
+ */
+export function parseTimeOfDay(value: string | undefined): number | null {
+  const match = TIME_OF_DAY_REGEX.exec((value || '').trim());
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Normalize a country code to '+<digits>' ('0020' → '+20', '20' → '+20')
+ */
+export function normalizeCountryCode(code: string | undefined): string | undefined {
+  if (!code) return undefined;
+  let digits = code.replace(/[\s-]/g, '');
+  if (digits.startsWith('+')) digits = digits.slice(1);
+  else if (digits.startsWith('00')) digits = digits.slice(2);
+  return /^\d+$/.test(digits) ? `+${digits}` : undefined;
+}
+
+/**
+ * Map raw or display (Arabic) patient status to the raw value
+ */
+export function normalizePatientStatus(status: string | undefined): ConditionPatientStatus | undefined {
+  if (!status) return undefined;
+  const option = PATIENT_STATUS_OPTIONS.find((o) => o.value === status || o.labelAr === status);
+  return option?.value;
+}
+
+/**
+ * Whether a condition carries any extra criteria
+ */
+export function hasCriteria(cond: Pick<MessageCondition, 'criteria'>): boolean {
+  const c = cond.criteria;
+  if (!c) return false;
+  return (
+    !!c.timeWindow ||
+    (c.daysOfWeek?.length ?? 0) > 0 ||
+    (c.patientStatuses?.length ?? 0) > 0 ||
+    (c.countryCodes?.length ?? 0) > 0 ||
+    typeof c.alreadyMessaged === 'boolean'
+  );
+}
+
+/**
+ * Whether minutes-of-day fall inside a time window (start inclusive, end exclusive, may wrap midnight)
+ */
+export function isWithinTimeWindow(minutes: number, window: ConditionTimeWindow): boolean {
+  const start = parseTimeOfDay(window.start);
+  const end = parseTimeOfDay(window.end);
+  if (start === null || end === null || start === end) return false;
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+function evaluateAt(criteria: ConditionCriteria, logic: CriteriaLogic | undefined, point: CriteriaPoint): boolean {
+  const results: boolean[] = [];
+
+  if (criteria.timeWindow) {
+    results.push(isWithinTimeWindow(point.minutes, criteria.timeWindow));
+  }
+  if (criteria.daysOfWeek && criteria.daysOfWeek.length > 0) {
+    results.push(criteria.daysOfWeek.includes(point.day));
+  }
+  if (criteria.patientStatuses && criteria.patientStatuses.length > 0) {
+    results.push(!!point.status && criteria.patientStatuses.includes(point.status));
+  }
+  if (criteria.countryCodes && criteria.countryCodes.length > 0) {
+    results.push(
+      !!point.countryCode && criteria.countryCodes.some((c) => normalizeCountryCode(c) === point.countryCode)
+    );
+  }
+  if (typeof criteria.alreadyMessaged === 'boolean') {
+    results.push(point.alreadyMessaged !== undefined && point.alreadyMessaged === criteria.alreadyMessaged);
+  }
+
+  if (results.length === 0) return true;
+  return logic === 'OR' ? results.some(Boolean) : results.every(Boolean);
+}
+
+/**
+ * Evaluate a condition's extra criteria for one patient.
+ * Conditions without criteria always match (only the offset decides).
+ */
+export function matchesCriteria(
+  cond: Pick<MessageCondition, 'criteria' | 'criteriaLogic'>,
+  context: ConditionMatchContext = {}
+): boolean {
+  if (!cond.criteria || !hasCriteria(cond)) return true;
+  const now = context.now ?? new Date();
+  return evaluateAt(cond.criteria, cond.criteriaLogic, {
+    minutes: now.getHours() * 60 + now.getMinutes(),
+    day: now.getDay(),
+    status: normalizePatientStatus(context.patientStatus),
+    countryCode: normalizeCountryCode(context.countryCode),
+    alreadyMessaged: context.alreadyMessaged,
+  });
+}
+
+/**
+ * Build one sample point per segment of the criteria space used by the given conditions.
+ * Dimensions no condition uses collapse to a single value.
+ */
+function buildCriteriaSamples(conditions: Array<Pick<MessageCondition, 'criteria'>>): CriteriaPoint[] {
+  const criteriaList = conditions
+    .filter(hasCriteria)
+    .map((c) => c.criteria as ConditionCriteria);
+
+  const minuteSet = new Set<number>([0]);
+  criteriaList.forEach((c) => {
+    if (!c.timeWindow) return;
+    const start = parseTimeOfDay(c.timeWindow.start);
+    const end = parseTimeOfDay(c.timeWindow.end);
+    if (start !== null) minuteSet.add(start);
+    if (end !== null) minuteSet.add(end);
+  });
+  const minutes = Array.from(minuteSet);
+
+  const days = criteriaList.some((c) => (c.daysOfWeek?.length ?? 0) > 0) ? [0, 1, 2, 3, 4, 5, 6] : [0];
+
+  const statuses: Array<ConditionPatientStatus | undefined> = criteriaList.some(
+    (c) => (c.patientStatuses?.length ?? 0) > 0
+  )
+    ? PATIENT_STATUS_OPTIONS.map((o) => o.value)
+    : [undefined];
+
+  const codeSet = new Set<string>();
+  criteriaList.forEach((c) =>
+    c.countryCodes?.forEach((code) => {
+      const normalized = normalizeCountryCode(code);
+      if (normalized) codeSet.add(normalized);
+    })
+  );
+  // undefined stands for "any other country"
+  const countryCodes: Array<string | undefined> = [...Array.from(codeSet), undefined];
+
+  const messaged: Array<boolean | undefined> = criteriaList.some((c) => typeof c.alreadyMessaged === 'boolean')
+    ? [false, true]
+    : [undefined];
+
+  const samples: CriteriaPoint[] = [];
+  for (const m of minutes)
+    for (const day of days)
+      for (const status of statuses)
+        for (const countryCode of countryCodes)
+          for (const alreadyMessaged of messaged)
+            samples.push({ minutes: m, day, status, countryCode, alreadyMessaged });
+  return samples;
+}
+
+/**
+ * Whether two conditions' criteria can match the same patient at the same time.
+ * Offsets are not considered here - callers AND this with their offset range overlap.
+ */
+export function criteriaCanOverlap(
+  cond1: Pick<MessageCondition, 'criteria' | 'criteriaLogic'>,
+  cond2: Pick<MessageCondition, 'criteria' | 'criteriaLogic'>
+): boolean {
+  if (!hasCriteria(cond1) && !hasCriteria(cond2)) return true;
+  return buildCriteriaSamples([cond1, cond2]).some(
+    (point) =>
+      evaluateAt(cond1.criteria || {}, cond1.criteriaLogic, point) &&
+      evaluateAt(cond2.criteria || {}, cond2.criteriaLogic, point)
+  );
+}
+
+/**
+ * Split conditions into the groups that are simultaneously active in each distinct
+ * criteria context. Without criteria there is a single group containing every condition.
+ * Used by gap detection: a gap in any group is a gap for some patients/times.
+ */
+export function groupConditionsByCriteriaContext<T extends Pick<MessageCondition, 'criteria' | 'criteriaLogic'>>(
+  conditions: T[]
+): T[][] {
+  const groups = new Map<string, T[]>();
+  buildCriteriaSamples(conditions).forEach((point) => {
+    const active = conditions.filter((c) => !hasCriteria(c) || evaluateAt(c.criteria || {}, c.criteriaLogic, point));
+    const key = active.map((c) => conditions.indexOf(c)).join(',');
+    if (!groups.has(key)) groups.set(key, active);
+  });
+  return Array.from(groups.values());
+}
+
+/**
+ * Validate criteria values; returns Arabic error messages (empty when valid)
+ */
+export function validateCriteria(criteria: ConditionCriteria | undefined): string[] {
+  const errors: string[] = [];
+  if (!criteria) return errors;
+
+  if (criteria.timeWindow) {
+    const start = parseTimeOfDay(criteria.timeWindow.start);
+    const end = parseTimeOfDay(criteria.timeWindow.end);
+    if (start === null || end === null) {
+      errors.push('الفترة الزمنية يجب أن تكون بصيغة HH:mm');
+    } else if (start === end) {
+      errors.push('بداية الفترة الزمنية ونهايتها متساويتان');
+    }
+  }
+  if (criteria.daysOfWeek?.some((d) => !Number.isInteger(d) || d < 0 || d > 6)) {
+    errors.push('أيام الأسبوع غير صالحة');
+  }
+  criteria.countryCodes?.forEach((code) => {
+    const normalized = normalizeCountryCode(code);
+    if (!normalized || !COUNTRY_CODE_REGEX.test(normalized)) {
+      errors.push(`رمز الدولة غير صالح: ${code}`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Human-readable (Arabic) description of a condition's criteria, or '' when it has none
+ */
+export function describeCriteria(cond: Pick<MessageCondition, 'criteria' | 'criteriaLogic'>): string {
+  if (!cond.criteria || !hasCriteria(cond)) return '';
+  const c = cond.criteria;
+  const parts: string[] = [];
+
+  if (c.timeWindow) {
+    parts.push(`الوقت ${c.timeWindow.start} - ${c.timeWindow.end}`);
+  }
+  if (c.daysOfWeek && c.daysOfWeek.length > 0) {
+    const days = DAY_OF_WEEK_OPTIONS.filter((d) => c.daysOfWeek!.includes(d.value)).map((d) => d.labelAr);
+    parts.push(`الأيام: ${days.join('، ')}`);
+  }
+  if (c.patientStatuses && c.patientStatuses.length > 0) {
+    const statuses = PATIENT_STATUS_OPTIONS.filter((s) => c.patientStatuses!.includes(s.value)).map((s) => s.labelAr);
+    parts.push(`الحالة: ${statuses.join('، ')}`);
+  }
+  if (c.countryCodes && c.countryCodes.length > 0) {
+    parts.push(`الدولة: ${c.countryCodes.join('، ')}`);
+  }
+  if (typeof c.alreadyMessaged === 'boolean') {
+    parts.push(c.alreadyMessaged ? 'تمت مراسلته سابقاً' : 'لم تتم مراسلته');
+  }
+
+  return parts.join(cond.criteriaLogic === 'OR' ? ' أو ' : ' و ');
+}
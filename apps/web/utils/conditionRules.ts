@@ -0,0 +1,251 @@
+/**
+ * Condition Rules
+ * Single source of truth for how message conditions are evaluated:
+ * matching, overlap, gap and conflict detection all derive from conditionToRange
+ * and matchesCriteria, so "two conditions overlap" means exactly "some patient can
+ * match both" and "an offset is a gap" means "some patient at that offset matches none".
+ *
+ * Semantics (offset = patient position - current queue position):
+ * - EQUAL v   -> offset == v
+ * - GREATER v -> offset > v   (open-ended)
+ * - LESS v    -> offset < v   (includes offset 0, the patient being served)
+ * - RANGE     -> minValue <= offset <= maxValue
+ * - Values must be whole numbers >= 1 (and minValue <= maxValue); anything else matches nothing.
+ * - DEFAULT / UNCONDITIONED have no range: they are fallbacks and never match or overlap.
+ * - Disabled and deleted conditions never match or overlap.
+ * - Extra criteria (time window, day, status...) narrow the offset rule - see conditionCriteria.
+ *
+ * Used by ManageConditionsModal, QueueDashboard, MessagesPanel, ModeratorMessagesOverview
+ * (via moderatorAggregation), the coverage ruler and the message resolver (preview and send).
+ */
+
+import type { ConditionOperator, MessageCondition } from '../types/messageCondition';
+import {
+  criteriaCanOverlap,
+  groupConditionsByCriteriaContext,
+  matchesCriteria,
+  type ConditionMatchContext,
+} from './conditionCriteria';
+
+/**
+ * Minimal shape the rules need. Accepts full MessageConditions as well as
+ * form state and legacy lowercase operators ('equals', 'greater', 'less', 'range').
+ */
+export interface RuleCondition extends Pick<MessageCondition, 'criteria' | 'criteriaLogic' | 'enabled' | 'isDeleted'> {
+  id?: string;
+  name?: string;
+  operator?: ConditionOperator | string;
+  value?: number | string | null;
+  minValue?: number | string | null;
+  maxValue?: number | string | null;
+}
+
+/** Inclusive offset range; max is Infinity for GREATER */
+export interface OffsetRange {
+  min: number;
+  max: number;
+}
+
+export interface ConditionOverlap<T> {
+  cond1: T;
+  cond2: T;
+}
+
+const LEGACY_OPERATORS: Record<string, ConditionOperator> = {
+  equals: 'EQUAL',
+  greater: 'GREATER',
+  less: 'LESS',
+  range: 'RANGE',
+};
+
+const OPERATORS: ConditionOperator[] = ['UNCONDITIONED', 'DEFAULT', 'EQUAL', 'GREATER', 'LESS', 'RANGE'];
+
+/**
+ * Normalize an operator to the standardized UPPERCASE form (null when unknown)
+ */
+export function normalizeOperator(operator: string | undefined | null): ConditionOperator | null {
+  if (!operator) return null;
+  const legacy = LEGACY_OPERATORS[operator.toLowerCase()];
+  if (legacy) return legacy;
+  const upper = operator.toUpperCase() as ConditionOperator;
+  return OPERATORS.includes(upper) ? upper : null;
+}
+
+function toOffsetValue(value: number | string | null | undefined): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const num = typeof value === 'number' ? value : Number(value);
+  return Number.isInteger(num) && num >= 1 ? num : null;
+}
+
+/**
+ * Offsets matched by a condition's operator/value, or null when it has no valid range
+ * (DEFAULT, UNCONDITIONED, missing or invalid values)
+ */
+export function conditionToRange(cond: RuleCondition): OffsetRange | null {
+  switch (normalizeOperator(cond.operator)) {
+    case 'EQUAL': {
+      const value = toOffsetValue(cond.value);
+      return value === null ? null : { min: value, max: value };
+    }
+    case 'GREATER': {
+      const value = toOffsetValue(cond.value);
+      return value === null ? null : { min: value + 1, max: Infinity };
+    }
+    case 'LESS': {
+      const value = toOffsetValue(cond.value);
+      return value === null ? null : { min: 0, max: value - 1 };
+    }
+    case 'RANGE': {
+      const min = toOffsetValue(cond.minValue);
+      const max = toOffsetValue(cond.maxValue);
+      if (min === null || max === null || min > max) return null;
+      return { min, max };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Whether the condition takes part in matching at all (not disabled or deleted)
+ */
+export function isActiveCondition(cond: RuleCondition): boolean {
+  return cond.enabled !== false && !cond.isDeleted;
+}
+
+/**
+ * Whether an offset falls in the condition's range (criteria not considered)
+ */
+export function matchesOffset(cond: RuleCondition, offset: number): boolean {
+  const range = conditionToRange(cond);
+  return range !== null && offset >= range.min && offset <= range.max;
+}
+
+/**
+ * Whether a patient at the given offset matches the condition
+ */
+export function matchesCondition(
+  cond: RuleCondition,
+  offset: number,
+  context: ConditionMatchContext = {}
+): boolean {
+  if (!isActiveCondition(cond) || !matchesOffset(cond, offset)) return false;
+  // Offset matched - extra criteria (time window, status, ...) narrow it further
+  return matchesCriteria(cond, context);
+}
+
+/**
+ * Whether two offset ranges share at least one offset
+ */
+export function rangesIntersect(range1: OffsetRange, range2: OffsetRange): boolean {
+  return range1.min <= range2.max && range2.min <= range1.max;
+}
+
+/**
+ * Whether some patient can match both conditions: their offset ranges intersect
+ * AND their criteria can hold at the same time (e.g. morning vs evening shift can't)
+ */
+export function conditionsOverlap(cond1: RuleCondition, cond2: RuleCondition): boolean {
+  if (!isActiveCondition(cond1) || !isActiveCondition(cond2)) return false;
+
+  const range1 = conditionToRange(cond1);
+  const range2 = conditionToRange(cond2);
+  if (!range1 || !range2 || !rangesIntersect(range1, range2)) return false;
+
+  return criteriaCanOverlap(cond1, cond2);
+}
+
+/**
+ * All overlapping condition pairs
+ */
+export function detectOverlaps<T extends RuleCondition>(conditions: T[]): Array<ConditionOverlap<T>> {
+  const overlaps: Array<ConditionOverlap<T>> = [];
+
+  for (let i = 0; i < conditions.length; i++) {
+    for (let j = i + 1; j < conditions.length; j++) {
+      if (conditionsOverlap(conditions[i], conditions[j])) {
+        overlaps.push({ cond1: conditions[i], cond2: conditions[j] });
+      }
+    }
+  }
+
+  return overlaps;
+}
+
+/**
+ * Overlapping pairs with a display description (shape used by ConflictWarning)
+ */
+export function detectOverlappingConditions<T extends RuleCondition & { id: string }>(
+  conditions: T[]
+): Array<{ id1: string; id2: string; description: string }> {
+  return detectOverlaps(conditions).map(({ cond1, cond2 }) => ({
+    id1: cond1.id,
+    id2: cond2.id,
+    description: `الشرط "${cond1.name || `شرط ${conditions.indexOf(cond1) + 1}`}" يتداخل مع "${
+      cond2.name || `شرط ${conditions.indexOf(cond2) + 1}`
+    }"`,
+  }));
+}
+
+/**
+ * More than one DEFAULT condition in a queue is a conflict
+ */
+export function hasDefaultConflict(conditions: RuleCondition[]): boolean {
+  return conditions.filter((c) => isActiveCondition(c) && normalizeOperator(c.operator) === 'DEFAULT').length > 1;
+}
+
+/**
+ * Number of conflicts in a queue's conditions (overlapping pairs + duplicate DEFAULT)
+ */
+export function countConflicts(conditions: RuleCondition[]): number {
+  return detectOverlaps(conditions).length + (hasDefaultConflict(conditions) ? 1 : 0);
+}
+
+/**
+ * Waiting offsets (>= 1) that no active condition matches in at least one criteria context
+ * (e.g. evening has no condition) - these fall back to DEFAULT at send time.
+ * The last segment is open-ended (max = Infinity) when nothing covers the tail.
+ */
+export function detectGaps(conditions: RuleCondition[]): OffsetRange[] {
+  const ranged = conditions.filter((c) => isActiveCondition(c) && conditionToRange(c) !== null);
+
+  const gapOffsets: OffsetRange[] = [];
+  groupConditionsByCriteriaContext(ranged).forEach((group) => {
+    gapOffsets.push(...findUncovered(group.map((c) => conditionToRange(c)!)));
+  });
+
+  return mergeRanges(gapOffsets);
+}
+
+/**
+ * Offsets >= 1 not covered by any of the ranges
+ */
+function findUncovered(ranges: OffsetRange[]): OffsetRange[] {
+  const uncovered: OffsetRange[] = [];
+  let next = 1; // first offset not known to be covered
+
+  [...ranges]
+    .sort((a, b) => a.min - b.min)
+    .forEach((range) => {
+      if (range.min > next) uncovered.push({ min: next, max: range.min - 1 });
+      next = Math.max(next, range.max + 1);
+    });
+
+  if (next !== Infinity) uncovered.push({ min: next, max: Infinity });
+  return uncovered;
+}
+
+function mergeRanges(ranges: OffsetRange[]): OffsetRange[] {
+  const merged: OffsetRange[] = [];
+  [...ranges]
+    .sort((a, b) => a.min - b.min)
+    .forEach((range) => {
+      const last = merged[merged.length - 1];
+      if (last && range.min <= last.max + 1) {
+        last.max = Math.max(last.max, range.max);
+      } else {
+        merged.push({ ...range });
+      }
+    });
+  return merged;
+}
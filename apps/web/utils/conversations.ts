@@ -0,0 +1,105 @@
+/**
+ * Patient Conversations
+ * Unread reply counts (per patient and per queue, for the Navigation badges), live MessageReceived handling
+ * and a hint for the replies staff act on: cancellations and late arrivals.
+ */
+
+import type {
+  ConversationMessageDto,
+  MessageReceivedEvent,
+  UnreadConversationsSummaryDto,
+} from '../services/api/conversationsApiClient';
+
+export type ReplyIntent = 'cancel' | 'late';
+
+export const REPLY_INTENT_LABELS: Record<ReplyIntent, string> = {
+  cancel: 'طلب إلغاء',
+  late: 'سيتأخر',
+};
+
+// Matched against the normalized reply (lower case, hamza/taa marbuta folded)
+const REPLY_INTENT_KEYWORDS: Record<ReplyIntent, string[]> = {
+  cancel: ['الغاء', 'الغي', 'مش هاجي', 'مش هقدر اجي', 'لن احضر', 'cancel'],
+  late: ['متاخر', 'هتاخر', 'ساتاخر', 'تاخير', 'في الطريق', 'late'],
+};
+
+function normalizeReply(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[أإآ]/g, 'ا')
+    .replace(/ة/g, 'ه')
+    .replace(/ى/g, 'ي')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Cancellation wins over lateness when a reply mentions both
+ */
+export function getReplyIntent(text: string | undefined): ReplyIntent | null {
+  if (!text) return null;
+  const normalized = normalizeReply(text);
+  if (REPLY_INTENT_KEYWORDS.cancel.some((k) => normalized.includes(k))) return 'cancel';
+  if (REPLY_INTENT_KEYWORDS.late.some((k) => normalized.includes(k))) return 'late';
+  return null;
+}
+
+export function formatUnreadBadge(count: number): string {
+  return count > 9 ? '9+' : String(count);
+}
+
+export function getUnreadByQueue(summary: UnreadConversationsSummaryDto | null): Record<string, number> {
+  const byQueue: Record<string, number> = {};
+  for (const c of summary?.conversations ?? []) {
+    byQueue[String(c.queueId)] = (byQueue[String(c.queueId)] ?? 0) + c.unreadCount;
+  }
+  return byQueue;
+}
+
+export function getUnreadByPatient(summary: UnreadConversationsSummaryDto | null): Record<string, number> {
+  const byPatient: Record<string, number> = {};
+  for (const c of summary?.conversations ?? []) {
+    byPatient[String(c.patientId)] = c.unreadCount;
+  }
+  return byPatient;
+}
+
+/**
+ * Count a MessageReceived event into the summary right away (the next refetch confirms it)
+ */
+export function applyMessageReceived(
+  summary: UnreadConversationsSummaryDto | null,
+  event: MessageReceivedEvent
+): UnreadConversationsSummaryDto {
+  const conversations = [...(summary?.conversations ?? [])];
+  const index = conversations.findIndex((c) => c.patientId === event.patientId);
+  if (index >= 0) {
+    conversations[index] = {
+      ...conversations[index],
+      unreadCount: conversations[index].unreadCount + 1,
+      lastMessageAt: event.receivedAt,
+    };
+  } else {
+    conversations.push({ patientId: event.patientId, queueId: event.queueId, unreadCount: 1, lastMessageAt: event.receivedAt });
+  }
+  return { total: (summary?.total ?? 0) + 1, conversations };
+}
+
+/**
+ * Clear a patient's unread count once their thread is opened
+ */
+export function clearPatientUnread(
+  summary: UnreadConversationsSummaryDto | null,
+  patientId: number
+): UnreadConversationsSummaryDto | null {
+  if (!summary) return summary;
+  const cleared = summary.conversations.find((c) => c.patientId === patientId)?.unreadCount ?? 0;
+  return {
+    total: Math.max(0, summary.total - cleared),
+    conversations: summary.conversations.filter((c) => c.patientId !== patientId),
+  };
+}
+
+export function sortConversationMessages(messages: ConversationMessageDto[]): ConversationMessageDto[] {
+  return [...messages].sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+}
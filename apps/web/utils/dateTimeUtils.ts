@@ -188,3 +188,80 @@ export function getUtcDateString(): string {
   const day = String(now.getUTCDate()).padStart(2, '0');
   return `${year}-${month}-${day}`;
 }
+
+/**
+ * Format a Date as the value expected by <input type="datetime-local"> (local time, YYYY-MM-DDTHH:mm)
+ */
+export function toDateTimeLocalValue(date: Date | undefined | null): string {
+  if (!date || isNaN(date.getTime())) return '';
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Parse a datetime-local input value (interpreted in the user's timezone)
+ * @returns Date object or undefined if the value is empty/invalid
+ */
+export function fromDateTimeLocalValue(value: string | undefined | null): Date | undefined {
+  if (!value) return undefined;
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/);
+  if (!match) return undefined;
+  const [, year, month, day, hours, minutes] = match.map(Number);
+  const date = new Date(year, month - 1, day, hours, minutes, 0, 0);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/** Minimum lead time so a schedule doesn't fire while the request is still in flight */
+export const MIN_SCHEDULE_LEAD_MINUTES = 2;
+
+/**
+ * Validate a datetime-local value for scheduling (ScheduleDateTimePicker)
+ * @returns Arabic error message, or null if valid
+ */
+export function validateScheduleValue(value: string, now: Date = new Date()): string | null {
+  const date = fromDateTimeLocalValue(value);
+  if (!date) {
+    return 'يرجى اختيار تاريخ ووقت الإرسال';
+  }
+  if (date.getTime() < now.getTime() + MIN_SCHEDULE_LEAD_MINUTES * 60000) {
+    return `يجب أن يكون وقت الإرسال بعد ${MIN_SCHEDULE_LEAD_MINUTES} دقائق على الأقل من الآن`;
+  }
+  return null;
+}
+
+/**
+ * Get the next local occurrence of a wall-clock time (e.g. 08:00).
+ * If today's occurrence already passed, returns tomorrow's.
+ */
+export function getNextOccurrence(hours: number, minutes = 0, from: Date = new Date()): Date {
+  const next = new Date(from.getFullYear(), from.getMonth(), from.getDate(), hours, minutes, 0, 0);
+  if (next.getTime() <= from.getTime()) {
+    next.setDate(next.getDate() + 1);
+  }
+  return next;
+}
+
+/**
+ * Get time remaining until a future date (e.g., "بعد ساعتين", "بعد 5 دقائق")
+ * @param date - Date object or ISO string
+ * @returns Relative time string in Arabic, or 'الآن' if the date already passed
+ */
+export function formatTimeUntil(date: string | Date | undefined | null): string {
+  const localDate = toLocalDate(date);
+  if (!localDate) return 'لم يحدد';
+
+  const diffMs = localDate.getTime() - Date.now();
+  const diffMinutes = Math.floor(diffMs / 60000);
+  const diffHours = Math.floor(diffMinutes / 60);
+  const diffDays = Math.floor(diffHours / 24);
+
+  if (diffMinutes < 1) {
+    return 'الآن';
+  } else if (diffMinutes < 60) {
+    return `بعد ${diffMinutes} ${diffMinutes === 1 ? 'دقيقة' : 'دقائق'}`;
+  } else if (diffHours < 24) {
+    return `بعد ${diffHours} ${diffHours === 1 ? 'ساعة' : 'ساعات'}`;
+  } else {
+    return `بعد ${diffDays} ${diffDays === 1 ? 'يوم' : 'أيام'}`;
+  }
+}
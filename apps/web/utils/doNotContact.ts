@@ -0,0 +1,82 @@
+/**
+ * Do-Not-Contact List
+ * Matching patients against the moderator's do-not-contact list (numbers keyed by E.164, see getPhoneKey),
+ * and the spreadsheet layout used to import/export the list.
+ */
+
+import { getPhoneKey, normalizePhone } from './phoneUtils';
+import { formatLocalDateTime } from './dateTimeUtils';
+import type { ExportCell } from './spreadsheetExport';
+import type { DoNotContactEntryDto } from '../services/api/doNotContactApiClient';
+
+export const DO_NOT_CONTACT_REASON = 'طلب عدم التواصل';
+
+export const DO_NOT_CONTACT_HEADERS = ['رقم الهاتف', 'الاسم', 'السبب', 'تاريخ الإضافة'];
+
+export interface DoNotContactImportEntry {
+  phoneNumber: string; // E.164
+  patientName?: string;
+  reason?: string;
+}
+
+export function buildDoNotContactSet(entries: Array<Pick<DoNotContactEntryDto, 'phoneNumber'>>): Set<string> {
+  return new Set(entries.map((e) => getPhoneKey(e.phoneNumber)));
+}
+
+export function isDoNotContact(list: Set<string>, phone: string | undefined, countryCode?: string): boolean {
+  return !!phone && list.size > 0 && list.has(getPhoneKey(phone, countryCode));
+}
+
+/**
+ * Split patients into those that may be messaged and those on the do-not-contact list
+ */
+export function splitByDoNotContact<T extends { phone?: string; countryCode?: string }>(
+  patients: T[],
+  list: Set<string>
+): { allowed: T[]; excluded: T[] } {
+  const allowed: T[] = [];
+  const excluded: T[] = [];
+  patients.forEach((p) => (isDoNotContact(list, p.phone, p.countryCode) ? excluded : allowed).push(p));
+  return { allowed, excluded };
+}
+
+/**
+ * Header row + one row per entry, newest first
+ */
+export function buildDoNotContactExportRows(entries: DoNotContactEntryDto[]): ExportCell[][] {
+  const rows = [...entries]
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map((e) => [e.phoneNumber, e.patientName || '', e.reason || '', formatLocalDateTime(e.createdAt)]);
+  return [DO_NOT_CONTACT_HEADERS, ...rows];
+}
+
+/**
+ * Read import rows in the export layout (phone, name, reason); the header row is optional.
+ * Numbers without + or 00 are read with the default country code. Duplicate numbers are kept once.
+ * @returns Entries to import and the 1-based sheet rows whose number is not valid
+ */
+export function parseDoNotContactRows(
+  rows: ExportCell[][],
+  defaultCountryCode: string
+): { entries: DoNotContactImportEntry[]; invalidRows: number[] } {
+  const entries: DoNotContactImportEntry[] = [];
+  const invalidRows: number[] = [];
+  const seen = new Set<string>();
+
+  rows.forEach((row, index) => {
+    const [phone, name, reason] = row.map((cell) => String(cell ?? '').trim());
+    if (!phone) return;
+    if (index === 0 && phone === DO_NOT_CONTACT_HEADERS[0]) return;
+
+    const normalized = normalizePhone(phone, defaultCountryCode).phone;
+    if (!normalized) {
+      invalidRows.push(index + 1);
+      return;
+    }
+    if (seen.has(normalized.e164)) return;
+    seen.add(normalized.e164);
+    entries.push({ phoneNumber: normalized.e164, patientName: name || undefined, reason: reason || undefined });
+  });
+
+  return { entries, invalidRows };
+}
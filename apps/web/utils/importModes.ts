@@ -0,0 +1,165 @@
+/**
+ * Import Modes
+ * How an uploaded patient list is applied to a queue (UploadModal):
+ * - append:  add every row after the last position
+ * - replace: the file is the full waiting list - matching waiting patients are updated, the rest go to trash
+ * - merge:   matching waiting patients are updated, new rows added, nobody removed
+ * Matching is by normalized phone. buildImportPlan is the dry run shown before anything is saved; its positions are
+ * saved as they are (getImportPositionItems, absolute positions - nobody outside the import moves).
+ * Every mode first goes through the duplicate review (patientDuplicates.ts); see getImportReviewMatches.
+ */
+
+import { phoneKey, type DuplicateMatch, type PatientCandidate } from './patientDuplicates';
+
+export type ImportMode = 'append' | 'replace' | 'merge';
+
+export const IMPORT_MODE_OPTIONS: Array<{ mode: ImportMode; label: string; description: string }> = [
+  { mode: 'append', label: 'إضافة', description: 'إضافة المرضى بعد آخر مريض في الطابور' },
+  { mode: 'replace', label: 'استبدال', description: 'الملف هو قائمة الانتظار الكاملة - المرضى المنتظرون غير الموجودين فيه ينقلون لسلة المحذوفات' },
+  { mode: 'merge', label: 'دمج', description: 'تحديث الأسماء والترتيب للمرضى الموجودين بنفس الرقم وإضافة الجدد دون حذف أحد' },
+];
+
+export interface QueuePatientSnapshot {
+  id: number;
+  fullName: string;
+  phoneNumber: string;
+  countryCode: string;
+  position: number;
+  status?: string;
+}
+
+export interface ImportUpdate<T extends PatientCandidate> {
+  patient: QueuePatientSnapshot;
+  candidate: T;
+  position: number;            // position in the final order
+  nameChanged: boolean;
+  positionChanged: boolean;
+}
+
+/** One entry of the final waiting order: an existing patient or a row that will be created */
+export type ImportOrderEntry = { existingId: number } | { candidateIndex: number };
+
+export interface ImportPlan<T extends PatientCandidate> {
+  mode: ImportMode;
+  add: Array<{ candidateIndex: number; candidate: T }>;
+  update: ImportUpdate<T>[];
+  remove: QueuePatientSnapshot[];
+  skippedInFile: number;       // rows repeating a phone that appears earlier in the file
+  order: ImportOrderEntry[];   // final waiting order (replace/merge); empty for append
+  positions: number[];         // position of each order entry
+  firstPosition: number;       // position of the first waiting patient in the final order
+}
+
+/**
+ * Patients still waiting; only they are updated, reordered or removed
+ */
+export function isWaitingPatient(patient: QueuePatientSnapshot): boolean {
+  return !patient.status || patient.status === 'waiting';
+}
+
+/**
+ * Duplicates to review before importing. Append reviews them all; replace/merge only the matches in the
+ * moderator's other active queues, since same-queue and in-file repeats are reconciled by buildImportPlan.
+ */
+export function getImportReviewMatches(mode: ImportMode, matches: DuplicateMatch[]): DuplicateMatch[] {
+  return mode === 'append' ? matches : matches.filter((match) => !match.sameQueue);
+}
+
+/**
+ * Dry run of an import: what will be added, updated and removed, and the resulting waiting order.
+ * In merge mode waiting patients missing from the file keep their relative order after the file rows.
+ */
+export function buildImportPlan<T extends PatientCandidate>(
+  mode: ImportMode,
+  candidates: T[],
+  queuePatients: QueuePatientSnapshot[]
+): ImportPlan<T> {
+  const waiting = queuePatients.filter(isWaitingPatient).sort((a, b) => a.position - b.position);
+  const others = queuePatients.filter((p) => !isWaitingPatient(p));
+  const firstPosition = waiting.length > 0
+    ? waiting[0].position
+    : others.reduce((max, p) => Math.max(max, p.position), 0) + 1;
+
+  const plan: ImportPlan<T> = { mode, add: [], update: [], remove: [], skippedInFile: 0, order: [], positions: [], firstPosition };
+
+  // Waiting patients take consecutive positions from firstPosition, stepping over those still held by
+  // patients who are not waiting (in service, completed, cancelled) - they keep their place
+  const reserved = new Set(others.map((p) => p.position));
+  let nextPosition = firstPosition;
+  const placeNext = (entry: ImportOrderEntry): number => {
+    while (reserved.has(nextPosition)) nextPosition++;
+    plan.order.push(entry);
+    plan.positions.push(nextPosition);
+    return nextPosition++;
+  };
+
+  if (mode === 'append') {
+    plan.add = candidates.map((candidate, candidateIndex) => ({ candidateIndex, candidate }));
+    return plan;
+  }
+
+  const waitingByKey = new Map<string, QueuePatientSnapshot>();
+  waiting.forEach((patient) => {
+    const key = phoneKey(patient.phoneNumber, patient.countryCode);
+    if (key && !waitingByKey.has(key)) waitingByKey.set(key, patient);
+  });
+
+  const seenKeys = new Set<string>();
+  const matchedIds = new Set<number>();
+
+  candidates.forEach((candidate, candidateIndex) => {
+    const key = phoneKey(candidate.phoneNumber, candidate.countryCode);
+    if (key && seenKeys.has(key)) {
+      plan.skippedInFile++;
+      return;
+    }
+    if (key) seenKeys.add(key);
+
+    const patient = key ? waitingByKey.get(key) : undefined;
+    if (patient) {
+      matchedIds.add(patient.id);
+      const position = placeNext({ existingId: patient.id });
+      plan.update.push({
+        patient,
+        candidate,
+        position,
+        nameChanged: patient.fullName.trim() !== candidate.fullName.trim(),
+        positionChanged: patient.position !== position,
+      });
+    } else {
+      placeNext({ candidateIndex });
+      plan.add.push({ candidateIndex, candidate });
+    }
+  });
+
+  const unmatched = waiting.filter((p) => !matchedIds.has(p.id));
+  if (mode === 'replace') {
+    plan.remove = unmatched;
+  } else {
+    unmatched.forEach((patient) => placeNext({ existingId: patient.id }));
+  }
+
+  return plan;
+}
+
+/**
+ * Positions to save after applying a replace/merge plan (POST /patients/positions), exactly as planned.
+ * createdIds maps candidate indexes to the ids of the patients created for them; rows that failed to be
+ * created are left out and leave a gap.
+ */
+export function getImportPositionItems<T extends PatientCandidate>(
+  plan: ImportPlan<T>,
+  createdIds: Record<number, number>
+): Array<{ id: number; position: number }> {
+  return plan.order.flatMap((entry, i) => {
+    const id = 'existingId' in entry ? entry.existingId : createdIds[entry.candidateIndex];
+    return id === undefined ? [] : [{ id, position: plan.positions[i] }];
+  });
+}
+
+/**
+ * Updates that actually change something (name or position)
+ */
+export function getEffectiveUpdates<T extends PatientCandidate>(plan: ImportPlan<T>): ImportUpdate<T>[] {
+  return plan.update.filter((u) => u.nameChanged || u.positionChanged);
+}
@@ -1,4 +1,13 @@
 import { MessageCondition } from '@/types/messageCondition';
+import { describeCriteria, validateCriteria, type ConditionMatchContext } from '@/utils/conditionCriteria';
+import {
+  conditionToRange,
+  detectGaps,
+  detectOverlaps,
+  isActiveCondition,
+  matchesCondition,
+} from '@/utils/conditionRules';
+import { parsePlaceholders, parseTemplate, getBlockConditionKeys, isKnownPlaceholder, type TemplateSyntaxError } from '@/utils/templatePlaceholders';
 
 /**
  * Validate message conditions for conflicts and issues
@@ -28,8 +37,15 @@ export function validateConditions(conditions: MessageCondition[]): {
     warnings.push('جميع الشروط معطلة. لن يتم تطبيق أي شروط');
   }
 
+  // Check extra criteria values (time window format, country codes...)
+  conditions.forEach(c => {
+    validateCriteria(c.criteria).forEach(error => {
+      errors.push(`${c.name || 'بدون اسم'}: ${error}`);
+    });
+  });
+
   // Check for overlapping ranges
-  const overlaps = detectRangeOverlaps(conditions);
+  const overlaps = detectOverlaps(conditions);
   if (overlaps.length > 0) {
     overlaps.forEach(overlap => {
       warnings.push(`الشروط "${overlap.cond1.name || 'بدون اسم'}" و "${overlap.cond2.name || 'بدون اسم'}" قد تتداخل`);
@@ -52,100 +68,15 @@ export function validateConditions(conditions: MessageCondition[]): {
 }
 
 /**
- * Detect overlapping ranges
- */
-export function detectRangeOverlaps(
-  conditions: MessageCondition[]
-): Array<{ cond1: MessageCondition; cond2: MessageCondition }> {
-  const overlaps: Array<{ cond1: MessageCondition; cond2: MessageCondition }> = [];
-
-  for (let i = 0; i < conditions.length; i++) {
-    for (let j = i + 1; j < conditions.length; j++) {
-      const c1 = conditions[i];
-      const c2 = conditions[j];
-
-      if (conditionsOverlap(c1, c2)) {
-        overlaps.push({ cond1: c1, cond2: c2 });
-      }
-    }
-  }
-
-  return overlaps;
-}
-
-/**
- * Check if two conditions have overlapping offsets
- */
-export function conditionsOverlap(cond1: MessageCondition, cond2: MessageCondition): boolean {
-  const range1 = conditionToRange(cond1);
-  const range2 = conditionToRange(cond2);
-
-  if (!range1 || !range2) return false;
-
-  // Check if ranges overlap
-  return !(range1.max < range2.min || range2.max < range1.min);
-}
-
-/**
- * Convert condition to offset range
- */
-export function conditionToRange(
-  cond: MessageCondition
-): { min: number; max: number } | null {
-  switch (cond.operator) {
-    case 'EQUAL':
-      if (cond.value === undefined || cond.value === null) return null;
-      return { min: cond.value, max: cond.value };
-
-    case 'GREATER':
-      if (cond.value === undefined || cond.value === null) return null;
-      return { min: cond.value + 1, max: 999 };
-
-    case 'LESS':
-      if (cond.value === undefined || cond.value === null) return null;
-      return { min: 1, max: cond.value - 1 };
-
-    case 'RANGE':
-      if (cond.minValue === undefined || cond.maxValue === undefined) return null;
-      return { min: cond.minValue, max: cond.maxValue };
-
-    default:
-      return null;
-  }
-}
-
-/**
- * Detect gaps in condition ranges (offsets not covered)
+ * Detect gaps in condition ranges (first offset of each uncovered segment)
+ * With extra criteria, coverage is checked separately for each criteria context
+ * (e.g. morning vs evening); a gap in any context is reported.
  */
 export function detectRangeGaps(conditions: MessageCondition[]): number[] {
-  const enabledConditions = conditions.filter(c => c.enabled !== false);
-  if (enabledConditions.length === 0) return [];
-
-  const ranges = enabledConditions
-    .map(c => conditionToRange(c))
-    .filter((r): r is { min: number; max: number } => r !== null);
-
-  if (ranges.length === 0) return [];
+  // No ranged condition at all - everything falls back to DEFAULT, nothing to report
+  if (!conditions.some(c => isActiveCondition(c) && conditionToRange(c) !== null)) return [];
 
-  const gaps: number[] = [];
-  const sortedRanges = ranges.sort((a, b) => a.min - b.min);
-
-  // Check for gap at the beginning
-  if (sortedRanges[0].min > 1) {
-    gaps.push(1);
-  }
-
-  // Check for gaps between ranges
-  for (let i = 0; i < sortedRanges.length - 1; i++) {
-    const currentMax = sortedRanges[i].max;
-    const nextMin = sortedRanges[i + 1].min;
-
-    if (nextMin - currentMax > 1) {
-      gaps.push(currentMax + 1);
-    }
-  }
-
-  return gaps;
+  return detectGaps(conditions).map(gap => gap.min);
 }
 
 /**
@@ -175,37 +106,39 @@ export function isConditionComplete(cond: Partial<MessageCondition>): boolean {
 }
 
 /**
- * Check template for valid placeholders
+ * Check template for valid placeholders and conditional block syntax
+ * Accepts every built-in key from TEMPLATE_PLACEHOLDERS plus the queue's custom variables,
+ * with or without a fallback ({PN|عزيزي المريض}), including keys used in {{#if ...}} blocks.
+ * Placeholders are reported as "{KEY}".
  */
-export function validateTemplate(template: string): {
+export function validateTemplate(template: string, customKeys: string[] = []): {
   valid: boolean;
   usedPlaceholders: string[];
   invalidPlaceholders: string[];
+  syntaxErrors: TemplateSyntaxError[];
 } {
-  const validPlaceholders = new Set(['{PN}', '{PQP}', '{ETR}', '{DN}', '{CN}']);
   const usedPlaceholders: string[] = [];
   const invalidPlaceholders: string[] = [];
-
-  // Find all placeholders in template
-  const placeholderRegex = /\{[A-Z]+\}/g;
-  const matches = template.match(placeholderRegex) || [];
-
-  for (const match of matches) {
-    if (validPlaceholders.has(match)) {
-      if (!usedPlaceholders.includes(match)) {
-        usedPlaceholders.push(match);
-      }
-    } else {
-      if (!invalidPlaceholders.includes(match)) {
-        invalidPlaceholders.push(match);
-      }
+  const { nodes, errors: syntaxErrors } = parseTemplate(template);
+
+  const keys = [
+    ...parsePlaceholders(template).map((p) => p.key),
+    ...getBlockConditionKeys(nodes),
+  ];
+
+  for (const key of keys) {
+    const token = `{${key}}`;
+    const target = isKnownPlaceholder(key, customKeys) ? usedPlaceholders : invalidPlaceholders;
+    if (!target.includes(token)) {
+      target.push(token);
     }
   }
 
   return {
-    valid: invalidPlaceholders.length === 0,
+    valid: invalidPlaceholders.length === 0 && syntaxErrors.length === 0,
     usedPlaceholders,
     invalidPlaceholders,
+    syntaxErrors,
   };
 }
 
@@ -224,7 +157,8 @@ export function getConditionDescription(cond: MessageCondition): string {
     ? `${cond.minValue} إلى ${cond.maxValue}`
     : String(cond.value);
 
-  return `موضع الانتظار ${operatorText} ${offsetText}`;
+  const criteriaText = describeCriteria(cond);
+  return `موضع الانتظار ${operatorText} ${offsetText}${criteriaText ? ` (${criteriaText})` : ''}`;
 }
 
 /**
@@ -232,33 +166,18 @@ export function getConditionDescription(cond: MessageCondition): string {
  */
 export function countMatchingPatients(
   cond: MessageCondition,
-  patients: Array<{ queue: number }>,
-  currentQueuePosition: number
+  patients: Array<{ queue: number } & Omit<ConditionMatchContext, 'now'>>,
+  currentQueuePosition: number,
+  now?: Date
 ): number {
   return patients.filter(p => {
     const offset = p.queue - currentQueuePosition;
-    if (offset <= 0) return false;
-
-    switch (cond.operator) {
-      case 'EQUAL':
-        return offset === cond.value;
-      case 'GREATER':
-        return offset > cond.value!;
-      case 'LESS':
-        return offset < cond.value!;
-      case 'RANGE':
-        return offset >= cond.minValue! && offset <= cond.maxValue!;
-      default:
-        return false;
-    }
+    return offset > 0 && matchesCondition(cond, offset, { ...p, now });
   }).length;
 }
 
 export default {
   validateConditions,
-  detectRangeOverlaps,
-  conditionsOverlap,
-  conditionToRange,
   detectRangeGaps,
   isConditionComplete,
   validateTemplate,
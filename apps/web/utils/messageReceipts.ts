@@ -0,0 +1,75 @@
+/**
+ * Message Receipts
+ * Delivered/read state of sent messages, reported back by the extension runner from WhatsApp's ticks,
+ * and the delivered/read rates shown in session summaries. "Delivered" counts read messages too -
+ * a read message was necessarily delivered.
+ */
+
+import type { MessageReceiptStatus } from '../services/api/messageApiClient';
+
+export type ReceiptFilter = 'all' | MessageReceiptStatus;
+
+export interface ReceiptMessage {
+  status?: string;
+  deliveredAt?: string;
+  readAt?: string;
+}
+
+export interface ReceiptRates {
+  total: number;
+  delivered: number;
+  read: number;
+  deliveredRate: number; // % of sent messages, rounded
+  readRate: number;
+}
+
+export const RECEIPT_STATUS_LABELS: Record<MessageReceiptStatus, string> = {
+  sent: 'تم الإرسال',
+  delivered: 'تم التسليم',
+  read: 'تمت القراءة',
+};
+
+export const RECEIPT_STATUS_BADGE_CLASSES: Record<MessageReceiptStatus, string> = {
+  sent: 'bg-gray-100 text-gray-700',
+  delivered: 'bg-green-100 text-green-800',
+  read: 'bg-blue-100 text-blue-800',
+};
+
+export const RECEIPT_FILTER_OPTIONS: { value: ReceiptFilter; label: string }[] = [
+  { value: 'all', label: 'الكل' },
+  { value: 'sent', label: 'لم يُسلَّم بعد' },
+  { value: 'delivered', label: 'تم التسليم' },
+  { value: 'read', label: 'تمت القراءة' },
+];
+
+/**
+ * True for every status of a message that left WhatsApp (sent, delivered, read)
+ */
+export function isSentMessageStatus(status: string | undefined): boolean {
+  return status === 'sent' || status === 'delivered' || status === 'read';
+}
+
+/**
+ * Receipt state of a sent message; falls back to the timestamps when the status is missing or still 'sent'
+ */
+export function getReceiptStatus(message: ReceiptMessage): MessageReceiptStatus {
+  if (message.status === 'read' || message.readAt) return 'read';
+  if (message.status === 'delivered' || message.deliveredAt) return 'delivered';
+  return 'sent';
+}
+
+/**
+ * 'delivered' keeps delivered-but-unread messages only, so the three filters split the list without overlap
+ */
+export function filterByReceiptStatus<T extends ReceiptMessage>(messages: T[], filter: ReceiptFilter): T[] {
+  if (filter === 'all') return messages;
+  return messages.filter((m) => getReceiptStatus(m) === filter);
+}
+
+export function getReceiptRates(messages: ReceiptMessage[]): ReceiptRates {
+  const total = messages.length;
+  const read = messages.filter((m) => getReceiptStatus(m) === 'read').length;
+  const delivered = read + messages.filter((m) => getReceiptStatus(m) === 'delivered').length;
+  const percent = (count: number) => (total > 0 ? Math.round((count / total) * 100) : 0);
+  return { total, delivered, read, deliveredRate: percent(delivered), readRate: percent(read) };
+}
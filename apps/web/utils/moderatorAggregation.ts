@@ -5,6 +5,8 @@
 
 import type { Queue, MessageTemplate } from '@/types';
 import type { User } from '@/types/user';
+import type { MessageCondition } from '@/types/messageCondition';
+import { countConflicts } from '@/utils/conditionRules';
 
 export interface ModeratorWithStats {
   moderatorId: string | number;
@@ -75,84 +77,14 @@ export const getModeratorInfo = (
 };
 
 /**
- * Count conflicts in a queue's conditions
- * Replicates the checkConditionIntersections logic from MessagesPanel
+ * Count conflicts in a queue's conditions (see utils/conditionRules)
  */
 export const countConflictsInQueue = (
   queueId: string | number,
-  conditions: any[],
-  templates: MessageTemplate[]
+  conditions: MessageCondition[]
 ): number => {
-  // Filter conditions for this queue (non-default)
-  const queueConditions = conditions.filter(
-    (c) => c.queueId === queueId && !c.id.startsWith('DEFAULT_')
-  );
-
-  if (queueConditions.length < 2) return 0;
-
-  let conflictCount = 0;
-
-  for (let i = 0; i < queueConditions.length; i++) {
-    for (let j = i + 1; j < queueConditions.length; j++) {
-      const cond1 = queueConditions[i];
-      const cond2 = queueConditions[j];
-
-      // Check if conditions overlap using same logic as MessagesPanel
-      if (
-        cond1.operator &&
-        cond2.operator &&
-        getConditionRange(cond1) &&
-        getConditionRange(cond2) &&
-        conditionsOverlap(cond1, cond2)
-      ) {
-        conflictCount++;
-      }
-    }
-  }
-
-  return conflictCount;
-};
-
-/**
- * Get range representation of a condition
- * Note: All values must be >= 1 (0 and negative values are invalid)
- */
-export const getConditionRange = (cond: any): { min: number; max: number } | null => {
-  switch (cond.operator) {
-    case 'EQUAL':
-      if (cond.value === undefined || cond.value <= 0) return null;
-      return { min: cond.value, max: cond.value };
-    case 'GREATER':
-      if (cond.value === undefined || cond.value <= 0) return null;
-      return { min: cond.value + 1, max: 999 };
-    case 'LESS':
-      if (cond.value === undefined || cond.value <= 0) return null;
-      return { min: 1, max: cond.value - 1 };
-    case 'RANGE':
-      if (
-        cond.minValue === undefined ||
-        cond.maxValue === undefined ||
-        cond.minValue <= 0 ||
-        cond.maxValue <= 0
-      )
-        return null;
-      return { min: cond.minValue, max: cond.maxValue };
-    default:
-      return null;
-  }
-};
-
-/**
- * Check if two conditions overlap/intersect
- */
-export const conditionsOverlap = (cond1: any, cond2: any): boolean => {
-  const range1 = getConditionRange(cond1);
-  const range2 = getConditionRange(cond2);
-
-  if (!range1 || !range2) return false;
-
-  // Two ranges overlap if NOT (range1.max < range2.min OR range2.max < range1.min)
-  return !(range1.max < range2.min || range2.max < range1.min);
+  const queueConditions = conditions.filter((c) => String(c.queueId) === String(queueId));
+  return countConflicts(queueConditions);
 };
 
 /**
@@ -167,7 +99,7 @@ export const conditionsOverlap = (cond1: any, cond2: any): boolean => {
 export const groupQueuesByModerator = (
   queues: Queue[],
   templates: MessageTemplate[],
-  conditions: any[] = [],
+  conditions: MessageCondition[] = [],
   moderators?: User[]
 ): ModeratorWithStats[] => {
   // Create map of moderator ID to queues and templates
@@ -220,7 +152,7 @@ export const groupQueuesByModerator = (
       totalTemplates += queueTemplates.length;
 
       // Count conflicts for this queue
-      const queueConflicts = countConflictsInQueue(queue.id, conditions, []);
+      const queueConflicts = countConflictsInQueue(queue.id, conditions);
       totalConflicts += queueConflicts;
     });
 
@@ -0,0 +1,189 @@
+/**
+ * Patient Duplicates
+ * Detects patients that are about to be added twice (UploadModal, AddPatientModal): same normalized phone
+ * in the queue, in the moderator's other active queues or earlier in the same batch, and optionally
+ * similar Arabic names. Only active patients (waiting or in service) count: a completed or cancelled patient
+ * coming back is a new visit. Each duplicate is resolved as skip / overwrite / keep both before creating patients.
+ */
+
+import { splitInternationalPhone } from './phoneUtils';
+import { isActiveFlowStatus } from './queueFlow';
+import { normalizeSearchText } from './templateLibrary';
+
+export interface PatientCandidate {
+  fullName: string;
+  phoneNumber: string;
+  countryCode: string;
+}
+
+export interface ExistingPatient extends PatientCandidate {
+  id: number;
+  queueId: string;
+  queueName: string;
+  status?: string;            // queue flow status; completed/cancelled patients are not duplicates
+}
+
+export type DuplicateReason = 'phone' | 'name';
+
+export type DuplicateResolution = 'skip' | 'overwrite' | 'keepBoth';
+
+export interface DuplicateMatch {
+  index: number;              // index of the candidate
+  reason: DuplicateReason;
+  existing?: ExistingPatient; // set when the match is an existing patient
+  batchIndex?: number;        // set when the match is an earlier candidate of the same batch
+  sameQueue: boolean;
+}
+
+export interface DuplicateResolutionPlan<T extends PatientCandidate> {
+  create: T[];
+  update: Array<{ id: number; candidate: T }>;
+  skipped: number;
+}
+
+export const DUPLICATE_RESOLUTION_LABELS: Record<DuplicateResolution, string> = {
+  skip: 'تخطي',
+  overwrite: 'تحديث بيانات المريض الحالي',
+  keepBoth: 'إضافة على أي حال',
+};
+
+// Arabic-Indic digits (٠-٩) to 0-9
+const toLatinDigits = (value: string) => value.replace(/[٠-٩]/g, (d) => String(d.charCodeAt(0) - 0x0660));
+
+/**
+ * Comparable phone: country code digits + national number without leading zeros
+ * ("+20" "01012345678" and "+20" "1012345678" give the same key)
+ */
+export function phoneKey(phoneNumber: string, countryCode: string): string {
+  const phone = toLatinDigits(phoneNumber.trim());
+  const split = splitInternationalPhone(phone);
+  const code = (split?.countryCode ?? toLatinDigits(countryCode)).replace(/\D/g, '');
+  const national = (split?.phone ?? phone).replace(/\D/g, '').replace(/^0+/, '');
+  return national ? `${code}${national}` : '';
+}
+
+/**
+ * Name normalized for matching: search normalization plus "عبد ال..." written with or without a space
+ */
+export function nameKey(name: string): string {
+  return normalizeSearchText(name)
+    .replace(/عبد\s+ال/g, 'عبدال')
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Fuzzy name match: same words in any order, or at most one typo per 8 letters
+ */
+export function namesMatch(a: string, b: string): boolean {
+  const keyA = nameKey(a);
+  const keyB = nameKey(b);
+  if (!keyA || !keyB) return false;
+  if (keyA === keyB) return true;
+
+  const sortedWords = (key: string) => key.split(' ').sort().join(' ');
+  if (sortedWords(keyA) === sortedWords(keyB)) return true;
+
+  const longest = Math.max(keyA.length, keyB.length);
+  return longest >= 6 && editDistance(keyA, keyB) <= Math.floor(longest / 8);
+}
+
+/**
+ * Duplicates of the candidates among active patients, at most one per candidate. Phone matches win over name
+ * matches, and matches in the target queue win over the moderator's other queues and the batch itself.
+ */
+export function findDuplicates(
+  candidates: PatientCandidate[],
+  allExisting: ExistingPatient[],
+  options: { queueId: string; matchNames?: boolean }
+): DuplicateMatch[] {
+  const queueId = String(options.queueId);
+  const existing = allExisting.filter((p) => isActiveFlowStatus(p.status));
+  const byQueue = (list: ExistingPatient[]) => [
+    ...list.filter((p) => p.queueId === queueId),
+    ...list.filter((p) => p.queueId !== queueId),
+  ];
+  const existingKeys = existing.map((p) => phoneKey(p.phoneNumber, p.countryCode));
+  const candidateKeys = candidates.map((c) => phoneKey(c.phoneNumber, c.countryCode));
+
+  const matches: DuplicateMatch[] = [];
+  candidates.forEach((candidate, index) => {
+    const key = candidateKeys[index];
+
+    const phoneMatch = key ? byQueue(existing.filter((_, i) => existingKeys[i] === key))[0] : undefined;
+    if (phoneMatch) {
+      matches.push({ index, reason: 'phone', existing: phoneMatch, sameQueue: phoneMatch.queueId === queueId });
+      return;
+    }
+
+    const batchIndex = key ? candidateKeys.indexOf(key) : -1;
+    if (batchIndex >= 0 && batchIndex < index) {
+      matches.push({ index, reason: 'phone', batchIndex, sameQueue: true });
+      return;
+    }
+
+    if (options.matchNames) {
+      const nameMatch = byQueue(existing.filter((p) => namesMatch(p.fullName, candidate.fullName)))[0];
+      if (nameMatch) {
+        matches.push({ index, reason: 'name', existing: nameMatch, sameQueue: nameMatch.queueId === queueId });
+      }
+    }
+  });
+
+  return matches;
+}
+
+/**
+ * Resolutions offered for a match; overwrite only applies to an existing patient of the target queue
+ */
+export function getAllowedResolutions(match: DuplicateMatch): DuplicateResolution[] {
+  return match.existing && match.sameQueue ? ['skip', 'overwrite', 'keepBoth'] : ['skip', 'keepBoth'];
+}
+
+/**
+ * Same phone in the same queue is skipped by default; anything else is only flagged
+ */
+export function getDefaultResolution(match: DuplicateMatch): DuplicateResolution {
+  return match.reason === 'phone' && match.sameQueue ? 'skip' : 'keepBoth';
+}
+
+/**
+ * Which candidates to create, which existing patients to update and how many to skip
+ */
+export function planPatientImport<T extends PatientCandidate>(
+  candidates: T[],
+  matches: DuplicateMatch[],
+  resolutions: Record<number, DuplicateResolution>
+): DuplicateResolutionPlan<T> {
+  const matchByIndex = new Map(matches.map((m) => [m.index, m]));
+  const plan: DuplicateResolutionPlan<T> = { create: [], update: [], skipped: 0 };
+
+  candidates.forEach((candidate, index) => {
+    const match = matchByIndex.get(index);
+    const requested = match ? resolutions[index] ?? getDefaultResolution(match) : 'keepBoth';
+    const resolution = match && !getAllowedResolutions(match).includes(requested) ? getDefaultResolution(match) : requested;
+
+    if (resolution === 'skip') {
+      plan.skipped++;
+    } else if (resolution === 'overwrite' && match?.existing) {
+      plan.update.push({ id: match.existing.id, candidate });
+    } else {
+      plan.create.push(candidate);
+    }
+  });
+
+  return plan;
+}
@@ -0,0 +1,94 @@
+/**
+ * Patient Reordering
+ * Moves rows of a queue (drag-and-drop, Alt+Up/Down, "move to position N") and turns the new order into a single
+ * reorder batch. The queue keeps its existing set of positions (including gaps): rows take the sorted positions in
+ * their new order, so only the moved range changes.
+ */
+
+export interface ReorderablePatient {
+  id: string;
+  position?: number;
+}
+
+export interface ReorderItem {
+  id: number;
+  position: number;
+}
+
+/**
+ * Move rows so they sit, in their current relative order, before the row at targetIndex of the original order
+ * (targetIndex === order.length moves them to the end)
+ */
+export function moveRows(order: string[], moving: string[], targetIndex: number): string[] {
+  const movingSet = new Set(moving);
+  const block = order.filter((id) => movingSet.has(id));
+  if (block.length === 0) return order;
+
+  const clamped = Math.max(0, Math.min(order.length, targetIndex));
+  const insertAt = order.slice(0, clamped).filter((id) => !movingSet.has(id)).length;
+  const rest = order.filter((id) => !movingSet.has(id));
+  return [...rest.slice(0, insertAt), ...block, ...rest.slice(insertAt)];
+}
+
+/**
+ * Move each moving row one step up (-1) or down (+1), past the neighbouring row that is not moving.
+ * Rows already at the edge stay, so a multi-row selection keeps its shape until it reaches the edge.
+ */
+export function moveRowsBy(order: string[], moving: string[], direction: -1 | 1): string[] {
+  const movingSet = new Set(moving);
+  const next = [...order];
+  const indexes = next.map((_, i) => i);
+  if (direction === 1) indexes.reverse();
+
+  indexes.forEach((i) => {
+    const j = i + direction;
+    if (j < 0 || j >= next.length) return;
+    if (movingSet.has(next[i]) && !movingSet.has(next[j])) {
+      [next[i], next[j]] = [next[j], next[i]];
+    }
+  });
+  return next;
+}
+
+/**
+ * Move rows so the first of them takes queue position `position` (or the nearest existing position after it)
+ */
+export function moveRowsToPosition(
+  order: string[],
+  positions: Record<string, number>,
+  moving: string[],
+  position: number
+): string[] {
+  const movingSet = new Set(moving);
+  const targetIndex = order.findIndex((id) => !movingSet.has(id) && (positions[id] ?? 0) >= position);
+  return moveRows(order, moving, targetIndex === -1 ? order.length : targetIndex);
+}
+
+/**
+ * Positions each row takes in the new order: the queue's sorted positions assigned in order
+ */
+export function assignPositions(patients: ReorderablePatient[], order: string[]): Record<string, number> {
+  const sortedPositions = patients.map((p) => p.position || 0).sort((a, b) => a - b);
+  return Object.fromEntries(order.map((id, i) => [id, sortedPositions[i]]));
+}
+
+/**
+ * Reorder batch for the rows whose position changes, and the batch that restores them (undo)
+ */
+export function buildReorderBatch(
+  patients: ReorderablePatient[],
+  order: string[]
+): { items: ReorderItem[]; undoItems: ReorderItem[] } {
+  const newPositions = assignPositions(patients, order);
+  const items: ReorderItem[] = [];
+  const undoItems: ReorderItem[] = [];
+
+  patients.forEach((p) => {
+    const position = newPositions[p.id];
+    if (position !== undefined && position !== (p.position || 0)) {
+      items.push({ id: Number(p.id), position });
+      undoItems.push({ id: Number(p.id), position: p.position || 0 });
+    }
+  });
+  return { items, undoItems };
+}
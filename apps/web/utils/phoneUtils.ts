@@ -1,83 +1,134 @@
 /**
- * Phone number formatting utilities
+ * Phone number formatting, normalization and validation utilities
+ * Validation, trunk prefixes and mobile/landline detection use the numbering-plan metadata of libphonenumber-js
+ * (Google libphonenumber); calling codes missing from the metadata fall back to the generic E.164 length check.
+ * The core build is used with the max metadata passed explicitly, so the bundle carries one copy of it.
  */
 
+import { parsePhoneNumberFromString, getExampleNumber, type CountryCode, type PhoneNumber } from 'libphonenumber-js/core';
+import metadata from 'libphonenumber-js/max/metadata';
+import examples from 'libphonenumber-js/examples.mobile.json';
+
+export type PhoneNumberType = 'mobile' | 'landline';
+
+export interface NormalizedPhone {
+  countryCode: string;     // "+20"
+  nationalNumber: string;  // national significant number, without trunk prefix: "1012345678"
+  e164: string;            // "+201012345678"
+  type?: PhoneNumberType;  // undefined when the plan doesn't tell (shared mobile/fixed ranges) or has no metadata
+}
+
+export type PhoneNormalization = { phone: NormalizedPhone; error: null } | { phone: null; error: string };
+
+export const LANDLINE_PHONE_ERROR = 'هذا رقم أرضي ولا يمكنه استقبال رسائل واتساب';
+
+const GENERIC_LENGTH_ERROR = 'رقم الهاتف يجب أن يكون بين 7 و 15 رقم';
+
+// Arabic-Indic (٠-٩) and Persian (۰-۹) digits to 0-9
+const toLatinDigits = (value: string) =>
+  value.replace(/[٠-٩]/g, (d) => String(d.charCodeAt(0) - 0x0660)).replace(/[۰-۹]/g, (d) => String(d.charCodeAt(0) - 0x06f0));
+
+const hasNumberingPlan = (code: string) => code in metadata.country_calling_codes;
+
 /**
- * Country-specific phone number handling rules with digit ranges
- * Supports ranges for flexibility (e.g., Egypt: 9-11 digits instead of exactly 10)
+ * Calling code at the start of an international number (longest match first, "+971" is not "+97" + "1...")
  */
-const COUNTRY_PHONE_RULES: Record<string, { removeLeadingZero: boolean; minLength: number; maxLength: number; placeholder: string }> = {
-  // Middle East & North Africa
-  '20': { removeLeadingZero: true, minLength: 9, maxLength: 11, placeholder: '1018542431' }, // Egypt
-  '966': { removeLeadingZero: true, minLength: 8, maxLength: 10, placeholder: '504858694' }, // Saudi Arabia
-  '971': { removeLeadingZero: true, minLength: 8, maxLength: 10, placeholder: '501234567' }, // UAE
-  '965': { removeLeadingZero: true, minLength: 7, maxLength: 9, placeholder: '50123456' }, // Kuwait
-  '973': { removeLeadingZero: true, minLength: 7, maxLength: 9, placeholder: '36123456' }, // Bahrain
-  '974': { removeLeadingZero: true, minLength: 7, maxLength: 9, placeholder: '33123456' }, // Qatar
-  '968': { removeLeadingZero: true, minLength: 7, maxLength: 9, placeholder: '92123456' }, // Oman
-  '961': { removeLeadingZero: true, minLength: 7, maxLength: 9, placeholder: '3123456' }, // Lebanon
-  '962': { removeLeadingZero: true, minLength: 8, maxLength: 10, placeholder: '791234567' }, // Jordan
-  '212': { removeLeadingZero: true, minLength: 8, maxLength: 10, placeholder: '612345678' }, // Morocco
-  '213': { removeLeadingZero: true, minLength: 8, maxLength: 10, placeholder: '551234567' }, // Algeria
-  '216': { removeLeadingZero: true, minLength: 7, maxLength: 9, placeholder: '20123456' }, // Tunisia
-  '218': { removeLeadingZero: true, minLength: 8, maxLength: 10, placeholder: '912345678' }, // Libya
-  '249': { removeLeadingZero: true, minLength: 8, maxLength: 10, placeholder: '912345678' }, // Sudan
-  '252': { removeLeadingZero: true, minLength: 7, maxLength: 10, placeholder: '712345678' }, // Somalia
-  '964': { removeLeadingZero: true, minLength: 8, maxLength: 11, placeholder: '7901234567' }, // Iraq
-  '967': { removeLeadingZero: true, minLength: 8, maxLength: 10, placeholder: '712345678' }, // Yemen
-  '970': { removeLeadingZero: true, minLength: 8, maxLength: 10, placeholder: '591234567' }, // Palestine
-  '963': { removeLeadingZero: true, minLength: 8, maxLength: 10, placeholder: '931234567' }, // Syria
-  
-  // Europe
-  '44': { removeLeadingZero: true, minLength: 9, maxLength: 11, placeholder: '7912345678' }, // UK
-  '33': { removeLeadingZero: true, minLength: 8, maxLength: 10, placeholder: '612345678' }, // France
-  '49': { removeLeadingZero: true, minLength: 9, maxLength: 12, placeholder: '15123456789' }, // Germany
-  '39': { removeLeadingZero: true, minLength: 8, maxLength: 11, placeholder: '3123456789' }, // Italy
-  '34': { removeLeadingZero: true, minLength: 8, maxLength: 10, placeholder: '612345678' }, // Spain
-  '31': { removeLeadingZero: true, minLength: 8, maxLength: 10, placeholder: '612345678' }, // Netherlands
-  '32': { removeLeadingZero: true, minLength: 8, maxLength: 10, placeholder: '471234567' }, // Belgium
-  '41': { removeLeadingZero: true, minLength: 8, maxLength: 10, placeholder: '781234567' }, // Switzerland
-  '43': { removeLeadingZero: true, minLength: 8, maxLength: 12, placeholder: '66412345678' }, // Austria
-  '46': { removeLeadingZero: true, minLength: 8, maxLength: 10, placeholder: '701234567' }, // Sweden
-  '47': { removeLeadingZero: true, minLength: 7, maxLength: 9, placeholder: '91234567' }, // Norway
-  '45': { removeLeadingZero: true, minLength: 7, maxLength: 9, placeholder: '20123456' }, // Denmark
-  '358': { removeLeadingZero: true, minLength: 8, maxLength: 11, placeholder: '501234567' }, // Finland
-  '7': { removeLeadingZero: false, minLength: 9, maxLength: 11, placeholder: '9123456789' }, // Russia
-  
-  // Americas
-  '1': { removeLeadingZero: false, minLength: 9, maxLength: 11, placeholder: '2025551234' }, // US/Canada
-  '52': { removeLeadingZero: true, minLength: 9, maxLength: 11, placeholder: '5512345678' }, // Mexico
-  '55': { removeLeadingZero: true, minLength: 9, maxLength: 12, placeholder: '11987654321' }, // Brazil
-  '54': { removeLeadingZero: true, minLength: 9, maxLength: 11, placeholder: '91123456789' }, // Argentina
-  '56': { removeLeadingZero: true, minLength: 8, maxLength: 10, placeholder: '912345678' }, // Chile
-  '57': { removeLeadingZero: true, minLength: 9, maxLength: 11, placeholder: '3001234567' }, // Colombia
-  '51': { removeLeadingZero: true, minLength: 8, maxLength: 10, placeholder: '987654321' }, // Peru
-  
-  // Asia
-  '91': { removeLeadingZero: true, minLength: 9, maxLength: 11, placeholder: '9876543210' }, // India
-  '86': { removeLeadingZero: true, minLength: 9, maxLength: 12, placeholder: '13800138000' }, // China
-  '81': { removeLeadingZero: true, minLength: 9, maxLength: 11, placeholder: '9012345678' }, // Japan
-  '82': { removeLeadingZero: true, minLength: 8, maxLength: 11, placeholder: '1012345678' }, // South Korea
-  '65': { removeLeadingZero: true, minLength: 7, maxLength: 9, placeholder: '91234567' }, // Singapore
-  '60': { removeLeadingZero: true, minLength: 8, maxLength: 11, placeholder: '123456789' }, // Malaysia
-  '66': { removeLeadingZero: true, minLength: 8, maxLength: 10, placeholder: '812345678' }, // Thailand
-  '84': { removeLeadingZero: true, minLength: 8, maxLength: 11, placeholder: '9123456789' }, // Vietnam
-  '62': { removeLeadingZero: true, minLength: 8, maxLength: 12, placeholder: '8123456789' }, // Indonesia
-  '63': { removeLeadingZero: true, minLength: 9, maxLength: 11, placeholder: '9123456789' }, // Philippines
-  '92': { removeLeadingZero: true, minLength: 9, maxLength: 11, placeholder: '3001234567' }, // Pakistan
-  '880': { removeLeadingZero: true, minLength: 9, maxLength: 11, placeholder: '1712345678' }, // Bangladesh
-  
-  // Africa
-  '234': { removeLeadingZero: true, minLength: 9, maxLength: 11, placeholder: '8021234567' }, // Nigeria
-  '27': { removeLeadingZero: true, minLength: 8, maxLength: 10, placeholder: '821234567' }, // South Africa
-  '254': { removeLeadingZero: true, minLength: 8, maxLength: 10, placeholder: '712345678' }, // Kenya
-  '233': { removeLeadingZero: true, minLength: 8, maxLength: 10, placeholder: '241234567' }, // Ghana
-  '256': { removeLeadingZero: true, minLength: 8, maxLength: 10, placeholder: '712345678' }, // Uganda
-  
-  // Oceania
-  '61': { removeLeadingZero: true, minLength: 8, maxLength: 10, placeholder: '412345678' }, // Australia
-  '64': { removeLeadingZero: true, minLength: 8, maxLength: 10, placeholder: '211234567' }, // New Zealand
-};
+function detectCallingCode(digits: string): string | null {
+  for (let length = 3; length >= 1; length--) {
+    const code = digits.substring(0, length);
+    if (hasNumberingPlan(code) && digits.length > length) return code;
+  }
+  return null;
+}
+
+function getNumberType(phoneNumber: PhoneNumber): PhoneNumberType | undefined {
+  const type = phoneNumber.getType();
+  if (type === 'MOBILE') return 'mobile';
+  if (type === 'FIXED_LINE') return 'landline';
+  return undefined;
+}
+
+/**
+ * Match national digits against the country's numbering plan (the metadata strips trunk prefixes), then without
+ * leading zeros (a common typo for countries that have no trunk prefix)
+ */
+function matchNumberingPlan(code: string, digits: string): PhoneNumber | null {
+  for (const candidate of [digits, digits.replace(/^0+/, '')]) {
+    const phoneNumber = parsePhoneNumberFromString(candidate, { defaultCallingCode: code }, metadata);
+    if (phoneNumber?.isValid() && phoneNumber.countryCallingCode === code) return phoneNumber;
+  }
+  return null;
+}
+
+/**
+ * Normalize a phone number to its national number and E.164 form using the country's numbering plan
+ * @param phone - Number as entered; a leading + or 00 makes the country be detected from the number itself
+ * @param defaultCountryCode - Country code for national numbers (e.g., "+20")
+ * @returns The normalized number, or an error message when the number is not valid for the country
+ */
+export function normalizePhone(phone: string, defaultCountryCode?: string): PhoneNormalization {
+  const cleaned = toLatinDigits(phone || '').replace(/[\s\-().]/g, '');
+  if (!cleaned) return { phone: null, error: 'رقم الهاتف مطلوب' };
+  if (!/^(\+|00)?\d+$/.test(cleaned)) return { phone: null, error: 'رقم الهاتف يجب أن يحتوي على أرقام فقط' };
+
+  const defaultCode = (defaultCountryCode || '').replace(/\D/g, '');
+  const isInternational = cleaned.startsWith('+') || cleaned.startsWith('00');
+  const digits = cleaned.replace(/^(\+|00)/, '');
+
+  let code: string;
+  let national: string;
+  if (isInternational) {
+    const detected = detectCallingCode(digits);
+    if (detected) {
+      code = detected;
+    } else if (defaultCode && digits.startsWith(defaultCode)) {
+      code = defaultCode; // custom code without a numbering plan
+    } else {
+      return { phone: null, error: 'كود الدولة في الرقم غير معروف' };
+    }
+    national = digits.substring(code.length);
+  } else {
+    if (!defaultCode) return { phone: null, error: 'يرجى اختيار كود الدولة' };
+    code = defaultCode;
+    national = digits;
+  }
+
+  if (!hasNumberingPlan(code)) {
+    const nationalNumber = national.replace(/^0+/, '');
+    if (nationalNumber.length < 7 || nationalNumber.length > 15 - code.length) {
+      return { phone: null, error: GENERIC_LENGTH_ERROR };
+    }
+    return { phone: { countryCode: `+${code}`, nationalNumber, e164: `+${code}${nationalNumber}` }, error: null };
+  }
+
+  // National numbers pasted with the country code but without + ("201012345678")
+  const match =
+    matchNumberingPlan(code, national) ??
+    (!isInternational && national.startsWith(code) ? matchNumberingPlan(code, national.substring(code.length)) : null);
+  if (!match) {
+    return { phone: null, error: `رقم الهاتف غير صحيح لـ +${code} (مثال: ${getPhonePlaceholder(`+${code}`)})` };
+  }
+
+  return {
+    phone: { countryCode: `+${code}`, nationalNumber: match.nationalNumber, e164: match.number, type: getNumberType(match) },
+    error: null,
+  };
+}
+
+/**
+ * Key identifying a number across patients and lists: E.164 when the number is valid for its country, otherwise
+ * + and the digits of an international number, or country code + digits without leading zeros.
+ * Same rule as PhoneNumberHelper.ToE164 on the backend (shared cases: tests/fixtures/phone-keys.json).
+ */
+export function getPhoneKey(phone: string, countryCode?: string): string {
+  const normalized = normalizePhone(phone, countryCode);
+  if (normalized.phone) return normalized.phone.e164;
+  const cleaned = toLatinDigits(phone || '').trim();
+  const digits = cleaned.replace(/\D/g, '');
+  if (cleaned.startsWith('+')) return `+${digits}`;
+  if (digits.startsWith('00')) return `+${digits.substring(2)}`;
+  return `+${(countryCode || '').replace(/\D/g, '')}${digits.replace(/^0+/, '')}`;
+}
 
 /**
  * Format phone number for display with country code
@@ -96,7 +147,7 @@ export function formatPhoneForDisplay(phone: string, countryCode: string): strin
 }
 
 /**
- * Get phone placeholder for a country code
+ * Get phone placeholder for a country code: an example mobile number of the code's main country
  * @param countryCode - Country code (e.g., "+20", "+966")
  * @returns Placeholder example or default placeholder
  */
@@ -107,66 +158,47 @@ export function getPhonePlaceholder(countryCode: string): string {
   
   // Extract country code digits (without +)
   const countryCodeDigits = countryCode.replace(/[^\d]/g, '');
-  
-  // Get country-specific rules or use default
-  const rules = COUNTRY_PHONE_RULES[countryCodeDigits];
-  return rules?.placeholder || '123456789';
+  const country = metadata.country_calling_codes[countryCodeDigits]?.[0] as CountryCode | undefined;
+
+  return (country && getExampleNumber(country, examples, metadata)?.nationalNumber) || '123456789';
 }
 
 /**
- * Validate phone number by country code (digit range validation)
- * @param phone - Phone number to validate
+ * Validate phone number by country code against the country's numbering plan
+ * @param phone - Phone number to validate (national, or international with + / 00)
  * @param countryCode - Country code (e.g., "+20", "+966")
+ * @param options - mobileOnly: also reject landline numbers (they cannot receive WhatsApp messages)
  * @returns Error message or null if valid
  */
-export function validatePhoneByCountry(phone: string, countryCode: string): string | null {
+export function validatePhoneByCountry(phone: string, countryCode: string, options?: { mobileOnly?: boolean }): string | null {
   if (!phone) return 'رقم الهاتف مطلوب';
-  
-  // Handle spaces in phone number (remove them instead of rejecting)
-  const phoneCleaned = phone.replace(/\s/g, '');
-  
-  // If country code is "OTHER", use generic validation
+
+  // If country code is "OTHER" (custom code not entered yet), use generic validation
   if (!countryCode || countryCode === 'OTHER') {
-    const cleaned = phoneCleaned.replace(/\D/g, '');
-    if (cleaned.length < 7 || cleaned.length > 15) {
-      return 'رقم الهاتف يجب أن يكون بين 7 و 15 رقم';
-    }
-    return null;
-  }
-  
-  // Handle spaces in country code (remove them instead of rejecting)
-  const countryCodeCleaned = countryCode.replace(/\s/g, '');
-  
-  // Extract country code digits (without +)
-  const countryCodeDigits = countryCodeCleaned.replace(/[^\d]/g, '');
-  
-  // Get country-specific rules
-  const rules = COUNTRY_PHONE_RULES[countryCodeDigits];
-  if (!rules) {
-    // Unknown country - use generic validation
-    const cleaned = phoneCleaned.replace(/\D/g, '');
+    const cleaned = phone.replace(/\D/g, '');
     if (cleaned.length < 7 || cleaned.length > 15) {
-      return 'رقم الهاتف يجب أن يكون بين 7 و 15 رقم';
+      return GENERIC_LENGTH_ERROR;
     }
     return null;
   }
-  
-  // Remove country code if present in phone number
-  let cleaned = phoneCleaned.replace(/\D/g, '');
-  if (cleaned.startsWith(countryCodeDigits)) {
-    cleaned = cleaned.substring(countryCodeDigits.length);
-  }
-  
-  // Remove leading zero if country rules require it
-  if (rules.removeLeadingZero && cleaned.startsWith('0')) {
-    cleaned = cleaned.substring(1);
-  }
-  
-  // Validate digit length against country-specific rules
-  if (cleaned.length < rules.minLength || cleaned.length > rules.maxLength) {
-    return `رقم الهاتف لـ ${countryCodeCleaned} يجب أن يكون بين ${rules.minLength} و ${rules.maxLength} رقم`;
-  }
-  
+
+  const result = normalizePhone(phone, countryCode.replace(/\s/g, ''));
+  if (result.error !== null) return result.error;
+  if (options?.mobileOnly && result.phone.type === 'landline') return LANDLINE_PHONE_ERROR;
+
   return null;
 }
 
+/**
+ * Split an international number ("+20 10 1234 5678", "00966501234567") into country code and national number
+ * @param value - Phone number that starts with + or 00 followed by a known country code
+ * @returns { countryCode: "+20", phone: "1012345678" } or null if no known country code prefix is found
+ */
+export function splitInternationalPhone(value: string): { countryCode: string; phone: string } | null {
+  const trimmed = value.trim();
+  if (!trimmed.startsWith('+') && !trimmed.startsWith('00')) return null;
+
+  const digits = trimmed.replace(/\D/g, '').replace(/^00/, '');
+  const code = detectCallingCode(digits);
+  return code ? { countryCode: `+${code}`, phone: digits.substring(code.length) } : null;
+}
@@ -0,0 +1,99 @@
+/**
+ * Waiting-Room Display
+ * What the TV kiosk (/display?queues=1,2) shows per queue - the number inside now (CQP), the next few
+ * waiting numbers and the estimated wait for someone joining now - and the Arabic call-out spoken
+ * when a queue's CQP advances. The estimated wait uses the same rule as {ETR}: waiting patients × ETS.
+ */
+
+import { getQueueFlowState, getFlowStatus } from './queueFlow';
+import { formatEstimatedTime } from './templatePlaceholders';
+import type { QueueDto, QueuePatientDto } from '../services/api/queuesApiClient';
+
+export const DISPLAY_NEXT_COUNT = 3;
+export const DISPLAY_SPEECH_ENABLED_KEY = 'queueDisplay.speechEnabled';
+
+export interface QueueDisplayBoard {
+  queueId: number;
+  doctorName: string;
+  currentPosition: number;
+  nextPositions: number[];
+  waitingCount: number;
+  estimatedWaitMinutes: number;
+  estimatedWaitText: string;
+}
+
+/**
+ * Queue ids from the ?queues= parameter ("1,2,3"), de-duplicated, invalid entries dropped
+ */
+export function parseDisplayQueueIds(value: string | null | undefined): number[] {
+  if (!value) return [];
+  const ids = value
+    .split(',')
+    .map((part) => Number(part.trim()))
+    .filter((id) => Number.isInteger(id) && id > 0);
+  return Array.from(new Set(ids));
+}
+
+export function getQueueDisplayBoard(
+  queue: QueueDto,
+  patients: QueuePatientDto[],
+  nextCount: number = DISPLAY_NEXT_COUNT
+): QueueDisplayBoard {
+  const flowPatients = patients.map((p) => ({ id: String(p.id), position: p.position, status: p.status }));
+  const { waitingCount } = getQueueFlowState(flowPatients);
+  const nextPositions = flowPatients
+    .filter((p) => getFlowStatus(p.status) === 'waiting')
+    .map((p) => p.position || 0)
+    .sort((a, b) => a - b)
+    .slice(0, nextCount);
+  const ets = queue.estimatedWaitMinutes && queue.estimatedWaitMinutes > 0 ? queue.estimatedWaitMinutes : 15;
+  const estimatedWaitMinutes = waitingCount * ets;
+
+  return {
+    queueId: queue.id,
+    doctorName: queue.doctorName,
+    currentPosition: queue.currentPosition,
+    nextPositions,
+    waitingCount,
+    estimatedWaitMinutes,
+    estimatedWaitText: formatEstimatedTime(estimatedWaitMinutes),
+  };
+}
+
+/**
+ * "number N to Dr. X" - the doctor title is only added when the queue name does not already carry it
+ */
+export function buildCallAnnouncement(position: number, doctorName: string): string {
+  const name = doctorName.trim();
+  const hasTitle = /^(د\s*\.|دكتور|الدكتور|دكتورة|الدكتورة)/.test(name);
+  return `الرقم ${position}، تفضل إلى ${hasTitle ? name : `الدكتور ${name}`}`;
+}
+
+/**
+ * Boards whose CQP moved forward since the previous snapshot (queueId → CQP).
+ * Queues seen for the first time are not announced, so opening or reloading the screen stays silent.
+ */
+export function getAdvancedBoards(
+  previous: Map<number, number>,
+  boards: QueueDisplayBoard[]
+): QueueDisplayBoard[] {
+  return boards.filter((b) => {
+    const before = previous.get(b.queueId);
+    return before !== undefined && b.currentPosition > before;
+  });
+}
+
+/**
+ * Speak a call-out with the browser's speech synthesis, preferring an Arabic voice.
+ * Browsers only allow speech after a user gesture on the page, hence the toggle button on the display.
+ */
+export function speakAnnouncement(text: string): boolean {
+  if (typeof window === 'undefined' || !('speechSynthesis' in window)) return false;
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = 'ar-SA';
+  utterance.rate = 0.9;
+  const voice = window.speechSynthesis.getVoices().find((v) => v.lang.toLowerCase().startsWith('ar'));
+  if (voice) utterance.voice = voice;
+  window.speechSynthesis.speak(utterance);
+  return true;
+}
@@ -0,0 +1,28 @@
+/**
+ * Queue Duplication
+ * Helpers for DuplicateQueueModal: default name for the copy and the target moderator's queue quota check.
+ */
+
+import type { QuotaDto } from '../services/api/messageApiClient';
+
+/**
+ * "<name> (نسخة)", or "<name> (نسخة 2)", "(نسخة 3)"... when that name is taken
+ */
+export function suggestDuplicateName(name: string, existingNames: string[]): string {
+  const taken = new Set(existingNames.map((n) => n.trim()));
+  const base = name.trim();
+
+  let candidate = `${base} (نسخة)`;
+  for (let n = 2; taken.has(candidate); n++) {
+    candidate = `${base} (نسخة ${n})`;
+  }
+  return candidate;
+}
+
+/**
+ * Why the moderator can't get another queue, or null when the quota allows it (queuesLimit -1 = unlimited)
+ */
+export function getQueueQuotaError(quota: Pick<QuotaDto, 'queuesLimit' | 'queuesUsed' | 'queuesRemaining'>): string | null {
+  if (quota.queuesLimit === -1 || quota.queuesRemaining > 0) return null;
+  return `المشرف وصل للحد الأقصى من العيادات (${quota.queuesUsed} من ${quota.queuesLimit}) - يرجى زيادة الحصة أولاً`;
+}
@@ -0,0 +1,69 @@
+/**
+ * Queue Flow
+ * Patient status workflow on the dashboard: who is in service, who is called next and which actions
+ * apply to a patient. The transitions themselves run on the backend in one transaction
+ * (see queuesApiClient.callNextPatient / markPatientNoShow / skipPatient).
+ *
+ * Patients without a (known) status are treated as waiting, as on the backend (QueueFlowService).
+ */
+
+import { normalizePatientStatus, PATIENT_STATUS_OPTIONS } from './conditionCriteria';
+import type { ConditionPatientStatus } from '../types/messageCondition';
+
+export interface QueueFlowPatient {
+  id: string;
+  position?: number;
+  status?: string;
+}
+
+export const PATIENT_STATUS_BADGE_CLASSES: Record<ConditionPatientStatus, string> = {
+  waiting: 'bg-gray-100 text-gray-700',
+  in_service: 'bg-green-100 text-green-800',
+  completed: 'bg-blue-100 text-blue-800',
+  cancelled: 'bg-red-100 text-red-700',
+};
+
+export function getFlowStatus(status: string | undefined): ConditionPatientStatus {
+  return normalizePatientStatus(status) ?? 'waiting';
+}
+
+export function getFlowStatusLabel(status: string | undefined): string {
+  const value = getFlowStatus(status);
+  return PATIENT_STATUS_OPTIONS.find((o) => o.value === value)?.labelAr ?? value;
+}
+
+function byPosition<T extends QueueFlowPatient>(patients: T[]): T[] {
+  return [...patients].sort((a, b) => (a.position || 0) - (b.position || 0));
+}
+
+/**
+ * The patient currently in service, and the waiting patient that "call next" would call: the first one after
+ * the queue's current position, or the lowest waiting one when nobody waits after it
+ */
+export function getQueueFlowState<T extends QueueFlowPatient>(
+  patients: T[],
+  currentPosition = 0
+): { current: T | null; next: T | null; waitingCount: number } {
+  const sorted = byPosition(patients);
+  const waiting = sorted.filter((p) => getFlowStatus(p.status) === 'waiting');
+  return {
+    current: sorted.find((p) => getFlowStatus(p.status) === 'in_service') ?? null,
+    next: waiting.find((p) => (p.position || 0) > currentPosition) ?? waiting[0] ?? null,
+    waitingCount: waiting.length,
+  };
+}
+
+/**
+ * Patients that have not finished: waiting or in service
+ */
+export function isActiveFlowStatus(status: string | undefined): boolean {
+  const value = getFlowStatus(status);
+  return value === 'waiting' || value === 'in_service';
+}
+
+/**
+ * No-show and skip apply only to patients that have not finished (waiting or in service)
+ */
+export function canChangeFlowStatus(status: string | undefined): boolean {
+  return isActiveFlowStatus(status);
+}
@@ -14,6 +14,9 @@
  * Patients at position <= CQP are EXCLUDED from messaging and preview
  */
 
+import { conditionToRange, matchesOffset } from './conditionRules';
+import { isDoNotContact } from './doNotContact';
+
 /**
  * Calculate relative offset from CQP
  * @param patientPosition - Patient's queue position (e.g., 5)
@@ -67,6 +70,9 @@ export const formatPositionDisplay = (
  * CRITICAL: Conditions evaluate using RELATIVE OFFSET from CQP, not absolute position
  * offset = patient_position - CQP
  *
+ * Thin adapter over utils/conditionRules for the legacy lowercase operators:
+ * values must be whole numbers >= 1 and range bounds are required.
+ *
  * @param patientPosition - Patient's queue position
  * @param operator - Comparison operator
  * @param value - Condition value (for equals/greater/less)
@@ -100,34 +106,8 @@ export const matchesCondition = (
   const offset =
     cqp !== undefined ? patientPosition - cqp : patientPosition;
 
-  switch (operator) {
-    case 'equals': {
-      if (!value) return false;
-      const targetOffset = parseInt(value, 10);
-      return !isNaN(targetOffset) && offset === targetOffset;
-    }
-
-    case 'greater': {
-      if (!value) return false;
-      const targetOffset = parseInt(value, 10);
-      return !isNaN(targetOffset) && offset > targetOffset;
-    }
-
-    case 'less': {
-      if (!value) return false;
-      const targetOffset = parseInt(value, 10);
-      return !isNaN(targetOffset) && offset < targetOffset;
-    }
-
-    case 'range': {
-      const min = minValue ?? 0;
-      const max = maxValue ?? 999;
-      return offset >= min && offset <= max;
-    }
-
-    default:
-      return false;
-  }
+  // Step 2: Evaluate with the shared condition rules
+  return matchesOffset({ operator, value, minValue, maxValue }, offset);
 };
 
 /**
@@ -234,9 +214,7 @@ export const getQueueSummary = (
  * Validate condition parameters
  * Returns error message if invalid, null if valid
  *
- * NOTE: Accepts negative offsets (positions before CQP) and positive offsets (after)
- * Example: offset -2 means 2 positions BEFORE CQP
- * Example: offset +5 means 5 positions AFTER CQP
+ * NOTE: Condition values are offsets AFTER CQP and must be >= 1 (see utils/conditionRules)
  */
 export const validateConditionParams = (
   operator: 'equals' | 'greater' | 'less' | 'range',
@@ -251,19 +229,12 @@ export const validateConditionParams = (
     if (minValue > maxValue) {
       return 'Min offset cannot be greater than max offset';
     }
-    // Offset can be negative (before CQP) or positive (after CQP)
-    if (minValue < -1000 || maxValue > 1000) {
-      return 'Offset values must be between -1000 and 1000';
-    }
-  } else {
-    if (!value || isNaN(parseInt(value, 10))) {
-      return 'Valid offset number required';
-    }
-    const numValue = parseInt(value, 10);
-    // Offset can be negative (before CQP) or positive (after CQP)
-    if (numValue < -1000 || numValue > 1000) {
-      return 'Offset must be between -1000 and 1000';
-    }
+  } else if (!value || isNaN(parseInt(value, 10))) {
+    return 'Valid offset number required';
+  }
+
+  if (!conditionToRange({ operator, value, minValue, maxValue })) {
+    return 'Offset values must be whole numbers of at least 1';
   }
 
   return null;
@@ -291,19 +262,23 @@ export const isValidQueuePositions = (
  * 3. Return only matching eligible patients
  *
  * Patients at position <= CQP are ALWAYS excluded from messaging
+ * Patients whose number is on the do-not-contact list (when given) are ALWAYS excluded too
  */
-export const getMessageRecipients = (
-  allPatients: Array<{ id: string; queue: number; name: string }>,
+export const getMessageRecipients = <T extends { id: string; queue: number; name: string; phone?: string; countryCode?: string }>(
+  allPatients: T[],
   cqp: number,
   condition: {
     operator: 'equals' | 'greater' | 'less' | 'range';
     value?: string;
     minValue?: number;
     maxValue?: number;
-  }
-): Array<{ id: string; queue: number; name: string }> => {
-  // Step 1: FILTER - Exclude patients at or before CQP
-  const eligiblePatients = allPatients.filter((p) => p.queue > cqp);
+  },
+  doNotContact?: Set<string>
+): T[] => {
+  // Step 1: FILTER - Exclude patients at or before CQP, and patients who opted out
+  const eligiblePatients = allPatients.filter(
+    (p) => p.queue > cqp && !(doNotContact && isDoNotContact(doNotContact, p.phone, p.countryCode))
+  );
 
   // Step 2: EVALUATE - Apply condition to eligible patients only
   const recipients = eligiblePatients.filter((p) =>
@@ -328,16 +303,17 @@ export const getMessageRecipients = (
  * This ensures that the preview shows exactly what recipients will be
  * and respects the same business rules about excluding pre-CQP patients
  */
-export const getPreviewPatients = (
-  allPatients: Array<{ id: string; queue: number; name: string }>,
+export const getPreviewPatients = <T extends { id: string; queue: number; name: string; phone?: string; countryCode?: string }>(
+  allPatients: T[],
   cqp: number,
   condition: {
     operator: 'equals' | 'greater' | 'less' | 'range';
     value?: string;
     minValue?: number;
     maxValue?: number;
-  }
-): Array<{ id: string; queue: number; name: string }> => {
+  },
+  doNotContact?: Set<string>
+): T[] => {
   // Same logic as getMessageRecipients - ensures consistency
-  return getMessageRecipients(allPatients, cqp, condition);
+  return getMessageRecipients(allPatients, cqp, condition, doNotContact);
 };
@@ -0,0 +1,34 @@
+/**
+ * Public Queue Status
+ * Personal status link sent in messages ({LINK}) and what the public status page shows for it.
+ * ETR uses the same rule as the {ETR} placeholder: patients ahead × ETS.
+ */
+
+import { formatEstimatedTime } from './templatePlaceholders';
+import type { PublicQueueStatusDto } from '../services/api/queueStatusApiClient';
+
+export type QueueStatusState = 'waiting' | 'your_turn' | 'done' | 'cancelled';
+
+export interface QueueStatusView {
+  state: QueueStatusState;
+  ahead: number;       // patients before this one (0 once it is their turn)
+  etrMinutes: number;
+  etrText: string;
+}
+
+export function getQueueStatusUrl(origin: string, token: string): string {
+  return `${origin.replace(/\/+$/, '')}/status/${encodeURIComponent(token)}`;
+}
+
+export function getQueueStatusView(status: PublicQueueStatusDto): QueueStatusView {
+  const ets = status.estimatedWaitMinutes > 0 ? status.estimatedWaitMinutes : 15;
+  const ahead = Math.max(0, status.patientPosition - status.currentPosition);
+
+  let state: QueueStatusState = 'waiting';
+  if (status.patientStatus === 'completed') state = 'done';
+  else if (status.patientStatus === 'cancelled') state = 'cancelled';
+  else if (status.patientStatus === 'in_service' || ahead === 0) state = 'your_turn';
+
+  const etrMinutes = state === 'waiting' ? ahead * ets : 0;
+  return { state, ahead: state === 'waiting' ? ahead : 0, etrMinutes, etrText: formatEstimatedTime(etrMinutes) };
+}
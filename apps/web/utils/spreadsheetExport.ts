@@ -0,0 +1,119 @@
+/**
+ * Spreadsheet Export
+ * Excel/CSV exports of a queue's patients (PatientsManagementView) and of a session's message results
+ * (CompletedTasksPanel, FailedTasksPanel). Sheets have Arabic headers and are written right-to-left.
+ */
+
+import { formatLocalDateTime } from './dateTimeUtils';
+import type { PatientDto } from '../services/api/patientsApiClient';
+import type { SessionMessageResultDto } from '../services/api/messageApiClient';
+
+export type ExportFormat = 'xlsx' | 'csv';
+
+export type ExportCell = string | number;
+
+export const PATIENT_STATUS_LABELS: Record<string, string> = {
+  waiting: 'في الانتظار',
+  in_service: 'قيد الخدمة',
+  completed: 'مكتمل',
+  cancelled: 'ملغي',
+};
+
+export const MESSAGE_STATUS_LABELS: Record<string, string> = {
+  sent: 'تم الإرسال',
+  delivered: 'تم التسليم',
+  read: 'تمت القراءة',
+  failed: 'فشل',
+  queued: 'في قائمة الانتظار',
+  pending: 'معلق',
+  sending: 'جاري الإرسال',
+};
+
+const PATIENT_HEADERS = ['الترتيب', 'الاسم الكامل', 'كود الدولة', 'رقم الهاتف', 'رقم واتساب صالح', 'الحالة'];
+
+const SESSION_RESULT_HEADERS = ['الاسم', 'كود الدولة', 'رقم الهاتف', 'الحالة', 'عدد المحاولات', 'سبب الفشل', 'نص الرسالة', 'وقت الإرسال'];
+
+export function whatsAppValidityLabel(value: boolean | null | undefined): string {
+  if (value === true) return 'نعم';
+  if (value === false) return 'لا';
+  return 'غير محقق';
+}
+
+/**
+ * Header row + one row per patient, ordered by position
+ */
+export function buildPatientExportRows(patients: PatientDto[]): ExportCell[][] {
+  const rows = [...patients]
+    .sort((a, b) => a.position - b.position)
+    .map((p) => [
+      p.position,
+      p.fullName,
+      p.countryCode || '',
+      p.phoneNumber,
+      whatsAppValidityLabel(p.isValidWhatsAppNumber),
+      PATIENT_STATUS_LABELS[p.status] || p.status,
+    ]);
+  return [PATIENT_HEADERS, ...rows];
+}
+
+/**
+ * Header row + one row per message of the session
+ */
+export function buildSessionResultRows(messages: SessionMessageResultDto[]): ExportCell[][] {
+  const rows = messages.map((m) => [
+    m.name,
+    m.countryCode || '',
+    m.phone,
+    MESSAGE_STATUS_LABELS[m.status] || m.status,
+    m.attempts ?? 0,
+    m.failedReason || '',
+    m.messageContent || '',
+    m.sentAt ? formatLocalDateTime(m.sentAt) : '',
+  ]);
+  return [SESSION_RESULT_HEADERS, ...rows];
+}
+
+/**
+ * "<prefix>-YYYY-MM-DD.<ext>" with characters that are invalid in file names removed from the prefix
+ */
+export function buildExportFileName(prefix: string, format: ExportFormat, date: Date = new Date()): string {
+  const safePrefix = prefix.replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '_').trim() || 'export';
+  return `${safePrefix}-${date.toLocaleDateString('en-CA')}.${format}`;
+}
+
+/**
+ * Write rows to an RTL Excel workbook or a UTF-8 CSV (with BOM so Excel reads Arabic correctly) and download it
+ */
+export async function downloadSpreadsheet(
+  rows: ExportCell[][],
+  options: { fileName: string; sheetName: string; format: ExportFormat }
+): Promise<void> {
+  const XLSX = await import('xlsx');
+  const worksheet = XLSX.utils.aoa_to_sheet(rows);
+
+  // Column widths from the longest value in each column (capped for long message texts)
+  worksheet['!cols'] = (rows[0] || []).map((_, col) => ({
+    wch: Math.min(60, Math.max(10, ...rows.map((row) => String(row[col] ?? '').length + 2))),
+  }));
+
+  if (options.format === 'csv') {
+    const csvContent = XLSX.utils.sheet_to_csv(worksheet);
+    const blob = new Blob(['\uFEFF' + csvContent], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', options.fileName);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+    return;
+  }
+
+  const workbook = XLSX.utils.book_new();
+  workbook.Workbook = { Views: [{ RTL: true }] };
+  // Sheet names are limited to 31 characters and can't contain : \ / ? * [ ]
+  XLSX.utils.book_append_sheet(workbook, worksheet, options.sheetName.replace(/[:\\/?*[\]]/g, '').substring(0, 31) || 'Sheet1');
+  XLSX.writeFile(workbook, options.fileName);
+}
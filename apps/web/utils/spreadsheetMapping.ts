@@ -0,0 +1,233 @@
+/**
+ * Spreadsheet Column Mapping
+ * Maps the columns of an uploaded patient spreadsheet to patient fields (UploadModal mapping step):
+ * guessing roles from headers, combining first/last name columns, reordering "Last, First" names,
+ * splitting combined "+20 10..." numbers, and named presets that are re-applied by header name.
+ */
+
+import { splitInternationalPhone } from './phoneUtils';
+
+export type SpreadsheetCell = string | number | boolean | null | undefined;
+
+export type ColumnRole =
+  | 'ignore'
+  | 'fullName'
+  | 'firstName'
+  | 'lastName'
+  | 'phone'             // national number
+  | 'countryCode'
+  | 'phoneWithCountry'; // "+20 10 1234 5678" - split into country code and national number
+
+/** How a full name column is written; 'lastCommaFirst' turns "Ali, Ahmed" into "Ahmed Ali" */
+export type NameFormat = 'asIs' | 'lastCommaFirst';
+
+export interface MappingOptions {
+  nameFormat: NameFormat;
+}
+
+export interface ColumnMappingPreset {
+  name: string;
+  columns: Record<string, ColumnRole>; // normalized header -> role, so column order may change between files
+  options: MappingOptions;
+  sheetName?: string;                  // preferred sheet in multi-sheet workbooks
+}
+
+export interface MappedPatientRow {
+  rowNumber: number;     // 1-based row in the sheet (as shown by Excel)
+  fullName: string;
+  phoneNumber: string;
+  countryCode?: string;  // undefined when the file has no country code for this row (default applies)
+}
+
+export const COLUMN_ROLE_LABELS: Record<ColumnRole, string> = {
+  ignore: 'تجاهل',
+  fullName: 'الاسم الكامل',
+  firstName: 'الاسم الأول',
+  lastName: 'اسم العائلة',
+  phone: 'رقم الهاتف',
+  countryCode: 'كود الدولة',
+  phoneWithCountry: 'الهاتف مع كود الدولة',
+};
+
+export const DEFAULT_MAPPING_OPTIONS: MappingOptions = { nameFormat: 'asIs' };
+
+// Roles at most one column can have
+const SINGLE_COLUMN_ROLES: ColumnRole[] = ['phone', 'countryCode', 'phoneWithCountry'];
+
+const cellText = (cell: SpreadsheetCell) => (cell === null || cell === undefined ? '' : String(cell).trim());
+
+// Arabic-Indic digits (٠-٩) to 0-9
+const toLatinDigits = (value: string) => value.replace(/[٠-٩]/g, (d) => String(d.charCodeAt(0) - 0x0660));
+
+/**
+ * Header text used to match preset columns (case, spacing and punctuation insensitive)
+ */
+export function normalizeHeader(header: SpreadsheetCell): string {
+  return cellText(header)
+    .toLowerCase()
+    .replace(/[\s_\-.:]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Index of the header row: the first row with at least two filled cells
+ * (exports often start with a title row)
+ */
+export function detectHeaderRow(rows: SpreadsheetCell[][]): number {
+  const index = rows.findIndex((row) => row.filter((cell) => cellText(cell) !== '').length >= 2);
+  return index === -1 ? 0 : index;
+}
+
+/**
+ * Best guess of a column's role from its header
+ */
+export function guessColumnRole(header: SpreadsheetCell): ColumnRole {
+  const h = normalizeHeader(header);
+  if (!h) return 'ignore';
+
+  if (/first ?name|given ?name|الاسم الأول|الاسم الاول/.test(h)) return 'firstName';
+  if (/last ?name|family ?name|surname|اسم العائلة|العائلة|اللقب/.test(h)) return 'lastName';
+  if (/country|كود|مفتاح|الدولة/.test(h)) return 'countryCode';
+  if (/phone|mobile|tel|cell|whatsapp|هاتف|جوال|موبايل|محمول|تليفون|واتس/.test(h)) return 'phone';
+  if (/name|الاسم|اسم/.test(h)) return 'fullName';
+  return 'ignore';
+}
+
+/**
+ * Guessed roles for every column; single-column roles go to the first matching column only
+ */
+export function guessColumnRoles(headers: SpreadsheetCell[]): ColumnRole[] {
+  const used = new Set<ColumnRole>();
+  return headers.map((header) => {
+    const role = guessColumnRole(header);
+    if (SINGLE_COLUMN_ROLES.includes(role)) {
+      if (used.has(role)) return 'ignore';
+      used.add(role);
+    }
+    return role;
+  });
+}
+
+/**
+ * If sample values of the phone column carry a "+"/"00" country prefix, map it as phoneWithCountry
+ */
+export function refineRolesWithSamples(roles: ColumnRole[], sampleRows: SpreadsheetCell[][]): ColumnRole[] {
+  return roles.map((role, index) => {
+    if (role !== 'phone' || roles.includes('countryCode')) return role;
+    const values = sampleRows.map((row) => cellText(row[index])).filter(Boolean);
+    return values.length > 0 && values.every((v) => splitInternationalPhone(toLatinDigits(v)) !== null)
+      ? 'phoneWithCountry'
+      : role;
+  });
+}
+
+/**
+ * Roles from a preset, matched by header name; columns unknown to the preset are ignored
+ */
+export function applyPreset(headers: SpreadsheetCell[], preset: ColumnMappingPreset): ColumnRole[] {
+  return headers.map((header) => preset.columns[normalizeHeader(header)] ?? 'ignore');
+}
+
+/**
+ * Whether every column the preset maps (other than ignored ones) exists in the headers
+ */
+export function presetMatchesHeaders(headers: SpreadsheetCell[], preset: ColumnMappingPreset): boolean {
+  const available = new Set(headers.map(normalizeHeader));
+  const mapped = Object.entries(preset.columns).filter(([, role]) => role !== 'ignore');
+  return mapped.length > 0 && mapped.every(([header]) => available.has(header));
+}
+
+export function createPreset(
+  name: string,
+  headers: SpreadsheetCell[],
+  roles: ColumnRole[],
+  options: MappingOptions,
+  sheetName?: string
+): ColumnMappingPreset {
+  const columns: Record<string, ColumnRole> = {};
+  headers.forEach((header, index) => {
+    const key = normalizeHeader(header);
+    if (key && roles[index] && roles[index] !== 'ignore') columns[key] = roles[index];
+  });
+  return { name: name.trim(), columns, options, sheetName };
+}
+
+/**
+ * Why the mapping can't be used, or null when it is complete
+ */
+export function validateMapping(roles: ColumnRole[]): string | null {
+  const hasName = roles.some((r) => r === 'fullName' || r === 'firstName' || r === 'lastName');
+  if (!hasName) return 'يرجى تحديد عمود الاسم (الاسم الكامل أو الاسم الأول/اسم العائلة)';
+
+  if (!roles.includes('phone') && !roles.includes('phoneWithCountry')) {
+    return 'يرجى تحديد عمود رقم الهاتف';
+  }
+
+  const duplicate = SINGLE_COLUMN_ROLES.find((role) => roles.filter((r) => r === role).length > 1);
+  if (duplicate) return `لا يمكن اختيار "${COLUMN_ROLE_LABELS[duplicate]}" لأكثر من عمود`;
+
+  if (roles.includes('phoneWithCountry') && (roles.includes('phone') || roles.includes('countryCode'))) {
+    return 'عمود "الهاتف مع كود الدولة" لا يُستخدم مع عمودي الهاتف وكود الدولة المنفصلين';
+  }
+
+  return null;
+}
+
+function formatName(value: string, format: NameFormat): string {
+  if (format === 'lastCommaFirst' && value.includes(',')) {
+    const [last, ...rest] = value.split(',');
+    return `${rest.join(' ').trim()} ${last.trim()}`.trim();
+  }
+  return value;
+}
+
+function cleanPhone(value: string): string {
+  return toLatinDigits(value).replace(/[\s\-().]/g, '');
+}
+
+function cleanCountryCode(value: string): string {
+  const digits = toLatinDigits(value).replace(/\D/g, '').replace(/^00/, '');
+  return digits ? `+${digits}` : '';
+}
+
+/**
+ * Patient rows from the data rows of a sheet (header row excluded); fully empty rows are skipped.
+ * Name columns are combined in the order first name, full name columns, last name.
+ */
+export function mapRows(
+  dataRows: SpreadsheetCell[][],
+  roles: ColumnRole[],
+  options: MappingOptions = DEFAULT_MAPPING_OPTIONS,
+  firstRowNumber = 2
+): MappedPatientRow[] {
+  const columnsWith = (role: ColumnRole) => roles.flatMap((r, index) => (r === role ? [index] : []));
+  const nameColumns = [...columnsWith('firstName'), ...columnsWith('fullName'), ...columnsWith('lastName')];
+  const phoneColumn = roles.indexOf('phone');
+  const countryColumn = roles.indexOf('countryCode');
+  const combinedColumn = roles.indexOf('phoneWithCountry');
+
+  const mapped: MappedPatientRow[] = [];
+  dataRows.forEach((row, index) => {
+    if (row.every((cell) => cellText(cell) === '')) return;
+
+    const fullName = nameColumns
+      .map((column) => formatName(cellText(row[column]), options.nameFormat))
+      .filter(Boolean)
+      .join(' ')
+      .replace(/\s+/g, ' ');
+
+    let phoneNumber = phoneColumn >= 0 ? cleanPhone(cellText(row[phoneColumn])) : '';
+    let countryCode = countryColumn >= 0 ? cleanCountryCode(cellText(row[countryColumn])) || undefined : undefined;
+
+    if (combinedColumn >= 0) {
+      const combined = toLatinDigits(cellText(row[combinedColumn]));
+      const split = splitInternationalPhone(combined);
+      phoneNumber = split ? split.phone : cleanPhone(combined);
+      countryCode = split?.countryCode;
+    }
+
+    mapped.push({ rowNumber: firstRowNumber + index, fullName, phoneNumber, countryCode });
+  });
+
+  return mapped;
+}
@@ -0,0 +1,159 @@
+/**
+ * Template Diff
+ * Line diff of template text and field-by-field diff of the condition,
+ * used by the version history drawer (TemplateHistoryDrawer) to compare versions side by side.
+ */
+
+import type { TemplateVersionCondition } from '../types/messageTemplate';
+import { describeCriteria } from './conditionCriteria';
+
+export type DiffLineType = 'same' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+export interface SideBySideCell {
+  lineNumber: number;
+  text: string;
+  changed: boolean;
+}
+
+/** One row of the side-by-side view; a missing side means the line only exists on the other one */
+export interface SideBySideRow {
+  before?: SideBySideCell;
+  after?: SideBySideCell;
+}
+
+export interface ConditionChange {
+  field: 'rule' | 'criteria';
+  label: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * Line diff (longest common subsequence), in reading order
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+  return lines;
+}
+
+/**
+ * Side-by-side rows: unchanged lines face each other, and a block of removed lines
+ * is paired row by row with the block of added lines that replaces it
+ */
+export function buildSideBySideDiff(before: string, after: string): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let beforeLine = 0;
+  let afterLine = 0;
+  let removed: string[] = [];
+  let added: string[] = [];
+
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({
+        before: k < removed.length ? { lineNumber: ++beforeLine, text: removed[k], changed: true } : undefined,
+        after: k < added.length ? { lineNumber: ++afterLine, text: added[k], changed: true } : undefined,
+      });
+    }
+    removed = [];
+    added = [];
+  };
+
+  diffLines(before, after).forEach((line) => {
+    if (line.type === 'removed') {
+      removed.push(line.text);
+    } else if (line.type === 'added') {
+      added.push(line.text);
+    } else {
+      flush();
+      rows.push({
+        before: { lineNumber: ++beforeLine, text: line.text, changed: false },
+        after: { lineNumber: ++afterLine, text: line.text, changed: false },
+      });
+    }
+  });
+  flush();
+
+  return rows;
+}
+
+const OPERATOR_LABELS: Record<string, string> = {
+  UNCONDITIONED: 'بدون شرط',
+  DEFAULT: 'افتراضي',
+  EQUAL: 'يساوي',
+  GREATER: 'أكبر من',
+  LESS: 'أصغر من',
+  RANGE: 'نطاق',
+};
+
+/**
+ * Display text of a version's condition rule ("نطاق 3 - 7", "افتراضي")
+ */
+export function describeVersionCondition(condition?: TemplateVersionCondition): string {
+  if (!condition) return 'بدون شرط';
+  const label = OPERATOR_LABELS[condition.operator] || condition.operator;
+  if (condition.operator === 'RANGE') return `${label} ${condition.minValue} - ${condition.maxValue}`;
+  if (condition.operator === 'EQUAL' || condition.operator === 'GREATER' || condition.operator === 'LESS') {
+    return `${label} ${condition.value}`;
+  }
+  return label;
+}
+
+/**
+ * Condition fields that differ between two versions (empty when unchanged)
+ */
+export function diffConditions(
+  before?: TemplateVersionCondition,
+  after?: TemplateVersionCondition
+): ConditionChange[] {
+  const changes: ConditionChange[] = [];
+
+  const ruleBefore = describeVersionCondition(before);
+  const ruleAfter = describeVersionCondition(after);
+  if (ruleBefore !== ruleAfter) {
+    changes.push({ field: 'rule', label: 'الشرط', before: ruleBefore, after: ruleAfter });
+  }
+
+  const criteriaBefore = before ? describeCriteria(before) : '';
+  const criteriaAfter = after ? describeCriteria(after) : '';
+  if (criteriaBefore !== criteriaAfter) {
+    changes.push({
+      field: 'criteria',
+      label: 'المعايير الإضافية',
+      before: criteriaBefore || 'لا يوجد',
+      after: criteriaAfter || 'لا يوجد',
+    });
+  }
+
+  return changes;
+}
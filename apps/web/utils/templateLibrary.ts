@@ -0,0 +1,66 @@
+/**
+ * Template Library
+ * Search, category and scope filtering for the shared template library (TemplateLibraryTab).
+ * Search is forgiving for Arabic: diacritics are ignored and alef/yaa/taa marbuta variants match each other.
+ */
+
+import type { LibraryTemplate } from '../types/messageTemplate';
+
+export type LibraryScopeFilter = 'all' | LibraryTemplate['scope'];
+
+export interface LibraryFilter {
+  search?: string;
+  category?: string | null; // null/undefined = all categories, '' = uncategorized only
+  scope?: LibraryScopeFilter;
+}
+
+export const UNCATEGORIZED_LABEL = 'بدون تصنيف';
+
+/**
+ * Normalize text for searching: lowercase, no tashkeel/tatweel, unified letter variants
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[\u064B-\u0652\u0670\u0640]/g, '') // tashkeel, superscript alef, tatweel
+    .replace(/[\u0622\u0623\u0625\u0671]/g, 'ا')
+    .replace(/ى/g, 'ي')
+    .replace(/ة/g, 'ه')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Templates matching every part of the filter; search looks at title, content and category
+ */
+export function filterLibraryTemplates(templates: LibraryTemplate[], filter: LibraryFilter): LibraryTemplate[] {
+  const terms = normalizeSearchText(filter.search || '').split(' ').filter(Boolean);
+
+  return templates.filter((template) => {
+    if (filter.scope && filter.scope !== 'all' && template.scope !== filter.scope) return false;
+    if (filter.category !== undefined && filter.category !== null && (template.category || '') !== filter.category) {
+      return false;
+    }
+    if (terms.length === 0) return true;
+
+    const haystack = normalizeSearchText(`${template.title} ${template.content} ${template.category || ''}`);
+    return terms.every((term) => haystack.includes(term));
+  });
+}
+
+/**
+ * Distinct categories with their template counts, alphabetical; uncategorized ('') last
+ */
+export function getLibraryCategories(templates: LibraryTemplate[]): Array<{ category: string; count: number }> {
+  const counts = new Map<string, number>();
+  templates.forEach((template) => {
+    const category = template.category || '';
+    counts.set(category, (counts.get(category) || 0) + 1);
+  });
+
+  return Array.from(counts, ([category, count]) => ({ category, count })).sort((a, b) => {
+    if (!a.category) return 1;
+    if (!b.category) return -1;
+    return a.category.localeCompare(b.category, 'ar');
+  });
+}
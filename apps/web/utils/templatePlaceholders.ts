@@ -0,0 +1,396 @@
+/**
+ * Template Placeholder Engine
+ * Single implementation of placeholder parsing/rendering used by preview, validation and editors.
+ * The backend renderer (ContentVariableResolver.cs) implements the same rules - keep them in sync.
+ *
+ * Syntax:
+ * - {KEY}            → value of KEY
+ * - {KEY|fallback}   → value of KEY, or "fallback" when the value is missing/empty
+ *                      (without "|fallback": the built-in default, see buildDefaultFallbacks, or empty)
+ * - {{#if OFFSET<=2}}...{{else}}...{{/if}}
+ *                    → conditional section; operators: < <= > >= == !=, or a bare KEY (non-empty)
+ *                      Operands are numbers or quoted strings; blocks may be nested
+ *
+ * Keys are UPPERCASE letters, digits and underscores, starting with a letter.
+ * Built-in keys come from TEMPLATE_PLACEHOLDERS; queues may define extra custom variables.
+ * Unknown keys are left untouched when rendering and reported by validation.
+ */
+
+import { TEMPLATE_PLACEHOLDERS, type PlaceholderKey } from '../types/messageTemplate';
+
+export const PLACEHOLDER_REGEX = /\{([A-Z][A-Z0-9_]*)(?:\|([^{}]*))?\}/g;
+
+/** Valid custom variable key (same shape as built-in keys) */
+export const CUSTOM_VARIABLE_KEY_REGEX = /^[A-Z][A-Z0-9_]*$/;
+
+export const BUILT_IN_PLACEHOLDER_KEYS = Object.keys(TEMPLATE_PLACEHOLDERS) as PlaceholderKey[];
+
+export interface ParsedPlaceholder {
+  raw: string;        // full token, e.g. "{PN|عزيزي المريض}"
+  key: string;        // "PN"
+  fallback?: string;  // "عزيزي المريض"
+}
+
+export type PlaceholderValues = Record<string, string | number | null | undefined>;
+
+export interface PlaceholderContext {
+  patientId?: string | number;
+  patientName?: string;
+  patientPosition?: number;
+  currentQueuePosition?: number;
+  estimatedTimePerSessionMinutes?: number; // ETS, defaults to 15
+  queueName?: string;
+  statusLink?: string; // patient's public queue status page ({LINK}), see utils/queueStatus
+  customVariables?: Record<string, string>;
+  now?: Date;
+}
+
+/**
+ * Parse all placeholders in a template (in order, duplicates included)
+ */
+export function parsePlaceholders(template: string): ParsedPlaceholder[] {
+  const result: ParsedPlaceholder[] = [];
+  for (const match of template.matchAll(PLACEHOLDER_REGEX)) {
+    result.push({
+      raw: match[0],
+      key: match[1],
+      fallback: match[2],
+    });
+  }
+  return result;
+}
+
+/**
+ * Check whether a key is built-in or one of the given custom keys
+ */
+export function isKnownPlaceholder(key: string, customKeys: string[] = []): boolean {
+  return (BUILT_IN_PLACEHOLDER_KEYS as string[]).includes(key) || customKeys.includes(key);
+}
+
+/**
+ * Validate a custom variable key
+ * @returns Arabic error message, or null if valid
+ */
+export function validateCustomVariableKey(key: string, existingKeys: string[] = []): string | null {
+  if (!key) return 'اسم المتغير مطلوب';
+  if (!CUSTOM_VARIABLE_KEY_REGEX.test(key)) {
+    return 'اسم المتغير يجب أن يبدأ بحرف إنجليزي كبير ويحتوي على حروف كبيرة وأرقام و _ فقط';
+  }
+  if ((BUILT_IN_PLACEHOLDER_KEYS as string[]).includes(key)) {
+    return `المتغير {${key}} محجوز للنظام`;
+  }
+  if (existingKeys.includes(key)) {
+    return `المتغير {${key}} موجود بالفعل`;
+  }
+  return null;
+}
+
+/**
+ * Format estimated time remaining (minutes) - mirrors ContentVariableResolver.FormatTimeDisplay
+ */
+export function formatEstimatedTime(minutes: number): string {
+  if (minutes <= 0) return 'الآن';
+  if (minutes <= 5) return 'أقل من 5 دقائق';
+  if (minutes <= 60) return `${minutes} دقيقة`;
+  if (minutes <= 120) return 'ساعة واحدة';
+
+  const hours = Math.floor(minutes / 60);
+  const remainingMinutes = minutes % 60;
+  if (remainingMinutes === 0) return `${hours} ساعات`;
+  return `${hours} ساعات و ${remainingMinutes} دقيقة`;
+}
+
+const pad2 = (n: number) => String(n).padStart(2, '0');
+
+/** dd/MM/yyyy (same format as the backend renderer) */
+function formatDate(date: Date): string {
+  return `${pad2(date.getDate())}/${pad2(date.getMonth() + 1)}/${date.getFullYear()}`;
+}
+
+/** HH:mm, 24-hour (same format as the backend renderer) */
+function formatTime(date: Date): string {
+  return `${pad2(date.getHours())}:${pad2(date.getMinutes())}`;
+}
+
+/**
+ * Build placeholder values for a patient from queue/patient context.
+ * Values that cannot be computed are left undefined so fallbacks apply.
+ */
+export function buildPlaceholderValues(ctx: PlaceholderContext): PlaceholderValues {
+  const now = ctx.now ?? new Date();
+  const ets = ctx.estimatedTimePerSessionMinutes && ctx.estimatedTimePerSessionMinutes > 0
+    ? ctx.estimatedTimePerSessionMinutes
+    : 15;
+
+  const hasPositions = typeof ctx.patientPosition === 'number' && typeof ctx.currentQueuePosition === 'number';
+  const offset = hasPositions ? ctx.patientPosition! - ctx.currentQueuePosition! : undefined;
+  const etrMinutes = offset !== undefined ? Math.max(0, offset) * ets : undefined;
+
+  const values: PlaceholderValues = {
+    PN: ctx.patientName,
+    PQP: ctx.patientPosition,
+    CQP: ctx.currentQueuePosition,
+    ETR: etrMinutes !== undefined ? formatEstimatedTime(etrMinutes) : undefined,
+    DN: ctx.queueName,
+    CN: ctx.queueName,
+    QN: ctx.queueName,
+    DATE: formatDate(now),
+    TIME: formatTime(now),
+    APPT_TIME: etrMinutes !== undefined ? formatTime(new Date(now.getTime() + etrMinutes * 60000)) : undefined,
+    OFFSET: offset,
+    LINK: ctx.statusLink,
+  };
+
+  // Custom variables never override built-in keys
+  Object.entries(ctx.customVariables || {}).forEach(([key, value]) => {
+    if (!(key in values)) values[key] = value;
+  });
+
+  return values;
+}
+
+/**
+ * Defaults for empty values when the token has no "|fallback" - same as ContentVariableResolver:
+ * {PN} → "Patient ID: X", {DN}/{CN}/{QN} → "غير محدد"
+ */
+export function buildDefaultFallbacks(ctx: Pick<PlaceholderContext, 'patientId'>): Record<string, string> {
+  const defaults: Record<string, string> = { DN: 'غير محدد', CN: 'غير محدد', QN: 'غير محدد' };
+  if (ctx.patientId !== undefined && ctx.patientId !== '') {
+    defaults.PN = `Patient ID: ${ctx.patientId}`;
+  }
+  return defaults;
+}
+
+// ============================================
+// Conditional Blocks
+// ============================================
+
+const BLOCK_REGEX = /\{\{([^{}]*)\}\}/g;
+const CONDITION_REGEX = /^([A-Z][A-Z0-9_]*)\s*(?:(<=|>=|==|!=|<|>)\s*(-?\d+(?:\.\d+)?|"[^"]*"|'[^']*'))?$/;
+
+export type ComparisonOperator = '<' | '<=' | '>' | '>=' | '==' | '!=';
+
+export interface BlockCondition {
+  key: string;
+  operator?: ComparisonOperator; // undefined → true when the value is non-empty
+  operand?: string | number;
+}
+
+export type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'if'; condition: BlockCondition | null; then: TemplateNode[]; else: TemplateNode[] };
+
+export interface TemplateSyntaxError {
+  message: string;
+  start: number; // index in template
+  end: number;   // exclusive
+}
+
+/**
+ * Parse a "{{#if ...}}" expression, e.g. "OFFSET<=2", "PN", 'ROOM=="12"'
+ */
+export function parseBlockCondition(expression: string): BlockCondition | null {
+  const match = expression.trim().match(CONDITION_REGEX);
+  if (!match) return null;
+  const [, key, operator, rawOperand] = match;
+  if (!operator) return { key };
+  const operand = /^["']/.test(rawOperand) ? rawOperand.slice(1, -1) : Number(rawOperand);
+  return { key, operator: operator as ComparisonOperator, operand };
+}
+
+/**
+ * Parse a template into text and conditional block nodes.
+ * Errors are collected (not thrown) so editors can highlight every problem at once;
+ * a block with an invalid condition evaluates to false.
+ */
+export function parseTemplate(template: string): { nodes: TemplateNode[]; errors: TemplateSyntaxError[] } {
+  const root: TemplateNode[] = [];
+  const errors: TemplateSyntaxError[] = [];
+  const stack: Array<{ node: Extract<TemplateNode, { type: 'if' }>; inElse: boolean; start: number; end: number }> = [];
+  const target = () => {
+    const top = stack[stack.length - 1];
+    return top ? (top.inElse ? top.node.else : top.node.then) : root;
+  };
+  const pushText = (value: string) => {
+    if (value) target().push({ type: 'text', value });
+  };
+
+  let lastIndex = 0;
+  for (const match of template.matchAll(BLOCK_REGEX)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    const directive = match[1].trim();
+    pushText(template.slice(lastIndex, start));
+    lastIndex = end;
+
+    if (directive.startsWith('#if')) {
+      const expression = directive.slice(3).trim();
+      const condition = parseBlockCondition(expression);
+      if (!condition) {
+        errors.push({ message: `شرط غير صالح: "${expression}"`, start, end });
+      }
+      const node: Extract<TemplateNode, { type: 'if' }> = { type: 'if', condition, then: [], else: [] };
+      target().push(node);
+      stack.push({ node, inElse: false, start, end });
+    } else if (directive === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top) {
+        errors.push({ message: '{{else}} بدون {{#if}}', start, end });
+      } else if (top.inElse) {
+        errors.push({ message: 'تكرار {{else}} في نفس الشرط', start, end });
+      } else {
+        top.inElse = true;
+      }
+    } else if (directive === '/if') {
+      if (!stack.pop()) {
+        errors.push({ message: '{{/if}} بدون {{#if}}', start, end });
+      }
+    } else {
+      errors.push({ message: `كتلة غير معروفة: ${match[0]}`, start, end });
+      pushText(match[0]);
+    }
+  }
+  pushText(template.slice(lastIndex));
+
+  stack.forEach(({ start, end }) => {
+    errors.push({ message: '{{#if}} غير مغلق - أضف {{/if}}', start, end });
+  });
+
+  return { nodes: root, errors: errors.sort((a, b) => a.start - b.start) };
+}
+
+/**
+ * Collect the keys referenced by block conditions (for validation)
+ */
+export function getBlockConditionKeys(nodes: TemplateNode[]): string[] {
+  const keys: string[] = [];
+  nodes.forEach((node) => {
+    if (node.type !== 'if') return;
+    if (node.condition) keys.push(node.condition.key);
+    keys.push(...getBlockConditionKeys(node.then), ...getBlockConditionKeys(node.else));
+  });
+  return keys;
+}
+
+function isEmptyValue(value: PlaceholderValues[string]): boolean {
+  return value === undefined || value === null || String(value).trim() === '';
+}
+
+/**
+ * Evaluate a block condition against placeholder values.
+ * Ordering operators compare numerically (false if either side is not a number);
+ * == and != compare numerically when both sides are numbers, otherwise as strings.
+ */
+export function evaluateBlockCondition(condition: BlockCondition | null, values: PlaceholderValues): boolean {
+  if (!condition) return false;
+  const value = values[condition.key];
+  if (!condition.operator) return !isEmptyValue(value);
+  if (isEmptyValue(value)) return condition.operator === '!=';
+
+  const left = Number(value);
+  const right = Number(condition.operand);
+  const numeric = !isNaN(left) && !isNaN(right) && typeof condition.operand === 'number';
+
+  switch (condition.operator) {
+    case '==':
+      return numeric ? left === right : String(value) === String(condition.operand);
+    case '!=':
+      return numeric ? left !== right : String(value) !== String(condition.operand);
+    case '<':
+      return numeric && left < right;
+    case '<=':
+      return numeric && left <= right;
+    case '>':
+      return numeric && left > right;
+    case '>=':
+      return numeric && left >= right;
+    default:
+      return false;
+  }
+}
+
+function replacePlaceholders(text: string, values: PlaceholderValues, defaultFallbacks: Record<string, string>): string {
+  return text.replace(PLACEHOLDER_REGEX, (raw, key: string, fallback?: string) => {
+    if (!(key in values)) return raw;
+    const value = values[key];
+    if (isEmptyValue(value)) {
+      return fallback ?? defaultFallbacks[key] ?? '';
+    }
+    return String(value);
+  });
+}
+
+function renderNodes(nodes: TemplateNode[], values: PlaceholderValues, defaultFallbacks: Record<string, string>): string {
+  return nodes
+    .map((node) => {
+      if (node.type === 'text') return replacePlaceholders(node.value, values, defaultFallbacks);
+      return renderNodes(evaluateBlockCondition(node.condition, values) ? node.then : node.else, values, defaultFallbacks);
+    })
+    .join('');
+}
+
+/**
+ * Render a template with the given values.
+ * - Conditional blocks are evaluated first (best effort if the template has syntax errors)
+ * - Known key with a non-empty value → value
+ * - Known key with missing/empty value → fallback, else the default from defaultFallbacks, else empty string
+ * - Unknown key → token left as-is
+ */
+export function renderTemplate(
+  template: string,
+  values: PlaceholderValues,
+  defaultFallbacks: Record<string, string> = {}
+): string {
+  if (!template) return '';
+  return renderNodes(parseTemplate(template).nodes, values, defaultFallbacks);
+}
+
+export interface VariableOption {
+  code: string;        // "{PN}"
+  label: string;       // Arabic label
+  description: string; // English label
+  example: string;
+}
+
+/**
+ * Insertable variable options for template editors: the given built-in keys
+ * (all of them by default) followed by the queue's custom variables
+ */
+export function getVariableOptions(
+  keys: readonly PlaceholderKey[] = BUILT_IN_PLACEHOLDER_KEYS,
+  customVariables: Record<string, string> = {}
+): VariableOption[] {
+  return [
+    ...keys.map((key) => ({
+      code: `{${key}}`,
+      label: TEMPLATE_PLACEHOLDERS[key].labelAr,
+      description: TEMPLATE_PLACEHOLDERS[key].label,
+      example: TEMPLATE_PLACEHOLDERS[key].example,
+    })),
+    ...Object.entries(customVariables).map(([key, value]) => ({
+      code: `{${key}}`,
+      label: `متغير مخصص: ${key}`,
+      description: 'Custom Variable',
+      example: value,
+    })),
+  ];
+}
+
+/**
+ * Example values for editor previews
+ */
+export function getSamplePlaceholderValues(queueName?: string, customVariables?: Record<string, string>): PlaceholderValues {
+  const values: PlaceholderValues = {};
+  BUILT_IN_PLACEHOLDER_KEYS.forEach((key) => {
+    values[key] = TEMPLATE_PLACEHOLDERS[key].example;
+  });
+  if (queueName) {
+    values.DN = queueName;
+    values.CN = queueName;
+    values.QN = queueName;
+  }
+  Object.entries(customVariables || {}).forEach(([key, value]) => {
+    if (!(key in values)) values[key] = value;
+  });
+  return values;
+}
@@ -0,0 +1,110 @@
+/**
+ * Upload Error Report
+ * Splits the UploadModal preview into accepted and rejected rows, and writes the rejected rows to a workbook
+ * with an error column and highlighted invalid cells so they can be fixed in Excel and re-uploaded.
+ */
+
+export type PreviewRow = (string | number)[];
+
+export interface RejectedRow {
+  row: number;                       // row of the preview table
+  values: PreviewRow;
+  errors: Record<number, string>;    // column -> error message
+}
+
+/**
+ * Rows remembered after an error report is downloaded, merged into the next upload for the same queue
+ */
+export interface AcceptedUploadRows {
+  queueId: string;
+  fileName: string;
+  rows: PreviewRow[];
+  savedAt: string;
+}
+
+export const ERROR_COLUMN_HEADER = 'الأخطاء';
+
+const MISSING_VALUE_ERRORS: Record<number, string> = {
+  0: 'الاسم مطلوب',
+  2: 'رقم الهاتف مطلوب',
+};
+
+const isBlank = (value: string | number | undefined) => value === undefined || String(value).trim() === '';
+
+/**
+ * Split preview rows (header excluded) into accepted rows and rejected rows.
+ * A row is rejected when it has a cell error or a missing name/phone; rows with neither name nor phone are dropped
+ * (as the upload skips them).
+ * Cell errors are keyed "<row>-<column>" as in UploadModal.
+ */
+export function splitRowsByErrors(
+  table: PreviewRow[],
+  cellErrors: Record<string, string>
+): { accepted: PreviewRow[]; rejected: RejectedRow[] } {
+  const accepted: PreviewRow[] = [];
+  const rejected: RejectedRow[] = [];
+
+  table.slice(1).forEach((values, index) => {
+    const row = index + 1;
+    if (isBlank(values[0]) && isBlank(values[2])) return;
+
+    const errors: Record<number, string> = {};
+    values.forEach((_, column) => {
+      const error = cellErrors[`${row}-${column}`];
+      if (error) errors[column] = error;
+    });
+    Object.entries(MISSING_VALUE_ERRORS).forEach(([column, message]) => {
+      const col = Number(column);
+      if (!errors[col] && isBlank(values[col])) errors[col] = message;
+    });
+
+    if (Object.keys(errors).length > 0) {
+      rejected.push({ row, values, errors });
+    } else {
+      accepted.push(values);
+    }
+  });
+
+  return { accepted, rejected };
+}
+
+/**
+ * Header row + rejected rows, each followed by its errors joined in one cell
+ */
+export function buildErrorReportRows(headers: PreviewRow, rejected: RejectedRow[]): PreviewRow[] {
+  return [
+    [...headers, ERROR_COLUMN_HEADER],
+    ...rejected.map(({ values, errors }) => [
+      ...headers.map((_, column) => values[column] ?? ''),
+      Object.entries(errors)
+        .map(([column, message]) => `${headers[Number(column)]}: ${message}`)
+        .join(' | '),
+    ]),
+  ];
+}
+
+/**
+ * Download the rejected rows as an RTL workbook; invalid cells are highlighted and carry the error as a comment
+ */
+export async function downloadErrorReport(headers: PreviewRow, rejected: RejectedRow[], fileName: string): Promise<void> {
+  const XLSX = await import('xlsx');
+  const rows = buildErrorReportRows(headers, rejected);
+  const worksheet = XLSX.utils.aoa_to_sheet(rows);
+
+  worksheet['!cols'] = [...headers.map(() => ({ wch: 20 })), { wch: 50 }];
+
+  rejected.forEach(({ errors }, index) => {
+    Object.entries(errors).forEach(([column, message]) => {
+      const cellRef = XLSX.utils.encode_cell({ r: index + 1, c: Number(column) });
+      // Empty cells are not created by aoa_to_sheet
+      const cell = worksheet[cellRef] ?? (worksheet[cellRef] = { t: 's', v: '' });
+      cell.s = { fill: { fgColor: { rgb: 'FFFFC7CE' } }, font: { color: { rgb: 'FF9C0006' } } };
+      cell.c = [{ a: 'التحقق', t: message }];
+    });
+  });
+
+  const workbook = XLSX.utils.book_new();
+  workbook.Workbook = { Views: [{ RTL: true }] };
+  XLSX.utils.book_append_sheet(workbook, worksheet, 'صفوف مرفوضة');
+  XLSX.writeFile(workbook, fileName);
+}
@@ -0,0 +1,111 @@
+/**
+ * WhatsApp Number Verification
+ * Planning and result cache for the queue-level "verify all numbers" job (NumberVerificationContext).
+ * Results are cached per E.164 number so numbers verified recently are not checked again until the entry expires.
+ */
+
+import { getPhoneKey } from './phoneUtils';
+
+export interface VerificationCacheEntry {
+  hasWhatsApp: boolean;
+  checkedAt: string; // ISO timestamp
+}
+
+export type VerificationCache = Record<string, VerificationCacheEntry>; // E.164 number -> result
+
+export const VERIFICATION_CACHE_KEY = 'whatsAppVerificationCache';
+
+export const VERIFICATION_CACHE_TTL_DAYS = 7;
+
+export interface VerificationPatient {
+  id: number;
+  fullName: string;
+  phoneNumber: string;
+  countryCode?: string;
+  isValidWhatsAppNumber?: boolean | null;
+  status: string;
+}
+
+export interface VerificationPlan<T extends VerificationPatient> {
+  toCheck: Array<{ key: string; patients: T[] }>; // one check per distinct number
+  cached: Array<{ key: string; patients: T[]; hasWhatsApp: boolean }>;
+}
+
+// Patients who will not be messaged any more are not verified
+const SKIPPED_STATUSES = ['completed', 'cancelled'];
+
+/**
+ * Cache key of a number (see getPhoneKey)
+ */
+export function verificationKey(phoneNumber: string, countryCode?: string): string {
+  return getPhoneKey(phoneNumber, countryCode);
+}
+
+export function isCacheEntryFresh(
+  entry: VerificationCacheEntry | undefined,
+  now: Date = new Date(),
+  ttlDays: number = VERIFICATION_CACHE_TTL_DAYS
+): entry is VerificationCacheEntry {
+  if (!entry) return false;
+  const age = now.getTime() - new Date(entry.checkedAt).getTime();
+  return age >= 0 && age < ttlDays * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * Cache without expired entries
+ */
+export function pruneVerificationCache(
+  cache: VerificationCache,
+  now: Date = new Date(),
+  ttlDays: number = VERIFICATION_CACHE_TTL_DAYS
+): VerificationCache {
+  return Object.fromEntries(Object.entries(cache).filter(([, entry]) => isCacheEntryFresh(entry, now, ttlDays)));
+}
+
+/**
+ * Group the queue's patients by number and split them into numbers to check and numbers with a fresh cached result
+ */
+export function planVerification<T extends VerificationPatient>(
+  patients: T[],
+  cache: VerificationCache,
+  now: Date = new Date(),
+  ttlDays: number = VERIFICATION_CACHE_TTL_DAYS
+): VerificationPlan<T> {
+  const groups = new Map<string, T[]>();
+  patients
+    .filter((p) => p.phoneNumber && !SKIPPED_STATUSES.includes(p.status))
+    .forEach((p) => {
+      const key = verificationKey(p.phoneNumber, p.countryCode);
+      groups.set(key, [...(groups.get(key) ?? []), p]);
+    });
+
+  const plan: VerificationPlan<T> = { toCheck: [], cached: [] };
+  groups.forEach((groupPatients, key) => {
+    const entry = cache[key];
+    if (isCacheEntryFresh(entry, now, ttlDays)) {
+      plan.cached.push({ key, patients: groupPatients, hasWhatsApp: entry.hasWhatsApp });
+    } else {
+      plan.toCheck.push({ key, patients: groupPatients });
+    }
+  });
+  return plan;
+}
+
+export function loadVerificationCache(): VerificationCache {
+  if (typeof window === 'undefined') return {};
+  try {
+    const stored = localStorage.getItem(VERIFICATION_CACHE_KEY);
+    return stored ? pruneVerificationCache(JSON.parse(stored)) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveVerificationCache(cache: VerificationCache): void {
+  if (typeof window === 'undefined') return;
+  try {
+    localStorage.setItem(VERIFICATION_CACHE_KEY, JSON.stringify(cache));
+  } catch {
+    // Storage full or unavailable - results are still written to the patients
+  }
+}
@@ -23,7 +23,18 @@ const CONFIG = {
   reconnectDelay: 3000,
 
   // Max reconnect attempts
-  maxReconnectAttempts: 10
+  maxReconnectAttempts: 10,
+
+  // Delivery/read receipts: ticks are read from whatever WhatsApp already renders (the open chat and
+  // the chat list) - chats are never opened for them. How often unreported ticks are retried and
+  // expired messages dropped (ms), and how long a message is watched after sending
+  receiptReportInterval: 60000, // 1 minute
+  receiptTrackingWindow: 86400000, // 24 hours
+
+  // Patient replies: only numbers messaged within this window are forwarded (everything else in the
+  // moderator's WhatsApp stays private), and how many forwarded message ids are remembered for dedup
+  knownPatientWindow: 604800000, // 7 days
+  maxForwardedInboundIds: 500
 };
 
 // State
@@ -46,12 +57,18 @@ let state = {
   commandQueue: [],
   isProcessingCommand: false,
   // Track processed command IDs to prevent duplicates
-  processedCommandIds: new Set()
+  processedCommandIds: new Set(),
+  // Sent messages watched for delivered/read ticks: { messageId, phone, messageKey, status, statusAt, sentAt, reported }
+  trackedReceipts: [],
+  // Numbers we sent to recently, the only ones whose replies are forwarded: { [phone]: lastSentAt }
+  knownPatientPhones: {},
+  // WhatsApp ids of replies already forwarded (most recent last)
+  forwardedInboundIds: []
 };
 
 // Load configuration from storage
 async function loadConfig() {
-  const stored = await chrome.storage.local.get(['apiBaseUrl', 'deviceToken', 'backendDeviceId', 'moderatorId', 'moderatorUsername', 'moderatorName', 'leaseToken', 'isConnected', 'leaseId']);
+  const stored = await chrome.storage.local.get(['apiBaseUrl', 'deviceToken', 'backendDeviceId', 'moderatorId', 'moderatorUsername', 'moderatorName', 'leaseToken', 'isConnected', 'leaseId', 'trackedReceipts', 'knownPatientPhones', 'forwardedInboundIds']);
   if (stored.apiBaseUrl) {
     CONFIG.apiBaseUrl = stored.apiBaseUrl;
   }
@@ -80,6 +97,15 @@ async function loadConfig() {
   if (stored.isConnected) {
     state.isConnected = stored.isConnected;
   }
+  if (Array.isArray(stored.trackedReceipts)) {
+    state.trackedReceipts = stored.trackedReceipts;
+  }
+  if (stored.knownPatientPhones) {
+    state.knownPatientPhones = stored.knownPatientPhones;
+  }
+  if (Array.isArray(stored.forwardedInboundIds)) {
+    state.forwardedInboundIds = stored.forwardedInboundIds;
+  }
   console.log('[Extension] Config loaded:', { apiBaseUrl: CONFIG.apiBaseUrl, hasToken: !!state.deviceToken, isConnected: state.isConnected, hasLease: !!state.leaseToken });
 
   // If we were connected, restart heartbeat
@@ -114,7 +140,10 @@ async function clearDeviceToken() {
   state.moderatorId = null;
   state.moderatorUsername = null;
   state.moderatorName = null;
-  await chrome.storage.local.remove(['deviceToken', 'backendDeviceId', 'moderatorId', 'moderatorUsername', 'moderatorName']);
+  state.trackedReceipts = [];
+  state.knownPatientPhones = {};
+  state.forwardedInboundIds = [];
+  await chrome.storage.local.remove(['deviceToken', 'backendDeviceId', 'moderatorId', 'moderatorUsername', 'moderatorName', 'trackedReceipts', 'knownPatientPhones', 'forwardedInboundIds']);
   console.log('[Extension] Device token cleared');
 }
 
@@ -685,6 +714,10 @@ async function processCommand(command) {
         resultData: result.data
       });
       console.log('[Extension] Command completed successfully:', cmdId);
+      // Ticks seen while sending (already delivered/read) are reported once the message is marked sent
+      if (command.commandType === 'SendMessage') {
+        reportReceipts().catch(console.error);
+      }
     } else {
       await apiCall(`/api/extension/commands/${cmdId}/complete`, 'POST', {
         ...authPayload,
@@ -852,9 +885,57 @@ async function handleSendMessage(tab, command, authPayload) {
     cleanNumber = countryCode.replace('+', '') + cleanNumber.replace(/^0+/, '');
   }
 
-  const chatUrl = `https://web.whatsapp.com/send?phone=${cleanNumber}`;
+  console.log('[Extension] Phase 1 - Opening chat');
+  await openChat(tab, cleanNumber);
 
-  console.log('[Extension] Phase 1 - Navigating to chat URL:', chatUrl);
+  console.log('[Extension] Phase 2 - Sending message...');
+
+  // Send the message with increased timeout (120s) to account for:
+  // - Content script initialization delays
+  // - WhatsApp "Starting chat" dialog wait time
+  // - Message confirmation polling (up to 20s)
+  let result;
+  try {
+    result = await Promise.race([
+      chrome.tabs.sendMessage(tab.id, {
+        type: 'SEND_MESSAGE_ONLY',
+        text: messageText
+      }),
+      new Promise((_, reject) =>
+        setTimeout(() => reject(new Error('Send message timeout - 120 seconds')), 120000)
+      )
+    ]);
+  } catch (error) {
+    // OPTIMISTIC SUCCESS FALLBACK:
+    // If timeout occurs, the message was likely already sent in WhatsApp
+    // (the content script clicks send button, then polls for confirmation)
+    // The timeout usually happens during the confirmation polling phase,
+    // AFTER the message was actually sent. Treat as success to prevent duplicates.
+    if (error.message && error.message.includes('timeout')) {
+      console.warn('[Extension] SendMessage timed out - treating as optimistic success to prevent duplicate');
+      return {
+        success: true,
+        data: {
+          status: 'sent_optimistic',
+          message: 'Message likely sent but confirmation timed out'
+        }
+      };
+    }
+    throw error;
+  }
+
+  console.log('[Extension] SendMessage result:', result);
+  await trackReceipt(payload.messageId, cleanNumber, result?.data);
+  if (result?.success) {
+    await rememberPatientPhone(cleanNumber);
+  }
+  return result;
+}
+
+// Navigate the WhatsApp tab to a chat and wait until the content script reports 'connected'
+async function openChat(tab, cleanNumber) {
+  const chatUrl = `https://web.whatsapp.com/send?phone=${cleanNumber}`;
+  console.log('[Extension] Navigating to chat URL:', chatUrl);
 
   // Navigate to the chat URL directly (this handles navigation without needing content script)
   await chrome.tabs.update(tab.id, { url: chatUrl });
@@ -919,45 +1000,142 @@ async function handleSendMessage(tab, command, authPayload) {
   if (!contentReady) {
     throw new Error(`Content script not ready after navigation. Last status: ${lastStatus}`);
   }
+}
 
-  console.log('[Extension] Phase 2 - Sending message...');
+// ============================================
+// Delivery / read receipts
+// ============================================
 
-  // Send the message with increased timeout (120s) to account for:
-  // - Content script initialization delays
-  // - WhatsApp "Starting chat" dialog wait time
-  // - Message confirmation polling (up to 20s)
-  let result;
-  try {
-    result = await Promise.race([
-      chrome.tabs.sendMessage(tab.id, {
-        type: 'SEND_MESSAGE_ONLY',
-        text: messageText
-      }),
-      new Promise((_, reject) =>
-        setTimeout(() => reject(new Error('Send message timeout - 120 seconds')), 120000)
-      )
-    ]);
-  } catch (error) {
-    // OPTIMISTIC SUCCESS FALLBACK:
-    // If timeout occurs, the message was likely already sent in WhatsApp
-    // (the content script clicks send button, then polls for confirmation)
-    // The timeout usually happens during the confirmation polling phase,
-    // AFTER the message was actually sent. Treat as success to prevent duplicates.
-    if (error.message && error.message.includes('timeout')) {
-      console.warn('[Extension] SendMessage timed out - treating as optimistic success to prevent duplicate');
-      return {
-        success: true,
-        data: {
-          status: 'sent_optimistic',
-          message: 'Message likely sent but confirmation timed out'
-        }
-      };
+const RECEIPT_RANK = { pending: 0, sent: 1, delivered: 2, read: 3 };
+
+async function saveTrackedReceipts() {
+  await chrome.storage.local.set({ trackedReceipts: state.trackedReceipts });
+}
+
+// Start watching a sent message's ticks (needs WhatsApp's message id from the content script)
+async function trackReceipt(messageId, phone, sendResult) {
+  if (!messageId || !sendResult?.messageKey) {
+    return;
+  }
+
+  const status = sendResult.receipt && RECEIPT_RANK[sendResult.receipt] !== undefined ? sendResult.receipt : 'sent';
+  state.trackedReceipts = state.trackedReceipts.filter(r => r.messageId !== messageId);
+  state.trackedReceipts.push({
+    messageId,
+    phone,
+    messageKey: sendResult.messageKey,
+    status,
+    statusAt: new Date().toISOString(),
+    sentAt: new Date().toISOString(),
+    reported: RECEIPT_RANK[status] <= RECEIPT_RANK.sent
+  });
+  await saveTrackedReceipts();
+}
+
+// Report delivered/read changes to the server; it stores the timestamps and broadcasts MessageUpdated
+async function reportReceipts() {
+  const pending = state.trackedReceipts.filter(r => !r.reported);
+  if (pending.length === 0 || !state.leaseId || !state.leaseToken) {
+    return;
+  }
+
+  await apiCall('/api/extension/messages/receipts', 'POST', {
+    leaseId: state.leaseId,
+    leaseToken: state.leaseToken,
+    receipts: pending.map(r => ({ messageId: r.messageId, status: r.status, at: r.statusAt }))
+  });
+  console.log('[Extension] Reported receipts:', pending.length);
+
+  pending.forEach(r => { r.reported = true; });
+  // Read is final - stop watching those once the server knows
+  state.trackedReceipts = state.trackedReceipts.filter(r => !(r.reported && r.status === 'read'));
+  await saveTrackedReceipts();
+}
+
+// Apply ticks seen by the content script: { messageKey: status } for rows rendered in the open chat and
+// { phone: status } for the last message shown in the chat list. The chat list only shows the latest
+// message's ticks, which also cover the earlier messages of that chat (WhatsApp marks a chat read at once).
+async function applyReceipts(receipts, chatTicks) {
+  let changed = false;
+  for (const entry of state.trackedReceipts) {
+    const candidates = [receipts?.[entry.messageKey], chatTicks?.[normalizePhone(entry.phone)]];
+    for (const seen of candidates) {
+      if (seen && RECEIPT_RANK[seen] > RECEIPT_RANK[entry.status]) {
+        entry.status = seen;
+        entry.statusAt = new Date().toISOString();
+        entry.reported = false;
+        changed = true;
+      }
     }
-    throw error;
   }
 
-  console.log('[Extension] SendMessage result:', result);
-  return result;
+  if (changed) {
+    await saveTrackedReceipts();
+    await reportReceipts();
+  }
+}
+
+// Drop messages past the tracking window and retry reports that failed (no lease, server down)
+async function flushReceipts() {
+  const cutoff = Date.now() - CONFIG.receiptTrackingWindow;
+  const tracked = state.trackedReceipts.filter(r => new Date(r.sentAt).getTime() >= cutoff);
+  if (tracked.length !== state.trackedReceipts.length) {
+    state.trackedReceipts = tracked;
+    await saveTrackedReceipts();
+  }
+  if (state.isConnected) {
+    await reportReceipts();
+  }
+}
+
+// ============================================
+// Patient replies
+// ============================================
+
+function normalizePhone(phone) {
+  return String(phone || '').replace(/\D/g, '');
+}
+
+async function rememberPatientPhone(phone) {
+  const cutoff = Date.now() - CONFIG.knownPatientWindow;
+  const known = {};
+  for (const [p, at] of Object.entries(state.knownPatientPhones)) {
+    if (new Date(at).getTime() >= cutoff) known[p] = at;
+  }
+  known[normalizePhone(phone)] = new Date().toISOString();
+  state.knownPatientPhones = known;
+  await chrome.storage.local.set({ knownPatientPhones: known });
+}
+
+function isKnownPatientPhone(phone) {
+  const at = state.knownPatientPhones[normalizePhone(phone)];
+  return !!at && new Date(at).getTime() >= Date.now() - CONFIG.knownPatientWindow;
+}
+
+// Forward new replies from known patient numbers; the server stores them on the patient's
+// conversation and broadcasts MessageReceived. Replies are kept for a retry when there is no lease yet.
+async function forwardInboundMessages(messages) {
+  const fresh = messages.filter(m =>
+    m && m.waMessageId && isKnownPatientPhone(m.phone) && !state.forwardedInboundIds.includes(m.waMessageId));
+  if (fresh.length === 0 || !state.leaseId || !state.leaseToken) {
+    return;
+  }
+
+  await apiCall('/api/extension/messages/inbound', 'POST', {
+    leaseId: state.leaseId,
+    leaseToken: state.leaseToken,
+    messages: fresh.map(m => ({
+      phone: normalizePhone(m.phone),
+      waMessageId: m.waMessageId,
+      text: m.text,
+      receivedAt: m.receivedAt || new Date().toISOString()
+    }))
+  });
+  console.log('[Extension] Forwarded patient replies:', fresh.length);
+
+  state.forwardedInboundIds = [...state.forwardedInboundIds, ...fresh.map(m => m.waMessageId)]
+    .slice(-CONFIG.maxForwardedInboundIds);
+  await chrome.storage.local.set({ forwardedInboundIds: state.forwardedInboundIds });
 }
 
 // Wait for tab to complete loading
@@ -1115,6 +1293,18 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
           sendResponse({ success: true });
           break;
 
+        case 'INBOUND_MESSAGES':
+          // Replies rendered in the open chat, reported by the content script
+          await forwardInboundMessages(message.messages || []);
+          sendResponse({ success: true });
+          break;
+
+        case 'RECEIPTS':
+          // Ticks rendered in the open chat and the chat list, reported by the content script
+          await applyReceipts(message.receipts || {}, message.chatTicks || {});
+          sendResponse({ success: true });
+          break;
+
         default:
           sendResponse({ error: 'Unknown message type' });
       }
@@ -1191,3 +1381,8 @@ setInterval(async () => {
     console.error('[Extension] Error during periodic WhatsApp tab check:', error);
   }
 }, 10000); // Check every 10 seconds
+
+// Periodic retry of unreported delivered/read receipts
+setInterval(() => {
+  flushReceipts().catch(console.error);
+}, CONFIG.receiptReportInterval);
@@ -93,6 +93,33 @@ const SELECTORS = {
     "msg-time"
   ],
 
+  // Read receipts: blue ticks use the same msg-dblcheck icon, told apart by the icon's aria-label
+  // (older WhatsApp Web builds used a separate msg-dblcheck-ack icon)
+  readStatusIconTypes: [
+    "msg-dblcheck-ack"
+  ],
+  readAriaLabels: [
+    "read",
+    "تمت القراءة",
+    "مقروءة"
+  ],
+
+  // Message rows carry WhatsApp's own message id, used to find a sent message again for its ticks
+  messageIdAttribute: 'data-id',
+
+  // Incoming messages of the open chat (patient replies)
+  incomingMessageSelector: 'div.message-in',
+  messageTextSelector: 'span.selectable-text',
+
+  // Chat list rows; the last message's ticks are shown next to its preview, and unread chats carry a badge
+  // (their preview is the latest reply, read without opening the chat)
+  chatListItemSelector: "#pane-side div[role='listitem']",
+  chatTitleSelector: 'span[title]',
+  unreadChatBadgeSelectors: [
+    "span[aria-label*='unread message' i]",
+    "span[aria-label*='غير مقروءة']"
+  ],
+
   // ErrorDialogSelectors - For detecting invalid phone number errors
   // Note: We can't use Playwright's :has-text() selector in vanilla JS
   // So we focus on aria-label and data attributes, with manual text checking
@@ -127,6 +154,9 @@ const TIMEOUTS = {
 // State
 let currentStatus = 'unknown';
 let statusCheckInterval = null;
+let chatScanTimer = null;
+const reportedInboundIds = new Set();
+let lastReceipts = '';
 
 // Helper to check if any selector matches
 function anyMatch(selectors) {
@@ -216,6 +246,7 @@ function startStatusMonitoring() {
   // Also observe DOM changes
   const observer = new MutationObserver(() => {
     reportStatus();
+    scheduleChatScan();
   });
 
   observer.observe(document.body, {
@@ -468,6 +499,149 @@ async function sendMessage(text) {
   return { success: true, status: 'pending_confirmation' };
 }
 
+// Tick state of an outgoing message: 'pending' (clock), 'sent' (one tick), 'delivered' (two ticks),
+// 'read' (blue ticks) or null when no status icon is rendered
+function getReceiptStatus(messageElement) {
+  const statusIcon = messageElement.querySelector(SELECTORS.statusIconSelectors[0]);
+  return statusIcon ? getIconReceiptStatus(statusIcon) : null;
+}
+
+function getIconReceiptStatus(statusIcon) {
+  const iconType = statusIcon.getAttribute(SELECTORS.statusIconAttribute);
+  if (SELECTORS.readStatusIconTypes.includes(iconType)) return 'read';
+  if (iconType === 'msg-dblcheck') {
+    const label = (statusIcon.getAttribute('aria-label') || '').trim().toLowerCase();
+    return SELECTORS.readAriaLabels.some(l => label.includes(l)) ? 'read' : 'delivered';
+  }
+  if (iconType === 'msg-check') return 'sent';
+  if (iconType === 'msg-time') return 'pending';
+  return null;
+}
+
+// WhatsApp message id of a message row (stable while the message stays in the chat)
+function getMessageKey(messageElement) {
+  const row = messageElement.closest(`[${SELECTORS.messageIdAttribute}]`) ||
+    messageElement.querySelector(`[${SELECTORS.messageIdAttribute}]`);
+  return row ? row.getAttribute(SELECTORS.messageIdAttribute) : null;
+}
+
+// Tick states of the outgoing messages rendered in the open chat, by message id.
+// Only read from what is on screen - chats are never opened for receipts.
+function getRenderedReceipts() {
+  const receipts = {};
+  document.querySelectorAll(`[${SELECTORS.messageIdAttribute}^="true_"]`).forEach(row => {
+    const message = row.closest(SELECTORS.outgoingMessageSelectors[0]) || row.querySelector(SELECTORS.outgoingMessageSelectors[0]) || row;
+    const status = getReceiptStatus(message);
+    if (status) receipts[row.getAttribute(SELECTORS.messageIdAttribute)] = status;
+  });
+  return receipts;
+}
+
+// Tick state of the last message of each chat in the chat list, by number. Only chats titled with a
+// number can be matched - a patient saved as a contact shows up with their name.
+function getChatListTicks() {
+  const tickSelector = [...SELECTORS.supportedStatusIconTypes, ...SELECTORS.readStatusIconTypes]
+    .map(type => `span[${SELECTORS.statusIconAttribute}="${type}"]`)
+    .join(', ');
+  const ticks = {};
+  document.querySelectorAll(SELECTORS.chatListItemSelector).forEach(item => {
+    const title = item.querySelector(SELECTORS.chatTitleSelector)?.getAttribute('title') || '';
+    if (!/^\+?[\d\s\-()]{7,}$/.test(title)) return;
+    const icon = item.querySelector(tickSelector);
+    const status = icon ? getIconReceiptStatus(icon) : null;
+    if (status) ticks[title.replace(/\D/g, '')] = status;
+  });
+  return ticks;
+}
+
+// Incoming text messages of one-to-one chats currently rendered. Their row id is
+// 'false_<phone>@c.us_<id>'; group chats (@g.us) and media without a caption are skipped.
+const INBOUND_ID_PATTERN = /^false_(\d+)@c\.us_/;
+
+function getInboundMessages() {
+  const messages = [];
+  document.querySelectorAll(`[${SELECTORS.messageIdAttribute}^="false_"]`).forEach(row => {
+    const waMessageId = row.getAttribute(SELECTORS.messageIdAttribute);
+    const match = INBOUND_ID_PATTERN.exec(waMessageId);
+    if (!match) return;
+
+    const message = row.matches(SELECTORS.incomingMessageSelector) ? row
+      : (row.querySelector(SELECTORS.incomingMessageSelector) || row.closest(SELECTORS.incomingMessageSelector));
+    const textElement = message?.querySelector(SELECTORS.messageTextSelector);
+    const text = textElement?.innerText?.trim();
+    if (!text) return;
+
+    // WhatsApp only renders a locale-dependent time, so the capture time stands in for the receive time
+    messages.push({ phone: match[1], waMessageId, text, receivedAt: new Date().toISOString() });
+  });
+  return messages;
+}
+
+// Latest reply of each unread chat in the chat list, read from its preview so the chat is not opened
+// (opening it would mark the reply read on WhatsApp). Only chats titled with a number can be matched.
+// The id is derived from the number and text; the server merges it with the same reply once the chat is opened.
+function getUnreadChatPreviews() {
+  const messages = [];
+  document.querySelectorAll(SELECTORS.chatListItemSelector).forEach(item => {
+    if (!SELECTORS.unreadChatBadgeSelectors.some(selector => item.querySelector(selector))) return;
+    const titles = [...item.querySelectorAll(SELECTORS.chatTitleSelector)].map(el => el.getAttribute('title') || '');
+    const chatTitle = titles[0] || '';
+    if (!/^\+?[\d\s\-()]{7,}$/.test(chatTitle)) return;
+
+    const text = titles.slice(1).reverse().find(t => t.trim() && t !== chatTitle)?.trim();
+    if (!text) return;
+
+    const phone = chatTitle.replace(/\D/g, '');
+    messages.push({
+      phone,
+      waMessageId: `preview_${phone}_${hashText(text)}`,
+      text,
+      receivedAt: new Date().toISOString()
+    });
+  });
+  return messages;
+}
+
+// Short stable hash (djb2) for preview ids
+function hashText(text) {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+// Report new replies (open chat and unread chat previews) to the background script, which forwards
+// those of known patients
+function scanInboundMessages() {
+  const fresh = [...getInboundMessages(), ...getUnreadChatPreviews()].filter(m => !reportedInboundIds.has(m.waMessageId));
+  if (fresh.length > 0) {
+    fresh.forEach(m => reportedInboundIds.add(m.waMessageId));
+    chrome.runtime.sendMessage({ type: 'INBOUND_MESSAGES', messages: fresh }).catch(() => { });
+  }
+}
+
+// Report the ticks currently on screen; the background matches them to the messages it sent
+function scanReceipts() {
+  const receipts = getRenderedReceipts();
+  const chatTicks = getChatListTicks();
+  const key = JSON.stringify([receipts, chatTicks]);
+  if (key !== lastReceipts) {
+    lastReceipts = key;
+    chrome.runtime.sendMessage({ type: 'RECEIPTS', receipts, chatTicks }).catch(() => { });
+  }
+}
+
+// DOM mutations come in bursts while WhatsApp renders - scan once they settle
+function scheduleChatScan() {
+  clearTimeout(chatScanTimer);
+  chatScanTimer = setTimeout(() => {
+    if (currentStatus !== 'connected') return;
+    scanInboundMessages();
+    scanReceipts();
+  }, 1000);
+}
+
 // Send message only (assumes already in correct chat after navigation)
 async function sendMessageOnly(text) {
   console.log('[WhatsApp Runner] sendMessageOnly called with:', text?.substring(0, 50) + '...');
@@ -546,7 +720,14 @@ async function sendMessageOnly(text) {
         // Check against SupportedStatusIconTypes from Playwright
         if (iconType === 'msg-check' || iconType === 'msg-dblcheck') {
           console.log('[WhatsApp Runner] Message sent successfully, status:', iconType);
-          return { success: true, status: 'sent', iconType };
+          // messageKey/receipt let the background keep watching the ticks (delivered/read receipts)
+          return {
+            success: true,
+            status: 'sent',
+            iconType,
+            messageKey: getMessageKey(lastMessage),
+            receipt: getReceiptStatus(lastMessage)
+          };
         }
         if (iconType === 'msg-time') {
           console.log('[WhatsApp Runner] Message pending (msg-time), waiting...');
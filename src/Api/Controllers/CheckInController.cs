@@ -0,0 +1,438 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.RateLimiting;
+using Clinics.Infrastructure;
+using Clinics.Domain;
+using Clinics.Api.DTOs;
+using Clinics.Api.Services;
+using Microsoft.EntityFrameworkCore;
+using QRCoder;
+
+namespace Clinics.Api.Controllers
+{
+    /// <summary>
+    /// Patient self check-in (see CheckInService).
+    /// Staff manage a queue's check-in link and approve pending check-ins under /api/queues/{queueId}/check-in;
+    /// the /api/public/check-in/{token} endpoints are anonymous, addressed by the link token and rate limited
+    /// per client ("public-check-in" policy) and per number (CheckInRateLimiter).
+    /// </summary>
+    [ApiController]
+    [Route("api")]
+    public class CheckInController : ControllerBase
+    {
+        private readonly ApplicationDbContext _db;
+        private readonly ILogger<CheckInController> _logger;
+        private readonly IUserContext _userContext;
+        private readonly ICheckInService _checkIn;
+        private readonly IQueueFlowService _queueFlow;
+        private readonly IPhoneNormalizationService _phoneNormalization;
+        private readonly CheckInRateLimiter _numberLimiter;
+
+        public CheckInController(
+            ApplicationDbContext db,
+            ILogger<CheckInController> logger,
+            IUserContext userContext,
+            ICheckInService checkIn,
+            IQueueFlowService queueFlow,
+            IPhoneNormalizationService phoneNormalization,
+            CheckInRateLimiter numberLimiter)
+        {
+            _db = db;
+            _logger = logger;
+            _userContext = userContext;
+            _checkIn = checkIn;
+            _queueFlow = queueFlow;
+            _phoneNormalization = phoneNormalization;
+            _numberLimiter = numberLimiter;
+        }
+
+        /// <summary>
+        /// GET /api/queues/{queueId}/check-in
+        /// Check-in settings of a queue; the link token is created on first use.
+        /// </summary>
+        [HttpGet("queues/{queueId}/check-in")]
+        [Authorize(Roles = "primary_admin,secondary_admin,moderator,user")]
+        public async Task<ActionResult<CheckInSettingsDto>> GetSettings(int queueId)
+        {
+            try
+            {
+                var queue = await _db.Queues.FirstOrDefaultAsync(q => q.Id == queueId && !q.IsDeleted);
+                if (queue == null)
+                    return NotFound(new { success = false, error = "العيادة غير موجودة" });
+                if (!CanManage(queue))
+                    return Forbid();
+
+                await _checkIn.EnsureTokenAsync(queue);
+                return Ok(ToSettingsDto(queue));
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error loading check-in settings for queue {QueueId}", queueId);
+                return StatusCode(500, new { success = false, error = "Error loading check-in settings" });
+            }
+        }
+
+        /// <summary>
+        /// PUT /api/queues/{queueId}/check-in
+        /// Enable/disable self check-in and the staff-approval step.
+        /// </summary>
+        [HttpPut("queues/{queueId}/check-in")]
+        [Authorize(Roles = "primary_admin,secondary_admin,moderator")]
+        public async Task<ActionResult<CheckInSettingsDto>> UpdateSettings(int queueId, [FromBody] UpdateCheckInSettingsRequest req)
+        {
+            try
+            {
+                var queue = await _db.Queues.FirstOrDefaultAsync(q => q.Id == queueId && !q.IsDeleted);
+                if (queue == null)
+                    return NotFound(new { success = false, error = "العيادة غير موجودة" });
+                if (!CanManage(queue))
+                    return Forbid();
+
+                queue.CheckInEnabled = req.Enabled;
+                queue.CheckInRequiresApproval = req.RequireApproval;
+                queue.UpdatedAt = DateTime.UtcNow;
+                await _db.SaveChangesAsync();
+                await _checkIn.EnsureTokenAsync(queue);
+
+                _logger.LogInformation("Check-in settings of queue {QueueId} updated: enabled={Enabled}, requireApproval={RequireApproval}",
+                    queueId, req.Enabled, req.RequireApproval);
+
+                return Ok(ToSettingsDto(queue));
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error updating check-in settings for queue {QueueId}", queueId);
+                return StatusCode(500, new { success = false, error = "Error updating check-in settings" });
+            }
+        }
+
+        /// <summary>
+        /// POST /api/queues/{queueId}/check-in/regenerate
+        /// Issue a new link token; the old link and QR code stop working.
+        /// </summary>
+        [HttpPost("queues/{queueId}/check-in/regenerate")]
+        [Authorize(Roles = "primary_admin,secondary_admin,moderator")]
+        public async Task<ActionResult<CheckInSettingsDto>> RegenerateToken(int queueId)
+        {
+            try
+            {
+                var queue = await _db.Queues.FirstOrDefaultAsync(q => q.Id == queueId && !q.IsDeleted);
+                if (queue == null)
+                    return NotFound(new { success = false, error = "العيادة غير موجودة" });
+                if (!CanManage(queue))
+                    return Forbid();
+
+                await _checkIn.RegenerateTokenAsync(queue);
+
+                _logger.LogInformation("Check-in link of queue {QueueId} regenerated", queueId);
+                return Ok(ToSettingsDto(queue));
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error regenerating check-in link for queue {QueueId}", queueId);
+                return StatusCode(500, new { success = false, error = "Error regenerating check-in link" });
+            }
+        }
+
+        /// <summary>
+        /// GET /api/queues/{queueId}/check-in/qr-code?url=...
+        /// PNG QR code of the check-in page. Only the queue's own link (.../check-in/{token}) is encoded,
+        /// so the endpoint cannot be used to render arbitrary URLs.
+        /// </summary>
+        [HttpGet("queues/{queueId}/check-in/qr-code")]
+        [Authorize(Roles = "primary_admin,secondary_admin,moderator,user")]
+        public async Task<ActionResult<CheckInQRCodeDto>> GetQRCode(int queueId, [FromQuery] string url)
+        {
+            try
+            {
+                var queue = await _db.Queues.FirstOrDefaultAsync(q => q.Id == queueId && !q.IsDeleted);
+                if (queue == null)
+                    return NotFound(new { success = false, error = "العيادة غير موجودة" });
+                if (!CanManage(queue))
+                    return Forbid();
+
+                await _checkIn.EnsureTokenAsync(queue);
+                if (!Uri.TryCreate(url, UriKind.Absolute, out var uri)
+                    || (uri.Scheme != Uri.UriSchemeHttps && uri.Scheme != Uri.UriSchemeHttp)
+                    || uri.AbsolutePath.TrimEnd('/') != $"/check-in/{queue.CheckInToken}")
+                    return BadRequest(new { success = false, error = "رابط تسجيل الحضور غير صالح" });
+
+                using var generator = new QRCodeGenerator();
+                using var data = generator.CreateQrCode(uri.ToString(), QRCodeGenerator.ECCLevel.M);
+                var png = new PngByteQRCode(data).GetGraphic(10);
+
+                return Ok(new CheckInQRCodeDto
+                {
+                    QrCodeImage = Convert.ToBase64String(png),
+                    Format = "image/png"
+                });
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error rendering check-in QR code for queue {QueueId}", queueId);
+                return StatusCode(500, new { success = false, error = "Error rendering QR code" });
+            }
+        }
+
+        /// <summary>
+        /// GET /api/queues/{queueId}/check-in/pending
+        /// Check-ins waiting for staff approval, oldest first.
+        /// </summary>
+        [HttpGet("queues/{queueId}/check-in/pending")]
+        [Authorize(Roles = "primary_admin,secondary_admin,moderator,user")]
+        public async Task<ActionResult<ListResponse<PendingCheckInDto>>> GetPending(int queueId)
+        {
+            try
+            {
+                var queue = await _db.Queues.AsNoTracking().FirstOrDefaultAsync(q => q.Id == queueId && !q.IsDeleted);
+                if (queue == null)
+                    return NotFound(new { success = false, error = "العيادة غير موجودة" });
+                if (!CanManage(queue))
+                    return Forbid();
+
+                var items = await _db.PendingCheckIns
+                    .AsNoTracking()
+                    .Where(c => c.QueueId == queueId)
+                    .OrderBy(c => c.CreatedAt)
+                    .Select(c => new PendingCheckInDto
+                    {
+                        Id = c.Id,
+                        QueueId = c.QueueId,
+                        FullName = c.FullName,
+                        PhoneNumber = c.PhoneNumber,
+                        CountryCode = c.CountryCode,
+                        CreatedAt = c.CreatedAt
+                    })
+                    .ToListAsync();
+
+                return Ok(new ListResponse<PendingCheckInDto>
+                {
+                    Items = items,
+                    TotalCount = items.Count,
+                    PageNumber = 1,
+                    PageSize = items.Count
+                });
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error loading pending check-ins for queue {QueueId}", queueId);
+                return StatusCode(500, new { success = false, error = "Error loading pending check-ins" });
+            }
+        }
+
+        /// <summary>
+        /// POST /api/queues/{queueId}/check-in/pending/{checkInId}/approve
+        /// Append the patient at the next position (queue locked, see QueueFlowService) and remove the check-in.
+        /// </summary>
+        [HttpPost("queues/{queueId}/check-in/pending/{checkInId}/approve")]
+        [Authorize(Roles = "primary_admin,secondary_admin,moderator,user")]
+        public async Task<ActionResult<PatientDto>> Approve(int queueId, int checkInId)
+        {
+            int userId;
+            try
+            {
+                userId = _userContext.GetUserId();
+            }
+            catch (InvalidOperationException authEx)
+            {
+                _logger.LogError(authEx, "Authentication error: User ID not found in claims");
+                return Unauthorized(new { success = false, error = "Authentication failed. Please log in again." });
+            }
+
+            await using var transaction = await _db.Database.BeginTransactionAsync();
+            try
+            {
+                var queue = await _queueFlow.LockQueueAsync(queueId);
+                if (queue == null)
+                {
+                    await transaction.RollbackAsync();
+                    return NotFound(new { success = false, error = "العيادة غير موجودة" });
+                }
+                if (!CanManage(queue))
+                {
+                    await transaction.RollbackAsync();
+                    return Forbid();
+                }
+
+                var checkIn = await _db.PendingCheckIns.FirstOrDefaultAsync(c => c.Id == checkInId && c.QueueId == queueId);
+                if (checkIn == null)
+                {
+                    await transaction.RollbackAsync();
+                    return NotFound(new { success = false, error = "طلب تسجيل الحضور غير موجود" });
+                }
+
+                var patient = await _checkIn.ApproveAsync(queue, checkIn, userId);
+                await transaction.CommitAsync();
+
+                _logger.LogInformation("User {UserId} approved check-in {CheckInId} into queue {QueueId} at position {Position}",
+                    userId, checkInId, queueId, patient.Position);
+
+                return Ok(ToPatientDto(patient));
+            }
+            catch (Exception ex)
+            {
+                await transaction.RollbackAsync();
+                _logger.LogError(ex, "Error approving check-in {CheckInId}", checkInId);
+                return StatusCode(500, new { success = false, error = "Error approving check-in" });
+            }
+        }
+
+        /// <summary>
+        /// POST /api/queues/{queueId}/check-in/pending/{checkInId}/reject
+        /// </summary>
+        [HttpPost("queues/{queueId}/check-in/pending/{checkInId}/reject")]
+        [Authorize(Roles = "primary_admin,secondary_admin,moderator,user")]
+        public async Task<IActionResult> Reject(int queueId, int checkInId)
+        {
+            try
+            {
+                var queue = await _db.Queues.AsNoTracking().FirstOrDefaultAsync(q => q.Id == queueId && !q.IsDeleted);
+                if (queue == null)
+                    return NotFound(new { success = false, error = "العيادة غير موجودة" });
+                if (!CanManage(queue))
+                    return Forbid();
+
+                var checkIn = await _db.PendingCheckIns.FirstOrDefaultAsync(c => c.Id == checkInId && c.QueueId == queueId);
+                if (checkIn == null)
+                    return NotFound(new { success = false, error = "طلب تسجيل الحضور غير موجود" });
+
+                _db.PendingCheckIns.Remove(checkIn);
+                await _db.SaveChangesAsync();
+
+                _logger.LogInformation("Check-in {CheckInId} of queue {QueueId} rejected", checkInId, queueId);
+                return NoContent();
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error rejecting check-in {CheckInId}", checkInId);
+                return StatusCode(500, new { success = false, error = "Error rejecting check-in" });
+            }
+        }
+
+        /// <summary>
+        /// GET /api/public/check-in/{token}
+        /// Anonymous: the queue shown on the check-in page.
+        /// </summary>
+        [HttpGet("public/check-in/{token}")]
+        [AllowAnonymous]
+        [EnableRateLimiting("public-check-in")]
+        public async Task<ActionResult<PublicCheckInInfoDto>> GetPublic(string token)
+        {
+            var queue = await _checkIn.FindQueueByTokenAsync(token);
+            if (queue == null)
+                return NotFound(new { success = false, error = "رابط تسجيل الحضور غير صالح" });
+
+            return Ok(new PublicCheckInInfoDto
+            {
+                DoctorName = queue.DoctorName,
+                Enabled = queue.CheckInEnabled,
+                RequireApproval = queue.CheckInRequiresApproval
+            });
+        }
+
+        /// <summary>
+        /// POST /api/public/check-in/{token}
+        /// Anonymous: check in a walk-in patient. Without approval the patient is appended at the next position;
+        /// with approval the check-in waits for staff. 429 when the client or the number is over its limit.
+        /// </summary>
+        [HttpPost("public/check-in/{token}")]
+        [AllowAnonymous]
+        [EnableRateLimiting("public-check-in")]
+        public async Task<ActionResult<SubmitCheckInResult>> Submit(string token, [FromBody] SubmitCheckInRequest req)
+        {
+            if (!ModelState.IsValid)
+                return BadRequest(new { success = false, errors = ModelState.Values.SelectMany(v => v.Errors).Select(e => e.ErrorMessage) });
+
+            var fullName = req.FullName.Trim();
+            var phoneNumber = req.PhoneNumber.Replace(" ", "");
+            var countryCode = req.CountryCode.Replace(" ", "");
+            if (!_phoneNormalization.TryNormalizeWithCountryCode(phoneNumber, countryCode, out _))
+                return BadRequest(new { success = false, error = "رقم الهاتف غير صالح" });
+
+            if (!_numberLimiter.TryAcquire(phoneNumber, countryCode))
+                return StatusCode(StatusCodes.Status429TooManyRequests,
+                    new { success = false, error = "تم تجاوز عدد محاولات تسجيل الحضور لهذا الرقم، حاول لاحقاً" });
+
+            var queueId = (await _checkIn.FindQueueByTokenAsync(token))?.Id;
+            if (queueId == null)
+                return NotFound(new { success = false, error = "رابط تسجيل الحضور غير صالح" });
+
+            await using var transaction = await _db.Database.BeginTransactionAsync();
+            try
+            {
+                var queue = await _queueFlow.LockQueueAsync(queueId.Value);
+                if (queue == null || queue.CheckInToken != token)
+                {
+                    await transaction.RollbackAsync();
+                    return NotFound(new { success = false, error = "رابط تسجيل الحضور غير صالح" });
+                }
+                if (!queue.CheckInEnabled)
+                {
+                    await transaction.RollbackAsync();
+                    return Conflict(new { success = false, error = "تسجيل الحضور غير متاح لهذه العيادة حالياً", code = "CHECK_IN_DISABLED" });
+                }
+
+                // Checked under the queue lock, so a double submit cannot add the number twice
+                if (await _checkIn.IsCheckedInAsync(queue.Id, phoneNumber, countryCode))
+                {
+                    await transaction.RollbackAsync();
+                    return Conflict(new { success = false, error = "هذا الرقم مسجل بالفعل في الطابور", code = "ALREADY_CHECKED_IN" });
+                }
+
+                SubmitCheckInResult result;
+                if (queue.CheckInRequiresApproval)
+                {
+                    await _checkIn.AddPendingAsync(queue, fullName, phoneNumber, countryCode);
+                    result = new SubmitCheckInResult { Status = "pending" };
+                }
+                else
+                {
+                    var patient = await _checkIn.AddPatientAsync(queue, fullName, phoneNumber, countryCode, userId: null);
+                    result = new SubmitCheckInResult { Status = "added", Position = patient.Position };
+                }
+                await transaction.CommitAsync();
+
+                _logger.LogInformation("Self check-in into queue {QueueId}: {Status}", queue.Id, result.Status);
+                return Ok(result);
+            }
+            catch (Exception ex)
+            {
+                await transaction.RollbackAsync();
+                _logger.LogError(ex, "Error submitting self check-in");
+                return StatusCode(500, new { success = false, error = "تعذر تسجيل الحضور، حاول مرة أخرى" });
+            }
+        }
+
+        /// <summary>
+        /// Admins manage every queue; moderators and their users only their moderator's queues.
+        /// </summary>
+        private bool CanManage(Queue queue)
+        {
+            return _userContext.IsAdmin() || queue.ModeratorId == _userContext.GetModeratorId();
+        }
+
+        private static CheckInSettingsDto ToSettingsDto(Queue queue) => new()
+        {
+            QueueId = queue.Id,
+            Enabled = queue.CheckInEnabled,
+            RequireApproval = queue.CheckInRequiresApproval,
+            Token = queue.CheckInToken!
+        };
+
+        private static PatientDto ToPatientDto(Patient p) => new()
+        {
+            Id = p.Id,
+            FullName = p.FullName,
+            PhoneNumber = p.PhoneNumber,
+            CountryCode = p.CountryCode,
+            IsValidWhatsAppNumber = p.IsValidWhatsAppNumber,
+            Position = p.Position,
+            Status = p.Status,
+            StatusToken = p.StatusToken,
+            CreatedAt = p.CreatedAt,
+            UpdatedAt = p.UpdatedAt,
+            CreatedBy = p.CreatedBy,
+            UpdatedBy = p.UpdatedBy
+        };
+    }
+}
@@ -1,6 +1,7 @@
 ﻿using System;
 using System.Threading.Tasks;
 using Clinics.Api.DTOs;
+using Clinics.Api.Helpers;
 using Clinics.Api.Services;
 using Clinics.Domain;
 using Clinics.Infrastructure;
@@ -105,6 +106,8 @@ namespace Clinics.Api.Controllers
                 Value = c.Value,
                 MinValue = c.MinValue,
                 MaxValue = c.MaxValue,
+                Criteria = ConditionCriteriaHelper.Parse(c.Criteria),
+                CriteriaLogic = c.CriteriaLogic,
                 CreatedAt = c.CreatedAt,
                 UpdatedAt = c.UpdatedAt
             }).ToList();
@@ -198,6 +201,8 @@ namespace Clinics.Api.Controllers
                     Value = condition.Value,
                     MinValue = condition.MinValue,
                     MaxValue = condition.MaxValue,
+                    Criteria = ConditionCriteriaHelper.Parse(condition.Criteria),
+                    CriteriaLogic = condition.CriteriaLogic,
                     CreatedAt = condition.CreatedAt,
                     UpdatedAt = condition.UpdatedAt
                 };
@@ -256,6 +261,12 @@ namespace Clinics.Api.Controllers
             if (!validationResult.IsValid)
                 return BadRequest(new { message = validationResult.ErrorMessage });
 
+            // Extra criteria only narrow down active operators; sentinels never carry them
+            var isSentinel = request.Operator.ToUpper() == "UNCONDITIONED" || request.Operator.ToUpper() == "DEFAULT";
+            var criteriaError = isSentinel ? null : ConditionCriteriaHelper.Validate(request.Criteria);
+            if (criteriaError != null)
+                return BadRequest(new { message = criteriaError });
+
             // Check if template already has a condition (one-to-one enforcement)
             if (await _conditionValidationService.TemplateHasConditionAsync(request.TemplateId))
                 return BadRequest(new { message = "Template already has a condition. Update or delete the existing condition first." });
@@ -291,6 +302,8 @@ namespace Clinics.Api.Controllers
                         Value = request.Value,
                         MinValue = request.MinValue,
                         MaxValue = request.MaxValue,
+                        Criteria = isSentinel ? null : ConditionCriteriaHelper.Serialize(request.Criteria),
+                        CriteriaLogic = isSentinel || !ConditionCriteriaHelper.HasCriteria(request.Criteria) ? null : request.CriteriaLogic,
                         CreatedBy = userId,
                         UpdatedBy = userId,
                         CreatedAt = DateTime.UtcNow,
@@ -318,6 +331,8 @@ namespace Clinics.Api.Controllers
                         Value = condition.Value,
                         MinValue = condition.MinValue,
                         MaxValue = condition.MaxValue,
+                        Criteria = ConditionCriteriaHelper.Parse(condition.Criteria),
+                        CriteriaLogic = condition.CriteriaLogic,
                         CreatedAt = condition.CreatedAt,
                         UpdatedAt = condition.UpdatedAt
                     };
@@ -480,6 +495,26 @@ namespace Clinics.Api.Controllers
                     condition.MaxValue = request.MaxValue;
             }
 
+            // Criteria: cleared for sentinel operators, replaced when sent (null clears), kept when omitted
+            if (condition.Operator == "UNCONDITIONED" || condition.Operator == "DEFAULT")
+            {
+                condition.Criteria = null;
+                condition.CriteriaLogic = null;
+            }
+            else if (request.CriteriaProvided)
+            {
+                var criteriaError = ConditionCriteriaHelper.Validate(request.Criteria);
+                if (criteriaError != null)
+                    return BadRequest(new { message = criteriaError });
+
+                condition.Criteria = ConditionCriteriaHelper.Serialize(request.Criteria);
+                condition.CriteriaLogic = condition.Criteria == null ? null : request.CriteriaLogic;
+            }
+            else if (request.CriteriaLogic != null && condition.Criteria != null)
+            {
+                condition.CriteriaLogic = request.CriteriaLogic;
+            }
+
             // Get current user ID for audit
             var userId = _userContext.GetUserId();
             condition.UpdatedAt = DateTime.UtcNow;
@@ -538,6 +573,8 @@ namespace Clinics.Api.Controllers
                 Value = condition.Value,
                 MinValue = condition.MinValue,
                 MaxValue = condition.MaxValue,
+                Criteria = ConditionCriteriaHelper.Parse(condition.Criteria),
+                CriteriaLogic = condition.CriteriaLogic,
                 CreatedAt = condition.CreatedAt,
                 UpdatedAt = condition.UpdatedAt
             };
@@ -0,0 +1,117 @@
+using Microsoft.AspNetCore.Mvc;
+using Clinics.Api.DTOs;
+using Clinics.Api.Services;
+
+namespace Clinics.Api.Controllers
+{
+    /// <summary>
+    /// Patient conversations: sent messages and the replies captured by the extension (see ConversationService).
+    /// Moderators and their users see their moderator's patients; admins see every moderator's.
+    /// </summary>
+    [ApiController]
+    [Route("api/conversations")]
+    [Microsoft.AspNetCore.Authorization.Authorize(Roles = "primary_admin,secondary_admin,moderator,user")]
+    public class ConversationsController : ControllerBase
+    {
+        private readonly IConversationService _conversations;
+        private readonly ILogger<ConversationsController> _logger;
+        private readonly IUserContext _userContext;
+
+        public ConversationsController(
+            IConversationService conversations,
+            ILogger<ConversationsController> logger,
+            IUserContext userContext)
+        {
+            _conversations = conversations;
+            _logger = logger;
+            _userContext = userContext;
+        }
+
+        /// <summary>
+        /// GET /api/conversations/patients/{patientId}
+        /// The patient's thread, oldest first.
+        /// </summary>
+        [HttpGet("patients/{patientId}")]
+        public async Task<ActionResult<PatientConversationDto>> GetConversation(int patientId)
+        {
+            try
+            {
+                if (!TryGetScope(out var moderatorId))
+                    return Forbid();
+
+                var conversation = await _conversations.GetConversationAsync(patientId, moderatorId);
+                if (conversation == null)
+                    return NotFound(new { message = "المريض غير موجود" });
+
+                return Ok(conversation);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error loading conversation of patient {PatientId}", patientId);
+                return StatusCode(500, new { message = "Error loading conversation" });
+            }
+        }
+
+        /// <summary>
+        /// POST /api/conversations/patients/{patientId}/read
+        /// Mark the patient's replies read (clears its unread badge).
+        /// </summary>
+        [HttpPost("patients/{patientId}/read")]
+        public async Task<IActionResult> MarkRead(int patientId)
+        {
+            try
+            {
+                if (!TryGetScope(out var moderatorId))
+                    return Forbid();
+
+                var found = await _conversations.MarkReadAsync(patientId, moderatorId, _userContext.GetUserId());
+                if (!found)
+                    return NotFound(new { message = "المريض غير موجود" });
+
+                return NoContent();
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error marking conversation of patient {PatientId} read", patientId);
+                return StatusCode(500, new { message = "Error marking conversation read" });
+            }
+        }
+
+        /// <summary>
+        /// GET /api/conversations/unread
+        /// Patients with unread replies, for the Navigation badges.
+        /// </summary>
+        [HttpGet("unread")]
+        public async Task<ActionResult<UnreadConversationsSummaryDto>> GetUnread()
+        {
+            try
+            {
+                if (!TryGetScope(out var moderatorId))
+                    return Forbid();
+
+                return Ok(await _conversations.GetUnreadAsync(moderatorId));
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error loading unread conversations");
+                return StatusCode(500, new { message = "Error loading unread conversations" });
+            }
+        }
+
+        /// <summary>
+        /// Moderator whose patients the current user sees; null for admins (all moderators).
+        /// False for a user without a moderator.
+        /// </summary>
+        private bool TryGetScope(out int? moderatorId)
+        {
+            if (_userContext.IsAdmin())
+            {
+                moderatorId = null;
+                return true;
+            }
+
+            moderatorId = _userContext.GetModeratorId();
+            return moderatorId.HasValue;
+        }
+    }
+}
@@ -0,0 +1,217 @@
+using Microsoft.AspNetCore.Mvc;
+using Clinics.Infrastructure;
+using Clinics.Domain;
+using Clinics.Api.DTOs;
+using Clinics.Api.Services;
+using Microsoft.EntityFrameworkCore;
+
+namespace Clinics.Api.Controllers
+{
+    /// <summary>
+    /// Do-not-contact list of a moderator (see DoNotContactService).
+    /// Moderators and their users manage their moderator's list; admins pass the moderator explicitly.
+    /// </summary>
+    [ApiController]
+    [Route("api/do-not-contact")]
+    [Microsoft.AspNetCore.Authorization.Authorize(Roles = "primary_admin,secondary_admin,moderator,user")]
+    public class DoNotContactController : ControllerBase
+    {
+        private readonly ApplicationDbContext _db;
+        private readonly ILogger<DoNotContactController> _logger;
+        private readonly IUserContext _userContext;
+
+        public DoNotContactController(
+            ApplicationDbContext db,
+            ILogger<DoNotContactController> logger,
+            IUserContext userContext)
+        {
+            _db = db;
+            _logger = logger;
+            _userContext = userContext;
+        }
+
+        /// <summary>
+        /// GET /api/do-not-contact?moderatorId=...
+        /// The list, newest first.
+        /// </summary>
+        [HttpGet]
+        public async Task<ActionResult<ListResponse<DoNotContactEntryDto>>> Get([FromQuery] int? moderatorId)
+        {
+            try
+            {
+                var effectiveModeratorId = await ResolveModeratorIdAsync(moderatorId);
+                if (effectiveModeratorId == null)
+                    return BadRequest(new { message = "يجب تحديد المشرف" });
+
+                var entries = await _db.DoNotContactEntries
+                    .AsNoTracking()
+                    .Where(d => d.ModeratorId == effectiveModeratorId.Value)
+                    .OrderByDescending(d => d.CreatedAt)
+                    .Select(d => ToDto(d))
+                    .ToListAsync();
+
+                return Ok(new ListResponse<DoNotContactEntryDto>
+                {
+                    Items = entries,
+                    TotalCount = entries.Count,
+                    PageNumber = 1,
+                    PageSize = entries.Count
+                });
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error loading do-not-contact list");
+                return StatusCode(500, new { message = "Error loading do-not-contact list" });
+            }
+        }
+
+        /// <summary>
+        /// POST /api/do-not-contact
+        /// Add a number; a number already on the list is rejected with 409.
+        /// </summary>
+        [HttpPost]
+        public async Task<ActionResult<DoNotContactEntryDto>> Add([FromBody] AddDoNotContactRequest req)
+        {
+            try
+            {
+                if (!ModelState.IsValid)
+                    return BadRequest(ModelState);
+
+                var moderatorId = await ResolveModeratorIdAsync(req.ModeratorId);
+                if (moderatorId == null)
+                    return BadRequest(new { message = "يجب تحديد المشرف" });
+
+                var exists = await _db.DoNotContactEntries
+                    .AnyAsync(d => d.ModeratorId == moderatorId.Value && d.PhoneNumber == req.PhoneNumber);
+                if (exists)
+                    return Conflict(new { message = "الرقم موجود بالفعل في قائمة عدم التواصل" });
+
+                var entry = NewEntry(req, moderatorId.Value, _userContext.GetUserId());
+                _db.DoNotContactEntries.Add(entry);
+                await _db.SaveChangesAsync();
+
+                _logger.LogInformation("User {UserId} added a number to the do-not-contact list of moderator {ModeratorId}",
+                    entry.CreatedBy, entry.ModeratorId);
+
+                return CreatedAtAction(nameof(Get), new { moderatorId = entry.ModeratorId }, ToDto(entry));
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error adding do-not-contact entry");
+                return StatusCode(500, new { message = "Error adding do-not-contact entry" });
+            }
+        }
+
+        /// <summary>
+        /// POST /api/do-not-contact/import
+        /// Add many numbers at once; numbers already on the list (or repeated in the request) are skipped.
+        /// </summary>
+        [HttpPost("import")]
+        public async Task<ActionResult<ImportDoNotContactResult>> Import([FromBody] ImportDoNotContactRequest req)
+        {
+            try
+            {
+                if (!ModelState.IsValid)
+                    return BadRequest(ModelState);
+
+                var moderatorId = await ResolveModeratorIdAsync(req.ModeratorId);
+                if (moderatorId == null)
+                    return BadRequest(new { message = "يجب تحديد المشرف" });
+
+                var numbers = (await _db.DoNotContactEntries
+                    .Where(d => d.ModeratorId == moderatorId.Value)
+                    .Select(d => d.PhoneNumber)
+                    .ToListAsync())
+                    .ToHashSet();
+
+                var userId = _userContext.GetUserId();
+                var added = 0;
+                foreach (var item in req.Entries)
+                {
+                    if (!numbers.Add(item.PhoneNumber))
+                        continue;
+
+                    _db.DoNotContactEntries.Add(NewEntry(item, moderatorId.Value, userId));
+                    added++;
+                }
+
+                await _db.SaveChangesAsync();
+
+                return Ok(new ImportDoNotContactResult { Added = added, Skipped = req.Entries.Count - added });
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error importing do-not-contact list");
+                return StatusCode(500, new { message = "Error importing do-not-contact list" });
+            }
+        }
+
+        /// <summary>
+        /// DELETE /api/do-not-contact/{id}
+        /// Remove a number; the patient can be messaged again.
+        /// </summary>
+        [HttpDelete("{id}")]
+        public async Task<IActionResult> Delete(int id)
+        {
+            try
+            {
+                var entry = await _db.DoNotContactEntries.FirstOrDefaultAsync(d => d.Id == id);
+                if (entry == null)
+                    return NotFound(new { message = "Entry not found" });
+
+                if (!_userContext.IsAdmin() && entry.ModeratorId != _userContext.GetModeratorId())
+                    return Forbid();
+
+                _db.DoNotContactEntries.Remove(entry);
+                await _db.SaveChangesAsync();
+
+                return NoContent();
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error removing do-not-contact entry {Id}", id);
+                return StatusCode(500, new { message = "Error removing do-not-contact entry" });
+            }
+        }
+
+        /// <summary>
+        /// The current user's moderator; admins must name an existing moderator.
+        /// </summary>
+        private async Task<int?> ResolveModeratorIdAsync(int? requestedModeratorId)
+        {
+            if (!_userContext.IsAdmin())
+                return _userContext.GetModeratorId();
+
+            if (requestedModeratorId == null)
+                return null;
+
+            var isModerator = await _db.Users.AsNoTracking()
+                .AnyAsync(u => u.Id == requestedModeratorId.Value && u.Role == "moderator" && !u.IsDeleted);
+            return isModerator ? requestedModeratorId : null;
+        }
+
+        private static DoNotContactEntry NewEntry(AddDoNotContactRequest req, int moderatorId, int userId)
+        {
+            return new DoNotContactEntry
+            {
+                ModeratorId = moderatorId,
+                PhoneNumber = req.PhoneNumber,
+                PatientName = string.IsNullOrWhiteSpace(req.PatientName) ? null : req.PatientName.Trim(),
+                Reason = string.IsNullOrWhiteSpace(req.Reason) ? null : req.Reason.Trim(),
+                CreatedAt = DateTime.UtcNow,
+                CreatedBy = userId
+            };
+        }
+
+        private static DoNotContactEntryDto ToDto(DoNotContactEntry d) => new()
+        {
+            Id = d.Id,
+            ModeratorId = d.ModeratorId,
+            PhoneNumber = d.PhoneNumber,
+            PatientName = d.PatientName,
+            Reason = d.Reason,
+            CreatedAt = d.CreatedAt,
+            CreatedBy = d.CreatedBy
+        };
+    }
+}
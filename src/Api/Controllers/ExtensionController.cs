@@ -1,6 +1,9 @@
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.AspNetCore.Cors;
+using Microsoft.AspNetCore.SignalR;
+using Clinics.Api.Hubs;
+using Clinics.Api.Services;
 using Clinics.Api.Services.Extension;
 using Clinics.Infrastructure;
 using Microsoft.EntityFrameworkCore;
@@ -20,6 +23,9 @@ namespace Clinics.Api.Controllers
         private readonly IExtensionLeaseService _leaseService;
         private readonly IExtensionCommandService _commandService;
         private readonly ICheckWhatsAppService _checkWhatsAppService;
+        private readonly IMessageReceiptService _receiptService;
+        private readonly IConversationService _conversationService;
+        private readonly IHubContext<DataUpdateHub> _hubContext;
         private readonly ApplicationDbContext _db;
         private readonly ILogger<ExtensionController> _logger;
 
@@ -28,6 +34,9 @@ namespace Clinics.Api.Controllers
             IExtensionLeaseService leaseService,
             IExtensionCommandService commandService,
             ICheckWhatsAppService checkWhatsAppService,
+            IMessageReceiptService receiptService,
+            IConversationService conversationService,
+            IHubContext<DataUpdateHub> hubContext,
             ApplicationDbContext db,
             ILogger<ExtensionController> logger)
         {
@@ -35,6 +44,9 @@ namespace Clinics.Api.Controllers
             _leaseService = leaseService;
             _commandService = commandService;
             _checkWhatsAppService = checkWhatsAppService;
+            _receiptService = receiptService;
+            _conversationService = conversationService;
+            _hubContext = hubContext;
             _db = db;
             _logger = logger;
         }
@@ -513,6 +525,86 @@ namespace Clinics.Api.Controllers
 
         #endregion
 
+        #region Message Receipt and Reply Endpoints
+
+        /// <summary>
+        /// Extension reports delivered/read ticks of messages it sent.
+        /// Only the lease moderator's sent messages are updated.
+        /// </summary>
+        [HttpPost("messages/receipts")]
+        [AllowAnonymous]
+        public async Task<ActionResult> ReportReceipts([FromBody] ReceiptReportRequest request)
+        {
+            var isValid = await _leaseService.ValidateLeaseAsync(request.LeaseId, request.LeaseToken);
+            if (!isValid)
+            {
+                return Unauthorized(new { error = "Invalid lease" });
+            }
+
+            var lease = await _db.ExtensionSessionLeases.FindAsync(request.LeaseId);
+            if (lease == null)
+            {
+                return NotFound(new { error = "Lease not found" });
+            }
+
+            var receipts = request.Receipts
+                .Select(r => new MessageReceipt(r.MessageId, r.Status, r.At))
+                .ToList();
+            var updated = await _receiptService.ApplyReceiptsAsync(lease.ModeratorUserId, receipts);
+
+            return Ok(new { success = true, updated });
+        }
+
+        /// <summary>
+        /// Extension forwards patient replies captured from WhatsApp Web.
+        /// Replies are stored on the lease moderator's patients and broadcast as MessageReceived.
+        /// </summary>
+        [HttpPost("messages/inbound")]
+        [AllowAnonymous]
+        public async Task<ActionResult> ReportInbound([FromBody] InboundReportRequest request)
+        {
+            var isValid = await _leaseService.ValidateLeaseAsync(request.LeaseId, request.LeaseToken);
+            if (!isValid)
+            {
+                return Unauthorized(new { error = "Invalid lease" });
+            }
+
+            var lease = await _db.ExtensionSessionLeases.FindAsync(request.LeaseId);
+            if (lease == null)
+            {
+                return NotFound(new { error = "Lease not found" });
+            }
+
+            var replies = request.Messages
+                .Select(m => new InboundReply(m.Phone, m.WaMessageId, m.Text, m.ReceivedAt))
+                .ToList();
+            var recorded = await _conversationService.RecordInboundAsync(lease.ModeratorUserId, replies);
+
+            foreach (var message in recorded)
+            {
+                var payload = new
+                {
+                    messageId = message.Id,
+                    patientId = message.PatientId,
+                    patientName = message.Patient?.FullName,
+                    queueId = message.QueueId,
+                    moderatorId = message.ModeratorId,
+                    content = message.Content,
+                    receivedAt = message.ReceivedAt
+                };
+
+                await _hubContext.Clients.Group($"moderator-{message.ModeratorId}")
+                    .SendAsync("MessageReceived", payload);
+
+                await _hubContext.Clients.Group("admin-all")
+                    .SendAsync("MessageReceived", payload);
+            }
+
+            return Ok(new { success = true, recorded = recorded.Count });
+        }
+
+        #endregion
+
         #region Check WhatsApp Number Endpoints
 
         /// <summary>
@@ -921,6 +1013,35 @@ namespace Clinics.Api.Controllers
         public string? Error { get; set; }
     }
 
+    public class ReceiptReportRequest
+    {
+        public Guid LeaseId { get; set; }
+        public string LeaseToken { get; set; } = "";
+        public List<ReceiptReportItem> Receipts { get; set; } = new();
+    }
+
+    public class ReceiptReportItem
+    {
+        public Guid MessageId { get; set; }
+        public string Status { get; set; } = "";
+        public DateTime? At { get; set; }
+    }
+
+    public class InboundReportRequest
+    {
+        public Guid LeaseId { get; set; }
+        public string LeaseToken { get; set; } = "";
+        public List<InboundReportItem> Messages { get; set; } = new();
+    }
+
+    public class InboundReportItem
+    {
+        public string Phone { get; set; } = "";
+        public string WaMessageId { get; set; } = "";
+        public string Text { get; set; } = "";
+        public DateTime? ReceivedAt { get; set; }
+    }
+
     public class CheckWhatsAppResponse
     {
         public bool Success { get; set; }
@@ -1,6 +1,5 @@
 using Microsoft.AspNetCore.Mvc;
 using Clinics.Infrastructure;
-using Clinics.Infrastructure.Services;
 using Clinics.Domain;
 using Clinics.Api.DTOs;
 using Clinics.Api.Services;
@@ -20,27 +19,30 @@ namespace Clinics.Api.Controllers
         private readonly ApplicationDbContext _db;
         private readonly QuotaService _quotaService;
         private readonly ILogger<MessagesController> _logger;
-        private readonly IContentVariableResolver _variableResolver;
+        private readonly IMessageQueueService _messageQueueService;
         private readonly IdempotencyService _idempotencyService;
         private readonly IHubContext<DataUpdateHub> _hubContext;
         private readonly IBackgroundJobClient _backgroundJobs;
+        private readonly IAutoNotifyService _autoNotifyService;
 
         public MessagesController(
             ApplicationDbContext db,
             QuotaService quotaService,
             ILogger<MessagesController> logger,
-            IContentVariableResolver variableResolver,
+            IMessageQueueService messageQueueService,
             IdempotencyService idempotencyService,
             IHubContext<DataUpdateHub> hubContext,
-            IBackgroundJobClient backgroundJobs)
+            IBackgroundJobClient backgroundJobs,
+            IAutoNotifyService autoNotifyService)
         {
             _db = db;
             _quotaService = quotaService;
             _logger = logger;
-            _variableResolver = variableResolver;
+            _messageQueueService = messageQueueService;
             _idempotencyService = idempotencyService;
             _hubContext = hubContext;
             _backgroundJobs = backgroundJobs;
+            _autoNotifyService = autoNotifyService;
         }
 
         [HttpPost("send")]
@@ -382,24 +384,6 @@ namespace Clinics.Api.Controllers
                     _logger.LogInformation("[MessagesController.Send] Using session name '{SessionName}' for moderator {ModeratorId} (userId: {UserId})",
                         sessionName, effectiveModeratorId, userId);
 
-                    // Get all MessageConditions for this queue (for condition matching)
-                    var conditions = await _db.Set<MessageCondition>()
-                        .Where(c => c.QueueId == queueId && !c.IsDeleted)
-                        .Include(c => c.Template)
-                        .ToListAsync();
-
-                    // Separate conditions by operator type
-                    var valuedConditions = conditions
-                        .Where(c => c.Operator == "EQUAL" || c.Operator == "GREATER" ||
-                                   c.Operator == "LESS" || c.Operator == "RANGE")
-                        .OrderBy(c => c.Id) // Order by ID if Priority doesn't exist
-                        .ToList();
-                    var defaultCondition = conditions.FirstOrDefault(c => c.Operator == "DEFAULT");
-                    var unconditionedConditions = conditions
-                        .Where(c => c.Operator == "UNCONDITIONED")
-                        .OrderBy(c => c.Id) // Order by ID if Priority doesn't exist
-                        .ToList();
-
                     // Create MessageSession for this batch (unified session per moderator)
                     var sessionId = Guid.NewGuid();
                     var messageSession = new MessageSession
@@ -421,105 +405,12 @@ namespace Clinics.Api.Controllers
                     };
                     _db.MessageSessions.Add(messageSession);
 
-                    var messages = new List<Message>();
-
-                    foreach (var p in patients)
-                    {
-                        // Calculate CalculatedPosition (offset from CQP)
-                        var calculatedPosition = p.Position - queue.CurrentPosition;
-
-                        // Match condition based on CalculatedPosition
-                        MessageTemplate? selectedTemplate = null;
-                        string content;
-
-                        // 1. Check valued conditions FIRST (EQUAL, GREATER, LESS, RANGE) - highest priority
-                        foreach (var cond in valuedConditions)
-                        {
-                            bool matches = cond.Operator switch
-                            {
-                                "EQUAL" => calculatedPosition == cond.Value,
-                                "GREATER" => calculatedPosition > cond.Value,
-                                "LESS" => calculatedPosition < cond.Value,
-                                "RANGE" => calculatedPosition >= cond.MinValue &&
-                                           calculatedPosition <= cond.MaxValue,
-                                _ => false
-                            };
-
-                            if (matches && cond.Template != null)
-                            {
-                                selectedTemplate = cond.Template;
-                                break; // First match wins
-                            }
-                        }
-
-                        // 2. Fallback to DEFAULT if no valued condition matched
-                        if (selectedTemplate == null && defaultCondition != null && defaultCondition.Template != null)
-                        {
-                            selectedTemplate = defaultCondition.Template;
-                        }
-
-                        // 3. Last resort: UNCONDITIONED (least priority - template with no condition)
-                        if (selectedTemplate == null && unconditionedConditions.Any())
-                        {
-                            var firstUnconditioned = unconditionedConditions.First();
-                            if (firstUnconditioned.Template != null)
-                            {
-                                selectedTemplate = firstUnconditioned.Template;
-                            }
-                        }
-
-                        // Use selected template or fallback to provided template
-                        var finalTemplate = selectedTemplate ?? template;
-                        var templateContent = req.OverrideContent ?? finalTemplate.Content;
-
-                        // Resolve template variables using centralized service
-                        content = _variableResolver.ResolveVariables(
-                            templateContent,
-                            p,
-                            queue,
-                            calculatedPosition
-                        );
-
-                        var msg = new Message
-                        {
-                            PatientId = p.Id,
-                            TemplateId = finalTemplate.Id,
-                            QueueId = p.QueueId,
-                            SenderUserId = userId,
-                            ModeratorId = effectiveModeratorId,  // Unified session per moderator
-                            // Channel property REMOVED - deprecated column (always "whatsapp")
-                            CountryCode = p.CountryCode ?? "+20",
-                            PatientPhone = p.PhoneNumber,
-                            Position = p.Position,
-                            CalculatedPosition = calculatedPosition,
-                            FullName = p.FullName,
-                            Content = content,
-                            Status = "queued",
-                            Attempts = 0,  // Initialize attempts counter
-                            CreatedAt = creationTimestamp,
-                            SessionId = sessionId.ToString(),  // Link to MessageSession
-                            CorrelationId = correlationId,  // Propagate correlation ID for distributed tracing
-                            // No IsPaused flag - hierarchical check in FilterPausedMessagesAsync checks MessageSession.IsPaused
-                        };
-                        messages.Add(msg);
-                    }
+                    // Template selection and variable resolution are shared with scheduled sessions
+                    var messages = await _messageQueueService.AddSessionMessagesAsync(
+                        messageSession, template, queue, patients, userId, req.OverrideContent);
 
                     if (messages.Count > 0)
                     {
-                        // GAP FIX 3.2: Validate TotalMessages consistency
-                        // Ensure MessageSession.TotalMessages matches actual created message count
-                        if (messageSession.TotalMessages != messages.Count)
-                        {
-                            _logger.LogWarning(
-                                "TotalMessages mismatch in session {SessionId}: Expected {Expected}, got {Actual}. Correcting to actual count.",
-                                sessionId, messageSession.TotalMessages, messages.Count);
-
-                            // Correct the TotalMessages to match reality
-                            messageSession.TotalMessages = messages.Count;
-                            messageSession.OngoingMessages = messages.Count;
-                        }
-
-                        await _db.Messages.AddRangeAsync(messages);
                         await _db.SaveChangesAsync();
                         await transaction.CommitAsync();
 
@@ -621,6 +512,215 @@ namespace Clinics.Api.Controllers
             }
         }
 
+        /// <summary>
+        /// Minimum lead time of a schedule (the UI asks for 2 minutes; 1 minute tolerates request latency)
+        /// </summary>
+        private const int MinScheduleLeadMinutes = 1;
+
+        /// <summary>
+        /// Schedule messages for a future time. Recipients, template and quota are validated now like /send;
+        /// the session is stored with SessionType = "scheduled" and ScheduledSessionsJob builds and queues
+        /// its messages at ScheduledAt after re-checking the quota.
+        /// </summary>
+        [HttpPost("schedule")]
+        public async Task<IActionResult> Schedule([FromBody] ScheduleMessagesRequest req)
+        {
+            var correlationId = req.CorrelationId ?? Guid.NewGuid();
+
+            var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value
+                ?? User.FindFirst("sub")?.Value
+                ?? User.FindFirst("userId")?.Value;
+
+            if (string.IsNullOrEmpty(userIdClaim) || !int.TryParse(userIdClaim, out int userId))
+            {
+                return Unauthorized(new { success = false, error = "المستخدم غير مصرح له" });
+            }
+
+            try
+            {
+                // Idempotency: a retried request returns the session it already created
+                var existing = await _db.MessageSessions
+                    .AsNoTracking()
+                    .FirstOrDefaultAsync(s => s.CorrelationId == correlationId
+                        && s.SessionType == MessageSessionTypes.Scheduled
+                        && !s.IsDeleted);
+                if (existing != null)
+                {
+                    return Ok(new { success = true, sessionId = existing.Id, scheduledAt = existing.ScheduledAt, total = existing.TotalMessages });
+                }
+
+                var patientIds = req.PatientIds.Distinct().ToList();
+                if (patientIds.Count == 0)
+                {
+                    return BadRequest(new { success = false, error = "يرجى اختيار مريض واحد على الأقل", code = "NO_PATIENTS" });
+                }
+
+                var scheduledAt = req.ScheduledAt.Kind == DateTimeKind.Local
+                    ? req.ScheduledAt.ToUniversalTime()
+                    : DateTime.SpecifyKind(req.ScheduledAt, DateTimeKind.Utc);
+                if (scheduledAt < DateTime.UtcNow.AddMinutes(MinScheduleLeadMinutes))
+                {
+                    return BadRequest(new { success = false, error = "يجب أن يكون وقت الإرسال في المستقبل", code = "SCHEDULE_IN_PAST" });
+                }
+
+                // Checked now for early feedback, and again when the session fires
+                if (!await _quotaService.HasMessagesQuotaAsync(userId, patientIds.Count))
+                {
+                    return BadRequest(new { success = false, error = "حصة الرسائل غير كافية", code = "QUOTA_EXCEEDED" });
+                }
+
+                var template = await _db.MessageTemplates.FirstOrDefaultAsync(t => t.Id == req.TemplateId && !t.IsDeleted);
+                if (template == null)
+                {
+                    return BadRequest(new { success = false, errors = new[] { new { code = "TemplateNotFound", message = "القالب غير موجود" } } });
+                }
+
+                // Same rule as /send: admins must choose the moderator whose WhatsApp session is used
+                int effectiveModeratorId;
+                if (User.IsInRole("primary_admin") || User.IsInRole("secondary_admin"))
+                {
+                    if (!req.ModeratorId.HasValue || req.ModeratorId.Value <= 0)
+                    {
+                        return BadRequest(new
+                        {
+                            success = false,
+                            error = "الأدمن يجب أن يحدد المشرف المسؤول عن جلسة الواتساب",
+                            code = "MODERATOR_ID_REQUIRED"
+                        });
+                    }
+                    effectiveModeratorId = req.ModeratorId.Value;
+                }
+                else
+                {
+                    effectiveModeratorId = await _quotaService.GetEffectiveModeratorIdAsync(userId);
+                }
+
+                if (effectiveModeratorId <= 0)
+                {
+                    return BadRequest(new { success = false, error = "معرف المشرف غير صحيح" });
+                }
+
+                var patients = await _db.Patients
+                    .Where(p => patientIds.Contains(p.Id) && !p.IsDeleted)
+                    .ToListAsync();
+                if (patients.Count != patientIds.Count)
+                {
+                    return BadRequest(new { success = false, error = "بعض المرضى غير موجودين", code = "PATIENTS_NOT_FOUND" });
+                }
+
+                var invalidPatients = patients.Where(p => p.IsValidWhatsAppNumber != true).ToList();
+                if (invalidPatients.Any())
+                {
+                    return BadRequest(new
+                    {
+                        success = false,
+                        error = "WhatsAppValidationRequired",
+                        message = "بعض المرضى لديهم أرقام واتساب غير محققة. يرجى التحقق من الأرقام أولاً.",
+                        invalidPatients = invalidPatients.Select(p => new
+                        {
+                            patientId = p.Id,
+                            name = p.FullName,
+                            phone = p.PhoneNumber,
+                            isValidWhatsAppNumber = p.IsValidWhatsAppNumber
+                        })
+                    });
+                }
+
+                var queueId = patients.First().QueueId;
+                if (patients.Any(p => p.QueueId != queueId))
+                {
+                    return BadRequest(new { success = false, error = "يجب أن يكون جميع المرضى من نفس الطابور", code = "MIXED_QUEUES" });
+                }
+
+                var queue = await _db.Queues.FirstOrDefaultAsync(q => q.Id == queueId && !q.IsDeleted);
+                if (queue == null || queue.ModeratorId != effectiveModeratorId)
+                {
+                    return BadRequest(new { success = false, error = "الطابور غير موجود", code = "QUEUE_NOT_FOUND" });
+                }
+
+                var now = DateTime.UtcNow;
+                var session = new MessageSession
+                {
+                    Id = Guid.NewGuid(),
+                    QueueId = queueId,
+                    ModeratorId = effectiveModeratorId,
+                    UserId = userId,
+                    SessionType = MessageSessionTypes.Scheduled,
+                    Status = ScheduledSessionService.StatusScheduled,
+                    IsPaused = false,
+                    TotalMessages = patientIds.Count,
+                    SentMessages = 0,
+                    FailedMessages = 0,
+                    OngoingMessages = 0, // Nothing queued until the session fires
+                    StartTime = now,
+                    LastUpdated = now,
+                    CorrelationId = correlationId,
+                    ScheduledAt = scheduledAt,
+                    TemplateId = template.Id,
+                    ScheduledPatientIds = System.Text.Json.JsonSerializer.Serialize(patientIds)
+                };
+                _db.MessageSessions.Add(session);
+                await _db.SaveChangesAsync();
+
+                _logger.LogInformation(
+                    "User {UserId} scheduled {Count} messages in session {SessionId} for {ScheduledAt:o} (moderator {ModeratorId}). CorrelationId: {CorrelationId}",
+                    userId, patientIds.Count, session.Id, scheduledAt, effectiveModeratorId, correlationId);
+
+                return Ok(new { success = true, sessionId = session.Id, scheduledAt, total = patientIds.Count });
+            }
+            catch (InvalidOperationException ex)
+            {
+                _logger.LogError(ex, "Quota operation failed for user");
+                return BadRequest(new { success = false, error = ex.Message });
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error scheduling messages");
+                return StatusCode(500, new { success = false, error = "حدث خطأ أثناء جدولة الرسائل" });
+            }
+        }
+
+        /// <summary>
+        /// GET /api/messages/last-per-patient?queueId=
+        /// Most recent message per patient of a queue (any status except deleted).
+        /// Used by the auto-notify panel to preview who the next CQP advance will message.
+        /// </summary>
+        [HttpGet("last-per-patient")]
+        public async Task<IActionResult> GetLastPerPatient([FromQuery] int queueId)
+        {
+            var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value
+                ?? User.FindFirst("sub")?.Value
+                ?? User.FindFirst("userId")?.Value;
+
+            if (string.IsNullOrEmpty(userIdClaim) || !int.TryParse(userIdClaim, out int userId))
+            {
+                return Unauthorized(new { success = false, error = "المستخدم غير مصرح له" });
+            }
+
+            try
+            {
+                var queue = await _db.Queues.AsNoTracking().FirstOrDefaultAsync(q => q.Id == queueId && !q.IsDeleted);
+                if (queue == null)
+                {
+                    return NotFound(new { success = false, error = "الطابور غير موجود" });
+                }
+
+                var isAdmin = User.IsInRole("primary_admin") || User.IsInRole("secondary_admin");
+                if (!isAdmin && queue.ModeratorId != await _quotaService.GetEffectiveModeratorIdAsync(userId))
+                {
+                    return Forbid();
+                }
+
+                var data = await _autoNotifyService.GetLastPatientMessagesAsync(queueId);
+                return Ok(new { success = true, data });
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error loading last messages for queue {QueueId}", queueId);
+                return StatusCode(500, new { success = false, error = "حدث خطأ أثناء تحميل الرسائل" });
+            }
+        }
+
         // Retry processing for failed messages/tasks - frontend posts to /api/messages/retry
         [HttpPost("retry")]
         public async Task<IActionResult> RetryAll()
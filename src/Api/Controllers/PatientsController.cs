@@ -21,13 +21,15 @@ namespace Clinics.Api.Controllers
         private readonly IUserContext _userContext;
         private readonly Clinics.Api.Services.IPatientCascadeService _patientCascadeService;
         private readonly IPatientPositionService _patientPositionService;
+        private readonly IQueueFlowService _queueFlow;
         public PatientsController(
             ApplicationDbContext db,
             ILogger<PatientsController> logger,
             IGenericUnitOfWork unitOfWork,
             IUserContext userContext,
             Clinics.Api.Services.IPatientCascadeService patientCascadeService,
-            IPatientPositionService patientPositionService)
+            IPatientPositionService patientPositionService,
+            IQueueFlowService queueFlow)
         {
             _db = db;
             _logger = logger;
@@ -35,6 +37,7 @@ namespace Clinics.Api.Controllers
             _userContext = userContext;
             _patientCascadeService = patientCascadeService;
             _patientPositionService = patientPositionService;
+            _queueFlow = queueFlow;
         }
 
         /// <summary>
@@ -58,6 +61,7 @@ namespace Clinics.Api.Controllers
                         IsValidWhatsAppNumber = p.IsValidWhatsAppNumber,
                         Position = p.Position,
                         Status = p.Status,
+                        StatusToken = p.StatusToken,
                         CreatedAt = p.CreatedAt,
                         UpdatedAt = p.UpdatedAt,
                         CreatedBy = p.CreatedBy,
@@ -103,6 +107,7 @@ namespace Clinics.Api.Controllers
                         IsValidWhatsAppNumber = p.IsValidWhatsAppNumber,
                         Position = p.Position,
                         Status = p.Status,
+                        StatusToken = p.StatusToken,
                         CreatedAt = p.CreatedAt,
                         UpdatedAt = p.UpdatedAt,
                         CreatedBy = p.CreatedBy,
@@ -217,6 +222,7 @@ namespace Clinics.Api.Controllers
                         IsValidWhatsAppNumber = patient.IsValidWhatsAppNumber,
                         Position = patient.Position,
                         Status = patient.Status,
+                        StatusToken = patient.StatusToken,
                         CreatedAt = patient.CreatedAt,
                         UpdatedAt = patient.UpdatedAt,
                         CreatedBy = patient.CreatedBy,
@@ -412,6 +418,7 @@ namespace Clinics.Api.Controllers
                         IsValidWhatsAppNumber = patient.IsValidWhatsAppNumber,
                         Position = patient.Position,
                         Status = patient.Status,
+                        StatusToken = patient.StatusToken,
                         CreatedAt = patient.CreatedAt,
                         UpdatedAt = patient.UpdatedAt,
                         CreatedBy = patient.CreatedBy,
@@ -551,6 +558,62 @@ namespace Clinics.Api.Controllers
             }
         }
 
+        /// <summary>
+        /// POST /api/patients/positions
+        /// Assign absolute positions to several patients of a queue at once (batch reorder, its undo, import order).
+        /// Nobody outside the batch moves; a position held by an active patient outside the batch is a 409.
+        /// Deleted patients are ignored.
+        /// </summary>
+        [HttpPost("positions")]
+        [Authorize(Roles = "primary_admin,secondary_admin,moderator")]
+        public async Task<IActionResult> AssignPositions([FromBody] ReorderPatientsRequest req)
+        {
+            if (!ModelState.IsValid)
+                return BadRequest(ModelState);
+
+            if (req.Items == null || req.Items.Count == 0)
+                return BadRequest(new { message = "Items list cannot be empty" });
+
+            await using var transaction = await _db.Database.BeginTransactionAsync();
+            try
+            {
+                var queue = await _queueFlow.LockQueueAsync(req.QueueId);
+                if (queue == null)
+                {
+                    await transaction.RollbackAsync();
+                    return NotFound(new { error = "queue_not_found", message = "العيادة غير موجودة" });
+                }
+
+                if (!_userContext.IsAdmin() && queue.ModeratorId != _userContext.GetModeratorId())
+                {
+                    await transaction.RollbackAsync();
+                    return Forbid();
+                }
+
+                var items = req.Items.Select(i => new PatientPositionAssignment(i.Id, i.Position)).ToList();
+                var (success, errorMessage) = await _patientPositionService.AssignPositionsAsync(queue.Id, items);
+                if (!success)
+                {
+                    await transaction.RollbackAsync();
+                    return errorMessage switch
+                    {
+                        "patient_not_found" => NotFound(new { error = errorMessage, message = "المريض غير موجود" }),
+                        "position_conflict" => Conflict(new { error = errorMessage, message = "تغير ترتيب الطابور، يرجى التحديث والمحاولة مرة أخرى" }),
+                        _ => BadRequest(new { error = errorMessage, message = "المواضع غير صالحة" })
+                    };
+                }
+
+                await transaction.CommitAsync();
+                return Ok(new { message = "Patients reordered successfully" });
+            }
+            catch (Exception ex)
+            {
+                await transaction.RollbackAsync();
+                _logger.LogError(ex, "Error assigning patient positions in queue {QueueId}", req.QueueId);
+                return StatusCode(500, new { message = "Error reordering patients" });
+            }
+        }
+
     // GET /api/patients/trash?queueId=1&page=1&pageSize=10
     // Get soft-deleted patients (trash) for a queue.
         [HttpGet("trash")]
@@ -716,6 +779,106 @@ namespace Clinics.Api.Controllers
                 return StatusCode(500, new { success = false, error = "حدث خطأ أثناء استعادة المريض", message = "حدث خطأ أثناء استعادة المريض." });
             }
         }
+
+        /// <summary>
+        /// POST /api/patients/{id}/no-show
+        /// Mark a waiting or in-service patient as a no-show (status cancelled). The queue position is not advanced.
+        /// </summary>
+        [HttpPost("{id}/no-show")]
+        [Authorize(Roles = "primary_admin,secondary_admin,moderator,user")]
+        public Task<IActionResult> NoShow(int id)
+        {
+            return RunFlowActionAsync(id, "no-show", (queue, patient, userId) => _queueFlow.MarkNoShowAsync(queue, patient, userId));
+        }
+
+        /// <summary>
+        /// POST /api/patients/{id}/skip
+        /// Send a waiting or in-service patient back to waiting at the end of the queue.
+        /// </summary>
+        [HttpPost("{id}/skip")]
+        [Authorize(Roles = "primary_admin,secondary_admin,moderator,user")]
+        public Task<IActionResult> Skip(int id)
+        {
+            return RunFlowActionAsync(id, "skip", (queue, patient, userId) => _queueFlow.SkipAsync(queue, patient, userId));
+        }
+
+        /// <summary>
+        /// Shared by no-show and skip: one transaction with the patient's queue locked (see QueueFlowService).
+        /// </summary>
+        private async Task<IActionResult> RunFlowActionAsync(
+            int id,
+            string action,
+            Func<Queue, Patient, int, Task<QueueFlowResult>> apply)
+        {
+            int userId;
+            try
+            {
+                userId = _userContext.GetUserId();
+            }
+            catch (InvalidOperationException authEx)
+            {
+                _logger.LogError(authEx, "Authentication error: User ID not found in claims");
+                return Unauthorized(new { success = false, error = "Authentication failed. Please log in again." });
+            }
+
+            var queueId = await _db.Patients
+                .Where(p => p.Id == id && !p.IsDeleted)
+                .Select(p => (int?)p.QueueId)
+                .FirstOrDefaultAsync();
+            if (queueId == null)
+                return NotFound(new { success = false, error = "المريض غير موجود" });
+
+            await using var transaction = await _db.Database.BeginTransactionAsync();
+            try
+            {
+                var queue = await _queueFlow.LockQueueAsync(queueId.Value);
+                if (queue == null)
+                {
+                    await transaction.RollbackAsync();
+                    return NotFound(new { success = false, error = "عيادة المريض غير موجود" });
+                }
+
+                if (!_userContext.IsAdmin() && queue.ModeratorId != _userContext.GetModeratorId())
+                {
+                    await transaction.RollbackAsync();
+                    return Forbid();
+                }
+
+                // Re-read under the queue lock
+                var patient = await _db.Patients.FirstOrDefaultAsync(p => p.Id == id && !p.IsDeleted);
+                if (patient == null)
+                {
+                    await transaction.RollbackAsync();
+                    return NotFound(new { success = false, error = "المريض غير موجود" });
+                }
+
+                if (!_queueFlow.CanChangeStatus(patient.Status))
+                {
+                    await transaction.RollbackAsync();
+                    return Conflict(new
+                    {
+                        success = false,
+                        error = "لا يمكن تغيير حالة مريض انتهت زيارته أو ألغيت",
+                        code = "PATIENT_STATUS_FINAL"
+                    });
+                }
+
+                var result = await apply(queue, patient, userId);
+                await transaction.CommitAsync();
+
+                _logger.LogInformation("User {UserId} applied {Action} to patient {PatientId} in queue {QueueId}",
+                    userId, action, id, queue.Id);
+
+                var patientCount = await _db.Patients.CountAsync(p => p.QueueId == queue.Id && !p.IsDeleted);
+                return Ok(result.ToDto(patientCount));
+            }
+            catch (Exception ex)
+            {
+                await transaction.RollbackAsync();
+                _logger.LogError(ex, "Error applying {Action} to patient {PatientId}", action, id);
+                return StatusCode(500, new { success = false, error = "حدث خطأ أثناء تحديث حالة المريض" });
+            }
+        }
     }
 }
 
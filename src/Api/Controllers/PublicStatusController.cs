@@ -0,0 +1,50 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.RateLimiting;
+using Clinics.Api.DTOs;
+using Clinics.Api.Services;
+
+namespace Clinics.Api.Controllers
+{
+    /// <summary>
+    /// Anonymous queue status page behind a patient's status link ({LINK}, see PatientStatusService).
+    /// Rate limited per client ("public-status" policy).
+    /// </summary>
+    [ApiController]
+    [Route("api/public/status")]
+    [AllowAnonymous]
+    [EnableRateLimiting("public-status")]
+    public class PublicStatusController : ControllerBase
+    {
+        private readonly IPatientStatusService _patientStatus;
+        private readonly ILogger<PublicStatusController> _logger;
+
+        public PublicStatusController(IPatientStatusService patientStatus, ILogger<PublicStatusController> logger)
+        {
+            _patientStatus = patientStatus;
+            _logger = logger;
+        }
+
+        /// <summary>
+        /// GET /api/public/status/{token}
+        /// Current queue status for a patient's status link.
+        /// </summary>
+        [HttpGet("{token}")]
+        public async Task<ActionResult<PublicQueueStatusDto>> Get(string token)
+        {
+            try
+            {
+                var status = await _patientStatus.GetStatusAsync(token);
+                if (status == null)
+                    return NotFound(new { success = false, error = "رابط متابعة الدور غير صالح أو منتهي" });
+
+                return Ok(status);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error loading public queue status");
+                return StatusCode(500, new { success = false, error = "Error loading queue status" });
+            }
+        }
+    }
+}
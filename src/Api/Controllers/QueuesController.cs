@@ -7,6 +7,8 @@ using Clinics.Infrastructure.Repositories;
 using Microsoft.EntityFrameworkCore;
 using Microsoft.AspNetCore.Authorization;
 using System.Security.Claims;
+using Hangfire;
+using Clinics.Api.Helpers;
 
 namespace Clinics.Api.Controllers
 {
@@ -21,6 +23,9 @@ namespace Clinics.Api.Controllers
         private readonly Clinics.Api.Services.IQueueCascadeService _queueCascadeService;
         private readonly IWebHostEnvironment _env;
         private readonly ISoftDeleteTTLQueries<Queue> _ttlQueries;
+        private readonly IBackgroundJobClient _backgroundJobs;
+        private readonly IQueueDuplicationService _queueDuplication;
+        private readonly IQueueFlowService _queueFlow;
 
         public QueuesController(
             ApplicationDbContext db,
@@ -28,7 +33,10 @@ namespace Clinics.Api.Controllers
             ILogger<QueuesController> logger,
             Clinics.Api.Services.IQueueCascadeService queueCascadeService,
             IWebHostEnvironment env,
-            IGenericUnitOfWork unitOfWork)
+            IGenericUnitOfWork unitOfWork,
+            IBackgroundJobClient backgroundJobs,
+            IQueueDuplicationService queueDuplication,
+            IQueueFlowService queueFlow)
         {
             _db = db;
             _quotaService = quotaService;
@@ -36,6 +44,9 @@ namespace Clinics.Api.Controllers
             _queueCascadeService = queueCascadeService;
             _env = env;
             _ttlQueries = unitOfWork.TTLQueries<Queue>();
+            _backgroundJobs = backgroundJobs;
+            _queueDuplication = queueDuplication;
+            _queueFlow = queueFlow;
         }
 
         [HttpGet]
@@ -94,6 +105,9 @@ namespace Clinics.Api.Controllers
                     ModeratorId = q.ModeratorId,
                     CurrentPosition = q.CurrentPosition,
                     EstimatedWaitMinutes = q.EstimatedWaitMinutes,
+                    AutoNotifyEnabled = q.AutoNotifyEnabled,
+                    AutoNotifyDedupMinutes = q.AutoNotifyDedupMinutes,
+                    CustomVariables = QueueCustomVariablesHelper.Parse(q.CustomVariables),
                     PatientCount = _db.Patients.Count(p => p.QueueId == q.Id)
                 }).ToListAsync();
             return Ok(new { success = true, data = qs });
@@ -112,6 +126,9 @@ namespace Clinics.Api.Controllers
                 ModeratorId = q.ModeratorId,
                 CurrentPosition = q.CurrentPosition,
                 EstimatedWaitMinutes = q.EstimatedWaitMinutes,
+                AutoNotifyEnabled = q.AutoNotifyEnabled,
+                AutoNotifyDedupMinutes = q.AutoNotifyDedupMinutes,
+                CustomVariables = QueueCustomVariablesHelper.Parse(q.CustomVariables),
                 PatientCount = await _db.Patients.CountAsync(p => p.QueueId == q.Id)
             };
             return Ok(new { success = true, data = dto });
@@ -215,6 +232,9 @@ namespace Clinics.Api.Controllers
                         ModeratorId = q.ModeratorId,
                         CurrentPosition = q.CurrentPosition,
                         EstimatedWaitMinutes = q.EstimatedWaitMinutes,
+                        AutoNotifyEnabled = q.AutoNotifyEnabled,
+                        AutoNotifyDedupMinutes = q.AutoNotifyDedupMinutes,
+                        CustomVariables = QueueCustomVariablesHelper.Parse(q.CustomVariables),
                         PatientCount = 0
                     };
 
@@ -296,6 +316,9 @@ namespace Clinics.Api.Controllers
                         ModeratorId = q.ModeratorId,
                         CurrentPosition = q.CurrentPosition,
                         EstimatedWaitMinutes = q.EstimatedWaitMinutes,
+                        AutoNotifyEnabled = q.AutoNotifyEnabled,
+                        AutoNotifyDedupMinutes = q.AutoNotifyDedupMinutes,
+                        CustomVariables = QueueCustomVariablesHelper.Parse(q.CustomVariables),
                         PatientCount = 0
                     };
 
@@ -403,9 +426,23 @@ namespace Clinics.Api.Controllers
                 }
             }
 
+            if (req.CustomVariables != null)
+            {
+                var variablesError = QueueCustomVariablesHelper.Validate(req.CustomVariables);
+                if (variablesError != null)
+                {
+                    return BadRequest(new { success = false, error = variablesError, code = "INVALID_CUSTOM_VARIABLES" });
+                }
+            }
+
+            var previousPosition = q.CurrentPosition;
+
             q.DoctorName = req.DoctorName;
             if (req.EstimatedWaitMinutes.HasValue) q.EstimatedWaitMinutes = req.EstimatedWaitMinutes.Value;
             if (req.CurrentPosition.HasValue) q.CurrentPosition = req.CurrentPosition.Value;
+            if (req.AutoNotifyEnabled.HasValue) q.AutoNotifyEnabled = req.AutoNotifyEnabled.Value;
+            if (req.AutoNotifyDedupMinutes.HasValue) q.AutoNotifyDedupMinutes = req.AutoNotifyDedupMinutes.Value;
+            if (req.CustomVariables != null) q.CustomVariables = QueueCustomVariablesHelper.Serialize(req.CustomVariables);
 
             // Set UpdatedAt and UpdatedBy for audit trail
             q.UpdatedAt = DateTime.UtcNow;
@@ -413,6 +450,12 @@ namespace Clinics.Api.Controllers
 
             await _db.SaveChangesAsync();
 
+            // Auto-notify only when the queue advances, not when the position is corrected backwards
+            if (q.AutoNotifyEnabled && q.CurrentPosition > previousPosition)
+            {
+                _backgroundJobs.Enqueue<AutoNotifyJob>(job => job.ExecuteAsync(q.Id, userId));
+            }
+
             var dto = new QueueDto
             {
                 Id = q.Id,
@@ -421,12 +464,193 @@ namespace Clinics.Api.Controllers
                 ModeratorId = q.ModeratorId,
                 CurrentPosition = q.CurrentPosition,
                 EstimatedWaitMinutes = q.EstimatedWaitMinutes,
+                AutoNotifyEnabled = q.AutoNotifyEnabled,
+                AutoNotifyDedupMinutes = q.AutoNotifyDedupMinutes,
+                CustomVariables = QueueCustomVariablesHelper.Parse(q.CustomVariables),
                 PatientCount = _db.Patients.Count(p => p.QueueId == q.Id && !p.IsDeleted)
             };
 
             return Ok(new { success = true, data = dto, queue = dto });
         }
 
+        /// <summary>
+        /// POST /api/queues/{id}/duplicate
+        /// Copy a queue's settings, templates and conditions (and optionally patients) into a new queue.
+        /// Admins may target any moderator; others only their own. Consumes one queue of the target moderator's quota.
+        /// </summary>
+        [HttpPost("{id}/duplicate")]
+        [Authorize(Roles = "primary_admin,secondary_admin,moderator,user")]
+        public async Task<IActionResult> Duplicate(int id, [FromBody] QueueDuplicateRequest req)
+        {
+            if (!ModelState.IsValid)
+            {
+                return BadRequest(new
+                {
+                    success = false,
+                    errors = ModelState.Values.SelectMany(v => v.Errors).Select(e => e.ErrorMessage)
+                });
+            }
+
+            var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value
+                ?? User.FindFirst("nameid")?.Value
+                ?? User.FindFirst("sub")?.Value
+                ?? User.FindFirst("userId")?.Value
+                ?? User.FindFirst("id")?.Value
+                ?? User.FindFirst("Id")?.Value;
+
+            if (string.IsNullOrEmpty(userIdClaim) || !int.TryParse(userIdClaim, out int userId))
+            {
+                return Unauthorized(new { success = false, error = "المستخدم غير مصرح له" });
+            }
+
+            var source = await _db.Queues.AsNoTracking().FirstOrDefaultAsync(x => x.Id == id && !x.IsDeleted);
+            if (source == null) return NotFound(new { success = false, error = "العيادة غير موجودة" });
+
+            var isAdmin = User.IsInRole("primary_admin") || User.IsInRole("secondary_admin");
+            if (!isAdmin)
+            {
+                var effectiveModeratorId = await _quotaService.GetEffectiveModeratorIdAsync(userId);
+                if (source.ModeratorId != effectiveModeratorId || req.ModeratorId != effectiveModeratorId)
+                {
+                    return Forbid();
+                }
+            }
+
+            var targetModerator = await _db.Users.AsNoTracking()
+                .FirstOrDefaultAsync(u => u.Id == req.ModeratorId && u.Role == "moderator" && !u.IsDeleted);
+            if (targetModerator == null)
+            {
+                return BadRequest(new { success = false, error = "المشرف المحدد غير موجود" });
+            }
+
+            var quota = await _quotaService.GetOrCreateQuotaForModeratorAsync(req.ModeratorId);
+            if (quota.QueuesQuota != -1 && quota.RemainingQueues < 1)
+            {
+                return BadRequest(new
+                {
+                    success = false,
+                    error = "حصة العيادات غير كافية",
+                    code = "QUOTA_EXCEEDED"
+                });
+            }
+
+            await using var transaction = await _db.Database.BeginTransactionAsync();
+            try
+            {
+                var result = await _queueDuplication.DuplicateAsync(source, req.DoctorName.Trim(), req.ModeratorId, req.IncludePatients, userId);
+                await _quotaService.ConsumeQueueQuotaForModeratorAsync(req.ModeratorId);
+                await transaction.CommitAsync();
+
+                _logger.LogInformation(
+                    "User {UserId} duplicated queue {SourceQueueId} into {QueueId} for moderator {ModeratorId}: {Templates} templates, {Patients} patients",
+                    userId, id, result.Queue.Id, req.ModeratorId, result.TemplatesCopied, result.PatientsCopied);
+
+                var q = result.Queue;
+                var dto = new QueueDto
+                {
+                    Id = q.Id,
+                    DoctorName = q.DoctorName,
+                    CreatedBy = q.CreatedBy,
+                    ModeratorId = q.ModeratorId,
+                    CurrentPosition = q.CurrentPosition,
+                    EstimatedWaitMinutes = q.EstimatedWaitMinutes,
+                    AutoNotifyEnabled = q.AutoNotifyEnabled,
+                    AutoNotifyDedupMinutes = q.AutoNotifyDedupMinutes,
+                    CustomVariables = QueueCustomVariablesHelper.Parse(q.CustomVariables),
+                    PatientCount = result.PatientsCopied
+                };
+
+                return Ok(new QueueDuplicateResult
+                {
+                    Queue = dto,
+                    TemplatesCopied = result.TemplatesCopied,
+                    ConditionsCopied = result.ConditionsCopied,
+                    PatientsCopied = result.PatientsCopied
+                });
+            }
+            catch (Exception ex)
+            {
+                await transaction.RollbackAsync();
+                _logger.LogError(ex, "Error duplicating queue {QueueId}", id);
+                return StatusCode(500, new { success = false, error = "حدث خطأ أثناء نسخ العيادة" });
+            }
+        }
+
+        /// <summary>
+        /// POST /api/queues/{id}/call-next
+        /// In one transaction: complete the patient in service, call the first waiting patient and move
+        /// CurrentPosition to them (see QueueFlowService). Rejected with 409 when the queue is no longer at
+        /// expectedPosition, so two screens calling at once never skip a patient.
+        /// </summary>
+        [HttpPost("{id}/call-next")]
+        [Authorize(Roles = "primary_admin,secondary_admin,moderator,user")]
+        public async Task<IActionResult> CallNext(int id, [FromBody] CallNextRequest req)
+        {
+            var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value
+                ?? User.FindFirst("nameid")?.Value
+                ?? User.FindFirst("sub")?.Value
+                ?? User.FindFirst("userId")?.Value
+                ?? User.FindFirst("id")?.Value
+                ?? User.FindFirst("Id")?.Value;
+
+            if (string.IsNullOrEmpty(userIdClaim) || !int.TryParse(userIdClaim, out int userId))
+            {
+                return Unauthorized(new { success = false, error = "المستخدم غير مصرح له" });
+            }
+
+            await using var transaction = await _db.Database.BeginTransactionAsync();
+            try
+            {
+                var q = await _queueFlow.LockQueueAsync(id);
+                if (q == null)
+                {
+                    await transaction.RollbackAsync();
+                    return NotFound(new { success = false, error = "العيادة غير موجودة" });
+                }
+
+                var isAdmin = User.IsInRole("primary_admin") || User.IsInRole("secondary_admin");
+                if (!isAdmin && q.ModeratorId != await _quotaService.GetEffectiveModeratorIdAsync(userId))
+                {
+                    await transaction.RollbackAsync();
+                    return Forbid();
+                }
+
+                if (q.CurrentPosition != req.ExpectedPosition)
+                {
+                    await transaction.RollbackAsync();
+                    return Conflict(new
+                    {
+                        success = false,
+                        error = "تم تحديث الطابور من شاشة أخرى - يرجى المحاولة مرة أخرى",
+                        code = "QUEUE_POSITION_CHANGED",
+                        currentPosition = q.CurrentPosition
+                    });
+                }
+
+                var previousPosition = q.CurrentPosition;
+                var result = await _queueFlow.CallNextAsync(q, userId);
+                await transaction.CommitAsync();
+
+                // Same rule as Update: auto-notify only when the queue advances
+                if (q.AutoNotifyEnabled && q.CurrentPosition > previousPosition)
+                {
+                    _backgroundJobs.Enqueue<AutoNotifyJob>(job => job.ExecuteAsync(q.Id, userId));
+                }
+
+                _logger.LogInformation("User {UserId} called next on queue {QueueId}: position {Previous} -> {Current}",
+                    userId, q.Id, previousPosition, q.CurrentPosition);
+
+                var patientCount = await _db.Patients.CountAsync(p => p.QueueId == q.Id && !p.IsDeleted);
+                return Ok(result.ToDto(patientCount));
+            }
+            catch (Exception ex)
+            {
+                await transaction.RollbackAsync();
+                _logger.LogError(ex, "Error calling next patient on queue {QueueId}", id);
+                return StatusCode(500, new { success = false, error = "حدث خطأ أثناء نداء المريض التالي" });
+            }
+        }
+
         [HttpDelete("{id}")]
         [Authorize(Roles = "primary_admin,secondary_admin,moderator,user")]
         public async Task<IActionResult> Delete(int id)
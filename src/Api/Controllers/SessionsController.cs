@@ -25,17 +25,20 @@ namespace Clinics.Api.Controllers
         private readonly QuotaService _quotaService;
         private readonly ILogger<SessionsController> _logger;
         private readonly IHubContext<DataUpdateHub> _hubContext;
+        private readonly IScheduledSessionService _scheduledSessions;
 
         public SessionsController(
             ApplicationDbContext db,
             QuotaService quotaService,
             ILogger<SessionsController> logger,
-            IHubContext<DataUpdateHub> hubContext)
+            IHubContext<DataUpdateHub> hubContext,
+            IScheduledSessionService scheduledSessions)
         {
             _db = db;
             _quotaService = quotaService;
             _logger = logger;
             _hubContext = hubContext;
+            _scheduledSessions = scheduledSessions;
         }
 
         /// <summary>
@@ -375,6 +378,7 @@ namespace Clinics.Api.Controllers
                     // Get sent messages for this session
                     var sentMessages = await _db.Messages
                         .AsNoTracking()
+                        .Include(m => m.TemplateVersion)
                         .Where(m => m.SessionId == session.Id.ToString()
                             && !m.IsDeleted
                             && m.Status == "sent")
@@ -409,8 +413,14 @@ namespace Clinics.Api.Controllers
                         CountryCode = m.CountryCode ?? "+966",
                         Content = m.Content ?? "",
                         SentAt = m.SentAt ?? m.UpdatedAt,
+                        Status = m.ReadAt != null ? "read" : m.DeliveredAt != null ? "delivered" : "sent",
+                        DeliveredAt = m.DeliveredAt,
+                        ReadAt = m.ReadAt,
                         CreatedBy = m.CreatedBy,
-                        UpdatedBy = m.UpdatedBy
+                        UpdatedBy = m.UpdatedBy,
+                        TemplateId = m.TemplateId,
+                        TemplateVersionId = m.TemplateVersionId,
+                        TemplateVersionNumber = m.TemplateVersion?.VersionNumber
                     }).ToList();
 
                     result.Add(new CompletedSessionDto
@@ -444,6 +454,93 @@ namespace Clinics.Api.Controllers
             }
         }
 
+        /// <summary>
+        /// Get every message of one session (sent, failed, queued...) with its status, attempts, failure reason
+        /// and resolved content. Used by the session results export.
+        /// Non-admins only see sessions of their moderator.
+        /// </summary>
+        [HttpGet("{sessionId}/results")]
+        public async Task<IActionResult> GetSessionResults(Guid sessionId)
+        {
+            var (userId, moderatorId, isAdmin, error) = await GetUserAndModeratorId();
+            if (error != null)
+            {
+                return Unauthorized(new { success = false, error });
+            }
+
+            // [SECURITY FIX] For non-admins without a moderatorId, reject the request
+            if (!isAdmin && !moderatorId.HasValue)
+            {
+                return Unauthorized(new { success = false, error = "لم يتم العثور على المشرف المرتبط" });
+            }
+
+            try
+            {
+                var query = _db.MessageSessions
+                    .AsNoTracking()
+                    .Include(s => s.Queue)
+                    .Where(s => s.Id == sessionId && !s.IsDeleted && s.SessionType == "send");
+
+                if (!isAdmin)
+                {
+                    query = query.Where(s => s.ModeratorId == moderatorId!.Value);
+                }
+
+                var session = await query.FirstOrDefaultAsync();
+                if (session == null)
+                {
+                    return NotFound(new { success = false, error = "الجلسة غير موجودة" });
+                }
+
+                var messages = await _db.Messages
+                    .AsNoTracking()
+                    .Where(m => m.SessionId == session.Id.ToString() && !m.IsDeleted)
+                    .OrderBy(m => m.Position)
+                    .ToListAsync();
+
+                var queuedCount = messages.Count(m => m.Status == "queued" || m.Status == "sending");
+
+                var result = new SessionResultsDto
+                {
+                    SessionId = session.Id,
+                    QueueId = session.QueueId,
+                    QueueName = session.Queue?.DoctorName ?? "غير معروف",
+                    StartTime = session.StartTime,
+                    CompletedAt = queuedCount == 0 ? session.EndTime : null,
+                    Messages = messages.Select(m => new SessionMessageResultDto
+                    {
+                        PatientId = m.PatientId ?? 0,
+                        MessageId = m.Id,
+                        Name = m.FullName ?? "غير معروف",
+                        Phone = m.PatientPhone ?? "",
+                        CountryCode = m.CountryCode ?? "+966",
+                        // Sent messages report their receipt state, like the completed sessions
+                        Status = m.Status == "sent"
+                            ? (m.ReadAt != null ? "read" : m.DeliveredAt != null ? "delivered" : "sent")
+                            : m.Status,
+                        IsPaused = m.IsPaused,
+                        Attempts = m.Attempts,
+                        FailedReason = m.Status == "failed" ? m.ErrorMessage : null,
+                        AttemptNumber = m.Attempts,
+                        MessageContent = m.Content,
+                        SentAt = m.SentAt,
+                        DeliveredAt = m.DeliveredAt,
+                        ReadAt = m.ReadAt
+                    }).ToList()
+                };
+
+                _logger.LogDebug("[SessionsController] Loaded {Count} message results of session {SessionId} (User: {UserId})",
+                    result.Messages.Count, sessionId, userId);
+
+                return Ok(new { success = true, data = result });
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "[SessionsController] Error getting results of session {SessionId}", sessionId);
+                return StatusCode(500, new { success = false, error = "حدث خطأ أثناء جلب نتائج الجلسة" });
+            }
+        }
+
         /// <summary>
         /// Pause a session (hierarchical - messages won't be sent but aren't updated in DB).
         /// FilterPausedMessagesAsync checks MessageSession.IsPaused to prevent processing.
@@ -715,6 +812,268 @@ namespace Clinics.Api.Controllers
             }
         }
 
+        /// <summary>
+        /// Get scheduled sessions that have not fired yet (scheduled or quota-blocked).
+        /// For Admins: optionally filter by moderatorId query parameter.
+        /// </summary>
+        [HttpGet("scheduled")]
+        public async Task<IActionResult> GetScheduledSessions([FromQuery] int? moderatorId = null)
+        {
+            var (userId, effectiveModeratorId, isAdmin, error) = await GetUserAndModeratorId();
+            if (error != null)
+            {
+                return Unauthorized(new { success = false, error });
+            }
+
+            int? filterModeratorId = isAdmin ? moderatorId : effectiveModeratorId;
+
+            try
+            {
+                var query = ScheduledSessionsQuery(filterModeratorId);
+                var sessions = await query
+                    .AsNoTracking()
+                    .Include(s => s.Queue)
+                    .OrderBy(s => s.ScheduledAt)
+                    .ToListAsync();
+
+                var result = new List<ScheduledSessionDto>();
+                foreach (var session in sessions)
+                {
+                    result.Add(await BuildScheduledSessionDtoAsync(session));
+                }
+
+                return Ok(new { success = true, data = result });
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "[SessionsController] Error getting scheduled sessions");
+                return StatusCode(500, new { success = false, error = "حدث خطأ أثناء جلب الجلسات المجدولة" });
+            }
+        }
+
+        /// <summary>
+        /// Reschedule a scheduled session and/or change its recipients (only before it fires).
+        /// Rescheduling a quota-blocked session puts it back to "scheduled".
+        /// </summary>
+        [HttpPut("scheduled/{sessionId}")]
+        public async Task<IActionResult> UpdateScheduledSession(Guid sessionId, [FromBody] UpdateScheduledSessionRequest req)
+        {
+            var (userId, moderatorId, isAdmin, error) = await GetUserAndModeratorId();
+            if (error != null)
+            {
+                return Unauthorized(new { success = false, error });
+            }
+
+            try
+            {
+                var session = await ScheduledSessionsQuery(isAdmin ? null : moderatorId)
+                    .Include(s => s.Queue)
+                    .FirstOrDefaultAsync(s => s.Id == sessionId);
+                if (session == null)
+                {
+                    return NotFound(new { success = false, error = "الجلسة المجدولة غير موجودة أو تم إرسالها" });
+                }
+
+                if (req.ScheduledAt.HasValue)
+                {
+                    var scheduledAt = req.ScheduledAt.Value.Kind == DateTimeKind.Local
+                        ? req.ScheduledAt.Value.ToUniversalTime()
+                        : DateTime.SpecifyKind(req.ScheduledAt.Value, DateTimeKind.Utc);
+                    if (scheduledAt < DateTime.UtcNow.AddMinutes(1))
+                    {
+                        return BadRequest(new { success = false, error = "يجب أن يكون وقت الإرسال في المستقبل", code = "SCHEDULE_IN_PAST" });
+                    }
+                    session.ScheduledAt = scheduledAt;
+                    session.Status = ScheduledSessionService.StatusScheduled;
+                    session.BlockedReason = null;
+                }
+
+                if (req.PatientIds != null)
+                {
+                    var patientIds = req.PatientIds.Distinct().ToList();
+                    if (patientIds.Count == 0)
+                    {
+                        return BadRequest(new { success = false, error = "يرجى اختيار مريض واحد على الأقل", code = "NO_PATIENTS" });
+                    }
+
+                    var validCount = await _db.Patients
+                        .CountAsync(p => patientIds.Contains(p.Id) && p.QueueId == session.QueueId && !p.IsDeleted);
+                    if (validCount != patientIds.Count)
+                    {
+                        return BadRequest(new { success = false, error = "بعض المرضى غير موجودين في هذا الطابور", code = "PATIENTS_NOT_FOUND" });
+                    }
+
+                    session.ScheduledPatientIds = System.Text.Json.JsonSerializer.Serialize(patientIds);
+                    session.TotalMessages = patientIds.Count;
+                }
+
+                session.LastUpdated = DateTime.UtcNow;
+                await _db.SaveChangesAsync();
+
+                _logger.LogBusinessInformation("تم تعديل الجلسة المجدولة {SessionId} بواسطة {UserId}", sessionId, userId);
+
+                return Ok(new { success = true, data = await BuildScheduledSessionDtoAsync(session) });
+            }
+            catch (DbUpdateConcurrencyException)
+            {
+                return Conflict(new { success = false, error = "تم إرسال الجلسة أو تعديلها للتو. يرجى التحديث والمحاولة مرة أخرى." });
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "[SessionsController] Error updating scheduled session {SessionId}", sessionId);
+                return StatusCode(500, new { success = false, error = "حدث خطأ أثناء تعديل الجلسة المجدولة" });
+            }
+        }
+
+        /// <summary>
+        /// Cancel a scheduled session before it fires (nothing is sent, no quota consumed).
+        /// </summary>
+        [HttpDelete("scheduled/{sessionId}")]
+        public async Task<IActionResult> CancelScheduledSession(Guid sessionId)
+        {
+            var (userId, moderatorId, isAdmin, error) = await GetUserAndModeratorId();
+            if (error != null)
+            {
+                return Unauthorized(new { success = false, error });
+            }
+
+            try
+            {
+                var session = await ScheduledSessionsQuery(isAdmin ? null : moderatorId)
+                    .FirstOrDefaultAsync(s => s.Id == sessionId);
+                if (session == null)
+                {
+                    return NotFound(new { success = false, error = "الجلسة المجدولة غير موجودة أو تم إرسالها" });
+                }
+
+                session.IsDeleted = true;
+                session.DeletedAt = DateTime.UtcNow;
+                session.DeletedBy = userId;
+                session.Status = "cancelled";
+                session.LastUpdated = DateTime.UtcNow;
+                await _db.SaveChangesAsync();
+
+                _logger.LogBusinessInformation("تم إلغاء الجلسة المجدولة {SessionId} بواسطة {UserId}", sessionId, userId);
+
+                return Ok(new { success = true });
+            }
+            catch (DbUpdateConcurrencyException)
+            {
+                return Conflict(new { success = false, error = "تم إرسال الجلسة أو تعديلها للتو. يرجى التحديث والمحاولة مرة أخرى." });
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "[SessionsController] Error cancelling scheduled session {SessionId}", sessionId);
+                return StatusCode(500, new { success = false, error = "حدث خطأ أثناء إلغاء الجلسة المجدولة" });
+            }
+        }
+
+        /// <summary>
+        /// Fire a scheduled session immediately (quota is checked now, like a normal send).
+        /// </summary>
+        [HttpPost("scheduled/{sessionId}/send-now")]
+        public async Task<IActionResult> SendScheduledSessionNow(Guid sessionId)
+        {
+            var (userId, moderatorId, isAdmin, error) = await GetUserAndModeratorId();
+            if (error != null)
+            {
+                return Unauthorized(new { success = false, error });
+            }
+
+            try
+            {
+                var exists = await ScheduledSessionsQuery(isAdmin ? null : moderatorId)
+                    .AnyAsync(s => s.Id == sessionId);
+                if (!exists)
+                {
+                    return NotFound(new { success = false, error = "الجلسة المجدولة غير موجودة أو تم إرسالها" });
+                }
+
+                var (success, queued, errorCode) = await _scheduledSessions.FireAsync(sessionId);
+                if (!success)
+                {
+                    return errorCode switch
+                    {
+                        "quota_exceeded" => BadRequest(new { success = false, error = "حصة الرسائل غير كافية", code = "QUOTA_EXCEEDED" }),
+                        "cancelled" => BadRequest(new { success = false, error = "تم إلغاء الجلسة لأن القالب أو الطابور أو المرضى لم يعودوا موجودين", code = "SCHEDULE_CANCELLED" }),
+                        "conflict" => Conflict(new { success = false, error = "تم إرسال الجلسة أو تعديلها للتو. يرجى التحديث والمحاولة مرة أخرى." }),
+                        _ => NotFound(new { success = false, error = "الجلسة المجدولة غير موجودة أو تم إرسالها" })
+                    };
+                }
+
+                _logger.LogBusinessInformation("تم إرسال الجلسة المجدولة {SessionId} فوراً بواسطة {UserId}", sessionId, userId);
+
+                return Ok(new { success = true, queued });
+            }
+            catch (InvalidOperationException ex)
+            {
+                _logger.LogError(ex, "Quota operation failed for user");
+                return BadRequest(new { success = false, error = ex.Message });
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "[SessionsController] Error sending scheduled session {SessionId}", sessionId);
+                return StatusCode(500, new { success = false, error = "حدث خطأ أثناء إرسال الجلسة المجدولة" });
+            }
+        }
+
+        /// <summary>
+        /// Scheduled sessions that have not fired yet, optionally restricted to one moderator.
+        /// </summary>
+        private IQueryable<MessageSession> ScheduledSessionsQuery(int? moderatorId)
+        {
+            var query = _db.MessageSessions
+                .Where(s => !s.IsDeleted
+                    && s.SessionType == MessageSessionTypes.Scheduled
+                    && (s.Status == ScheduledSessionService.StatusScheduled || s.Status == ScheduledSessionService.StatusQuotaBlocked));
+
+            if (moderatorId.HasValue)
+            {
+                query = query.Where(s => s.ModeratorId == moderatorId.Value);
+            }
+
+            return query;
+        }
+
+        private async Task<ScheduledSessionDto> BuildScheduledSessionDtoAsync(MessageSession session)
+        {
+            var patientIds = _scheduledSessions.GetPatientIds(session);
+            var patients = await _db.Patients
+                .AsNoTracking()
+                .Where(p => patientIds.Contains(p.Id) && !p.IsDeleted)
+                .OrderBy(p => p.Position)
+                .Select(p => new ScheduledSessionPatientDto
+                {
+                    PatientId = p.Id,
+                    Name = p.FullName,
+                    Phone = p.PhoneNumber,
+                    CountryCode = p.CountryCode
+                })
+                .ToListAsync();
+
+            var templateTitle = await _db.MessageTemplates
+                .Where(t => t.Id == session.TemplateId)
+                .Select(t => t.Title)
+                .FirstOrDefaultAsync();
+
+            return new ScheduledSessionDto
+            {
+                SessionId = session.Id,
+                QueueId = session.QueueId,
+                QueueName = session.Queue?.DoctorName ?? "غير معروف",
+                TemplateId = session.TemplateId ?? 0,
+                TemplateTitle = templateTitle,
+                ScheduledAt = session.ScheduledAt ?? session.StartTime,
+                CreatedAt = session.StartTime,
+                CreatedBy = session.UserId,
+                UpdatedAt = session.LastUpdated,
+                Total = patients.Count,
+                Status = session.Status,
+                BlockedReason = session.BlockedReason,
+                Patients = patients
+            };
+        }
+
         /// <summary>
         /// Get human-readable message for pause reason code.
         /// </summary>
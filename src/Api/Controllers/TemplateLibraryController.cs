@@ -0,0 +1,347 @@
+using Microsoft.AspNetCore.Mvc;
+using Clinics.Infrastructure;
+using Clinics.Domain;
+using Clinics.Api.DTOs;
+using Clinics.Api.Helpers;
+using Clinics.Api.Services;
+using Microsoft.EntityFrameworkCore;
+
+namespace Clinics.Api.Controllers
+{
+    /// <summary>
+    /// Shared template library (see TemplateLibraryService).
+    /// System-level templates are managed by admins and visible to everyone;
+    /// moderator-level templates belong to one moderator and their users.
+    /// </summary>
+    [ApiController]
+    [Route("api/template-library")]
+    [Microsoft.AspNetCore.Authorization.Authorize(Roles = "primary_admin,secondary_admin,moderator,user")]
+    public class TemplateLibraryController : ControllerBase
+    {
+        private const string SystemScope = "system";
+        private const string ModeratorScope = "moderator";
+
+        private readonly ApplicationDbContext _db;
+        private readonly ILogger<TemplateLibraryController> _logger;
+        private readonly IUserContext _userContext;
+        private readonly ITemplateLibraryService _templateLibrary;
+
+        public TemplateLibraryController(
+            ApplicationDbContext db,
+            ILogger<TemplateLibraryController> logger,
+            IUserContext userContext,
+            ITemplateLibraryService templateLibrary)
+        {
+            _db = db;
+            _logger = logger;
+            _userContext = userContext;
+            _templateLibrary = templateLibrary;
+        }
+
+        /// <summary>
+        /// GET /api/template-library?scope=moderator&amp;category=...&amp;search=...
+        /// System-level templates plus the moderator-level ones of the current moderator (admins see all).
+        /// </summary>
+        [HttpGet]
+        public async Task<ActionResult<ListResponse<LibraryTemplateDto>>> Get(
+            [FromQuery] string? scope, [FromQuery] string? category, [FromQuery] string? search)
+        {
+            try
+            {
+                var query = _db.LibraryTemplates.AsNoTracking();
+
+                if (!_userContext.IsAdmin())
+                {
+                    var moderatorId = _userContext.GetModeratorId();
+                    query = query.Where(l => l.Scope == SystemScope || (l.Scope == ModeratorScope && l.ModeratorId == moderatorId));
+                }
+
+                if (!string.IsNullOrWhiteSpace(scope))
+                    query = query.Where(l => l.Scope == scope);
+
+                if (!string.IsNullOrWhiteSpace(category))
+                    query = query.Where(l => l.Category == category);
+
+                if (!string.IsNullOrWhiteSpace(search))
+                {
+                    var term = search.Trim().ToLower();
+                    query = query.Where(l => l.Title.ToLower().Contains(term) || l.Content.ToLower().Contains(term));
+                }
+
+                var templates = await query
+                    .OrderBy(l => l.Scope)
+                    .ThenBy(l => l.Title)
+                    .ToListAsync();
+
+                var linkedCounts = await _templateLibrary.GetLinkedCountsAsync(templates.Select(l => l.Id));
+                var dtos = templates
+                    .Select(l => ToDto(l, linkedCounts.TryGetValue(l.Id, out var count) ? count : 0))
+                    .ToList();
+
+                return Ok(new ListResponse<LibraryTemplateDto>
+                {
+                    Items = dtos,
+                    TotalCount = dtos.Count,
+                    PageNumber = 1,
+                    PageSize = dtos.Count
+                });
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error loading template library");
+                return StatusCode(500, new { message = "Error loading template library" });
+            }
+        }
+
+        /// <summary>
+        /// POST /api/template-library
+        /// Add a template to the library. System-level templates are admin only.
+        /// </summary>
+        [HttpPost]
+        public async Task<ActionResult<LibraryTemplateDto>> Create([FromBody] CreateLibraryTemplateRequest req)
+        {
+            try
+            {
+                if (!ModelState.IsValid)
+                    return BadRequest(ModelState);
+
+                var isSystem = req.Scope == SystemScope;
+                if (isSystem && !_userContext.IsAdmin())
+                    return Forbid();
+
+                int? moderatorId = null;
+                if (!isSystem)
+                {
+                    moderatorId = _userContext.GetModeratorId();
+                    if (moderatorId == null)
+                        return BadRequest(new { message = "لا يوجد مشرف مرتبط بهذا المستخدم" });
+                }
+
+                var userId = _userContext.GetUserId();
+                var now = DateTime.UtcNow;
+
+                var libraryTemplate = new LibraryTemplate
+                {
+                    Title = req.Title.Trim(),
+                    Content = req.Content,
+                    Category = string.IsNullOrWhiteSpace(req.Category) ? null : req.Category.Trim(),
+                    Scope = isSystem ? SystemScope : ModeratorScope,
+                    ModeratorId = moderatorId,
+                    CreatedAt = now,
+                    UpdatedAt = now,
+                    CreatedBy = userId,
+                    UpdatedBy = userId
+                };
+
+                _db.LibraryTemplates.Add(libraryTemplate);
+                await _db.SaveChangesAsync();
+
+                return CreatedAtAction(nameof(Get), new { }, ToDto(libraryTemplate, 0));
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error creating library template");
+                return StatusCode(500, new { message = "Error creating library template" });
+            }
+        }
+
+        /// <summary>
+        /// PUT /api/template-library/{id}
+        /// Update a library template; title and content changes are applied to linked queue templates without an override.
+        /// </summary>
+        [HttpPut("{id}")]
+        public async Task<ActionResult<LibraryTemplateDto>> Update(int id, [FromBody] UpdateLibraryTemplateRequest req)
+        {
+            try
+            {
+                if (!ModelState.IsValid)
+                    return BadRequest(ModelState);
+
+                var libraryTemplate = await _db.LibraryTemplates.FirstOrDefaultAsync(l => l.Id == id);
+                if (libraryTemplate == null)
+                    return NotFound(new { message = "Library template not found" });
+
+                if (!CanManage(libraryTemplate))
+                    return Forbid();
+
+                if (!string.IsNullOrWhiteSpace(req.Title))
+                    libraryTemplate.Title = req.Title.Trim();
+
+                if (!string.IsNullOrEmpty(req.Content))
+                    libraryTemplate.Content = req.Content;
+
+                if (req.Category != null)
+                    libraryTemplate.Category = string.IsNullOrWhiteSpace(req.Category) ? null : req.Category.Trim();
+
+                var userId = _userContext.GetUserId();
+                libraryTemplate.UpdatedAt = DateTime.UtcNow;
+                libraryTemplate.UpdatedBy = userId;
+
+                await using var transaction = await _db.Database.BeginTransactionAsync();
+                var propagated = await _templateLibrary.PropagateAsync(libraryTemplate, userId);
+                await _db.SaveChangesAsync();
+                await transaction.CommitAsync();
+
+                _logger.LogInformation("Library template {LibraryTemplateId} updated; applied to {Count} linked templates", id, propagated);
+
+                var linkedCounts = await _templateLibrary.GetLinkedCountsAsync(new[] { id });
+                return Ok(ToDto(libraryTemplate, linkedCounts.TryGetValue(id, out var count) ? count : 0));
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error updating library template {LibraryTemplateId}", id);
+                return StatusCode(500, new { message = "Error updating library template" });
+            }
+        }
+
+        /// <summary>
+        /// DELETE /api/template-library/{id}
+        /// Delete a library template. Linked queue templates keep their current text as regular templates.
+        /// </summary>
+        [HttpDelete("{id}")]
+        public async Task<IActionResult> Delete(int id)
+        {
+            try
+            {
+                var libraryTemplate = await _db.LibraryTemplates.FirstOrDefaultAsync(l => l.Id == id);
+                if (libraryTemplate == null)
+                    return NotFound(new { message = "Library template not found" });
+
+                if (!CanManage(libraryTemplate))
+                    return Forbid();
+
+                await _templateLibrary.UnlinkAllAsync(id);
+                _db.LibraryTemplates.Remove(libraryTemplate);
+                await _db.SaveChangesAsync();
+
+                return NoContent();
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error deleting library template {LibraryTemplateId}", id);
+                return StatusCode(500, new { message = "Error deleting library template" });
+            }
+        }
+
+        /// <summary>
+        /// POST /api/template-library/{id}/copy
+        /// Add the library template to a queue as an independent template.
+        /// </summary>
+        [HttpPost("{id}/copy")]
+        public Task<ActionResult<TemplateDto>> CopyToQueue(int id, [FromBody] LibraryTemplateQueueRequest req)
+        {
+            return AddToQueueAsync(id, req, link: false);
+        }
+
+        /// <summary>
+        /// POST /api/template-library/{id}/link
+        /// Add the library template to a queue as a linked template that follows library edits.
+        /// </summary>
+        [HttpPost("{id}/link")]
+        public Task<ActionResult<TemplateDto>> LinkToQueue(int id, [FromBody] LibraryTemplateQueueRequest req)
+        {
+            return AddToQueueAsync(id, req, link: true);
+        }
+
+        private async Task<ActionResult<TemplateDto>> AddToQueueAsync(int id, LibraryTemplateQueueRequest req, bool link)
+        {
+            await using var transaction = await _db.Database.BeginTransactionAsync();
+            try
+            {
+                if (!ModelState.IsValid)
+                    return BadRequest(ModelState);
+
+                var libraryTemplate = await _db.LibraryTemplates.AsNoTracking().FirstOrDefaultAsync(l => l.Id == id);
+                if (libraryTemplate == null)
+                    return NotFound(new { message = "Library template not found" });
+
+                if (!CanView(libraryTemplate))
+                    return Forbid();
+
+                var queue = await _db.Queues.FirstOrDefaultAsync(q => q.Id == req.QueueId && !q.IsDeleted);
+                if (queue == null)
+                    return NotFound(new { message = "Queue not found" });
+
+                if (!_userContext.IsAdmin() && queue.ModeratorId != _userContext.GetModeratorId())
+                    return Forbid();
+
+                // A moderator-level template can only be used in its moderator's queues
+                if (libraryTemplate.Scope == ModeratorScope && libraryTemplate.ModeratorId != queue.ModeratorId)
+                    return BadRequest(new { message = "هذا القالب خاص بمشرف آخر ولا يمكن استخدامه في هذه العيادة" });
+
+                var template = await _templateLibrary.AddToQueueAsync(libraryTemplate, queue, link, _userContext.GetUserId());
+                await transaction.CommitAsync();
+
+                await _db.Entry(template).Reference(t => t.Condition).LoadAsync();
+                return Ok(ToTemplateDto(template));
+            }
+            catch (Exception ex)
+            {
+                await transaction.RollbackAsync();
+                _logger.LogError(ex, "Error adding library template {LibraryTemplateId} to queue {QueueId}", id, req.QueueId);
+                return StatusCode(500, new { message = "Error adding library template to queue" });
+            }
+        }
+
+        private bool CanView(LibraryTemplate libraryTemplate)
+        {
+            return libraryTemplate.Scope == SystemScope ||
+                   _userContext.IsAdmin() ||
+                   libraryTemplate.ModeratorId == _userContext.GetModeratorId();
+        }
+
+        private bool CanManage(LibraryTemplate libraryTemplate)
+        {
+            if (_userContext.IsAdmin())
+                return true;
+
+            return libraryTemplate.Scope == ModeratorScope && libraryTemplate.ModeratorId == _userContext.GetModeratorId();
+        }
+
+        private static LibraryTemplateDto ToDto(LibraryTemplate l, int linkedQueueCount) => new()
+        {
+            Id = l.Id,
+            Title = l.Title,
+            Content = l.Content,
+            Category = l.Category,
+            Scope = l.Scope,
+            ModeratorId = l.ModeratorId,
+            LinkedQueueCount = linkedQueueCount,
+            CreatedAt = l.CreatedAt,
+            UpdatedAt = l.UpdatedAt,
+            CreatedBy = l.CreatedBy,
+            UpdatedBy = l.UpdatedBy
+        };
+
+        private static TemplateDto ToTemplateDto(MessageTemplate template) => new()
+        {
+            Id = template.Id,
+            Title = template.Title,
+            Content = template.Content,
+            VersionNumber = template.VersionNumber,
+            LibraryTemplateId = template.LibraryTemplateId,
+            IsLibraryOverride = template.IsLibraryOverride,
+            ModeratorId = template.ModeratorId,
+            QueueId = template.QueueId,
+            CreatedAt = template.CreatedAt,
+            UpdatedAt = template.UpdatedAt,
+            CreatedBy = template.CreatedBy,
+            UpdatedBy = template.UpdatedBy,
+            IsDeleted = template.IsDeleted,
+            Condition = template.Condition != null ? new ConditionDto
+            {
+                Id = template.Condition.Id,
+                TemplateId = template.Id,
+                QueueId = template.Condition.QueueId,
+                Operator = template.Condition.Operator,
+                Value = template.Condition.Value,
+                MinValue = template.Condition.MinValue,
+                MaxValue = template.Condition.MaxValue,
+                Criteria = ConditionCriteriaHelper.Parse(template.Condition.Criteria),
+                CriteriaLogic = template.Condition.CriteriaLogic,
+                CreatedAt = template.Condition.CreatedAt,
+                UpdatedAt = template.Condition.UpdatedAt
+            } : null
+        };
+    }
+}
@@ -2,6 +2,7 @@
 using Clinics.Infrastructure;
 using Clinics.Domain;
 using Clinics.Api.DTOs;
+using Clinics.Api.Helpers;
 using Clinics.Api.Services;
 using Clinics.Infrastructure.Services;
 using Clinics.Infrastructure.Repositories;
@@ -21,19 +22,22 @@ namespace Clinics.Api.Controllers
         private readonly IUserContext _userContext;
         private readonly Clinics.Api.Services.ITemplateCascadeService _templateCascadeService;
         private readonly ISoftDeleteTTLQueries<MessageTemplate> _ttlQueries;
+        private readonly ITemplateVersionService _templateVersions;
 
         public TemplatesController(
             ApplicationDbContext db,
             ILogger<TemplatesController> logger,
             IUserContext userContext,
             Clinics.Api.Services.ITemplateCascadeService templateCascadeService,
-            IGenericUnitOfWork unitOfWork)
+            IGenericUnitOfWork unitOfWork,
+            ITemplateVersionService templateVersions)
         {
             _db = db;
             _logger = logger;
             _userContext = userContext;
             _templateCascadeService = templateCascadeService;
             _ttlQueries = unitOfWork.TTLQueries<MessageTemplate>();
+            _templateVersions = templateVersions;
         }
 
         /// <summary>
@@ -120,6 +124,9 @@ namespace Clinics.Api.Controllers
                     Id = t.Id,
                     Title = t.Title,
                     Content = t.Content,
+                    VersionNumber = t.VersionNumber,
+                    LibraryTemplateId = t.LibraryTemplateId,
+                    IsLibraryOverride = t.IsLibraryOverride,
                     ModeratorId = t.ModeratorId,
                     QueueId = t.QueueId,
                     CreatedAt = t.CreatedAt,
@@ -136,6 +143,8 @@ namespace Clinics.Api.Controllers
                         Value = t.Condition.Value,
                         MinValue = t.Condition.MinValue,
                         MaxValue = t.Condition.MaxValue,
+                        Criteria = ConditionCriteriaHelper.Parse(t.Condition.Criteria),
+                        CriteriaLogic = t.Condition.CriteriaLogic,
                         CreatedAt = t.Condition.CreatedAt,
                         UpdatedAt = t.Condition.UpdatedAt
                     } : null
@@ -208,6 +217,9 @@ namespace Clinics.Api.Controllers
                     Id = template.Id,
                     Title = template.Title,
                     Content = template.Content,
+                    VersionNumber = template.VersionNumber,
+                    LibraryTemplateId = template.LibraryTemplateId,
+                    IsLibraryOverride = template.IsLibraryOverride,
                     ModeratorId = template.ModeratorId,
                     QueueId = template.QueueId,
                     CreatedAt = template.CreatedAt,
@@ -224,6 +236,8 @@ namespace Clinics.Api.Controllers
                         Value = template.Condition.Value,
                         MinValue = template.Condition.MinValue,
                         MaxValue = template.Condition.MaxValue,
+                        Criteria = ConditionCriteriaHelper.Parse(template.Condition.Criteria),
+                        CriteriaLogic = template.Condition.CriteriaLogic,
                         CreatedAt = template.Condition.CreatedAt,
                         UpdatedAt = template.Condition.UpdatedAt
                     } : null
@@ -371,6 +385,9 @@ namespace Clinics.Api.Controllers
                 condition.TemplateId = template.Id;
                 condition.UpdatedAt = now;
                 _db.Set<MessageCondition>().Update(condition);
+
+                // Step 5: Save the first version
+                _templateVersions.AddVersion(template, condition, userId, isInitial: true);
                 await _db.SaveChangesAsync();
 
                 // Commit transaction
@@ -384,6 +401,9 @@ namespace Clinics.Api.Controllers
                     Id = template.Id,
                     Title = template.Title,
                     Content = template.Content,
+                    VersionNumber = template.VersionNumber,
+                    LibraryTemplateId = template.LibraryTemplateId,
+                    IsLibraryOverride = template.IsLibraryOverride,
                     ModeratorId = template.ModeratorId,
                     QueueId = template.QueueId,
                     CreatedAt = template.CreatedAt,
@@ -400,6 +420,8 @@ namespace Clinics.Api.Controllers
                         Value = template.Condition.Value,
                         MinValue = template.Condition.MinValue,
                         MaxValue = template.Condition.MaxValue,
+                        Criteria = ConditionCriteriaHelper.Parse(template.Condition.Criteria),
+                        CriteriaLogic = template.Condition.CriteriaLogic,
                         CreatedAt = template.Condition.CreatedAt,
                         UpdatedAt = template.Condition.UpdatedAt
                     } : null
@@ -434,28 +456,42 @@ namespace Clinics.Api.Controllers
                 if (!isAdmin && existing.ModeratorId != moderatorId)
                     return Forbid();
 
+                var titleBefore = existing.Title;
+                var contentBefore = existing.Content;
+
                 if (!string.IsNullOrEmpty(req.Title))
                     existing.Title = req.Title;
 
                 if (!string.IsNullOrEmpty(req.Content))
                     existing.Content = req.Content;
 
+                // Editing a linked library template makes it a per-queue override (library edits stop applying)
+                if (existing.LibraryTemplateId.HasValue && (existing.Title != titleBefore || existing.Content != contentBefore))
+                    existing.IsLibraryOverride = true;
+
                 // Get current user ID for audit
                 var userId = _userContext.GetUserId();
 
                 // Set UpdatedBy and UpdatedAt for audit trail
                 existing.UpdatedBy = userId;
                 existing.UpdatedAt = DateTime.UtcNow;
-                await _db.SaveChangesAsync();
 
-                // Reload template with condition for DTO (ensures condition is included in response)
+                // Load condition for the version snapshot and the DTO (condition edits are saved before the template)
                 await _db.Entry(existing).Reference(t => t.Condition).LoadAsync();
 
+                if (await _templateVersions.HasChangedAsync(existing, existing.Condition))
+                    _templateVersions.AddVersion(existing, existing.Condition, userId);
+
+                await _db.SaveChangesAsync();
+
                 var dto = new TemplateDto
                 {
                     Id = existing.Id,
                     Title = existing.Title,
                     Content = existing.Content,
+                    VersionNumber = existing.VersionNumber,
+                    LibraryTemplateId = existing.LibraryTemplateId,
+                    IsLibraryOverride = existing.IsLibraryOverride,
                     ModeratorId = existing.ModeratorId,
                     QueueId = existing.QueueId,
                     CreatedAt = existing.CreatedAt,
@@ -472,6 +508,8 @@ namespace Clinics.Api.Controllers
                         Value = existing.Condition.Value,
                         MinValue = existing.Condition.MinValue,
                         MaxValue = existing.Condition.MaxValue,
+                        Criteria = ConditionCriteriaHelper.Parse(existing.Condition.Criteria),
+                        CriteriaLogic = existing.Condition.CriteriaLogic,
                         CreatedAt = existing.Condition.CreatedAt,
                         UpdatedAt = existing.Condition.UpdatedAt
                     } : null
@@ -623,6 +661,9 @@ namespace Clinics.Api.Controllers
                             Id = template.Id,
                             Title = template.Title,
                             Content = template.Content,
+                            VersionNumber = template.VersionNumber,
+                            LibraryTemplateId = template.LibraryTemplateId,
+                            IsLibraryOverride = template.IsLibraryOverride,
                             ModeratorId = template.ModeratorId,
                             QueueId = template.QueueId,
                             CreatedAt = template.CreatedAt,
@@ -636,6 +677,8 @@ namespace Clinics.Api.Controllers
                                 Value = condition.Value,
                                 MinValue = condition.MinValue,
                                 MaxValue = condition.MaxValue,
+                                Criteria = ConditionCriteriaHelper.Parse(condition.Criteria),
+                                CriteriaLogic = condition.CriteriaLogic,
                                 CreatedAt = condition.CreatedAt,
                                 UpdatedAt = condition.UpdatedAt
                             } : null
@@ -657,6 +700,222 @@ namespace Clinics.Api.Controllers
             }
         }
 
+        /// <summary>
+        /// GET /api/templates/{id}/versions
+        /// Versions of a template (author and time of every edit), newest first.
+        /// </summary>
+        [HttpGet("{id}/versions")]
+        public async Task<ActionResult<ListResponse<TemplateVersionDto>>> GetVersions(int id)
+        {
+            try
+            {
+                var template = await _db.MessageTemplates
+                    .AsNoTracking()
+                    .FirstOrDefaultAsync(t => t.Id == id && !t.IsDeleted);
+                if (template == null)
+                    return NotFound(new { message = "Template not found" });
+
+                if (!_userContext.IsAdmin() && template.ModeratorId != _userContext.GetModeratorId())
+                    return Forbid();
+
+                var versions = await _templateVersions.GetVersionsAsync(template);
+
+                return Ok(new ListResponse<TemplateVersionDto>
+                {
+                    Items = versions,
+                    TotalCount = versions.Count,
+                    PageNumber = 1,
+                    PageSize = versions.Count
+                });
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error loading versions of template {TemplateId}", id);
+                return StatusCode(500, new { message = "Error loading template versions" });
+            }
+        }
+
+        /// <summary>
+        /// POST /api/templates/{id}/versions/{versionId}/restore
+        /// Make a previous version current: its title, content and condition are applied and saved as a new version,
+        /// so the restore itself can be undone.
+        /// </summary>
+        [HttpPost("{id}/versions/{versionId}/restore")]
+        [Microsoft.AspNetCore.Authorization.Authorize(Roles = "primary_admin,secondary_admin,moderator,user")]
+        public async Task<ActionResult<TemplateDto>> RestoreVersion(int id, int versionId)
+        {
+            try
+            {
+                var template = await _db.MessageTemplates
+                    .Include(t => t.Condition)
+                    .FirstOrDefaultAsync(t => t.Id == id && !t.IsDeleted);
+                if (template == null)
+                    return NotFound(new { message = "Template not found" });
+
+                if (!_userContext.IsAdmin() && template.ModeratorId != _userContext.GetModeratorId())
+                    return Forbid();
+
+                var version = await _db.MessageTemplateVersions
+                    .AsNoTracking()
+                    .FirstOrDefaultAsync(v => v.Id == versionId && v.TemplateId == id);
+                if (version == null)
+                    return NotFound(new { message = "Template version not found" });
+
+                var condition = template.Condition;
+
+                // DEFAULT is unique per queue: restoring it must not take over another template's default
+                if (version.ConditionOperator == "DEFAULT" && condition?.Operator != "DEFAULT")
+                {
+                    var otherDefaultExists = await _db.Set<MessageCondition>()
+                        .AnyAsync(c => c.QueueId == template.QueueId && c.Operator == "DEFAULT" && c.TemplateId != id && !c.IsDeleted);
+                    if (otherDefaultExists)
+                        return BadRequest(new { message = "يوجد قالب افتراضي آخر لهذه العيادة. عيّن هذا القالب كافتراضي أولاً ثم أعد المحاولة." });
+                }
+
+                var userId = _userContext.GetUserId();
+                var now = DateTime.UtcNow;
+
+                template.Title = version.Title;
+                template.Content = version.Content;
+                template.UpdatedAt = now;
+                template.UpdatedBy = userId;
+
+                if (condition != null)
+                {
+                    condition.Operator = version.ConditionOperator;
+                    condition.Value = version.ConditionValue;
+                    condition.MinValue = version.ConditionMinValue;
+                    condition.MaxValue = version.ConditionMaxValue;
+                    condition.Criteria = version.ConditionCriteria;
+                    condition.CriteriaLogic = version.ConditionCriteriaLogic;
+                    condition.UpdatedAt = now;
+                    condition.UpdatedBy = userId;
+                }
+
+                _templateVersions.AddVersion(template, condition, userId);
+                await _db.SaveChangesAsync();
+
+                _logger.LogInformation("Template {TemplateId} restored to version {VersionNumber} as version {NewVersionNumber}",
+                    id, version.VersionNumber, template.VersionNumber);
+
+                var dto = new TemplateDto
+                {
+                    Id = template.Id,
+                    Title = template.Title,
+                    Content = template.Content,
+                    VersionNumber = template.VersionNumber,
+                    LibraryTemplateId = template.LibraryTemplateId,
+                    IsLibraryOverride = template.IsLibraryOverride,
+                    ModeratorId = template.ModeratorId,
+                    QueueId = template.QueueId,
+                    CreatedAt = template.CreatedAt,
+                    UpdatedAt = template.UpdatedAt,
+                    CreatedBy = template.CreatedBy,
+                    UpdatedBy = template.UpdatedBy,
+                    IsDeleted = template.IsDeleted,
+                    Condition = condition != null ? new ConditionDto
+                    {
+                        Id = condition.Id,
+                        TemplateId = template.Id,
+                        QueueId = condition.QueueId,
+                        Operator = condition.Operator,
+                        Value = condition.Value,
+                        MinValue = condition.MinValue,
+                        MaxValue = condition.MaxValue,
+                        Criteria = ConditionCriteriaHelper.Parse(condition.Criteria),
+                        CriteriaLogic = condition.CriteriaLogic,
+                        CreatedAt = condition.CreatedAt,
+                        UpdatedAt = condition.UpdatedAt
+                    } : null
+                };
+
+                return Ok(dto);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error restoring version {VersionId} of template {TemplateId}", versionId, id);
+                return StatusCode(500, new { message = "Error restoring template version" });
+            }
+        }
+
+        /// <summary>
+        /// POST /api/templates/{id}/reset-override
+        /// Drop the per-queue override of a linked library template: its title and content follow the library again.
+        /// </summary>
+        [HttpPost("{id}/reset-override")]
+        [Microsoft.AspNetCore.Authorization.Authorize(Roles = "primary_admin,secondary_admin,moderator,user")]
+        public async Task<ActionResult<TemplateDto>> ResetOverride(int id)
+        {
+            try
+            {
+                var template = await _db.MessageTemplates
+                    .Include(t => t.Condition)
+                    .Include(t => t.LibraryTemplate)
+                    .FirstOrDefaultAsync(t => t.Id == id && !t.IsDeleted);
+                if (template == null)
+                    return NotFound(new { message = "Template not found" });
+
+                if (!_userContext.IsAdmin() && template.ModeratorId != _userContext.GetModeratorId())
+                    return Forbid();
+
+                if (template.LibraryTemplate == null)
+                    return BadRequest(new { message = "هذا القالب غير مرتبط بمكتبة القوالب" });
+
+                var userId = _userContext.GetUserId();
+
+                template.IsLibraryOverride = false;
+                if (template.Title != template.LibraryTemplate.Title || template.Content != template.LibraryTemplate.Content)
+                {
+                    template.Title = template.LibraryTemplate.Title;
+                    template.Content = template.LibraryTemplate.Content;
+                    template.UpdatedAt = DateTime.UtcNow;
+                    template.UpdatedBy = userId;
+                    _templateVersions.AddVersion(template, template.Condition, userId);
+                }
+
+                await _db.SaveChangesAsync();
+
+                var condition = template.Condition;
+                var dto = new TemplateDto
+                {
+                    Id = template.Id,
+                    Title = template.Title,
+                    Content = template.Content,
+                    VersionNumber = template.VersionNumber,
+                    LibraryTemplateId = template.LibraryTemplateId,
+                    IsLibraryOverride = template.IsLibraryOverride,
+                    ModeratorId = template.ModeratorId,
+                    QueueId = template.QueueId,
+                    CreatedAt = template.CreatedAt,
+                    UpdatedAt = template.UpdatedAt,
+                    CreatedBy = template.CreatedBy,
+                    UpdatedBy = template.UpdatedBy,
+                    IsDeleted = template.IsDeleted,
+                    Condition = condition != null ? new ConditionDto
+                    {
+                        Id = condition.Id,
+                        TemplateId = template.Id,
+                        QueueId = condition.QueueId,
+                        Operator = condition.Operator,
+                        Value = condition.Value,
+                        MinValue = condition.MinValue,
+                        MaxValue = condition.MaxValue,
+                        Criteria = ConditionCriteriaHelper.Parse(condition.Criteria),
+                        CriteriaLogic = condition.CriteriaLogic,
+                        CreatedAt = condition.CreatedAt,
+                        UpdatedAt = condition.UpdatedAt
+                    } : null
+                };
+
+                return Ok(dto);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error resetting library override of template {TemplateId}", id);
+                return StatusCode(500, new { message = "Error resetting template override" });
+            }
+        }
+
         /// <summary>
         /// GET /api/templates/trash?page=1&amp;pageSize=10
         /// Get soft-deleted templates (trash) for moderator's queues or all if admin.
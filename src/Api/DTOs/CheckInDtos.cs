@@ -0,0 +1,76 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace Clinics.Api.DTOs
+{
+    public class CheckInSettingsDto
+    {
+        public int QueueId { get; set; }
+        public bool Enabled { get; set; }
+        public bool RequireApproval { get; set; }
+
+        /// <summary>
+        /// Public link token; regenerating it invalidates printed QR codes
+        /// </summary>
+        public string Token { get; set; } = null!;
+    }
+
+    public class UpdateCheckInSettingsRequest
+    {
+        public bool Enabled { get; set; }
+        public bool RequireApproval { get; set; }
+    }
+
+    public class CheckInQRCodeDto
+    {
+        public string QrCodeImage { get; set; } = null!; // base64
+        public string Format { get; set; } = "image/png";
+    }
+
+    public class PendingCheckInDto
+    {
+        public int Id { get; set; }
+        public int QueueId { get; set; }
+        public string FullName { get; set; } = null!;
+        public string PhoneNumber { get; set; } = null!;
+        public string CountryCode { get; set; } = null!;
+        public DateTime CreatedAt { get; set; }
+    }
+
+    public class PublicCheckInInfoDto
+    {
+        public string DoctorName { get; set; } = null!;
+        public bool Enabled { get; set; }
+        public bool RequireApproval { get; set; }
+    }
+
+    public class SubmitCheckInRequest
+    {
+        [Required(ErrorMessage = "الاسم مطلوب")]
+        [StringLength(100, MinimumLength = 2, ErrorMessage = "الاسم يجب أن يكون بين 2 و 100 حرف")]
+        public string FullName { get; set; } = null!;
+
+        /// <summary>
+        /// National number (without the country code)
+        /// </summary>
+        [Required(ErrorMessage = "رقم الهاتف مطلوب")]
+        [StringLength(20, ErrorMessage = "رقم الهاتف غير صالح")]
+        public string PhoneNumber { get; set; } = null!;
+
+        [Required]
+        [RegularExpression(@"^\+\d{1,4}$", ErrorMessage = "كود الدولة غير صالح")]
+        public string CountryCode { get; set; } = "+20";
+    }
+
+    public class SubmitCheckInResult
+    {
+        /// <summary>
+        /// "added" or "pending" (waiting for staff approval)
+        /// </summary>
+        public string Status { get; set; } = null!;
+
+        /// <summary>
+        /// Queue position when added
+        /// </summary>
+        public int? Position { get; set; }
+    }
+}
@@ -0,0 +1,46 @@
+namespace Clinics.Api.DTOs
+{
+    /// <summary>
+    /// One message of a patient's conversation: a message we sent or a reply captured by the extension.
+    /// </summary>
+    public class ConversationMessageDto
+    {
+        public string Id { get; set; } = null!;
+        public string Direction { get; set; } = "outbound"; // "outbound" or "inbound"
+        public string Content { get; set; } = null!;
+
+        /// <summary>
+        /// Sent time (outbound) or receive time (inbound)
+        /// </summary>
+        public DateTime At { get; set; }
+
+        public string? Status { get; set; } // outbound only: "sent", "delivered" or "read"
+        public bool? IsRead { get; set; }   // inbound only: seen by staff in the conversation view
+    }
+
+    public class PatientConversationDto
+    {
+        public int PatientId { get; set; }
+        public string PatientName { get; set; } = null!;
+        public string Phone { get; set; } = null!;
+        public string CountryCode { get; set; } = "+20";
+        public int QueueId { get; set; }
+        public string QueueName { get; set; } = null!;
+        public int UnreadCount { get; set; }
+        public List<ConversationMessageDto> Messages { get; set; } = new(); // oldest first
+    }
+
+    public class UnreadConversationDto
+    {
+        public int PatientId { get; set; }
+        public int QueueId { get; set; }
+        public int UnreadCount { get; set; }
+        public DateTime LastMessageAt { get; set; }
+    }
+
+    public class UnreadConversationsSummaryDto
+    {
+        public int Total { get; set; }
+        public List<UnreadConversationDto> Conversations { get; set; } = new();
+    }
+}
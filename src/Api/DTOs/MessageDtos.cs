@@ -1,3 +1,5 @@
+using System.ComponentModel.DataAnnotations;
+
 namespace Clinics.Api.DTOs
 {
     public class SendMessageRequest
@@ -36,4 +38,94 @@ namespace Clinics.Api.DTOs
         /// </summary>
         public Guid? CorrelationId { get; set; }
     }
+
+    /// <summary>
+    /// Same payload as SendMessageRequest plus the fire time.
+    /// Messages are only built and queued at ScheduledAt.
+    /// </summary>
+    public class ScheduleMessagesRequest
+    {
+        public int TemplateId { get; set; }
+        public int[] PatientIds { get; set; } = new int[0];
+
+        /// <summary>
+        /// UTC time when the messages are queued; must be in the future
+        /// </summary>
+        public DateTime ScheduledAt { get; set; }
+
+        /// <summary>
+        /// Required if the current user is an admin (not a moderator).
+        /// </summary>
+        public int? ModeratorId { get; set; }
+
+        public string? Channel { get; set; }
+        public Guid? CorrelationId { get; set; }
+    }
+
+    /// <summary>
+    /// Most recent message sent to a patient of a queue (auto-notify change detection and de-duplication)
+    /// </summary>
+    public class LastPatientMessageDto
+    {
+        public int PatientId { get; set; }
+        public int? TemplateId { get; set; }
+        public string Status { get; set; } = null!;
+        public DateTime CreatedAt { get; set; }
+    }
+
+    /// <summary>
+    /// Number on a moderator's do-not-contact list
+    /// </summary>
+    public class DoNotContactEntryDto
+    {
+        public int Id { get; set; }
+        public int ModeratorId { get; set; }
+        public string PhoneNumber { get; set; } = null!;
+        public string? PatientName { get; set; }
+        public string? Reason { get; set; }
+        public DateTime CreatedAt { get; set; }
+        public int? CreatedBy { get; set; }
+    }
+
+    public class AddDoNotContactRequest
+    {
+        /// <summary>
+        /// E.164, e.g. "+201012345678"
+        /// </summary>
+        [Required(ErrorMessage = "Phone number is required")]
+        [RegularExpression(@"^\+[1-9]\d{6,14}$", ErrorMessage = "Phone number must be in E.164 format")]
+        public string PhoneNumber { get; set; } = null!;
+
+        [StringLength(100, ErrorMessage = "Patient name must be at most 100 characters")]
+        public string? PatientName { get; set; }
+
+        [StringLength(200, ErrorMessage = "Reason must be at most 200 characters")]
+        public string? Reason { get; set; }
+
+        /// <summary>
+        /// Required if the current user is an admin (not a moderator).
+        /// </summary>
+        public int? ModeratorId { get; set; }
+    }
+
+    public class ImportDoNotContactRequest
+    {
+        [Required]
+        public List<AddDoNotContactRequest> Entries { get; set; } = new();
+
+        /// <summary>
+        /// Required if the current user is an admin (not a moderator).
+        /// </summary>
+        public int? ModeratorId { get; set; }
+    }
+
+    public class ImportDoNotContactResult
+    {
+        public int Added { get; set; }
+
+        /// <summary>
+        /// Numbers already on the list
+        /// </summary>
+        public int Skipped { get; set; }
+    }
 }
@@ -178,6 +178,9 @@ namespace Clinics.Api.DTOs
         public string? DoctorName { get; set; }
         public int? EstimatedWaitMinutes { get; set; }
         public int? CurrentPosition { get; set; }
+        public bool? AutoNotifyEnabled { get; set; }
+        public int? AutoNotifyDedupMinutes { get; set; }
+        public Dictionary<string, string>? CustomVariables { get; set; }
     }
 
     /// <summary>
@@ -30,6 +30,11 @@ namespace Clinics.Api.DTOs
         public int Position { get; set; }
 
         public string Status { get; set; } = "waiting";
+
+        /// <summary>
+        /// Personal token of the public queue status page ({LINK})
+        /// </summary>
+        public string? StatusToken { get; set; }
         
         public DateTime CreatedAt { get; set; }
         
@@ -104,7 +109,8 @@ namespace Clinics.Api.DTOs
 
     /// <summary>
     /// DTO for reordering patients in a queue.
-    /// If a position conflict occurs, the conflicting patient and all with greater positions shift +1.
+    /// POST /api/patients/reorder: if a position conflict occurs, the conflicting patient and all with greater positions shift +1.
+    /// POST /api/patients/positions: positions are absolute and nobody else moves.
     /// </summary>
     public class ReorderPatientsRequest
     {
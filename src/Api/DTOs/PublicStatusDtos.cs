@@ -0,0 +1,26 @@
+namespace Clinics.Api.DTOs
+{
+    /// <summary>
+    /// Anonymous queue status behind a patient's status link ({LINK}).
+    /// Only the patient's first name is included - the link may be forwarded.
+    /// </summary>
+    public class PublicQueueStatusDto
+    {
+        public string DoctorName { get; set; } = null!;
+
+        /// <summary>
+        /// CQP
+        /// </summary>
+        public int CurrentPosition { get; set; }
+
+        /// <summary>
+        /// ETS (minutes per patient)
+        /// </summary>
+        public int EstimatedWaitMinutes { get; set; }
+
+        public string? PatientFirstName { get; set; }
+        public int PatientPosition { get; set; }
+        public string PatientStatus { get; set; } = "waiting";
+        public DateTime UpdatedAt { get; set; }
+    }
+}
@@ -27,6 +27,14 @@ namespace Clinics.Api.DTOs
         [Range(0, int.MaxValue, ErrorMessage = "EstimatedWaitMinutes must be non-negative")]
         public int? EstimatedWaitMinutes { get; set; }
         public int? CurrentPosition { get; set; }
+
+        // optional: auto-notify settings (unchanged when omitted)
+        public bool? AutoNotifyEnabled { get; set; }
+        [Range(1, 1440, ErrorMessage = "AutoNotifyDedupMinutes must be between 1 and 1440")]
+        public int? AutoNotifyDedupMinutes { get; set; }
+
+        // optional: per-queue template variables, e.g. { "ROOM": "12" } (replaces the whole set when provided)
+        public Dictionary<string, string>? CustomVariables { get; set; }
     }
 
     public class QueueDto
@@ -38,5 +46,46 @@ namespace Clinics.Api.DTOs
         public int CurrentPosition { get; set; }
         public int? EstimatedWaitMinutes { get; set; }
         public int PatientCount { get; set; }
+        public bool AutoNotifyEnabled { get; set; }
+        public int AutoNotifyDedupMinutes { get; set; }
+        public Dictionary<string, string> CustomVariables { get; set; } = new();
+    }
+
+    public class QueueDuplicateRequest
+    {
+        [Required]
+        [StringLength(200, MinimumLength = 1, ErrorMessage = "DoctorName must be between 1 and 200 characters")]
+        public string DoctorName { get; set; } = null!;
+
+        // target moderator (admins only may pick a moderator other than their own)
+        [Required]
+        public int ModeratorId { get; set; }
+
+        // also copy the patient list (statuses reset to waiting)
+        public bool IncludePatients { get; set; }
+    }
+
+    public class QueueDuplicateResult
+    {
+        public QueueDto Queue { get; set; } = null!;
+        public int TemplatesCopied { get; set; }
+        public int ConditionsCopied { get; set; }
+        public int PatientsCopied { get; set; }
+    }
+
+    public class CallNextRequest
+    {
+        // currentPosition the caller saw; the call is rejected (409) when the queue has moved since
+        [Required]
+        public int ExpectedPosition { get; set; }
+    }
+
+    /// <summary>
+    /// Result of a queue flow action (call next, no-show, skip): the queue and every patient whose status or position changed.
+    /// </summary>
+    public class QueueFlowResultDto
+    {
+        public QueueDto Queue { get; set; } = null!;
+        public List<PatientDto> Patients { get; set; } = new();
     }
 }
@@ -81,6 +81,26 @@ public class CompletedSessionDto
     public List<SentMessageDto> SentMessages { get; set; } = new(); // Only successfully sent messages
 }
 
+/// <summary>
+/// Every message of a session whatever its status (GET /api/sessions/{id}/results, used for exports)
+/// </summary>
+public class SessionResultsDto
+{
+    public Guid SessionId { get; set; }
+    public int QueueId { get; set; }
+    public string QueueName { get; set; } = string.Empty;
+    public DateTime StartTime { get; set; }
+    public DateTime? CompletedAt { get; set; }
+    public List<SessionMessageResultDto> Messages { get; set; } = new();
+}
+
+public class SessionMessageResultDto : SessionPatientDto
+{
+    public DateTime? SentAt { get; set; }
+    public DateTime? DeliveredAt { get; set; }
+    public DateTime? ReadAt { get; set; }
+}
+
 /// <summary>
 /// DTO for successfully sent messages in completed sessions
 /// </summary>
@@ -93,8 +113,14 @@ public class SentMessageDto
     public string CountryCode { get; set; } = "+966";
     public string Content { get; set; } = string.Empty; // Resolved content (no variables)
     public DateTime SentAt { get; set; }
+    public string Status { get; set; } = "sent"; // Receipt state: "sent", "delivered" or "read"
+    public DateTime? DeliveredAt { get; set; }
+    public DateTime? ReadAt { get; set; }
     public int? CreatedBy { get; set; }
     public int? UpdatedBy { get; set; }
+    public int? TemplateId { get; set; } // Template that produced the message
+    public int? TemplateVersionId { get; set; } // Exact version of that template (null for messages sent before versioning)
+    public int? TemplateVersionNumber { get; set; }
 }
 
 /// <summary>
@@ -127,3 +153,37 @@ public class PauseReasonDetails
     /// </summary>
     public string? ErrorDetails { get; set; }
 }
+
+/// <summary>
+/// Scheduled session that has not fired yet (MessageSession with SessionType = "scheduled")
+/// </summary>
+public class ScheduledSessionDto
+{
+    public Guid SessionId { get; set; }
+    public int QueueId { get; set; }
+    public string QueueName { get; set; } = string.Empty;
+    public int TemplateId { get; set; }
+    public string? TemplateTitle { get; set; }
+    public DateTime ScheduledAt { get; set; }
+    public DateTime CreatedAt { get; set; }
+    public int? CreatedBy { get; set; }
+    public DateTime? UpdatedAt { get; set; }
+    public int Total { get; set; }
+    public string Status { get; set; } = "scheduled"; // scheduled, quota_blocked
+    public string? BlockedReason { get; set; }
+    public List<ScheduledSessionPatientDto> Patients { get; set; } = new();
+}
+
+public class ScheduledSessionPatientDto
+{
+    public int PatientId { get; set; }
+    public string Name { get; set; } = string.Empty;
+    public string Phone { get; set; } = string.Empty;
+    public string CountryCode { get; set; } = "+966";
+}
+
+public class UpdateScheduledSessionRequest
+{
+    public DateTime? ScheduledAt { get; set; }
+    public int[]? PatientIds { get; set; }
+}
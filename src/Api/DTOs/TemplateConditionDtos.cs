@@ -1,5 +1,7 @@
 using System;
+using System.Collections.Generic;
 using System.ComponentModel.DataAnnotations;
+using System.Text.Json.Serialization;
 
 namespace Clinics.Api.DTOs
 {
@@ -99,6 +101,149 @@ namespace Clinics.Api.DTOs
         /// Operator encodes state: DEFAULT=queue default, UNCONDITIONED=no criteria, or an active operator.
         /// </summary>
         public ConditionDto? Condition { get; set; }
+
+        /// <summary>
+        /// Current version number (see GET /api/templates/{id}/versions).
+        /// </summary>
+        public int VersionNumber { get; set; }
+
+        /// <summary>
+        /// Library template this template is linked to (see /api/template-library), or null.
+        /// </summary>
+        public int? LibraryTemplateId { get; set; }
+
+        /// <summary>
+        /// True when a linked template was edited for this queue and no longer follows the library.
+        /// </summary>
+        public bool IsLibraryOverride { get; set; }
+    }
+
+    /// <summary>
+    /// A saved version of a template (title, content and its condition at that time).
+    /// </summary>
+    public class TemplateVersionDto
+    {
+        public int Id { get; set; }
+
+        public int TemplateId { get; set; }
+
+        public int VersionNumber { get; set; }
+
+        public string Title { get; set; } = null!;
+
+        public string Content { get; set; } = null!;
+
+        public TemplateVersionConditionDto? Condition { get; set; }
+
+        /// <summary>
+        /// When this version was saved.
+        /// </summary>
+        public DateTime CreatedAt { get; set; }
+
+        /// <summary>
+        /// Author of this version.
+        /// </summary>
+        public int? UpdatedBy { get; set; }
+
+        public string? UpdatedByName { get; set; }
+
+        public bool IsCurrent { get; set; }
+    }
+
+    public class TemplateVersionConditionDto
+    {
+        public string Operator { get; set; } = "UNCONDITIONED";
+
+        public int? Value { get; set; }
+
+        public int? MinValue { get; set; }
+
+        public int? MaxValue { get; set; }
+
+        public ConditionCriteriaDto? Criteria { get; set; }
+
+        public string? CriteriaLogic { get; set; }
+    }
+
+    /// <summary>
+    /// Template in the shared library (system-level or moderator-level).
+    /// </summary>
+    public class LibraryTemplateDto
+    {
+        public int Id { get; set; }
+
+        public string Title { get; set; } = null!;
+
+        public string Content { get; set; } = null!;
+
+        public string? Category { get; set; }
+
+        /// <summary>
+        /// "system" or "moderator".
+        /// </summary>
+        public string Scope { get; set; } = null!;
+
+        public int? ModeratorId { get; set; }
+
+        /// <summary>
+        /// Queue templates linked to this one that still follow it (no per-queue override).
+        /// </summary>
+        public int LinkedQueueCount { get; set; }
+
+        public DateTime CreatedAt { get; set; }
+
+        public DateTime? UpdatedAt { get; set; }
+
+        public int? CreatedBy { get; set; }
+
+        public int? UpdatedBy { get; set; }
+    }
+
+    /// <summary>
+    /// DTO for adding a template to the library.
+    /// </summary>
+    public class CreateLibraryTemplateRequest
+    {
+        [Required(ErrorMessage = "Template title is required")]
+        [StringLength(100, MinimumLength = 3, ErrorMessage = "Title must be between 3 and 100 characters")]
+        public string Title { get; set; } = null!;
+
+        [Required(ErrorMessage = "Template content is required")]
+        [StringLength(2000, MinimumLength = 10, ErrorMessage = "Content must be between 10 and 2000 characters")]
+        public string Content { get; set; } = null!;
+
+        [StringLength(50, ErrorMessage = "Category must be at most 50 characters")]
+        public string? Category { get; set; }
+
+        /// <summary>
+        /// "moderator" (default) or "system" (admins only).
+        /// </summary>
+        [RegularExpression("^(moderator|system)$", ErrorMessage = "Scope must be moderator or system")]
+        public string Scope { get; set; } = "moderator";
+    }
+
+    /// <summary>
+    /// DTO for updating a library template; omitted fields are kept.
+    /// </summary>
+    public class UpdateLibraryTemplateRequest
+    {
+        [StringLength(100, MinimumLength = 3, ErrorMessage = "Title must be between 3 and 100 characters")]
+        public string? Title { get; set; }
+
+        [StringLength(2000, MinimumLength = 10, ErrorMessage = "Content must be between 10 and 2000 characters")]
+        public string? Content { get; set; }
+
+        [StringLength(50, ErrorMessage = "Category must be at most 50 characters")]
+        public string? Category { get; set; }
+    }
+
+    /// <summary>
+    /// Target queue for copying or linking a library template.
+    /// </summary>
+    public class LibraryTemplateQueueRequest
+    {
+        [Required(ErrorMessage = "Queue ID is required")]
+        public int QueueId { get; set; }
     }
 
     /// <summary>
@@ -135,6 +280,14 @@ namespace Clinics.Api.DTOs
         /// For RANGE operator: maximum boundary (inclusive).
         /// </summary>
         public int? MaxValue { get; set; }
+
+        /// <summary>
+        /// Optional extra criteria for active operators (ignored for UNCONDITIONED/DEFAULT).
+        /// </summary>
+        public ConditionCriteriaDto? Criteria { get; set; }
+
+        [RegularExpression("^(AND|OR)$", ErrorMessage = "CriteriaLogic must be AND or OR")]
+        public string? CriteriaLogic { get; set; }
     }
 
     /// <summary>
@@ -151,6 +304,31 @@ namespace Clinics.Api.DTOs
         public int? MinValue { get; set; }
 
         public int? MaxValue { get; set; }
+
+        private ConditionCriteriaDto? _criteria;
+
+        /// <summary>
+        /// Replaces the condition's criteria when present in the request (null clears them).
+        /// Kept as-is when omitted; always cleared for UNCONDITIONED/DEFAULT.
+        /// </summary>
+        public ConditionCriteriaDto? Criteria
+        {
+            get => _criteria;
+            set
+            {
+                _criteria = value;
+                CriteriaProvided = true;
+            }
+        }
+
+        /// <summary>
+        /// Whether Criteria was present in the request body (distinguishes an explicit null from an omitted key).
+        /// </summary>
+        [JsonIgnore]
+        public bool CriteriaProvided { get; private set; }
+
+        [RegularExpression("^(AND|OR)$", ErrorMessage = "CriteriaLogic must be AND or OR")]
+        public string? CriteriaLogic { get; set; }
     }
 
     /// <summary>
@@ -172,11 +350,51 @@ namespace Clinics.Api.DTOs
 
         public int? MaxValue { get; set; }
 
+        public ConditionCriteriaDto? Criteria { get; set; }
+
+        public string? CriteriaLogic { get; set; }
+
         public DateTime CreatedAt { get; set; }
 
         public DateTime? UpdatedAt { get; set; }
     }
 
+    /// <summary>
+    /// Extra matching criteria of a condition, beyond the queue offset.
+    /// Mirrors ConditionCriteria in apps/web/types/messageCondition.ts.
+    /// </summary>
+    public class ConditionCriteriaDto
+    {
+        /// <summary>
+        /// Clinic-local time of day ("HH:mm"); start inclusive, end exclusive, may wrap midnight.
+        /// </summary>
+        public ConditionTimeWindowDto? TimeWindow { get; set; }
+
+        /// <summary>
+        /// Days of week, 0 = Sunday.
+        /// </summary>
+        public List<int>? DaysOfWeek { get; set; }
+
+        /// <summary>
+        /// waiting, in_service, completed, cancelled.
+        /// </summary>
+        public List<string>? PatientStatuses { get; set; }
+
+        public List<string>? CountryCodes { get; set; }
+
+        /// <summary>
+        /// Whether the patient already has a message in this queue.
+        /// </summary>
+        public bool? AlreadyMessaged { get; set; }
+    }
+
+    public class ConditionTimeWindowDto
+    {
+        public string Start { get; set; } = string.Empty;
+
+        public string End { get; set; } = string.Empty;
+    }
+
     /// <summary>
     /// Generic response for list operations.
     /// </summary>
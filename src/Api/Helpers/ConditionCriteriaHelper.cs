@@ -0,0 +1,219 @@
+using System.Text.Json;
+using System.Text.RegularExpressions;
+using Clinics.Api.DTOs;
+using Clinics.Domain;
+using Clinics.Infrastructure.Services;
+
+namespace Clinics.Api.Helpers;
+
+/// <summary>
+/// Helper class for the extra criteria of message conditions (MessageCondition.Criteria).
+/// Same semantics as apps/web/utils/conditionCriteria.ts, so the preview and the sent message pick the same template:
+/// - Each present dimension yields a result; results are combined with AND (default) or OR
+/// - A condition without criteria always matches
+/// - A dimension whose patient attribute is unknown does not match
+/// - UNCONDITIONED and DEFAULT ignore criteria
+/// </summary>
+public static class ConditionCriteriaHelper
+{
+    private static readonly JsonSerializerOptions JsonOptions = new(JsonSerializerDefaults.Web);
+
+    private static readonly Regex TimeOfDayRegex = new(@"^([01]\d|2[0-3]):([0-5]\d)$", RegexOptions.Compiled);
+    private static readonly Regex CountryCodeRegex = new(@"^\+\d{1,4}$", RegexOptions.Compiled);
+
+    private static readonly HashSet<string> PatientStatuses = new() { "waiting", "in_service", "completed", "cancelled" };
+
+    /// <summary>
+    /// Parse the stored JSON. Invalid or empty values yield null (no criteria).
+    /// </summary>
+    public static ConditionCriteriaDto? Parse(string? json)
+    {
+        if (string.IsNullOrWhiteSpace(json))
+        {
+            return null;
+        }
+
+        try
+        {
+            return JsonSerializer.Deserialize<ConditionCriteriaDto>(json, JsonOptions);
+        }
+        catch (JsonException)
+        {
+            return null;
+        }
+    }
+
+    /// <summary>
+    /// Serialize for storage; criteria without any dimension are stored as null.
+    /// </summary>
+    public static string? Serialize(ConditionCriteriaDto? criteria)
+    {
+        return HasCriteria(criteria) ? JsonSerializer.Serialize(criteria, JsonOptions) : null;
+    }
+
+    /// <summary>
+    /// Whether any criteria dimension is set.
+    /// </summary>
+    public static bool HasCriteria(ConditionCriteriaDto? criteria)
+    {
+        return criteria != null &&
+               (criteria.TimeWindow != null ||
+                criteria.DaysOfWeek is { Count: > 0 } ||
+                criteria.PatientStatuses is { Count: > 0 } ||
+                criteria.CountryCodes is { Count: > 0 } ||
+                criteria.AlreadyMessaged.HasValue);
+    }
+
+    /// <summary>
+    /// Validate criteria values.
+    /// </summary>
+    /// <returns>Arabic error message, or null if valid</returns>
+    public static string? Validate(ConditionCriteriaDto? criteria)
+    {
+        if (criteria == null)
+        {
+            return null;
+        }
+
+        if (criteria.TimeWindow != null)
+        {
+            var start = ParseTimeOfDay(criteria.TimeWindow.Start);
+            var end = ParseTimeOfDay(criteria.TimeWindow.End);
+            if (start == null || end == null)
+            {
+                return "الفترة الزمنية يجب أن تكون بصيغة HH:mm";
+            }
+
+            if (start == end)
+            {
+                return "بداية الفترة الزمنية ونهايتها متساويتان";
+            }
+        }
+
+        if (criteria.DaysOfWeek != null && criteria.DaysOfWeek.Any(d => d < 0 || d > 6))
+        {
+            return "أيام الأسبوع غير صالحة";
+        }
+
+        if (criteria.PatientStatuses != null && criteria.PatientStatuses.Any(s => !PatientStatuses.Contains(s)))
+        {
+            return "حالة المريض غير صالحة";
+        }
+
+        foreach (var code in criteria.CountryCodes ?? new List<string>())
+        {
+            var normalized = NormalizeCountryCode(code);
+            if (normalized == null || !CountryCodeRegex.IsMatch(normalized))
+            {
+                return $"رمز الدولة غير صالح: {code}";
+            }
+        }
+
+        return null;
+    }
+
+    /// <summary>
+    /// Evaluate a condition's criteria for one patient at the given time.
+    /// </summary>
+    /// <param name="alreadyMessaged">Whether the patient already has a message in the queue; null if unknown</param>
+    public static bool Matches(MessageCondition condition, Patient patient, bool? alreadyMessaged, DateTime nowUtc)
+    {
+        if (condition.Operator == "UNCONDITIONED" || condition.Operator == "DEFAULT")
+        {
+            return true;
+        }
+
+        var criteria = Parse(condition.Criteria);
+        if (criteria == null || !HasCriteria(criteria))
+        {
+            return true;
+        }
+
+        var now = TimeZoneInfo.ConvertTimeFromUtc(DateTime.SpecifyKind(nowUtc, DateTimeKind.Utc), ContentVariableResolver.ClinicTimeZone);
+        var results = new List<bool>();
+
+        if (criteria.TimeWindow != null)
+        {
+            results.Add(IsWithinTimeWindow(now.Hour * 60 + now.Minute, criteria.TimeWindow));
+        }
+
+        if (criteria.DaysOfWeek is { Count: > 0 })
+        {
+            results.Add(criteria.DaysOfWeek.Contains((int)now.DayOfWeek));
+        }
+
+        if (criteria.PatientStatuses is { Count: > 0 })
+        {
+            results.Add(!string.IsNullOrEmpty(patient.Status) && criteria.PatientStatuses.Contains(patient.Status));
+        }
+
+        if (criteria.CountryCodes is { Count: > 0 })
+        {
+            var patientCode = NormalizeCountryCode(patient.CountryCode);
+            results.Add(patientCode != null && criteria.CountryCodes.Any(c => NormalizeCountryCode(c) == patientCode));
+        }
+
+        if (criteria.AlreadyMessaged.HasValue)
+        {
+            results.Add(alreadyMessaged.HasValue && alreadyMessaged.Value == criteria.AlreadyMessaged.Value);
+        }
+
+        return condition.CriteriaLogic == "OR" ? results.Any(r => r) : results.All(r => r);
+    }
+
+    /// <summary>
+    /// Whether a condition uses the "already messaged" dimension (callers then load message history).
+    /// </summary>
+    public static bool UsesAlreadyMessaged(MessageCondition condition)
+    {
+        return Parse(condition.Criteria)?.AlreadyMessaged.HasValue == true;
+    }
+
+    private static int? ParseTimeOfDay(string? value)
+    {
+        var match = TimeOfDayRegex.Match((value ?? string.Empty).Trim());
+        if (!match.Success)
+        {
+            return null;
+        }
+
+        return int.Parse(match.Groups[1].Value) * 60 + int.Parse(match.Groups[2].Value);
+    }
+
+    private static bool IsWithinTimeWindow(int minutes, ConditionTimeWindowDto window)
+    {
+        var start = ParseTimeOfDay(window.Start);
+        var end = ParseTimeOfDay(window.End);
+        if (start == null || end == null || start == end)
+        {
+            return false;
+        }
+
+        return start < end
+            ? minutes >= start && minutes < end
+            : minutes >= start || minutes < end;
+    }
+
+    /// <summary>
+    /// Normalize a country code to "+digits" ("0020" and "20" become "+20").
+    /// </summary>
+    private static string? NormalizeCountryCode(string? code)
+    {
+        if (string.IsNullOrWhiteSpace(code))
+        {
+            return null;
+        }
+
+        var digits = code.Replace(" ", string.Empty).Replace("-", string.Empty);
+        if (digits.StartsWith("+"))
+        {
+            digits = digits[1..];
+        }
+        else if (digits.StartsWith("00"))
+        {
+            digits = digits[2..];
+        }
+
+        return digits.Length > 0 && digits.All(char.IsAsciiDigit) ? $"+{digits}" : null;
+    }
+}
@@ -0,0 +1,103 @@
+using PhoneNumbers;
+
+namespace Clinics.Api.Helpers;
+
+/// <summary>
+/// Helper class for comparing stored patient numbers (country code and national number kept apart)
+/// with E.164 numbers, e.g. the do-not-contact list. Same rule as getPhoneKey in apps/web/utils/phoneUtils.ts,
+/// on the same numbering-plan metadata (Google libphonenumber); shared cases: tests/fixtures/phone-keys.json.
+/// </summary>
+public static class PhoneNumberHelper
+{
+    private const string UnknownRegion = "ZZ";
+    private const string NonGeographicRegion = "001";
+
+    private static readonly PhoneNumberUtil Util = PhoneNumberUtil.GetInstance();
+
+    /// <summary>
+    /// E.164 key of a number. Numbers starting with + or 00 already carry their country code;
+    /// otherwise countryCode applies. Valid numbers get libphonenumber's E.164 (trunk prefix dropped, national numbers
+    /// pasted with the country code but without + recognized); others + and the digits of an international number,
+    /// or the country code and the digits without leading zeros.
+    /// Non-digits are ignored and Arabic-Indic digits read as Latin digits.
+    /// </summary>
+    public static string ToE164(string? phoneNumber, string? countryCode)
+    {
+        var raw = (phoneNumber ?? string.Empty).Trim();
+        var digits = ToLatinDigits(raw);
+
+        if (raw.StartsWith('+') || digits.StartsWith("00"))
+        {
+            var international = raw.StartsWith('+') ? digits : digits.Substring(2);
+            var callingCode = DetectCallingCode(international);
+            var match = callingCode == null
+                ? null
+                : MatchNumberingPlan(callingCode, international.Substring(callingCode.Length));
+            return match ?? "+" + international;
+        }
+
+        var countryDigits = ToLatinDigits(countryCode ?? "+20");
+        var national = MatchNumberingPlan(countryDigits, digits)
+            ?? (digits.StartsWith(countryDigits) ? MatchNumberingPlan(countryDigits, digits.Substring(countryDigits.Length)) : null);
+        return national ?? $"+{countryDigits}{digits.TrimStart('0')}";
+    }
+
+    /// <summary>
+    /// Calling code at the start of international digits (longest match first, "971" is not "97" + "1...").
+    /// </summary>
+    private static string? DetectCallingCode(string digits)
+    {
+        for (var length = 3; length >= 1; length--)
+        {
+            if (digits.Length > length && HasNumberingPlan(digits.Substring(0, length)))
+                return digits.Substring(0, length);
+        }
+        return null;
+    }
+
+    /// <summary>
+    /// E.164 of national digits valid in the calling code's numbering plan (trunk prefix allowed), then of the digits
+    /// without leading zeros; null when neither is valid.
+    /// </summary>
+    private static string? MatchNumberingPlan(string callingCode, string national)
+    {
+        if (!HasNumberingPlan(callingCode))
+            return null;
+
+        var region = Util.GetRegionCodeForCountryCode(int.Parse(callingCode));
+        foreach (var candidate in new[] { national, national.TrimStart('0') }.Distinct())
+        {
+            if (candidate.Length == 0)
+                continue;
+            try
+            {
+                // Non-geographic calling codes (e.g. 800) have no region to parse national numbers against
+                var number = region == NonGeographicRegion
+                    ? Util.Parse($"+{callingCode}{candidate}", UnknownRegion)
+                    : Util.Parse(candidate, region);
+                if (number.CountryCode.ToString() == callingCode && Util.IsValidNumber(number))
+                    return Util.Format(number, PhoneNumberFormat.E164);
+            }
+            catch (NumberParseException)
+            {
+                // Not a number in this plan; try the next candidate
+            }
+        }
+        return null;
+    }
+
+    private static bool HasNumberingPlan(string callingCode)
+    {
+        return callingCode.Length is > 0 and <= 3
+            && int.TryParse(callingCode, out var code)
+            && Util.GetRegionCodeForCountryCode(code) != UnknownRegion;
+    }
+
+    private static string ToLatinDigits(string value)
+    {
+        return new string(value
+            .Where(char.IsDigit)
+            .Select(c => (char)('0' + (int)char.GetNumericValue(c)))
+            .ToArray());
+    }
+}
@@ -0,0 +1,85 @@
+using System.Text.Json;
+using System.Text.RegularExpressions;
+
+namespace Clinics.Api.Helpers;
+
+/// <summary>
+/// Helper class for per-queue custom template variables (Queue.CustomVariables).
+/// Stored as a JSON object; keys follow the placeholder syntax of ContentVariableResolver
+/// and apps/web/utils/templatePlaceholders.ts (validateCustomVariableKey).
+/// </summary>
+public static class QueueCustomVariablesHelper
+{
+    public const int MaxVariables = 20;
+    public const int MaxValueLength = 200;
+
+    private static readonly Regex KeyRegex = new(@"^[A-Z][A-Z0-9_]*$", RegexOptions.Compiled);
+
+    /// <summary>
+    /// Built-in placeholder keys, which custom variables cannot redefine.
+    /// </summary>
+    private static readonly HashSet<string> BuiltInKeys = new()
+    {
+        "PN", "PQP", "CQP", "ETR", "DN", "CN", "QN", "OFFSET", "DATE", "TIME", "APPT_TIME", "LINK"
+    };
+
+    /// <summary>
+    /// Parse the stored JSON. Invalid or empty values yield an empty dictionary.
+    /// </summary>
+    public static Dictionary<string, string> Parse(string? json)
+    {
+        if (string.IsNullOrWhiteSpace(json))
+        {
+            return new Dictionary<string, string>();
+        }
+
+        try
+        {
+            return JsonSerializer.Deserialize<Dictionary<string, string>>(json) ?? new Dictionary<string, string>();
+        }
+        catch (JsonException)
+        {
+            return new Dictionary<string, string>();
+        }
+    }
+
+    /// <summary>
+    /// Serialize for storage; an empty set is stored as null.
+    /// </summary>
+    public static string? Serialize(IReadOnlyDictionary<string, string> variables)
+    {
+        return variables.Count == 0 ? null : JsonSerializer.Serialize(variables);
+    }
+
+    /// <summary>
+    /// Validate keys and values.
+    /// </summary>
+    /// <returns>Arabic error message, or null if valid</returns>
+    public static string? Validate(IReadOnlyDictionary<string, string> variables)
+    {
+        if (variables.Count > MaxVariables)
+        {
+            return $"الحد الأقصى {MaxVariables} متغير مخصص";
+        }
+
+        foreach (var (key, value) in variables)
+        {
+            if (!KeyRegex.IsMatch(key))
+            {
+                return $"اسم المتغير {key} يجب أن يبدأ بحرف إنجليزي كبير ويحتوي على حروف كبيرة وأرقام و _ فقط";
+            }
+
+            if (BuiltInKeys.Contains(key))
+            {
+                return $"المتغير {{{key}}} محجوز للنظام";
+            }
+
+            if ((value ?? string.Empty).Length > MaxValueLength)
+            {
+                return $"قيمة المتغير {{{key}}} يجب ألا تتجاوز {MaxValueLength} حرف";
+            }
+        }
+
+        return null;
+    }
+}
@@ -0,0 +1,50 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.SignalR;
+using Clinics.Api.Services;
+
+namespace Clinics.Api.Hubs;
+
+/// <summary>
+/// Anonymous SignalR hub for the public queue status page (/publicStatusHub?token=...)
+/// A connection joins only the group of its status token's queue and receives QueueUpdated / PatientUpdated
+/// with just the queue id - clients reload their own status from GET /api/public/status/{token}.
+/// </summary>
+[AllowAnonymous]
+public class PublicStatusHub : Hub
+{
+    private readonly IPatientStatusService _patientStatus;
+    private readonly ILogger<PublicStatusHub> _logger;
+
+    public PublicStatusHub(IPatientStatusService patientStatus, ILogger<PublicStatusHub> logger)
+    {
+        _patientStatus = patientStatus;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Subscribe the connection to its token's queue; connections without a valid token are aborted
+    /// </summary>
+    public override async Task OnConnectedAsync()
+    {
+        try
+        {
+            var token = Context.GetHttpContext()?.Request.Query["token"].ToString();
+            var queueId = string.IsNullOrEmpty(token) ? null : await _patientStatus.GetQueueIdAsync(token);
+            if (queueId == null)
+            {
+                _logger.LogWarning("Public status connection rejected: invalid status token");
+                Context.Abort();
+                return;
+            }
+
+            await Groups.AddToGroupAsync(Context.ConnectionId, PatientStatusService.GroupName(queueId.Value));
+            await base.OnConnectedAsync();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error in OnConnectedAsync for public status connection {ConnectionId}",
+                Context.ConnectionId);
+            Context.Abort();
+        }
+    }
+}
@@ -2,6 +2,7 @@ using Microsoft.EntityFrameworkCore;
 using Microsoft.EntityFrameworkCore.Diagnostics;
 using Microsoft.AspNetCore.SignalR;
 using Clinics.Api.Hubs;
+using Clinics.Api.Services;
 using Clinics.Domain;
 
 namespace Clinics.Api.Interceptors;
@@ -13,13 +14,16 @@ namespace Clinics.Api.Interceptors;
 public class ChangeNotificationInterceptor : SaveChangesInterceptor
 {
     private readonly IHubContext<DataUpdateHub> _hubContext;
+    private readonly IHubContext<PublicStatusHub> _publicStatusHub;
     private readonly ILogger<ChangeNotificationInterceptor> _logger;
 
     public ChangeNotificationInterceptor(
         IHubContext<DataUpdateHub> hubContext,
+        IHubContext<PublicStatusHub> publicStatusHub,
         ILogger<ChangeNotificationInterceptor> logger)
     {
         _hubContext = hubContext;
+        _publicStatusHub = publicStatusHub;
         _logger = logger;
     }
 
@@ -57,6 +61,7 @@ public class ChangeNotificationInterceptor : SaveChangesInterceptor
                     moderatorId = queue.ModeratorId;
                     eventName = state == EntityState.Deleted ? "QueueDeleted" : "QueueUpdated";
                     pendingNotifications.Add(async () => await NotifyQueueChange(queue, moderatorId, eventName));
+                    pendingNotifications.Add(async () => await NotifyPublicStatus(queue.Id, "QueueUpdated"));
                     break;
 
                 case MessageTemplate template:
@@ -76,6 +81,7 @@ public class ChangeNotificationInterceptor : SaveChangesInterceptor
                     }
                     eventName = state == EntityState.Deleted ? "PatientDeleted" : "PatientUpdated";
                     pendingNotifications.Add(async () => await NotifyPatientChange(patient, moderatorId, eventName));
+                    pendingNotifications.Add(async () => await NotifyPublicStatus(patient.QueueId, "PatientUpdated"));
                     break;
 
                 case Message message:
@@ -182,6 +188,22 @@ public class ChangeNotificationInterceptor : SaveChangesInterceptor
         }
     }
 
+    /// <summary>
+    /// Public status pages of the queue (PublicStatusHub) only get the queue id and reload their own status
+    /// </summary>
+    private async Task NotifyPublicStatus(int queueId, string eventName)
+    {
+        try
+        {
+            await _publicStatusHub.Clients.Group(PatientStatusService.GroupName(queueId))
+                .SendAsync(eventName, new { queueId });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error notifying public status pages of Queue {QueueId}", queueId);
+        }
+    }
+
     private async Task NotifyTemplateChange(MessageTemplate template, int? moderatorId, string eventName)
     {
         if (!moderatorId.HasValue) return;
@@ -260,6 +282,8 @@ public class ChangeNotificationInterceptor : SaveChangesInterceptor
                 errorMessage = message.ErrorMessage,
                 content = message.Content,
                 sentAt = message.SentAt,
+                deliveredAt = message.DeliveredAt,
+                readAt = message.ReadAt,
                 updatedAt = message.UpdatedAt
             };
 
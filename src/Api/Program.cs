@@ -23,6 +23,9 @@ using Clinics.Api.Services.Telemetry;
 using Clinics.Api.Middleware;
 using System.Globalization;
 using Microsoft.AspNetCore.DataProtection;
+using System.Threading.RateLimiting;
+using Microsoft.AspNetCore.RateLimiting;
+using Microsoft.AspNetCore.HttpOverrides;
 
 var builder = WebApplication.CreateBuilder(new WebApplicationOptions { Args = args });
 
@@ -109,6 +112,20 @@ builder.Services.AddScoped<IPatientPositionService, PatientPositionService>();
 builder.Services.AddScoped<IPhonePlaceholderService, PhonePlaceholderService>();  // Add phone placeholder service
 builder.Services.AddScoped<IArabicErrorMessageService, ArabicErrorMessageService>();  // Arabic error message translation
 builder.Services.AddScoped<IContentVariableResolver, ContentVariableResolver>();  // Template variable resolution
+builder.Services.AddScoped<ITemplateVersionService, TemplateVersionService>();  // Template history and the version recorded on sent messages
+builder.Services.AddScoped<ITemplateLibraryService, TemplateLibraryService>();  // Shared templates copied or linked into queues
+builder.Services.AddScoped<IQueueDuplicationService, QueueDuplicationService>();  // Copies a queue with its templates and conditions
+builder.Services.AddScoped<IQueueFlowService, QueueFlowService>();  // Call next / no-show / skip transitions
+builder.Services.AddScoped<IDoNotContactService, DoNotContactService>();  // Numbers every send path skips
+builder.Services.AddScoped<IPhoneNormalizationService, PhoneNormalizationService>();  // Country-specific phone validation
+builder.Services.AddScoped<ICheckInService, CheckInService>();  // Patient self check-in (public link + staff approval)
+builder.Services.AddSingleton<CheckInRateLimiter>();  // Per-number limit on public check-ins
+builder.Services.AddScoped<IPatientStatusService, PatientStatusService>();  // Status links ({LINK}) and the public status page
+builder.Services.AddScoped<IMessageReceiptService, MessageReceiptService>();  // Delivered/read ticks reported by the extension
+builder.Services.AddScoped<IConversationService, ConversationService>();  // Patient replies and conversations
+builder.Services.AddScoped<IMessageQueueService, MessageQueueService>();  // Template selection + message building shared by all send paths
+builder.Services.AddScoped<IScheduledSessionService, ScheduledSessionService>();  // Fires scheduled sessions (quota re-checked at fire time)
+builder.Services.AddScoped<IAutoNotifyService, AutoNotifyService>();  // Queues condition messages when CQP advances (Queue.AutoNotifyEnabled)
 builder.Services.AddSingleton<IdempotencyService>();  // Idempotency service for request deduplication
 builder.Services.AddSingleton<CircuitBreakerService>();  // Circuit breaker for WhatsApp service resilience
 // Cascade services for soft-delete operations
@@ -262,6 +279,69 @@ builder.Services.AddSignalR(options =>
     options.HandshakeTimeout = TimeSpan.FromSeconds(15);
 });
 
+// The API runs behind nginx: take the client IP from X-Forwarded-For, but only on requests coming from the proxy.
+// KnownProxies / KnownProxyNetworks (';' or ',' separated) default to the Docker bridge networks nginx runs on.
+builder.Services.Configure<ForwardedHeadersOptions>(options =>
+{
+    options.ForwardedHeaders = ForwardedHeaders.XForwardedFor | ForwardedHeaders.XForwardedProto;
+    options.ForwardLimit = 1;  // only the address nginx appended; earlier entries are whatever the client sent
+
+    var knownProxies = (builder.Configuration["KnownProxies"] ?? "")
+                            .Split(new[] { ';', ',' }, StringSplitOptions.RemoveEmptyEntries)
+                            .Select(p => p.Trim());
+    foreach (var proxy in knownProxies)
+    {
+        if (System.Net.IPAddress.TryParse(proxy, out var address))
+        {
+            options.KnownProxies.Add(address);
+        }
+    }
+
+    var knownNetworks = (builder.Configuration["KnownProxyNetworks"] ?? "172.16.0.0/12")
+                            .Split(new[] { ';', ',' }, StringSplitOptions.RemoveEmptyEntries)
+                            .Select(n => n.Trim().Split('/'));
+    foreach (var network in knownNetworks)
+    {
+        if (network.Length == 2
+            && System.Net.IPAddress.TryParse(network[0], out var prefix)
+            && int.TryParse(network[1], out var prefixLength))
+        {
+            options.KnownNetworks.Add(new Microsoft.AspNetCore.HttpOverrides.IPNetwork(prefix, prefixLength));
+        }
+    }
+});
+
+// Rate limiting for the anonymous endpoints (public check-in and status pages): fixed window per client IP
+// (RemoteIpAddress is the forwarded client address once UseForwardedHeaders has run)
+builder.Services.AddRateLimiter(options =>
+{
+    options.RejectionStatusCode = StatusCodes.Status429TooManyRequests;
+    options.OnRejected = async (context, cancellationToken) =>
+    {
+        await context.HttpContext.Response.WriteAsJsonAsync(
+            new { success = false, error = "طلبات كثيرة، حاول مرة أخرى بعد قليل" }, cancellationToken);
+    };
+    options.AddPolicy("public-check-in", httpContext =>
+        RateLimitPartition.GetFixedWindowLimiter(
+            httpContext.Connection.RemoteIpAddress?.ToString() ?? "unknown",
+            _ => new FixedWindowRateLimiterOptions
+            {
+                PermitLimit = 10,
+                Window = TimeSpan.FromMinutes(1),
+                QueueLimit = 0
+            }));
+    // The status page reloads on every live update, so it gets a larger budget
+    options.AddPolicy("public-status", httpContext =>
+        RateLimitPartition.GetFixedWindowLimiter(
+            httpContext.Connection.RemoteIpAddress?.ToString() ?? "unknown",
+            _ => new FixedWindowRateLimiterOptions
+            {
+                PermitLimit = 60,
+                Window = TimeSpan.FromMinutes(1),
+                QueueLimit = 0
+            }));
+});
+
 // Register the ChangeNotificationInterceptor as a scoped service
 builder.Services.AddScoped<Clinics.Api.Interceptors.ChangeNotificationInterceptor>();
 builder.Services.AddScoped<Clinics.Api.Interceptors.AuditFieldsInterceptor>();
@@ -336,6 +416,8 @@ builder.Services.AddScoped<IMessageSender, SimulatedMessageSender>();
 builder.Services.AddScoped<IMessageProcessor, MessageProcessor>();
 builder.Services.AddScoped<ProcessQueuedMessagesJob>(); // Wrapper job with [DisableConcurrentExecution]
 builder.Services.AddScoped<CpuMonitorJob>(); // Security: CPU monitoring for detecting cryptominers
+builder.Services.AddScoped<ScheduledSessionsJob>(); // Fires scheduled sessions when due
+builder.Services.AddScoped<AutoNotifyJob>(); // Auto-notify after CQP advance (enqueued by QueuesController)
 
 // Extension Runner services for browser extension-based WhatsApp automation
 builder.Services.Configure<Clinics.Api.Services.Extension.WhatsAppProviderOptions>(
@@ -361,6 +443,9 @@ builder.Services.AddAuthorization(options =>
 
 var app = builder.Build();
 
+// First, so everything after it (rate limiter, logging) sees the client's IP rather than nginx's
+app.UseForwardedHeaders();
+
 if (app.Environment.IsDevelopment())
 {
     app.UseDeveloperExceptionPage();
@@ -377,6 +462,7 @@ app.UseHangfireDashboard("/hangfire", new DashboardOptions
 // Middleware ordering: Routing -> CORS -> Auth -> Map controllers
 app.UseRouting();
 app.UseCors();
+app.UseRateLimiter();
 app.UseHttpsRedirection();
 app.UseAuthentication();
 app.UseAuthorization();
@@ -397,6 +483,9 @@ app.MapHub<Clinics.Api.Hubs.DataUpdateHub>("/dataUpdateHub");
 // Map Extension SignalR hub endpoint for browser extension communication
 app.MapHub<Clinics.Api.Hubs.ExtensionHub>("/extensionHub");
 
+// Map the anonymous hub of the public queue status page (live updates for one status token's queue)
+app.MapHub<Clinics.Api.Hubs.PublicStatusHub>("/publicStatusHub");
+
 // Lightweight health endpoint for CI/CD readiness and Playwright waits
 // Returns 200 OK when the application has started routing/middleware.
 // Does not require authentication.
@@ -1074,6 +1163,12 @@ try
             moderatorIds.Count);
     }
 
+    // Scheduled sends: fire due sessions every minute (quota re-checked at fire time)
+    RecurringJob.AddOrUpdate<ScheduledSessionsJob>(
+        "fire-scheduled-sessions",
+        job => job.ExecuteAsync(),
+        "* * * * *");
+
     // Security: Monitor CPU usage every 5 minutes to detect cryptominers
     RecurringJob.AddOrUpdate<CpuMonitorJob>("cpu-security-monitor", job => job.ExecuteAsync(), "*/5 * * * *");
 
@@ -0,0 +1,34 @@
+using Hangfire;
+
+namespace Clinics.Api.Services;
+
+/// <summary>
+/// Fire-and-forget job enqueued when a queue with auto-notify advances its CurrentPosition.
+/// Runs are serialized so two quick advances cannot message the same patient twice.
+/// </summary>
+public class AutoNotifyJob
+{
+    private readonly IAutoNotifyService _autoNotifyService;
+    private readonly ILogger<AutoNotifyJob> _logger;
+
+    public AutoNotifyJob(IAutoNotifyService autoNotifyService, ILogger<AutoNotifyJob> logger)
+    {
+        _autoNotifyService = autoNotifyService;
+        _logger = logger;
+    }
+
+    [DisableConcurrentExecution(timeoutInSeconds: 120)]
+    [AutomaticRetry(Attempts = 0)]
+    public async Task ExecuteAsync(int queueId, int triggeredByUserId)
+    {
+        try
+        {
+            await _autoNotifyService.NotifyAsync(queueId, triggeredByUserId);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Auto-notify failed for queue {QueueId}", queueId);
+            throw;
+        }
+    }
+}
@@ -0,0 +1,191 @@
+/*
+ * Auto-Notify Service
+ * File: src/Api/Services/AutoNotifyService.cs
+ *
+ * Queues condition messages when a queue's CurrentPosition advances (Queue.AutoNotifyEnabled).
+ * Same rules as planAutoNotifications in apps/web/services/autoNotifyService.ts:
+ * - Patients already served (offset < 0) and patients matching no condition are skipped
+ *   (conditions are matched with their criteria, see MessageQueueService.SelectTemplate)
+ * - A patient is messaged only when the matched template differs from their last message's template
+ *   and that message is older than Queue.AutoNotifyDedupMinutes
+ * - Unvalidated WhatsApp numbers and numbers on the moderator's do-not-contact list are skipped
+ */
+
+using Clinics.Api.DTOs;
+using Clinics.Domain;
+using Clinics.Infrastructure;
+using Hangfire;
+using Microsoft.EntityFrameworkCore;
+
+namespace Clinics.Api.Services;
+
+public interface IAutoNotifyService
+{
+    /// <summary>
+    /// Queue auto-notify messages for the queue's current position. Returns the number of messages queued.
+    /// </summary>
+    Task<int> NotifyAsync(int queueId, int triggeredByUserId);
+
+    /// <summary>
+    /// Most recent non-deleted message per patient of a queue.
+    /// </summary>
+    Task<List<LastPatientMessageDto>> GetLastPatientMessagesAsync(int queueId);
+}
+
+public class AutoNotifyService : IAutoNotifyService
+{
+    private readonly ApplicationDbContext _db;
+    private readonly QuotaService _quotaService;
+    private readonly IMessageQueueService _messageQueueService;
+    private readonly IDoNotContactService _doNotContact;
+    private readonly IBackgroundJobClient _backgroundJobs;
+    private readonly ILogger<AutoNotifyService> _logger;
+
+    public AutoNotifyService(
+        ApplicationDbContext db,
+        QuotaService quotaService,
+        IMessageQueueService messageQueueService,
+        IDoNotContactService doNotContact,
+        IBackgroundJobClient backgroundJobs,
+        ILogger<AutoNotifyService> logger)
+    {
+        _db = db;
+        _quotaService = quotaService;
+        _messageQueueService = messageQueueService;
+        _doNotContact = doNotContact;
+        _backgroundJobs = backgroundJobs;
+        _logger = logger;
+    }
+
+    public async Task<List<LastPatientMessageDto>> GetLastPatientMessagesAsync(int queueId)
+    {
+        var messages = await _db.Messages
+            .AsNoTracking()
+            .Where(m => m.QueueId == queueId && m.PatientId != null && !m.IsDeleted)
+            .Select(m => new LastPatientMessageDto
+            {
+                PatientId = m.PatientId!.Value,
+                TemplateId = m.TemplateId,
+                Status = m.Status,
+                CreatedAt = m.CreatedAt
+            })
+            .ToListAsync();
+
+        return messages
+            .GroupBy(m => m.PatientId)
+            .Select(g => g.OrderByDescending(m => m.CreatedAt).First())
+            .ToList();
+    }
+
+    public async Task<int> NotifyAsync(int queueId, int triggeredByUserId)
+    {
+        var queue = await _db.Queues.FirstOrDefaultAsync(q => q.Id == queueId && !q.IsDeleted);
+        if (queue == null || !queue.AutoNotifyEnabled)
+        {
+            return 0;
+        }
+
+        // Same precondition the dashboard showed before sending: a connected WhatsApp session
+        var whatsappSession = await _db.WhatsAppSessions
+            .AsNoTracking()
+            .FirstOrDefaultAsync(w => w.ModeratorUserId == queue.ModeratorId && !w.IsDeleted);
+        if (whatsappSession == null || whatsappSession.Status != "connected")
+        {
+            _logger.LogWarning("Auto-notify skipped for queue {QueueId}: WhatsApp session of moderator {ModeratorId} is not connected",
+                queueId, queue.ModeratorId);
+            return 0;
+        }
+
+        var conditions = await _messageQueueService.GetQueueConditionsAsync(queue.Id);
+        var patients = await _db.Patients
+            .Where(p => p.QueueId == queue.Id && !p.IsDeleted && p.Position >= queue.CurrentPosition)
+            .OrderBy(p => p.Position)
+            .ToListAsync();
+        var lastMessages = (await GetLastPatientMessagesAsync(queue.Id))
+            .ToDictionary(m => m.PatientId);
+        var doNotContact = await _doNotContact.GetNumbersAsync(queue.ModeratorId);
+
+        var now = DateTime.UtcNow;
+        var dedupWindow = TimeSpan.FromMinutes(queue.AutoNotifyDedupMinutes);
+        var recipients = new List<Patient>();
+        var unvalidatedCount = 0;
+
+        foreach (var patient in patients)
+        {
+            // Also enforced by AddSessionMessagesAsync; skipped here so the quota check counts real recipients
+            if (_doNotContact.IsListed(doNotContact, patient))
+            {
+                continue;
+            }
+
+            var template = _messageQueueService.SelectTemplate(
+                conditions, patient, patient.Position - queue.CurrentPosition, lastMessages.ContainsKey(patient.Id), now);
+            if (template == null)
+            {
+                continue;
+            }
+
+            if (lastMessages.TryGetValue(patient.Id, out var last))
+            {
+                if (last.TemplateId == template.Id || now - last.CreatedAt < dedupWindow)
+                {
+                    continue;
+                }
+            }
+
+            if (patient.IsValidWhatsAppNumber != true)
+            {
+                unvalidatedCount++;
+                continue;
+            }
+
+            recipients.Add(patient);
+        }
+
+        if (recipients.Count == 0)
+        {
+            return 0;
+        }
+
+        if (!await _quotaService.HasMessagesQuotaAsync(triggeredByUserId, recipients.Count))
+        {
+            _logger.LogWarning("Auto-notify skipped for queue {QueueId}: insufficient quota for {Count} messages",
+                queueId, recipients.Count);
+            return 0;
+        }
+
+        await using var transaction = await _db.Database.BeginTransactionAsync();
+
+        var session = new MessageSession
+        {
+            Id = Guid.NewGuid(),
+            QueueId = queue.Id,
+            ModeratorId = queue.ModeratorId,
+            UserId = triggeredByUserId,
+            Status = "active",
+            IsPaused = false,
+            SentMessages = 0,
+            FailedMessages = 0,
+            StartTime = now,
+            LastUpdated = now,
+            CorrelationId = Guid.NewGuid()
+        };
+        _db.MessageSessions.Add(session);
+
+        // Every recipient matched a condition above, so no fallback template is needed
+        var messages = await _messageQueueService.AddSessionMessagesAsync(
+            session, null, queue, recipients, triggeredByUserId);
+
+        await _db.SaveChangesAsync();
+        await transaction.CommitAsync();
+
+        _backgroundJobs.Enqueue<ProcessQueuedMessagesJob>(
+            job => job.ExecuteForModeratorAsync(queue.ModeratorId));
+
+        _logger.LogInformation(
+            "Auto-notify queued {Count} messages for queue {QueueId} at position {Position} (skipped {Unvalidated} unvalidated numbers). Session: {SessionId}",
+            messages.Count, queue.Id, queue.CurrentPosition, unvalidatedCount, session.Id);
+
+        return messages.Count;
+    }
+}
@@ -0,0 +1,184 @@
+/*
+ * Check-In Service
+ * File: src/Api/Services/CheckInService.cs
+ *
+ * Patient self check-in (see apps/web/utils/checkIn.ts):
+ * - Each queue has a public link token (/check-in/{token}, printed as a QR code), created on first use
+ * - Without approval a check-in is appended at the next position right away; with approval it waits
+ *   in PendingCheckIns until staff approve (appended then) or reject it
+ * - A number that is already waiting, in service or pending in the queue cannot check in again
+ * Adding a patient saves once, so the change interceptor broadcasts PatientUpdated.
+ * The caller owns the transaction and locks the queue first (IQueueFlowService.LockQueueAsync).
+ */
+
+using System.Security.Cryptography;
+using System.Threading.RateLimiting;
+using Clinics.Api.Helpers;
+using Clinics.Domain;
+using Clinics.Infrastructure;
+using Microsoft.EntityFrameworkCore;
+
+namespace Clinics.Api.Services;
+
+public interface ICheckInService
+{
+    /// <summary>
+    /// Give the queue a link token if it has none yet. Saves.
+    /// </summary>
+    Task EnsureTokenAsync(Queue queue);
+
+    /// <summary>
+    /// Replace the link token; the old link and printed QR codes stop working. Saves.
+    /// </summary>
+    Task RegenerateTokenAsync(Queue queue);
+
+    /// <summary>
+    /// Queue behind a link token. Null for unknown tokens and deleted queues.
+    /// </summary>
+    Task<Queue?> FindQueueByTokenAsync(string token);
+
+    /// <summary>
+    /// Whether the number is already waiting, in service or pending approval in the queue.
+    /// </summary>
+    Task<bool> IsCheckedInAsync(int queueId, string phoneNumber, string countryCode);
+
+    /// <summary>
+    /// Append a patient at the next position (max active position + 1). Saves.
+    /// </summary>
+    Task<Patient> AddPatientAsync(Queue queue, string fullName, string phoneNumber, string countryCode, int? userId);
+
+    /// <summary>
+    /// Store a check-in for staff approval. Saves.
+    /// </summary>
+    Task<PendingCheckIn> AddPendingAsync(Queue queue, string fullName, string phoneNumber, string countryCode);
+
+    /// <summary>
+    /// Append a pending check-in to its queue and remove it. Saves.
+    /// </summary>
+    Task<Patient> ApproveAsync(Queue queue, PendingCheckIn checkIn, int userId);
+}
+
+public class CheckInService : ICheckInService
+{
+    private readonly ApplicationDbContext _db;
+
+    public CheckInService(ApplicationDbContext db)
+    {
+        _db = db;
+    }
+
+    public async Task EnsureTokenAsync(Queue queue)
+    {
+        if (!string.IsNullOrEmpty(queue.CheckInToken))
+            return;
+
+        await RegenerateTokenAsync(queue);
+    }
+
+    public async Task RegenerateTokenAsync(Queue queue)
+    {
+        queue.CheckInToken = NewToken();
+        queue.UpdatedAt = DateTime.UtcNow;
+        await _db.SaveChangesAsync();
+    }
+
+    public Task<Queue?> FindQueueByTokenAsync(string token)
+    {
+        return _db.Queues.FirstOrDefaultAsync(q => q.CheckInToken == token && !q.IsDeleted);
+    }
+
+    public async Task<bool> IsCheckedInAsync(int queueId, string phoneNumber, string countryCode)
+    {
+        var number = PhoneNumberHelper.ToE164(phoneNumber, countryCode);
+
+        var patients = await _db.Patients
+            .Where(p => p.QueueId == queueId && !p.IsDeleted
+                && (p.Status == QueueFlowService.Waiting || p.Status == QueueFlowService.InService))
+            .Select(p => new { p.PhoneNumber, p.CountryCode })
+            .ToListAsync();
+        if (patients.Any(p => PhoneNumberHelper.ToE164(p.PhoneNumber, p.CountryCode) == number))
+            return true;
+
+        var pending = await _db.PendingCheckIns
+            .Where(c => c.QueueId == queueId)
+            .Select(c => new { c.PhoneNumber, c.CountryCode })
+            .ToListAsync();
+        return pending.Any(c => PhoneNumberHelper.ToE164(c.PhoneNumber, c.CountryCode) == number);
+    }
+
+    public async Task<Patient> AddPatientAsync(Queue queue, string fullName, string phoneNumber, string countryCode, int? userId)
+    {
+        var maxPos = await _db.Patients
+            .Where(p => p.QueueId == queue.Id && !p.IsDeleted)
+            .MaxAsync(p => (int?)p.Position) ?? 0;
+
+        var patient = new Patient
+        {
+            QueueId = queue.Id,
+            FullName = fullName,
+            PhoneNumber = phoneNumber,
+            CountryCode = countryCode,
+            Position = maxPos + 1,
+            Status = QueueFlowService.Waiting,
+            CreatedBy = userId
+        };
+
+        _db.Patients.Add(patient);
+        await _db.SaveChangesAsync();
+        return patient;
+    }
+
+    public async Task<PendingCheckIn> AddPendingAsync(Queue queue, string fullName, string phoneNumber, string countryCode)
+    {
+        var checkIn = new PendingCheckIn
+        {
+            QueueId = queue.Id,
+            FullName = fullName,
+            PhoneNumber = phoneNumber,
+            CountryCode = countryCode,
+            CreatedAt = DateTime.UtcNow
+        };
+
+        _db.PendingCheckIns.Add(checkIn);
+        await _db.SaveChangesAsync();
+        return checkIn;
+    }
+
+    public async Task<Patient> ApproveAsync(Queue queue, PendingCheckIn checkIn, int userId)
+    {
+        _db.PendingCheckIns.Remove(checkIn);
+        return await AddPatientAsync(queue, checkIn.FullName, checkIn.PhoneNumber, checkIn.CountryCode, userId);
+    }
+
+    private static string NewToken()
+    {
+        return Convert.ToHexString(RandomNumberGenerator.GetBytes(16)).ToLowerInvariant();
+    }
+}
+
+/// <summary>
+/// Per-number limit on public check-ins (the per-client limit is the "public-check-in" rate limiter policy).
+/// Singleton: the windows live in memory, like IdempotencyService.
+/// </summary>
+public class CheckInRateLimiter
+{
+    public const int PermitsPerNumber = 3;
+    public static readonly TimeSpan Window = TimeSpan.FromHours(1);
+
+    private readonly PartitionedRateLimiter<string> _limiter = PartitionedRateLimiter.Create<string, string>(number =>
+        RateLimitPartition.GetFixedWindowLimiter(number, _ => new FixedWindowRateLimiterOptions
+        {
+            PermitLimit = PermitsPerNumber,
+            Window = Window,
+            QueueLimit = 0
+        }));
+
+    /// <summary>
+    /// Count one check-in attempt for the number; false when its window is used up.
+    /// </summary>
+    public bool TryAcquire(string phoneNumber, string countryCode)
+    {
+        using var lease = _limiter.AttemptAcquire(PhoneNumberHelper.ToE164(phoneNumber, countryCode));
+        return lease.IsAcquired;
+    }
+}
@@ -0,0 +1,284 @@
+/*
+ * Conversation Service
+ * File: src/Api/Services/ConversationService.cs
+ *
+ * Patient conversations (see apps/web/utils/conversations.ts):
+ * - The extension runner forwards replies from WhatsApp Web to POST /api/extension/messages/inbound
+ *   without opening chats: replies rendered in the chat that is already open, and the latest reply of
+ *   unread chats read from the chat list ("preview_..." ids)
+ * - A reply is kept only when its number received one of the moderator's messages in the last 7 days;
+ *   it is stored on that patient (InboundMessage) and counts as unread until staff open the conversation
+ * - A preview and the same reply seen later in the open chat are one message: the preview takes the real id
+ * The conversation of a patient is its sent Messages and InboundMessages, oldest first.
+ */
+
+using Clinics.Api.DTOs;
+using Clinics.Api.Helpers;
+using Clinics.Domain;
+using Clinics.Infrastructure;
+using Microsoft.EntityFrameworkCore;
+
+namespace Clinics.Api.Services;
+
+public interface IConversationService
+{
+    /// <summary>
+    /// Store new replies forwarded by the moderator's extension. Saves.
+    /// Returns the stored replies (Patient loaded) - duplicates and unknown numbers are skipped.
+    /// </summary>
+    Task<List<InboundMessage>> RecordInboundAsync(int moderatorId, IReadOnlyList<InboundReply> replies);
+
+    /// <summary>
+    /// Conversation of a patient, or null when the patient does not exist or is outside the moderator's scope
+    /// (moderatorId null = admin, all moderators).
+    /// </summary>
+    Task<PatientConversationDto?> GetConversationAsync(int patientId, int? moderatorId);
+
+    /// <summary>
+    /// Mark the patient's replies read. Saves. Returns false when the patient is outside the scope.
+    /// </summary>
+    Task<bool> MarkReadAsync(int patientId, int? moderatorId, int userId);
+
+    /// <summary>
+    /// Patients with unread replies within the scope (moderatorId null = admin, all moderators).
+    /// </summary>
+    Task<UnreadConversationsSummaryDto> GetUnreadAsync(int? moderatorId);
+}
+
+/// <summary>
+/// A reply as captured by the extension; Phone is the sender's number in international digits.
+/// </summary>
+public record InboundReply(string Phone, string WaMessageId, string Text, DateTime? ReceivedAt);
+
+public class ConversationService : IConversationService
+{
+    public const string PreviewIdPrefix = "preview_";
+
+    /// <summary>
+    /// Replies are matched to patients messaged within this window (mirrors knownPatientWindow in the extension).
+    /// </summary>
+    public static readonly TimeSpan KnownPatientWindow = TimeSpan.FromDays(7);
+
+    /// <summary>
+    /// How far back a preview and the same reply seen in the open chat are merged.
+    /// </summary>
+    private static readonly TimeSpan PreviewMergeWindow = TimeSpan.FromHours(24);
+
+    private readonly ApplicationDbContext _db;
+
+    public ConversationService(ApplicationDbContext db)
+    {
+        _db = db;
+    }
+
+    public async Task<List<InboundMessage>> RecordInboundAsync(int moderatorId, IReadOnlyList<InboundReply> replies)
+    {
+        var valid = replies
+            .Where(r => !string.IsNullOrWhiteSpace(r.Phone) && !string.IsNullOrWhiteSpace(r.WaMessageId) && !string.IsNullOrWhiteSpace(r.Text))
+            .ToList();
+        if (valid.Count == 0)
+            return new List<InboundMessage>();
+
+        var now = DateTime.UtcNow;
+        var patientsByPhone = await GetRecentlyMessagedPatientsAsync(moderatorId, now - KnownPatientWindow);
+
+        var recorded = new List<InboundMessage>();
+        var changed = false;
+        foreach (var reply in valid)
+        {
+            var phone = PhoneNumberHelper.ToE164("+" + reply.Phone, null);
+            if (!patientsByPhone.TryGetValue(phone, out var patient))
+                continue;
+
+            var waMessageId = Truncate(reply.WaMessageId.Trim(), 128);
+            var content = Truncate(reply.Text.Trim(), 2000);
+            if (await _db.InboundMessages.AnyAsync(m => m.ModeratorId == moderatorId && m.WaMessageId == waMessageId)
+                || recorded.Any(m => m.WaMessageId == waMessageId))
+                continue;
+
+            var isPreview = waMessageId.StartsWith(PreviewIdPrefix);
+            var mergeFrom = now - PreviewMergeWindow;
+            var sameText = await _db.InboundMessages
+                .Where(m => m.ModeratorId == moderatorId && m.PatientId == patient.Id
+                    && m.Content == content && m.ReceivedAt >= mergeFrom)
+                .OrderByDescending(m => m.ReceivedAt)
+                .ToListAsync();
+
+            // A preview of a reply already stored (from the open chat or an earlier preview) adds nothing
+            if (isPreview && sameText.Count > 0)
+                continue;
+
+            // The reply behind an earlier preview: keep the stored row, now with WhatsApp's real id
+            var preview = isPreview ? null : sameText.FirstOrDefault(m => m.WaMessageId.StartsWith(PreviewIdPrefix));
+            if (preview != null)
+            {
+                preview.WaMessageId = waMessageId;
+                changed = true;
+                continue;
+            }
+
+            var receivedAt = reply.ReceivedAt?.ToUniversalTime() ?? now;
+            var message = new InboundMessage
+            {
+                ModeratorId = moderatorId,
+                PatientId = patient.Id,
+                Patient = patient,
+                QueueId = patient.QueueId,
+                PhoneNumber = phone,
+                WaMessageId = waMessageId,
+                Content = content,
+                ReceivedAt = receivedAt > now ? now : receivedAt
+            };
+            _db.InboundMessages.Add(message);
+            recorded.Add(message);
+            changed = true;
+        }
+
+        if (changed)
+        {
+            await _db.SaveChangesAsync();
+        }
+        return recorded;
+    }
+
+    public async Task<PatientConversationDto?> GetConversationAsync(int patientId, int? moderatorId)
+    {
+        var patient = await FindPatientAsync(patientId, moderatorId);
+        if (patient == null)
+            return null;
+
+        var sent = await _db.Messages
+            .AsNoTracking()
+            .Where(m => m.PatientId == patientId && m.Status == "sent" && !m.IsDeleted)
+            .Select(m => new ConversationMessageDto
+            {
+                Id = m.Id.ToString(),
+                Direction = "outbound",
+                Content = m.Content,
+                At = m.SentAt ?? m.UpdatedAt,
+                Status = m.ReadAt != null ? "read" : m.DeliveredAt != null ? "delivered" : "sent"
+            })
+            .ToListAsync();
+
+        var replies = await _db.InboundMessages
+            .AsNoTracking()
+            .Where(m => m.PatientId == patientId)
+            .Select(m => new ConversationMessageDto
+            {
+                Id = m.Id.ToString(),
+                Direction = "inbound",
+                Content = m.Content,
+                At = m.ReceivedAt,
+                IsRead = m.IsRead
+            })
+            .ToListAsync();
+
+        return new PatientConversationDto
+        {
+            PatientId = patient.Id,
+            PatientName = patient.FullName,
+            Phone = patient.PhoneNumber,
+            CountryCode = patient.CountryCode,
+            QueueId = patient.QueueId,
+            QueueName = patient.Queue?.DoctorName ?? string.Empty,
+            UnreadCount = replies.Count(r => r.IsRead == false),
+            Messages = sent.Concat(replies).OrderBy(m => m.At).ToList()
+        };
+    }
+
+    public async Task<bool> MarkReadAsync(int patientId, int? moderatorId, int userId)
+    {
+        var patient = await FindPatientAsync(patientId, moderatorId);
+        if (patient == null)
+            return false;
+
+        var unread = await _db.InboundMessages
+            .Where(m => m.PatientId == patientId && !m.IsRead)
+            .ToListAsync();
+        if (unread.Count == 0)
+            return true;
+
+        var now = DateTime.UtcNow;
+        foreach (var message in unread)
+        {
+            message.IsRead = true;
+            message.ReadAt = now;
+            message.ReadBy = userId;
+        }
+        await _db.SaveChangesAsync();
+        return true;
+    }
+
+    public async Task<UnreadConversationsSummaryDto> GetUnreadAsync(int? moderatorId)
+    {
+        var query = _db.InboundMessages
+            .AsNoTracking()
+            .Where(m => !m.IsRead && m.Patient != null && !m.Patient.IsDeleted);
+        if (moderatorId.HasValue)
+        {
+            query = query.Where(m => m.ModeratorId == moderatorId.Value);
+        }
+
+        // Grouped by the patient's current queue so the badges follow patients moved between queues
+        var conversations = await query
+            .GroupBy(m => new { m.PatientId, m.Patient!.QueueId })
+            .Select(g => new UnreadConversationDto
+            {
+                PatientId = g.Key.PatientId,
+                QueueId = g.Key.QueueId,
+                UnreadCount = g.Count(),
+                LastMessageAt = g.Max(m => m.ReceivedAt)
+            })
+            .ToListAsync();
+
+        return new UnreadConversationsSummaryDto
+        {
+            Total = conversations.Sum(c => c.UnreadCount),
+            Conversations = conversations.OrderByDescending(c => c.LastMessageAt).ToList()
+        };
+    }
+
+    /// <summary>
+    /// Patients of the moderator who were sent a message since the cutoff, by E.164 number
+    /// (the most recently messaged patient wins when a number is in several queues).
+    /// </summary>
+    private async Task<Dictionary<string, Patient>> GetRecentlyMessagedPatientsAsync(int moderatorId, DateTime cutoff)
+    {
+        var sent = await _db.Messages
+            .AsNoTracking()
+            .Where(m => m.ModeratorId == moderatorId && m.PatientId != null && m.Status == "sent"
+                && !m.IsDeleted && m.SentAt >= cutoff)
+            .OrderByDescending(m => m.SentAt)
+            .Select(m => new { PatientId = m.PatientId!.Value, m.PatientPhone, m.CountryCode })
+            .ToListAsync();
+
+        var patientIdsByPhone = new Dictionary<string, int>();
+        foreach (var m in sent.Where(m => !string.IsNullOrWhiteSpace(m.PatientPhone)))
+        {
+            patientIdsByPhone.TryAdd(PhoneNumberHelper.ToE164(m.PatientPhone, m.CountryCode), m.PatientId);
+        }
+
+        var ids = patientIdsByPhone.Values.Distinct().ToList();
+        var patients = await _db.Patients
+            .Where(p => ids.Contains(p.Id) && !p.IsDeleted)
+            .ToDictionaryAsync(p => p.Id);
+
+        return patientIdsByPhone
+            .Where(kv => patients.ContainsKey(kv.Value))
+            .ToDictionary(kv => kv.Key, kv => patients[kv.Value]);
+    }
+
+    private Task<Patient?> FindPatientAsync(int patientId, int? moderatorId)
+    {
+        return _db.Patients
+            .Include(p => p.Queue)
+            .Where(p => p.Id == patientId && !p.IsDeleted && p.Queue != null
+                && (!moderatorId.HasValue || p.Queue.ModeratorId == moderatorId.Value))
+            .FirstOrDefaultAsync();
+    }
+
+    private static string Truncate(string value, int maxLength)
+    {
+        return value.Length <= maxLength ? value : value.Substring(0, maxLength);
+    }
+}
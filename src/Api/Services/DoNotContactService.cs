@@ -0,0 +1,56 @@
+/*
+ * Do-Not-Contact Service
+ * File: src/Api/Services/DoNotContactService.cs
+ *
+ * Per-moderator list of numbers (E.164) of patients who asked not to receive WhatsApp messages.
+ * MessageQueueService consults it for every session, so POST /messages/send, scheduled sessions
+ * and auto-notify all skip listed patients, whatever the client showed before sending.
+ */
+
+using Clinics.Api.Helpers;
+using Clinics.Domain;
+using Clinics.Infrastructure;
+using Microsoft.EntityFrameworkCore;
+
+namespace Clinics.Api.Services;
+
+public interface IDoNotContactService
+{
+    /// <summary>
+    /// E.164 numbers on the moderator's list.
+    /// </summary>
+    Task<HashSet<string>> GetNumbersAsync(int moderatorId);
+
+    /// <summary>
+    /// Whether the patient's number is in the given list (from GetNumbersAsync).
+    /// </summary>
+    bool IsListed(IReadOnlySet<string> numbers, Patient patient);
+}
+
+public class DoNotContactService : IDoNotContactService
+{
+    private readonly ApplicationDbContext _db;
+
+    public DoNotContactService(ApplicationDbContext db)
+    {
+        _db = db;
+    }
+
+    public async Task<HashSet<string>> GetNumbersAsync(int moderatorId)
+    {
+        var numbers = await _db.DoNotContactEntries
+            .AsNoTracking()
+            .Where(d => d.ModeratorId == moderatorId)
+            .Select(d => d.PhoneNumber)
+            .ToListAsync();
+
+        return numbers.ToHashSet();
+    }
+
+    public bool IsListed(IReadOnlySet<string> numbers, Patient patient)
+    {
+        return numbers.Count > 0 &&
+               !string.IsNullOrWhiteSpace(patient.PhoneNumber) &&
+               numbers.Contains(PhoneNumberHelper.ToE164(patient.PhoneNumber, patient.CountryCode));
+    }
+}
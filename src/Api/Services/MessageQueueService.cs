@@ -0,0 +1,226 @@
+/*
+ * Message Queue Service
+ * File: src/Api/Services/MessageQueueService.cs
+ *
+ * Builds the queued messages of a send session. Shared by every path that queues messages
+ * (POST /messages/send, scheduled sessions, auto-notify) so they pick templates and resolve content the same way:
+ * - Valued conditions (EQUAL, GREATER, LESS, RANGE) first - first match wins; their extra criteria
+ *   (time window, weekday, status, country code, already messaged) must match too (ConditionCriteriaHelper)
+ * - Then the queue's DEFAULT condition, then UNCONDITIONED templates
+ * - Then the template chosen by the sender
+ * Each message records the template version it was rendered from (Message.TemplateVersionId).
+ * Patients on the moderator's do-not-contact list get no message (DoNotContactService).
+ * {LINK} is the patient's public status page (PatientStatusService).
+ */
+
+using Clinics.Api.Helpers;
+using Clinics.Domain;
+using Clinics.Infrastructure;
+using Clinics.Infrastructure.Services;
+using Microsoft.EntityFrameworkCore;
+
+namespace Clinics.Api.Services;
+
+public interface IMessageQueueService
+{
+    /// <summary>
+    /// Create one queued message per patient for the session and add them to the context.
+    /// Patients matching no condition get fallbackTemplate, or are skipped when it is null.
+    /// Patients on the session moderator's do-not-contact list are always skipped.
+    /// The caller owns the transaction, SaveChanges and the processing trigger.
+    /// </summary>
+    Task<List<Message>> AddSessionMessagesAsync(
+        MessageSession session,
+        MessageTemplate? fallbackTemplate,
+        Queue queue,
+        IReadOnlyList<Patient> patients,
+        int senderUserId,
+        string? overrideContent = null);
+
+    /// <summary>
+    /// Load the queue's conditions with their templates, for SelectTemplate.
+    /// </summary>
+    Task<List<MessageCondition>> GetQueueConditionsAsync(int queueId);
+
+    /// <summary>
+    /// Pick the template a patient at the given offset from CQP matches, or null when no condition matches.
+    /// alreadyMessaged is whether the patient has a message in the queue (null if unknown); nowUtc defaults to the current time.
+    /// </summary>
+    MessageTemplate? SelectTemplate(
+        IReadOnlyList<MessageCondition> conditions,
+        Patient patient,
+        int calculatedPosition,
+        bool? alreadyMessaged = null,
+        DateTime? nowUtc = null);
+}
+
+public class MessageQueueService : IMessageQueueService
+{
+    private readonly ApplicationDbContext _db;
+    private readonly IContentVariableResolver _variableResolver;
+    private readonly ITemplateVersionService _templateVersions;
+    private readonly IDoNotContactService _doNotContact;
+    private readonly IPatientStatusService _patientStatus;
+
+    public MessageQueueService(
+        ApplicationDbContext db,
+        IContentVariableResolver variableResolver,
+        ITemplateVersionService templateVersions,
+        IDoNotContactService doNotContact,
+        IPatientStatusService patientStatus)
+    {
+        _db = db;
+        _variableResolver = variableResolver;
+        _templateVersions = templateVersions;
+        _doNotContact = doNotContact;
+        _patientStatus = patientStatus;
+    }
+
+    public async Task<List<Message>> AddSessionMessagesAsync(
+        MessageSession session,
+        MessageTemplate? fallbackTemplate,
+        Queue queue,
+        IReadOnlyList<Patient> patients,
+        int senderUserId,
+        string? overrideContent = null)
+    {
+        var conditions = await GetQueueConditionsAsync(queue.Id);
+        var customVariables = QueueCustomVariablesHelper.Parse(queue.CustomVariables);
+        var nowUtc = DateTime.UtcNow;
+
+        // "Already messaged" criteria need the queue's message history - only loaded when a condition uses it
+        HashSet<int>? messagedPatientIds = null;
+        if (conditions.Any(ConditionCriteriaHelper.UsesAlreadyMessaged))
+        {
+            messagedPatientIds = (await _db.Messages
+                .Where(m => m.QueueId == queue.Id && m.PatientId != null && !m.IsDeleted)
+                .Select(m => m.PatientId!.Value)
+                .Distinct()
+                .ToListAsync())
+                .ToHashSet();
+        }
+
+        var templateIds = conditions.Where(c => c.Template != null).Select(c => c.Template!.Id).ToList();
+        if (fallbackTemplate != null)
+        {
+            templateIds.Add(fallbackTemplate.Id);
+        }
+        var versionIds = await _templateVersions.GetCurrentVersionIdsAsync(templateIds);
+        var doNotContact = await _doNotContact.GetNumbersAsync(session.ModeratorId);
+
+        var messages = new List<Message>();
+
+        foreach (var p in patients)
+        {
+            if (_doNotContact.IsListed(doNotContact, p))
+            {
+                continue;
+            }
+
+            // Calculate CalculatedPosition (offset from CQP)
+            var calculatedPosition = p.Position - queue.CurrentPosition;
+
+            var selectedTemplate = SelectTemplate(
+                conditions, p, calculatedPosition, messagedPatientIds?.Contains(p.Id), nowUtc);
+
+            // Use selected template or fallback to provided template
+            var finalTemplate = selectedTemplate ?? fallbackTemplate;
+            if (finalTemplate == null)
+            {
+                continue;
+            }
+
+            var templateContent = overrideContent ?? finalTemplate.Content;
+
+            // Resolve template variables using centralized service
+            var content = _variableResolver.ResolveVariables(
+                templateContent,
+                p,
+                queue,
+                calculatedPosition,
+                customVariables,
+                _patientStatus.GetStatusLink(p)
+            );
+
+            messages.Add(new Message
+            {
+                PatientId = p.Id,
+                TemplateId = finalTemplate.Id,
+                // Overridden content was not rendered from any saved version
+                TemplateVersionId = overrideContent == null && versionIds.TryGetValue(finalTemplate.Id, out var versionId) ? versionId : null,
+                QueueId = p.QueueId,
+                SenderUserId = senderUserId,
+                ModeratorId = session.ModeratorId,  // Unified session per moderator
+                CountryCode = p.CountryCode ?? "+20",
+                PatientPhone = p.PhoneNumber,
+                Position = p.Position,
+                CalculatedPosition = calculatedPosition,
+                FullName = p.FullName,
+                Content = content,
+                Status = "queued",
+                Attempts = 0,
+                CreatedAt = session.StartTime,
+                SessionId = session.Id.ToString(),  // Link to MessageSession
+                CorrelationId = session.CorrelationId,  // Propagate correlation ID for distributed tracing
+                // No IsPaused flag - hierarchical check in FilterPausedMessagesAsync checks MessageSession.IsPaused
+            });
+        }
+
+        // Keep MessageSession counters consistent with the messages actually created
+        session.TotalMessages = messages.Count;
+        session.OngoingMessages = messages.Count;
+
+        await _db.Messages.AddRangeAsync(messages);
+        return messages;
+    }
+
+    public Task<List<MessageCondition>> GetQueueConditionsAsync(int queueId)
+    {
+        return _db.Set<MessageCondition>()
+            .Where(c => c.QueueId == queueId && !c.IsDeleted)
+            .Include(c => c.Template)
+            .OrderBy(c => c.Id)
+            .ToListAsync();
+    }
+
+    public MessageTemplate? SelectTemplate(
+        IReadOnlyList<MessageCondition> conditions,
+        Patient patient,
+        int calculatedPosition,
+        bool? alreadyMessaged = null,
+        DateTime? nowUtc = null)
+    {
+        var now = nowUtc ?? DateTime.UtcNow;
+
+        // 1. Check valued conditions FIRST (EQUAL, GREATER, LESS, RANGE) - highest priority
+        foreach (var cond in conditions.Where(c => c.Operator == "EQUAL" || c.Operator == "GREATER" ||
+                                                   c.Operator == "LESS" || c.Operator == "RANGE"))
+        {
+            bool matches = cond.Operator switch
+            {
+                "EQUAL" => calculatedPosition == cond.Value,
+                "GREATER" => calculatedPosition > cond.Value,
+                "LESS" => calculatedPosition < cond.Value,
+                "RANGE" => calculatedPosition >= cond.MinValue &&
+                           calculatedPosition <= cond.MaxValue,
+                _ => false
+            };
+
+            if (matches && cond.Template != null &&
+                ConditionCriteriaHelper.Matches(cond, patient, alreadyMessaged, now))
+            {
+                return cond.Template; // First match wins
+            }
+        }
+
+        // 2. Fallback to DEFAULT if no valued condition matched
+        var defaultCondition = conditions.FirstOrDefault(c => c.Operator == "DEFAULT");
+        if (defaultCondition?.Template != null)
+        {
+            return defaultCondition.Template;
+        }
+
+        // 3. Last resort: UNCONDITIONED (least priority - template with no condition)
+        return conditions.FirstOrDefault(c => c.Operator == "UNCONDITIONED")?.Template;
+    }
+}
@@ -0,0 +1,92 @@
+/*
+ * Message Receipt Service
+ * File: src/Api/Services/MessageReceiptService.cs
+ *
+ * Delivered/read receipts of sent messages (see apps/web/utils/messageReceipts.ts):
+ * - The extension runner reads WhatsApp's ticks without opening chats and reports them to
+ *   POST /api/extension/messages/receipts
+ * - Only sent messages of the lease's moderator are updated; Status stays "sent" and the ticks are kept
+ *   as Message.DeliveredAt / Message.ReadAt (read implies delivered). Receipts never move backwards.
+ * Saving once lets the change interceptor broadcast MessageUpdated with the new timestamps.
+ */
+
+using Clinics.Infrastructure;
+using Microsoft.EntityFrameworkCore;
+
+namespace Clinics.Api.Services;
+
+public interface IMessageReceiptService
+{
+    /// <summary>
+    /// Store delivered/read receipts reported for the moderator's sent messages. Saves.
+    /// Returns how many messages changed.
+    /// </summary>
+    Task<int> ApplyReceiptsAsync(int moderatorId, IReadOnlyList<MessageReceipt> receipts);
+}
+
+/// <summary>
+/// One tick report: status is "delivered" or "read" ("sent" and "pending" carry nothing new).
+/// </summary>
+public record MessageReceipt(Guid MessageId, string Status, DateTime? At);
+
+public class MessageReceiptService : IMessageReceiptService
+{
+    public const string Delivered = "delivered";
+    public const string Read = "read";
+
+    private readonly ApplicationDbContext _db;
+
+    public MessageReceiptService(ApplicationDbContext db)
+    {
+        _db = db;
+    }
+
+    public async Task<int> ApplyReceiptsAsync(int moderatorId, IReadOnlyList<MessageReceipt> receipts)
+    {
+        var relevant = receipts.Where(r => r.Status == Delivered || r.Status == Read).ToList();
+        if (relevant.Count == 0)
+            return 0;
+
+        var ids = relevant.Select(r => r.MessageId).Distinct().ToList();
+        var messages = await _db.Messages
+            .Where(m => ids.Contains(m.Id) && m.ModeratorId == moderatorId && m.Status == "sent" && !m.IsDeleted)
+            .ToListAsync();
+
+        var now = DateTime.UtcNow;
+        var changed = 0;
+        foreach (var message in messages)
+        {
+            var changedThis = false;
+            foreach (var receipt in relevant.Where(r => r.MessageId == message.Id))
+            {
+                // Reported times come from the runner's clock: keep them between the send and now
+                var at = receipt.At?.ToUniversalTime() ?? now;
+                if (at > now) at = now;
+                if (message.SentAt.HasValue && at < message.SentAt.Value) at = message.SentAt.Value;
+
+                if (message.DeliveredAt == null)
+                {
+                    message.DeliveredAt = at;
+                    changedThis = true;
+                }
+                if (receipt.Status == Read && message.ReadAt == null)
+                {
+                    message.ReadAt = at;
+                    changedThis = true;
+                }
+            }
+
+            if (changedThis)
+            {
+                message.UpdatedAt = now;
+                changed++;
+            }
+        }
+
+        if (changed > 0)
+        {
+            await _db.SaveChangesAsync();
+        }
+        return changed;
+    }
+}
@@ -9,6 +9,11 @@
  * - If occupied, shifts ALL active patients at position >= targetPosition by +1
  * - No backward shifting; gaps in positions are allowed
  * - All changes occur in a single transaction for atomicity
+ *
+ * Batch reorders (drag-and-drop and its undo, import order) use AssignPositionsAsync instead:
+ * the given positions are absolute - nobody else moves, and a batch that would put two active patients
+ * on one position is rejected. Deleted patients are ignored. The caller owns the transaction and
+ * locks the queue first (IQueueFlowService.LockQueueAsync).
  */
 
 using Clinics.Domain;
@@ -24,8 +29,19 @@ public interface IPatientPositionService
     /// Position less than 1 is coerced to 1 and conflicts are handled.
     /// </summary>
     Task<(bool Success, string ErrorMessage)> UpdatePatientPositionAsync(int patientId, int targetPosition);
+
+    /// <summary>
+    /// Set the positions of several active patients of a queue at once, without shifting anyone. Saves.
+    /// Errors: invalid_position, patient_not_found, position_conflict.
+    /// </summary>
+    Task<(bool Success, string ErrorMessage)> AssignPositionsAsync(int queueId, IReadOnlyList<PatientPositionAssignment> items);
 }
 
+/// <summary>
+/// Absolute target position of one patient in a batch reorder.
+/// </summary>
+public record PatientPositionAssignment(int PatientId, int Position);
+
 public class PatientPositionService : IPatientPositionService
 {
     private readonly ApplicationDbContext _db;
@@ -138,4 +154,47 @@ public class PatientPositionService : IPatientPositionService
             return (false, "error_updating_position");
         }
     }
+
+    public async Task<(bool Success, string ErrorMessage)> AssignPositionsAsync(int queueId, IReadOnlyList<PatientPositionAssignment> items)
+    {
+        if (items.Any(i => i.Position < 1) ||
+            items.Select(i => i.PatientId).Distinct().Count() != items.Count ||
+            items.Select(i => i.Position).Distinct().Count() != items.Count)
+        {
+            return (false, "invalid_position");
+        }
+
+        var patients = await _db.Patients
+            .Where(p => p.QueueId == queueId && !p.IsDeleted)
+            .ToListAsync();
+        var patientMap = patients.ToDictionary(p => p.Id);
+        if (items.Any(i => !patientMap.ContainsKey(i.PatientId)))
+        {
+            return (false, "patient_not_found");
+        }
+
+        // A target position may only be taken by a patient of the batch (who moves away from it)
+        var batchIds = items.Select(i => i.PatientId).ToHashSet();
+        var targets = items.Select(i => i.Position).ToHashSet();
+        if (patients.Any(p => !batchIds.Contains(p.Id) && targets.Contains(p.Position)))
+        {
+            return (false, "position_conflict");
+        }
+
+        var now = DateTime.UtcNow;
+        foreach (var item in items)
+        {
+            var patient = patientMap[item.PatientId];
+            if (patient.Position == item.Position)
+                continue;
+
+            patient.Position = item.Position;
+            patient.UpdatedAt = now;
+        }
+
+        await _db.SaveChangesAsync();
+
+        _logger.LogInformation("Assigned positions of {Count} patients in queue {QueueId}", items.Count, queueId);
+        return (true, "");
+    }
 }
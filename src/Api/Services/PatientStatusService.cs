@@ -0,0 +1,98 @@
+/*
+ * Patient Status Service
+ * File: src/Api/Services/PatientStatusService.cs
+ *
+ * Personal queue status links (see apps/web/utils/queueStatus.ts):
+ * - Every patient has a status token (Patient.StatusToken); the link is {PublicAppUrl}/status/{token}
+ *   and fills the {LINK} placeholder of messages rendered on the server
+ * - PublicAppUrl is the web app's public origin; when it is not configured the first AllowedOrigins entry is used
+ * - The anonymous status page shows only the patient's own place in the queue (PublicQueueStatusDto);
+ *   live updates come from PublicStatusHub, whose groups are per queue
+ */
+
+using Clinics.Api.DTOs;
+using Clinics.Domain;
+using Clinics.Infrastructure;
+using Microsoft.EntityFrameworkCore;
+
+namespace Clinics.Api.Services;
+
+public interface IPatientStatusService
+{
+    /// <summary>
+    /// Public status page URL of the patient, or null when the patient has no token or no public URL is configured.
+    /// </summary>
+    string? GetStatusLink(Patient patient);
+
+    /// <summary>
+    /// Queue status behind a status token. Null for unknown tokens and deleted patients or queues.
+    /// </summary>
+    Task<PublicQueueStatusDto?> GetStatusAsync(string token);
+
+    /// <summary>
+    /// Queue of an active patient's status token (the PublicStatusHub group), or null.
+    /// </summary>
+    Task<int?> GetQueueIdAsync(string token);
+}
+
+public class PatientStatusService : IPatientStatusService
+{
+    private readonly ApplicationDbContext _db;
+    private readonly string? _publicAppUrl;
+
+    public PatientStatusService(ApplicationDbContext db, IConfiguration configuration)
+    {
+        _db = db;
+        _publicAppUrl = (configuration["PublicAppUrl"] is { Length: > 0 } url
+                ? url
+                : (configuration["AllowedOrigins"] ?? "")
+                    .Split(new[] { ';', ',' }, StringSplitOptions.RemoveEmptyEntries)
+                    .Select(o => o.Trim())
+                    .FirstOrDefault())
+            ?.TrimEnd('/');
+    }
+
+    /// <summary>
+    /// Name of the PublicStatusHub group that receives a queue's updates.
+    /// </summary>
+    public static string GroupName(int queueId) => $"public-queue-{queueId}";
+
+    public string? GetStatusLink(Patient patient)
+    {
+        if (string.IsNullOrEmpty(patient.StatusToken) || string.IsNullOrEmpty(_publicAppUrl))
+            return null;
+
+        return $"{_publicAppUrl}/status/{Uri.EscapeDataString(patient.StatusToken)}";
+    }
+
+    public async Task<PublicQueueStatusDto?> GetStatusAsync(string token)
+    {
+        var row = await _db.Patients
+            .AsNoTracking()
+            .Where(p => p.StatusToken == token && !p.IsDeleted && p.Queue != null && !p.Queue.IsDeleted)
+            .Select(p => new { Patient = p, Queue = p.Queue! })
+            .FirstOrDefaultAsync();
+        if (row == null)
+            return null;
+
+        var updatedAt = new[] { row.Patient.UpdatedAt, row.Queue.UpdatedAt, (DateTime?)row.Patient.CreatedAt }.Max()!.Value;
+        return new PublicQueueStatusDto
+        {
+            DoctorName = row.Queue.DoctorName,
+            CurrentPosition = row.Queue.CurrentPosition,
+            EstimatedWaitMinutes = row.Queue.EstimatedWaitMinutes,
+            PatientFirstName = row.Patient.FullName.Split(' ', StringSplitOptions.RemoveEmptyEntries).FirstOrDefault(),
+            PatientPosition = row.Patient.Position,
+            PatientStatus = string.IsNullOrEmpty(row.Patient.Status) ? QueueFlowService.Waiting : row.Patient.Status,
+            UpdatedAt = updatedAt
+        };
+    }
+
+    public Task<int?> GetQueueIdAsync(string token)
+    {
+        return _db.Patients
+            .Where(p => p.StatusToken == token && !p.IsDeleted)
+            .Select(p => (int?)p.QueueId)
+            .FirstOrDefaultAsync();
+    }
+}
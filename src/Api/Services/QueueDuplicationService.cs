@@ -0,0 +1,147 @@
+/*
+ * Queue Duplication Service
+ * File: src/Api/Services/QueueDuplicationService.cs
+ *
+ * Copies a queue's configuration into a new queue (POST /api/queues/{id}/duplicate):
+ * - Estimated wait, auto-notify settings and custom variables
+ * - Every active template with its condition (operator, values and criteria, so DEFAULT/UNCONDITIONED roles are kept)
+ * - Optionally the patients, with their positions and statuses reset to waiting
+ * Library links are kept only when the target moderator can use the library template.
+ * Quota checks and the transaction are owned by the caller.
+ */
+
+using Clinics.Domain;
+using Clinics.Infrastructure;
+using Microsoft.EntityFrameworkCore;
+
+namespace Clinics.Api.Services;
+
+public interface IQueueDuplicationService
+{
+    /// <summary>
+    /// Create the copy of the source queue for the target moderator. Saves.
+    /// </summary>
+    Task<QueueDuplicationResult> DuplicateAsync(Queue source, string doctorName, int moderatorId, bool includePatients, int userId);
+}
+
+public record QueueDuplicationResult(Queue Queue, int TemplatesCopied, int ConditionsCopied, int PatientsCopied);
+
+public class QueueDuplicationService : IQueueDuplicationService
+{
+    private readonly ApplicationDbContext _db;
+    private readonly ITemplateVersionService _templateVersions;
+
+    public QueueDuplicationService(ApplicationDbContext db, ITemplateVersionService templateVersions)
+    {
+        _db = db;
+        _templateVersions = templateVersions;
+    }
+
+    public async Task<QueueDuplicationResult> DuplicateAsync(Queue source, string doctorName, int moderatorId, bool includePatients, int userId)
+    {
+        var now = DateTime.UtcNow;
+
+        var queue = new Queue
+        {
+            DoctorName = doctorName,
+            CreatedBy = userId,
+            ModeratorId = moderatorId,
+            CurrentPosition = 1,
+            EstimatedWaitMinutes = source.EstimatedWaitMinutes,
+            AutoNotifyEnabled = source.AutoNotifyEnabled,
+            AutoNotifyDedupMinutes = source.AutoNotifyDedupMinutes,
+            CustomVariables = source.CustomVariables
+        };
+        _db.Queues.Add(queue);
+        await _db.SaveChangesAsync();
+
+        var templates = await _db.MessageTemplates
+            .AsNoTracking()
+            .Include(t => t.Condition)
+            .Include(t => t.LibraryTemplate)
+            .Where(t => t.QueueId == source.Id && !t.IsDeleted)
+            .OrderBy(t => t.Id)
+            .ToListAsync();
+
+        var conditionsCopied = 0;
+        foreach (var sourceTemplate in templates)
+        {
+            var sourceCondition = sourceTemplate.Condition;
+            var condition = new MessageCondition
+            {
+                TemplateId = null,
+                QueueId = queue.Id,
+                Operator = sourceCondition?.Operator ?? "UNCONDITIONED",
+                Value = sourceCondition?.Value,
+                MinValue = sourceCondition?.MinValue,
+                MaxValue = sourceCondition?.MaxValue,
+                Criteria = sourceCondition?.Criteria,
+                CriteriaLogic = sourceCondition?.CriteriaLogic,
+                CreatedBy = userId,
+                UpdatedBy = userId,
+                CreatedAt = now,
+                UpdatedAt = now
+            };
+            _db.Set<MessageCondition>().Add(condition);
+            await _db.SaveChangesAsync();
+            if (sourceCondition != null)
+            {
+                conditionsCopied++;
+            }
+
+            var library = sourceTemplate.LibraryTemplate;
+            var keepLibraryLink = library != null && (library.Scope == "system" || library.ModeratorId == moderatorId);
+
+            var template = new MessageTemplate
+            {
+                Title = sourceTemplate.Title,
+                Content = sourceTemplate.Content,
+                CreatedBy = userId,
+                UpdatedBy = userId,
+                ModeratorId = moderatorId,
+                QueueId = queue.Id,
+                MessageConditionId = condition.Id,
+                LibraryTemplateId = keepLibraryLink ? library!.Id : null,
+                IsLibraryOverride = keepLibraryLink && sourceTemplate.IsLibraryOverride,
+                CreatedAt = now,
+                UpdatedAt = now
+            };
+            _db.MessageTemplates.Add(template);
+            await _db.SaveChangesAsync();
+
+            condition.TemplateId = template.Id;
+            _templateVersions.AddVersion(template, condition, userId, isInitial: true);
+        }
+
+        var patientsCopied = 0;
+        if (includePatients)
+        {
+            var patients = await _db.Patients
+                .AsNoTracking()
+                .Where(p => p.QueueId == source.Id && !p.IsDeleted)
+                .OrderBy(p => p.Position)
+                .ToListAsync();
+
+            foreach (var patient in patients)
+            {
+                _db.Patients.Add(new Patient
+                {
+                    QueueId = queue.Id,
+                    FullName = patient.FullName,
+                    PhoneNumber = patient.PhoneNumber,
+                    CountryCode = patient.CountryCode,
+                    IsValidWhatsAppNumber = patient.IsValidWhatsAppNumber,
+                    Position = patient.Position,
+                    Status = "waiting",
+                    CreatedAt = now,
+                    CreatedBy = userId
+                });
+            }
+            patientsCopied = patients.Count;
+        }
+
+        await _db.SaveChangesAsync();
+
+        return new QueueDuplicationResult(queue, templates.Count, conditionsCopied, patientsCopied);
+    }
+}
@@ -0,0 +1,186 @@
+/*
+ * Queue Flow Service
+ * File: src/Api/Services/QueueFlowService.cs
+ *
+ * Patient status workflow of a queue (see apps/web/utils/queueFlow.ts):
+ * - Call next: the patient in service is completed, the first waiting patient after CurrentPosition
+ *   (the lowest waiting one when nobody waits after it) goes in_service and CurrentPosition moves to their position
+ * - Patients without a status are waiting (same rule as the dashboard)
+ * - No-show: a waiting or in-service patient is cancelled; CurrentPosition is kept
+ * - Skip: a waiting or in-service patient goes back to waiting at the end of the queue
+ * Each action is saved once, so the change interceptor broadcasts PatientUpdated/QueueUpdated together.
+ * The caller owns the transaction and locks the queue first (LockQueueAsync).
+ */
+
+using Clinics.Api.DTOs;
+using Clinics.Api.Helpers;
+using Clinics.Domain;
+using Clinics.Infrastructure;
+using Microsoft.EntityFrameworkCore;
+
+namespace Clinics.Api.Services;
+
+public interface IQueueFlowService
+{
+    /// <summary>
+    /// Load a queue and lock its row until the transaction ends, so flow actions on one queue run one at a time
+    /// and each sees the position left by the previous one. Null when the queue does not exist or is deleted.
+    /// </summary>
+    Task<Queue?> LockQueueAsync(int queueId);
+
+    /// <summary>
+    /// Complete the patient in service and call the next waiting one. Saves.
+    /// </summary>
+    Task<QueueFlowResult> CallNextAsync(Queue queue, int userId);
+
+    /// <summary>
+    /// Mark a waiting or in-service patient as a no-show (cancelled). Saves.
+    /// </summary>
+    Task<QueueFlowResult> MarkNoShowAsync(Queue queue, Patient patient, int userId);
+
+    /// <summary>
+    /// Send a waiting or in-service patient back to waiting at the end of the queue. Saves.
+    /// </summary>
+    Task<QueueFlowResult> SkipAsync(Queue queue, Patient patient, int userId);
+
+    /// <summary>
+    /// Whether no-show and skip apply to the status (waiting or in service).
+    /// </summary>
+    bool CanChangeStatus(string? status);
+}
+
+/// <summary>
+/// The queue after the action and every patient whose status or position changed.
+/// </summary>
+public record QueueFlowResult(Queue Queue, List<Patient> Patients)
+{
+    public QueueFlowResultDto ToDto(int patientCount) => new()
+    {
+        Queue = new QueueDto
+        {
+            Id = Queue.Id,
+            DoctorName = Queue.DoctorName,
+            CreatedBy = Queue.CreatedBy,
+            ModeratorId = Queue.ModeratorId,
+            CurrentPosition = Queue.CurrentPosition,
+            EstimatedWaitMinutes = Queue.EstimatedWaitMinutes,
+            AutoNotifyEnabled = Queue.AutoNotifyEnabled,
+            AutoNotifyDedupMinutes = Queue.AutoNotifyDedupMinutes,
+            CustomVariables = QueueCustomVariablesHelper.Parse(Queue.CustomVariables),
+            PatientCount = patientCount
+        },
+        Patients = Patients.Select(p => new PatientDto
+        {
+            Id = p.Id,
+            FullName = p.FullName,
+            PhoneNumber = p.PhoneNumber,
+            CountryCode = p.CountryCode,
+            IsValidWhatsAppNumber = p.IsValidWhatsAppNumber,
+            Position = p.Position,
+            Status = p.Status,
+            StatusToken = p.StatusToken,
+            CreatedAt = p.CreatedAt,
+            UpdatedAt = p.UpdatedAt,
+            CreatedBy = p.CreatedBy,
+            UpdatedBy = p.UpdatedBy
+        }).ToList()
+    };
+}
+
+public class QueueFlowService : IQueueFlowService
+{
+    public const string Waiting = "waiting";
+    public const string InService = "in_service";
+    public const string Completed = "completed";
+    public const string Cancelled = "cancelled";
+
+    private readonly ApplicationDbContext _db;
+
+    public QueueFlowService(ApplicationDbContext db)
+    {
+        _db = db;
+    }
+
+    public async Task<Queue?> LockQueueAsync(int queueId)
+    {
+        var queues = _db.IsPostgreSql
+            ? await _db.Queues.FromSqlInterpolated($"SELECT * FROM \"Queues\" WHERE \"Id\" = {queueId} FOR UPDATE").ToListAsync()
+            : await _db.Queues.FromSqlInterpolated($"SELECT * FROM [Queues] WITH (UPDLOCK, ROWLOCK) WHERE [Id] = {queueId}").ToListAsync();
+
+        return queues.FirstOrDefault(q => !q.IsDeleted);
+    }
+
+    public async Task<QueueFlowResult> CallNextAsync(Queue queue, int userId)
+    {
+        var now = DateTime.UtcNow;
+        var patients = await _db.Patients
+            .Where(p => p.QueueId == queue.Id && !p.IsDeleted
+                && (p.Status == null || p.Status == "" || p.Status == InService || p.Status == Waiting))
+            .OrderBy(p => p.Position)
+            .ToListAsync();
+
+        var changed = new List<Patient>();
+        foreach (var current in patients.Where(p => p.Status == InService))
+        {
+            SetStatus(current, Completed, userId, now);
+            changed.Add(current);
+        }
+
+        // Patients before CurrentPosition were already called; go back to them only when nobody waits after it
+        var waiting = patients.Where(p => IsWaiting(p.Status)).ToList();
+        var next = waiting.FirstOrDefault(p => p.Position > queue.CurrentPosition) ?? waiting.FirstOrDefault();
+        if (next != null)
+        {
+            SetStatus(next, InService, userId, now);
+            changed.Add(next);
+
+            queue.CurrentPosition = next.Position;
+            queue.UpdatedAt = now;
+            queue.UpdatedBy = userId;
+        }
+
+        await _db.SaveChangesAsync();
+        return new QueueFlowResult(queue, changed);
+    }
+
+    public async Task<QueueFlowResult> MarkNoShowAsync(Queue queue, Patient patient, int userId)
+    {
+        SetStatus(patient, Cancelled, userId, DateTime.UtcNow);
+
+        await _db.SaveChangesAsync();
+        return new QueueFlowResult(queue, new List<Patient> { patient });
+    }
+
+    public async Task<QueueFlowResult> SkipAsync(Queue queue, Patient patient, int userId)
+    {
+        var lastPosition = await _db.Patients
+            .Where(p => p.QueueId == queue.Id && !p.IsDeleted)
+            .MaxAsync(p => (int?)p.Position) ?? 0;
+
+        if (patient.Position < lastPosition)
+        {
+            patient.Position = lastPosition + 1;
+        }
+        SetStatus(patient, Waiting, userId, DateTime.UtcNow);
+
+        await _db.SaveChangesAsync();
+        return new QueueFlowResult(queue, new List<Patient> { patient });
+    }
+
+    public bool CanChangeStatus(string? status)
+    {
+        return IsWaiting(status) || status == InService;
+    }
+
+    private static bool IsWaiting(string? status)
+    {
+        return string.IsNullOrEmpty(status) || status == Waiting;
+    }
+
+    private static void SetStatus(Patient patient, string status, int userId, DateTime now)
+    {
+        patient.Status = status;
+        patient.UpdatedAt = now;
+        patient.UpdatedBy = userId;
+    }
+}
@@ -0,0 +1,202 @@
+/*
+ * Scheduled Session Service
+ * File: src/Api/Services/ScheduledSessionService.cs
+ *
+ * Fires scheduled sessions (MessageSession with SessionType = "scheduled"):
+ * - Quota is re-checked at fire time with the same rule as POST /messages/send
+ * - Not enough quota: the session stays scheduled with Status = "quota_blocked" until quota is added
+ *   (the recurring job retries it) or it is rescheduled/cancelled
+ * - Otherwise its messages are built from the current queue state and the session becomes a normal send session
+ */
+
+using System.Text.Json;
+using Clinics.Domain;
+using Clinics.Infrastructure;
+using Hangfire;
+using Microsoft.EntityFrameworkCore;
+
+namespace Clinics.Api.Services;
+
+public interface IScheduledSessionService
+{
+    /// <summary>
+    /// Queue the messages of a scheduled session now.
+    /// ErrorCode: "not_found", "quota_exceeded", "cancelled" (template/queue/recipients no longer exist) or "conflict".
+    /// </summary>
+    Task<(bool Success, int Queued, string? ErrorCode)> FireAsync(Guid sessionId);
+
+    /// <summary>
+    /// Fire every scheduled (or quota-blocked) session whose ScheduledAt has passed.
+    /// </summary>
+    Task<int> FireDueSessionsAsync();
+
+    /// <summary>
+    /// Parse the stored recipient list of a scheduled session.
+    /// </summary>
+    List<int> GetPatientIds(MessageSession session);
+}
+
+public class ScheduledSessionService : IScheduledSessionService
+{
+    public const string StatusScheduled = "scheduled";
+    public const string StatusQuotaBlocked = "quota_blocked";
+
+    private readonly ApplicationDbContext _db;
+    private readonly QuotaService _quotaService;
+    private readonly IMessageQueueService _messageQueueService;
+    private readonly IBackgroundJobClient _backgroundJobs;
+    private readonly ILogger<ScheduledSessionService> _logger;
+
+    public ScheduledSessionService(
+        ApplicationDbContext db,
+        QuotaService quotaService,
+        IMessageQueueService messageQueueService,
+        IBackgroundJobClient backgroundJobs,
+        ILogger<ScheduledSessionService> logger)
+    {
+        _db = db;
+        _quotaService = quotaService;
+        _messageQueueService = messageQueueService;
+        _backgroundJobs = backgroundJobs;
+        _logger = logger;
+    }
+
+    public List<int> GetPatientIds(MessageSession session)
+    {
+        if (string.IsNullOrWhiteSpace(session.ScheduledPatientIds))
+        {
+            return new List<int>();
+        }
+
+        try
+        {
+            return JsonSerializer.Deserialize<List<int>>(session.ScheduledPatientIds) ?? new List<int>();
+        }
+        catch (JsonException ex)
+        {
+            _logger.LogError(ex, "Invalid recipient list on scheduled session {SessionId}", session.Id);
+            return new List<int>();
+        }
+    }
+
+    public async Task<int> FireDueSessionsAsync()
+    {
+        var now = DateTime.UtcNow;
+        var dueSessionIds = await _db.MessageSessions
+            .Where(s => !s.IsDeleted
+                && s.SessionType == MessageSessionTypes.Scheduled
+                && (s.Status == StatusScheduled || s.Status == StatusQuotaBlocked)
+                && s.ScheduledAt <= now)
+            .OrderBy(s => s.ScheduledAt)
+            .Select(s => s.Id)
+            .ToListAsync();
+
+        var fired = 0;
+        foreach (var sessionId in dueSessionIds)
+        {
+            var (success, _, _) = await FireAsync(sessionId);
+            if (success)
+            {
+                fired++;
+            }
+        }
+
+        return fired;
+    }
+
+    public async Task<(bool Success, int Queued, string? ErrorCode)> FireAsync(Guid sessionId)
+    {
+        // Fresh state: the job and "send now" may race for the same session
+        _db.ChangeTracker.Clear();
+
+        var session = await _db.MessageSessions
+            .FirstOrDefaultAsync(s => s.Id == sessionId
+                && !s.IsDeleted
+                && s.SessionType == MessageSessionTypes.Scheduled);
+        if (session == null)
+        {
+            return (false, 0, "not_found");
+        }
+
+        var patientIds = GetPatientIds(session);
+
+        // Quota re-check at fire time (same rule as POST /messages/send)
+        var hasQuota = await _quotaService.HasMessagesQuotaAsync(session.UserId, patientIds.Count);
+        if (!hasQuota)
+        {
+            if (session.Status != StatusQuotaBlocked)
+            {
+                session.Status = StatusQuotaBlocked;
+                session.BlockedReason = "حصة الرسائل غير كافية لإرسال هذه الجلسة. يرجى زيادة الحصة أو إعادة الجدولة.";
+                session.LastUpdated = DateTime.UtcNow;
+                await _db.SaveChangesAsync();
+
+                _logger.LogWarning(
+                    "Scheduled session {SessionId} blocked: insufficient quota for {Count} messages (moderator {ModeratorId})",
+                    session.Id, patientIds.Count, session.ModeratorId);
+            }
+            return (false, 0, "quota_exceeded");
+        }
+
+        var template = await _db.MessageTemplates
+            .FirstOrDefaultAsync(t => t.Id == session.TemplateId && !t.IsDeleted);
+        var queue = await _db.Queues
+            .FirstOrDefaultAsync(q => q.Id == session.QueueId && !q.IsDeleted);
+
+        // Recipients removed or unvalidated since scheduling are skipped, like a manual send would reject them
+        var patients = await _db.Patients
+            .Where(p => patientIds.Contains(p.Id) && !p.IsDeleted && p.IsValidWhatsAppNumber == true)
+            .OrderBy(p => p.Position)
+            .ToListAsync();
+
+        if (template == null || queue == null || patients.Count == 0)
+        {
+            session.Status = "cancelled";
+            session.IsDeleted = true;
+            session.DeletedAt = DateTime.UtcNow;
+            session.LastUpdated = DateTime.UtcNow;
+            await _db.SaveChangesAsync();
+
+            _logger.LogWarning(
+                "Scheduled session {SessionId} cancelled at fire time: template found={HasTemplate}, queue found={HasQueue}, recipients={Count}",
+                session.Id, template != null, queue != null, patients.Count);
+            return (false, 0, "cancelled");
+        }
+
+        await using var transaction = await _db.Database.BeginTransactionAsync();
+        try
+        {
+            var fireTimestamp = DateTime.UtcNow;
+
+            // The session keeps its ID and becomes a normal send session (Ongoing tasks)
+            session.SessionType = MessageSessionTypes.Send;
+            session.Status = "active";
+            session.BlockedReason = null;
+            session.StartTime = fireTimestamp;
+            session.LastUpdated = fireTimestamp;
+
+            var messages = await _messageQueueService.AddSessionMessagesAsync(
+                session, template, queue, patients, session.UserId);
+
+            await _db.SaveChangesAsync();
+            await transaction.CommitAsync();
+
+            _backgroundJobs.Enqueue<ProcessQueuedMessagesJob>(
+                job => job.ExecuteForModeratorAsync(session.ModeratorId));
+
+            _logger.LogInformation(
+                "Scheduled session {SessionId} fired: queued {Count} messages for moderator {ModeratorId}. CorrelationId: {CorrelationId}",
+                session.Id, messages.Count, session.ModeratorId, session.CorrelationId);
+
+            return (true, messages.Count, null);
+        }
+        catch (DbUpdateConcurrencyException)
+        {
+            // Edited, cancelled or fired by someone else meanwhile
+            await transaction.RollbackAsync();
+            _logger.LogInformation("Scheduled session {SessionId} changed while firing; skipped", sessionId);
+            return (false, 0, "conflict");
+        }
+    }
+
+}
@@ -0,0 +1,39 @@
+using Hangfire;
+
+namespace Clinics.Api.Services;
+
+/// <summary>
+/// Recurring job that fires scheduled sessions whose time has come.
+/// Quota is re-checked for each session when it fires (see ScheduledSessionService).
+/// Runs every minute; quota-blocked sessions are retried on each run until quota allows them.
+/// </summary>
+public class ScheduledSessionsJob
+{
+    private readonly IScheduledSessionService _scheduledSessions;
+    private readonly ILogger<ScheduledSessionsJob> _logger;
+
+    public ScheduledSessionsJob(IScheduledSessionService scheduledSessions, ILogger<ScheduledSessionsJob> logger)
+    {
+        _scheduledSessions = scheduledSessions;
+        _logger = logger;
+    }
+
+    [DisableConcurrentExecution(timeoutInSeconds: 120)]
+    [AutomaticRetry(Attempts = 0)]
+    public async Task ExecuteAsync()
+    {
+        try
+        {
+            var fired = await _scheduledSessions.FireDueSessionsAsync();
+            if (fired > 0)
+            {
+                _logger.LogInformation("Fired {Count} scheduled sessions", fired);
+            }
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Scheduled sessions run failed");
+            throw;
+        }
+    }
+}
@@ -0,0 +1,155 @@
+/*
+ * Template Library Service
+ * File: src/Api/Services/TemplateLibraryService.cs
+ *
+ * Shared templates (LibraryTemplate) used across queues:
+ * - Copy: the queue gets an independent template; later library edits don't apply
+ * - Link: the queue template records LibraryTemplateId and follows library edits
+ *   until it is edited for that queue (MessageTemplate.IsLibraryOverride)
+ * - Library edits are applied to following templates as new template versions
+ * - Deleting a library template unlinks its queue templates, which keep their current text
+ * Templates added from the library start UNCONDITIONED; the queue sets its own condition.
+ */
+
+using Clinics.Domain;
+using Clinics.Infrastructure;
+using Microsoft.EntityFrameworkCore;
+
+namespace Clinics.Api.Services;
+
+public interface ITemplateLibraryService
+{
+    /// <summary>
+    /// Add a library template to a queue as a copy or a linked template, with its condition and first version.
+    /// Saves; the caller owns the transaction.
+    /// </summary>
+    Task<MessageTemplate> AddToQueueAsync(LibraryTemplate libraryTemplate, Queue queue, bool link, int userId);
+
+    /// <summary>
+    /// Apply the library template's title and content to linked templates without an override.
+    /// Returns the number of templates updated. The caller saves.
+    /// </summary>
+    Task<int> PropagateAsync(LibraryTemplate libraryTemplate, int userId);
+
+    /// <summary>
+    /// Detach all queue templates from a library template before it is deleted. The caller saves.
+    /// </summary>
+    Task UnlinkAllAsync(int libraryTemplateId);
+
+    /// <summary>
+    /// Number of linked templates that still follow each library template.
+    /// </summary>
+    Task<Dictionary<int, int>> GetLinkedCountsAsync(IEnumerable<int> libraryTemplateIds);
+}
+
+public class TemplateLibraryService : ITemplateLibraryService
+{
+    private readonly ApplicationDbContext _db;
+    private readonly ITemplateVersionService _templateVersions;
+
+    public TemplateLibraryService(ApplicationDbContext db, ITemplateVersionService templateVersions)
+    {
+        _db = db;
+        _templateVersions = templateVersions;
+    }
+
+    public async Task<MessageTemplate> AddToQueueAsync(LibraryTemplate libraryTemplate, Queue queue, bool link, int userId)
+    {
+        var now = DateTime.UtcNow;
+
+        // Same order as TemplatesController.Create: condition, template, then the condition's TemplateId
+        var condition = new MessageCondition
+        {
+            TemplateId = null,
+            QueueId = queue.Id,
+            Operator = "UNCONDITIONED",
+            CreatedBy = userId,
+            UpdatedBy = userId,
+            CreatedAt = now,
+            UpdatedAt = now
+        };
+        _db.Set<MessageCondition>().Add(condition);
+        await _db.SaveChangesAsync();
+
+        var template = new MessageTemplate
+        {
+            Title = libraryTemplate.Title,
+            Content = libraryTemplate.Content,
+            CreatedBy = userId,
+            UpdatedBy = userId,
+            ModeratorId = queue.ModeratorId,
+            QueueId = queue.Id,
+            MessageConditionId = condition.Id,
+            LibraryTemplateId = link ? libraryTemplate.Id : null,
+            IsLibraryOverride = false,
+            CreatedAt = now,
+            UpdatedAt = now
+        };
+        _db.MessageTemplates.Add(template);
+        await _db.SaveChangesAsync();
+
+        condition.TemplateId = template.Id;
+        _templateVersions.AddVersion(template, condition, userId, isInitial: true);
+        await _db.SaveChangesAsync();
+
+        return template;
+    }
+
+    public async Task<int> PropagateAsync(LibraryTemplate libraryTemplate, int userId)
+    {
+        var linked = await _db.MessageTemplates
+            .Include(t => t.Condition)
+            .Where(t => t.LibraryTemplateId == libraryTemplate.Id && !t.IsLibraryOverride && !t.IsDeleted)
+            .ToListAsync();
+
+        var now = DateTime.UtcNow;
+        var updated = 0;
+
+        foreach (var template in linked)
+        {
+            if (template.Title == libraryTemplate.Title && template.Content == libraryTemplate.Content)
+            {
+                continue;
+            }
+
+            template.Title = libraryTemplate.Title;
+            template.Content = libraryTemplate.Content;
+            template.UpdatedAt = now;
+            template.UpdatedBy = userId;
+            _templateVersions.AddVersion(template, template.Condition, userId);
+            updated++;
+        }
+
+        return updated;
+    }
+
+    public async Task UnlinkAllAsync(int libraryTemplateId)
+    {
+        // Includes soft-deleted templates so a restored template doesn't point at a missing library entry
+        var linked = await _db.MessageTemplates
+            .IgnoreQueryFilters()
+            .Where(t => t.LibraryTemplateId == libraryTemplateId)
+            .ToListAsync();
+
+        foreach (var template in linked)
+        {
+            template.LibraryTemplateId = null;
+            template.IsLibraryOverride = false;
+        }
+    }
+
+    public async Task<Dictionary<int, int>> GetLinkedCountsAsync(IEnumerable<int> libraryTemplateIds)
+    {
+        var ids = libraryTemplateIds.Distinct().ToList();
+        if (ids.Count == 0)
+        {
+            return new Dictionary<int, int>();
+        }
+
+        return await _db.MessageTemplates
+            .Where(t => t.LibraryTemplateId != null && ids.Contains(t.LibraryTemplateId.Value) && !t.IsLibraryOverride && !t.IsDeleted)
+            .GroupBy(t => t.LibraryTemplateId!.Value)
+            .Select(g => new { LibraryTemplateId = g.Key, Count = g.Count() })
+            .ToDictionaryAsync(x => x.LibraryTemplateId, x => x.Count);
+    }
+}
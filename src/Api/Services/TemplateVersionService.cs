@@ -0,0 +1,155 @@
+/*
+ * Template Version Service
+ * File: src/Api/Services/TemplateVersionService.cs
+ *
+ * Template history (MessageTemplateVersion):
+ * - A version is saved when a template is created, on every edit that changes its title, content or condition,
+ *   and on restore (restoring saves the old state again as the newest version, so it can be undone)
+ * - Condition-only changes made outside the template editor are captured by the next template save
+ * - Queued messages record the current version of their template (Message.TemplateVersionId)
+ */
+
+using Clinics.Api.DTOs;
+using Clinics.Api.Helpers;
+using Clinics.Domain;
+using Clinics.Infrastructure;
+using Microsoft.EntityFrameworkCore;
+
+namespace Clinics.Api.Services;
+
+public interface ITemplateVersionService
+{
+    /// <summary>
+    /// Add a version with the template's current title, content and condition to the context.
+    /// Increments template.VersionNumber unless isInitial. The caller saves.
+    /// </summary>
+    MessageTemplateVersion AddVersion(MessageTemplate template, MessageCondition? condition, int? userId, bool isInitial = false);
+
+    /// <summary>
+    /// Whether the template's title, content or condition differ from its latest saved version.
+    /// </summary>
+    Task<bool> HasChangedAsync(MessageTemplate template, MessageCondition? condition);
+
+    /// <summary>
+    /// A template's versions, newest first.
+    /// </summary>
+    Task<List<TemplateVersionDto>> GetVersionsAsync(MessageTemplate template);
+
+    /// <summary>
+    /// Latest version ID per template, for recording on queued messages.
+    /// </summary>
+    Task<Dictionary<int, int>> GetCurrentVersionIdsAsync(IEnumerable<int> templateIds);
+}
+
+public class TemplateVersionService : ITemplateVersionService
+{
+    private readonly ApplicationDbContext _db;
+
+    public TemplateVersionService(ApplicationDbContext db)
+    {
+        _db = db;
+    }
+
+    public MessageTemplateVersion AddVersion(MessageTemplate template, MessageCondition? condition, int? userId, bool isInitial = false)
+    {
+        if (!isInitial)
+        {
+            template.VersionNumber++;
+        }
+
+        var version = new MessageTemplateVersion
+        {
+            Template = template,
+            VersionNumber = template.VersionNumber,
+            Title = template.Title,
+            Content = template.Content,
+            ConditionOperator = condition?.Operator ?? "UNCONDITIONED",
+            ConditionValue = condition?.Value,
+            ConditionMinValue = condition?.MinValue,
+            ConditionMaxValue = condition?.MaxValue,
+            ConditionCriteria = condition?.Criteria,
+            ConditionCriteriaLogic = condition?.CriteriaLogic,
+            CreatedAt = DateTime.UtcNow,
+            CreatedBy = userId
+        };
+
+        _db.MessageTemplateVersions.Add(version);
+        return version;
+    }
+
+    public async Task<bool> HasChangedAsync(MessageTemplate template, MessageCondition? condition)
+    {
+        var latest = await _db.MessageTemplateVersions
+            .AsNoTracking()
+            .Where(v => v.TemplateId == template.Id)
+            .OrderByDescending(v => v.VersionNumber)
+            .FirstOrDefaultAsync();
+
+        if (latest == null)
+        {
+            return true;
+        }
+
+        return latest.Title != template.Title ||
+               latest.Content != template.Content ||
+               latest.ConditionOperator != (condition?.Operator ?? "UNCONDITIONED") ||
+               latest.ConditionValue != condition?.Value ||
+               latest.ConditionMinValue != condition?.MinValue ||
+               latest.ConditionMaxValue != condition?.MaxValue ||
+               latest.ConditionCriteria != condition?.Criteria ||
+               latest.ConditionCriteriaLogic != condition?.CriteriaLogic;
+    }
+
+    public async Task<List<TemplateVersionDto>> GetVersionsAsync(MessageTemplate template)
+    {
+        var versions = await _db.MessageTemplateVersions
+            .AsNoTracking()
+            .Where(v => v.TemplateId == template.Id)
+            .OrderByDescending(v => v.VersionNumber)
+            .ToListAsync();
+
+        var authorIds = versions.Where(v => v.CreatedBy.HasValue).Select(v => v.CreatedBy!.Value).Distinct().ToList();
+        var authorNames = await _db.Users
+            .AsNoTracking()
+            .Where(u => authorIds.Contains(u.Id))
+            .ToDictionaryAsync(u => u.Id, u => string.IsNullOrWhiteSpace(u.FirstName) ? u.Username : $"{u.FirstName} {u.LastName}".Trim());
+
+        return versions.Select(v => new TemplateVersionDto
+        {
+            Id = v.Id,
+            TemplateId = v.TemplateId,
+            VersionNumber = v.VersionNumber,
+            Title = v.Title,
+            Content = v.Content,
+            Condition = new TemplateVersionConditionDto
+            {
+                Operator = v.ConditionOperator,
+                Value = v.ConditionValue,
+                MinValue = v.ConditionMinValue,
+                MaxValue = v.ConditionMaxValue,
+                Criteria = ConditionCriteriaHelper.Parse(v.ConditionCriteria),
+                CriteriaLogic = v.ConditionCriteriaLogic
+            },
+            CreatedAt = v.CreatedAt,
+            UpdatedBy = v.CreatedBy,
+            UpdatedByName = v.CreatedBy.HasValue && authorNames.TryGetValue(v.CreatedBy.Value, out var name) ? name : null,
+            IsCurrent = v.VersionNumber == template.VersionNumber
+        }).ToList();
+    }
+
+    public async Task<Dictionary<int, int>> GetCurrentVersionIdsAsync(IEnumerable<int> templateIds)
+    {
+        var ids = templateIds.Distinct().ToList();
+        if (ids.Count == 0)
+        {
+            return new Dictionary<int, int>();
+        }
+
+        // Versions are append-only, so the highest ID of a template is its current version
+        return await _db.MessageTemplateVersions
+            .Where(v => ids.Contains(v.TemplateId))
+            .GroupBy(v => v.TemplateId)
+            .Select(g => new { TemplateId = g.Key, VersionId = g.Max(v => v.Id) })
+            .ToDictionaryAsync(x => x.TemplateId, x => x.VersionId);
+    }
+}
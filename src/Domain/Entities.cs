@@ -120,6 +120,41 @@ namespace Clinics.Domain
         [Required]
         public int EstimatedWaitMinutes { get; set; } = 15;
 
+        /// <summary>
+        /// Send condition messages automatically when CurrentPosition advances.
+        /// </summary>
+        [Required]
+        public bool AutoNotifyEnabled { get; set; } = false;
+
+        /// <summary>
+        /// Minimum minutes between two automatic messages to the same patient.
+        /// </summary>
+        [Required]
+        public int AutoNotifyDedupMinutes { get; set; } = 30;
+
+        /// <summary>
+        /// Per-queue template variables as a JSON object, e.g. {"ROOM":"12"} for {ROOM}.
+        /// </summary>
+        public string? CustomVariables { get; set; }
+
+        /// <summary>
+        /// Walk-in patients can check themselves in on the public page (/check-in/{CheckInToken}).
+        /// </summary>
+        [Required]
+        public bool CheckInEnabled { get; set; } = false;
+
+        /// <summary>
+        /// Self check-ins wait in PendingCheckIns until staff approve them.
+        /// </summary>
+        [Required]
+        public bool CheckInRequiresApproval { get; set; } = false;
+
+        /// <summary>
+        /// Token of the public check-in link (printed as a QR code); created on first use, regenerated to revoke the link.
+        /// </summary>
+        [StringLength(64)]
+        public string? CheckInToken { get; set; }
+
         // Audit fields
         [Required]
         public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
@@ -187,6 +222,13 @@ namespace Clinics.Domain
         [StringLength(20)]
         public string Status { get; set; } = "waiting";
 
+        /// <summary>
+        /// Personal token of the public queue status page (/status/{StatusToken}, the {LINK} placeholder).
+        /// Issued when the patient is created; it only reveals this patient's place in their queue.
+        /// </summary>
+        [StringLength(64)]
+        public string? StatusToken { get; set; } = NewStatusToken();
+
         // Audit fields
         [Required]
         public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
@@ -210,6 +252,11 @@ namespace Clinics.Domain
 
         public int? RestoredBy { get; set; }
 
+        public static string NewStatusToken()
+        {
+            return Convert.ToHexString(System.Security.Cryptography.RandomNumberGenerator.GetBytes(16)).ToLowerInvariant();
+        }
+
         /// <summary>
         /// DEF-013 FIX: Row version for optimistic concurrency control.
         /// Prevents race conditions when multiple users update the same patient's position.
@@ -290,6 +337,28 @@ namespace Clinics.Domain
         [ForeignKey(nameof(MessageConditionId))]
         public MessageCondition? Condition { get; set; }
 
+        /// <summary>
+        /// Number of the current version (see MessageTemplateVersion). Incremented on every saved edit and restore.
+        /// </summary>
+        [Required]
+        public int VersionNumber { get; set; } = 1;
+
+        /// <summary>
+        /// Library template this template was linked from (see LibraryTemplate).
+        /// While IsLibraryOverride is false, library edits are applied to Title and Content.
+        /// Null for regular templates and for templates copied (not linked) from the library.
+        /// </summary>
+        public int? LibraryTemplateId { get; set; }
+
+        [ForeignKey(nameof(LibraryTemplateId))]
+        public LibraryTemplate? LibraryTemplate { get; set; }
+
+        /// <summary>
+        /// True once a linked template is edited for this queue only; it then stops following the library.
+        /// </summary>
+        [Required]
+        public bool IsLibraryOverride { get; set; } = false;
+
         // Audit fields (UpdatedBy already present; ensure it exists)
         public int? UpdatedBy { get; set; }
 
@@ -384,6 +453,14 @@ namespace Clinics.Domain
         [ForeignKey(nameof(TemplateId))]
         public MessageTemplate? Template { get; set; }
 
+        /// <summary>
+        /// Template version that produced Content (MessageTemplateVersion.Id), null for messages queued before versioning.
+        /// </summary>
+        public int? TemplateVersionId { get; set; }
+
+        [ForeignKey(nameof(TemplateVersionId))]
+        public MessageTemplateVersion? TemplateVersion { get; set; }
+
         public int? QueueId { get; set; }
 
         [ForeignKey(nameof(QueueId))]
@@ -422,6 +499,17 @@ namespace Clinics.Domain
 
         public DateTime? SentAt { get; set; }
 
+        /// <summary>
+        /// When WhatsApp showed the message as delivered (two ticks), reported by the extension runner.
+        /// Status stays "sent"; a read message is delivered too.
+        /// </summary>
+        public DateTime? DeliveredAt { get; set; }
+
+        /// <summary>
+        /// When WhatsApp showed the message as read (blue ticks), reported by the extension runner.
+        /// </summary>
+        public DateTime? ReadAt { get; set; }
+
         /// <summary>
         /// User who created this message (for audit)
         /// </summary>
@@ -701,7 +789,8 @@ namespace Clinics.Domain
         public int UserId { get; set; }
 
         /// <summary>
-        /// Type of session: "send" for message sending, "check_whatsapp" for number validation.
+        /// Type of session: "send" for message sending, "check_whatsapp" for number validation,
+        /// "scheduled" for sends waiting for ScheduledAt.
         /// Check sessions have higher priority and don't appear in CompletedTasksPanel.
         /// </summary>
         [Required]
@@ -769,6 +858,28 @@ namespace Clinics.Domain
         /// </summary>
         public Guid? CorrelationId { get; set; }
 
+        /// <summary>
+        /// Scheduled sessions only (SessionType = "scheduled"): when the messages are queued.
+        /// Messages are created at fire time so positions and quota are evaluated then.
+        /// </summary>
+        public DateTime? ScheduledAt { get; set; }
+
+        /// <summary>
+        /// Scheduled sessions only: template the messages are built from
+        /// </summary>
+        public int? TemplateId { get; set; }
+
+        /// <summary>
+        /// Scheduled sessions only: JSON array of recipient patient IDs
+        /// </summary>
+        public string? ScheduledPatientIds { get; set; }
+
+        /// <summary>
+        /// Scheduled sessions only: why the fire was blocked (Status = "quota_blocked")
+        /// </summary>
+        [StringLength(200)]
+        public string? BlockedReason { get; set; }
+
         /// <summary>
         /// Concurrency token for optimistic concurrency control.
         /// Prevents lost updates when multiple operations modify session state.
@@ -882,6 +993,19 @@ namespace Clinics.Domain
         /// </summary>
         public int? MaxValue { get; set; }
 
+        /// <summary>
+        /// Extra matching criteria (JSON: timeWindow, daysOfWeek, patientStatuses, countryCodes, alreadyMessaged).
+        /// Narrows down an active operator; ignored for UNCONDITIONED and DEFAULT.
+        /// Evaluated by ConditionCriteriaEvaluator, same semantics as apps/web/utils/conditionCriteria.ts.
+        /// </summary>
+        public string? Criteria { get; set; }
+
+        /// <summary>
+        /// How criteria dimensions combine: "AND" (default when null) or "OR".
+        /// </summary>
+        [StringLength(3)]
+        public string? CriteriaLogic { get; set; }
+
         [Required]
         public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
 
@@ -909,6 +1033,235 @@ namespace Clinics.Domain
         public int? RestoredBy { get; set; }
     }
 
+    /// <summary>
+    /// Snapshot of a template (title, content and its condition) saved on creation, on every edit and on restore.
+    /// Versions are never modified; restoring an old version saves it again as the newest version.
+    /// </summary>
+    [Table("MessageTemplateVersions")]
+    public class MessageTemplateVersion
+    {
+        [Key]
+        public int Id { get; set; }
+
+        [Required]
+        public int TemplateId { get; set; }
+
+        [ForeignKey(nameof(TemplateId))]
+        public MessageTemplate? Template { get; set; }
+
+        /// <summary>
+        /// 1-based, unique per template.
+        /// </summary>
+        [Required]
+        public int VersionNumber { get; set; }
+
+        [Required]
+        [StringLength(100)]
+        public string Title { get; set; } = null!;
+
+        [Required]
+        [StringLength(2000)]
+        public string Content { get; set; } = null!;
+
+        // Condition at the time of the version (same meaning as MessageCondition fields)
+        [Required]
+        [StringLength(20)]
+        public string ConditionOperator { get; set; } = "UNCONDITIONED";
+
+        public int? ConditionValue { get; set; }
+
+        public int? ConditionMinValue { get; set; }
+
+        public int? ConditionMaxValue { get; set; }
+
+        public string? ConditionCriteria { get; set; }
+
+        [StringLength(3)]
+        public string? ConditionCriteriaLogic { get; set; }
+
+        [Required]
+        public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+
+        /// <summary>
+        /// Author of this version.
+        /// </summary>
+        public int? CreatedBy { get; set; }
+    }
+
+    /// <summary>
+    /// Template shared across queues: system-level (every moderator) or moderator-level (one moderator's queues).
+    /// Queues use it by copying (independent MessageTemplate) or linking (MessageTemplate.LibraryTemplateId).
+    /// </summary>
+    [Table("LibraryTemplates")]
+    public class LibraryTemplate
+    {
+        [Key]
+        public int Id { get; set; }
+
+        [Required]
+        [StringLength(100)]
+        public string Title { get; set; } = null!;
+
+        [Required]
+        [StringLength(2000)]
+        public string Content { get; set; } = null!;
+
+        [StringLength(50)]
+        public string? Category { get; set; }
+
+        /// <summary>
+        /// "system" (admin managed, visible to everyone) or "moderator" (visible to ModeratorId and its users).
+        /// </summary>
+        [Required]
+        [StringLength(20)]
+        public string Scope { get; set; } = "moderator";
+
+        /// <summary>
+        /// Owner of a moderator-level template; null for system templates.
+        /// </summary>
+        public int? ModeratorId { get; set; }
+
+        [ForeignKey(nameof(ModeratorId))]
+        public User? Moderator { get; set; }
+
+        [Required]
+        public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+
+        public DateTime? UpdatedAt { get; set; }
+
+        public int? CreatedBy { get; set; }
+
+        public int? UpdatedBy { get; set; }
+    }
+
+    /// <summary>
+    /// Number of a patient who asked not to receive WhatsApp messages, kept per moderator.
+    /// Every send path (MessageQueueService) skips patients whose E.164 number is on their moderator's list.
+    /// </summary>
+    [Table("DoNotContactEntries")]
+    public class DoNotContactEntry
+    {
+        [Key]
+        public int Id { get; set; }
+
+        [Required]
+        public int ModeratorId { get; set; }
+
+        [ForeignKey(nameof(ModeratorId))]
+        public User? Moderator { get; set; }
+
+        /// <summary>
+        /// E.164, e.g. "+201012345678" (see PhoneNumberHelper.ToE164).
+        /// </summary>
+        [Required]
+        [StringLength(20)]
+        public string PhoneNumber { get; set; } = null!;
+
+        [StringLength(100)]
+        public string? PatientName { get; set; }
+
+        [StringLength(200)]
+        public string? Reason { get; set; }
+
+        [Required]
+        public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+
+        public int? CreatedBy { get; set; }
+    }
+
+    /// <summary>
+    /// Self check-in waiting for staff approval (Queue.CheckInRequiresApproval).
+    /// Approving adds the patient at the next position; approved and rejected check-ins are removed.
+    /// </summary>
+    [Table("PendingCheckIns")]
+    public class PendingCheckIn
+    {
+        [Key]
+        public int Id { get; set; }
+
+        [Required]
+        public int QueueId { get; set; }
+
+        [ForeignKey(nameof(QueueId))]
+        public Queue? Queue { get; set; }
+
+        [Required]
+        [StringLength(100)]
+        public string FullName { get; set; } = null!;
+
+        [Required]
+        [StringLength(20)]
+        public string PhoneNumber { get; set; } = null!;
+
+        [Required]
+        [StringLength(10)]
+        public string CountryCode { get; set; } = "+20";
+
+        [Required]
+        public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+    }
+
+    /// <summary>
+    /// Patient reply captured from WhatsApp Web by the extension runner (see ConversationService).
+    /// Together with the patient's sent Messages it forms the patient's conversation; IsRead drives the unread badges.
+    /// </summary>
+    [Table("InboundMessages")]
+    public class InboundMessage
+    {
+        [Key]
+        public Guid Id { get; set; } = Guid.NewGuid();
+
+        [Required]
+        public int ModeratorId { get; set; }
+
+        [ForeignKey(nameof(ModeratorId))]
+        public User? Moderator { get; set; }
+
+        [Required]
+        public int PatientId { get; set; }
+
+        [ForeignKey(nameof(PatientId))]
+        public Patient? Patient { get; set; }
+
+        /// <summary>
+        /// Queue of the patient when the reply arrived (unread badges are per queue).
+        /// </summary>
+        [Required]
+        public int QueueId { get; set; }
+
+        /// <summary>
+        /// Sender in E.164, e.g. "+201012345678".
+        /// </summary>
+        [Required]
+        [StringLength(20)]
+        public string PhoneNumber { get; set; } = null!;
+
+        /// <summary>
+        /// WhatsApp's message id, or "preview_..." for a reply read from the chat list before its chat was opened
+        /// (replaced by the real id once the chat is opened).
+        /// </summary>
+        [Required]
+        [StringLength(128)]
+        public string WaMessageId { get; set; } = null!;
+
+        [Required]
+        [StringLength(2000)]
+        public string Content { get; set; } = null!;
+
+        [Required]
+        public DateTime ReceivedAt { get; set; } = DateTime.UtcNow;
+
+        /// <summary>
+        /// Seen by staff in the conversation view (not the WhatsApp read state).
+        /// </summary>
+        [Required]
+        public bool IsRead { get; set; } = false;
+
+        public DateTime? ReadAt { get; set; }
+
+        public int? ReadBy { get; set; }
+    }
+
     // AuditLog entity REMOVED: No longer used
     // Migration will drop AuditLogs table
 
@@ -1268,6 +1621,11 @@ namespace Clinics.Domain
     {
         public const string Send = "send";
         public const string CheckWhatsApp = "check_whatsapp";
+
+        /// <summary>
+        /// Not fired yet; becomes "send" when its messages are queued at ScheduledAt
+        /// </summary>
+        public const string Scheduled = "scheduled";
     }
 
     /// <summary>
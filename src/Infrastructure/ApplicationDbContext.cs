@@ -22,6 +22,11 @@ namespace Clinics.Infrastructure
         public DbSet<Queue> Queues => Set<Queue>();
         public DbSet<Patient> Patients => Set<Patient>();
         public DbSet<MessageTemplate> MessageTemplates => Set<MessageTemplate>();
+        public DbSet<MessageTemplateVersion> MessageTemplateVersions => Set<MessageTemplateVersion>();
+        public DbSet<LibraryTemplate> LibraryTemplates => Set<LibraryTemplate>();
+        public DbSet<DoNotContactEntry> DoNotContactEntries => Set<DoNotContactEntry>();
+        public DbSet<PendingCheckIn> PendingCheckIns => Set<PendingCheckIn>();
+        public DbSet<InboundMessage> InboundMessages => Set<InboundMessage>();
         public DbSet<Message> Messages => Set<Message>();
         // FailedTasks DbSet REMOVED: Failures now tracked via Message.Status
         public DbSet<Quota> Quotas => Set<Quota>();
@@ -49,6 +54,7 @@ namespace Clinics.Infrastructure
             modelBuilder.Entity<Queue>().HasIndex(q => q.DoctorName);
             modelBuilder.Entity<Queue>().HasIndex(q => q.ModeratorId);
             modelBuilder.Entity<Patient>().HasIndex(p => new { p.QueueId, p.Position });
+            modelBuilder.Entity<Patient>().HasIndex(p => p.StatusToken).IsUnique();
 
             modelBuilder.Entity<Patient>()
                 .HasOne(p => p.Queue)
@@ -138,6 +144,9 @@ namespace Clinics.Infrastructure
 
             modelBuilder.Entity<MessageSession>().HasIndex(s => new { s.Status, s.StartTime });
 
+            // Scheduled sessions: the fire job looks up due sessions by type/status/time
+            modelBuilder.Entity<MessageSession>().HasIndex(s => new { s.SessionType, s.Status, s.ScheduledAt });
+
             modelBuilder.Entity<User>()
                 .HasOne(u => u.Moderator)
                 .WithMany(u => u.ManagedUsers)
@@ -180,6 +189,80 @@ namespace Clinics.Infrastructure
                 .HasForeignKey(mc => mc.QueueId)
                 .OnDelete(DeleteBehavior.Restrict);
 
+            // MessageTemplateVersion: one row per template edit; messages point at the version they were rendered from
+            modelBuilder.Entity<MessageTemplateVersion>()
+                .HasOne(v => v.Template)
+                .WithMany()
+                .HasForeignKey(v => v.TemplateId)
+                .OnDelete(DeleteBehavior.Restrict);
+
+            modelBuilder.Entity<MessageTemplateVersion>()
+                .HasIndex(v => new { v.TemplateId, v.VersionNumber })
+                .IsUnique();
+
+            modelBuilder.Entity<Message>()
+                .HasOne(m => m.TemplateVersion)
+                .WithMany()
+                .HasForeignKey(m => m.TemplateVersionId)
+                .OnDelete(DeleteBehavior.Restrict);
+
+            // LibraryTemplate: deleting a library template leaves linked queue templates as regular templates
+            modelBuilder.Entity<MessageTemplate>()
+                .HasOne(t => t.LibraryTemplate)
+                .WithMany()
+                .HasForeignKey(t => t.LibraryTemplateId)
+                .OnDelete(DeleteBehavior.SetNull);
+
+            modelBuilder.Entity<LibraryTemplate>()
+                .HasOne(l => l.Moderator)
+                .WithMany()
+                .HasForeignKey(l => l.ModeratorId)
+                .OnDelete(DeleteBehavior.Restrict);
+
+            modelBuilder.Entity<LibraryTemplate>().HasIndex(l => new { l.Scope, l.ModeratorId });
+
+            modelBuilder.Entity<DoNotContactEntry>()
+                .HasOne(d => d.Moderator)
+                .WithMany()
+                .HasForeignKey(d => d.ModeratorId)
+                .OnDelete(DeleteBehavior.Restrict);
+
+            // One entry per number and moderator
+            modelBuilder.Entity<DoNotContactEntry>()
+                .HasIndex(d => new { d.ModeratorId, d.PhoneNumber })
+                .IsUnique();
+
+            // Self check-in: the public link token identifies the queue
+            modelBuilder.Entity<Queue>()
+                .HasIndex(q => q.CheckInToken)
+                .IsUnique();
+
+            modelBuilder.Entity<PendingCheckIn>()
+                .HasOne(c => c.Queue)
+                .WithMany()
+                .HasForeignKey(c => c.QueueId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            // Patient replies: one row per WhatsApp message id and moderator; unread lookups by moderator
+            modelBuilder.Entity<InboundMessage>()
+                .HasOne(m => m.Moderator)
+                .WithMany()
+                .HasForeignKey(m => m.ModeratorId)
+                .OnDelete(DeleteBehavior.Restrict);
+
+            modelBuilder.Entity<InboundMessage>()
+                .HasOne(m => m.Patient)
+                .WithMany()
+                .HasForeignKey(m => m.PatientId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            modelBuilder.Entity<InboundMessage>()
+                .HasIndex(m => new { m.ModeratorId, m.WaMessageId })
+                .IsUnique();
+
+            modelBuilder.Entity<InboundMessage>()
+                .HasIndex(m => new { m.ModeratorId, m.IsRead });
+
             // ModeratorSettings index REMOVED - entity deprecated
 
             modelBuilder.Entity<MessageTemplate>().Property(t => t.CreatedAt).HasDefaultValueSql(GetUtcNowSql());
@@ -0,0 +1,73 @@
+using System;
+using Clinics.Infrastructure;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    [DbContext(typeof(ApplicationDbContext))]
+    [Migration("20261018100000_AddScheduledSessions")]
+    public class AddScheduledSessions : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<DateTime>(
+                name: "ScheduledAt",
+                table: "MessageSessions",
+                type: "timestamp with time zone",
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "TemplateId",
+                table: "MessageSessions",
+                type: "integer",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "ScheduledPatientIds",
+                table: "MessageSessions",
+                type: "text",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "BlockedReason",
+                table: "MessageSessions",
+                type: "character varying(200)",
+                maxLength: 200,
+                nullable: true);
+
+            migrationBuilder.CreateIndex(
+                name: "IX_MessageSessions_SessionType_Status_ScheduledAt",
+                table: "MessageSessions",
+                columns: new[] { "SessionType", "Status", "ScheduledAt" });
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropIndex(
+                name: "IX_MessageSessions_SessionType_Status_ScheduledAt",
+                table: "MessageSessions");
+
+            migrationBuilder.DropColumn(
+                name: "ScheduledAt",
+                table: "MessageSessions");
+
+            migrationBuilder.DropColumn(
+                name: "TemplateId",
+                table: "MessageSessions");
+
+            migrationBuilder.DropColumn(
+                name: "ScheduledPatientIds",
+                table: "MessageSessions");
+
+            migrationBuilder.DropColumn(
+                name: "BlockedReason",
+                table: "MessageSessions");
+        }
+    }
+}
@@ -0,0 +1,44 @@
+using Clinics.Infrastructure;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    [DbContext(typeof(ApplicationDbContext))]
+    [Migration("20261018110000_AddQueueAutoNotify")]
+    public class AddQueueAutoNotify : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<bool>(
+                name: "AutoNotifyEnabled",
+                table: "Queues",
+                type: "boolean",
+                nullable: false,
+                defaultValue: false);
+
+            migrationBuilder.AddColumn<int>(
+                name: "AutoNotifyDedupMinutes",
+                table: "Queues",
+                type: "integer",
+                nullable: false,
+                defaultValue: 30);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "AutoNotifyEnabled",
+                table: "Queues");
+
+            migrationBuilder.DropColumn(
+                name: "AutoNotifyDedupMinutes",
+                table: "Queues");
+        }
+    }
+}
@@ -0,0 +1,43 @@
+using Clinics.Infrastructure;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    [DbContext(typeof(ApplicationDbContext))]
+    [Migration("20261018130000_AddConditionCriteria")]
+    public class AddConditionCriteria : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "Criteria",
+                table: "MessageConditions",
+                type: "text",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "CriteriaLogic",
+                table: "MessageConditions",
+                type: "character varying(3)",
+                maxLength: 3,
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "Criteria",
+                table: "MessageConditions");
+
+            migrationBuilder.DropColumn(
+                name: "CriteriaLogic",
+                table: "MessageConditions");
+        }
+    }
+}
@@ -0,0 +1,116 @@
+using System;
+using Clinics.Infrastructure;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+using Npgsql.EntityFrameworkCore.PostgreSQL.Metadata;
+
+#nullable disable
+
+namespace Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    [DbContext(typeof(ApplicationDbContext))]
+    [Migration("20261018140000_AddTemplateVersions")]
+    public class AddTemplateVersions : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<int>(
+                name: "VersionNumber",
+                table: "MessageTemplates",
+                type: "integer",
+                nullable: false,
+                defaultValue: 1);
+
+            migrationBuilder.AddColumn<int>(
+                name: "TemplateVersionId",
+                table: "Messages",
+                type: "integer",
+                nullable: true);
+
+            migrationBuilder.CreateTable(
+                name: "MessageTemplateVersions",
+                columns: table => new
+                {
+                    Id = table.Column<int>(type: "integer", nullable: false)
+                        .Annotation("Npgsql:ValueGenerationStrategy", NpgsqlValueGenerationStrategy.IdentityByDefaultColumn),
+                    TemplateId = table.Column<int>(type: "integer", nullable: false),
+                    VersionNumber = table.Column<int>(type: "integer", nullable: false),
+                    Title = table.Column<string>(type: "character varying(100)", maxLength: 100, nullable: false),
+                    Content = table.Column<string>(type: "character varying(2000)", maxLength: 2000, nullable: false),
+                    ConditionOperator = table.Column<string>(type: "character varying(20)", maxLength: 20, nullable: false),
+                    ConditionValue = table.Column<int>(type: "integer", nullable: true),
+                    ConditionMinValue = table.Column<int>(type: "integer", nullable: true),
+                    ConditionMaxValue = table.Column<int>(type: "integer", nullable: true),
+                    ConditionCriteria = table.Column<string>(type: "text", nullable: true),
+                    ConditionCriteriaLogic = table.Column<string>(type: "character varying(3)", maxLength: 3, nullable: true),
+                    CreatedAt = table.Column<DateTime>(type: "timestamp with time zone", nullable: false),
+                    CreatedBy = table.Column<int>(type: "integer", nullable: true)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_MessageTemplateVersions", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_MessageTemplateVersions_MessageTemplates_TemplateId",
+                        column: x => x.TemplateId,
+                        principalTable: "MessageTemplates",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Restrict);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_MessageTemplateVersions_TemplateId_VersionNumber",
+                table: "MessageTemplateVersions",
+                columns: new[] { "TemplateId", "VersionNumber" },
+                unique: true);
+
+            migrationBuilder.CreateIndex(
+                name: "IX_Messages_TemplateVersionId",
+                table: "Messages",
+                column: "TemplateVersionId");
+
+            migrationBuilder.AddForeignKey(
+                name: "FK_Messages_MessageTemplateVersions_TemplateVersionId",
+                table: "Messages",
+                column: "TemplateVersionId",
+                principalTable: "MessageTemplateVersions",
+                principalColumn: "Id",
+                onDelete: ReferentialAction.Restrict);
+
+            // Existing templates start at version 1 with their current title, content and condition
+            migrationBuilder.Sql(@"
+                INSERT INTO ""MessageTemplateVersions""
+                    (""TemplateId"", ""VersionNumber"", ""Title"", ""Content"", ""ConditionOperator"", ""ConditionValue"",
+                     ""ConditionMinValue"", ""ConditionMaxValue"", ""ConditionCriteria"", ""ConditionCriteriaLogic"", ""CreatedAt"", ""CreatedBy"")
+                SELECT t.""Id"", 1, t.""Title"", t.""Content"", COALESCE(c.""Operator"", 'UNCONDITIONED'), c.""Value"",
+                       c.""MinValue"", c.""MaxValue"", c.""Criteria"", c.""CriteriaLogic"", COALESCE(t.""UpdatedAt"", t.""CreatedAt""),
+                       COALESCE(t.""UpdatedBy"", t.""CreatedBy"")
+                FROM ""MessageTemplates"" t
+                LEFT JOIN ""MessageConditions"" c ON c.""Id"" = t.""MessageConditionId"";");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropForeignKey(
+                name: "FK_Messages_MessageTemplateVersions_TemplateVersionId",
+                table: "Messages");
+
+            migrationBuilder.DropTable(
+                name: "MessageTemplateVersions");
+
+            migrationBuilder.DropIndex(
+                name: "IX_Messages_TemplateVersionId",
+                table: "Messages");
+
+            migrationBuilder.DropColumn(
+                name: "TemplateVersionId",
+                table: "Messages");
+
+            migrationBuilder.DropColumn(
+                name: "VersionNumber",
+                table: "MessageTemplates");
+        }
+    }
+}
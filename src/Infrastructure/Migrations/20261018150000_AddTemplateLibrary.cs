@@ -0,0 +1,106 @@
+using System;
+using Clinics.Infrastructure;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+using Npgsql.EntityFrameworkCore.PostgreSQL.Metadata;
+
+#nullable disable
+
+namespace Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    [DbContext(typeof(ApplicationDbContext))]
+    [Migration("20261018150000_AddTemplateLibrary")]
+    public class AddTemplateLibrary : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "LibraryTemplates",
+                columns: table => new
+                {
+                    Id = table.Column<int>(type: "integer", nullable: false)
+                        .Annotation("Npgsql:ValueGenerationStrategy", NpgsqlValueGenerationStrategy.IdentityByDefaultColumn),
+                    Title = table.Column<string>(type: "character varying(100)", maxLength: 100, nullable: false),
+                    Content = table.Column<string>(type: "character varying(2000)", maxLength: 2000, nullable: false),
+                    Category = table.Column<string>(type: "character varying(50)", maxLength: 50, nullable: true),
+                    Scope = table.Column<string>(type: "character varying(20)", maxLength: 20, nullable: false),
+                    ModeratorId = table.Column<int>(type: "integer", nullable: true),
+                    CreatedAt = table.Column<DateTime>(type: "timestamp with time zone", nullable: false),
+                    UpdatedAt = table.Column<DateTime>(type: "timestamp with time zone", nullable: true),
+                    CreatedBy = table.Column<int>(type: "integer", nullable: true),
+                    UpdatedBy = table.Column<int>(type: "integer", nullable: true)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_LibraryTemplates", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_LibraryTemplates_Users_ModeratorId",
+                        column: x => x.ModeratorId,
+                        principalTable: "Users",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Restrict);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_LibraryTemplates_ModeratorId",
+                table: "LibraryTemplates",
+                column: "ModeratorId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_LibraryTemplates_Scope_ModeratorId",
+                table: "LibraryTemplates",
+                columns: new[] { "Scope", "ModeratorId" });
+
+            migrationBuilder.AddColumn<int>(
+                name: "LibraryTemplateId",
+                table: "MessageTemplates",
+                type: "integer",
+                nullable: true);
+
+            migrationBuilder.AddColumn<bool>(
+                name: "IsLibraryOverride",
+                table: "MessageTemplates",
+                type: "boolean",
+                nullable: false,
+                defaultValue: false);
+
+            migrationBuilder.CreateIndex(
+                name: "IX_MessageTemplates_LibraryTemplateId",
+                table: "MessageTemplates",
+                column: "LibraryTemplateId");
+
+            migrationBuilder.AddForeignKey(
+                name: "FK_MessageTemplates_LibraryTemplates_LibraryTemplateId",
+                table: "MessageTemplates",
+                column: "LibraryTemplateId",
+                principalTable: "LibraryTemplates",
+                principalColumn: "Id",
+                onDelete: ReferentialAction.SetNull);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropForeignKey(
+                name: "FK_MessageTemplates_LibraryTemplates_LibraryTemplateId",
+                table: "MessageTemplates");
+
+            migrationBuilder.DropIndex(
+                name: "IX_MessageTemplates_LibraryTemplateId",
+                table: "MessageTemplates");
+
+            migrationBuilder.DropColumn(
+                name: "IsLibraryOverride",
+                table: "MessageTemplates");
+
+            migrationBuilder.DropColumn(
+                name: "LibraryTemplateId",
+                table: "MessageTemplates");
+
+            migrationBuilder.DropTable(
+                name: "LibraryTemplates");
+        }
+    }
+}
@@ -0,0 +1,98 @@
+using System;
+using Clinics.Infrastructure;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+using Npgsql.EntityFrameworkCore.PostgreSQL.Metadata;
+
+#nullable disable
+
+namespace Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    [DbContext(typeof(ApplicationDbContext))]
+    [Migration("20261018170000_AddSelfCheckIn")]
+    public class AddSelfCheckIn : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<bool>(
+                name: "CheckInEnabled",
+                table: "Queues",
+                type: "boolean",
+                nullable: false,
+                defaultValue: false);
+
+            migrationBuilder.AddColumn<bool>(
+                name: "CheckInRequiresApproval",
+                table: "Queues",
+                type: "boolean",
+                nullable: false,
+                defaultValue: false);
+
+            migrationBuilder.AddColumn<string>(
+                name: "CheckInToken",
+                table: "Queues",
+                type: "character varying(64)",
+                maxLength: 64,
+                nullable: true);
+
+            migrationBuilder.CreateIndex(
+                name: "IX_Queues_CheckInToken",
+                table: "Queues",
+                column: "CheckInToken",
+                unique: true);
+
+            migrationBuilder.CreateTable(
+                name: "PendingCheckIns",
+                columns: table => new
+                {
+                    Id = table.Column<int>(type: "integer", nullable: false)
+                        .Annotation("Npgsql:ValueGenerationStrategy", NpgsqlValueGenerationStrategy.IdentityByDefaultColumn),
+                    QueueId = table.Column<int>(type: "integer", nullable: false),
+                    FullName = table.Column<string>(type: "character varying(100)", maxLength: 100, nullable: false),
+                    PhoneNumber = table.Column<string>(type: "character varying(20)", maxLength: 20, nullable: false),
+                    CountryCode = table.Column<string>(type: "character varying(10)", maxLength: 10, nullable: false),
+                    CreatedAt = table.Column<DateTime>(type: "timestamp with time zone", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_PendingCheckIns", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_PendingCheckIns_Queues_QueueId",
+                        column: x => x.QueueId,
+                        principalTable: "Queues",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_PendingCheckIns_QueueId",
+                table: "PendingCheckIns",
+                column: "QueueId");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "PendingCheckIns");
+
+            migrationBuilder.DropIndex(
+                name: "IX_Queues_CheckInToken",
+                table: "Queues");
+
+            migrationBuilder.DropColumn(
+                name: "CheckInToken",
+                table: "Queues");
+
+            migrationBuilder.DropColumn(
+                name: "CheckInRequiresApproval",
+                table: "Queues");
+
+            migrationBuilder.DropColumn(
+                name: "CheckInEnabled",
+                table: "Queues");
+        }
+    }
+}
@@ -0,0 +1,50 @@
+using Clinics.Infrastructure;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    [DbContext(typeof(ApplicationDbContext))]
+    [Migration("20261018180000_AddPatientStatusToken")]
+    public class AddPatientStatusToken : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "StatusToken",
+                table: "Patients",
+                type: "character varying(64)",
+                maxLength: 64,
+                nullable: true);
+
+            // Existing patients get a status link too (new ones are issued a token on creation)
+            migrationBuilder.Sql(@"
+                UPDATE ""Patients""
+                SET ""StatusToken"" = replace(gen_random_uuid()::text, '-', '')
+                WHERE ""StatusToken"" IS NULL;
+            ");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_Patients_StatusToken",
+                table: "Patients",
+                column: "StatusToken",
+                unique: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropIndex(
+                name: "IX_Patients_StatusToken",
+                table: "Patients");
+
+            migrationBuilder.DropColumn(
+                name: "StatusToken",
+                table: "Patients");
+        }
+    }
+}
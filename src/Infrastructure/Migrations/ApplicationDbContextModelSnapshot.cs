@@ -22,6 +22,44 @@ namespace Infrastructure.Migrations
 
             NpgsqlModelBuilderExtensions.UseIdentityByDefaultColumns(modelBuilder);
 
+            modelBuilder.Entity("Clinics.Domain.DoNotContactEntry", b =>
+                {
+                    b.Property<int>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("integer");
+
+                    NpgsqlPropertyBuilderExtensions.UseIdentityByDefaultColumn(b.Property<int>("Id"));
+
+                    b.Property<DateTime>("CreatedAt")
+                        .HasColumnType("timestamp with time zone");
+
+                    b.Property<int?>("CreatedBy")
+                        .HasColumnType("integer");
+
+                    b.Property<int>("ModeratorId")
+                        .HasColumnType("integer");
+
+                    b.Property<string>("PatientName")
+                        .HasMaxLength(100)
+                        .HasColumnType("character varying(100)");
+
+                    b.Property<string>("PhoneNumber")
+                        .IsRequired()
+                        .HasMaxLength(20)
+                        .HasColumnType("character varying(20)");
+
+                    b.Property<string>("Reason")
+                        .HasMaxLength(200)
+                        .HasColumnType("character varying(200)");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("ModeratorId", "PhoneNumber")
+                        .IsUnique();
+
+                    b.ToTable("DoNotContactEntries");
+                });
+
             modelBuilder.Entity("Clinics.Domain.ExtensionCommand", b =>
                 {
                     b.Property<Guid>("Id")
@@ -251,6 +289,111 @@ namespace Infrastructure.Migrations
                     b.ToTable("ExtensionSessionLeases");
                 });
 
+            modelBuilder.Entity("Clinics.Domain.InboundMessage", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uuid");
+
+                    b.Property<string>("Content")
+                        .IsRequired()
+                        .HasMaxLength(2000)
+                        .HasColumnType("character varying(2000)");
+
+                    b.Property<bool>("IsRead")
+                        .HasColumnType("boolean");
+
+                    b.Property<int>("ModeratorId")
+                        .HasColumnType("integer");
+
+                    b.Property<int>("PatientId")
+                        .HasColumnType("integer");
+
+                    b.Property<string>("PhoneNumber")
+                        .IsRequired()
+                        .HasMaxLength(20)
+                        .HasColumnType("character varying(20)");
+
+                    b.Property<int>("QueueId")
+                        .HasColumnType("integer");
+
+                    b.Property<DateTime?>("ReadAt")
+                        .HasColumnType("timestamp with time zone");
+
+                    b.Property<int?>("ReadBy")
+                        .HasColumnType("integer");
+
+                    b.Property<DateTime>("ReceivedAt")
+                        .HasColumnType("timestamp with time zone");
+
+                    b.Property<string>("WaMessageId")
+                        .IsRequired()
+                        .HasMaxLength(128)
+                        .HasColumnType("character varying(128)");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("PatientId");
+
+                    b.HasIndex("ModeratorId", "IsRead");
+
+                    b.HasIndex("ModeratorId", "WaMessageId")
+                        .IsUnique();
+
+                    b.ToTable("InboundMessages");
+                });
+
+            modelBuilder.Entity("Clinics.Domain.LibraryTemplate", b =>
+                {
+                    b.Property<int>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("integer");
+
+                    NpgsqlPropertyBuilderExtensions.UseIdentityByDefaultColumn(b.Property<int>("Id"));
+
+                    b.Property<string>("Category")
+                        .HasMaxLength(50)
+                        .HasColumnType("character varying(50)");
+
+                    b.Property<string>("Content")
+                        .IsRequired()
+                        .HasMaxLength(2000)
+                        .HasColumnType("character varying(2000)");
+
+                    b.Property<DateTime>("CreatedAt")
+                        .HasColumnType("timestamp with time zone");
+
+                    b.Property<int?>("CreatedBy")
+                        .HasColumnType("integer");
+
+                    b.Property<int?>("ModeratorId")
+                        .HasColumnType("integer");
+
+                    b.Property<string>("Scope")
+                        .IsRequired()
+                        .HasMaxLength(20)
+                        .HasColumnType("character varying(20)");
+
+                    b.Property<string>("Title")
+                        .IsRequired()
+                        .HasMaxLength(100)
+                        .HasColumnType("character varying(100)");
+
+                    b.Property<DateTime?>("UpdatedAt")
+                        .HasColumnType("timestamp with time zone");
+
+                    b.Property<int?>("UpdatedBy")
+                        .HasColumnType("integer");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("ModeratorId");
+
+                    b.HasIndex("Scope", "ModeratorId");
+
+                    b.ToTable("LibraryTemplates");
+                });
+
             modelBuilder.Entity("Clinics.Domain.Message", b =>
                 {
                     b.Property<Guid>("Id")
@@ -290,6 +433,9 @@ namespace Infrastructure.Migrations
                     b.Property<int?>("DeletedBy")
                         .HasColumnType("integer");
 
+                    b.Property<DateTime?>("DeliveredAt")
+                        .HasColumnType("timestamp with time zone");
+
                     b.Property<string>("ErrorMessage")
                         .HasMaxLength(500)
                         .HasColumnType("character varying(500)");
@@ -341,6 +487,9 @@ namespace Infrastructure.Migrations
                     b.Property<int?>("QueueId")
                         .HasColumnType("integer");
 
+                    b.Property<DateTime?>("ReadAt")
+                        .HasColumnType("timestamp with time zone");
+
                     b.Property<byte[]>("RowVersion")
                         .IsConcurrencyToken()
                         .ValueGeneratedOnAddOrUpdate()
@@ -364,6 +513,9 @@ namespace Infrastructure.Migrations
                     b.Property<int?>("TemplateId")
                         .HasColumnType("integer");
 
+                    b.Property<int?>("TemplateVersionId")
+                        .HasColumnType("integer");
+
                     b.Property<DateTime>("UpdatedAt")
                         .HasColumnType("timestamp with time zone");
 
@@ -380,6 +532,8 @@ namespace Infrastructure.Migrations
 
                     b.HasIndex("TemplateId");
 
+                    b.HasIndex("TemplateVersionId");
+
                     b.HasIndex("IsPaused", "Status");
 
                     b.HasIndex("Status", "CreatedAt");
@@ -405,6 +559,13 @@ namespace Infrastructure.Migrations
                     b.Property<int?>("CreatedBy")
                         .HasColumnType("integer");
 
+                    b.Property<string>("Criteria")
+                        .HasColumnType("text");
+
+                    b.Property<string>("CriteriaLogic")
+                        .HasMaxLength(3)
+                        .HasColumnType("character varying(3)");
+
                     b.Property<DateTime?>("DeletedAt")
                         .HasColumnType("timestamp with time zone");
 
@@ -463,6 +624,10 @@ namespace Infrastructure.Migrations
                         .ValueGeneratedOnAdd()
                         .HasColumnType("uuid");
 
+                    b.Property<string>("BlockedReason")
+                        .HasMaxLength(200)
+                        .HasColumnType("character varying(200)");
+
                     b.Property<Guid?>("CorrelationId")
                         .HasColumnType("uuid");
 
@@ -511,6 +676,12 @@ namespace Infrastructure.Migrations
                         .ValueGeneratedOnAddOrUpdate()
                         .HasColumnType("bytea");
 
+                    b.Property<DateTime?>("ScheduledAt")
+                        .HasColumnType("timestamp with time zone");
+
+                    b.Property<string>("ScheduledPatientIds")
+                        .HasColumnType("text");
+
                     b.Property<int>("SentMessages")
                         .HasColumnType("integer");
 
@@ -529,6 +700,9 @@ namespace Infrastructure.Migrations
                         .HasMaxLength(20)
                         .HasColumnType("character varying(20)");
 
+                    b.Property<int?>("TemplateId")
+                        .HasColumnType("integer");
+
                     b.Property<int>("TotalMessages")
                         .HasColumnType("integer");
 
@@ -543,6 +717,8 @@ namespace Infrastructure.Migrations
 
                     b.HasIndex("Status", "StartTime");
 
+                    b.HasIndex("SessionType", "Status", "ScheduledAt");
+
                     b.ToTable("MessageSessions");
                 });
 
@@ -576,6 +752,12 @@ namespace Infrastructure.Migrations
                     b.Property<bool>("IsDeleted")
                         .HasColumnType("boolean");
 
+                    b.Property<bool>("IsLibraryOverride")
+                        .HasColumnType("boolean");
+
+                    b.Property<int?>("LibraryTemplateId")
+                        .HasColumnType("integer");
+
                     b.Property<int>("MessageConditionId")
                         .HasColumnType("integer");
 
@@ -602,10 +784,15 @@ namespace Infrastructure.Migrations
                     b.Property<int?>("UpdatedBy")
                         .HasColumnType("integer");
 
+                    b.Property<int>("VersionNumber")
+                        .HasColumnType("integer");
+
                     b.HasKey("Id");
 
                     b.HasIndex("CreatedBy");
 
+                    b.HasIndex("LibraryTemplateId");
+
                     b.HasIndex("MessageConditionId")
                         .IsUnique();
 
@@ -616,6 +803,65 @@ namespace Infrastructure.Migrations
                     b.ToTable("MessageTemplates");
                 });
 
+            modelBuilder.Entity("Clinics.Domain.MessageTemplateVersion", b =>
+                {
+                    b.Property<int>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("integer");
+
+                    NpgsqlPropertyBuilderExtensions.UseIdentityByDefaultColumn(b.Property<int>("Id"));
+
+                    b.Property<string>("ConditionCriteria")
+                        .HasColumnType("text");
+
+                    b.Property<string>("ConditionCriteriaLogic")
+                        .HasMaxLength(3)
+                        .HasColumnType("character varying(3)");
+
+                    b.Property<int?>("ConditionMaxValue")
+                        .HasColumnType("integer");
+
+                    b.Property<int?>("ConditionMinValue")
+                        .HasColumnType("integer");
+
+                    b.Property<string>("ConditionOperator")
+                        .IsRequired()
+                        .HasMaxLength(20)
+                        .HasColumnType("character varying(20)");
+
+                    b.Property<int?>("ConditionValue")
+                        .HasColumnType("integer");
+
+                    b.Property<string>("Content")
+                        .IsRequired()
+                        .HasMaxLength(2000)
+                        .HasColumnType("character varying(2000)");
+
+                    b.Property<DateTime>("CreatedAt")
+                        .HasColumnType("timestamp with time zone");
+
+                    b.Property<int?>("CreatedBy")
+                        .HasColumnType("integer");
+
+                    b.Property<int>("TemplateId")
+                        .HasColumnType("integer");
+
+                    b.Property<string>("Title")
+                        .IsRequired()
+                        .HasMaxLength(100)
+                        .HasColumnType("character varying(100)");
+
+                    b.Property<int>("VersionNumber")
+                        .HasColumnType("integer");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("TemplateId", "VersionNumber")
+                        .IsUnique();
+
+                    b.ToTable("MessageTemplateVersions");
+                });
+
             modelBuilder.Entity("Clinics.Domain.Patient", b =>
                 {
                     b.Property<int>("Id")
@@ -681,6 +927,10 @@ namespace Infrastructure.Migrations
                         .HasMaxLength(20)
                         .HasColumnType("character varying(20)");
 
+                    b.Property<string>("StatusToken")
+                        .HasMaxLength(64)
+                        .HasColumnType("character varying(64)");
+
                     b.Property<DateTime?>("UpdatedAt")
                         .HasColumnType("timestamp with time zone");
 
@@ -691,9 +941,48 @@ namespace Infrastructure.Migrations
 
                     b.HasIndex("QueueId", "Position");
 
+                    b.HasIndex("StatusToken")
+                        .IsUnique();
+
                     b.ToTable("Patients");
                 });
 
+            modelBuilder.Entity("Clinics.Domain.PendingCheckIn", b =>
+                {
+                    b.Property<int>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("integer");
+
+                    NpgsqlPropertyBuilderExtensions.UseIdentityByDefaultColumn(b.Property<int>("Id"));
+
+                    b.Property<string>("CountryCode")
+                        .IsRequired()
+                        .HasMaxLength(10)
+                        .HasColumnType("character varying(10)");
+
+                    b.Property<DateTime>("CreatedAt")
+                        .HasColumnType("timestamp with time zone");
+
+                    b.Property<string>("FullName")
+                        .IsRequired()
+                        .HasMaxLength(100)
+                        .HasColumnType("character varying(100)");
+
+                    b.Property<string>("PhoneNumber")
+                        .IsRequired()
+                        .HasMaxLength(20)
+                        .HasColumnType("character varying(20)");
+
+                    b.Property<int>("QueueId")
+                        .HasColumnType("integer");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("QueueId");
+
+                    b.ToTable("PendingCheckIns");
+                });
+
             modelBuilder.Entity("Clinics.Domain.PhoneWhatsAppRegistry", b =>
                 {
                     b.Property<int>("Id")
@@ -740,6 +1029,22 @@ namespace Infrastructure.Migrations
 
                     NpgsqlPropertyBuilderExtensions.UseIdentityByDefaultColumn(b.Property<int>("Id"));
 
+                    b.Property<int>("AutoNotifyDedupMinutes")
+                        .HasColumnType("integer");
+
+                    b.Property<bool>("AutoNotifyEnabled")
+                        .HasColumnType("boolean");
+
+                    b.Property<bool>("CheckInEnabled")
+                        .HasColumnType("boolean");
+
+                    b.Property<bool>("CheckInRequiresApproval")
+                        .HasColumnType("boolean");
+
+                    b.Property<string>("CheckInToken")
+                        .HasMaxLength(64)
+                        .HasColumnType("character varying(64)");
+
                     b.Property<DateTime>("CreatedAt")
                         .HasColumnType("timestamp with time zone");
 
@@ -749,6 +1054,9 @@ namespace Infrastructure.Migrations
                     b.Property<int>("CurrentPosition")
                         .HasColumnType("integer");
 
+                    b.Property<string>("CustomVariables")
+                        .HasColumnType("text");
+
                     b.Property<DateTime?>("DeletedAt")
                         .HasColumnType("timestamp with time zone");
 
@@ -783,6 +1091,9 @@ namespace Infrastructure.Migrations
 
                     b.HasKey("Id");
 
+                    b.HasIndex("CheckInToken")
+                        .IsUnique();
+
                     b.HasIndex("DoctorName");
 
                     b.HasIndex("ModeratorId");
@@ -1101,6 +1412,17 @@ namespace Infrastructure.Migrations
                     b.ToTable("WhatsAppSessions");
                 });
 
+            modelBuilder.Entity("Clinics.Domain.DoNotContactEntry", b =>
+                {
+                    b.HasOne("Clinics.Domain.User", "Moderator")
+                        .WithMany()
+                        .HasForeignKey("ModeratorId")
+                        .OnDelete(DeleteBehavior.Restrict)
+                        .IsRequired();
+
+                    b.Navigation("Moderator");
+                });
+
             modelBuilder.Entity("Clinics.Domain.ExtensionCommand", b =>
                 {
                     b.HasOne("Clinics.Domain.Message", "Message")
@@ -1167,6 +1489,35 @@ namespace Infrastructure.Migrations
                     b.Navigation("Moderator");
                 });
 
+            modelBuilder.Entity("Clinics.Domain.InboundMessage", b =>
+                {
+                    b.HasOne("Clinics.Domain.User", "Moderator")
+                        .WithMany()
+                        .HasForeignKey("ModeratorId")
+                        .OnDelete(DeleteBehavior.Restrict)
+                        .IsRequired();
+
+                    b.HasOne("Clinics.Domain.Patient", "Patient")
+                        .WithMany()
+                        .HasForeignKey("PatientId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+
+                    b.Navigation("Moderator");
+
+                    b.Navigation("Patient");
+                });
+
+            modelBuilder.Entity("Clinics.Domain.LibraryTemplate", b =>
+                {
+                    b.HasOne("Clinics.Domain.User", "Moderator")
+                        .WithMany()
+                        .HasForeignKey("ModeratorId")
+                        .OnDelete(DeleteBehavior.Restrict);
+
+                    b.Navigation("Moderator");
+                });
+
             modelBuilder.Entity("Clinics.Domain.Message", b =>
                 {
                     b.HasOne("Clinics.Domain.User", "Moderator")
@@ -1183,11 +1534,18 @@ namespace Infrastructure.Migrations
                         .WithMany()
                         .HasForeignKey("TemplateId");
 
+                    b.HasOne("Clinics.Domain.MessageTemplateVersion", "TemplateVersion")
+                        .WithMany()
+                        .HasForeignKey("TemplateVersionId")
+                        .OnDelete(DeleteBehavior.Restrict);
+
                     b.Navigation("Moderator");
 
                     b.Navigation("Queue");
 
                     b.Navigation("Template");
+
+                    b.Navigation("TemplateVersion");
                 });
 
             modelBuilder.Entity("Clinics.Domain.MessageCondition", b =>
@@ -1233,6 +1591,11 @@ namespace Infrastructure.Migrations
                         .OnDelete(DeleteBehavior.Cascade)
                         .IsRequired();
 
+                    b.HasOne("Clinics.Domain.LibraryTemplate", "LibraryTemplate")
+                        .WithMany()
+                        .HasForeignKey("LibraryTemplateId")
+                        .OnDelete(DeleteBehavior.SetNull);
+
                     b.HasOne("Clinics.Domain.User", "Moderator")
                         .WithMany()
                         .HasForeignKey("ModeratorId")
@@ -1247,11 +1610,24 @@ namespace Infrastructure.Migrations
 
                     b.Navigation("Condition");
 
+                    b.Navigation("LibraryTemplate");
+
                     b.Navigation("Moderator");
 
                     b.Navigation("Queue");
                 });
 
+            modelBuilder.Entity("Clinics.Domain.MessageTemplateVersion", b =>
+                {
+                    b.HasOne("Clinics.Domain.MessageTemplate", "Template")
+                        .WithMany()
+                        .HasForeignKey("TemplateId")
+                        .OnDelete(DeleteBehavior.Restrict)
+                        .IsRequired();
+
+                    b.Navigation("Template");
+                });
+
             modelBuilder.Entity("Clinics.Domain.Patient", b =>
                 {
                     b.HasOne("Clinics.Domain.Queue", "Queue")
@@ -1263,6 +1639,17 @@ namespace Infrastructure.Migrations
                     b.Navigation("Queue");
                 });
 
+            modelBuilder.Entity("Clinics.Domain.PendingCheckIn", b =>
+                {
+                    b.HasOne("Clinics.Domain.Queue", "Queue")
+                        .WithMany()
+                        .HasForeignKey("QueueId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+
+                    b.Navigation("Queue");
+                });
+
             modelBuilder.Entity("Clinics.Domain.Queue", b =>
                 {
                     b.HasOne("Clinics.Domain.User", "Moderator")
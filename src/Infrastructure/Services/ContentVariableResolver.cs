@@ -1,6 +1,9 @@
 using Clinics.Domain;
 using System;
+using System.Collections.Generic;
 using System.Globalization;
+using System.Text;
+using System.Text.RegularExpressions;
 
 namespace Clinics.Infrastructure.Services
 {
@@ -13,25 +16,48 @@ namespace Clinics.Infrastructure.Services
         /// <summary>
         /// Resolves all template variables in content string.
         /// </summary>
-        /// <param name="templateContent">Template content with variables (e.g., "{PN}", "{CQP}", "{ETR}")</param>
+        /// <param name="templateContent">Template content with variables (e.g., "{PN}", "{CQP}", "{PN|عزيزي المريض}")</param>
         /// <param name="patient">Patient entity for name and position data</param>
         /// <param name="queue">Queue entity for current position and estimated time</param>
         /// <param name="calculatedPosition">Pre-calculated position offset (Position - CurrentPosition)</param>
+        /// <param name="customVariables">Optional per-queue custom variables (e.g., { "ROOM": "12" })</param>
+        /// <param name="statusLink">Optional URL of the patient's public queue status page ({LINK})</param>
         /// <returns>Content with all variables replaced by actual values</returns>
-        string ResolveVariables(string templateContent, Patient patient, Queue queue, int calculatedPosition);
+        string ResolveVariables(string templateContent, Patient patient, Queue queue, int calculatedPosition, IReadOnlyDictionary<string, string>? customVariables = null, string? statusLink = null);
     }
 
     public class ContentVariableResolver : IContentVariableResolver
     {
+        /// <summary>
+        /// Same syntax as the frontend engine (apps/web/utils/templatePlaceholders.ts):
+        /// {KEY} or {KEY|fallback}; keys are uppercase letters, digits and underscores.
+        /// </summary>
+        private static readonly Regex PlaceholderRegex = new(@"\{([A-Z][A-Z0-9_]*)(?:\|([^{}]*))?\}", RegexOptions.Compiled);
+
+        /// <summary>
+        /// Conditional blocks: {{#if OFFSET<=2}}...{{else}}...{{/if}} (operators: &lt; &lt;= &gt; &gt;= == !=, or a bare KEY).
+        /// </summary>
+        private static readonly Regex BlockRegex = new(@"\{\{([^{}]*)\}\}", RegexOptions.Compiled);
+        private static readonly Regex ConditionRegex = new(@"^([A-Z][A-Z0-9_]*)\s*(?:(<=|>=|==|!=|<|>)\s*(-?\d+(?:\.\d+)?|""[^""]*""|'[^']*'))?$", RegexOptions.Compiled);
+
         /// <summary>
         /// Supported template variables:
-        /// {PN} - Patient Name (FullName or fallback to "Patient ID: X")
+        /// {PN} - Patient Name (Patient.FullName)
         /// {PQP} - Patient Queue Position (absolute position from Patient.Position)
         /// {CQP} - Current Queue Position (from Queue.CurrentPosition)
         /// {ETR} - Estimated Time Remaining (calculated as CalculatedPosition * EstimatedWaitMinutes)
-        /// {DN} - Doctor/Queue Name (from Queue.DoctorName)
+        /// {DN}, {CN}, {QN} - Doctor/Clinic/Queue Name (from Queue.DoctorName)
+        /// {OFFSET} - CalculatedPosition (Position - CurrentPosition)
+        /// {DATE} - Today's date (dd/MM/yyyy, clinic time zone)
+        /// {TIME} - Current time (HH:mm, clinic time zone)
+        /// {APPT_TIME} - Expected appointment time (now + ETR, HH:mm)
+        /// {LINK} - Patient's public queue status page (statusLink; empty when not provided)
+        /// Plus any per-queue custom variables. Missing/empty values use the fallback ("{PN|عزيزي المريض}"),
+        /// else the built-in default ({PN} → "Patient ID: X", {DN}/{CN}/{QN} → "غير محدد"), else an empty string;
+        /// unknown variables are left unchanged.
+        /// Conditional blocks are evaluated before variables are replaced.
         /// </summary>
-        public string ResolveVariables(string templateContent, Patient patient, Queue queue, int calculatedPosition)
+        public string ResolveVariables(string templateContent, Patient patient, Queue queue, int calculatedPosition, IReadOnlyDictionary<string, string>? customVariables = null, string? statusLink = null)
         {
             if (string.IsNullOrWhiteSpace(templateContent))
             {
@@ -48,37 +74,199 @@ namespace Clinics.Infrastructure.Services
                 throw new ArgumentNullException(nameof(queue), "Queue is required for variable resolution");
             }
 
-            // {PN} - Patient Name
-            var patientName = !string.IsNullOrWhiteSpace(patient.FullName)
-                ? patient.FullName
-                : $"Patient ID: {patient.Id}";
-
-            // {PQP} - Patient Queue Position (absolute)
-            var patientQueuePosition = patient.Position;
-
-            // {CQP} - Current Queue Position
-            var currentQueuePosition = queue.CurrentPosition;
-
             // {ETR} - Estimated Time Remaining
             var estimatedTimePerSession = queue.EstimatedWaitMinutes > 0
                 ? queue.EstimatedWaitMinutes
                 : 15; // Default 15 minutes if not set or invalid
 
-            var etrMinutes = calculatedPosition * estimatedTimePerSession;
-            var etrDisplay = FormatTimeDisplay(etrMinutes);
+            var etrMinutes = Math.Max(0, calculatedPosition) * estimatedTimePerSession;
+            var now = TimeZoneInfo.ConvertTimeFromUtc(DateTime.UtcNow, ClinicTimeZone);
+
+            var values = new Dictionary<string, string?>
+            {
+                ["PN"] = patient.FullName,
+                ["PQP"] = patient.Position.ToString(CultureInfo.InvariantCulture),
+                ["CQP"] = queue.CurrentPosition.ToString(CultureInfo.InvariantCulture),
+                ["ETR"] = FormatTimeDisplay(etrMinutes),
+                ["DN"] = queue.DoctorName,
+                ["CN"] = queue.DoctorName,
+                ["QN"] = queue.DoctorName,
+                ["OFFSET"] = calculatedPosition.ToString(CultureInfo.InvariantCulture),
+                ["DATE"] = now.ToString("dd/MM/yyyy", CultureInfo.InvariantCulture),
+                ["TIME"] = now.ToString("HH:mm", CultureInfo.InvariantCulture),
+                ["APPT_TIME"] = now.AddMinutes(etrMinutes).ToString("HH:mm", CultureInfo.InvariantCulture),
+                ["LINK"] = statusLink,
+            };
+
+            // Custom variables never override built-in keys
+            if (customVariables != null)
+            {
+                foreach (var (key, value) in customVariables)
+                {
+                    values.TryAdd(key, value);
+                }
+            }
+
+            var defaultFallbacks = new Dictionary<string, string>
+            {
+                ["PN"] = $"Patient ID: {patient.Id}",
+                ["DN"] = "غير محدد",
+                ["CN"] = "غير محدد",
+                ["QN"] = "غير محدد",
+            };
+
+            var content = RenderConditionalBlocks(templateContent, values);
+
+            return PlaceholderRegex.Replace(content, match =>
+            {
+                var key = match.Groups[1].Value;
+                if (!values.TryGetValue(key, out var value))
+                {
+                    return match.Value; // Unknown variable - leave as-is
+                }
 
-            // {DN} - Doctor/Queue Name
-            var doctorName = queue.DoctorName ?? "غير محدد";
+                if (string.IsNullOrWhiteSpace(value))
+                {
+                    if (match.Groups[2].Success)
+                    {
+                        return match.Groups[2].Value;
+                    }
 
-            // Replace all variables
-            var resolvedContent = templateContent
-                .Replace("{PN}", patientName)
-                .Replace("{PQP}", patientQueuePosition.ToString(CultureInfo.InvariantCulture))
-                .Replace("{CQP}", currentQueuePosition.ToString(CultureInfo.InvariantCulture))
-                .Replace("{ETR}", etrDisplay)
-                .Replace("{DN}", doctorName);
+                    return defaultFallbacks.TryGetValue(key, out var defaultValue) ? defaultValue : string.Empty;
+                }
+
+                return value;
+            });
+        }
+
+        /// <summary>
+        /// Evaluates {{#if}}/{{else}}/{{/if}} blocks, keeping only the active branches.
+        /// Malformed blocks are handled like the frontend engine: stray {{else}}/{{/if}} are dropped,
+        /// unclosed blocks run to the end, unknown {{...}} tokens are kept as text.
+        /// </summary>
+        private static string RenderConditionalBlocks(string template, IReadOnlyDictionary<string, string?> values)
+        {
+            var output = new StringBuilder();
+            var stack = new Stack<(bool ParentActive, bool Condition, bool InElse)>();
+            var active = true;
+            var lastIndex = 0;
+
+            foreach (Match match in BlockRegex.Matches(template))
+            {
+                if (active)
+                {
+                    output.Append(template, lastIndex, match.Index - lastIndex);
+                }
+                lastIndex = match.Index + match.Length;
+
+                var directive = match.Groups[1].Value.Trim();
+                if (directive.StartsWith("#if", StringComparison.Ordinal))
+                {
+                    var condition = EvaluateCondition(directive.Substring(3).Trim(), values);
+                    stack.Push((active, condition, false));
+                    active = active && condition;
+                }
+                else if (directive == "else")
+                {
+                    if (stack.Count == 0 || stack.Peek().InElse)
+                    {
+                        continue;
+                    }
+
+                    var frame = stack.Pop();
+                    stack.Push((frame.ParentActive, frame.Condition, true));
+                    active = frame.ParentActive && !frame.Condition;
+                }
+                else if (directive == "/if")
+                {
+                    if (stack.Count > 0)
+                    {
+                        active = stack.Pop().ParentActive;
+                    }
+                }
+                else if (active)
+                {
+                    output.Append(match.Value);
+                }
+            }
+
+            if (active)
+            {
+                output.Append(template, lastIndex, template.Length - lastIndex);
+            }
+
+            return output.ToString();
+        }
+
+        /// <summary>
+        /// Evaluates a block condition. Ordering operators compare numerically (false if not numbers);
+        /// == and != compare numerically for numeric operands, otherwise as strings.
+        /// Invalid expressions evaluate to false.
+        /// </summary>
+        private static bool EvaluateCondition(string expression, IReadOnlyDictionary<string, string?> values)
+        {
+            var match = ConditionRegex.Match(expression);
+            if (!match.Success)
+            {
+                return false;
+            }
+
+            values.TryGetValue(match.Groups[1].Value, out var value);
+            if (!match.Groups[2].Success)
+            {
+                return !string.IsNullOrWhiteSpace(value);
+            }
+
+            var op = match.Groups[2].Value;
+            if (string.IsNullOrWhiteSpace(value))
+            {
+                return op == "!=";
+            }
+
+            var rawOperand = match.Groups[3].Value;
+            var isStringOperand = rawOperand.StartsWith('"') || rawOperand.StartsWith('\'');
+            var operand = isStringOperand ? rawOperand[1..^1] : rawOperand;
+
+            double left = 0, right = 0;
+            var numeric = !isStringOperand
+                && double.TryParse(value, NumberStyles.Float, CultureInfo.InvariantCulture, out left)
+                && double.TryParse(operand, NumberStyles.Float, CultureInfo.InvariantCulture, out right);
+
+            return op switch
+            {
+                "==" => numeric ? left == right : value == operand,
+                "!=" => numeric ? left != right : value != operand,
+                "<" => numeric && left < right,
+                "<=" => numeric && left <= right,
+                ">" => numeric && left > right,
+                ">=" => numeric && left >= right,
+                _ => false
+            };
+        }
+
+        /// <summary>
+        /// Time zone used for {DATE}, {TIME} and {APPT_TIME} and for condition time criteria (clinics operate in Egypt).
+        /// Falls back to UTC if the zone is not available on the host.
+        /// </summary>
+        public static readonly TimeZoneInfo ClinicTimeZone = ResolveClinicTimeZone();
+
+        private static TimeZoneInfo ResolveClinicTimeZone()
+        {
+            foreach (var id in new[] { "Africa/Cairo", "Egypt Standard Time" })
+            {
+                try
+                {
+                    return TimeZoneInfo.FindSystemTimeZoneById(id);
+                }
+                catch (TimeZoneNotFoundException)
+                {
+                }
+                catch (InvalidTimeZoneException)
+                {
+                }
+            }
 
-            return resolvedContent;
+            return TimeZoneInfo.Utc;
         }
 
         /// <summary>
@@ -0,0 +1,138 @@
+using FluentAssertions;
+using Clinics.Api.Services;
+using Clinics.Domain;
+using Microsoft.EntityFrameworkCore;
+
+namespace Clinics.Api.Tests.Integration.Extension;
+
+/// <summary>
+/// Integration tests for patient replies and conversations (ConversationService).
+/// Uses EF Core InMemory provider for isolated database tests.
+///
+/// Tests verify:
+/// - Replies are kept only for numbers the moderator messaged recently, once per WhatsApp id
+/// - A chat list preview and the same reply seen later in the open chat are one message
+/// - Unread counts, marking read and the moderator scope of conversations
+/// </summary>
+public class ConversationServiceTests : IntegrationTestBase
+{
+    private readonly ConversationService _service;
+
+    public ConversationServiceTests()
+    {
+        _service = new ConversationService(DbContext);
+    }
+
+    private async Task<Patient> CreateMessagedPatientAsync(DateTime? sentAt = null)
+    {
+        DbContext.Queues.Add(new Clinics.Domain.Queue { Id = 1, DoctorName = "د. علي", ModeratorId = 7, CreatedBy = 7, CurrentPosition = 1 });
+        var patient = new Patient { QueueId = 1, FullName = "منى أحمد", PhoneNumber = "01011112222", CountryCode = "+20", Position = 3 };
+        DbContext.Patients.Add(patient);
+        await DbContext.SaveChangesAsync();
+
+        DbContext.Messages.Add(new Message
+        {
+            Id = Guid.NewGuid(),
+            Content = "دورك قريب",
+            FullName = patient.FullName,
+            CountryCode = "+20",
+            PatientPhone = "01011112222",
+            PatientId = patient.Id,
+            QueueId = 1,
+            ModeratorId = 7,
+            Status = "sent",
+            SentAt = sentAt ?? DateTime.UtcNow.AddHours(-1)
+        });
+        await DbContext.SaveChangesAsync();
+        return patient;
+    }
+
+    [Fact]
+    public async Task RecordInbound_KeepsRepliesOfRecentlyMessagedNumbersOnce()
+    {
+        var patient = await CreateMessagedPatientAsync();
+
+        var recorded = await _service.RecordInboundAsync(7, new[]
+        {
+            new InboundReply("201011112222", "false_201011112222@c.us_A1", "هتأخر شوية", null),
+            new InboundReply("201099998888", "false_201099998888@c.us_B1", "رسالة خاصة", null)
+        });
+        var again = await _service.RecordInboundAsync(7, new[]
+        {
+            new InboundReply("201011112222", "false_201011112222@c.us_A1", "هتأخر شوية", null)
+        });
+        var otherModerator = await _service.RecordInboundAsync(8, new[]
+        {
+            new InboundReply("201011112222", "false_201011112222@c.us_A2", "تمام", null)
+        });
+
+        recorded.Should().ContainSingle();
+        recorded[0].PatientId.Should().Be(patient.Id);
+        recorded[0].QueueId.Should().Be(1);
+        recorded[0].PhoneNumber.Should().Be("+201011112222");
+        again.Should().BeEmpty();
+        otherModerator.Should().BeEmpty();
+        (await DbContext.InboundMessages.CountAsync()).Should().Be(1);
+    }
+
+    [Fact]
+    public async Task RecordInbound_IgnoresNumbersMessagedBeforeTheWindow()
+    {
+        await CreateMessagedPatientAsync(sentAt: DateTime.UtcNow - ConversationService.KnownPatientWindow - TimeSpan.FromHours(1));
+
+        var recorded = await _service.RecordInboundAsync(7, new[]
+        {
+            new InboundReply("201011112222", "false_201011112222@c.us_A1", "مرحبا", null)
+        });
+
+        recorded.Should().BeEmpty();
+    }
+
+    [Fact]
+    public async Task RecordInbound_MergesAPreviewWithTheReplySeenInTheChat()
+    {
+        await CreateMessagedPatientAsync();
+
+        var preview = await _service.RecordInboundAsync(7, new[]
+        {
+            new InboundReply("201011112222", "preview_201011112222_1a2b", "عايز ألغي الحجز", null)
+        });
+        var opened = await _service.RecordInboundAsync(7, new[]
+        {
+            new InboundReply("201011112222", "false_201011112222@c.us_C3", "عايز ألغي الحجز", null)
+        });
+
+        preview.Should().ContainSingle();
+        opened.Should().BeEmpty();
+        var stored = await DbContext.InboundMessages.SingleAsync();
+        stored.WaMessageId.Should().Be("false_201011112222@c.us_C3");
+    }
+
+    [Fact]
+    public async Task UnreadAndMarkRead_FollowTheModeratorScope()
+    {
+        var patient = await CreateMessagedPatientAsync();
+        await _service.RecordInboundAsync(7, new[]
+        {
+            new InboundReply("201011112222", "false_201011112222@c.us_A1", "شكرا", null),
+            new InboundReply("201011112222", "false_201011112222@c.us_A2", "هاجي بعد ساعة", null)
+        });
+
+        var unread = await _service.GetUnreadAsync(7);
+        unread.Total.Should().Be(2);
+        unread.Conversations.Should().ContainSingle(c => c.PatientId == patient.Id && c.QueueId == 1 && c.UnreadCount == 2);
+        (await _service.GetUnreadAsync(null)).Total.Should().Be(2);
+        (await _service.GetUnreadAsync(8)).Total.Should().Be(0);
+
+        var conversation = await _service.GetConversationAsync(patient.Id, 7);
+        conversation!.UnreadCount.Should().Be(2);
+        conversation.Messages.Select(m => m.Direction).Should().Equal("outbound", "inbound", "inbound");
+        conversation.Messages[0].Status.Should().Be("sent");
+        (await _service.GetConversationAsync(patient.Id, 8)).Should().BeNull();
+
+        (await _service.MarkReadAsync(patient.Id, 8, userId: 9)).Should().BeFalse();
+        (await _service.MarkReadAsync(patient.Id, 7, userId: 9)).Should().BeTrue();
+        (await _service.GetUnreadAsync(7)).Total.Should().Be(0);
+        (await DbContext.InboundMessages.AllAsync(m => m.ReadBy == 9)).Should().BeTrue();
+    }
+}
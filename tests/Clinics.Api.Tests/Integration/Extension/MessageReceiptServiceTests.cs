@@ -0,0 +1,91 @@
+using FluentAssertions;
+using Clinics.Api.Services;
+using Clinics.Domain;
+
+namespace Clinics.Api.Tests.Integration.Extension;
+
+/// <summary>
+/// Integration tests for delivered/read receipts reported by the extension (MessageReceiptService).
+/// Uses EF Core InMemory provider for isolated database tests.
+///
+/// Tests verify:
+/// - Ticks set DeliveredAt/ReadAt (read implies delivered) and never move backwards
+/// - Other moderators' messages and messages that were not sent are ignored
+/// </summary>
+public class MessageReceiptServiceTests : IntegrationTestBase
+{
+    private readonly MessageReceiptService _service;
+
+    public MessageReceiptServiceTests()
+    {
+        _service = new MessageReceiptService(DbContext);
+    }
+
+    private async Task<Message> CreateMessageAsync(int moderatorId = 1, string status = "sent", DateTime? sentAt = null)
+    {
+        var message = new Message
+        {
+            Id = Guid.NewGuid(),
+            Content = "Test message content",
+            FullName = "Test Patient",
+            CountryCode = "+20",
+            PatientPhone = "1234567890",
+            Status = status,
+            ModeratorId = moderatorId,
+            SentAt = sentAt ?? DateTime.UtcNow.AddMinutes(-10)
+        };
+        DbContext.Messages.Add(message);
+        await DbContext.SaveChangesAsync();
+        return message;
+    }
+
+    [Fact]
+    public async Task Receipts_SetDeliveredAndReadOnce()
+    {
+        var message = await CreateMessageAsync();
+        var deliveredAt = DateTime.UtcNow.AddMinutes(-5);
+
+        (await _service.ApplyReceiptsAsync(1, new[] { new MessageReceipt(message.Id, "delivered", deliveredAt) })).Should().Be(1);
+        message.DeliveredAt.Should().Be(deliveredAt);
+        message.ReadAt.Should().BeNull();
+        message.Status.Should().Be("sent");
+
+        (await _service.ApplyReceiptsAsync(1, new[] { new MessageReceipt(message.Id, "read", null) })).Should().Be(1);
+        message.DeliveredAt.Should().Be(deliveredAt);
+        message.ReadAt.Should().NotBeNull();
+
+        // A later "delivered" report must not undo the read
+        (await _service.ApplyReceiptsAsync(1, new[] { new MessageReceipt(message.Id, "delivered", null) })).Should().Be(0);
+        message.ReadAt.Should().NotBeNull();
+    }
+
+    [Fact]
+    public async Task Read_ImpliesDeliveredAndIsClampedToTheSendTime()
+    {
+        var sentAt = DateTime.UtcNow.AddMinutes(-10);
+        var message = await CreateMessageAsync(sentAt: sentAt);
+
+        await _service.ApplyReceiptsAsync(1, new[] { new MessageReceipt(message.Id, "read", sentAt.AddHours(-1)) });
+
+        message.DeliveredAt.Should().Be(sentAt);
+        message.ReadAt.Should().Be(sentAt);
+    }
+
+    [Fact]
+    public async Task Receipts_IgnoreOtherModeratorsAndUnsentMessages()
+    {
+        var otherModerator = await CreateMessageAsync(moderatorId: 2);
+        var failed = await CreateMessageAsync(status: "failed");
+
+        var updated = await _service.ApplyReceiptsAsync(1, new[]
+        {
+            new MessageReceipt(otherModerator.Id, "read", null),
+            new MessageReceipt(failed.Id, "delivered", null),
+            new MessageReceipt(Guid.NewGuid(), "read", null)
+        });
+
+        updated.Should().Be(0);
+        otherModerator.ReadAt.Should().BeNull();
+        failed.DeliveredAt.Should().BeNull();
+    }
+}
@@ -0,0 +1,86 @@
+using FluentAssertions;
+using Clinics.Api.Services;
+using Clinics.Domain;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using Moq;
+
+namespace Clinics.Api.Tests.Integration.Patients;
+
+/// <summary>
+/// Integration tests for batch reorders with absolute positions (PatientPositionService.AssignPositionsAsync).
+/// Uses EF Core InMemory provider for isolated database tests.
+///
+/// Tests verify:
+/// - A move followed by its undo returns every patient to the original position; nobody else shifts
+/// - Deleted patients neither block a position nor move
+/// - A batch that would share a position with an active patient outside it changes nothing
+/// </summary>
+public class PatientPositionAssignmentTests : IntegrationTestBase
+{
+    private readonly PatientPositionService _service;
+
+    public PatientPositionAssignmentTests()
+    {
+        _service = new PatientPositionService(DbContext, new Mock<ILogger<PatientPositionService>>().Object);
+    }
+
+    private async Task SeedQueueAsync(int patientCount)
+    {
+        DbContext.Queues.Add(new Clinics.Domain.Queue { Id = 1, DoctorName = "د. علي", ModeratorId = 7, CreatedBy = 7, CurrentPosition = 1 });
+        for (var i = 1; i <= patientCount; i++)
+        {
+            DbContext.Patients.Add(new Patient { Id = i, QueueId = 1, FullName = $"مريض {i}", PhoneNumber = $"10000000{i:00}", Position = i });
+        }
+        await DbContext.SaveChangesAsync();
+    }
+
+    private async Task<Dictionary<int, int>> PositionsAsync()
+    {
+        return await DbContext.Patients.Where(p => !p.IsDeleted).ToDictionaryAsync(p => p.Id, p => p.Position);
+    }
+
+    [Fact]
+    public async Task MoveThenUndo_RestoresTheOriginalPositions()
+    {
+        await SeedQueueAsync(5);
+        var original = await PositionsAsync();
+
+        // Alt+Down on row 1: patients 1 and 2 swap
+        var move = await _service.AssignPositionsAsync(1, new[] { new PatientPositionAssignment(1, 2), new PatientPositionAssignment(2, 1) });
+        move.Success.Should().BeTrue();
+        (await PositionsAsync()).Should().Equal(new Dictionary<int, int> { [1] = 2, [2] = 1, [3] = 3, [4] = 4, [5] = 5 });
+
+        var undo = await _service.AssignPositionsAsync(1, new[] { new PatientPositionAssignment(1, 1), new PatientPositionAssignment(2, 2) });
+        undo.Success.Should().BeTrue();
+        (await PositionsAsync()).Should().Equal(original);
+    }
+
+    [Fact]
+    public async Task DeletedPatients_AreIgnored()
+    {
+        await SeedQueueAsync(3);
+        var deleted = await DbContext.Patients.FindAsync(3);
+        deleted!.IsDeleted = true;
+        await DbContext.SaveChangesAsync();
+
+        var result = await _service.AssignPositionsAsync(1, new[] { new PatientPositionAssignment(1, 3), new PatientPositionAssignment(2, 1) });
+
+        result.Success.Should().BeTrue();
+        (await PositionsAsync()).Should().Equal(new Dictionary<int, int> { [1] = 3, [2] = 1 });
+        deleted.Position.Should().Be(3);
+        (await _service.AssignPositionsAsync(1, new[] { new PatientPositionAssignment(3, 5) })).ErrorMessage.Should().Be("patient_not_found");
+    }
+
+    [Fact]
+    public async Task PositionHeldOutsideTheBatch_IsAConflict()
+    {
+        await SeedQueueAsync(3);
+
+        var result = await _service.AssignPositionsAsync(1, new[] { new PatientPositionAssignment(1, 3) });
+
+        result.Success.Should().BeFalse();
+        result.ErrorMessage.Should().Be("position_conflict");
+        (await PositionsAsync()).Should().Equal(new Dictionary<int, int> { [1] = 1, [2] = 2, [3] = 3 });
+    }
+}
@@ -0,0 +1,93 @@
+using FluentAssertions;
+using Clinics.Api.Services;
+using Clinics.Domain;
+using Microsoft.EntityFrameworkCore;
+
+namespace Clinics.Api.Tests.Integration.Queue;
+
+/// <summary>
+/// Integration tests for patient self check-in (CheckInService, CheckInRateLimiter).
+/// Uses EF Core InMemory provider for isolated database tests.
+///
+/// Tests verify:
+/// - The link token is created once and regenerating it revokes the old link
+/// - Check-ins append at the next position; approval moves a pending check-in into the queue
+/// - A number already in the queue (any format) or over its limit cannot check in again
+/// </summary>
+public class CheckInServiceTests : IntegrationTestBase
+{
+    private readonly CheckInService _service;
+
+    public CheckInServiceTests()
+    {
+        _service = new CheckInService(DbContext);
+    }
+
+    private async Task<Clinics.Domain.Queue> CreateQueueAsync()
+    {
+        var queue = new Clinics.Domain.Queue { Id = 1, DoctorName = "د. علي", ModeratorId = 7, CreatedBy = 7, CurrentPosition = 1 };
+        DbContext.Queues.Add(queue);
+        DbContext.Patients.AddRange(
+            new Patient { Id = 1, QueueId = 1, FullName = "أحمد", PhoneNumber = "01012345678", CountryCode = "+20", Position = 1, Status = "in_service" },
+            new Patient { Id = 2, QueueId = 1, FullName = "سارة", PhoneNumber = "1098765432", CountryCode = "+20", Position = 2, Status = "completed" });
+        await DbContext.SaveChangesAsync();
+        return queue;
+    }
+
+    [Fact]
+    public async Task Token_IsCreatedOnceAndRegeneratedOnDemand()
+    {
+        var queue = await CreateQueueAsync();
+
+        await _service.EnsureTokenAsync(queue);
+        var token = queue.CheckInToken;
+        await _service.EnsureTokenAsync(queue);
+
+        queue.CheckInToken.Should().Be(token).And.HaveLength(32);
+        (await _service.FindQueueByTokenAsync(token!))!.Id.Should().Be(1);
+
+        await _service.RegenerateTokenAsync(queue);
+
+        queue.CheckInToken.Should().NotBe(token);
+        (await _service.FindQueueByTokenAsync(token!)).Should().BeNull();
+    }
+
+    [Fact]
+    public async Task AddAndApprove_AppendAtNextPosition()
+    {
+        var queue = await CreateQueueAsync();
+
+        var added = await _service.AddPatientAsync(queue, "منى", "1011112222", "+20", userId: null);
+        var pending = await _service.AddPendingAsync(queue, "خالد", "1033334444", "+20");
+        var approved = await _service.ApproveAsync(queue, pending, userId: 7);
+
+        added.Position.Should().Be(3);
+        added.Status.Should().Be("waiting");
+        approved.Position.Should().Be(4);
+        approved.CreatedBy.Should().Be(7);
+        (await DbContext.PendingCheckIns.AnyAsync()).Should().BeFalse();
+    }
+
+    [Fact]
+    public async Task IsCheckedIn_MatchesActiveAndPendingNumbersInAnyFormat()
+    {
+        var queue = await CreateQueueAsync();
+        await _service.AddPendingAsync(queue, "خالد", "1033334444", "+20");
+
+        (await _service.IsCheckedInAsync(1, "1012345678", "+20")).Should().BeTrue();      // in service
+        (await _service.IsCheckedInAsync(1, "01033334444", "+20")).Should().BeTrue();     // pending
+        (await _service.IsCheckedInAsync(1, "1098765432", "+20")).Should().BeFalse();     // completed
+    }
+
+    [Fact]
+    public void RateLimiter_LimitsEachNumber()
+    {
+        var limiter = new CheckInRateLimiter();
+
+        for (var i = 0; i < CheckInRateLimiter.PermitsPerNumber; i++)
+            limiter.TryAcquire("1012345678", "+20").Should().BeTrue();
+
+        limiter.TryAcquire("01012345678", "+20").Should().BeFalse();
+        limiter.TryAcquire("1098765432", "+20").Should().BeTrue();
+    }
+}
@@ -0,0 +1,75 @@
+using System.Text.Json;
+using FluentAssertions;
+using Clinics.Api.Helpers;
+using Clinics.Api.Services;
+using Clinics.Domain;
+using Clinics.Infrastructure.Services;
+using Microsoft.Extensions.Configuration;
+
+namespace Clinics.Api.Tests.Integration.Queue;
+
+/// <summary>
+/// Integration tests for the do-not-contact list in the shared send pipeline (MessageQueueService).
+/// Uses EF Core InMemory provider for isolated database tests.
+///
+/// Tests verify:
+/// - Stored patient numbers match E.164 list entries (PhoneNumberHelper), with the same keys as the web app
+///   (tests/fixtures/phone-keys.json, also checked against getPhoneKey)
+/// - Listed patients get no queued message, only on their own moderator's sessions
+/// </summary>
+public class DoNotContactTests : IntegrationTestBase
+{
+    private readonly MessageQueueService _service;
+
+    public DoNotContactTests()
+    {
+        _service = new MessageQueueService(
+            DbContext,
+            new ContentVariableResolver(),
+            new TemplateVersionService(DbContext),
+            new DoNotContactService(DbContext),
+            new PatientStatusService(DbContext, new ConfigurationBuilder().Build()));
+    }
+
+    public static IEnumerable<object[]> SharedPhoneKeys()
+    {
+        var json = File.ReadAllText(Path.Combine(AppContext.BaseDirectory, "Fixtures", "phone-keys.json"));
+        return JsonSerializer.Deserialize<List<JsonElement>>(json)!
+            .Select(c => new object[] { c.GetProperty("phone").GetString()!, c.GetProperty("countryCode").GetString()!, c.GetProperty("key").GetString()! });
+    }
+
+    [Theory]
+    [MemberData(nameof(SharedPhoneKeys))]
+    public void ToE164_MatchesListFormat(string phone, string countryCode, string expected)
+    {
+        PhoneNumberHelper.ToE164(phone, countryCode).Should().Be(expected);
+    }
+
+    [Fact]
+    public async Task AddSessionMessages_SkipsPatientsOnModeratorList()
+    {
+        var queue = new Clinics.Domain.Queue { Id = 1, DoctorName = "د. علي", ModeratorId = 7, CreatedBy = 7, CurrentPosition = 1 };
+        DbContext.Queues.Add(queue);
+        DbContext.DoNotContactEntries.AddRange(
+            new DoNotContactEntry { ModeratorId = 7, PhoneNumber = "+201012345678" },
+            new DoNotContactEntry { ModeratorId = 8, PhoneNumber = "+201098765432" });
+
+        var template = new MessageTemplate { Title = "تذكير", Content = "مرحباً {PN}", QueueId = 1, ModeratorId = 7 };
+        DbContext.MessageTemplates.Add(template);
+
+        var patients = new List<Patient>
+        {
+            new() { QueueId = 1, FullName = "أحمد", PhoneNumber = "01012345678", CountryCode = "+20", Position = 2 },
+            new() { QueueId = 1, FullName = "سارة", PhoneNumber = "1098765432", CountryCode = "+20", Position = 3 }
+        };
+        DbContext.Patients.AddRange(patients);
+        await DbContext.SaveChangesAsync();
+
+        var session = new MessageSession { Id = Guid.NewGuid(), QueueId = 1, ModeratorId = 7, UserId = 7, Status = "active" };
+
+        var messages = await _service.AddSessionMessagesAsync(session, template, queue, patients, senderUserId: 7);
+
+        messages.Select(m => m.FullName).Should().Equal("سارة");
+        session.TotalMessages.Should().Be(1);
+    }
+}
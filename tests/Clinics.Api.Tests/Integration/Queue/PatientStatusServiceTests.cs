@@ -0,0 +1,81 @@
+using FluentAssertions;
+using Clinics.Api.Services;
+using Clinics.Domain;
+using Clinics.Infrastructure.Services;
+using Microsoft.Extensions.Configuration;
+
+namespace Clinics.Api.Tests.Integration.Queue;
+
+/// <summary>
+/// Integration tests for patient status links (PatientStatusService).
+/// Uses EF Core InMemory provider for isolated database tests.
+///
+/// Tests verify:
+/// - New patients get a status token and {LINK} in queued messages is their status page
+/// - The public status shows the patient's first name and place; deleted patients have none
+/// </summary>
+public class PatientStatusServiceTests : IntegrationTestBase
+{
+    private readonly PatientStatusService _service;
+
+    public PatientStatusServiceTests()
+    {
+        var configuration = new ConfigurationBuilder()
+            .AddInMemoryCollection(new Dictionary<string, string?> { ["PublicAppUrl"] = "https://clinic.example/" })
+            .Build();
+        _service = new PatientStatusService(DbContext, configuration);
+    }
+
+    private async Task<Patient> CreatePatientAsync()
+    {
+        DbContext.Queues.Add(new Clinics.Domain.Queue { Id = 1, DoctorName = "د. علي", ModeratorId = 7, CreatedBy = 7, CurrentPosition = 2, EstimatedWaitMinutes = 10 });
+        var patient = new Patient { QueueId = 1, FullName = "منى أحمد", PhoneNumber = "1011112222", Position = 5 };
+        DbContext.Patients.Add(patient);
+        await DbContext.SaveChangesAsync();
+        return patient;
+    }
+
+    [Fact]
+    public async Task QueuedMessages_LinkToThePatientsStatusPage()
+    {
+        var patient = await CreatePatientAsync();
+        var template = new MessageTemplate { Title = "تذكير", Content = "تابع دورك: {LINK}", QueueId = 1, ModeratorId = 7 };
+        DbContext.MessageTemplates.Add(template);
+        await DbContext.SaveChangesAsync();
+
+        var messageQueue = new MessageQueueService(
+            DbContext,
+            new ContentVariableResolver(),
+            new TemplateVersionService(DbContext),
+            new DoNotContactService(DbContext),
+            _service);
+        var session = new MessageSession { Id = Guid.NewGuid(), QueueId = 1, ModeratorId = 7, UserId = 7, Status = "active" };
+
+        var messages = await messageQueue.AddSessionMessagesAsync(
+            session, template, (await DbContext.Queues.FindAsync(1))!, new List<Patient> { patient }, senderUserId: 7);
+
+        patient.StatusToken.Should().HaveLength(32);
+        messages.Single().Content.Should().Be($"تابع دورك: https://clinic.example/status/{patient.StatusToken}");
+    }
+
+    [Fact]
+    public async Task GetStatus_ShowsOnlyThePatientsOwnPlace()
+    {
+        var patient = await CreatePatientAsync();
+
+        var status = await _service.GetStatusAsync(patient.StatusToken!);
+
+        status.Should().NotBeNull();
+        status!.PatientFirstName.Should().Be("منى");
+        status.PatientPosition.Should().Be(5);
+        status.CurrentPosition.Should().Be(2);
+        status.EstimatedWaitMinutes.Should().Be(10);
+        (await _service.GetQueueIdAsync(patient.StatusToken!)).Should().Be(1);
+
+        patient.IsDeleted = true;
+        await DbContext.SaveChangesAsync();
+
+        (await _service.GetStatusAsync(patient.StatusToken!)).Should().BeNull();
+        (await _service.GetStatusAsync("unknown")).Should().BeNull();
+    }
+}
@@ -0,0 +1,106 @@
+using FluentAssertions;
+using Clinics.Api.Services;
+using Clinics.Domain;
+using Microsoft.EntityFrameworkCore;
+
+namespace Clinics.Api.Tests.Integration.Queue;
+
+/// <summary>
+/// Integration tests for queue duplication (QueueDuplicationService).
+/// Uses EF Core InMemory provider for isolated database tests.
+///
+/// Tests verify:
+/// - Settings, templates and conditions (with criteria) are copied to the new queue
+/// - Patients are copied only on request, with statuses reset to waiting
+/// </summary>
+public class QueueDuplicationServiceTests : IntegrationTestBase
+{
+    private readonly QueueDuplicationService _service;
+
+    public QueueDuplicationServiceTests()
+    {
+        _service = new QueueDuplicationService(DbContext, new TemplateVersionService(DbContext));
+    }
+
+    private async Task<Clinics.Domain.Queue> CreateSourceQueueAsync()
+    {
+        var queue = new Clinics.Domain.Queue
+        {
+            Id = 1,
+            DoctorName = "د. علي",
+            ModeratorId = 7,
+            CreatedBy = 7,
+            CurrentPosition = 4,
+            EstimatedWaitMinutes = 20,
+            AutoNotifyEnabled = true,
+            CustomVariables = "{\"ROOM\":\"12\"}"
+        };
+        DbContext.Queues.Add(queue);
+
+        var conditions = new[]
+        {
+            new MessageCondition { QueueId = 1, Operator = "DEFAULT" },
+            new MessageCondition { QueueId = 1, Operator = "RANGE", MinValue = 1, MaxValue = 3, Criteria = "{\"daysOfWeek\":[0]}", CriteriaLogic = "AND" },
+            new MessageCondition { QueueId = 1, Operator = "UNCONDITIONED" }
+        };
+        DbContext.Set<MessageCondition>().AddRange(conditions);
+        await DbContext.SaveChangesAsync();
+
+        DbContext.MessageTemplates.AddRange(
+            new MessageTemplate { Title = "افتراضي", Content = "مكانك {PQP}", QueueId = 1, ModeratorId = 7, MessageConditionId = conditions[0].Id },
+            new MessageTemplate { Title = "قريب", Content = "دورك قريب يا {PN}", QueueId = 1, ModeratorId = 7, MessageConditionId = conditions[1].Id },
+            new MessageTemplate { Title = "محذوف", Content = "قالب محذوف", QueueId = 1, ModeratorId = 7, MessageConditionId = conditions[2].Id, IsDeleted = true });
+
+        DbContext.Patients.AddRange(
+            new Patient { QueueId = 1, FullName = "أحمد", PhoneNumber = "1012345678", Position = 1, Status = "completed" },
+            new Patient { QueueId = 1, FullName = "سارة", PhoneNumber = "1098765432", Position = 2, Status = "waiting" });
+
+        await DbContext.SaveChangesAsync();
+        return queue;
+    }
+
+    [Fact]
+    public async Task Duplicate_CopiesSettingsTemplatesAndConditions()
+    {
+        var source = await CreateSourceQueueAsync();
+
+        var result = await _service.DuplicateAsync(source, "د. علي (نسخة)", 9, includePatients: false, userId: 7);
+
+        result.TemplatesCopied.Should().Be(2);
+        result.ConditionsCopied.Should().Be(2);
+        result.PatientsCopied.Should().Be(0);
+
+        var queue = result.Queue;
+        queue.ModeratorId.Should().Be(9);
+        queue.CurrentPosition.Should().Be(1);
+        queue.EstimatedWaitMinutes.Should().Be(20);
+        queue.AutoNotifyEnabled.Should().BeTrue();
+        queue.CustomVariables.Should().Be("{\"ROOM\":\"12\"}");
+
+        var templates = await DbContext.MessageTemplates
+            .Include(t => t.Condition)
+            .Where(t => t.QueueId == queue.Id)
+            .OrderBy(t => t.Id)
+            .ToListAsync();
+        templates.Select(t => t.Condition!.Operator).Should().Equal("DEFAULT", "RANGE");
+        templates.Should().OnlyContain(t => t.ModeratorId == 9 && t.Condition!.TemplateId == t.Id);
+        templates[1].Condition!.Criteria.Should().Be("{\"daysOfWeek\":[0]}");
+        (await DbContext.Patients.CountAsync(p => p.QueueId == queue.Id)).Should().Be(0);
+    }
+
+    [Fact]
+    public async Task Duplicate_WithPatients_ResetsStatuses()
+    {
+        var source = await CreateSourceQueueAsync();
+
+        var result = await _service.DuplicateAsync(source, "نسخة", 7, includePatients: true, userId: 7);
+
+        var patients = await DbContext.Patients
+            .Where(p => p.QueueId == result.Queue.Id)
+            .OrderBy(p => p.Position)
+            .ToListAsync();
+        result.PatientsCopied.Should().Be(2);
+        patients.Select(p => p.FullName).Should().Equal("أحمد", "سارة");
+        patients.Should().OnlyContain(p => p.Status == "waiting");
+    }
+}
@@ -0,0 +1,102 @@
+using FluentAssertions;
+using Clinics.Api.Services;
+using Clinics.Domain;
+using Microsoft.EntityFrameworkCore;
+
+namespace Clinics.Api.Tests.Integration.Queue;
+
+/// <summary>
+/// Integration tests for the patient status workflow (QueueFlowService).
+/// Uses EF Core InMemory provider for isolated database tests.
+///
+/// Tests verify:
+/// - Call next completes the patient in service, calls the first waiting one and advances CQP
+/// - No-show cancels a patient without moving CQP; skip moves a patient to the end of the queue
+/// </summary>
+public class QueueFlowServiceTests : IntegrationTestBase
+{
+    private readonly QueueFlowService _service;
+
+    public QueueFlowServiceTests()
+    {
+        _service = new QueueFlowService(DbContext);
+    }
+
+    private async Task<Clinics.Domain.Queue> CreateQueueAsync()
+    {
+        var queue = new Clinics.Domain.Queue { Id = 1, DoctorName = "د. علي", ModeratorId = 7, CreatedBy = 7, CurrentPosition = 1 };
+        DbContext.Queues.Add(queue);
+        DbContext.Patients.AddRange(
+            new Patient { Id = 1, QueueId = 1, FullName = "أحمد", PhoneNumber = "1012345678", Position = 1, Status = "in_service" },
+            new Patient { Id = 2, QueueId = 1, FullName = "سارة", PhoneNumber = "1098765432", Position = 2, Status = "cancelled" },
+            new Patient { Id = 3, QueueId = 1, FullName = "منى", PhoneNumber = "1011112222", Position = 3, Status = "waiting" },
+            new Patient { Id = 4, QueueId = 1, FullName = "خالد", PhoneNumber = "1033334444", Position = 4, Status = "waiting" });
+        await DbContext.SaveChangesAsync();
+        return queue;
+    }
+
+    [Fact]
+    public async Task CallNext_CompletesCurrentAndCallsFirstWaiting()
+    {
+        var queue = await CreateQueueAsync();
+
+        var result = await _service.CallNextAsync(queue, userId: 7);
+
+        queue.CurrentPosition.Should().Be(3);
+        result.Patients.Select(p => (p.Id, p.Status)).Should().Equal((1, "completed"), (3, "in_service"));
+        (await DbContext.Patients.FindAsync(4))!.Status.Should().Be("waiting");
+    }
+
+    [Fact]
+    public async Task CallNext_CallsTheFirstWaitingPatientAfterCurrentPosition()
+    {
+        var queue = await CreateQueueAsync();
+        queue.CurrentPosition = 10;
+        DbContext.Patients.AddRange(
+            new Patient { Id = 5, QueueId = 1, FullName = "هدى", PhoneNumber = "1055556666", Position = 10, Status = "in_service" },
+            new Patient { Id = 6, QueueId = 1, FullName = "يوسف", PhoneNumber = "1077778888", Position = 12, Status = "" },
+            new Patient { Id = 7, QueueId = 1, FullName = "ليلى", PhoneNumber = "1099990000", Position = 11, Status = "completed" });
+        await DbContext.Patients.Where(p => p.Id == 1).ForEachAsync(p => p.Status = "completed");
+        await DbContext.SaveChangesAsync();
+
+        var result = await _service.CallNextAsync(queue, userId: 7);
+
+        // Patients 3 and 4 (positions 3 and 4) wait before CQP 10 and are passed over
+        queue.CurrentPosition.Should().Be(12);
+        result.Patients.Select(p => (p.Id, p.Status)).Should().Equal((5, "completed"), (6, "in_service"));
+
+        // Nobody waits after CQP any more: fall back to the lowest waiting position
+        var fallback = await _service.CallNextAsync(queue, userId: 7);
+        queue.CurrentPosition.Should().Be(3);
+        fallback.Patients.Select(p => (p.Id, p.Status)).Should().Equal((6, "completed"), (3, "in_service"));
+    }
+
+    [Fact]
+    public async Task CallNext_WithNoOneWaiting_OnlyCompletesCurrent()
+    {
+        var queue = await CreateQueueAsync();
+        await DbContext.Patients.Where(p => p.Status == "waiting").ForEachAsync(p => p.Status = "completed");
+        await DbContext.SaveChangesAsync();
+
+        var result = await _service.CallNextAsync(queue, userId: 7);
+
+        queue.CurrentPosition.Should().Be(1);
+        result.Patients.Select(p => p.Id).Should().Equal(1);
+    }
+
+    [Fact]
+    public async Task NoShowAndSkip_ChangeOnlyThePatient()
+    {
+        var queue = await CreateQueueAsync();
+
+        await _service.MarkNoShowAsync(queue, (await DbContext.Patients.FindAsync(3))!, userId: 7);
+        var skipped = await _service.SkipAsync(queue, (await DbContext.Patients.FindAsync(1))!, userId: 7);
+
+        queue.CurrentPosition.Should().Be(1);
+        (await DbContext.Patients.FindAsync(3))!.Status.Should().Be("cancelled");
+        skipped.Patients.Single().Position.Should().Be(5);
+        skipped.Patients.Single().Status.Should().Be("waiting");
+        _service.CanChangeStatus("cancelled").Should().BeFalse();
+        _service.CanChangeStatus("in_service").Should().BeTrue();
+    }
+}
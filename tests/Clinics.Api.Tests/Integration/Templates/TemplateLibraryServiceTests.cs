@@ -0,0 +1,107 @@
+using FluentAssertions;
+using Clinics.Api.Services;
+using Clinics.Domain;
+using Microsoft.EntityFrameworkCore;
+
+namespace Clinics.Api.Tests.Integration.Templates;
+
+/// <summary>
+/// Integration tests for the template library (TemplateLibraryService).
+/// Uses EF Core InMemory provider for isolated database tests.
+///
+/// Tests verify:
+/// - Copied templates are independent, linked templates record the library template
+/// - Library edits reach linked templates as new versions, but not overrides or copies
+/// - Deleting a library template leaves linked templates as regular templates
+/// </summary>
+public class TemplateLibraryServiceTests : IntegrationTestBase
+{
+    private readonly TemplateLibraryService _service;
+
+    public TemplateLibraryServiceTests()
+    {
+        _service = new TemplateLibraryService(DbContext, new TemplateVersionService(DbContext));
+    }
+
+    private async Task<(LibraryTemplate LibraryTemplate, Queue Queue)> CreateLibraryTemplateAsync()
+    {
+        var queue = new Queue { Id = 1, DoctorName = "د. علي", ModeratorId = 7, CreatedBy = 7 };
+        DbContext.Queues.Add(queue);
+
+        var libraryTemplate = new LibraryTemplate
+        {
+            Title = "تذكير",
+            Content = "مرحباً {PN}، دورك قريب",
+            Scope = "moderator",
+            ModeratorId = 7
+        };
+        DbContext.LibraryTemplates.Add(libraryTemplate);
+        await DbContext.SaveChangesAsync();
+
+        return (libraryTemplate, queue);
+    }
+
+    [Fact]
+    public async Task AddToQueue_LinkAndCopy_CreateUnconditionedTemplatesWithFirstVersion()
+    {
+        var (libraryTemplate, queue) = await CreateLibraryTemplateAsync();
+
+        var linked = await _service.AddToQueueAsync(libraryTemplate, queue, link: true, userId: 7);
+        var copied = await _service.AddToQueueAsync(libraryTemplate, queue, link: false, userId: 7);
+
+        linked.LibraryTemplateId.Should().Be(libraryTemplate.Id);
+        copied.LibraryTemplateId.Should().BeNull();
+        linked.Content.Should().Be(libraryTemplate.Content);
+
+        var conditions = await DbContext.Set<MessageCondition>().ToListAsync();
+        conditions.Should().OnlyContain(c => c.Operator == "UNCONDITIONED");
+        conditions.Select(c => c.TemplateId).Should().BeEquivalentTo(new int?[] { linked.Id, copied.Id });
+
+        (await DbContext.MessageTemplateVersions.CountAsync()).Should().Be(2);
+    }
+
+    [Fact]
+    public async Task Propagate_UpdatesOnlyFollowingLinkedTemplates()
+    {
+        var (libraryTemplate, queue) = await CreateLibraryTemplateAsync();
+        var following = await _service.AddToQueueAsync(libraryTemplate, queue, link: true, userId: 7);
+        var overridden = await _service.AddToQueueAsync(libraryTemplate, queue, link: true, userId: 7);
+        var copied = await _service.AddToQueueAsync(libraryTemplate, queue, link: false, userId: 7);
+
+        overridden.Content = "نص خاص بهذه العيادة";
+        overridden.IsLibraryOverride = true;
+        await DbContext.SaveChangesAsync();
+
+        libraryTemplate.Content = "مرحباً {PN}، تبقى {PQP} قبلك";
+        var updated = await _service.PropagateAsync(libraryTemplate, userId: 8);
+        await DbContext.SaveChangesAsync();
+
+        updated.Should().Be(1);
+        following.Content.Should().Be(libraryTemplate.Content);
+        following.VersionNumber.Should().Be(2);
+        following.UpdatedBy.Should().Be(8);
+        overridden.Content.Should().Be("نص خاص بهذه العيادة");
+        copied.Content.Should().Be("مرحباً {PN}، دورك قريب");
+
+        var counts = await _service.GetLinkedCountsAsync(new[] { libraryTemplate.Id });
+        counts[libraryTemplate.Id].Should().Be(1);
+    }
+
+    [Fact]
+    public async Task UnlinkAll_KeepsTextAndClearsLink()
+    {
+        var (libraryTemplate, queue) = await CreateLibraryTemplateAsync();
+        var linked = await _service.AddToQueueAsync(libraryTemplate, queue, link: true, userId: 7);
+        linked.IsLibraryOverride = true;
+        await DbContext.SaveChangesAsync();
+
+        await _service.UnlinkAllAsync(libraryTemplate.Id);
+        DbContext.LibraryTemplates.Remove(libraryTemplate);
+        await DbContext.SaveChangesAsync();
+
+        var template = await DbContext.MessageTemplates.SingleAsync();
+        template.LibraryTemplateId.Should().BeNull();
+        template.IsLibraryOverride.Should().BeFalse();
+        template.Content.Should().Be("مرحباً {PN}، دورك قريب");
+    }
+}
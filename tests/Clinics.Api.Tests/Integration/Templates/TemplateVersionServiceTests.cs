@@ -0,0 +1,94 @@
+using FluentAssertions;
+using Clinics.Api.Services;
+using Clinics.Domain;
+
+namespace Clinics.Api.Tests.Integration.Templates;
+
+/// <summary>
+/// Integration tests for template versioning (TemplateVersionService).
+/// Uses EF Core InMemory provider for isolated database tests.
+///
+/// Tests verify:
+/// - The first version is saved as version 1, later edits increment the number
+/// - Unchanged saves do not create versions
+/// - Version list is newest first with author names and the current flag
+/// - The current version ID per template (recorded on queued messages)
+/// </summary>
+public class TemplateVersionServiceTests : IntegrationTestBase
+{
+    private readonly TemplateVersionService _service;
+
+    public TemplateVersionServiceTests()
+    {
+        _service = new TemplateVersionService(DbContext);
+    }
+
+    private async Task<(MessageTemplate Template, MessageCondition Condition)> CreateTemplateAsync(string content = "مرحباً {PN}")
+    {
+        DbContext.Users.Add(new User { Id = 7, Username = "mod", FirstName = "أحمد", LastName = "علي", Role = "moderator" });
+
+        var condition = new MessageCondition { QueueId = 1, Operator = "RANGE", MinValue = 1, MaxValue = 3 };
+        DbContext.Set<MessageCondition>().Add(condition);
+        await DbContext.SaveChangesAsync();
+
+        var template = new MessageTemplate
+        {
+            Title = "تذكير",
+            Content = content,
+            QueueId = 1,
+            ModeratorId = 7,
+            CreatedBy = 7,
+            MessageConditionId = condition.Id,
+            CreatedAt = DateTime.UtcNow
+        };
+        DbContext.MessageTemplates.Add(template);
+        await DbContext.SaveChangesAsync();
+
+        _service.AddVersion(template, condition, 7, isInitial: true);
+        await DbContext.SaveChangesAsync();
+        return (template, condition);
+    }
+
+    [Fact]
+    public async Task AddVersion_OnEdit_IncrementsVersionNumber()
+    {
+        var (template, condition) = await CreateTemplateAsync();
+
+        template.Content = "دورك قريب يا {PN}";
+        (await _service.HasChangedAsync(template, condition)).Should().BeTrue();
+        _service.AddVersion(template, condition, 7);
+        await DbContext.SaveChangesAsync();
+
+        template.VersionNumber.Should().Be(2);
+        var versions = await _service.GetVersionsAsync(template);
+        versions.Select(v => v.VersionNumber).Should().Equal(2, 1);
+        versions[0].IsCurrent.Should().BeTrue();
+        versions[1].Content.Should().Be("مرحباً {PN}");
+        versions[1].UpdatedByName.Should().Be("أحمد علي");
+    }
+
+    [Fact]
+    public async Task HasChanged_DetectsConditionChangesOnly()
+    {
+        var (template, condition) = await CreateTemplateAsync();
+
+        (await _service.HasChangedAsync(template, condition)).Should().BeFalse();
+
+        condition.MaxValue = 5;
+        (await _service.HasChangedAsync(template, condition)).Should().BeTrue();
+    }
+
+    [Fact]
+    public async Task GetCurrentVersionIds_ReturnsLatestVersionPerTemplate()
+    {
+        var (template, condition) = await CreateTemplateAsync();
+        template.Content = "تعديل";
+        var latest = _service.AddVersion(template, condition, 7);
+        await DbContext.SaveChangesAsync();
+
+        var ids = await _service.GetCurrentVersionIdsAsync(new[] { template.Id, 999 });
+
+        ids.Should().ContainSingle();
+        ids[template.Id].Should().Be(latest.Id);
+    }
+}
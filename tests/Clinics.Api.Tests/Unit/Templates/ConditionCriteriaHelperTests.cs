@@ -0,0 +1,151 @@
+using System;
+using System.Collections.Generic;
+using Clinics.Api.DTOs;
+using Clinics.Api.Helpers;
+using Clinics.Domain;
+using Clinics.Infrastructure.Services;
+using FluentAssertions;
+using Xunit;
+
+namespace Clinics.Api.Tests.Unit.Templates;
+
+/// <summary>
+/// Unit tests for ConditionCriteriaHelper (extra condition criteria evaluated when the backend sends).
+///
+/// Tests verify the same semantics as apps/web/utils/conditionCriteria.ts: time window (wrapping midnight),
+/// weekdays, patient status, country code, already messaged, AND/OR logic and validation.
+/// </summary>
+public class ConditionCriteriaHelperTests
+{
+    /// <summary>
+    /// Sunday 18 January 2026, 10:15 clinic time
+    /// </summary>
+    private static readonly DateTime SundayMorningUtc = TimeZoneInfo.ConvertTimeToUtc(
+        new DateTime(2026, 1, 18, 10, 15, 0, DateTimeKind.Unspecified), ContentVariableResolver.ClinicTimeZone);
+
+    private static Patient CreatePatient(string status = "waiting", string countryCode = "+20") => new()
+    {
+        Id = 1,
+        QueueId = 1,
+        FullName = "أحمد",
+        PhoneNumber = "1012345678",
+        CountryCode = countryCode,
+        Position = 5,
+        Status = status
+    };
+
+    private static MessageCondition CreateCondition(ConditionCriteriaDto? criteria, string? logic = null, string op = "RANGE") => new()
+    {
+        Id = 1,
+        QueueId = 1,
+        Operator = op,
+        MinValue = 1,
+        MaxValue = 10,
+        Criteria = ConditionCriteriaHelper.Serialize(criteria),
+        CriteriaLogic = logic
+    };
+
+    [Fact]
+    public void Matches_WithoutCriteria_ReturnsTrue()
+    {
+        ConditionCriteriaHelper.Matches(CreateCondition(null), CreatePatient(), null, SundayMorningUtc)
+            .Should().BeTrue();
+    }
+
+    [Theory]
+    [InlineData("10:00", "10:30", true)]
+    [InlineData("10:15", "11:00", true)]
+    [InlineData("09:00", "10:15", false)] // end is exclusive
+    [InlineData("22:00", "10:30", true)]  // wraps midnight
+    [InlineData("22:00", "06:00", false)]
+    public void Matches_TimeWindow_UsesClinicTime(string start, string end, bool expected)
+    {
+        var condition = CreateCondition(new ConditionCriteriaDto
+        {
+            TimeWindow = new ConditionTimeWindowDto { Start = start, End = end }
+        });
+
+        ConditionCriteriaHelper.Matches(condition, CreatePatient(), null, SundayMorningUtc)
+            .Should().Be(expected);
+    }
+
+    [Fact]
+    public void Matches_DaysOfWeek_ZeroIsSunday()
+    {
+        var sunday = CreateCondition(new ConditionCriteriaDto { DaysOfWeek = new List<int> { 0 } });
+        var weekdays = CreateCondition(new ConditionCriteriaDto { DaysOfWeek = new List<int> { 1, 2, 3, 4 } });
+
+        ConditionCriteriaHelper.Matches(sunday, CreatePatient(), null, SundayMorningUtc).Should().BeTrue();
+        ConditionCriteriaHelper.Matches(weekdays, CreatePatient(), null, SundayMorningUtc).Should().BeFalse();
+    }
+
+    [Fact]
+    public void Matches_StatusAndCountry_NormalizesCountryCode()
+    {
+        var condition = CreateCondition(new ConditionCriteriaDto
+        {
+            PatientStatuses = new List<string> { "waiting" },
+            CountryCodes = new List<string> { "0020" }
+        });
+
+        ConditionCriteriaHelper.Matches(condition, CreatePatient(), null, SundayMorningUtc).Should().BeTrue();
+        ConditionCriteriaHelper.Matches(condition, CreatePatient(countryCode: "+966"), null, SundayMorningUtc).Should().BeFalse();
+        ConditionCriteriaHelper.Matches(condition, CreatePatient(status: "completed"), null, SundayMorningUtc).Should().BeFalse();
+    }
+
+    [Fact]
+    public void Matches_AlreadyMessaged_UnknownHistoryDoesNotMatch()
+    {
+        var condition = CreateCondition(new ConditionCriteriaDto { AlreadyMessaged = false });
+
+        ConditionCriteriaHelper.Matches(condition, CreatePatient(), false, SundayMorningUtc).Should().BeTrue();
+        ConditionCriteriaHelper.Matches(condition, CreatePatient(), true, SundayMorningUtc).Should().BeFalse();
+        ConditionCriteriaHelper.Matches(condition, CreatePatient(), null, SundayMorningUtc).Should().BeFalse();
+    }
+
+    [Fact]
+    public void Matches_OrLogic_NeedsOneDimension()
+    {
+        var criteria = new ConditionCriteriaDto
+        {
+            DaysOfWeek = new List<int> { 5 },
+            PatientStatuses = new List<string> { "waiting" }
+        };
+
+        ConditionCriteriaHelper.Matches(CreateCondition(criteria), CreatePatient(), null, SundayMorningUtc).Should().BeFalse();
+        ConditionCriteriaHelper.Matches(CreateCondition(criteria, "OR"), CreatePatient(), null, SundayMorningUtc).Should().BeTrue();
+    }
+
+    [Fact]
+    public void Matches_SentinelOperators_IgnoreCriteria()
+    {
+        var condition = CreateCondition(new ConditionCriteriaDto { DaysOfWeek = new List<int> { 5 } }, op: "DEFAULT");
+
+        ConditionCriteriaHelper.Matches(condition, CreatePatient(), null, SundayMorningUtc).Should().BeTrue();
+    }
+
+    [Fact]
+    public void Serialize_EmptyCriteria_StoresNull()
+    {
+        ConditionCriteriaHelper.Serialize(new ConditionCriteriaDto { DaysOfWeek = new List<int>() }).Should().BeNull();
+    }
+
+    [Theory]
+    [InlineData("9:00", "10:00")]
+    [InlineData("10:00", "10:00")]
+    public void Validate_InvalidTimeWindow_ReturnsError(string start, string end)
+    {
+        var criteria = new ConditionCriteriaDto { TimeWindow = new ConditionTimeWindowDto { Start = start, End = end } };
+
+        ConditionCriteriaHelper.Validate(criteria).Should().NotBeNull();
+    }
+
+    [Fact]
+    public void Validate_InvalidValues_ReturnsError()
+    {
+        ConditionCriteriaHelper.Validate(new ConditionCriteriaDto { DaysOfWeek = new List<int> { 7 } }).Should().NotBeNull();
+        ConditionCriteriaHelper.Validate(new ConditionCriteriaDto { PatientStatuses = new List<string> { "done" } }).Should().NotBeNull();
+        ConditionCriteriaHelper.Validate(new ConditionCriteriaDto { CountryCodes = new List<string> { "+12345" } }).Should().NotBeNull();
+        ConditionCriteriaHelper.Validate(new ConditionCriteriaDto { CountryCodes = new List<string> { "+20" } }).Should().BeNull();
+    }
+}
@@ -0,0 +1,80 @@
+using System.Collections.Generic;
+using Clinics.Domain;
+using Clinics.Infrastructure.Services;
+using FluentAssertions;
+using Xunit;
+
+namespace Clinics.Api.Tests.Unit.Templates;
+
+/// <summary>
+/// Unit tests for ContentVariableResolver (message content sent by the backend).
+///
+/// Tests verify that the backend renders templates like the frontend preview engine
+/// (apps/web/utils/templatePlaceholders.ts): per-queue custom variables, explicit fallbacks
+/// and the built-in defaults for {PN} and {DN}.
+/// </summary>
+public class ContentVariableResolverTests
+{
+    private readonly ContentVariableResolver _resolver = new();
+
+    private static Patient CreatePatient(string fullName = "أحمد محمد") => new()
+    {
+        Id = 42,
+        QueueId = 1,
+        FullName = fullName,
+        PhoneNumber = "1012345678",
+        Position = 5
+    };
+
+    private static Queue CreateQueue(string doctorName = "د. علي") => new()
+    {
+        Id = 1,
+        DoctorName = doctorName,
+        CurrentPosition = 3,
+        EstimatedWaitMinutes = 15
+    };
+
+    [Fact]
+    public void ResolveVariables_CustomVariable_IsReplaced()
+    {
+        var customVariables = new Dictionary<string, string> { ["ROOM"] = "12" };
+
+        var content = _resolver.ResolveVariables("{PN} - غرفة {ROOM}", CreatePatient(), CreateQueue(), 2, customVariables);
+
+        content.Should().Be("أحمد محمد - غرفة 12");
+    }
+
+    [Fact]
+    public void ResolveVariables_WithoutCustomVariables_LeavesUnknownTokens()
+    {
+        var content = _resolver.ResolveVariables("غرفة {ROOM}", CreatePatient(), CreateQueue(), 2);
+
+        content.Should().Be("غرفة {ROOM}");
+    }
+
+    [Fact]
+    public void ResolveVariables_CustomVariable_DoesNotOverrideBuiltIn()
+    {
+        var customVariables = new Dictionary<string, string> { ["PN"] = "X" };
+
+        var content = _resolver.ResolveVariables("{PN}", CreatePatient(), CreateQueue(), 2, customVariables);
+
+        content.Should().Be("أحمد محمد");
+    }
+
+    [Fact]
+    public void ResolveVariables_EmptyNames_UseBuiltInDefaults()
+    {
+        var content = _resolver.ResolveVariables("{PN} - {DN}", CreatePatient(" "), CreateQueue(""), 2);
+
+        content.Should().Be("Patient ID: 42 - غير محدد");
+    }
+
+    [Fact]
+    public void ResolveVariables_ExplicitFallback_WinsOverBuiltInDefault()
+    {
+        var content = _resolver.ResolveVariables("{PN|عزيزي المريض} - {DN|العيادة}", CreatePatient(""), CreateQueue(""), 2);
+
+        content.Should().Be("عزيزي المريض - العيادة");
+    }
+}